@@ -4,7 +4,7 @@
  */
 
 import { NextRequest } from 'next/server';
-import { POST } from '@/app/api/branding/route';
+import { POST } from '@/app/api/workflows/[workflow]/route';
 
 // Mock dependencies
 jest.mock('@/lib/rate-limit', () => ({
@@ -23,6 +23,11 @@ jest.mock('@/lib/logger', () => ({
   },
 }));
 
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({})),
+}));
+
 jest.mock('@/lib/api-security', () => ({
   validateApiKeys: jest.fn(() => ({ valid: true })),
   validateContentType: jest.fn(() => true),
@@ -35,6 +40,8 @@ jest.mock('@/lib/api/workflows/sketchToRender', () => ({
     source,
   ]),
   validateImages: jest.fn(() => ({ valid: true })),
+  generateBrandingPrompt: jest.fn(() => Promise.resolve('Generated brand prompt')),
+  buildBrandedImageToImagePrompt: jest.fn((prompt) => prompt),
 }));
 
 jest.mock('@/lib/api/providers/gemini', () => ({
@@ -52,7 +59,9 @@ jest.mock('@/lib/api/providers/gemini', () => ({
   })),
 }));
 
-describe('POST /api/branding', () => {
+const routeContext = { params: Promise.resolve({ workflow: 'branding' }) };
+
+describe('POST /api/workflows/branding', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     process.env.GOOGLE_GEMINI_API_KEY = 'test-key';
@@ -76,7 +85,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -84,7 +93,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -111,7 +120,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -119,7 +128,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -145,7 +154,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -153,7 +162,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
 
     expect(response.status).toBe(500);
   });
@@ -162,7 +171,7 @@ describe('POST /api/branding', () => {
     const { validateContentType } = require('@/lib/api-security');
     validateContentType.mockReturnValueOnce(false);
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'text/plain',
@@ -170,7 +179,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify({ prompt: 'test' }),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -192,7 +201,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -200,7 +209,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(429);
@@ -219,7 +228,7 @@ describe('POST /api/branding', () => {
       sourceImage: null,
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -227,7 +236,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(400);
@@ -251,7 +260,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -259,7 +268,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -279,7 +288,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -287,7 +296,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -308,7 +317,7 @@ describe('POST /api/branding', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/branding', {
+    const request = new NextRequest('http://localhost/api/workflows/branding', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -316,7 +325,7 @@ describe('POST /api/branding', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
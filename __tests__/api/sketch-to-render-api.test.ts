@@ -4,7 +4,7 @@
  */
 
 import { NextRequest } from 'next/server';
-import { POST } from '@/app/api/sketch-to-render/route';
+import { POST } from '@/app/api/workflows/[workflow]/route';
 
 // Mock dependencies
 jest.mock('@/lib/rate-limit', () => ({
@@ -23,6 +23,11 @@ jest.mock('@/lib/logger', () => ({
   },
 }));
 
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({})),
+}));
+
 jest.mock('@/lib/api-security', () => ({
   validateApiKeys: jest.fn(() => ({ valid: true })),
   validateContentType: jest.fn(() => true),
@@ -35,6 +40,8 @@ jest.mock('@/lib/api/workflows/sketchToRender', () => ({
     source,
   ]),
   validateImages: jest.fn(() => ({ valid: true })),
+  buildImageToImagePrompt: jest.requireActual('@/lib/api/workflows/sketchToRender/promptBuilder')
+    .buildImageToImagePrompt,
   buildArchitecturalPrompt: jest.fn((prompt) => `Fallback: ${prompt}`),
 }));
 
@@ -53,7 +60,9 @@ jest.mock('@/lib/api/providers/gemini', () => ({
   })),
 }));
 
-describe('POST /api/sketch-to-render', () => {
+const routeContext = { params: Promise.resolve({ workflow: 'sketch-to-render' }) };
+
+describe('POST /api/workflows/sketch-to-render', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     process.env.GOOGLE_GEMINI_API_KEY = 'test-key';
@@ -72,7 +81,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -80,7 +89,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -110,7 +119,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -118,7 +127,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -134,7 +143,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -142,7 +151,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -167,7 +176,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -175,7 +184,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
 
     expect(response.status).toBe(500);
   });
@@ -184,7 +193,7 @@ describe('POST /api/sketch-to-render', () => {
     const { validateContentType } = require('@/lib/api-security');
     validateContentType.mockReturnValueOnce(false);
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'text/plain',
@@ -192,7 +201,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify({ prompt: 'test' }),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -214,7 +223,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -222,7 +231,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(429);
@@ -241,7 +250,7 @@ describe('POST /api/sketch-to-render', () => {
       sourceImage: null,
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -249,7 +258,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(400);
@@ -271,7 +280,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -279,7 +288,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -299,7 +308,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -307,7 +316,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -323,7 +332,7 @@ describe('POST /api/sketch-to-render', () => {
       },
     };
 
-    const request = new NextRequest('http://localhost/api/sketch-to-render', {
+    const request = new NextRequest('http://localhost/api/workflows/sketch-to-render', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -331,7 +340,7 @@ describe('POST /api/sketch-to-render', () => {
       body: JSON.stringify(requestBody),
     });
 
-    const response = await POST(request);
+    const response = await POST(request, routeContext);
     const data = await response.json();
 
     expect(response.status).toBe(200);
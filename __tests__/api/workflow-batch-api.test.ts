@@ -0,0 +1,169 @@
+/**
+ * Workflow Batch API Route Tests
+ * Tests batch generation of all setting combinations of a workflow
+ */
+
+import type { NextRequest } from 'next/server';
+import { POST } from '@/app/api/workflows/[workflow]/batch/route';
+import { imageGenerationRateLimiter } from '@/lib/rate-limit';
+import { saveWorkflowGeneration } from '@/lib/utils/workflowDatabase';
+
+// Response of the jsdom setup has no static json()
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      headers: new Headers(),
+      json: () => Promise.resolve(body),
+    }),
+  },
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  imageGenerationRateLimiter: {
+    check: jest.fn(() => ({ success: true })),
+  },
+  getClientId: jest.fn(() => 'test-client-id'),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+  },
+  apiLogger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/api-security', () => ({
+  validateApiKeys: jest.fn(() => ({ valid: true })),
+  validateContentType: jest.fn(() => true),
+}));
+
+jest.mock('@/lib/api/workflows/sketchToRender', () => ({
+  ...jest.requireActual('@/lib/api/workflows/sketchToRender'),
+  enhanceSketchToRenderPrompt: jest.fn(() => Promise.resolve('Enhanced rendering prompt')),
+  validateImages: jest.fn(() => ({ valid: true })),
+}));
+
+jest.mock('@/lib/api/providers/gemini', () => ({
+  geminiClient: {
+    getGenerativeModel: jest.fn(() => ({})),
+  },
+  GEMINI_MODELS: {
+    imageGeneration: 'gemini-2.5-flash-image-preview',
+  },
+  buildGenerationConfig: jest.fn(() => ({})),
+  generateSingleImage: jest.fn(() => Promise.resolve({})),
+  parseImageFromResponse: jest.fn(() => ({
+    data: 'YmFzZTY0LWltYWdl',
+    mimeType: 'image/png',
+  })),
+}));
+
+jest.mock('@/lib/utils/workflowDatabase', () => ({
+  uploadWorkflowImage: jest.fn((_userId, _image, fileName) =>
+    Promise.resolve(`https://storage.example.com/${fileName}`)
+  ),
+  saveWorkflowGeneration: jest.fn((_table, _userId, data) =>
+    Promise.resolve({ id: `generation-${data.metadata.batchIndex}`, ...data })
+  ),
+}));
+
+function createRequest(workflow: string, body: Record<string, unknown>) {
+  return {
+    url: `http://localhost/api/workflows/${workflow}/batch`,
+    method: 'POST',
+    headers: new Headers({ 'Content-Type': 'application/json' }),
+    json: () => Promise.resolve(body),
+  } as unknown as NextRequest;
+}
+
+const requestBody = {
+  userId: 'user-1',
+  prompt: 'Timber house',
+  sourceImage: { data: 'c2tldGNo', mimeType: 'image/png' },
+  settings: { designStyle: 'modern' },
+  variations: { timeOfDay: ['morning', 'evening', 'night'] },
+};
+
+describe('POST /api/workflows/[workflow]/batch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render and save every variant', async () => {
+    const response = await POST(createRequest('sketch-to-render', requestBody), {
+      params: Promise.resolve({ workflow: 'sketch-to-render' }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.generations).toHaveLength(3);
+    expect(data.metadata.batchId).toEqual(expect.any(String));
+    expect(data.metadata.variantCount).toBe(3);
+    expect(saveWorkflowGeneration).toHaveBeenCalledWith(
+      'sketch_to_render',
+      'user-1',
+      expect.objectContaining({
+        settings: { designStyle: 'modern', timeOfDay: 'night' },
+        metadata: expect.objectContaining({ batchId: data.metadata.batchId, batchIndex: 2 }),
+      })
+    );
+    for (const [, , generation] of (saveWorkflowGeneration as jest.Mock).mock.calls) {
+      expect(generation.parentId).toBeUndefined();
+    }
+  });
+
+  it('should charge the rate limit per variant', async () => {
+    (imageGenerationRateLimiter.check as jest.Mock).mockReturnValueOnce({
+      success: false,
+      reset: Date.now() + 60000,
+    });
+
+    const response = await POST(createRequest('sketch-to-render', requestBody), {
+      params: Promise.resolve({ workflow: 'sketch-to-render' }),
+    });
+
+    expect(imageGenerationRateLimiter.check).toHaveBeenCalledWith('test-client-id', 3);
+    expect(response.status).toBe(429);
+    expect(saveWorkflowGeneration).not.toHaveBeenCalled();
+  });
+
+  it('should reject workflows without batch generation', async () => {
+    const response = await POST(createRequest('branding', requestBody), {
+      params: Promise.resolve({ workflow: 'branding' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject variations that are not in the settings schema', async () => {
+    const response = await POST(
+      createRequest('sketch-to-render', {
+        ...requestBody,
+        variations: { timeOfDay: ['morning', 'teatime'] },
+      }),
+      { params: Promise.resolve({ workflow: 'sketch-to-render' }) }
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject batches with a single variant', async () => {
+    const response = await POST(
+      createRequest('sketch-to-render', { ...requestBody, variations: { timeOfDay: ['morning'] } }),
+      { params: Promise.resolve({ workflow: 'sketch-to-render' }) }
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -42,9 +42,49 @@ describe("ProfilePage", () => {
 
   const mockBack = jest.fn();
 
+  const mockUsage = {
+    since: "2024-01-01T00:00:00.000Z",
+    totals: {
+      calls: 12,
+      promptTokens: 40000,
+      completionTokens: 10000,
+      totalTokens: 50000,
+      costUsd: 0.27,
+    },
+    byModel: {},
+    bySource: {
+      slides_generation: {
+        calls: 2,
+        promptTokens: 30000,
+        completionTokens: 8000,
+        totalTokens: 38000,
+        costUsd: 0.21,
+      },
+    },
+    presentations: [
+      {
+        presentationId: "pres-1",
+        title: "Quartalsbericht",
+        calls: 2,
+        promptTokens: 30000,
+        completionTokens: 8000,
+        totalTokens: 38000,
+        costUsd: 0.21,
+      },
+    ],
+  };
+
+  const mockFetch = jest.fn<typeof fetch>();
+
   beforeEach(() => {
     jest.clearAllMocks();
 
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, usage: mockUsage }),
+    } as Response);
+    global.fetch = mockFetch;
+
     // Setup auth context mock
     mockUseAuth.mockReturnValue({
       user: mockUser,
@@ -399,6 +439,33 @@ describe("ProfilePage", () => {
     });
   });
 
+  describe("usage", () => {
+    it("should load and display the user's usage", async () => {
+      render(<ProfilePage />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Quartalsbericht")).toBeInTheDocument();
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith("/api/agents/usage?userId=123&days=30");
+      expect(screen.getByText("$0,27")).toBeInTheDocument();
+      expect(screen.getByText("Foliengenerierung")).toBeInTheDocument();
+    });
+
+    it("should show an error if usage cannot be loaded", async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: async () => ({ error: "Internal server error" }),
+      } as Response);
+
+      render(<ProfilePage />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Internal server error")).toBeInTheDocument();
+      });
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle user without metadata gracefully", () => {
       mockUseAuth.mockReturnValue({
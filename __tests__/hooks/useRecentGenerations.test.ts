@@ -343,7 +343,7 @@ describe('useRecentGenerations', () => {
 
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          '/api/branding/generations?userId=test-user-id'
+          '/api/workflows/branding/generations?userId=test-user-id'
         );
       });
     });
@@ -492,7 +492,7 @@ describe('useRecentGenerations', () => {
         await result.current.deleteGeneration('gen-123');
       });
 
-      expect(global.fetch).toHaveBeenCalledWith('/api/sketch-to-render/delete-generation', {
+      expect(global.fetch).toHaveBeenCalledWith('/api/workflows/sketch-to-render/delete-generation', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -116,7 +116,7 @@ describe('useWorkflowHandlers', () => {
         });
       });
 
-      expect(global.fetch).toHaveBeenCalledWith('/api/sketch-to-render/save-generation', {
+      expect(global.fetch).toHaveBeenCalledWith('/api/workflows/sketch-to-render/save-generation', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: expect.stringContaining('test-render'),
@@ -0,0 +1,152 @@
+/**
+ * Agent Orchestrator Tests
+ *
+ * Tests persisted workflow runs (step results and timings)
+ * and resuming failed runs from the last completed step
+ */
+
+import { AgentOrchestrator } from '@/lib/agents/base/AgentOrchestrator';
+import { BaseAgent } from '@/lib/agents/base/BaseAgent';
+import { InMemoryWorkflowRunStore } from '@/lib/agents/base/WorkflowRunStore';
+import type { AgentExecutionContext, AgentResult, WorkflowPlan } from '@/lib/agents/base/types';
+
+class FakeAgent extends BaseAgent {
+  readonly calls: any[] = [];
+
+  constructor(name: string, private readonly run: (input: any) => any) {
+    super({ name, description: name, version: '1.0.0' });
+  }
+
+  async execute(input: any, _context: AgentExecutionContext): Promise<AgentResult> {
+    this.calls.push(input);
+    return { success: true, data: this.run(input) };
+  }
+}
+
+const CONTEXT: AgentExecutionContext = { userId: 'user-1', sessionId: 'session-1' };
+
+function createPlan(): WorkflowPlan {
+  return {
+    id: 'plan-1',
+    name: 'Research and write',
+    steps: [
+      { id: 'step-1', name: 'research', agentName: 'research', input: { topic: 'Solar' }, context: CONTEXT },
+      {
+        id: 'step-2',
+        name: 'write',
+        agentName: 'writer',
+        input: {},
+        context: CONTEXT,
+        dependencies: ['research'],
+      },
+    ],
+  };
+}
+
+describe('AgentOrchestrator run persistence', () => {
+  let store: InMemoryWorkflowRunStore;
+  let research: FakeAgent;
+  let writerFails: boolean;
+  let writer: FakeAgent;
+  let orchestrator: AgentOrchestrator;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    store = new InMemoryWorkflowRunStore();
+    writerFails = false;
+    research = new FakeAgent('research', (input) => ({ sources: [`${input.topic} source`] }));
+    writer = new FakeAgent('writer', (input) => {
+      if (writerFails) throw new Error('LLM unavailable');
+      return { text: `Based on ${input.research.sources[0]}` };
+    });
+
+    orchestrator = new AgentOrchestrator({ name: 'TestOrchestrator', enableLogging: false, store });
+    orchestrator.registerAgent('research', research);
+    orchestrator.registerAgent('writer', writer);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should persist the run and every step with timings', async () => {
+    const result = await orchestrator.executeWorkflow(createPlan());
+
+    expect(result.success).toBe(true);
+    expect(result.runId).toBeDefined();
+
+    const run = await orchestrator.getRun(result.runId!);
+    expect(run).toMatchObject({
+      orchestratorName: 'TestOrchestrator',
+      userId: 'user-1',
+      status: 'completed',
+      resumeCount: 0,
+    });
+    expect(run?.steps).toHaveLength(2);
+    for (const step of run?.steps || []) {
+      expect(step).toMatchObject({ status: 'completed', result: { success: true } });
+      expect(step.startedAt).toBeDefined();
+      expect(step.executionTime).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should resume a failed run without re-running completed steps', async () => {
+    writerFails = true;
+    const failed = await orchestrator.executeWorkflow(createPlan());
+
+    expect(failed.success).toBe(false);
+    const failedRun = await orchestrator.getRun(failed.runId!);
+    expect(failedRun?.status).toBe('failed');
+    expect(failedRun?.steps.find((step) => step.stepId === 'step-2')).toMatchObject({
+      status: 'failed',
+      error: expect.stringContaining('LLM unavailable'),
+    });
+
+    writerFails = false;
+    const resumed = await orchestrator.resumeWorkflow(failed.runId!);
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.runId).toBe(failed.runId);
+    expect(resumed.metadata).toMatchObject({ resumedSteps: 1, resumeCount: 1 });
+    expect(research.calls).toHaveLength(1);
+    // Dependency data comes from the persisted research result
+    expect(resumed.stepResults['step-2']?.data).toEqual({ text: 'Based on Solar source' });
+
+    const run = await orchestrator.getRun(failed.runId!);
+    expect(run).toMatchObject({ status: 'completed', resumeCount: 1, errors: [] });
+  });
+
+  it('should return the stored result when resuming a completed run', async () => {
+    const result = await orchestrator.executeWorkflow(createPlan());
+    const resumed = await orchestrator.resumeWorkflow(result.runId!);
+
+    expect(resumed.success).toBe(true);
+    expect(Object.keys(resumed.stepResults)).toEqual(['step-1', 'step-2']);
+    expect(research.calls).toHaveLength(1);
+    expect(writer.calls).toHaveLength(1);
+  });
+
+  it('should reject unknown runs', async () => {
+    await expect(orchestrator.resumeWorkflow('missing')).rejects.toThrow('Workflow run not found');
+  });
+
+  it('should keep executing when the store fails', async () => {
+    jest.spyOn(store, 'saveStep').mockRejectedValue(new Error('Database down'));
+
+    const result = await orchestrator.executeWorkflow(createPlan());
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should list runs of this orchestrator', async () => {
+    await orchestrator.executeWorkflow(createPlan());
+    writerFails = true;
+    await orchestrator.executeWorkflow(createPlan());
+
+    expect(await orchestrator.listRuns()).toHaveLength(2);
+    expect(await orchestrator.listRuns({ status: 'failed' })).toHaveLength(1);
+    expect(await orchestrator.listRuns({ userId: 'other-user' })).toHaveLength(0);
+  });
+});
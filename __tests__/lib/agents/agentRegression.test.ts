@@ -0,0 +1,127 @@
+/**
+ * Agent Regression Tests
+ *
+ * Runs ResearchAgent and CoordinatorAgent against recorded tool fixtures
+ * (__tests__/lib/agents/fixtures), without network access.
+ *
+ * Fixtures are keyed by the tool input, so changing a prompt makes the
+ * replay fail with "No fixture recorded". Re-record the fixtures with live
+ * API keys by running the agents with `useToolFixtures({ mode: 'record', ... })`.
+ */
+
+import path from 'path';
+
+// No live calls: the Anthropic client is an automock and fetch always fails
+jest.mock('@anthropic-ai/sdk');
+// BrowserTool only needs jsdom to parse fetched pages
+jest.mock('jsdom', () => ({ JSDOM: jest.fn() }));
+jest.mock('@/lib/supabase-agent-runs', () => {
+  const { InMemoryWorkflowRunStore } = jest.requireActual('@/lib/agents/base/WorkflowRunStore');
+  return { supabaseWorkflowRunStore: new InMemoryWorkflowRunStore() };
+});
+
+import { CoordinatorAgent } from '@/lib/agents/agents/CoordinatorAgent';
+import { ResearchAgent } from '@/lib/agents/agents/ResearchAgent';
+import { FileToolFixtureStore } from '@/lib/agents/base/FileToolFixtureStore';
+import type { AgentExecutionContext } from '@/lib/agents/base/types';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const TOPIC = 'Timber construction in multi-storey buildings';
+
+const CONTEXT: AgentExecutionContext = { userId: 'user-1', sessionId: 'session-1' };
+
+function replay(fileName: string) {
+  return { mode: 'replay' as const, store: new FileToolFixtureStore(path.join(FIXTURES_DIR, fileName)) };
+}
+
+describe('Agent regression (recorded fixtures)', () => {
+  const originalApiKey = process.env.ANTHROPIC_API_KEY;
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = jest.fn(() => Promise.reject(new Error('Network disabled')));
+  });
+
+  afterEach(() => {
+    process.env.ANTHROPIC_API_KEY = originalApiKey;
+    jest.restoreAllMocks();
+  });
+
+  describe('ResearchAgent', () => {
+    it('should research a topic from recorded search and LLM calls', async () => {
+      const agent = new ResearchAgent();
+      agent.useToolFixtures(replay('research-agent.json'));
+
+      const result = await agent.executeWithTracking(
+        { topic: TOPIC, depth: 'quick', includeNews: true },
+        CONTEXT
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.sources.map((source) => source.domain)).toEqual([
+        'archdaily.com',
+        'woodworks.org',
+        'nature.com',
+        'theguardian.com',
+        'dw.com',
+        'reuters.com',
+      ]);
+      expect(result.data?.keyFindings).toHaveLength(6);
+      expect(result.data?.summary).toMatch(/^Mass timber has become a viable structural system/);
+      // Replayed calls are not billed
+      expect(result.metadata?.usage).toBeUndefined();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fail when a call was not recorded', async () => {
+      const agent = new ResearchAgent();
+      agent.useToolFixtures(replay('research-agent.json'));
+
+      const result = await agent.executeWithTracking({ topic: TOPIC, depth: 'deep' }, CONTEXT);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No fixture recorded for tool search');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CoordinatorAgent', () => {
+    it('should run the presentation workflow (research, then content writing)', async () => {
+      const coordinator = new CoordinatorAgent();
+      coordinator.useToolFixtures(replay('coordinator-agent.json'));
+
+      const result = await coordinator.executeWithTracking(
+        { task: TOPIC, taskType: 'presentation', audience: 'architects' },
+        CONTEXT
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.metadata.agentsUsed).toEqual(['research', 'content_writer']);
+      expect(result.data?.result.content).toMatch(/^# Timber Construction in Multi-Storey Buildings/);
+      // Research step output was wired into the content step
+      expect(result.data?.result.research.sources).toHaveLength(7);
+      expect(result.data?.result.research.keyPoints).toHaveLength(6);
+    });
+
+    it('should run a workflow planned by the LLM', async () => {
+      const coordinator = new CoordinatorAgent();
+      coordinator.useToolFixtures(replay('coordinator-agent.json'));
+
+      const result = await coordinator.executeWithTracking(
+        { task: `Summarize the state of ${TOPIC.toLowerCase()}`, taskType: 'research' },
+        CONTEXT
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.plan.steps.map((step) => step.name)).toEqual(['research_timber']);
+      expect(result.data?.result.keyFindings).toContain(
+        'The 2021 IBC permits mass timber buildings up to 18 storeys'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+});
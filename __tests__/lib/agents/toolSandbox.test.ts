@@ -0,0 +1,177 @@
+/**
+ * Tool Sandbox Tests
+ *
+ * Tests the domain allowlist/denylist of browser tools and
+ * recording/replaying tool calls with fixture stores
+ */
+
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+// BrowserTool only needs jsdom to parse fetched pages
+jest.mock('jsdom', () => ({ JSDOM: jest.fn() }));
+
+import { BaseAgent } from '@/lib/agents/base/BaseAgent';
+import { BaseTool } from '@/lib/agents/base/BaseTool';
+import { FileToolFixtureStore } from '@/lib/agents/base/FileToolFixtureStore';
+import { InMemoryToolFixtureStore, toolFixtureKey } from '@/lib/agents/base/ToolFixtureStore';
+import { isUrlAllowed } from '@/lib/agents/base/domainPolicy';
+import { UsageTracker, createUsageRecord } from '@/lib/agents/base/usage';
+import { BrowserTool } from '@/lib/agents/tools/BrowserTool';
+import type { AgentExecutionContext, AgentResult, ToolResult } from '@/lib/agents/base/types';
+
+// Tool that counts its (live) calls and reports usage
+class CountingTool extends BaseTool<{ query: string; onChunk?: () => void }, string> {
+  calls = 0;
+
+  constructor() {
+    super({ name: 'counting', description: 'Counts calls', version: '1.0.0' });
+  }
+
+  async execute(input: { query: string }): Promise<ToolResult<string>> {
+    this.calls++;
+    return this.createSuccessResult(`result for ${input.query}`, {
+      usage: createUsageRecord('claude-sonnet-4-5', 100, 50),
+    });
+  }
+}
+
+// Agent that fetches a page with its browser tool
+class BrowsingAgent extends BaseAgent<{ url: string }, string> {
+  private browserTool = new BrowserTool();
+
+  constructor() {
+    super({ name: 'Browsing', description: 'Fetches pages', version: '1.0.0' });
+    this.registerTool(this.browserTool);
+  }
+
+  async execute(input: { url: string }, context: AgentExecutionContext): Promise<AgentResult<string>> {
+    const content = await this.browserTool.fetchMarkdown(input.url, this.toolOptions(context));
+    return { success: true, data: content };
+  }
+}
+
+const CONTEXT: AgentExecutionContext = { userId: 'user-1', sessionId: 'session-1' };
+
+describe('Tool sandbox', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = jest.fn(() => Promise.reject(new Error('Network disabled')));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('domain policy', () => {
+    it('should match domains with their subdomains and let the denylist win', () => {
+      const policy = { allow: ['example.com'], deny: ['private.example.com'] };
+
+      expect(isUrlAllowed('https://example.com/page', policy)).toBe(true);
+      expect(isUrlAllowed('https://docs.example.com/page', policy)).toBe(true);
+      expect(isUrlAllowed('https://private.example.com/page', policy)).toBe(false);
+      expect(isUrlAllowed('https://notexample.com', policy)).toBe(false);
+      expect(isUrlAllowed('file:///etc/passwd', { deny: ['internal.local'] })).toBe(false);
+      expect(isUrlAllowed('https://anything.org', { deny: ['internal.local'] })).toBe(true);
+      expect(isUrlAllowed('not a url')).toBe(true);
+    });
+
+    it("should block browser requests outside the agent's policy without fetching", async () => {
+      const agent = new BrowsingAgent();
+      agent.setDomainPolicy({ allow: ['wikipedia.org'] });
+
+      const result = await agent.executeWithTracking({ url: 'https://evil.example.com' }, CONTEXT);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Domain not allowed by policy: https://evil.example.com');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should key fixtures by tool and input regardless of key order and callbacks', () => {
+      expect(toolFixtureKey('search', { query: 'a', count: 3 })).toBe(
+        toolFixtureKey('search', { count: 3, query: 'a', onChunk: () => {} })
+      );
+      expect(toolFixtureKey('search', { query: 'a' })).not.toBe(toolFixtureKey('search', { query: 'b' }));
+      expect(toolFixtureKey('search', { query: 'a' })).toMatch(/^search:[0-9a-f]{14}$/);
+    });
+
+    it('should record results and replay them without running the tool', async () => {
+      const store = new InMemoryToolFixtureStore();
+      const recorder = new CountingTool();
+      recorder.useFixtures({ mode: 'record', store });
+      await recorder.executeWithTracking({ query: 'timber' });
+
+      expect(store.getAll()).toEqual([
+        expect.objectContaining({ tool: 'counting', input: { query: 'timber' } }),
+      ]);
+
+      const player = new CountingTool();
+      player.useFixtures({ mode: 'replay', store });
+      const usage = new UsageTracker();
+      const replayed = await player.executeWithTracking({ query: 'timber' }, { usage });
+
+      expect(player.calls).toBe(0);
+      expect(replayed.success).toBe(true);
+      expect(replayed.data).toBe('result for timber');
+      expect(replayed.metadata?.replayed).toBe(true);
+      // Replayed calls are free
+      expect(usage.size).toBe(0);
+
+      const missing = await player.executeWithTracking({ query: 'concrete' });
+      expect(missing.success).toBe(false);
+      expect(missing.error).toMatch(/^No fixture recorded for tool counting \(counting:/);
+    });
+
+    it('should apply the fixtures of an agent to its tools', async () => {
+      const agent = new BrowsingAgent();
+      const store = new InMemoryToolFixtureStore([
+        {
+          key: toolFixtureKey('browser', { url: 'https://example.com', format: 'markdown' }),
+          tool: 'browser',
+          input: { url: 'https://example.com', format: 'markdown' },
+          output: { success: true, data: { url: 'https://example.com', content: '# Example' } },
+          recordedAt: '2025-10-19T00:00:00.000Z',
+        },
+      ]);
+      agent.useToolFixtures({ mode: 'replay', store });
+
+      const result = await agent.executeWithTracking({ url: 'https://example.com' }, CONTEXT);
+
+      expect(result.data).toBe('# Example');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should save fixtures to a file and load them again', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-fixtures-'));
+      const filePath = path.join(dir, 'nested', 'fixtures.json');
+
+      try {
+        const recorder = new CountingTool();
+        recorder.useFixtures({ mode: 'record', store: new FileToolFixtureStore(filePath) });
+        await Promise.all([
+          recorder.executeWithTracking({ query: 'a' }),
+          recorder.executeWithTracking({ query: 'b' }),
+        ]);
+
+        const file = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        expect(file.version).toBe(1);
+        expect(Object.keys(file.fixtures)).toHaveLength(2);
+
+        const player = new CountingTool();
+        player.useFixtures({ mode: 'replay', store: new FileToolFixtureStore(filePath) });
+        const result = await player.executeWithTracking({ query: 'b' });
+
+        expect(result.data).toBe('result for b');
+        expect(player.calls).toBe(0);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Usage Accounting Tests
+ *
+ * Tests cost estimation and how token usage of tool calls is aggregated
+ * per agent execution, per workflow step and per workflow run
+ */
+
+import { AgentOrchestrator } from '@/lib/agents/base/AgentOrchestrator';
+import { BaseAgent } from '@/lib/agents/base/BaseAgent';
+import { BaseTool } from '@/lib/agents/base/BaseTool';
+import { InMemoryWorkflowRunStore } from '@/lib/agents/base/WorkflowRunStore';
+import {
+  UsageTracker,
+  createUsageRecord,
+  estimateCost,
+  mergeUsage,
+} from '@/lib/agents/base/usage';
+import type {
+  AgentExecutionContext,
+  AgentResult,
+  ToolResult,
+  WorkflowStep,
+} from '@/lib/agents/base/types';
+
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+// Tool that reports a fixed LLM usage per call
+class FakeLLMTool extends BaseTool<{ fail?: boolean }, string> {
+  constructor() {
+    super({ name: 'fake_llm', description: 'Reports usage', version: '1.0.0' });
+  }
+
+  async execute(input: { fail?: boolean }): Promise<ToolResult<string>> {
+    if (input.fail) {
+      return this.createErrorResult('Provider error');
+    }
+    return this.createSuccessResult('text', { usage: createUsageRecord(MODEL, 1000, 500) });
+  }
+}
+
+// Agent that makes `calls` tool calls and fails on the attempts listed in `failOn`
+class FakeAgent extends BaseAgent {
+  attempts = 0;
+
+  constructor(name: string, private readonly calls: number, private readonly failOn: number[] = []) {
+    super({ name, description: name, version: '1.0.0' });
+    this.registerTool(new FakeLLMTool());
+  }
+
+  async execute(_input: any, context: AgentExecutionContext): Promise<AgentResult> {
+    this.attempts++;
+    for (let i = 0; i < this.calls; i++) {
+      await this.useTool('fake_llm', {}, this.toolOptions(context));
+    }
+    if (this.failOn.includes(this.attempts)) {
+      return { success: false, error: 'Attempt failed' };
+    }
+    return { success: true, data: this.name };
+  }
+}
+
+const CONTEXT: AgentExecutionContext = { userId: 'user-1', sessionId: 'session-1' };
+
+function step(name: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id: `step-${name}`, name, agentName: name, input: {}, context: CONTEXT, ...overrides };
+}
+
+describe('Usage accounting', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('pricing', () => {
+    it('should estimate cost by the longest matching model prefix', () => {
+      expect(estimateCost(MODEL, 1000, 500)).toBe(0.0105);
+      expect(estimateCost('claude-3-5-haiku-20241022', 1_000_000, 0)).toBe(0.8);
+      expect(estimateCost('brave-search')).toBe(0.005);
+      expect(estimateCost('unknown-model', 1000, 1000)).toBe(0);
+    });
+
+    it('should aggregate records by model and agent', () => {
+      const run = new UsageTracker();
+      const agent = new UsageTracker(run, { agentName: 'writer' });
+      agent.record(createUsageRecord(MODEL, 1000, 500));
+      run.record(createUsageRecord('brave-search'));
+
+      const summary = run.getSummary();
+      expect(summary.calls).toBe(2);
+      expect(summary.totalTokens).toBe(1500);
+      expect(summary.costUsd).toBe(0.0155);
+      expect(summary.byModel[MODEL]?.calls).toBe(1);
+      expect(summary.byAgent).toEqual({ writer: expect.objectContaining({ costUsd: 0.0105 }) });
+
+      expect(mergeUsage(summary, undefined, agent.getSummary()).costUsd).toBe(0.026);
+    });
+  });
+
+  describe('agents and workflows', () => {
+    it('should report tool usage in the agent result and forward it to the caller', async () => {
+      const caller = new UsageTracker();
+      const agent = new FakeAgent('writer', 2);
+      const result = await agent.executeWithTracking({}, { ...CONTEXT, usage: caller });
+
+      expect(result.metadata?.usage?.calls).toBe(2);
+      expect(result.metadata?.usage?.costUsd).toBe(0.021);
+      expect(result.metadata?.tokensUsed).toBe(3000);
+      expect(caller.getRecords()).toEqual([
+        expect.objectContaining({ agentName: 'writer', toolName: 'fake_llm', model: MODEL }),
+        expect.objectContaining({ agentName: 'writer', toolName: 'fake_llm', model: MODEL }),
+      ]);
+    });
+
+    it('should not report usage for failed tool calls', async () => {
+      const tool = new FakeLLMTool();
+      const usage = new UsageTracker();
+
+      await tool.executeWithTracking({ fail: true }, { usage });
+
+      expect(usage.size).toBe(0);
+    });
+
+    it('should aggregate usage per step (including retries) and per run', async () => {
+      const store = new InMemoryWorkflowRunStore();
+      const orchestrator = new AgentOrchestrator({ name: 'Usage', enableLogging: false, store });
+      orchestrator.registerAgent('research', new FakeAgent('research', 1));
+      orchestrator.registerAgent('write', new FakeAgent('write', 2, [1]));
+      const caller = new UsageTracker();
+
+      const result = await orchestrator.executeWorkflow(
+        {
+          id: 'plan',
+          name: 'Usage',
+          steps: [
+            step('research'),
+            step('write', { dependencies: ['research'], retry: { maxAttempts: 2, backoffMs: 0 } }),
+          ],
+        },
+        { usage: caller }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.stepResults['step-research']?.metadata?.usage?.calls).toBe(1);
+      // Both attempts of the retried step are billed
+      expect(result.stepResults['step-write']?.metadata?.usage?.calls).toBe(4);
+      expect(result.usage?.calls).toBe(5);
+      expect(result.usage?.byAgent.write?.calls).toBe(4);
+      expect(caller.size).toBe(5);
+
+      const run = await orchestrator.getRun(result.runId!);
+      expect(run?.usage?.costUsd).toBe(result.usage?.costUsd);
+      expect(run?.plan.steps[0]?.context).not.toHaveProperty('usage');
+    });
+
+    it('should add the usage of a resumed run to the previous executions', async () => {
+      const store = new InMemoryWorkflowRunStore();
+      const orchestrator = new AgentOrchestrator({ name: 'Usage', enableLogging: false, store });
+      orchestrator.registerAgent('research', new FakeAgent('research', 1));
+      orchestrator.registerAgent('write', new FakeAgent('write', 1, [1]));
+
+      const failed = await orchestrator.executeWorkflow({
+        id: 'plan',
+        name: 'Resume',
+        steps: [step('research'), step('write', { dependencies: ['research'] })],
+      });
+      expect(failed.success).toBe(false);
+      expect(failed.usage?.calls).toBe(2);
+
+      const resumed = await orchestrator.resumeWorkflow(failed.runId!);
+      expect(resumed.success).toBe(true);
+      expect(resumed.usage?.calls).toBe(3);
+      expect((await orchestrator.getRun(failed.runId!))?.usage?.calls).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Workflow Cancellation Tests
+ *
+ * Tests AbortSignal propagation from the AgentOrchestrator through agents
+ * into tools, per-step timeouts, and cancelling/resuming persisted runs
+ */
+
+import { AgentOrchestrator } from '@/lib/agents/base/AgentOrchestrator';
+import { BaseAgent } from '@/lib/agents/base/BaseAgent';
+import { BaseTool } from '@/lib/agents/base/BaseTool';
+import { InMemoryWorkflowRunStore } from '@/lib/agents/base/WorkflowRunStore';
+import { isAbortError, linkSignal, raceWithSignal } from '@/lib/agents/base/cancellation';
+import type {
+  AgentExecutionContext,
+  AgentResult,
+  ToolExecutionOptions,
+  ToolResult,
+  WorkflowStep,
+} from '@/lib/agents/base/types';
+
+// Tool that waits `ms` and rejects as soon as its signal aborts
+class SlowTool extends BaseTool<{ ms: number }, string> {
+  abortedCalls = 0;
+
+  constructor() {
+    super({ name: 'slow', description: 'Waits', version: '1.0.0' });
+  }
+
+  async execute(input: { ms: number }, options: ToolExecutionOptions = {}): Promise<ToolResult<string>> {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, input.ms);
+      options.signal?.addEventListener('abort', () => {
+        this.abortedCalls++;
+        clearTimeout(timer);
+        reject(options.signal?.reason);
+      });
+    });
+    return this.createSuccessResult('done');
+  }
+}
+
+// Agent that runs the slow tool with the step's signal
+class SlowAgent extends BaseAgent {
+  calls = 0;
+  readonly tool = new SlowTool();
+
+  constructor(name: string, private readonly ms: (call: number) => number) {
+    super({ name, description: name, version: '1.0.0' });
+    this.registerTool(this.tool);
+  }
+
+  async execute(_input: any, context: AgentExecutionContext): Promise<AgentResult> {
+    this.calls++;
+    const data = await this.useTool('slow', { ms: this.ms(this.calls) }, { signal: context.signal });
+    return { success: true, data: `${this.name}:${data}` };
+  }
+}
+
+const CONTEXT: AgentExecutionContext = { userId: 'user-1', sessionId: 'session-1' };
+
+function step(name: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id: `step-${name}`, name, agentName: name, input: {}, context: CONTEXT, ...overrides };
+}
+
+function createOrchestrator(agents: BaseAgent[], store = new InMemoryWorkflowRunStore()) {
+  const orchestrator = new AgentOrchestrator({ name: 'TestOrchestrator', enableLogging: false, store });
+  agents.forEach((agent) => orchestrator.registerAgent(agent.name, agent));
+  return orchestrator;
+}
+
+describe('Workflow cancellation', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('signals', () => {
+    it('should link parent signals and time out', async () => {
+      const parent = new AbortController();
+      const linked = linkSignal([parent.signal, undefined]);
+      parent.abort('Stop');
+      expect(linked.signal.aborted).toBe(true);
+
+      expect(isAbortError(Object.assign(new Error('Aborted'), { name: 'AbortError' }))).toBe(true);
+
+      const timed = linkSignal(undefined, 10, 'Too slow');
+      await expect(raceWithSignal(new Promise(() => {}), timed.signal)).rejects.toThrow('Too slow');
+      timed.cleanup();
+    });
+
+    it('should abort a tool call and mark the result as cancelled', async () => {
+      const tool = new SlowTool();
+      const controller = new AbortController();
+      setTimeout(() => controller.abort('Cancelled by user'), 10);
+
+      const result = await tool.executeWithTracking({ ms: 1000 }, { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cancelled by user');
+      expect(result.metadata?.cancelled).toBe(true);
+      expect(tool.abortedCalls).toBe(1);
+    });
+
+    it('should time out a tool call', async () => {
+      const result = await new SlowTool().executeWithTracking({ ms: 1000 }, { timeout: 10 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Tool slow timed out after 10ms');
+    });
+
+    it('should not start an agent whose signal is already aborted', async () => {
+      const agent = new SlowAgent('agent', () => 1);
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await agent.executeWithTracking({}, { ...CONTEXT, signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.cancelled).toBe(true);
+      expect(agent.calls).toBe(0);
+    });
+  });
+
+  describe('orchestrator', () => {
+    it('should cancel a run, keep completed steps and resume it', async () => {
+      const store = new InMemoryWorkflowRunStore();
+      const research = new SlowAgent('research', () => 5);
+      const write = new SlowAgent('write', (call) => (call === 1 ? 1000 : 5));
+      const orchestrator = createOrchestrator([research, write], store);
+      const plan = {
+        id: 'plan',
+        name: 'Cancel',
+        steps: [step('research'), step('write', { dependencies: ['research'] })],
+      };
+
+      const running = orchestrator.executeWorkflow(plan);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const [run] = await orchestrator.listRuns();
+      expect(orchestrator.isRunActive(run!.id)).toBe(true);
+      await expect(orchestrator.cancelWorkflow(run!.id)).resolves.toBe(true);
+
+      const result = await running;
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['Workflow cancelled']);
+      expect(result.metadata?.cancelled).toBe(true);
+      expect(result.stepResults['step-research']?.success).toBe(true);
+      expect(write.tool.abortedCalls).toBe(1);
+
+      const stored = await orchestrator.getRun(run!.id);
+      expect(stored?.status).toBe('cancelled');
+      expect(stored?.plan.steps[0]?.context).not.toHaveProperty('signal');
+      await expect(orchestrator.cancelWorkflow(run!.id)).resolves.toBe(false);
+
+      const resumed = await orchestrator.resumeWorkflow(run!.id);
+      expect(resumed.success).toBe(true);
+      expect(research.calls).toBe(1);
+      expect(write.calls).toBe(2);
+    });
+
+    it('should stop scheduling steps when the caller aborts', async () => {
+      const first = new SlowAgent('first', () => 1000);
+      const second = new SlowAgent('second', () => 5);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      const result = await createOrchestrator([first, second]).executeWorkflow(
+        { id: 'plan', name: 'Abort', steps: [step('first'), step('second', { dependencies: ['first'] })] },
+        { signal: controller.signal }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.cancelled).toBe(true);
+      expect(second.calls).toBe(0);
+    });
+
+    it('should time out and retry a slow step', async () => {
+      const slow = new SlowAgent('slow', (call) => (call === 1 ? 1000 : 5));
+
+      const result = await createOrchestrator([slow]).executeWorkflow({
+        id: 'plan',
+        name: 'Timeout',
+        steps: [step('slow', { timeout: 20, retry: { maxAttempts: 2, backoffMs: 0 } })],
+      });
+
+      expect(result.success).toBe(true);
+      expect(slow.calls).toBe(2);
+      expect(result.stepResults['step-slow']?.metadata?.attempts).toBe(2);
+    });
+
+    it('should fail a step that exceeds the default step timeout', async () => {
+      const slow = new SlowAgent('slow', () => 1000);
+      const orchestrator = new AgentOrchestrator({ name: 'Timeouts', enableLogging: false, stepTimeout: 20 });
+      orchestrator.registerAgent('slow', slow);
+
+      const result = await orchestrator.executeWorkflow({ id: 'plan', name: 'Timeout', steps: [step('slow')] });
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.cancelled).toBe(false);
+      expect(result.errors?.[0]).toContain('Step slow timed out after 20ms');
+    });
+  });
+});
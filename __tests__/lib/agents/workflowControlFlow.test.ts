@@ -0,0 +1,325 @@
+/**
+ * Workflow Control Flow Tests
+ *
+ * Tests per-step retries, conditional branches, fan-out/fan-in and step
+ * output references in the AgentOrchestrator, including the maxParallelSteps limit
+ */
+
+import { AgentOrchestrator } from '@/lib/agents/base/AgentOrchestrator';
+import { BaseAgent } from '@/lib/agents/base/BaseAgent';
+import {
+  collectStepReferences,
+  evaluateStepCondition,
+  getRetryDelay,
+  getValueAtPath,
+  resolveStepReferences,
+  stepOutput,
+} from '@/lib/agents/base/workflowUtils';
+import type { AgentExecutionContext, AgentResult, WorkflowStep } from '@/lib/agents/base/types';
+
+class FakeAgent extends BaseAgent {
+  readonly calls: any[] = [];
+  active = 0;
+  maxActive = 0;
+
+  constructor(name: string, private readonly run: (input: any, call: number) => any) {
+    super({ name, description: name, version: '1.0.0' });
+  }
+
+  async execute(input: any, _context: AgentExecutionContext): Promise<AgentResult> {
+    this.calls.push(input);
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { success: true, data: this.run(input, this.calls.length) };
+    } finally {
+      this.active--;
+    }
+  }
+}
+
+const CONTEXT: AgentExecutionContext = { userId: 'user-1', sessionId: 'session-1' };
+
+function step(name: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id: `step-${name}`, name, agentName: name, input: {}, context: CONTEXT, ...overrides };
+}
+
+function createOrchestrator(agents: FakeAgent[], maxParallelSteps = 3) {
+  const orchestrator = new AgentOrchestrator({ name: 'TestOrchestrator', enableLogging: false, maxParallelSteps });
+  agents.forEach((agent) => orchestrator.registerAgent(agent.name, agent));
+  return orchestrator;
+}
+
+describe('Workflow control flow', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('should retry a failing step until it succeeds', async () => {
+      const flaky = new FakeAgent('flaky', (_input, call) => {
+        if (call < 3) throw new Error('Rate limited');
+        return 'ok';
+      });
+
+      const result = await createOrchestrator([flaky]).executeWorkflow({
+        id: 'plan',
+        name: 'Retry',
+        steps: [step('flaky', { retry: { maxAttempts: 3, backoffMs: 0 } })],
+      });
+
+      expect(result.success).toBe(true);
+      expect(flaky.calls).toHaveLength(3);
+      expect(result.stepResults['step-flaky']?.metadata?.attempts).toBe(3);
+    });
+
+    it('should fail once all attempts are used', async () => {
+      const broken = new FakeAgent('broken', () => {
+        throw new Error('Always down');
+      });
+
+      const result = await createOrchestrator([broken]).executeWorkflow({
+        id: 'plan',
+        name: 'Retry',
+        steps: [step('broken', { retry: { maxAttempts: 2, backoffMs: 0 } })],
+      });
+
+      expect(result.success).toBe(false);
+      expect(broken.calls).toHaveLength(2);
+      expect(result.errors?.[0]).toContain('Always down');
+    });
+  });
+
+  describe('conditional branches', () => {
+    it('should run only the branch whose condition holds and join afterwards', async () => {
+      const research = new FakeAgent('research', () => ({ sources: ['a', 'b'] }));
+      const deepDive = new FakeAgent('deep_dive', () => 'deep');
+      const fallback = new FakeAgent('fallback', () => 'fallback');
+      const writer = new FakeAgent('writer', (input) => Object.keys(input));
+
+      const result = await createOrchestrator([research, deepDive, fallback, writer]).executeWorkflow({
+        id: 'plan',
+        name: 'Branches',
+        steps: [
+          step('research'),
+          step('deep_dive', {
+            dependencies: ['research'],
+            condition: { step: 'research', path: 'sources.length', operator: 'greaterThan', value: 1 },
+          }),
+          step('fallback', {
+            dependencies: ['research'],
+            condition: { step: 'research', path: 'sources.length', operator: 'lessThan', value: 2 },
+          }),
+          step('writer', { dependencies: ['deep_dive', 'fallback'] }),
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(fallback.calls).toHaveLength(0);
+      expect(writer.calls[0]).toEqual({ deep_dive: 'deep' });
+      expect(result.metadata).toMatchObject({ skippedSteps: 1 });
+    });
+
+    it('should skip steps whose dependencies were all skipped', async () => {
+      const research = new FakeAgent('research', () => ({ sources: [] }));
+      const deepDive = new FakeAgent('deep_dive', () => 'deep');
+      const summary = new FakeAgent('summary', () => 'summary');
+
+      const result = await createOrchestrator([research, deepDive, summary]).executeWorkflow({
+        id: 'plan',
+        name: 'Branches',
+        steps: [
+          step('research'),
+          step('deep_dive', {
+            dependencies: ['research'],
+            condition: { step: 'research', path: 'sources.0', operator: 'exists' },
+          }),
+          step('summary', { dependencies: ['deep_dive'] }),
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(deepDive.calls).toHaveLength(0);
+      expect(summary.calls).toHaveLength(0);
+    });
+
+    it('should not run steps after a failed dependency', async () => {
+      const research = new FakeAgent('research', () => {
+        throw new Error('Search failed');
+      });
+      const writer = new FakeAgent('writer', () => 'text');
+
+      const result = await createOrchestrator([research, writer]).executeWorkflow({
+        id: 'plan',
+        name: 'Blocked',
+        steps: [step('research'), step('writer', { dependencies: ['research'] })],
+      });
+
+      expect(result.success).toBe(false);
+      expect(writer.calls).toHaveLength(0);
+      expect(result.errors).toContain('Step writer blocked: a dependency failed');
+    });
+  });
+
+  describe('fan-out / fan-in', () => {
+    it('should map a step over an upstream array within the parallelism limit', async () => {
+      const outline = new FakeAgent('outline', () => ({ sections: ['Intro', 'Market', 'Costs', 'Risks', 'Outro'] }));
+      const section = new FakeAgent('section', (input) => `# ${input.section}`);
+      const assemble = new FakeAgent('assemble', (input) => input.section.join('\n'));
+
+      const result = await createOrchestrator([outline, section, assemble], 2).executeWorkflow({
+        id: 'plan',
+        name: 'Fan-out',
+        steps: [
+          step('outline'),
+          step('section', {
+            dependencies: ['outline'],
+            forEach: { step: 'outline', path: 'sections', as: 'section' },
+          }),
+          step('assemble', { dependencies: ['section'] }),
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(section.calls).toHaveLength(5);
+      expect(section.maxActive).toBe(2);
+      expect(result.stepResults['step-assemble']?.data).toBe('# Intro\n# Market\n# Costs\n# Risks\n# Outro');
+    });
+
+    it('should fail the step if an item fails', async () => {
+      const outline = new FakeAgent('outline', () => ['a', 'b']);
+      const section = new FakeAgent('section', (input) => {
+        if (input.item === 'b') throw new Error('Bad item');
+        return input.item;
+      });
+
+      const result = await createOrchestrator([outline, section]).executeWorkflow({
+        id: 'plan',
+        name: 'Fan-out',
+        steps: [step('outline'), step('section', { dependencies: ['outline'], forEach: { step: 'outline' } })],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.stepResults['step-section']?.error).toContain('1 of 2 items failed');
+    });
+  });
+
+  describe('step output references', () => {
+    it('should resolve references to upstream outputs at runtime', async () => {
+      const research = new FakeAgent('research', () => ({
+        sources: [{ url: 'https://a.example' }, { url: 'https://b.example' }],
+        keyFindings: ['Costs fell'],
+      }));
+      const writer = new FakeAgent('writer', (input) => input);
+
+      const result = await createOrchestrator([research, writer]).executeWorkflow({
+        id: 'plan',
+        name: 'References',
+        steps: [
+          step('research'),
+          step('writer', {
+            dependencies: ['research'],
+            input: {
+              topic: 'Solar',
+              research: {
+                sources: stepOutput('research', 'sources'),
+                firstUrl: { $ref: 'steps.research.output.sources.0.url' },
+                keyPoints: stepOutput('research', 'keyFindings'),
+              },
+            },
+          }),
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(writer.calls[0]).toMatchObject({
+        topic: 'Solar',
+        research: {
+          sources: [{ url: 'https://a.example' }, { url: 'https://b.example' }],
+          firstUrl: 'https://a.example',
+          keyPoints: ['Costs fell'],
+        },
+      });
+    });
+
+    it('should reject references to steps that are not upstream dependencies', async () => {
+      const a = new FakeAgent('a', () => 1);
+      const b = new FakeAgent('b', () => 2);
+      const orchestrator = createOrchestrator([a, b]);
+
+      const notUpstream = await orchestrator.executeWorkflow({
+        id: 'plan',
+        name: 'Invalid',
+        steps: [step('a'), step('b', { input: { value: stepOutput('a') } })],
+      });
+      expect(notUpstream.errors?.[0]).toBe('Invalid reference in step b: a is not a dependency');
+      expect(a.calls).toHaveLength(0);
+
+      const malformed = await orchestrator.executeWorkflow({
+        id: 'plan',
+        name: 'Invalid',
+        steps: [step('a'), step('b', { dependencies: ['a'], input: { value: { $ref: 'a.sources' } } })],
+      });
+      expect(malformed.errors?.[0]).toContain('Invalid reference in step b: "a.sources"');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject conditions and fan-outs on steps that are not dependencies', async () => {
+      const a = new FakeAgent('a', () => 1);
+      const b = new FakeAgent('b', () => 2);
+      const orchestrator = createOrchestrator([a, b]);
+
+      const conditionResult = await orchestrator.executeWorkflow({
+        id: 'plan',
+        name: 'Invalid',
+        steps: [step('a'), step('b', { condition: { step: 'a', operator: 'exists' } })],
+      });
+      expect(conditionResult.errors?.[0]).toContain('Invalid condition in step b');
+
+      const fanOutResult = await orchestrator.executeWorkflow({
+        id: 'plan',
+        name: 'Invalid',
+        steps: [step('a'), step('b', { forEach: { step: 'a' } })],
+      });
+      expect(fanOutResult.errors?.[0]).toContain('Invalid forEach in step b');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should read values from dot paths', () => {
+      expect(getValueAtPath({ sources: [{ url: 'x' }] }, 'sources.0.url')).toBe('x');
+      expect(getValueAtPath({ sources: [] }, 'sources.length')).toBe(0);
+      expect(getValueAtPath(undefined, 'sources')).toBeUndefined();
+    });
+
+    it('should collect and resolve nested references', () => {
+      const input = { list: [stepOutput('a', 'items')], nested: { value: stepOutput('b') }, plain: 'text' };
+
+      expect(collectStepReferences(input)).toEqual(['steps.a.output.items', 'steps.b.output']);
+      expect(resolveStepReferences(input, { a: { items: [1, 2] } })).toEqual({
+        list: [[1, 2]],
+        nested: { value: undefined },
+        plain: 'text',
+      });
+    });
+
+    it('should evaluate conditions', () => {
+      const data = { research: { tags: ['solar'], summary: 'Solar power' } };
+      expect(evaluateStepCondition({ step: 'research', path: 'tags', operator: 'contains', value: 'solar' }, data)).toBe(true);
+      expect(evaluateStepCondition({ step: 'research', path: 'summary', operator: 'contains', value: 'wind' }, data)).toBe(false);
+      expect(evaluateStepCondition({ step: 'research', path: 'missing', operator: 'notExists' }, data)).toBe(true);
+    });
+
+    it('should compute exponential backoff with a cap', () => {
+      const policy = { maxAttempts: 5, backoffMs: 100, maxBackoffMs: 300 };
+      expect([1, 2, 3].map((retry) => getRetryDelay(policy, retry))).toEqual([100, 200, 300]);
+    });
+  });
+});
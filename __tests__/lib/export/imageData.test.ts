@@ -0,0 +1,143 @@
+/**
+ * Export Image Loading Tests
+ *
+ * fetch and DNS are mocked: checks that images on private, loopback or
+ * link-local addresses are refused (also after redirects) and that images
+ * over the size cap are skipped
+ */
+
+import { lookup } from "dns/promises";
+import { isPrivateAddress, isPublicUrl, loadImageData } from "@/lib/export/image-data";
+
+jest.mock("dns/promises", () => ({
+  lookup: jest.fn(),
+}));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+// 1x1 PNG
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+function createResponse(
+  status: number,
+  headers: Record<string, string>,
+  bytes: Uint8Array = new Uint8Array()
+) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    body: null,
+    arrayBuffer: () => Promise.resolve(bytes.buffer),
+  };
+}
+
+function pngBytes(): Uint8Array {
+  return Uint8Array.from(atob(PNG_BASE64), (char) => char.charCodeAt(0));
+}
+
+describe("image-data", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe("isPrivateAddress", () => {
+    it.each([
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ])("should treat %s as private", (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(["93.184.216.34", "172.32.0.1", "2606:4700::1111"])(
+      "should treat %s as public",
+      (address) => {
+        expect(isPrivateAddress(address)).toBe(false);
+      }
+    );
+  });
+
+  describe("isPublicUrl", () => {
+    it("should refuse IP literals of private addresses", async () => {
+      await expect(isPublicUrl("http://169.254.169.254/latest/meta-data")).resolves.toBe(false);
+      await expect(isPublicUrl("http://[::1]:3000/image.png")).resolves.toBe(false);
+      expect(mockLookup).not.toHaveBeenCalled();
+    });
+
+    it("should refuse hostnames that resolve to a private address", async () => {
+      mockLookup.mockResolvedValue([
+        { address: "93.184.216.34", family: 4 },
+        { address: "127.0.0.1", family: 4 },
+      ]);
+
+      await expect(isPublicUrl("https://internal.example.com/image.png")).resolves.toBe(false);
+    });
+
+    it("should allow hostnames that resolve to public addresses", async () => {
+      await expect(isPublicUrl("https://example.com/image.png")).resolves.toBe(true);
+    });
+  });
+
+  describe("loadImageData", () => {
+    it("should load data URLs without fetching", async () => {
+      const image = await loadImageData(`data:image/png;base64,${PNG_BASE64}`);
+
+      expect(image).toEqual({ data: `image/png;base64,${PNG_BASE64}`, width: 1, height: 1 });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should load public images", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        createResponse(200, { "content-type": "image/png" }, pngBytes())
+      );
+
+      const image = await loadImageData("https://example.com/image.png");
+
+      expect(image).toEqual({ data: `image/png;base64,${PNG_BASE64}`, width: 1, height: 1 });
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://example.com/image.png",
+        expect.objectContaining({ redirect: "manual" })
+      );
+    });
+
+    it("should not fetch private addresses", async () => {
+      await expect(loadImageData("http://169.254.169.254/latest/meta-data")).resolves.toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should not follow redirects to private addresses", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        createResponse(302, { location: "http://127.0.0.1/admin.png" })
+      );
+
+      await expect(loadImageData("https://example.com/image.png")).resolves.toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip images larger than the size cap", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        createResponse(200, { "content-type": "image/png", "content-length": String(50 * 1024 * 1024) })
+      );
+
+      await expect(loadImageData("https://example.com/huge.png")).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * PDF Renderer Tests
+ *
+ * Playwright is mocked: checks the print page URL and token, page sizes per
+ * format, that requests to non-public hosts are blocked, that the browser is
+ * shared and that every page context is closed
+ */
+
+import { chromium } from "playwright";
+import {
+  closePDFBrowser,
+  getPDFFilename,
+  getPrintUrl,
+  renderPresentationPDF,
+} from "@/lib/export/pdf-renderer";
+import { getHandoutSlideWidth } from "@/lib/export/print-layout";
+import { createPrintToken, verifyPrintToken } from "@/lib/export/print-token";
+import type { Presentation } from "@/types/slides";
+
+jest.mock("playwright", () => ({
+  chromium: { launch: jest.fn() },
+}));
+
+const PRESENTATION: Presentation = {
+  id: "presentation-1",
+  user_id: "user-1",
+  task_id: null,
+  title: "Timber Construction",
+  prompt: "Timber construction in multi-storey buildings",
+  format: "16:9",
+  theme: "violet",
+  status: "ready",
+  created_at: "2025-10-19T00:00:00.000Z",
+  updated_at: "2025-10-19T00:00:00.000Z",
+};
+
+function mockBrowser(status = 200) {
+  const page = {
+    setDefaultTimeout: jest.fn(),
+    route: jest.fn().mockResolvedValue(undefined),
+    goto: jest.fn().mockResolvedValue({ ok: () => status < 400, status: () => status }),
+    evaluate: jest.fn().mockResolvedValue(undefined),
+    pdf: jest.fn().mockResolvedValue(Buffer.from("%PDF-1.7")),
+  };
+  const context = {
+    newPage: jest.fn().mockResolvedValue(page),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+  const browser = {
+    newContext: jest.fn().mockResolvedValue(context),
+    on: jest.fn(),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+  (chromium.launch as jest.Mock).mockResolvedValue(browser);
+  return { browser, context, page };
+}
+
+// Run the page's request handler for a URL, returns whether the request was let through
+async function routeRequest(page: { route: jest.Mock }, url: string): Promise<boolean> {
+  const route = {
+    request: () => ({ url: () => url }),
+    continue: jest.fn().mockResolvedValue(undefined),
+    abort: jest.fn().mockResolvedValue(undefined),
+  };
+  await page.route.mock.calls[0][1](route);
+  return route.continue.mock.calls.length > 0;
+}
+
+// The user id of the print token in a print page URL
+function getTokenUser(url: string, presentationId = "presentation-1"): string | null {
+  return verifyPrintToken(new URL(url).searchParams.get("token")!, presentationId);
+}
+
+describe("PDF renderer", () => {
+  beforeAll(() => {
+    process.env.PRINT_TOKEN_SECRET = "test-secret";
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await closePDFBrowser();
+  });
+
+  it("should print the print page with the presentation's page size", async () => {
+    const { context, page } = mockBrowser();
+
+    const file = await renderPresentationPDF(PRESENTATION, {
+      baseUrl: "https://payperwork.ai",
+      userId: "user-1",
+    });
+
+    expect(file.toString()).toBe("%PDF-1.7");
+    const [url, options] = page.goto.mock.calls[0];
+    expect(url).toMatch(/^https:\/\/payperwork\.ai\/slides\/presentation-1\/print\?token=/);
+    expect(getTokenUser(url)).toBe("user-1");
+    expect(options).toEqual({ waitUntil: "networkidle" });
+    expect(page.pdf).toHaveBeenCalledWith(
+      expect.objectContaining({ width: "297mm", height: "167mm", printBackground: true })
+    );
+    expect(context.close).toHaveBeenCalled();
+  });
+
+  it("should only let the page load the app and public hosts", async () => {
+    const { page } = mockBrowser();
+
+    await renderPresentationPDF(PRESENTATION, {
+      baseUrl: "http://localhost:3000",
+      userId: "user-1",
+    });
+
+    // The handler must be in place before the print page loads
+    expect(page.route.mock.invocationCallOrder[0]).toBeLessThan(
+      page.goto.mock.invocationCallOrder[0]!
+    );
+    expect(await routeRequest(page, "http://localhost:3000/_next/static/app.js")).toBe(true);
+    expect(await routeRequest(page, "data:image/png;base64,iVBORw0KGgo=")).toBe(true);
+    expect(await routeRequest(page, "https://93.184.216.34/image.png")).toBe(true);
+    expect(await routeRequest(page, "http://169.254.169.254/latest/meta-data")).toBe(false);
+    expect(await routeRequest(page, "http://localhost:8080/admin")).toBe(false);
+  });
+
+  it("should share one browser between renders", async () => {
+    const { browser } = mockBrowser();
+    const options = { baseUrl: "https://payperwork.ai", userId: "user-1" };
+
+    await Promise.all([
+      renderPresentationPDF(PRESENTATION, options),
+      renderPresentationPDF(PRESENTATION, options),
+      renderPresentationPDF(PRESENTATION, options),
+    ]);
+
+    expect(chromium.launch).toHaveBeenCalledTimes(1);
+    expect(browser.newContext).toHaveBeenCalledTimes(3);
+    expect(browser.close).not.toHaveBeenCalled();
+  });
+
+  it("should print handouts on A4 pages", async () => {
+    const { page } = mockBrowser();
+
+    await renderPresentationPDF(
+      { ...PRESENTATION, format: "A4" },
+      { baseUrl: "http://localhost:3000", userId: "user-1", handout: true }
+    );
+
+    const url = new URL(page.goto.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe("http://localhost:3000/slides/presentation-1/print");
+    expect(url.searchParams.get("handout")).toBe("true");
+    expect(page.pdf).toHaveBeenCalledWith(
+      expect.objectContaining({ width: "210mm", height: "297mm" })
+    );
+  });
+
+  it("should close the page context when the print page fails", async () => {
+    const { context, page } = mockBrowser(404);
+
+    await expect(
+      renderPresentationPDF(PRESENTATION, { baseUrl: "https://payperwork.ai", userId: "user-2" })
+    ).rejects.toThrow("Print page failed to load (status 404)");
+
+    expect(page.pdf).not.toHaveBeenCalled();
+    expect(context.close).toHaveBeenCalled();
+  });
+
+  it("should only accept valid print tokens of the presentation", () => {
+    const token = createPrintToken("presentation-1", "user-1");
+    const [data, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ presentationId: "presentation-1", userId: "user-2", expiresAt: Date.now() + 60000 })
+    ).toString("base64url");
+
+    expect(verifyPrintToken(token, "presentation-1")).toBe("user-1");
+    expect(verifyPrintToken(token, "presentation-2")).toBeNull();
+    expect(verifyPrintToken(`${forged}.${signature}`, "presentation-1")).toBeNull();
+    expect(verifyPrintToken(`${data}.`, "presentation-1")).toBeNull();
+    expect(verifyPrintToken(createPrintToken("presentation-1", "user-1", -1), "presentation-1")).toBeNull();
+  });
+
+  it("should build print URLs and file names", () => {
+    const url = getPrintUrl("a/b", { baseUrl: "https://payperwork.ai/", userId: "user 1", handout: false });
+    expect(url).toMatch(/^https:\/\/payperwork\.ai\/slides\/a%2Fb\/print\?token=[\w-]+\.[\w-]+$/);
+    expect(getTokenUser(url, "a/b")).toBe("user 1");
+    expect(getPDFFilename(PRESENTATION)).toBe("timber_construction.pdf");
+    expect(getPDFFilename(PRESENTATION, true)).toBe("timber_construction_handout.pdf");
+  });
+
+  it("should leave room for speaker notes on handout pages", () => {
+    expect(getHandoutSlideWidth("16:9")).toBe(180);
+    // Portrait slides are narrowed to 60% of the page height
+    expect(getHandoutSlideWidth("A4") * (297 / 210)).toBeCloseTo(160.2);
+  });
+});
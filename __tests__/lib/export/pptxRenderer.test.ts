@@ -0,0 +1,268 @@
+/**
+ * PPTX Renderer Tests
+ *
+ * Renders presentations to PPTX files and reads them back (round trip)
+ * to check that markdown is exported as native PowerPoint objects
+ */
+
+import JSZip from "jszip";
+import { renderPresentationToBuffer } from "@/lib/export/pptx-renderer";
+import type { CustomTheme, Presentation, Slide } from "@/types/slides";
+
+// 2x1 px transparent PNG
+const PNG_DATA =
+  "image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAC0lEQVR4nGNgQAcAAA0AAW6vV8IAAAAASUVORK5CYII=";
+
+const PRESENTATION: Presentation = {
+  id: "presentation-1",
+  user_id: "user-1",
+  task_id: null,
+  title: "Timber Construction",
+  prompt: "Timber construction in multi-storey buildings",
+  format: "16:9",
+  theme: "violet",
+  status: "ready",
+  created_at: "2025-10-19T00:00:00.000Z",
+  updated_at: "2025-10-19T00:00:00.000Z",
+};
+
+function slide(overrides: Partial<Slide>): Slide {
+  return {
+    id: `slide-${overrides.order_index ?? 0}`,
+    presentation_id: PRESENTATION.id,
+    order_index: 0,
+    title: "Slide",
+    content: "",
+    layout: "content",
+    background_color: null,
+    background_image: null,
+    speaker_notes: null,
+    created_at: PRESENTATION.created_at,
+    updated_at: PRESENTATION.updated_at,
+    ...overrides,
+  };
+}
+
+async function renderSlides(
+  slides: Slide[],
+  presentation: Presentation = PRESENTATION,
+  customTheme?: CustomTheme
+) {
+  const loadImage = jest.fn(async (url: string) =>
+    url.includes("missing") ? null : { data: PNG_DATA, width: 2, height: 1 }
+  );
+  const file = await renderPresentationToBuffer(presentation, slides, { loadImage, customTheme });
+  const zip = await JSZip.loadAsync(file);
+
+  const readSlide = (index: number) => zip.file(`ppt/slides/slide${index}.xml`)!.async("string");
+  return { zip, readSlide, loadImage };
+}
+
+describe("PPTX renderer", () => {
+  const release = Object.getOwnPropertyDescriptor(process, "release")!;
+
+  beforeAll(() => {
+    // pptxgenjs dynamically imports node:fs when it detects Node.js, which the
+    // Jest VM does not support. Images are embedded as data, so it is not needed.
+    Object.defineProperty(process, "release", {
+      ...release,
+      value: { ...process.release, name: "jest" },
+    });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(process, "release", release);
+  });
+
+  it("should export nested bullet lists and emphasis as native text formatting", async () => {
+    const { readSlide } = await renderSlides([
+      slide({
+        title: "Why Timber",
+        content: [
+          "## Benefits",
+          "- **Lower** embodied carbon",
+          "  - *25-45%* less than concrete",
+          "- Prefabrication with `CLT` panels",
+          "1. Plan",
+          "2. Build",
+          "See [IBC 2021](https://www.iccsafe.org) for details.",
+        ].join("\n"),
+      }),
+    ]);
+
+    const xml = await readSlide(1);
+
+    expect(xml).toContain("Why Timber");
+    expect(xml).toContain("Benefits");
+    // Bullets with indent levels, numbered list
+    expect(xml).toMatch(/<a:pPr[^>]*lvl="1"[^>]*>.*?<a:buChar/);
+    expect(xml).toContain("<a:buAutoNum");
+    // Bold/italic runs keep their text without markdown markers
+    expect(xml).toMatch(/<a:rPr[^>]* b="1"[^>]*>.*?<a:t>Lower<\/a:t>/);
+    // Runs of a list item stay in one paragraph
+    expect(xml).toMatch(/<a:t>Lower<\/a:t>(?:(?!<\/a:p>).)*<a:t> embodied carbon<\/a:t>/);
+    expect(xml).toMatch(/<a:rPr[^>]* i="1"[^>]*>.*?<a:t>25-45%<\/a:t>/);
+    expect(xml).not.toContain("**");
+    // Theme fonts and colours
+    expect(xml).toContain('typeface="Georgia"');
+    expect(xml).toContain('typeface="Courier New"');
+    expect(xml).toContain("8B5CF6");
+    expect(xml).toContain("<a:hlinkClick");
+  });
+
+  it("should export markdown tables as native tables", async () => {
+    const { readSlide } = await renderSlides([
+      slide({
+        title: "Comparison",
+        content: [
+          "| Material | CO₂ (kg/m²) |",
+          "| --- | ---: |",
+          "| **Timber** | 120 |",
+          "| Concrete | 210 |",
+        ].join("\n"),
+      }),
+    ]);
+
+    const xml = await readSlide(1);
+
+    expect(xml).toContain("<a:tbl>");
+    expect((xml.match(/<a:tr /g) || []).length).toBe(3);
+    expect(xml).toContain("Material");
+    expect(xml).toContain("Concrete");
+    expect(xml).toContain('algn="r"');
+  });
+
+  it("should embed image slides and inline images and keep unavailable images as links", async () => {
+    const { zip, readSlide, loadImage } = await renderSlides([
+      slide({
+        layout: "image",
+        title: "Facade",
+        background_image: "https://example.com/facade.png",
+      }),
+      slide({
+        order_index: 1,
+        title: "Details",
+        content:
+          "Joint detail:\n\n![Joint](https://example.com/joint.png)\n\n![Plan](https://example.com/missing.png)",
+      }),
+    ]);
+
+    expect(loadImage).toHaveBeenCalledWith("https://example.com/facade.png");
+    expect(zip.file(/^ppt\/media\/.+\.png$/)).toHaveLength(2);
+    expect(await readSlide(1)).toContain("<p:pic>");
+
+    const details = await readSlide(2);
+    expect(details).toContain("<p:pic>");
+    expect(details).toContain('descr="Joint"');
+    // Image that could not be loaded
+    expect(details).toContain("<a:t>Plan</a:t>");
+  });
+
+  it("should render every layout in slide order with notes and the format's page size", async () => {
+    const { zip, readSlide } = await renderSlides(
+      [
+        slide({
+          order_index: 2,
+          layout: "quote",
+          title: "Alvar Aalto",
+          content: "Form must have a *content*",
+        }),
+        slide({
+          order_index: 0,
+          layout: "title_slide",
+          title: "Timber",
+          content: "Multi-storey buildings",
+          speaker_notes: "Welcome everyone",
+        }),
+        slide({
+          order_index: 1,
+          layout: "two_column",
+          title: "Pros and Cons",
+          content: "- Light\n- Fast\n\n- Fire rules\n- Acoustics",
+        }),
+      ],
+      { ...PRESENTATION, format: "A4", theme: "default" }
+    );
+
+    expect(await readSlide(1)).toContain("<a:t>Timber</a:t>");
+    expect(await readSlide(2)).toContain("<a:t>Acoustics</a:t>");
+    expect(await readSlide(3)).toContain("Alvar Aalto");
+
+    const notes = await zip.file("ppt/notesSlides/notesSlide1.xml")!.async("string");
+    expect(notes).toContain("Welcome everyone");
+
+    // A4 portrait: 8.27" x 11.69" in EMU
+    const presentationXml = await zip.file("ppt/presentation.xml")!.async("string");
+    expect(presentationXml).toContain('cx="7562088" cy="10689336"');
+  });
+
+  it("should put logo, footer, slide number and background of a custom theme on the slide master", async () => {
+    const customTheme: CustomTheme = {
+      id: "theme-1",
+      user_id: "user-1",
+      team_id: "team-1",
+      name: "Corporate",
+      palette: { primary: "#0a3d62", background: "#ffffff", text: "#222222", muted: "#808080" },
+      heading_font: "Montserrat",
+      body_font: "Open Sans",
+      logo_url: "https://example.com/logo.png",
+      logo_position: "top-right",
+      footer_text: "Payperwork GmbH · Confidential",
+      show_slide_numbers: true,
+      background_image: "https://example.com/master.png",
+      created_at: PRESENTATION.created_at,
+      updated_at: PRESENTATION.updated_at,
+    };
+
+    const { zip, readSlide, loadImage } = await renderSlides(
+      [
+        slide({ title: "Agenda", content: "- Timber" }),
+        slide({ order_index: 1, title: "Own background", background_color: "#112233" }),
+      ],
+      PRESENTATION,
+      customTheme
+    );
+
+    expect(loadImage).toHaveBeenCalledWith("https://example.com/logo.png");
+    expect(loadImage).toHaveBeenCalledWith("https://example.com/master.png");
+
+    const layouts = await Promise.all(
+      zip.file(/^ppt\/slideLayouts\/slideLayout\d+\.xml$/).map((file) => file.async("string"))
+    );
+    const master = layouts.find((xml) => xml.includes('name="THEME"'))!;
+
+    expect(master).toBeDefined();
+    expect(master).toContain('descr="Logo"');
+    expect(master).toContain("Payperwork GmbH · Confidential");
+    expect(master).toContain('type="sldNum"');
+    expect(master).toContain("<a:blip");
+
+    // Slides use the theme's fonts and colours and inherit the master background
+    const agenda = await readSlide(1);
+    expect(agenda).toContain('typeface="Montserrat"');
+    expect(agenda).toContain('typeface="Open Sans"');
+    expect(agenda).toContain("0A3D62");
+    expect(agenda).not.toContain("<p:bg>");
+    expect(await readSlide(2)).toContain("112233");
+  });
+
+  it("should list the cited research sources on a references slide at the end", async () => {
+    const citation = {
+      number: 2,
+      url: "https://example.com/report",
+      title: "Timber Market Report",
+      snippet: "",
+      lines: [0],
+    };
+    const { zip, readSlide } = await renderSlides([
+      slide({ order_index: 0, content: "- Market grows 12% [2]", citations: [citation] }),
+      slide({ order_index: 1, content: "- Costs [2]", citations: [citation] }),
+    ]);
+
+    expect(zip.file(/^ppt\/slides\/slide\d+\.xml$/)).toHaveLength(3);
+    const references = await readSlide(3);
+    expect(references).toContain("<a:t>Quellen</a:t>");
+    expect(references).toContain("[2] ");
+    expect(references).toContain("<a:t>Timber Market Report</a:t>");
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Slide Markdown Parser Tests
+ */
+
+import { parseInline, parseSlideMarkdown } from "@/lib/export/slide-markdown";
+
+describe("parseSlideMarkdown", () => {
+  it("should parse headings, paragraphs and nested lists with their levels", () => {
+    const blocks = parseSlideMarkdown(
+      [
+        "# Overview",
+        "",
+        "Intro text",
+        "continues here",
+        "",
+        "- One",
+        "  - Nested",
+        "    continued",
+        "- Two",
+        "1. First",
+      ].join("\n")
+    );
+
+    expect(blocks).toEqual([
+      { type: "heading", level: 1, runs: [{ text: "Overview" }] },
+      { type: "paragraph", runs: [{ text: "Intro text continues here" }] },
+      { type: "list_item", ordered: false, level: 0, runs: [{ text: "One" }] },
+      { type: "list_item", ordered: false, level: 1, runs: [{ text: "Nested continued" }] },
+      { type: "list_item", ordered: false, level: 0, runs: [{ text: "Two" }] },
+      { type: "list_item", ordered: true, level: 0, runs: [{ text: "First" }] },
+    ]);
+  });
+
+  it("should parse tables with column alignment", () => {
+    const [table] = parseSlideMarkdown("| A | B | C |\n|:--|:-:|--:|\n| 1 | **2** |\n");
+
+    expect(table).toEqual({
+      type: "table",
+      header: [[{ text: "A" }], [{ text: "B" }], [{ text: "C" }]],
+      rows: [[[{ text: "1" }], [{ text: "2", bold: true }], []]],
+      align: ["left", "center", "right"],
+    });
+  });
+
+  it("should split images into their own blocks and keep code and quotes", () => {
+    const blocks = parseSlideMarkdown(
+      "Plan ![Floor plan](https://example.com/plan.png)\n\n> Less is more\n\n```\nconst a = 1;\n```"
+    );
+
+    expect(blocks).toEqual([
+      { type: "paragraph", runs: [{ text: "Plan" }] },
+      { type: "image", alt: "Floor plan", url: "https://example.com/plan.png" },
+      { type: "quote", runs: [{ text: "Less is more" }] },
+      { type: "code", text: "const a = 1;" },
+    ]);
+  });
+});
+
+describe("parseInline", () => {
+  it("should parse nested emphasis, code and links into runs", () => {
+    expect(parseInline("A **bold _and italic_** `x*y` [link](https://a.io) ~~old~~")).toEqual([
+      { text: "A " },
+      { text: "bold ", bold: true },
+      { text: "and italic", bold: true, italic: true },
+      { text: " " },
+      { text: "x*y", code: true },
+      { text: " " },
+      { text: "link", link: "https://a.io" },
+      { text: " " },
+      { text: "old", strike: true },
+    ]);
+  });
+
+  it("should keep escaped markers as text", () => {
+    expect(parseInline("5 \\* 3 = 15")).toEqual([{ text: "5 * 3 = 15" }]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Team Sharing Tests
+ *
+ * Tests the access rules of team-shared records (owner or team member) and the
+ * owner/team filtering of custom presentation themes and workflow presets
+ */
+
+import { canUseTeamRecord, getOwnAndTeamRecords, isTeamMember } from "@/lib/supabase-teams";
+import { getThemes } from "@/lib/supabase-themes";
+import { getPresets } from "@/lib/supabase-workflow-presets";
+
+type Row = Record<string, unknown>;
+
+// In-memory tables behind a minimal query builder (select/eq/maybeSingle/await)
+const mockTables: Record<string, Row[]> = {};
+
+function mockCreateQuery(table: string) {
+  const filters: [string, unknown][] = [];
+  const run = () =>
+    (mockTables[table] || []).filter((row) =>
+      filters.every(([column, value]) => row[column] === value)
+    );
+
+  const query = {
+    select: () => query,
+    eq: (column: string, value: unknown) => {
+      filters.push([column, value]);
+      return query;
+    },
+    or: () => {
+      throw new Error("Filter strings are not allowed");
+    },
+    maybeSingle: () => Promise.resolve({ data: run()[0] ?? null, error: null }),
+    then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+      Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+  };
+
+  return query;
+}
+
+jest.mock("@/lib/supabase-admin", () => ({
+  supabaseAdmin: { from: (table: string) => mockCreateQuery(table) },
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: { error: jest.fn() },
+}));
+
+function createTheme(id: string, userId: string, teamId: string | null, name: string) {
+  return { id, user_id: userId, team_id: teamId, name };
+}
+
+describe("Team sharing", () => {
+  beforeEach(() => {
+    mockTables.team_members = [
+      { team_id: "team-a", user_id: "alice" },
+      { team_id: "team-a", user_id: "bob" },
+    ];
+    mockTables.workflow_presets = [
+      { ...createTheme("p1", "alice", null, "Warm"), workflow: "branding" },
+      { ...createTheme("p2", "bob", "team-a", "Night"), workflow: "branding" },
+      { ...createTheme("p3", "bob", "team-a", "Sketchy"), workflow: "sketch-to-render" },
+      { ...createTheme("p4", "carol", "team-b", "Bright"), workflow: "branding" },
+    ];
+    mockTables.presentation_themes = [
+      createTheme("1", "alice", null, "Private"),
+      createTheme("2", "alice", "team-a", "Corporate"),
+      createTheme("3", "bob", "team-a", "Agency"),
+      createTheme("4", "carol", "team-b", "Other"),
+      createTheme("5", "carol", null, "Carol"),
+    ];
+  });
+
+  describe("isTeamMember", () => {
+    it("should check the membership of the user", async () => {
+      expect(await isTeamMember("team-a", "bob")).toBe(true);
+      expect(await isTeamMember("team-a", "carol")).toBe(false);
+      expect(await isTeamMember("team-b", "bob")).toBe(false);
+    });
+  });
+
+  describe("canUseTeamRecord", () => {
+    it("should allow the owner", async () => {
+      expect(await canUseTeamRecord(createTheme("1", "alice", null, "Private"), "alice")).toBe(
+        true
+      );
+    });
+
+    it("should allow members of the record's team", async () => {
+      expect(
+        await canUseTeamRecord(createTheme("2", "alice", "team-a", "Corporate"), "bob", "bob")
+      ).toBe(true);
+    });
+
+    it("should only check the team membership of the signed-in user", async () => {
+      expect(await canUseTeamRecord(createTheme("2", "alice", "team-a", "Corporate"), "bob")).toBe(
+        false
+      );
+      expect(
+        await canUseTeamRecord(createTheme("2", "alice", "team-a", "Corporate"), "bob", "carol")
+      ).toBe(false);
+    });
+
+    it("should deny other users", async () => {
+      expect(await canUseTeamRecord(createTheme("1", "alice", null, "Private"), "bob")).toBe(false);
+      expect(await canUseTeamRecord(createTheme("4", "carol", "team-b", "Other"), "bob")).toBe(
+        false
+      );
+    });
+  });
+
+  describe("getOwnAndTeamRecords", () => {
+    it("should merge own and team records without duplicates, by name", async () => {
+      const own = [createTheme("2", "alice", "team-a", "Corporate")];
+      const team = [
+        createTheme("3", "bob", "team-a", "Agency"),
+        createTheme("2", "alice", "team-a", "Corporate"),
+      ];
+
+      const result = await getOwnAndTeamRecords(
+        async (column) => ({ data: column === "user_id" ? own : team, error: null }),
+        "alice",
+        "team-a"
+      );
+
+      expect(result.data?.map((theme) => theme.id)).toEqual(["3", "2"]);
+    });
+
+    it("should return the error of a failed query", async () => {
+      const result = await getOwnAndTeamRecords(
+        async (column) =>
+          column === "team_id"
+            ? { data: null, error: { message: "boom" } }
+            : { data: [], error: null },
+        "alice",
+        "team-a"
+      );
+
+      expect(result).toEqual({ data: null, error: { message: "boom" } });
+    });
+  });
+
+  describe("getThemes", () => {
+    it("should return the user's own themes without a team", async () => {
+      const themes = await getThemes("alice");
+
+      expect(themes.map((theme) => theme.id)).toEqual(["2", "1"]);
+    });
+
+    it("should add the themes of the team", async () => {
+      const themes = await getThemes("alice", "team-a");
+
+      expect(themes.map((theme) => theme.id)).toEqual(["3", "2", "1"]);
+    });
+
+    it("should not treat the user id as a filter expression", async () => {
+      const themes = await getThemes("x,id.neq.00000000-0000-0000-0000-000000000000", "team-z");
+
+      expect(themes).toEqual([]);
+    });
+  });
+
+  describe("getPresets", () => {
+    it("should return the presets of the workflow of the user and the team", async () => {
+      const presets = await getPresets("branding", "alice", "team-a");
+
+      expect(presets.map((preset) => preset.id)).toEqual(["p2", "p1"]);
+    });
+
+    it("should not return presets of other teams", async () => {
+      const presets = await getPresets("branding", "carol");
+
+      expect(presets.map((preset) => preset.id)).toEqual(["p4"]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Video Provider Registry Tests
+ *
+ * Tests registering providers, factory lookup, and validation/UI config
+ * derived from provider definitions
+ */
+
+import ProviderFactory from '@/lib/video/providers/ProviderFactory';
+import VideoProviderRegistry from '@/lib/video/providers/ProviderRegistry';
+import { VideoProvider } from '@/lib/video/providers/BaseProvider';
+import {
+  validateVideoGenerationRequest,
+  validateVideoModel,
+  validateVideoSettings,
+} from '@/lib/video/validation/videoValidation';
+import { getVideoConfig, getVideoModelDisplayName, getVideoModelOptions } from '@/config/videoSettings';
+import type {
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoProviderDefinition,
+  VideoType,
+} from '@/types/video';
+
+jest.mock('@fal-ai/client', () => ({
+  fal: { config: jest.fn(), queue: {} },
+}));
+
+const MOCK_DEFINITION: VideoProviderDefinition = {
+  id: 'mock-v1',
+  uiModel: 'mock',
+  provider: 'mock',
+  name: 'Mock Move',
+  version: 'v.1',
+  requiredApiKeys: [],
+  capabilities: {
+    text2video: true,
+    image2video: false,
+    durations: [{ value: '3', label: '3 Sekunden' }],
+    aspectRatios: [{ value: '1:1', label: '1:1 (Quadrat)' }],
+    imageAspectRatios: [],
+    modes: [],
+    cameraMovement: false,
+    audio: false,
+  },
+  constraints: {
+    defaults: { duration: '3', aspectRatio: '1:1' },
+  },
+};
+
+class MockProvider extends VideoProvider {
+  static readonly definition = MOCK_DEFINITION;
+  readonly definition = MockProvider.definition;
+
+  async createTask(req: VideoGenerationRequest): Promise<VideoGenerationResponse> {
+    return { task_id: 'mock-task', status: 'processing', message: 'queued', model: req.model, type: req.type };
+  }
+
+  async checkStatus(taskId: string, type: VideoType): Promise<VideoGenerationResponse> {
+    return { task_id: taskId, status: 'succeed', videos: [{ url: 'https://example.com/v.mp4' }], message: 'done', type };
+  }
+}
+
+describe('Video provider registry', () => {
+  afterEach(() => {
+    ProviderFactory.unregister('mock-v1');
+    ProviderFactory.reset();
+  });
+
+  describe('built-in providers', () => {
+    it('should register Kling and Fal by default', () => {
+      expect(VideoProviderRegistry.models()).toEqual(['payperwork-v1', 'payperwork-v2']);
+      expect(ProviderFactory.getProvider('payperwork-v1').definition.provider).toBe('kling');
+      expect(ProviderFactory.getProvider('payperwork-v2').definition.provider).toBe('fal');
+    });
+
+    it('should reuse provider instances', () => {
+      expect(ProviderFactory.getProvider('payperwork-v1')).toBe(ProviderFactory.getProvider('payperwork-v1'));
+    });
+
+    it('should throw for unknown models', () => {
+      expect(() => ProviderFactory.getProvider('unknown')).toThrow('Unknown video model: unknown');
+    });
+  });
+
+  describe('custom providers', () => {
+    it('should make a registered provider available to factory, validation and UI', async () => {
+      ProviderFactory.register(MockProvider);
+
+      const provider = ProviderFactory.getProvider('mock-v1');
+      await expect(provider.checkStatus('t1', 'text2video')).resolves.toMatchObject({ status: 'succeed' });
+
+      expect(validateVideoModel('mock-v1')).toBe(true);
+      expect(getVideoModelOptions().map((option) => option.id)).toContain('mock');
+      expect(getVideoConfig('mock')).toMatchObject({
+        defaultDuration: '3',
+        hasModes: false,
+        supports1x1: true,
+      });
+      expect(getVideoModelDisplayName('mock-v1')).toBe('Mock Move v1');
+    });
+
+    it('should reject a UI model that is already taken', () => {
+      expect(() =>
+        VideoProviderRegistry.register({ ...MOCK_DEFINITION, uiModel: 'kling' })
+      ).toThrow('UI model "kling" is already used');
+    });
+
+    it('should forget a provider after unregister', () => {
+      ProviderFactory.register(MockProvider);
+      ProviderFactory.unregister('mock-v1');
+
+      expect(validateVideoModel('mock-v1')).toBe(false);
+      expect(() => ProviderFactory.getProvider('mock-v1')).toThrow();
+    });
+  });
+
+  describe('validation', () => {
+    it('should list registered models in error messages', () => {
+      expect(validateVideoGenerationRequest({ model: 'nope', type: 'text2video', prompt: 'x' })).toBe(
+        "Invalid or missing model. Must be 'payperwork-v1' or 'payperwork-v2'"
+      );
+    });
+
+    it('should validate settings against declared capabilities', () => {
+      const kling = VideoProviderRegistry.get('payperwork-v1')!;
+      const fal = VideoProviderRegistry.get('payperwork-v2')!;
+
+      expect(validateVideoSettings(kling, { type: 'text2video', duration: '5', aspectRatio: '1:1', mode: 'pro' })).toBeNull();
+      expect(validateVideoSettings(kling, { type: 'image2video', aspectRatio: 'original' })).toBeNull();
+      expect(validateVideoSettings(kling, { type: 'text2video', duration: '4' })).toContain('Invalid duration');
+      expect(validateVideoSettings(fal, { type: 'text2video', aspectRatio: '1:1' })).toContain('Invalid aspect ratio');
+      // Fal declares no modes, so the client's default mode is ignored
+      expect(validateVideoSettings(fal, { type: 'text2video', duration: '8', mode: 'std' })).toBeNull();
+      expect(validateVideoSettings(MOCK_DEFINITION, { type: 'image2video' })).toBe(
+        "Model 'mock-v1' does not support image2video"
+      );
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Video Provider Router Tests
+ *
+ * Tests failover between compatible providers and cost-aware routing
+ * using fake providers
+ */
+
+import {
+  VideoProviderRouter,
+  adaptRequest,
+  estimateVideoCost,
+  isFailoverError,
+  isRequestCompatible,
+} from '@/lib/video/providers/ProviderRouter';
+import { VideoProvider } from '@/lib/video/providers/BaseProvider';
+import { KLING_PROVIDER_DEFINITION, FAL_PROVIDER_DEFINITION } from '@/lib/video/providers/definitions';
+import { videoLogger } from '@/lib/logger';
+import type {
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoModel,
+  VideoProviderDefinition,
+  VideoType,
+} from '@/types/video';
+
+jest.mock('@fal-ai/client', () => ({
+  fal: { config: jest.fn(), queue: {} },
+}));
+
+const OPTION = (value: string) => ({ value, label: value });
+
+function createDefinition(id: string, overrides: Partial<VideoProviderDefinition> = {}): VideoProviderDefinition {
+  return {
+    id,
+    uiModel: id,
+    provider: id,
+    name: id,
+    version: 'v.1',
+    requiredApiKeys: [],
+    capabilities: {
+      text2video: true,
+      image2video: true,
+      durations: [OPTION('5'), OPTION('10')],
+      aspectRatios: [OPTION('16:9'), OPTION('9:16')],
+      imageAspectRatios: [],
+      modes: [],
+      cameraMovement: false,
+      audio: false,
+    },
+    constraints: { defaults: { duration: '5', aspectRatio: '16:9' } },
+    ...overrides,
+  };
+}
+
+class FakeProvider extends VideoProvider {
+  readonly createTask = jest.fn(async (req: VideoGenerationRequest): Promise<VideoGenerationResponse> => {
+    if (this.error) throw this.error;
+    return { task_id: `${this.definition.id}-task`, status: 'processing', message: 'queued', model: req.model };
+  });
+
+  constructor(readonly definition: VideoProviderDefinition, private readonly error?: Error) {
+    super();
+  }
+
+  async checkStatus(taskId: string, type: VideoType): Promise<VideoGenerationResponse> {
+    return { task_id: taskId, status: 'processing', message: 'running', type };
+  }
+}
+
+function createRouter(
+  providers: FakeProvider[],
+  options: { policy?: 'requested' | 'cheapest'; failover?: boolean; unavailable?: VideoModel[] } = {}
+) {
+  return new VideoProviderRouter({
+    policy: options.policy ?? 'requested',
+    failover: options.failover ?? true,
+    getDefinitions: () => providers.map((provider) => provider.definition),
+    getProvider: (model) => providers.find((provider) => provider.definition.id === model)!,
+    isAvailable: (definition) => !options.unavailable?.includes(definition.id),
+  });
+}
+
+const REQUEST: VideoGenerationRequest = {
+  model: 'primary',
+  type: 'text2video',
+  prompt: 'A drone shot over the alps',
+  duration: '5',
+  aspectRatio: '16:9',
+};
+
+describe('VideoProviderRouter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('failover', () => {
+    it('should use the requested provider when it succeeds', async () => {
+      const primary = new FakeProvider(createDefinition('primary'));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      const result = await createRouter([primary, backup]).createTask(REQUEST);
+
+      expect(result.model).toBe('primary');
+      expect(result.failedAttempts).toEqual([]);
+      expect(backup.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to a compatible provider on a 5xx error', async () => {
+      const warnSpy = jest.spyOn(videoLogger, 'warn');
+      const primary = new FakeProvider(createDefinition('primary'), new Error('Kling API Error: busy (HTTP 503, Code: 5000)'));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      const result = await createRouter([primary, backup]).createTask(REQUEST);
+
+      expect(result).toMatchObject({
+        model: 'backup',
+        requestedModel: 'primary',
+        response: { task_id: 'backup-task', model: 'backup', provider: 'backup' },
+        failedAttempts: [{ model: 'primary', error: expect.stringContaining('HTTP 503') }],
+      });
+      expect(backup.createTask).toHaveBeenCalledWith(expect.objectContaining({ model: 'backup' }));
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('failing over to backup'),
+        expect.objectContaining({ requestedModel: 'primary' })
+      );
+    });
+
+    it('should fail over on quota errors', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('Account balance not enough (HTTP 429, Code: 1102)'));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      await expect(createRouter([primary, backup]).createTask(REQUEST)).resolves.toMatchObject({ model: 'backup' });
+    });
+
+    it('should not fail over on validation errors', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('Prompt is required for text2video generation'));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      await expect(createRouter([primary, backup]).createTask(REQUEST)).rejects.toThrow('Prompt is required');
+      expect(backup.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should skip providers that cannot serve the request settings', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('HTTP 500: Internal Server Error'));
+      const incompatible = new FakeProvider(createDefinition('incompatible', {
+        capabilities: { ...createDefinition('x').capabilities, aspectRatios: [OPTION('1:1')] },
+      }));
+
+      await expect(createRouter([primary, incompatible]).createTask(REQUEST)).rejects.toThrow('HTTP 500');
+      expect(incompatible.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should fail over with the nearest duration the provider supports', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('HTTP 500: Internal Server Error'));
+      const backup = new FakeProvider(createDefinition('backup', {
+        capabilities: { ...createDefinition('x').capabilities, durations: [OPTION('4'), OPTION('8')] },
+      }));
+
+      const result = await createRouter([primary, backup]).createTask(REQUEST);
+
+      expect(result.model).toBe('backup');
+      expect(result.request.duration).toBe('4');
+      expect(result.response.duration).toBe('4');
+      expect(backup.createTask).toHaveBeenCalledWith(expect.objectContaining({ model: 'backup', duration: '4' }));
+    });
+
+    it('should try providers that need another duration after the ones that accept the request', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('HTTP 500: Internal Server Error'));
+      const adapted = new FakeProvider(createDefinition('adapted', {
+        capabilities: { ...createDefinition('x').capabilities, durations: [OPTION('4'), OPTION('8')] },
+      }));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      const result = await createRouter([primary, adapted, backup]).createTask(REQUEST);
+
+      expect(result.model).toBe('backup');
+      expect(result.response.duration).toBeUndefined();
+      expect(adapted.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should route to a configured provider when the requested one has no API keys', async () => {
+      const primary = new FakeProvider(createDefinition('primary'));
+      const backup = new FakeProvider(createDefinition('backup'));
+      const router = createRouter([primary, backup], { unavailable: ['primary'] });
+
+      const result = await router.createTask(REQUEST);
+
+      expect(result.model).toBe('backup');
+      expect(primary.createTask).not.toHaveBeenCalled();
+      expect(createRouter([primary], { unavailable: ['primary'] }).getCandidates(REQUEST)).toEqual([]);
+    });
+
+    it('should skip providers without configured API keys', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('HTTP 502: Bad Gateway'));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      await expect(
+        createRouter([primary, backup], { unavailable: ['backup'] }).createTask(REQUEST)
+      ).rejects.toThrow('HTTP 502');
+    });
+
+    it('should only try one provider when failover is disabled', async () => {
+      const primary = new FakeProvider(createDefinition('primary'), new Error('HTTP 500: Internal Server Error'));
+      const backup = new FakeProvider(createDefinition('backup'));
+
+      await expect(createRouter([primary, backup], { failover: false }).createTask(REQUEST)).rejects.toThrow('HTTP 500');
+      expect(backup.createTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cost-aware routing', () => {
+    const expensive = () => new FakeProvider(createDefinition('primary', { pricing: { usdPerSecond: 0.1 } }));
+    const cheap = () => new FakeProvider(createDefinition('backup', { pricing: { usdPerSecond: 0.05 } }));
+
+    it('should prefer the cheapest compatible provider with the cheapest policy', async () => {
+      const result = await createRouter([expensive(), cheap()], { policy: 'cheapest' }).createTask(REQUEST);
+
+      expect(result.model).toBe('backup');
+      expect(result.requestedModel).toBe('primary');
+    });
+
+    it('should not route to a cheaper provider that needs another duration', async () => {
+      const cheapShort = new FakeProvider(createDefinition('backup', {
+        pricing: { usdPerSecond: 0.05 },
+        capabilities: { ...createDefinition('x').capabilities, durations: [OPTION('4'), OPTION('8')] },
+      }));
+      const router = createRouter([expensive(), cheapShort], { policy: 'cheapest' });
+
+      const result = await router.createTask(REQUEST);
+
+      expect(result.model).toBe('primary');
+      expect(cheapShort.createTask).not.toHaveBeenCalled();
+      expect(router.getCandidates(REQUEST).map((candidate) => candidate.adapted)).toEqual([false, true]);
+      expect(createRouter([expensive(), cheapShort], { policy: 'cheapest', failover: false }).getCandidates(REQUEST))
+        .toHaveLength(1);
+    });
+
+    it('should keep the requested provider with the requested policy', async () => {
+      const result = await createRouter([expensive(), cheap()], { policy: 'requested' }).createTask(REQUEST);
+
+      expect(result.model).toBe('primary');
+    });
+
+    it('should fall back to the more expensive provider if the cheapest fails', async () => {
+      const failingCheap = new FakeProvider(
+        createDefinition('backup', { pricing: { usdPerSecond: 0.05 } }),
+        new Error('Request timeout after 30000ms')
+      );
+
+      const result = await createRouter([expensive(), failingCheap], { policy: 'cheapest' }).createTask(REQUEST);
+
+      expect(result.model).toBe('primary');
+      expect(result.failedAttempts).toEqual([{ model: 'backup', error: 'Request timeout after 30000ms' }]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should classify failover errors', () => {
+      expect(isFailoverError(Object.assign(new Error('Service Unavailable'), { status: 503 }))).toBe(true);
+      expect(isFailoverError(Object.assign(new Error('Unprocessable'), { status: 422 }))).toBe(false);
+      expect(isFailoverError(new Error('Kling API Error: limit (HTTP 200, Code: 1303)'))).toBe(true);
+      expect(isFailoverError(new Error('Invalid type parameter'))).toBe(false);
+    });
+
+    it('should estimate costs from pricing and mode', () => {
+      expect(estimateVideoCost(KLING_PROVIDER_DEFINITION, { duration: '10', mode: 'std' })).toBeCloseTo(0.5);
+      expect(estimateVideoCost(KLING_PROVIDER_DEFINITION, { duration: '10', mode: 'pro' })).toBeCloseTo(0.9);
+      expect(estimateVideoCost(FAL_PROVIDER_DEFINITION, { duration: '8' })).toBeCloseTo(0.8);
+      expect(estimateVideoCost(createDefinition('unpriced'), { duration: '5' })).toBe(Infinity);
+    });
+
+    it('should adapt requests to the durations of built-in providers', () => {
+      expect(adaptRequest(FAL_PROVIDER_DEFINITION, { ...REQUEST, duration: '5' })?.duration).toBe('4');
+      expect(adaptRequest(FAL_PROVIDER_DEFINITION, { ...REQUEST, duration: '10' })?.duration).toBe('12');
+      expect(adaptRequest(KLING_PROVIDER_DEFINITION, { ...REQUEST, duration: '8' })?.duration).toBe('10');
+      expect(adaptRequest(KLING_PROVIDER_DEFINITION, { ...REQUEST, duration: '12' })).toEqual(
+        expect.objectContaining({ model: 'payperwork-v1', duration: '10' })
+      );
+      expect(adaptRequest(FAL_PROVIDER_DEFINITION, { ...REQUEST, static_mask: 'mask.png' })).toBeNull();
+    });
+
+    it('should check built-in providers against each other', () => {
+      // Only requests whose settings the other provider supports as-is can fail over
+      expect(isRequestCompatible(FAL_PROVIDER_DEFINITION, { ...REQUEST, model: 'payperwork-v1' })).toBe(false);
+      expect(isRequestCompatible(KLING_PROVIDER_DEFINITION, { ...REQUEST, model: 'payperwork-v2', duration: '10', mode: 'std' })).toBe(true);
+      expect(isRequestCompatible(FAL_PROVIDER_DEFINITION, {
+        ...REQUEST,
+        model: 'payperwork-v1',
+        duration: '8',
+        static_mask: 'mask.png',
+      })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Video Job Worker Tests
+ *
+ * Tests server-side polling of persisted video jobs: completion, failure,
+ * retry backoff and timeouts
+ */
+
+import ProviderFactory from '@/lib/video/providers/ProviderFactory';
+import { videoJobWorker } from '@/lib/video/jobs/VideoJobWorker';
+import { VIDEO_CONFIG, VIDEO_SOCKET_EVENTS } from '@/lib/video/config/videoConfig';
+import {
+  getDueVideoJobs,
+  updateVideoJob,
+  saveVideoJobToLibrary,
+  updateVideoJobMessage,
+} from '@/lib/supabase-video-jobs';
+import { emitSocketEvent } from '@/lib/socket/emitHelper';
+import type { VideoJob } from '@/types/video';
+
+jest.mock('@fal-ai/client', () => ({
+  fal: { config: jest.fn(), queue: {} },
+}));
+
+jest.mock('@/lib/supabase-video-jobs', () => ({
+  getDueVideoJobs: jest.fn(),
+  updateVideoJob: jest.fn(),
+  saveVideoJobToLibrary: jest.fn(),
+  updateVideoJobMessage: jest.fn(),
+}));
+
+jest.mock('@/lib/socket/emitHelper', () => ({
+  emitSocketEvent: jest.fn(),
+}));
+
+const mockUpdateVideoJob = updateVideoJob as jest.MockedFunction<typeof updateVideoJob>;
+
+function createJob(overrides: Partial<VideoJob> = {}): VideoJob {
+  return {
+    id: 'job-1',
+    userId: 'user-1',
+    messageId: 'msg-1',
+    model: 'payperwork-v1',
+    type: 'text2video',
+    taskId: 'task-1',
+    status: 'processing',
+    prompt: 'A city at night',
+    settings: { duration: '5', aspectRatio: '16:9' },
+    pollAttempts: 0,
+    consecutiveErrors: 0,
+    nextPollAt: new Date().toISOString(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe('VideoJobWorker', () => {
+  let checkStatus: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkStatus = jest.spyOn(ProviderFactory.getProvider('payperwork-v1'), 'checkStatus');
+    // Updates accumulate on the stored job like on the table row
+    let storedJob = createJob();
+    mockUpdateVideoJob.mockImplementation(async (_id, updates) => (storedJob = { ...storedJob, ...updates }));
+  });
+
+  afterEach(() => {
+    checkStatus.mockRestore();
+  });
+
+  it('should save, update and emit a completed job', async () => {
+    checkStatus.mockResolvedValue({
+      task_id: 'task-1',
+      status: 'succeed',
+      videos: [{ url: 'https://example.com/video.mp4' }],
+      message: 'done',
+    });
+    (saveVideoJobToLibrary as jest.Mock).mockResolvedValue('lib-1');
+
+    await videoJobWorker.processJob(createJob());
+
+    expect(saveVideoJobToLibrary).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      expect.objectContaining({ url: 'https://example.com/video.mp4', model: 'Payperwork Move v1' })
+    );
+    expect(mockUpdateVideoJob).toHaveBeenNthCalledWith(1, 'job-1', expect.objectContaining({
+      status: 'succeed',
+      videoUrl: 'https://example.com/video.mp4',
+    }), { ifStatus: 'processing' });
+    expect(mockUpdateVideoJob).toHaveBeenNthCalledWith(2, 'job-1', { libraryItemId: 'lib-1' });
+    expect(updateVideoJobMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'succeed' }),
+      expect.objectContaining({ attachments: [expect.objectContaining({ type: 'video' })] })
+    );
+    expect(emitSocketEvent).toHaveBeenCalledWith('user-1', VIDEO_SOCKET_EVENTS.JOB_UPDATE, {
+      job: expect.objectContaining({ status: 'succeed' }),
+    });
+  });
+
+  it('should not save a job to the library if another process completed it first', async () => {
+    checkStatus.mockResolvedValue({
+      task_id: 'task-1',
+      status: 'succeed',
+      videos: [{ url: 'https://example.com/video.mp4' }],
+      message: 'done',
+    });
+    mockUpdateVideoJob.mockResolvedValueOnce(null);
+
+    await videoJobWorker.processJob(createJob());
+
+    expect(mockUpdateVideoJob).toHaveBeenCalledTimes(1);
+    expect(saveVideoJobToLibrary).not.toHaveBeenCalled();
+    expect(updateVideoJobMessage).not.toHaveBeenCalled();
+    expect(emitSocketEvent).not.toHaveBeenCalled();
+  });
+
+  it('should mark a job failed when the provider reports failure', async () => {
+    checkStatus.mockResolvedValue({ task_id: 'task-1', status: 'failed', message: 'Content rejected' });
+
+    await videoJobWorker.processJob(createJob());
+
+    expect(mockUpdateVideoJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'failed',
+      error: 'Content rejected',
+    }), { ifStatus: 'processing' });
+    expect(saveVideoJobToLibrary).not.toHaveBeenCalled();
+    expect(emitSocketEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reschedule a job that is still processing', async () => {
+    checkStatus.mockResolvedValue({ task_id: 'task-1', status: 'processing', message: 'running' });
+
+    await videoJobWorker.processJob(createJob({ pollAttempts: 3, consecutiveErrors: 2 }));
+
+    expect(mockUpdateVideoJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      pollAttempts: 4,
+      consecutiveErrors: 0,
+    }), { ifStatus: 'processing' });
+    expect(emitSocketEvent).not.toHaveBeenCalled();
+  });
+
+  it('should time out after the maximum number of polls', async () => {
+    checkStatus.mockResolvedValue({ task_id: 'task-1', status: 'processing', message: 'running' });
+
+    await videoJobWorker.processJob(createJob({ pollAttempts: VIDEO_CONFIG.polling.maxAttempts - 1 }));
+
+    expect(mockUpdateVideoJob).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'failed',
+      error: expect.stringContaining('timed out'),
+    }), { ifStatus: 'processing' });
+  });
+
+  it('should back off on transient errors and fail after too many', async () => {
+    checkStatus.mockRejectedValue(new Error('Network down'));
+
+    await videoJobWorker.processJob(createJob());
+    expect(mockUpdateVideoJob).toHaveBeenLastCalledWith('job-1', expect.objectContaining({
+      consecutiveErrors: 1,
+      error: 'Network down',
+    }), { ifStatus: 'processing' });
+
+    await videoJobWorker.processJob(createJob({ consecutiveErrors: VIDEO_CONFIG.jobs.maxConsecutiveErrors - 1 }));
+    expect(mockUpdateVideoJob).toHaveBeenLastCalledWith('job-1', expect.objectContaining({
+      status: 'failed',
+    }), { ifStatus: 'processing' });
+  });
+
+  it('should apply a webhook status without polling the provider', async () => {
+    await expect(
+      videoJobWorker.applyStatus(createJob(), { task_id: 'task-1', status: 'failed', message: 'Content rejected' })
+    ).resolves.toBe(true);
+    await expect(
+      videoJobWorker.applyStatus(createJob(), { task_id: 'task-1', status: 'processing', message: 'running' })
+    ).resolves.toBe(false);
+
+    expect(checkStatus).not.toHaveBeenCalled();
+    expect(mockUpdateVideoJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should poll all due jobs in a tick', async () => {
+    checkStatus.mockResolvedValue({ task_id: 'task-1', status: 'processing', message: 'running' });
+    (getDueVideoJobs as jest.Mock).mockResolvedValue([createJob({ id: 'a' }), createJob({ id: 'b' })]);
+
+    await videoJobWorker.tick();
+
+    expect(getDueVideoJobs).toHaveBeenCalledWith(VIDEO_CONFIG.jobs.batchSize);
+    expect(checkStatus).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Video Webhook Tests
+ *
+ * Tests provider callback verification (Kling token, fal.ai ED25519 signature)
+ * and mapping callback payloads to task statuses
+ */
+
+import crypto from 'crypto';
+import { KlingProvider } from '@/lib/video/providers/KlingProvider';
+import { FalProvider } from '@/lib/video/providers/FalProvider';
+import {
+  getVideoWebhookUrl,
+  resetFalJwksCache,
+  safeCompare,
+  verifyFalWebhookSignature,
+} from '@/lib/video/webhooks/webhookUtils';
+
+jest.mock('@fal-ai/client', () => ({
+  fal: { config: jest.fn(), queue: {} },
+}));
+
+jest.mock('@/lib/video/config/videoConfig', () => {
+  const actual = jest.requireActual('@/lib/video/config/videoConfig');
+  return {
+    ...actual,
+    ENV: {
+      ...actual.ENV,
+      webhookBaseUrl: 'https://app.example.com',
+      kling: { ...actual.ENV.kling, webhookSecret: 'kling-secret' },
+    },
+  };
+});
+
+function createWebhookRequest(options: { headers?: Record<string, string>; body?: string; query?: string } = {}) {
+  return {
+    headers: new Headers(options.headers),
+    rawBody: options.body ?? '{}',
+    searchParams: new URLSearchParams(options.query),
+  };
+}
+
+describe('Video webhooks', () => {
+  describe('webhook utils', () => {
+    it('should build provider callback URLs', () => {
+      expect(getVideoWebhookUrl('fal')).toBe('https://app.example.com/api/video/webhook/fal');
+      expect(getVideoWebhookUrl('kling', { token: 'abc' })).toBe(
+        'https://app.example.com/api/video/webhook/kling?token=abc'
+      );
+    });
+
+    it('should compare secrets safely', () => {
+      expect(safeCompare('secret', 'secret')).toBe(true);
+      expect(safeCompare('secret', 'secreT')).toBe(false);
+      expect(safeCompare('secret', 'longer-secret')).toBe(false);
+      expect(safeCompare(null, 'secret')).toBe(false);
+    });
+  });
+
+  describe('Kling', () => {
+    const provider = new KlingProvider();
+
+    it('should accept callbacks with the shared token only', async () => {
+      expect(provider.webhooksEnabled).toBe(true);
+      await expect(provider.verifyWebhook(createWebhookRequest({ query: 'token=kling-secret' }))).resolves.toBe(true);
+      await expect(provider.verifyWebhook(createWebhookRequest({ query: 'token=wrong' }))).resolves.toBe(false);
+      await expect(provider.verifyWebhook(createWebhookRequest())).resolves.toBe(false);
+    });
+
+    it('should map callback payloads to task statuses', () => {
+      expect(provider.parseWebhook({
+        task_id: 'k-1',
+        task_status: 'succeed',
+        task_status_msg: '',
+        task_result: { videos: [{ url: 'https://cdn.example.com/k-1.mp4' }] },
+      })).toMatchObject({
+        taskId: 'k-1',
+        response: { status: 'succeed', videos: [{ url: 'https://cdn.example.com/k-1.mp4' }] },
+      });
+
+      expect(provider.parseWebhook({ task_id: 'k-1', task_status: 'submitted' })?.response.status).toBe('processing');
+      expect(provider.parseWebhook({ foo: 'bar' })).toBeNull();
+    });
+  });
+
+  describe('fal.ai', () => {
+    const provider = new FalProvider();
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const jwk = publicKey.export({ format: 'jwk' });
+    const originalFetch = global.fetch;
+
+    function signedHeaders(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+      const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+      const message = Buffer.from(['req-1', 'fal-user', String(timestamp), bodyHash].join('\n'));
+      return {
+        'x-fal-webhook-request-id': 'req-1',
+        'x-fal-webhook-user-id': 'fal-user',
+        'x-fal-webhook-timestamp': String(timestamp),
+        'x-fal-webhook-signature': crypto.sign(null, message, privateKey).toString('hex'),
+      };
+    }
+
+    beforeEach(() => {
+      resetFalJwksCache();
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ keys: [jwk] }),
+      }) as unknown as typeof fetch;
+    });
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should verify signed callbacks', async () => {
+      const body = JSON.stringify({ request_id: 'req-1', status: 'OK' });
+
+      await expect(verifyFalWebhookSignature(new Headers(signedHeaders(body)), body)).resolves.toBe(true);
+      await expect(provider.verifyWebhook(createWebhookRequest({ headers: signedHeaders(body), body }))).resolves.toBe(true);
+    });
+
+    it('should reject tampered bodies, stale timestamps and missing headers', async () => {
+      const body = JSON.stringify({ request_id: 'req-1', status: 'OK' });
+
+      await expect(verifyFalWebhookSignature(new Headers(signedHeaders(body)), body + ' ')).resolves.toBe(false);
+      await expect(
+        verifyFalWebhookSignature(new Headers(signedHeaders(body, Math.floor(Date.now() / 1000) - 3600)), body)
+      ).resolves.toBe(false);
+      await expect(verifyFalWebhookSignature(new Headers(), body)).resolves.toBe(false);
+    });
+
+    it('should cache the public keys', async () => {
+      const body = '{}';
+      await verifyFalWebhookSignature(new Headers(signedHeaders(body)), body);
+      await verifyFalWebhookSignature(new Headers(signedHeaders(body)), body);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map callback payloads to task statuses', () => {
+      expect(provider.parseWebhook({
+        request_id: 'req-1',
+        status: 'OK',
+        payload: { video: { url: 'https://fal.media/req-1.mp4' } },
+      })).toMatchObject({
+        taskId: 'req-1',
+        response: { status: 'succeed', videos: [{ url: 'https://fal.media/req-1.mp4' }] },
+      });
+
+      expect(provider.parseWebhook({ request_id: 'req-1', status: 'ERROR', error: 'Content policy' })).toMatchObject({
+        response: { status: 'failed', message: 'Content policy' },
+      });
+    });
+  });
+});
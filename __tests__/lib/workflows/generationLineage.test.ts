@@ -0,0 +1,87 @@
+/**
+ * Generation Lineage Tests
+ *
+ * Tests building the derivation tree of workflow generations from parent_id.
+ */
+
+import { buildGenerationLineage, getLineagePath } from "@/lib/utils/workflowLineage";
+import type { WorkflowGeneration } from "@/lib/utils/workflowDatabase";
+
+function generation(
+  id: string,
+  parentId?: string,
+  type: WorkflowGeneration["type"] = "render"
+): WorkflowGeneration {
+  return {
+    id,
+    user_id: "user-1",
+    url: `https://example.com/${id}.jpg`,
+    type,
+    source_type: parentId ? "from_render" : "original",
+    parent_id: parentId,
+    model: "nano-banana",
+    name: id,
+    source_image: parentId ? undefined : "https://example.com/sketch.jpg",
+    created_at: `2025-10-20T10:00:0${id.length}Z`,
+    updated_at: "2025-10-20T10:00:00Z",
+  };
+}
+
+// render → (edit-a → upscale, edit-b), edit-a → video
+const generations = [
+  generation("render"),
+  generation("edit-a", "render"),
+  generation("edit-bb", "render"),
+  generation("upscale", "edit-a", "upscale"),
+  generation("video-xyz", "edit-a", "video"),
+  generation("unrelated"),
+];
+
+describe("Generation lineage", () => {
+  describe("buildGenerationLineage", () => {
+    it("should build the tree from the root of a generation", () => {
+      const lineage = buildGenerationLineage(generations, "upscale")!;
+
+      expect(lineage.root.generation.id).toBe("render");
+      expect(lineage.root.children.map((node) => node.generation.id)).toEqual([
+        "edit-a",
+        "edit-bb",
+      ]);
+      expect(lineage.root.children[0]!.children.map((node) => node.generation.id)).toEqual([
+        "upscale",
+        "video-xyz",
+      ]);
+      expect(lineage.path).toEqual(["render", "edit-a", "upscale"]);
+      expect(lineage.sourceImage).toBe("https://example.com/sketch.jpg");
+    });
+
+    it("should return null for unknown generations", () => {
+      expect(buildGenerationLineage(generations, "missing")).toBeNull();
+    });
+
+    it("should stop at parents that are not loaded", () => {
+      const lineage = buildGenerationLineage([generation("edit", "deleted")], "edit")!;
+
+      expect(lineage.root.generation.id).toBe("edit");
+      expect(lineage.path).toEqual(["edit"]);
+    });
+
+    it("should not loop on cyclic parents", () => {
+      const lineage = buildGenerationLineage([generation("a", "b"), generation("b", "a")], "a")!;
+
+      expect(lineage.path).toEqual(["b", "a"]);
+      expect(lineage.root.children[0]!.children).toEqual([]);
+    });
+  });
+
+  describe("getLineagePath", () => {
+    it("should return the nodes from the root to a generation", () => {
+      const lineage = buildGenerationLineage(generations, "render")!;
+
+      const path = getLineagePath(lineage.root, "video-xyz");
+
+      expect(path?.map((node) => node.generation.id)).toEqual(["render", "edit-a", "video-xyz"]);
+      expect(getLineagePath(lineage.root, "unrelated")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Masked Edit Tests
+ *
+ * Tests compositing a masked edit onto the original image.
+ */
+
+import sharp from "sharp";
+import { buildMaskedEditPrompt, compositeMaskedEdit } from "@/lib/api/workflows/common/maskedEdit";
+
+async function solidImage(width: number, height: number, color: string, format: "png" | "jpeg") {
+  const buffer = await sharp({
+    create: { width, height, channels: 3, background: color },
+  })
+    [format]()
+    .toBuffer();
+
+  return { data: buffer.toString("base64"), mimeType: `image/${format}` };
+}
+
+async function pixelAt(image: { data: string }, x: number, y: number) {
+  const { data, info } = await sharp(Buffer.from(image.data, "base64"))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return [data[offset], data[offset + 1], data[offset + 2]];
+}
+
+describe("Masked edit", () => {
+  it("should keep the original pixels outside the mask", async () => {
+    const original = await solidImage(8, 4, "#ff0000", "png");
+    // The model returns a different size and format
+    const edited = await solidImage(16, 8, "#0000ff", "jpeg");
+
+    // Left half white (editable), right half black (keep)
+    const maskBuffer = await sharp({
+      create: { width: 4, height: 2, channels: 3, background: "#000000" },
+    })
+      .composite([
+        {
+          input: await sharp({
+            create: { width: 2, height: 2, channels: 3, background: "#ffffff" },
+          })
+            .png()
+            .toBuffer(),
+          left: 0,
+          top: 0,
+        },
+      ])
+      .png()
+      .toBuffer();
+    const mask = { data: maskBuffer.toString("base64"), mimeType: "image/png" };
+
+    const result = await compositeMaskedEdit(original, edited, mask);
+    const metadata = await sharp(Buffer.from(result.data, "base64")).metadata();
+
+    expect(result.mimeType).toBe("image/png");
+    expect(metadata.width).toBe(8);
+    expect(metadata.height).toBe(4);
+    expect(await pixelAt(result, 7, 3)).toEqual([255, 0, 0]);
+    const [red, , blue] = await pixelAt(result, 0, 0);
+    expect(red).toBeLessThan(10);
+    expect(blue).toBeGreaterThan(245);
+  });
+
+  it("should add the mask constraint to the edit prompt", () => {
+    const prompt = buildMaskedEditPrompt("Replace the sofa with a green one");
+
+    expect(prompt).toContain("Replace the sofa with a green one");
+    expect(prompt).toContain("MASK");
+  });
+});
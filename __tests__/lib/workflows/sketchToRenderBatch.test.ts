@@ -0,0 +1,62 @@
+/**
+ * Sketch-to-Render Batch Tests
+ *
+ * Tests the variation matrix of batch generation.
+ */
+
+import {
+  buildVariantMatrix,
+  countBatchVariants,
+  getSharedSettings,
+} from '@/lib/api/workflows/sketchToRender/batch';
+
+describe('Sketch-to-Render batch', () => {
+  describe('countBatchVariants', () => {
+    it('should multiply the values of all varied settings', () => {
+      expect(
+        countBatchVariants({
+          timeOfDay: ['morning', 'evening', 'night'],
+          designStyle: ['modern', 'rustic'],
+        })
+      ).toBe(6);
+    });
+
+    it('should ignore empty variations and duplicate values', () => {
+      expect(countBatchVariants({ timeOfDay: ['morning', 'morning'], season: [] })).toBe(1);
+    });
+  });
+
+  describe('buildVariantMatrix', () => {
+    it('should build every combination on top of the base settings', () => {
+      const variants = buildVariantMatrix(
+        { designStyle: 'modern', timeOfDay: 'midday', quality: 'high' },
+        { designStyle: ['modern', 'rustic'], timeOfDay: ['morning', 'night'] }
+      );
+
+      expect(variants.map((variant) => variant.settings)).toEqual([
+        { designStyle: 'modern', timeOfDay: 'morning', quality: 'high' },
+        { designStyle: 'modern', timeOfDay: 'night', quality: 'high' },
+        { designStyle: 'rustic', timeOfDay: 'morning', quality: 'high' },
+        { designStyle: 'rustic', timeOfDay: 'night', quality: 'high' },
+      ]);
+      expect(variants[1]?.variation).toEqual({ designStyle: 'modern', timeOfDay: 'night' });
+    });
+
+    it('should label variants with the display names of the values', () => {
+      const variants = buildVariantMatrix({}, { timeOfDay: ['evening'], season: ['winter'] });
+
+      expect(variants[0]?.label).toBe('Evening · Winter');
+    });
+  });
+
+  describe('getSharedSettings', () => {
+    it('should remove the varied settings', () => {
+      expect(
+        getSharedSettings(
+          { designStyle: 'modern', timeOfDay: 'midday' },
+          { timeOfDay: ['morning', 'night'] }
+        )
+      ).toEqual({ designStyle: 'modern' });
+    });
+  });
+});
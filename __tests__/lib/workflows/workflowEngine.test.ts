@@ -0,0 +1,165 @@
+/**
+ * Workflow Engine Tests
+ *
+ * Tests the workflow registry, request parsing and prompt fallbacks.
+ */
+
+import {
+  getWorkflowDefinition,
+  listWorkflowDefinitions,
+  parseWorkflowInput,
+  parseWorkflowSettings,
+  buildWorkflowPrompt,
+} from "@/lib/api/workflows/engine";
+import type { WorkflowDefinition } from "@/lib/api/workflows/engine";
+
+// Definitions import the GPT-4o enhancers, no API calls are made in these tests
+jest.mock("openai", () => ({
+  __esModule: true,
+  default: jest.fn(() => ({})),
+}));
+
+// Source images shorter than 100 characters are rejected as invalid
+const sourceImage = { data: "A".repeat(120), mimeType: "image/png" };
+
+describe("Workflow engine", () => {
+  describe("registry", () => {
+    it("should register all workflows with unique slugs and tables", () => {
+      const definitions = listWorkflowDefinitions();
+      const slugs = definitions.map((def) => def.slug);
+
+      expect(slugs).toEqual([
+        "sketch-to-render",
+        "branding",
+        "furnish-empty",
+        "style-transfer",
+        "render-to-cad",
+      ]);
+      expect(new Set(definitions.map((def) => def.tableName)).size).toBe(definitions.length);
+    });
+
+    it("should return null for unknown workflows", () => {
+      expect(getWorkflowDefinition("facade-renovation")).toBeNull();
+    });
+  });
+
+  describe("parseWorkflowInput", () => {
+    it("should apply settings defaults and read the reference image field", () => {
+      const definition = getWorkflowDefinition("furnish-empty")!;
+      const furniture = { data: "base64-sofa", mimeType: "image/jpeg" };
+
+      const result = parseWorkflowInput(
+        definition,
+        { prompt: "cozy", sourceImage, furnitureImages: [furniture] },
+        "prompt",
+        "test-client"
+      );
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.input.prompt).toBe("cozy");
+      expect(result.input.referenceImages).toEqual([furniture]);
+      expect(result.input.settings).toMatchObject({ spaceType: "living_room" });
+    });
+
+    it("should accept a single reference image", () => {
+      const definition = getWorkflowDefinition("style-transfer")!;
+      const reference = { data: "base64-reference", mimeType: "image/png" };
+
+      const result = parseWorkflowInput(
+        definition,
+        { userPrompt: "", sourceImage, referenceImage: reference },
+        "userPrompt",
+        "test-client"
+      );
+
+      expect(result.valid && result.input.referenceImages).toEqual([reference]);
+    });
+
+    it("should reject invalid settings", () => {
+      const definition = getWorkflowDefinition("render-to-cad")!;
+
+      const result = parseWorkflowInput(
+        definition,
+        { sourceImage, settings: { detailLevel: "extreme" } },
+        "prompt",
+        "test-client"
+      );
+
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.error).toContain("detailLevel");
+    });
+
+    it("should reject a missing source image", () => {
+      const definition = getWorkflowDefinition("sketch-to-render")!;
+
+      const result = parseWorkflowInput(definition, { prompt: "test" }, "prompt", "test-client");
+
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe("parseWorkflowSettings", () => {
+    it("should fill in defaults of a partial preset", () => {
+      const definition = getWorkflowDefinition("render-to-cad")!;
+
+      const result = parseWorkflowSettings(definition, { detailLevel: "detailed" });
+
+      expect(result).toEqual({
+        valid: true,
+        settings: { outputType: "with_metadata", detailLevel: "detailed" },
+      });
+    });
+
+    it("should reject out-of-range settings", () => {
+      const definition = getWorkflowDefinition("style-transfer")!;
+
+      const result = parseWorkflowSettings(definition, { structurePreservation: 150 });
+
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe("buildWorkflowPrompt", () => {
+    const definition: WorkflowDefinition = {
+      slug: "test",
+      name: "Test",
+      tableName: "test",
+      settingsSchema: getWorkflowDefinition("render-to-cad")!.settingsSchema,
+      buildSettingsContext: () => "",
+      enhancer: getWorkflowDefinition("render-to-cad")!.enhancer,
+      fallbackPrompt: (userPrompt) => `Fallback: ${userPrompt}`,
+      buildPrompt: async ({ prompt }) => `Enhanced: ${prompt}`,
+      buildGenerationPrompt: (prompt) => `RULES\n${prompt}`,
+    };
+    const input = {
+      prompt: "modern office",
+      sourceImage,
+      referenceImages: [],
+      settings: {},
+      clientId: "test-client",
+    };
+
+    it("should wrap the enhanced prompt for generation", async () => {
+      const result = await buildWorkflowPrompt(definition, input);
+
+      expect(result.enhancedPrompt).toBe("Enhanced: modern office");
+      expect(result.finalPrompt).toBe("RULES\nEnhanced: modern office");
+    });
+
+    it("should use the fallback prompt when enhancement fails", async () => {
+      const result = await buildWorkflowPrompt(
+        {
+          ...definition,
+          buildPrompt: async () => {
+            throw new Error("Enhancement failed");
+          },
+        },
+        input
+      );
+
+      expect(result.enhancedPrompt).toBe("Fallback: modern office");
+      expect(result.finalPrompt).toBe("RULES\nFallback: modern office");
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CoordinatorAgent } from "@/lib/agents/agents/CoordinatorAgent";
+import { getWorkflowRun } from "@/lib/supabase-agent-runs";
+import { handleApiError } from "@/lib/api-error-handler";
+
+/**
+ * POST /api/agents/runs/[id]/cancel
+ * Cancel a running agent workflow run (completed steps are kept and the run can be resumed)
+ * Body: { userId: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId } = await req.json().catch(() => ({}));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId" },
+        { status: 400 }
+      );
+    }
+
+    const run = await getWorkflowRun(id);
+
+    if (!run || run.userId !== userId) {
+      return NextResponse.json(
+        { error: "Workflow run not found" },
+        { status: 404 }
+      );
+    }
+
+    const orchestrator = new CoordinatorAgent().getOrchestrator();
+    const cancelled = await orchestrator.cancelWorkflow(id, "Cancelled by user");
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Workflow run is not running (status: ${run.status})` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, runId: id });
+  } catch (error) {
+    return handleApiError(error, 'agent-run-cancel-api');
+  }
+}
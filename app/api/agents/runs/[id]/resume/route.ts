@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CoordinatorAgent } from "@/lib/agents/agents/CoordinatorAgent";
+import { UsageTracker } from "@/lib/agents/base/usage";
+import { getWorkflowRun } from "@/lib/supabase-agent-runs";
+import { saveUsage } from "@/lib/supabase-agent-usage";
+import { handleApiError } from "@/lib/api-error-handler";
+import { apiLogger } from "@/lib/logger";
+
+/**
+ * POST /api/agents/runs/[id]/resume
+ * Resume a failed or interrupted agent workflow run from the last completed step
+ * Body: { userId: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId } = await req.json().catch(() => ({}));
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId" },
+        { status: 400 }
+      );
+    }
+
+    const run = await getWorkflowRun(id);
+
+    if (!run || run.userId !== userId) {
+      return NextResponse.json(
+        { error: "Workflow run not found" },
+        { status: 404 }
+      );
+    }
+
+    const orchestrator = new CoordinatorAgent().getOrchestrator();
+
+    // Only the orchestrator that created the run has the agents its plan needs
+    if (run.orchestratorName !== orchestrator.name) {
+      return NextResponse.json(
+        { error: `Workflow run cannot be resumed by ${orchestrator.name}` },
+        { status: 409 }
+      );
+    }
+
+    const usage = new UsageTracker();
+    const result = await orchestrator.resumeWorkflow(id, { usage });
+
+    await saveUsage(usage.getRecords(), {
+      userId,
+      source: "agent_workflow",
+      presentationId: run.plan.steps[0]?.context.presentationId,
+      runId: id,
+    }).catch((error) => {
+      apiLogger.warn("Failed to save workflow usage", { runId: id, error: error.message });
+    });
+
+    return NextResponse.json({
+      success: result.success,
+      runId: result.runId,
+      stepResults: result.stepResults,
+      executionTime: result.executionTime,
+      errors: result.errors,
+      usage: result.usage,
+    });
+  } catch (error) {
+    return handleApiError(error, 'agent-run-resume-api');
+  }
+}
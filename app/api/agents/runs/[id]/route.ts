@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWorkflowRun } from "@/lib/supabase-agent-runs";
+import { handleApiError } from "@/lib/api-error-handler";
+
+/**
+ * GET /api/agents/runs/[id]?userId=xxx
+ * Get a single agent workflow run with its step results and timings
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId query parameter" },
+        { status: 400 }
+      );
+    }
+
+    const run = await getWorkflowRun(id);
+
+    if (!run || run.userId !== userId) {
+      return NextResponse.json(
+        { error: "Workflow run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      run,
+    });
+  } catch (error) {
+    return handleApiError(error, 'agent-run-api');
+  }
+}
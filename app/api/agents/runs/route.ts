@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWorkflowRuns } from "@/lib/supabase-agent-runs";
+import { handleApiError } from "@/lib/api-error-handler";
+import type { WorkflowRunStatus } from "@/lib/agents/base/types";
+
+/**
+ * GET /api/agents/runs?userId=xxx&status=failed&limit=50
+ * List the user's agent workflow runs (newest first) with per-step timings
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const status = searchParams.get("status");
+    const orchestratorName = searchParams.get("orchestrator");
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId query parameter" },
+        { status: 400 }
+      );
+    }
+
+    if (status && !["running", "completed", "failed", "cancelled"].includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid status. Must be 'running', 'completed', 'failed' or 'cancelled'" },
+        { status: 400 }
+      );
+    }
+
+    const runs = await getWorkflowRuns({
+      userId,
+      status: (status as WorkflowRunStatus) || undefined,
+      orchestratorName: orchestratorName || undefined,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      runs,
+    });
+  } catch (error) {
+    return handleApiError(error, 'agent-runs-api');
+  }
+}
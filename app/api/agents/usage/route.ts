@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserUsage } from "@/lib/supabase-agent-usage";
+import { handleApiError } from "@/lib/api-error-handler";
+
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/agents/usage?userId=xxx&days=30
+ * Token usage and estimated cost (USD) of the user's LLM and tool calls,
+ * by model, source and presentation
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const days = parseInt(searchParams.get("days") || "30", 10);
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `Invalid days. Must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const usage = await getUserUsage(userId, since);
+
+    return NextResponse.json({
+      success: true,
+      usage,
+    });
+  } catch (error) {
+    return handleApiError(error, "agent-usage-api");
+  }
+}
@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import ProviderFactory from "@/lib/video/providers/ProviderFactory";
+import { videoProviderRouter } from "@/lib/video/providers/ProviderRouter";
+import VideoProviderRegistry from "@/lib/video/providers/ProviderRegistry";
+import {
+  validateVideoGenerationRequest,
+  validateVideoModel,
+  validateVideoSettings,
+  validateVideoStatusRequest,
+} from "@/lib/video/validation/videoValidation";
+import { createVideoJob, isVideoJobTargetAllowed } from "@/lib/supabase-video-jobs";
 import type { VideoModel, VideoType, VideoGenerationRequest } from "@/types/video";
 import { videoGenerationRateLimiter, getClientId } from "@/lib/rate-limit";
 import { apiLogger } from "@/lib/logger";
@@ -16,9 +25,20 @@ import { handleApiError, rateLimitErrorResponse } from "@/lib/api-error-handler"
 // API ROUTE HANDLERS
 // ============================================================================
 
+/**
+ * Optional job context sent by the chat client
+ * When userId is present, the task is persisted as a server-side video job
+ * which the video job worker polls to completion
+ */
+interface VideoJobContext {
+  userId?: string;
+  messageId?: string;
+  conversationId?: string;
+}
+
 /**
  * POST /api/generate-video
- * Create a new video generation task
+ * Create a new video generation task (and a video job if userId is provided)
  */
 export async function POST(req: NextRequest) {
   const clientId = getClientId(req);
@@ -33,23 +53,21 @@ export async function POST(req: NextRequest) {
     }
 
     // Parse body to check model BEFORE API key validation
-    const body: VideoGenerationRequest = await req.json();
-    const { model, type, prompt } = body;
+    const body: VideoGenerationRequest & VideoJobContext = await req.json();
+    const { model, type, prompt, userId, messageId, conversationId } = body;
 
     // Validate model first
-    if (!model || !["payperwork-v1", "payperwork-v2"].includes(model)) {
+    if (!model || !validateVideoModel(model)) {
       return NextResponse.json(
-        { error: "Invalid or missing model. Must be 'payperwork-v1' or 'payperwork-v2'" },
+        { error: validateVideoGenerationRequest(body) },
         { status: 400 }
       );
     }
+    const definition = VideoProviderRegistry.get(model)!;
 
-    // Dynamic API Key validation based on model
-    const requiredKeys: ('openai' | 'kling' | 'fal' | 'supabase' | 'google-gemini')[] =
-      model === "payperwork-v1" ? ['kling'] : ['fal'];
-    const keyValidation = validateApiKeys(requiredKeys);
-    if (!keyValidation.valid) {
-      return keyValidation.errorResponse!;
+    // API keys: the requested provider or a provider it can fail over to must be configured
+    if (videoProviderRouter.getCandidates(body).length === 0) {
+      return validateApiKeys([...definition.requiredApiKeys]).errorResponse!;
     }
 
     // Rate limiting
@@ -58,25 +76,25 @@ export async function POST(req: NextRequest) {
       return rateLimitErrorResponse(rateLimitResult.reset);
     }
 
-    // Validate type
-    if (!type) {
-      return NextResponse.json(
-        { error: "Missing required parameter: type" },
-        { status: 400 }
-      );
-    }
-
-    if (!["text2video", "image2video"].includes(type)) {
+    // Validate type and prompt
+    const requestError = validateVideoGenerationRequest({ model, type, prompt });
+    if (requestError) {
       return NextResponse.json(
-        { error: "Invalid type. Must be 'text2video' or 'image2video'" },
+        { error: requestError },
         { status: 400 }
       );
     }
 
-    // Validate prompt
-    if (!prompt || typeof prompt !== "string") {
+    // Validate settings against the provider's declared capabilities
+    const settingsError = validateVideoSettings(definition, {
+      type,
+      duration: body.duration,
+      aspectRatio: body.aspectRatio,
+      mode: body.mode,
+    });
+    if (settingsError) {
       return NextResponse.json(
-        { error: "Invalid or missing prompt" },
+        { error: settingsError },
         { status: 400 }
       );
     }
@@ -94,13 +112,56 @@ export async function POST(req: NextRequest) {
       throw error;
     }
 
-    // Get provider (singleton) and create task
-    const provider = ProviderFactory.getProvider(model);
-    const response = await provider.createTask(body);
+    // The job writes its result into this chat message - it must not belong to another user
+    if (userId && !(await isVideoJobTargetAllowed(userId, { messageId, conversationId }))) {
+      return NextResponse.json(
+        { error: "Message or conversation belongs to another user" },
+        { status: 403 }
+      );
+    }
+
+    // Route to a provider (failover / cost policy) and create task
+    const routing = await videoProviderRouter.createTask(body);
+    const { response } = routing;
+
+    apiLogger.info('Video generation task created', {
+      taskId: response.task_id,
+      model: routing.model,
+      requestedModel: model,
+      clientId,
+    });
+
+    if (!userId) {
+      return NextResponse.json(response);
+    }
+
+    // Persist as server-side job - the worker owns polling from here on
+    const job = await createVideoJob(userId, {
+      messageId,
+      conversationId,
+      model: routing.model,
+      requestedModel: model,
+      type,
+      taskId: response.task_id,
+      prompt,
+      settings: {
+        duration: routing.request.duration,
+        aspectRatio: routing.request.aspectRatio,
+        mode: routing.request.mode,
+      },
+    });
 
-    apiLogger.info('Video generation task created', { taskId: response.task_id, model, clientId });
+    if (!job) {
+      // The task is running anyway - return it so the client can still track it
+      apiLogger.error('Failed to persist video job, client has to poll the task', undefined, {
+        taskId: response.task_id,
+        model: routing.model,
+        userId,
+      });
+      return NextResponse.json(response);
+    }
 
-    return NextResponse.json(response);
+    return NextResponse.json({ ...response, job });
   } catch (error) {
     return handleApiError(error, 'generate-video-api');
   }
@@ -142,18 +203,17 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Validate model
-    if (!["payperwork-v1", "payperwork-v2"].includes(model)) {
+    const statusError = validateVideoStatusRequest({ task_id: taskId, model, type });
+    if (statusError) {
       return NextResponse.json(
-        { error: "Invalid model. Must be 'payperwork-v1' or 'payperwork-v2'" },
+        { error: statusError },
         { status: 400 }
       );
     }
 
     // Dynamic API Key validation based on model
-    const requiredKeys: ('openai' | 'kling' | 'fal' | 'supabase' | 'google-gemini')[] =
-      model === "payperwork-v1" ? ['kling'] : ['fal'];
-    const keyValidation = validateApiKeys(requiredKeys);
+    const definition = VideoProviderRegistry.get(model)!;
+    const keyValidation = validateApiKeys([...definition.requiredApiKeys]);
     if (!keyValidation.valid) {
       return keyValidation.errorResponse!;
     }
@@ -161,14 +221,6 @@ export async function GET(req: NextRequest) {
     // ⚠️ NO rate limiting for status checks (GET) - allow frequent polling
     // Rate limiting is only applied to video creation (POST)
 
-    // Validate type
-    if (!["text2video", "image2video"].includes(type)) {
-      return NextResponse.json(
-        { error: "Invalid type. Must be 'text2video' or 'image2video'" },
-        { status: 400 }
-      );
-    }
-
     // Get provider (singleton) and check status
     const provider = ProviderFactory.getProvider(model);
 
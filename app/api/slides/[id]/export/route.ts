@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentationWithSlides } from "@/lib/supabase-slides";
+import { getPresentationTheme } from "@/lib/supabase-themes";
+import { renderPresentationToBuffer } from "@/lib/export/pptx-renderer";
+import { getPPTXFilename } from "@/lib/export/pptx-exporter";
+import { getPDFFilename, renderPresentationPDF } from "@/lib/export/pdf-renderer";
+import { handleApiError } from "@/lib/api-error-handler";
+
+export const maxDuration = 120; // Image downloads, headless browser
+
+const PPTX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+const PDF_CONTENT_TYPE = "application/pdf";
+
+/**
+ * GET /api/slides/[id]/export?userId=xxx&format=pptx|pdf[&handout=true]
+ * Export a presentation as a file:
+ * - pptx: editable PowerPoint file (native text, bullet lists, tables and images)
+ * - pdf: slides rendered with headless Chromium in the presentation's page size;
+ *   handout=true prints A4 pages with the speaker notes below each slide
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const format = searchParams.get("format") || "pptx";
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    if (format !== "pptx" && format !== "pdf") {
+      return NextResponse.json({ error: `Unsupported export format: ${format}` }, { status: 400 });
+    }
+
+    const result = await getPresentationWithSlides(id, userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    if (format === "pdf") {
+      const handout = searchParams.get("handout") === "true";
+      const file = await renderPresentationPDF(result.presentation, {
+        baseUrl: req.nextUrl.origin,
+        userId,
+        handout,
+      });
+
+      return fileResponse(file, PDF_CONTENT_TYPE, getPDFFilename(result.presentation, handout));
+    }
+
+    const customTheme = await getPresentationTheme(result.presentation);
+    const file = await renderPresentationToBuffer(result.presentation, result.slides, {
+      customTheme,
+    });
+
+    return fileResponse(file, PPTX_CONTENT_TYPE, getPPTXFilename(result.presentation));
+  } catch (error) {
+    return handleApiError(error, "slides-export-api");
+  }
+}
+
+function fileResponse(file: Buffer, contentType: string, filename: string) {
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Content-Length": String(file.length),
+    },
+  });
+}
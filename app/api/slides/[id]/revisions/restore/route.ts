@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentationWithSlides } from "@/lib/supabase-slides";
+import {
+  getSlideRevision,
+  getRevisionBatch,
+  restoreSlideRevision,
+  restorePresentationRevision,
+} from "@/lib/supabase-slide-revisions";
+import { handleApiError } from "@/lib/api-error-handler";
+import { apiLogger } from "@/lib/logger";
+import type { RestoreRevisionRequest } from "@/types/slides";
+
+/**
+ * POST /api/slides/[id]/revisions/restore
+ * Restore a slide revision (revisionId) or the whole presentation as it was before
+ * a change (batchId). The replaced state is saved as a revision first, so a restore
+ * can be undone as well.
+ *
+ * Body: { userId: string, revisionId?: string, batchId?: string }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { userId, revisionId, batchId }: RestoreRevisionRequest = await req.json();
+
+    if (!userId || typeof userId !== "string") {
+      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+    }
+
+    if (!revisionId === !batchId) {
+      return NextResponse.json(
+        { error: "Either revisionId or batchId is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getPresentationWithSlides(id, userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    if (revisionId) {
+      const revision = await getSlideRevision(id, revisionId);
+
+      if (!revision) {
+        return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+      }
+
+      const currentSlide = result.slides.find((slide) => slide.id === revision.slide_id);
+      const slide = await restoreSlideRevision(userId, revision, currentSlide);
+
+      apiLogger.info("Slide revision restored", { userId, presentationId: id, revisionId });
+
+      return NextResponse.json({ success: true, slides: [slide] });
+    }
+
+    const revisions = await getRevisionBatch(id, batchId!);
+
+    if (revisions.length === 0) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    if (revisions[0]?.scope !== "presentation") {
+      return NextResponse.json(
+        { error: "Revision does not cover the whole presentation, restore it by revisionId" },
+        { status: 400 }
+      );
+    }
+
+    const slides = await restorePresentationRevision(userId, id, revisions, result.slides);
+
+    apiLogger.info("Presentation revision restored", {
+      userId,
+      presentationId: id,
+      batchId,
+      slidesCount: slides.length,
+    });
+
+    return NextResponse.json({ success: true, slides });
+  } catch (error) {
+    return handleApiError(error, "slides-revisions-api");
+  }
+}
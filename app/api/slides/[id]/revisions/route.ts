@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentationWithSlides } from "@/lib/supabase-slides";
+import { getSlideRevisions } from "@/lib/supabase-slide-revisions";
+import { handleApiError } from "@/lib/api-error-handler";
+
+/**
+ * GET /api/slides/[id]/revisions?userId=xxx[&slideId=xxx]
+ * Get the version history of a presentation (or one slide), newest first.
+ * Each revision is the state of a slide before a change (manual edit, AI regeneration
+ * or restore); revisions of one change share a batch_id.
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const slideId = searchParams.get("slideId") || undefined;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const result = await getPresentationWithSlides(id, userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    const revisions = await getSlideRevisions(id, slideId);
+
+    return NextResponse.json({ success: true, revisions, slides: result.slides });
+  } catch (error) {
+    return handleApiError(error, "slides-revisions-api");
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SpeakerNotesPhase } from "@/lib/api/slides/agents/pipeline";
+import type { SlideContent } from "@/lib/api/slides/agents/pipeline";
+import { getPresentationWithSlides, updateSlide } from "@/lib/supabase-slides";
+import { recordSlideRevisions } from "@/lib/supabase-slide-revisions";
+import {
+  buildTalkScript,
+  DEFAULT_SECONDS_PER_SLIDE,
+  MIN_SECONDS_PER_SLIDE,
+  MAX_SECONDS_PER_SLIDE,
+} from "@/lib/api/slides/talk-script";
+import { UsageTracker } from "@/lib/agents/base/usage";
+import { saveUsage } from "@/lib/supabase-agent-usage";
+import { apiRateLimiter, getClientId } from "@/lib/rate-limit";
+import { handleApiError, rateLimitErrorResponse } from "@/lib/api-error-handler";
+import { apiLogger } from "@/lib/logger";
+import type { GenerateTalkScriptRequest, Slide } from "@/types/slides";
+
+export const maxDuration = 120;
+
+/**
+ * GET /api/slides/[id]/script?userId=xxx
+ * Get the talk script of a presentation: the speaker notes of all slides with
+ * timing marks (speaking time estimated from the word count)
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const result = await getPresentationWithSlides(id, userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, script: buildTalkScript(result.slides) });
+  } catch (error) {
+    return handleApiError(error, "slides-script-api");
+  }
+}
+
+/**
+ * POST /api/slides/[id]/script
+ * Write the speaker notes of all slides (or only of slides without notes) with a
+ * target speaking time per slide and return the talk script. The previous notes
+ * are kept as revisions (source "ai") and can be restored.
+ *
+ * Body: { userId: string, secondsPerSlide?: number (10-600, default 60), onlyMissing?: boolean }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const usage = new UsageTracker();
+  let userId: string | undefined;
+  let presentationId: string | undefined;
+
+  try {
+    const rateLimitResult = apiRateLimiter.check(getClientId(req));
+    if (!rateLimitResult.success) {
+      return rateLimitErrorResponse(rateLimitResult.reset);
+    }
+
+    const { id } = await params;
+    const body: GenerateTalkScriptRequest = await req.json();
+    const secondsPerSlide = body.secondsPerSlide ?? DEFAULT_SECONDS_PER_SLIDE;
+
+    if (!body.userId || typeof body.userId !== "string") {
+      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+    }
+
+    if (
+      !Number.isInteger(secondsPerSlide) ||
+      secondsPerSlide < MIN_SECONDS_PER_SLIDE ||
+      secondsPerSlide > MAX_SECONDS_PER_SLIDE
+    ) {
+      return NextResponse.json(
+        {
+          error: `secondsPerSlide must be between ${MIN_SECONDS_PER_SLIDE} and ${MAX_SECONDS_PER_SLIDE}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await getPresentationWithSlides(id, body.userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    userId = body.userId;
+    presentationId = id;
+
+    const targets = body.onlyMissing
+      ? result.slides.filter((slide) => !slide.speaker_notes?.trim())
+      : result.slides;
+
+    if (targets.length === 0) {
+      return NextResponse.json({
+        success: true,
+        slides: [],
+        script: buildTalkScript(result.slides),
+      });
+    }
+
+    const phase = new SpeakerNotesPhase();
+    const notes = await phase.execute(
+      targets.map(toSlideContent),
+      result.presentation.title,
+      secondsPerSlide,
+      { signal: req.signal, usage }
+    );
+
+    const changes = targets
+      .map((slide, index) => ({ slide, notes: notes.slides[index]?.speakerNotes }))
+      .filter(
+        (change): change is { slide: Slide; notes: string } =>
+          !!change.notes && change.notes !== change.slide.speaker_notes
+      );
+
+    const updated: Slide[] = [];
+    try {
+      for (const change of changes) {
+        updated.push(await updateSlide(id, change.slide.id, { speaker_notes: change.notes }));
+      }
+    } finally {
+      // Revisions only for the slides that were actually updated (also if a later update failed)
+      await recordSlideRevisions(
+        changes.slice(0, updated.length).map((change) => change.slide),
+        { userId, source: "ai", changedFields: ["speaker_notes"] }
+      );
+    }
+
+    const slides = result.slides.map(
+      (slide) => updated.find((candidate) => candidate.id === slide.id) ?? slide
+    );
+
+    apiLogger.info("Talk script generated", {
+      userId,
+      presentationId: id,
+      secondsPerSlide,
+      slideCount: updated.length,
+      duration: notes.duration,
+    });
+
+    return NextResponse.json({ success: true, slides: updated, script: buildTalkScript(slides) });
+  } catch (error) {
+    return handleApiError(error, "slides-script-api");
+  } finally {
+    if (userId) {
+      await saveUsage(usage.getRecords(), {
+        userId,
+        source: "slides_script",
+        presentationId,
+      }).catch((error) => {
+        apiLogger.warn("Failed to save talk script usage", { error: error.message });
+      });
+    }
+  }
+}
+
+function toSlideContent(slide: Slide): SlideContent {
+  return {
+    id: slide.id,
+    title: slide.title,
+    content: slide.content,
+    layout: slide.layout,
+    speakerNotes: slide.speaker_notes ?? undefined,
+  };
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ContentGenerationPhase } from "@/lib/api/slides/agents/pipeline";
+import type { TopicWithResearch } from "@/lib/api/slides/agents/pipeline";
+import {
+  getPresentationWithSlides,
+  getGenerationContext,
+  updateSlide,
+} from "@/lib/supabase-slides";
+import { recordSlideRevisions, getChangedFields } from "@/lib/supabase-slide-revisions";
+import { UsageTracker } from "@/lib/agents/base/usage";
+import { saveUsage } from "@/lib/supabase-agent-usage";
+import { emitSlidePreviewUpdate } from "@/lib/socket/emitHelper";
+import { apiRateLimiter, getClientId } from "@/lib/rate-limit";
+import { handleApiError, rateLimitErrorResponse } from "@/lib/api-error-handler";
+import { apiLogger } from "@/lib/logger";
+import type { Slide, SlideLayout } from "@/types/slides";
+
+export const maxDuration = 60;
+
+const MAX_INSTRUCTION_LENGTH = 1000;
+const PREVIEW_INTERVAL_MS = 250;
+
+const LAYOUTS: SlideLayout[] = ["title_slide", "content", "two_column", "image", "quote"];
+
+/**
+ * POST /api/slides/[id]/slides/[slideId]/rewrite
+ * Rewrite a single slide following a free-text instruction ("kürzer", "mehr Zahlen",
+ * "zweispaltig"). Uses the topic outline and research of the pipeline run; the text is
+ * streamed as slide:preview:update socket events. The previous state is kept as a
+ * revision (source "ai") and can be restored.
+ *
+ * Body: { userId: string, instruction: string, layout?: SlideLayout }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; slideId: string }> }
+) {
+  const usage = new UsageTracker();
+  let userId: string | undefined;
+  let presentationId: string | undefined;
+
+  try {
+    const rateLimitResult = apiRateLimiter.check(getClientId(req));
+    if (!rateLimitResult.success) {
+      return rateLimitErrorResponse(rateLimitResult.reset);
+    }
+
+    const { id, slideId } = await params;
+    const body = await req.json();
+    const instruction = typeof body.instruction === "string" ? body.instruction.trim() : "";
+    const layout: SlideLayout | undefined = body.layout || undefined;
+
+    if (!body.userId || typeof body.userId !== "string") {
+      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+    }
+
+    if (!instruction || instruction.length > MAX_INSTRUCTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Instruction is required (max. ${MAX_INSTRUCTION_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    if (layout && !LAYOUTS.includes(layout)) {
+      return NextResponse.json({ error: `Invalid layout: ${layout}` }, { status: 400 });
+    }
+
+    const result = await getPresentationWithSlides(id, body.userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    const position = result.slides.findIndex((slide) => slide.id === slideId);
+    const slide = result.slides[position];
+
+    if (!slide) {
+      return NextResponse.json({ error: "Slide not found" }, { status: 404 });
+    }
+
+    userId = body.userId as string;
+    presentationId = id;
+
+    const context = await getGenerationContext(id);
+    const topic = findTopic(context.topics, slide, position, result.presentation.prompt);
+
+    // Stream the rewrite to the editor (throttled)
+    let lastPreview = 0;
+    const phase = new ContentGenerationPhase(undefined, userId);
+    const rewrite = await phase.rewriteSlide(
+      topic,
+      context.research,
+      {
+        instruction,
+        slide: { title: slide.title, content: slide.content, layout: slide.layout },
+        layout,
+      },
+      {
+        signal: req.signal,
+        usage,
+        onPreview: (preview) => {
+          if (Date.now() - lastPreview < PREVIEW_INTERVAL_MS) return;
+          lastPreview = Date.now();
+          emitSlidePreviewUpdate(userId!, id, {
+            id: slide.id,
+            order_index: slide.order_index,
+            ...preview,
+          }).catch(() => {});
+        },
+      }
+    );
+
+    const update = {
+      title: rewrite.slide.title,
+      content: rewrite.slide.content,
+      layout: rewrite.layout,
+      citations: rewrite.slide.citations ?? [],
+    };
+
+    const updated = await updateSlide(id, slide.id, update);
+
+    // Only after the update succeeded - a failed rewrite leaves no revision behind
+    await recordSlideRevisions([slide], {
+      userId,
+      source: "ai",
+      changedFields: getChangedFields(slide, update),
+    });
+
+    await emitSlidePreviewUpdate(userId, id, {
+      id: updated.id,
+      order_index: updated.order_index,
+      title: updated.title,
+      content: updated.content,
+      layout: updated.layout,
+    }).catch(() => {});
+
+    apiLogger.info("Slide rewritten", {
+      userId,
+      presentationId: id,
+      slideId,
+      layout: updated.layout,
+      duration: rewrite.duration,
+    });
+
+    return NextResponse.json({ success: true, slide: updated });
+  } catch (error) {
+    return handleApiError(error, "slides-rewrite-api");
+  } finally {
+    if (userId) {
+      await saveUsage(usage.getRecords(), {
+        userId,
+        source: "slides_rewrite",
+        presentationId,
+      }).catch((error) => {
+        apiLogger.warn("Failed to save rewrite usage", { error: error.message });
+      });
+    }
+  }
+}
+
+/**
+ * Topic of the pipeline run the slide was generated from (by title, else by position);
+ * slides without one (e.g. imported decks) get a topic built from the slide itself
+ */
+function findTopic(
+  topics: TopicWithResearch[],
+  slide: Slide,
+  position: number,
+  prompt: string
+): TopicWithResearch {
+  const topic =
+    topics.find((candidate) => candidate.title.trim() === slide.title.trim()) ?? topics[position];
+
+  return (
+    topic ?? {
+      order: position + 1,
+      title: slide.title,
+      description: prompt,
+      keyPoints: [],
+    }
+  );
+}
@@ -5,6 +5,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { recordSlideEdit, getChangedFields } from "@/lib/supabase-slide-revisions";
+import { relinkCitations } from "@/lib/api/slides/citations";
 import type {
   UpdateSlideRequest,
   UpdateSlideResponse,
@@ -115,6 +117,45 @@ export async function PATCH(
     if (background_image !== undefined)
       updateData.background_image = background_image;
 
+    // Save the current state to the slide history (restorable revision)
+    const { data: currentSlide, error: currentError } = await supabase
+      .from("slides")
+      .select("*")
+      .eq("id", slideId)
+      .eq("presentation_id", presentationId)
+      .single();
+
+    if (currentError || !currentSlide) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Slide not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    // Edited content keeps the citations whose markers it still contains
+    if (content !== undefined) {
+      updateData.citations = relinkCitations(content, currentSlide.citations ?? []);
+    }
+
+    const changedFields = getChangedFields(currentSlide, updateData);
+    if (changedFields.length > 0) {
+      try {
+        await recordSlideEdit(currentSlide, user.id, changedFields);
+      } catch (error) {
+        console.error("Error saving slide revision:", error);
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Failed to save slide history",
+          },
+          { status: 500 }
+        );
+      }
+    }
+
     // Update slide
     const { data: slide, error: updateError } = await supabase
       .from("slides")
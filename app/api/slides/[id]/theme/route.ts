@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentationWithSlides, updatePresentationTheme } from "@/lib/supabase-slides";
+import { getTheme, getPresentationTheme } from "@/lib/supabase-themes";
+import { canUseTeamRecord } from "@/lib/supabase-teams";
+import { THEME_OPTIONS } from "@/constants/slides";
+import { handleApiError } from "@/lib/api-error-handler";
+import { getAuthUser } from "@/lib/auth-api";
+import type { CustomTheme, SetPresentationThemeRequest } from "@/types/slides";
+
+/**
+ * GET /api/slides/[id]/theme?userId=xxx
+ * Get the built-in and custom theme of a presentation (for rendering)
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const result = await getPresentationWithSlides(id, userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    const customTheme = await getPresentationTheme(result.presentation);
+
+    return NextResponse.json({ success: true, theme: result.presentation.theme, customTheme });
+  } catch (error) {
+    return handleApiError(error, "slides-theme-api");
+  }
+}
+
+/**
+ * PUT /api/slides/[id]/theme
+ * Set the theme of a presentation: a built-in theme and/or a custom theme of the
+ * user or of a team of the user (customThemeId null removes the custom theme).
+ * Returns the presentation and its custom theme.
+ *
+ * Body: { userId: string, theme?: PresentationTheme, customThemeId?: string | null }
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body: SetPresentationThemeRequest = await req.json();
+    const { userId, theme, customThemeId } = body;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+    }
+
+    if (theme === undefined && customThemeId === undefined) {
+      return NextResponse.json({ error: "Provide theme or customThemeId" }, { status: 400 });
+    }
+
+    if (theme !== undefined && !THEME_OPTIONS.some((option) => option.value === theme)) {
+      return NextResponse.json({ error: `Invalid theme: ${theme}` }, { status: 400 });
+    }
+
+    const result = await getPresentationWithSlides(id, userId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Presentation not found" }, { status: 404 });
+    }
+
+    let customTheme: CustomTheme | null = null;
+
+    if (customThemeId) {
+      customTheme = await getTheme(customThemeId);
+      const user = customTheme && customTheme.user_id !== userId ? await getAuthUser(req) : null;
+
+      if (!customTheme || !(await canUseTeamRecord(customTheme, userId, user?.id))) {
+        return NextResponse.json({ error: "Theme not found" }, { status: 404 });
+      }
+    } else if (customThemeId === undefined) {
+      customTheme = await getPresentationTheme(result.presentation);
+    }
+
+    const presentation = await updatePresentationTheme(id, userId, {
+      ...(theme !== undefined && { theme }),
+      ...(customThemeId !== undefined && { custom_theme_id: customThemeId }),
+    });
+
+    return NextResponse.json({ success: true, presentation, customTheme });
+  } catch (error) {
+    return handleApiError(error, "slides-theme-api");
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importDeck, getDeckFileType } from "@/lib/api/slides/slides-importer";
+import { createPresentationWithSlides, uploadSlideImage } from "@/lib/supabase-slides";
+import { handleApiError } from "@/lib/api-error-handler";
+import { apiLogger } from "@/lib/logger";
+import type { PresentationFormat, PresentationTheme } from "@/types/slides";
+
+export const maxDuration = 60; // Image uploads
+
+const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+
+const FORMATS: PresentationFormat[] = ["16:9", "4:3", "A4"];
+const THEMES: PresentationTheme[] = [
+  "default",
+  "red",
+  "rose",
+  "orange",
+  "green",
+  "blue",
+  "yellow",
+  "violet",
+];
+
+/**
+ * POST /api/slides/import
+ * Import a PowerPoint (.pptx) or Markdown (.md, slides separated by `---`) deck
+ * as a new presentation the editor can open.
+ *
+ * Form data:
+ * - file: .pptx or .md file
+ * - userId: string (from client-side getUserId())
+ * - title, format ("16:9" | "4:3" | "A4"), theme: optional
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file");
+    const userId = formData.get("userId");
+    const title = formData.get("title");
+    const format = (formData.get("format") || "16:9") as PresentationFormat;
+    const theme = (formData.get("theme") || "default") as PresentationTheme;
+
+    if (!userId || typeof userId !== "string") {
+      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+    }
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    if (!getDeckFileType(file.name)) {
+      return NextResponse.json(
+        { error: "Unsupported file type. Expected .pptx or .md" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "File exceeds maximum size of 25MB" }, { status: 400 });
+    }
+
+    if (!FORMATS.includes(format) || !THEMES.includes(theme)) {
+      return NextResponse.json({ error: "Invalid format or theme" }, { status: 400 });
+    }
+
+    const deck = await importDeck(file.name, new Uint8Array(await file.arrayBuffer()), {
+      uploadImage: (image) => uploadSlideImage(userId, image),
+    });
+
+    const { presentation, slides } = await createPresentationWithSlides(
+      userId,
+      {
+        title: typeof title === "string" && title.trim() ? title.trim() : deck.title,
+        prompt: `Import: ${file.name}`,
+        format,
+        theme,
+      },
+      deck.slides
+    );
+
+    apiLogger.info("Presentation imported", {
+      userId,
+      presentationId: presentation.id,
+      fileName: file.name,
+      slidesCount: slides.length,
+    });
+
+    return NextResponse.json({ success: true, presentation, slides }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "slides-import-api");
+  }
+}
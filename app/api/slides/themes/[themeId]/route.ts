@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getTheme,
+  updateTheme,
+  deleteTheme,
+  type CustomThemeFields,
+} from "@/lib/supabase-themes";
+import { canUseTeamRecord } from "@/lib/supabase-teams";
+import { validateRequest } from "@/lib/validation/middleware";
+import { presentationThemeUpdateSchema } from "@/lib/validation/schemas";
+import { handleApiError } from "@/lib/api-error-handler";
+import { checkTeamMembership, getAuthUser } from "@/lib/auth-api";
+
+/**
+ * GET /api/slides/themes/[themeId]?userId=xxx
+ * Get a custom theme of the user or of the user's team
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ themeId: string }> }) {
+  try {
+    const { themeId } = await params;
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const theme = await getTheme(themeId);
+    const user = theme && theme.user_id !== userId ? await getAuthUser(req) : null;
+
+    if (!theme || !(await canUseTeamRecord(theme, userId, user?.id))) {
+      return NextResponse.json({ error: "Theme not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, theme });
+  } catch (error) {
+    return handleApiError(error, "slides-themes-api");
+  }
+}
+
+/**
+ * PATCH /api/slides/themes/[themeId]
+ * Update a custom theme (owner only); presentations using it change with it
+ *
+ * Body: { userId, ...fields of POST /api/slides/themes (all optional) }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ themeId: string }> }
+) {
+  try {
+    const { themeId } = await params;
+    const validation = await validateRequest(req, presentationThemeUpdateSchema);
+    if ("error" in validation) {
+      return validation.error;
+    }
+
+    const { userId, ...input } = validation.data;
+
+    if (input.teamId) {
+      const teamError = await checkTeamMembership(req, input.teamId);
+      if (teamError) return teamError;
+    }
+
+    const fields: Partial<CustomThemeFields> = {
+      team_id: input.teamId,
+      name: input.name,
+      palette: input.palette,
+      heading_font: input.headingFont,
+      body_font: input.bodyFont,
+      logo_url: input.logoUrl,
+      logo_position: input.logoPosition,
+      footer_text: input.footerText,
+      show_slide_numbers: input.showSlideNumbers,
+      background_image: input.backgroundImage,
+    };
+    // Only fields of the request (null clears a field)
+    const update = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    ) as Partial<CustomThemeFields>;
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "No fields to update" }, { status: 400 });
+    }
+
+    const theme = await updateTheme(themeId, userId, update);
+
+    if (!theme) {
+      return NextResponse.json({ error: "Theme not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, theme });
+  } catch (error) {
+    return handleApiError(error, "slides-themes-api");
+  }
+}
+
+/**
+ * DELETE /api/slides/themes/[themeId]?userId=xxx
+ * Delete a custom theme (owner only); presentations using it fall back to their
+ * built-in theme
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ themeId: string }> }
+) {
+  try {
+    const { themeId } = await params;
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const deleted = await deleteTheme(themeId, userId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Theme not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "slides-themes-api");
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getThemes, createTheme } from "@/lib/supabase-themes";
+import { validateRequest } from "@/lib/validation/middleware";
+import { presentationThemeSchema } from "@/lib/validation/schemas";
+import { handleApiError } from "@/lib/api-error-handler";
+import { checkTeamMembership } from "@/lib/auth-api";
+
+/**
+ * GET /api/slides/themes?userId=xxx[&teamId=xxx]
+ * Get the custom themes of a user and of the user's team
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const teamId = searchParams.get("teamId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    if (teamId && !/^[\w-]{1,64}$/.test(teamId)) {
+      return NextResponse.json({ error: "Invalid teamId" }, { status: 400 });
+    }
+
+    if (teamId) {
+      const teamError = await checkTeamMembership(req, teamId);
+      if (teamError) return teamError;
+    }
+
+    const themes = await getThemes(userId, teamId);
+
+    return NextResponse.json({ success: true, themes });
+  } catch (error) {
+    return handleApiError(error, "slides-themes-api");
+  }
+}
+
+/**
+ * POST /api/slides/themes
+ * Create a custom theme (fonts, palette, logo, footer, master slide background);
+ * with a teamId it is shared with the team
+ *
+ * Body: { userId, teamId?, name, palette: { primary, background, text, muted },
+ *         headingFont, bodyFont, logoUrl?, logoPosition?, footerText?,
+ *         showSlideNumbers?, backgroundImage? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const validation = await validateRequest(req, presentationThemeSchema);
+    if ("error" in validation) {
+      return validation.error;
+    }
+
+    const input = validation.data;
+
+    if (input.teamId) {
+      const teamError = await checkTeamMembership(req, input.teamId);
+      if (teamError) return teamError;
+    }
+
+    const theme = await createTheme(input.userId, {
+      team_id: input.teamId ?? null,
+      name: input.name,
+      palette: input.palette,
+      heading_font: input.headingFont,
+      body_font: input.bodyFont,
+      logo_url: input.logoUrl ?? null,
+      logo_position: input.logoPosition ?? "top-right",
+      footer_text: input.footerText ?? null,
+      show_slide_numbers: input.showSlideNumbers ?? false,
+      background_image: input.backgroundImage ?? null,
+    });
+
+    return NextResponse.json({ success: true, theme }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "slides-themes-api");
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route: Cancel Slides Generation
+ *
+ * Stops a running slides generation (generate-slides or pipeline).
+ * Slides completed so far are kept and delivered via WebSocket.
+ *
+ * @route POST /api/slides/workflow/[presentationId]/cancel
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cancelGeneration } from "@/lib/api/slides/generation-control";
+import { handleApiError } from "@/lib/api-error-handler";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ presentationId: string }> }
+) {
+  try {
+    const { presentationId } = await params;
+    const { userId } = await request.json().catch(() => ({}));
+
+    if (!userId || typeof userId !== "string") {
+      return NextResponse.json({ success: false, error: "User ID is required" }, { status: 400 });
+    }
+
+    if (!cancelGeneration(presentationId, userId)) {
+      return NextResponse.json(
+        { success: false, error: "No running generation for this presentation" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Slides generation cancelled",
+      presentationId,
+    });
+  } catch (error) {
+    return handleApiError(error, "slides-cancel-api");
+  }
+}
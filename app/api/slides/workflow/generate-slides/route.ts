@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { generateSlides } from "@/lib/api/slides/claude-service";
+import { startGeneration, finishGeneration } from "@/lib/api/slides/generation-control";
 import { apiLogger } from "@/lib/logger";
 
 export async function POST(request: NextRequest) {
@@ -49,7 +50,8 @@ export async function POST(request: NextRequest) {
       .update({ status: "generating" })
       .eq("id", presentationId);
 
-    // Generate slides (async, emits via WebSocket)
+    // Generate slides (async, emits via WebSocket, cancellable via the cancel route)
+    const signal = startGeneration(presentationId, userId);
     generateSlides({
       prompt,
       topics,
@@ -57,9 +59,12 @@ export async function POST(request: NextRequest) {
       presentationId,
       format: format || "16:9",
       theme: theme || "default",
-    }).catch((error) => {
-      console.error("Error in slides generation:", error);
-    });
+      signal,
+    })
+      .catch((error) => {
+        console.error("Error in slides generation:", error);
+      })
+      .finally(() => finishGeneration(presentationId, signal));
 
     return NextResponse.json({
       success: true,
@@ -26,7 +26,7 @@ const supabase = createClient(
 
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, format, theme, userId } = await request.json();
+    const { prompt, format, theme, customThemeId, userId } = await request.json();
 
     // Validate
     if (!prompt || typeof prompt !== "string") {
@@ -50,6 +50,7 @@ export async function POST(request: NextRequest) {
         prompt,
         format: format || "16:9",
         theme: theme || "default",
+        custom_theme_id: customThemeId || null,
         status: "planning",
       })
       .select()
@@ -66,6 +67,7 @@ export async function POST(request: NextRequest) {
     const topics = await generateTopics({
       prompt,
       userId,
+      presentationId: presentation.id,
       format: format || "16:9",
       theme: theme || "default",
     });
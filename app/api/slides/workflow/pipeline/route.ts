@@ -15,6 +15,9 @@ import { createClient } from "@supabase/supabase-js";
 import { apiLogger } from "@/lib/logger";
 import { validateRequest, slidesPipelineSchema } from "@/lib/validation";
 import { rateLimitWithPreset } from "@/lib/rate-limit";
+import { startGeneration, finishGeneration } from "@/lib/api/slides/generation-control";
+import { UsageTracker } from "@/lib/agents/base/usage";
+import { saveUsage } from "@/lib/supabase-agent-usage";
 import {
   emitThinkingMessage,
   emitTopicsGenerated,
@@ -36,6 +39,10 @@ const supabaseAdmin = createClient(
 );
 
 export async function POST(request: NextRequest) {
+  let generation:
+    | { presentationId: string; userId: string; signal: AbortSignal; usage: UsageTracker }
+    | undefined;
+
   try {
     // Rate limit check
     const rateLimitResult = await rateLimitWithPreset(request, "slidesGeneration");
@@ -49,12 +56,32 @@ export async function POST(request: NextRequest) {
       return validation.error;
     }
 
-    const { prompt, userId, format, theme, slideCount, enableResearch, researchDepth } =
-      validation.data;
+    const {
+      prompt,
+      userId,
+      format,
+      theme,
+      customThemeId,
+      slideCount,
+      enableResearch,
+      researchDepth,
+      autoFix,
+      speakerNotesSeconds,
+      generateImages,
+      maxImages,
+    } = validation.data;
 
     apiLogger.info("🚀 Starting presentation pipeline for user:", { userId });
     apiLogger.info("Prompt:", { prompt });
-    apiLogger.info("Settings:", { format, theme, slideCount, enableResearch, researchDepth });
+    apiLogger.info("Settings:", {
+      format,
+      theme,
+      slideCount,
+      enableResearch,
+      researchDepth,
+      autoFix,
+      generateImages,
+    });
 
     // Step 1: Create presentation in DB
     const { data: presentation, error: createError } = await supabaseAdmin
@@ -65,6 +92,7 @@ export async function POST(request: NextRequest) {
         prompt,
         format,
         theme,
+        custom_theme_id: customThemeId ?? null,
         status: "generating",
       })
       .select()
@@ -78,6 +106,11 @@ export async function POST(request: NextRequest) {
     const presentationId = presentation.id;
     apiLogger.info("✅ Created presentation:", { presentationId });
 
+    // Register the run so the user can cancel it (POST /api/slides/workflow/[id]/cancel)
+    const signal = startGeneration(presentationId, userId);
+    const usage = new UsageTracker();
+    generation = { presentationId, userId, signal, usage };
+
     // Step 2: Initialize pipeline with progress callbacks
     const pipeline = new PresentationPipeline((event) => {
       const { type, data } = event;
@@ -113,6 +146,21 @@ export async function POST(request: NextRequest) {
                 content: `Erstelle Folien: ${data.slideNumber}/${data.totalSlides} (${Math.round(progress)}%)`,
                 messageId: `slides-progress-${data.slideNumber}`,
               });
+            } else if (phase === "quality_fix" && data.status === "completed") {
+              emitThinkingMessage(userId, {
+                content: `Qualitätsverbesserung: ${data.fixedCount} Folien überarbeitet`,
+                messageId: `quality-fix-${Date.now()}`,
+              });
+            } else if (phase === "pre_production" && data.status === "in_progress") {
+              emitThinkingMessage(userId, {
+                content: `Erstelle Bilder: ${data.imageNumber}/${data.totalImages}`,
+                messageId: `images-progress-${data.imageNumber}`,
+              });
+            } else if (phase === "speaker_notes" && data.status === "completed") {
+              emitThinkingMessage(userId, {
+                content: `Sprechernotizen für ${data.notesCount} Folien geschrieben`,
+                messageId: `speaker-notes-${Date.now()}`,
+              });
             } else if (phase === "pre_production" && data.status === "completed") {
               emitThinkingMessage(userId, {
                 content: `Qualitätsprüfung: ${data.qualityScore}/100 (${data.qualityLevel})`,
@@ -135,19 +183,33 @@ export async function POST(request: NextRequest) {
       theme,
       enableResearch,
       researchDepth: researchDepth as "quick" | "medium" | "deep",
+      autoFix: autoFix ?? false,
+      speakerNotesSeconds,
+      generateImages: generateImages ?? false,
+      maxImages,
     };
 
     // Step 4: Execute pipeline
     const result = await pipeline.execute(pipelineInput, {
       userId,
+      sessionId: presentationId,
       presentationId,
+      signal,
+      usage,
     });
+    const cancelled = !!result.metadata.cancelled;
 
-    apiLogger.info("✅ Pipeline completed successfully");
+    apiLogger.info(
+      cancelled ? "⏹️ Pipeline cancelled, keeping partial results" : "✅ Pipeline completed successfully"
+    );
     apiLogger.info("Topics:", { count: result.topics.length });
     apiLogger.info("Slides:", { count: result.slides.length });
     apiLogger.info("Quality Score:", { score: result.metadata.qualityScore });
     apiLogger.info("Total Time:", { time: result.metadata.totalTime });
+    apiLogger.info("Usage:", {
+      tokens: result.metadata.usage?.totalTokens,
+      costUsd: result.metadata.usage?.costUsd,
+    });
 
     // Step 5: Emit topics via WebSocket (optional)
     try {
@@ -167,15 +229,22 @@ export async function POST(request: NextRequest) {
 
     // Step 6: Save slides to database
     const slidesData = result.slides.map((slide, index) => ({
+      // Ids of the quality check results (metadata.qualityIssues)
+      id: slide.id,
       presentation_id: presentationId,
       order_index: index + 1,
       title: slide.title,
       content: slide.content,
-      layout: "title_content",
-      notes: slide.notes || null,
+      layout: slide.layout ?? "content",
+      background_image: slide.imageUrl ?? null,
+      speaker_notes: slide.speakerNotes || null,
+      citations: slide.citations ?? [],
     }));
 
-    const { error: slidesError } = await supabaseAdmin.from("slides").insert(slidesData);
+    const { error: slidesError } =
+      slidesData.length > 0
+        ? await supabaseAdmin.from("slides").insert(slidesData)
+        : { error: null };
 
     if (slidesError) {
       console.error("Error saving slides:", slidesError);
@@ -184,12 +253,22 @@ export async function POST(request: NextRequest) {
       apiLogger.info("✅ Saved", slidesData.length, "slides to database");
     }
 
+    // A cancelled run keeps its partial results: slides, else topics
+    const status =
+      !cancelled || result.slides.length > 0
+        ? "ready"
+        : result.topics.length > 0
+          ? "topics_generated"
+          : "error";
+
     // Step 7: Update presentation with topics and metadata
     const { error: updateError } = await supabaseAdmin
       .from("presentations")
       .update({
         topics: result.topics,
-        status: "ready",
+        // Kept for single slide rewrites (POST /api/slides/[id]/slides/[slideId]/rewrite)
+        research_data: result.research ?? null,
+        status,
         slide_count: result.slides.length,
         updated_at: new Date().toISOString(),
       })
@@ -201,7 +280,7 @@ export async function POST(request: NextRequest) {
 
     // Step 8: Emit completion (optional)
     try {
-      if (typeof emitGenerationCompleted === "function") {
+      if (typeof emitGenerationCompleted === "function" && result.slides.length > 0) {
         emitGenerationCompleted(userId, presentationId, result.slides.length);
       }
     } catch (error) {
@@ -215,10 +294,15 @@ export async function POST(request: NextRequest) {
       topics: result.topics,
       slideCount: result.slides.length,
       qualityScore: result.metadata.qualityScore,
+      cancelled,
       metadata: {
         totalTime: result.metadata.totalTime,
         phaseTimes: result.metadata.phaseTimes,
         hasResearch: !!result.research,
+        qualityIssues: result.metadata.qualityIssues,
+        fixedSlides: result.metadata.fixedSlides,
+        imageSlides: result.metadata.imageSlides,
+        usage: result.metadata.usage,
       },
     });
   } catch (error) {
@@ -243,5 +327,18 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    if (generation) {
+      finishGeneration(generation.presentationId, generation.signal);
+
+      // Failed and cancelled runs are billed too
+      await saveUsage(generation.usage.getRecords(), {
+        userId: generation.userId,
+        source: "slides_pipeline",
+        presentationId: generation.presentationId,
+      }).catch((error) => {
+        apiLogger.warn("Failed to save pipeline usage", { error: error.message });
+      });
+    }
   }
 }
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
 import { slidesLogger } from '@/lib/logger';
 import { handleApiError } from '@/lib/api-error-handler';
+import { recordSlideRevisions } from '@/lib/supabase-slide-revisions';
 
 /**
  * POST /api/slides/workflow/save
@@ -92,7 +93,32 @@ export async function POST(req: NextRequest) {
     }
 
     // ============================================
-    // Step 2: Delete Existing Slides
+    // Step 2: Save Existing Slides to History
+    // ============================================
+
+    const { data: existingSlides, error: existingError } = await supabaseAdmin
+      .from('slides')
+      .select('*')
+      .eq('presentation_id', presentationId);
+
+    if (existingError) {
+      slidesLogger.error('Failed to fetch existing slides', existingError);
+      return NextResponse.json(
+        { error: 'Failed to save slides' },
+        { status: 500 }
+      );
+    }
+
+    // Regenerated slides replace the existing ones, which stay restorable
+    // as one revision batch (POST /api/slides/[id]/revisions/restore)
+    await recordSlideRevisions(existingSlides || [], {
+      userId,
+      source: 'ai',
+      scope: 'presentation',
+    });
+
+    // ============================================
+    // Step 3: Delete Existing Slides
     // ============================================
 
     slidesLogger.debug('Deleting existing slides');
@@ -111,7 +137,7 @@ export async function POST(req: NextRequest) {
     }
 
     // ============================================
-    // Step 3: Insert New Slides
+    // Step 4: Insert New Slides
     // ============================================
 
     slidesLogger.debug('Inserting new slides');
@@ -141,7 +167,7 @@ export async function POST(req: NextRequest) {
     }
 
     // ============================================
-    // Step 4: Update Presentation Status
+    // Step 5: Update Presentation Status
     // ============================================
 
     slidesLogger.debug('Updating presentation status to completed');
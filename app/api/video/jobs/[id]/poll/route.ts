@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVideoJob } from "@/lib/supabase-video-jobs";
+import { videoJobWorker } from "@/lib/video/jobs/VideoJobWorker";
+import { handleApiError } from "@/lib/api-error-handler";
+
+/**
+ * POST /api/video/jobs/[id]/poll
+ * Poll a processing job once on behalf of the client
+ * Fallback for deployments without a running video job worker: the client calls this
+ * for jobs whose next poll is overdue. Jobs that are not due yet are returned unchanged,
+ * so the provider is never polled more often than the worker would.
+ *
+ * Body: { userId: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId } = await req.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getVideoJob(userId, id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Video job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== "processing" || new Date(job.nextPollAt).getTime() > Date.now()) {
+      return NextResponse.json({ success: true, job });
+    }
+
+    await videoJobWorker.processJob(job);
+
+    return NextResponse.json({
+      success: true,
+      job: (await getVideoJob(userId, id)) ?? job,
+    });
+  } catch (error) {
+    return handleApiError(error, 'video-job-poll-api');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVideoJob } from "@/lib/supabase-video-jobs";
+import { handleApiError } from "@/lib/api-error-handler";
+
+/**
+ * GET /api/video/jobs/[id]?userId=xxx
+ * Get a single server-side video job
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId query parameter" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getVideoJob(userId, id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Video job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+    });
+  } catch (error) {
+    return handleApiError(error, 'video-job-api');
+  }
+}
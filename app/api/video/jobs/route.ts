@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVideoJobs } from "@/lib/supabase-video-jobs";
+import { handleApiError } from "@/lib/api-error-handler";
+import type { VideoStatus } from "@/types/video";
+
+/**
+ * GET /api/video/jobs?userId=xxx&status=processing&limit=50
+ * List the user's server-side video jobs (used by the client queue to rehydrate on reload)
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const status = searchParams.get("status");
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId query parameter" },
+        { status: 400 }
+      );
+    }
+
+    if (status && !["processing", "succeed", "failed"].includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid status. Must be 'processing', 'succeed' or 'failed'" },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await getVideoJobs(userId, {
+      status: (status as VideoStatus) || undefined,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+    });
+  } catch (error) {
+    return handleApiError(error, 'video-jobs-api');
+  }
+}
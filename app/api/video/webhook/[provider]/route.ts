@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import ProviderFactory from "@/lib/video/providers/ProviderFactory";
+import VideoProviderRegistry from "@/lib/video/providers/ProviderRegistry";
+import { videoJobWorker } from "@/lib/video/jobs/VideoJobWorker";
+import { getVideoJobByTaskId } from "@/lib/supabase-video-jobs";
+import { apiLogger } from "@/lib/logger";
+import { handleApiError } from "@/lib/api-error-handler";
+
+/**
+ * POST /api/video/webhook/[provider]
+ * Completion callback from a video provider (e.g. /api/video/webhook/kling)
+ *
+ * Verifies the provider signature, maps the callback to the video job by task id,
+ * updates the job + message videoTask and emits the job update via Socket.IO.
+ * The video job worker keeps polling these jobs at a low rate as a fallback.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider: providerName } = await params;
+
+    // All models served by this provider backend (e.g. every model backed by "kling")
+    const models = VideoProviderRegistry.list()
+      .filter((definition) => definition.provider === providerName)
+      .map((definition) => definition.id);
+
+    if (models.length === 0) {
+      return NextResponse.json(
+        { error: `Unknown video provider: ${providerName}` },
+        { status: 404 }
+      );
+    }
+
+    const provider = ProviderFactory.getProvider(models[0]!);
+    const rawBody = await req.text();
+
+    const verified = await provider.verifyWebhook({
+      headers: req.headers,
+      rawBody,
+      searchParams: new URL(req.url).searchParams,
+    });
+    if (!verified) {
+      apiLogger.warn('Rejected video webhook with invalid signature', { provider: providerName });
+      return NextResponse.json(
+        { error: "Invalid webhook signature" },
+        { status: 401 }
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON payload" },
+        { status: 400 }
+      );
+    }
+
+    const result = provider.parseWebhook(payload);
+    if (!result) {
+      // Not a task update - acknowledge so the provider doesn't retry
+      return NextResponse.json({ received: true });
+    }
+
+    const job = await getVideoJobByTaskId(models, result.taskId);
+    if (!job) {
+      apiLogger.warn('Video webhook for unknown task', { provider: providerName, taskId: result.taskId });
+      return NextResponse.json(
+        { error: "Video job not found" },
+        { status: 404 }
+      );
+    }
+
+    // Duplicate callbacks (or a faster fallback poll) are no-ops: the worker only
+    // updates jobs that are still processing (conditional update)
+    const completed = await videoJobWorker.applyStatus(job, result.response);
+
+    apiLogger.info('Video webhook processed', {
+      provider: providerName,
+      jobId: job.id,
+      taskId: result.taskId,
+      status: result.response.status,
+      completed,
+    });
+
+    return NextResponse.json({ received: true, status: result.response.status });
+  } catch (error) {
+    return handleApiError(error, 'video-webhook-api');
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Workflow Batch Generation API Route
+ *
+ * Renders one image with many setting combinations (e.g. morning vs evening vs night).
+ * Only available for workflows with a batch definition (see WorkflowDefinition.batch).
+ *
+ * Workflow:
+ * 1. Validates API keys, images and the variation matrix, rate limits per variant
+ * 2. Builds the prompt ONCE with the settings shared by all variants
+ * 3. Generates every variant with Nano Banana (bounded concurrency)
+ * 4. Uploads the renderings and saves them as siblings grouped by metadata.batchId
+ * 5. Returns the saved generations (failed variants are skipped)
+ *
+ * @endpoint POST /api/workflows/[workflow]/batch
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { imageGenerationRateLimiter, getClientId } from "@/lib/rate-limit";
+import { apiLogger } from "@/lib/logger";
+import { validateApiKeys, validateContentType } from "@/lib/api-security";
+import { handleApiError, rateLimitErrorResponse } from "@/lib/api-error-handler";
+import { promiseAllWithLimit } from "@/lib/utils/concurrency";
+import {
+  prepareImagesForGeneration,
+  MAX_BATCH_VARIANTS,
+  BATCH_CONCURRENCY,
+} from "@/lib/api/workflows/sketchToRender";
+import {
+  getWorkflowDefinition,
+  parseWorkflowInput,
+  parseWorkflowSettings,
+  buildWorkflowPrompt,
+  type WorkflowVariant,
+  type WorkflowVariations,
+} from "@/lib/api/workflows/engine";
+import {
+  geminiClient,
+  GEMINI_MODELS,
+  buildGenerationConfig,
+  generateSingleImage,
+  parseImageFromResponse,
+} from "@/lib/api/providers/gemini";
+import {
+  saveWorkflowGeneration,
+  uploadWorkflowImage,
+  type WorkflowGeneration,
+} from "@/lib/utils/workflowDatabase";
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/workflows/[workflow]/batch
+ *
+ * Body: { userId, prompt?, sourceImage, referenceImage?, settings?, variations, name? }
+ * - settings: workflow settings shared by all variants
+ * - variations: values to try per setting, e.g. { timeOfDay: ["morning", "evening", "night"] }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
+  const clientId = getClientId(req);
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  const batch = definition?.batch;
+  if (!definition || !batch) {
+    return NextResponse.json(
+      { error: `Batch generation not available for workflow: ${workflow}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    // API Key validation
+    const keyValidation = validateApiKeys(["google-gemini"]);
+    if (!keyValidation.valid) {
+      return keyValidation.errorResponse!;
+    }
+
+    // Content-Type validation
+    if (!validateContentType(req)) {
+      return handleApiError(
+        new Error("Content-Type must be application/json"),
+        `${workflow}-batch-api`
+      );
+    }
+
+    const body = await req.json();
+    const { userId, name } = body;
+    const variations: WorkflowVariations = body.variations || {};
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Missing userId - client must provide getUserId()" },
+        { status: 400 }
+      );
+    }
+
+    // Validate images and the shared settings
+    const parsed = parseWorkflowInput(definition, body, "prompt", clientId);
+    if (!parsed.valid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { input } = parsed;
+
+    // Validate the variation matrix
+    const variantCount = batch.countVariants(variations);
+    if (variantCount < 2) {
+      return NextResponse.json(
+        { error: "Variations must contain at least two setting combinations" },
+        { status: 400 }
+      );
+    }
+
+    if (variantCount > MAX_BATCH_VARIANTS) {
+      return NextResponse.json(
+        { error: `Too many variants: ${variantCount} (max. ${MAX_BATCH_VARIANTS})` },
+        { status: 400 }
+      );
+    }
+
+    const variants = batch.buildVariants(input.settings, variations);
+    for (const variant of variants) {
+      const settingsResult = parseWorkflowSettings(definition, variant.settings);
+      if (!settingsResult.valid) {
+        return NextResponse.json({ error: settingsResult.error }, { status: 400 });
+      }
+    }
+
+    // Rate limiting - every variant is one image generation
+    const rateLimitResult = imageGenerationRateLimiter.check(clientId, variantCount);
+    if (!rateLimitResult.success) {
+      return rateLimitErrorResponse(rateLimitResult.reset);
+    }
+
+    apiLogger.info(`${definition.name} Batch: Starting generation`, {
+      clientId,
+      variantCount,
+      hasPrompt: !!input.prompt,
+      referenceImageCount: input.referenceImages.length,
+    });
+
+    // Step 1: Build the prompt ONCE (settings shared by all variants)
+    const { enhancedPrompt } = await buildWorkflowPrompt(definition, {
+      ...input,
+      settings: batch.getSharedSettings(input.settings, variations),
+    });
+
+    // Step 2: Prepare images and model (shared by all variants)
+    // IMPORTANT: Source image MUST be LAST (determines aspect ratio)
+    const images = prepareImagesForGeneration(input.sourceImage, input.referenceImages);
+    const model = geminiClient.getGenerativeModel({
+      model: GEMINI_MODELS.imageGeneration,
+    });
+
+    // Step 3: Generate all variants with bounded concurrency
+    const generateVariant = async (variant: WorkflowVariant, index: number) => {
+      // Variant settings on top of the shared prompt
+      const variantPrompt = `${enhancedPrompt}\n\nVARIANT: ${batch.buildVariantPrompt(
+        variant.settings
+      )}`;
+      const geminiPrompt = definition.buildGenerationPrompt
+        ? definition.buildGenerationPrompt(variantPrompt, variant.settings)
+        : variantPrompt;
+
+      try {
+        const result = await generateSingleImage(
+          model,
+          [{ text: geminiPrompt }, ...images],
+          buildGenerationConfig(variant.settings),
+          index,
+          variants.length,
+          clientId
+        );
+        const image = parseImageFromResponse(result, index, variants.length, clientId);
+
+        return image ? { variant, image } : null;
+      } catch (error) {
+        apiLogger.warn(`${definition.name} Batch: Variant ${index + 1} failed`, {
+          error: error instanceof Error ? error.message : String(error),
+          label: variant.label,
+          clientId,
+        });
+        return null;
+      }
+    };
+
+    const results = await promiseAllWithLimit(
+      variants.map((variant, index) => () => generateVariant(variant, index)),
+      BATCH_CONCURRENCY
+    );
+    const renderings = results.filter((result) => result !== null);
+
+    if (renderings.length === 0) {
+      throw new Error("Failed to generate renderings");
+    }
+
+    // Step 4: Upload the source image and the renderings
+    const batchId = randomUUID();
+    const baseName = name || `payperwork-${definition.slug.replace(/-/g, "")}-batch-${Date.now()}`;
+    const sourceImageUrl = await uploadWorkflowImage(
+      userId,
+      {
+        data: Buffer.from(input.sourceImage.data, "base64"),
+        mimeType: input.sourceImage.mimeType,
+      },
+      `${baseName}-source.jpg`
+    );
+
+    // Step 5: Save the variants as siblings (no parent - they share metadata.batchId)
+    const generations: WorkflowGeneration[] = [];
+
+    for (const [index, rendering] of renderings.entries()) {
+      const url = await uploadWorkflowImage(
+        userId,
+        { data: Buffer.from(rendering.image.data, "base64"), mimeType: rendering.image.mimeType },
+        `${baseName}-${index + 1}-result.jpg`
+      );
+
+      if (!url) {
+        apiLogger.warn(`${definition.name} Batch: Upload failed`, { index, clientId });
+        continue;
+      }
+
+      const generation = await saveWorkflowGeneration(definition.tableName, userId, {
+        url,
+        type: "render",
+        sourceType: "original",
+        prompt: input.prompt || undefined,
+        model: "nano-banana",
+        settings: rendering.variant.settings,
+        metadata: {
+          batchId,
+          batchIndex: index,
+          batchSize: renderings.length,
+          variation: rendering.variant.variation,
+          label: rendering.variant.label,
+          enhancedPrompt,
+        },
+        name: `${baseName}-${index + 1}`,
+        sourceImage: sourceImageUrl || undefined,
+      });
+
+      if (generation) {
+        generations.push(generation);
+      }
+    }
+
+    if (generations.length === 0) {
+      throw new Error("Failed to save renderings");
+    }
+
+    apiLogger.info(`${definition.name} Batch: Generation successful`, {
+      clientId,
+      variantCount,
+      savedCount: generations.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      generations,
+      metadata: {
+        batchId,
+        prompt: input.prompt || null,
+        enhancedPrompt,
+        variantCount,
+        failedCount: variantCount - generations.length,
+        timestamp: new Date().toISOString(),
+        model: GEMINI_MODELS.imageGeneration,
+      },
+    });
+  } catch (error) {
+    apiLogger.error(
+      `${definition.name} Batch: Generation failed`,
+      error instanceof Error ? error : undefined,
+      { clientId }
+    );
+    return handleApiError(error, `${workflow}-batch-api`);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteWorkflowGeneration } from "@/lib/utils/workflowDatabase";
+import { getWorkflowDefinition } from "@/lib/api/workflows/engine";
+import { apiLogger } from "@/lib/logger";
+
+type RouteContext = { params: Promise<{ workflow: string }> };
+
+/**
+ * Handler for deleting a workflow generation
+ */
+async function handleDelete(req: NextRequest, { params }: RouteContext) {
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    const body = await req.json();
+    const { userId } = body;
+    // Support both 'generationId' and 'id' for compatibility
+    const generationId = body.generationId || body.id;
+
+    if (!userId || !generationId) {
+      return NextResponse.json(
+        { error: "Missing required fields: userId, generationId" },
+        { status: 400 }
+      );
+    }
+
+    apiLogger.info(`[Delete Generation API] Deleting ${definition.name} generation:`, {
+      generationId,
+    });
+
+    const success = await deleteWorkflowGeneration(definition.tableName, userId, generationId);
+
+    if (!success) {
+      return NextResponse.json({ error: "Failed to delete generation" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    apiLogger.error(
+      "[Delete Generation API] Unexpected error:",
+      error instanceof Error ? error : undefined
+    );
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete generation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workflows/[workflow]/delete-generation
+ * Deletes a workflow generation from the database
+ */
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  return handleDelete(req, context);
+}
+
+/**
+ * POST /api/workflows/[workflow]/delete-generation
+ * Alternative method for deleting (for compatibility)
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  return handleDelete(req, context);
+}
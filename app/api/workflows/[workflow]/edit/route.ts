@@ -1,7 +1,7 @@
 /**
- * Style-Transfer: Edit/Refine Endpoint
+ * Workflow Edit/Refine Endpoint
  *
- * Allows users to make changes to existing rendered images
+ * Allows users to make changes to existing generated images of any workflow
  * Uses Nano Banana (Gemini 2.5 Flash Image) for image-to-image generation
  */
 
@@ -11,6 +11,9 @@ import { getClientId, imageEditRateLimiter } from "@/lib/rate-limit";
 import { apiLogger } from "@/lib/logger";
 import { geminiClient, GEMINI_MODELS } from "@/lib/api/providers/gemini";
 import { enhanceEditPrompt } from "@/lib/api/workflows/sketchToRender/editEnhancer";
+import { getWorkflowDefinition, toImageArray } from "@/lib/api/workflows/engine";
+import { buildMaskedEditPrompt, compositeMaskedEdit } from "@/lib/api/workflows/common/maskedEdit";
+import type { WorkflowImage } from "@/lib/api/workflows/engine";
 import { handleApiError } from "@/lib/api-error-handler";
 import type { Part } from "@google/generative-ai";
 
@@ -18,23 +21,35 @@ export const maxDuration = 60; // 60 seconds timeout
 export const dynamic = "force-dynamic";
 
 /**
- * POST /api/style-transfer/edit
+ * POST /api/workflows/[workflow]/edit
  *
- * Edit/refine an existing render with new instructions
+ * Edit/refine an existing image with new instructions
  *
  * Request body:
  * - editPrompt: string - User's edit instruction
- * - currentImage: { data: string, mimeType: string } - Current rendered image
+ * - currentImage: { data: string, mimeType: string } - Current image
  * - originalPrompt?: string - Original prompt (optional, for context)
+ * - referenceImages?: Array<{ data: string, mimeType: string }> - Optional reference images
+ * - referenceImage?: { data: string, mimeType: string } - Single reference image (alternative)
+ * - mask?: { data: string, mimeType: string } - Inpainting mask (white = edit, black = keep)
  *
  * Response:
- * - image: { data: string, mimeType: string } - Edited image
- * - metadata: { editPrompt, enhancedPrompt, timestamp, model }
+ * - image: { data: string, mimeType: string } - Edited image (PNG composite if masked)
+ * - metadata: { editPrompt, enhancedPrompt, timestamp, model, masked }
  */
-export async function POST(req: NextRequest) {
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
   const clientId = getClientId(req);
+  const { workflow } = await params;
 
-  apiLogger.info("Edit render request received", { clientId });
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  apiLogger.info("Edit request received", { clientId, workflow });
 
   try {
     // Validate API keys
@@ -69,7 +84,13 @@ export async function POST(req: NextRequest) {
 
     // Parse request body
     const body = await req.json();
-    const { editPrompt, currentImage, originalPrompt, referenceImage } = body;
+    const { editPrompt, currentImage, originalPrompt } = body;
+    const mask: WorkflowImage | null =
+      body.mask && body.mask.data && body.mask.mimeType ? body.mask : null;
+    const referenceImages = toImageArray(body.referenceImages ?? body.referenceImage).filter(
+      (img): img is WorkflowImage =>
+        !!img && !!(img as WorkflowImage).data && !!(img as WorkflowImage).mimeType
+    );
 
     // Validate required fields
     if (!editPrompt || !editPrompt.trim()) {
@@ -82,28 +103,26 @@ export async function POST(req: NextRequest) {
 
     apiLogger.info("Edit request validated", {
       clientId,
+      workflow,
       editPromptLength: editPrompt.length,
       hasOriginalPrompt: !!originalPrompt,
-      hasReferenceImage: !!referenceImage?.data, // ✅ NEW: Log reference image
-    });
-
-    // Step 1: Enhance edit prompt with GPT-4o Vision (+ optional reference image analysis)
-    apiLogger.info("Enhancing edit prompt with GPT-4o", {
-      clientId,
-      hasReferenceImage: !!referenceImage?.data,
+      referenceImageCount: referenceImages.length,
+      masked: !!mask,
     });
 
-    const enhancedPrompt = await enhanceEditPrompt({
+    // Step 1: Enhance edit prompt with GPT-4o Vision
+    // The first reference image is used for feature extraction
+    const enhancedEditPrompt = await enhanceEditPrompt({
       editPrompt: editPrompt.trim(),
       currentImage,
       originalPrompt,
-      referenceImage, // ✅ NEW: Pass reference image for feature extraction
+      referenceImage: referenceImages[0],
     });
+    const enhancedPrompt = mask ? buildMaskedEditPrompt(enhancedEditPrompt) : enhancedEditPrompt;
 
     apiLogger.info("Edit prompt enhanced", {
       clientId,
       enhancedLength: enhancedPrompt.length,
-      hasReferenceFeatures: !!referenceImage?.data,
     });
 
     // Step 2: Initialize Nano Banana (Gemini 2.5 Flash Image)
@@ -119,9 +138,16 @@ export async function POST(req: NextRequest) {
       maxOutputTokens: 8192,
     };
 
-    // Step 4: Build content parts (prompt + current image + optional reference image)
+    // Step 4: Build content parts (prompt + references + mask + current image LAST for aspect ratio)
     const parts: Part[] = [
       { text: enhancedPrompt },
+      ...referenceImages.map((refImg) => ({
+        inlineData: {
+          data: refImg.data,
+          mimeType: refImg.mimeType,
+        },
+      })),
+      ...(mask ? [{ inlineData: { data: mask.data, mimeType: mask.mimeType } }] : []),
       {
         inlineData: {
           data: currentImage.data,
@@ -130,21 +156,7 @@ export async function POST(req: NextRequest) {
       },
     ];
 
-    // ✅ NEW: Add reference image if provided (for feature extraction)
-    if (referenceImage?.data) {
-      parts.push({
-        inlineData: {
-          data: referenceImage.data,
-          mimeType: referenceImage.mimeType || "image/jpeg",
-        },
-      });
-      apiLogger.info("Reference image added to edit request", {
-        clientId,
-        referenceImageSize: referenceImage.data.length,
-      });
-    }
-
-    apiLogger.info("Starting image edit with Nano Banana", { clientId });
+    apiLogger.info("Starting image edit with Nano Banana", { clientId, workflow });
 
     // Step 5: Generate edited image with retry logic
     const MAX_RETRIES = 3;
@@ -191,10 +203,9 @@ export async function POST(req: NextRequest) {
         }
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
-        const errorMessage = error instanceof Error ? error.message : String(error);
         apiLogger.warn(`Edit attempt ${attempt} failed`, {
           clientId,
-          error: errorMessage,
+          error: lastError.message,
           willRetry: attempt < MAX_RETRIES,
         });
 
@@ -220,25 +231,33 @@ export async function POST(req: NextRequest) {
 
     apiLogger.info("Image successfully edited", {
       clientId,
+      workflow,
       imageSize: editedImageData.length,
       mimeType: editedImageMimeType,
     });
 
-    // Step 7: Return edited image with metadata
+    // Step 7: Paste the unmasked pixels of the current image back onto the edit
+    const image: WorkflowImage = mask
+      ? await compositeMaskedEdit(
+          currentImage,
+          { data: editedImageData, mimeType: editedImageMimeType },
+          mask
+        )
+      : { data: editedImageData, mimeType: editedImageMimeType };
+
+    // Step 8: Return edited image with metadata
     return NextResponse.json({
-      image: {
-        data: editedImageData,
-        mimeType: editedImageMimeType,
-      },
+      image,
       metadata: {
         editPrompt: editPrompt.trim(),
         enhancedPrompt,
         originalPrompt: originalPrompt || null,
         timestamp: new Date().toISOString(),
         model: GEMINI_MODELS.imageGeneration,
+        masked: !!mask,
       },
     });
   } catch (error) {
-    return handleApiError(error, "style-transfer-edit");
+    return handleApiError(error, `${workflow}-edit`);
   }
 }
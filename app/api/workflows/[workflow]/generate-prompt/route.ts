@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClientId } from "@/lib/rate-limit";
+import { apiLogger } from "@/lib/logger";
+import { validateApiKeys, validateContentType } from "@/lib/api-security";
+import { handleApiError } from "@/lib/api-error-handler";
+import {
+  getWorkflowDefinition,
+  parseWorkflowInput,
+  generateWorkflowPrompt,
+} from "@/lib/api/workflows/engine";
+import { LRUCache, createObjectCacheKey } from "@/lib/cache/lruCache";
+import { perfMonitor } from "@/lib/performance/monitor";
+
+// Cache for generated prompts - 10 minute TTL, max 50 entries
+const promptCache = new LRUCache<string>(50, 10 * 60 * 1000);
+
+/**
+ * POST /api/workflows/[workflow]/generate-prompt
+ *
+ * T-Button endpoint - Generates prompt from user inputs
+ *
+ * Analyzes the source image (and reference images, if the workflow has any)
+ * and generates an optimized prompt using GPT-4o vision capabilities.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
+  const clientId = getClientId(req);
+  const startTime = perfMonitor.startTimer();
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    // API Key validation
+    const keyValidation = validateApiKeys(["openai"]);
+    if (!keyValidation.valid) {
+      perfMonitor.recordMetric("generate-prompt", startTime, false, { reason: "invalid-api-key" });
+      return keyValidation.errorResponse!;
+    }
+
+    // Content-Type validation
+    if (!validateContentType(req)) {
+      perfMonitor.recordMetric("generate-prompt", startTime, false, {
+        reason: "invalid-content-type",
+      });
+      return handleApiError(
+        new Error("Content-Type must be application/json"),
+        "generate-prompt-api"
+      );
+    }
+
+    const body = await req.json();
+
+    // Validate images and settings
+    const parsed = parseWorkflowInput(definition, body, "userPrompt", clientId);
+    if (!parsed.valid) {
+      perfMonitor.recordMetric("generate-prompt", startTime, false, { reason: "invalid-input" });
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { input } = parsed;
+
+    const responseMetadata = {
+      hadUserInput: !!input.prompt,
+      usedReference: input.referenceImages.length > 0,
+      usedSettings: !!body.settings,
+    };
+
+    // Create cache key from request parameters
+    const cacheKey = createObjectCacheKey({
+      userPrompt: input.prompt,
+      // Use a hash of image data to avoid storing large strings in cache key
+      sourceImageHash: input.sourceImage.data.substring(0, 100),
+      referenceImageHashes: input.referenceImages.map((img) => img.data.substring(0, 100)),
+      settings: JSON.stringify(input.settings),
+      type: definition.slug,
+    });
+
+    // Check cache
+    const cachedPrompt = promptCache.get(cacheKey);
+    if (cachedPrompt) {
+      apiLogger.info("T-Button: Using cached prompt", {
+        clientId,
+        workflow: definition.slug,
+        cacheHit: true,
+        promptLength: cachedPrompt.length,
+      });
+
+      perfMonitor.recordMetric("generate-prompt", startTime, true, {
+        cached: true,
+        type: definition.slug,
+      });
+
+      return NextResponse.json({
+        enhancedPrompt: cachedPrompt,
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          ...responseMetadata,
+          cached: true,
+        },
+      });
+    }
+
+    apiLogger.info("T-Button: Generating prompt", {
+      clientId,
+      workflow: definition.slug,
+      hasUserPrompt: !!input.prompt,
+      referenceImageCount: input.referenceImages.length,
+      cacheHit: false,
+    });
+
+    const generatedPrompt = await generateWorkflowPrompt(definition, input);
+
+    // Store in cache
+    promptCache.set(cacheKey, generatedPrompt);
+
+    apiLogger.info("T-Button: Prompt generated successfully", {
+      clientId,
+      workflow: definition.slug,
+      promptLength: generatedPrompt.length,
+      cached: false,
+    });
+
+    perfMonitor.recordMetric("generate-prompt", startTime, true, {
+      cached: false,
+      type: definition.slug,
+      promptLength: generatedPrompt.length,
+    });
+
+    return NextResponse.json({
+      enhancedPrompt: generatedPrompt,
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        ...responseMetadata,
+        cached: false,
+      },
+    });
+  } catch (error) {
+    apiLogger.error(
+      "T-Button: Failed to generate prompt",
+      error instanceof Error ? error : undefined,
+      { clientId, workflow }
+    );
+    perfMonitor.recordMetric("generate-prompt", startTime, false, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return handleApiError(error, "generate-prompt-api");
+  }
+}
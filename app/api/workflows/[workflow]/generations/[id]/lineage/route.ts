@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWorkflowGenerationLineage } from "@/lib/utils/workflowDatabase";
+import { getWorkflowDefinition } from "@/lib/api/workflows/engine";
+import { apiLogger } from "@/lib/logger";
+
+/**
+ * API Route to get the lineage of a generation: the derivation tree
+ * (render → edit → upscale → video) from its root generation, and the
+ * path from the root to the generation
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string; id: string }> }
+) {
+  const { workflow, id } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const lineage = await getWorkflowGenerationLineage(definition.tableName, userId, id);
+
+    if (!lineage) {
+      return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      lineage,
+    });
+  } catch (error) {
+    apiLogger.error(
+      `[GetLineage API] ${definition.name} error:`,
+      error instanceof Error ? error : undefined
+    );
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch lineage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecentWorkflowGenerations } from "@/lib/utils/workflowDatabase";
+import { getWorkflowDefinition } from "@/lib/api/workflows/engine";
+import { apiLogger } from "@/lib/logger";
+
+/**
+ * API Route to get recent generations of a workflow
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workflow: string }> }) {
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    // Get userId and limit from query params
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    // Fetch generations
+    const generations = await getRecentWorkflowGenerations(definition.tableName, userId, limit);
+
+    return NextResponse.json({
+      success: true,
+      generations,
+    });
+  } catch (error) {
+    apiLogger.error(
+      `[GetGenerations API] ${definition.name} error:`,
+      error instanceof Error ? error : undefined
+    );
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch generations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPreset,
+  updatePreset,
+  deletePreset,
+  storePresetReferenceImage,
+  type WorkflowPresetFields,
+} from "@/lib/supabase-workflow-presets";
+import { canUseTeamRecord } from "@/lib/supabase-teams";
+import { getWorkflowDefinition, parseWorkflowSettings } from "@/lib/api/workflows/engine";
+import { validateRequest } from "@/lib/validation/middleware";
+import { workflowPresetUpdateSchema } from "@/lib/validation/schemas";
+import { handleApiError } from "@/lib/api-error-handler";
+import { checkTeamMembership, getAuthUser } from "@/lib/auth-api";
+
+type RouteContext = { params: Promise<{ workflow: string; presetId: string }> };
+
+/**
+ * GET /api/workflows/[workflow]/presets/[presetId]?userId=xxx
+ * Get a preset of the user or of a team of the user
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { workflow, presetId } = await params;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const preset = await getPreset(workflow, presetId);
+    const user = preset && preset.user_id !== userId ? await getAuthUser(req) : null;
+
+    if (!preset || !(await canUseTeamRecord(preset, userId, user?.id))) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, preset });
+  } catch (error) {
+    return handleApiError(error, `${workflow}-presets-api`);
+  }
+}
+
+/**
+ * PATCH /api/workflows/[workflow]/presets/[presetId]
+ * Update a preset (owner only)
+ *
+ * Body: { userId, ...fields of POST /api/workflows/[workflow]/presets (all optional) }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { workflow, presetId } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    const validation = await validateRequest(req, workflowPresetUpdateSchema);
+    if ("error" in validation) {
+      return validation.error;
+    }
+
+    const { userId, ...input } = validation.data;
+
+    if (input.teamId) {
+      const teamError = await checkTeamMembership(req, input.teamId);
+      if (teamError) return teamError;
+    }
+
+    let settings: Record<string, unknown> | undefined;
+    if (input.settings) {
+      const settingsResult = parseWorkflowSettings(definition, input.settings);
+      if (!settingsResult.valid) {
+        return NextResponse.json({ error: settingsResult.error }, { status: 400 });
+      }
+      settings = settingsResult.settings;
+    }
+
+    const fields: Partial<WorkflowPresetFields> = {
+      team_id: input.teamId,
+      name: input.name,
+      settings,
+      prompt: input.prompt === "" ? null : input.prompt,
+      reference_image_url:
+        input.referenceImage === undefined
+          ? undefined
+          : await storePresetReferenceImage(userId, input.referenceImage),
+    };
+    // Only fields of the request (null clears a field)
+    const update = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    ) as Partial<WorkflowPresetFields>;
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "No fields to update" }, { status: 400 });
+    }
+
+    const preset = await updatePreset(workflow, presetId, userId, update);
+
+    if (!preset) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, preset });
+  } catch (error) {
+    return handleApiError(error, `${workflow}-presets-api`);
+  }
+}
+
+/**
+ * DELETE /api/workflows/[workflow]/presets/[presetId]?userId=xxx
+ * Delete a preset (owner only)
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const { workflow, presetId } = await params;
+
+  try {
+    const userId = new URL(req.url).searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    const deleted = await deletePreset(workflow, presetId, userId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, `${workflow}-presets-api`);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPresets,
+  createPreset,
+  storePresetReferenceImage,
+} from "@/lib/supabase-workflow-presets";
+import { getWorkflowDefinition, parseWorkflowSettings } from "@/lib/api/workflows/engine";
+import { validateRequest } from "@/lib/validation/middleware";
+import { workflowPresetSchema } from "@/lib/validation/schemas";
+import { handleApiError } from "@/lib/api-error-handler";
+import { checkTeamMembership } from "@/lib/auth-api";
+
+/**
+ * GET /api/workflows/[workflow]/presets?userId=xxx[&teamId=xxx]
+ * Get the presets of a workflow of a user and of the user's team
+ * Expects userId in query params (from client-side getUserId())
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workflow: string }> }) {
+  const { workflow } = await params;
+
+  if (!getWorkflowDefinition(workflow)) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId");
+    const teamId = searchParams.get("teamId");
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId query parameter" }, { status: 400 });
+    }
+
+    if (teamId && !/^[\w-]{1,64}$/.test(teamId)) {
+      return NextResponse.json({ error: "Invalid teamId" }, { status: 400 });
+    }
+
+    if (teamId) {
+      const teamError = await checkTeamMembership(req, teamId);
+      if (teamError) return teamError;
+    }
+
+    const presets = await getPresets(workflow, userId, teamId);
+
+    return NextResponse.json({ success: true, presets });
+  } catch (error) {
+    return handleApiError(error, `${workflow}-presets-api`);
+  }
+}
+
+/**
+ * POST /api/workflows/[workflow]/presets
+ * Save a preset (full settings, optional prompt snippet and reference image);
+ * with a teamId it is shared with the team
+ *
+ * Body: { userId, teamId?, name, settings, prompt?, referenceImage? }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    const validation = await validateRequest(req, workflowPresetSchema);
+    if ("error" in validation) {
+      return validation.error;
+    }
+
+    const input = validation.data;
+
+    if (input.teamId) {
+      const teamError = await checkTeamMembership(req, input.teamId);
+      if (teamError) return teamError;
+    }
+
+    const settingsResult = parseWorkflowSettings(definition, input.settings);
+    if (!settingsResult.valid) {
+      return NextResponse.json({ error: settingsResult.error }, { status: 400 });
+    }
+
+    const referenceImageUrl = await storePresetReferenceImage(input.userId, input.referenceImage);
+
+    const preset = await createPreset(workflow, input.userId, {
+      team_id: input.teamId ?? null,
+      name: input.name,
+      settings: settingsResult.settings,
+      prompt: input.prompt || null,
+      reference_image_url: referenceImageUrl,
+    });
+
+    return NextResponse.json({ success: true, preset }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, `${workflow}-presets-api`);
+  }
+}
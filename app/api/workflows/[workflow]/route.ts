@@ -0,0 +1,153 @@
+/**
+ * Workflow Generation API Route
+ *
+ * Main "Generate" button endpoint of all image workflows.
+ * Uses Nano Banana (Gemini 2.5 Flash Image / Payperwork Flash v.1) for image generation.
+ *
+ * Workflow:
+ * 1. Validates API keys, rate limits, images and settings (workflow definition)
+ * 2. Builds the prompt (workflow definition, fallback if enhancement fails)
+ * 3. Prepares images in correct order (reference first, source LAST)
+ * 4. Generates image with Nano Banana
+ * 5. Returns generated image with metadata
+ *
+ * @endpoint POST /api/workflows/[workflow]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { imageGenerationRateLimiter, getClientId } from "@/lib/rate-limit";
+import { apiLogger } from "@/lib/logger";
+import { validateApiKeys, validateContentType } from "@/lib/api-security";
+import { handleApiError, rateLimitErrorResponse } from "@/lib/api-error-handler";
+import { prepareImagesForGeneration } from "@/lib/api/workflows/sketchToRender";
+import {
+  getWorkflowDefinition,
+  parseWorkflowInput,
+  buildWorkflowPrompt,
+} from "@/lib/api/workflows/engine";
+import {
+  geminiClient,
+  GEMINI_MODELS,
+  buildGenerationConfig,
+  generateSingleImage,
+  parseImageFromResponse,
+} from "@/lib/api/providers/gemini";
+
+/**
+ * POST /api/workflows/[workflow]
+ *
+ * Main generation endpoint
+ *
+ * Request body:
+ * - prompt?: string - User prompt
+ * - sourceImage: { data: string, mimeType: string } - Image to transform
+ * - referenceImage / furnitureImages: reference image(s), see workflow definition
+ * - settings?: object - Workflow settings
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
+  const clientId = getClientId(req);
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
+  try {
+    // API Key validation
+    const keyValidation = validateApiKeys(["google-gemini"]);
+    if (!keyValidation.valid) {
+      return keyValidation.errorResponse!;
+    }
+
+    // Content-Type validation
+    if (!validateContentType(req)) {
+      return handleApiError(new Error("Content-Type must be application/json"), `${workflow}-api`);
+    }
+
+    // Rate limiting
+    const rateLimitResult = imageGenerationRateLimiter.check(clientId);
+    if (!rateLimitResult.success) {
+      return rateLimitErrorResponse(rateLimitResult.reset);
+    }
+
+    const body = await req.json();
+
+    // Validate images and settings
+    const parsed = parseWorkflowInput(definition, body, "prompt", clientId);
+    if (!parsed.valid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { input } = parsed;
+
+    apiLogger.info(`${definition.name}: Starting generation`, {
+      clientId,
+      hasPrompt: !!input.prompt,
+      referenceImageCount: input.referenceImages.length,
+      hasSettings: !!body.settings,
+    });
+
+    // Step 1: Build prompt
+    const { enhancedPrompt, finalPrompt } = await buildWorkflowPrompt(definition, input);
+
+    // Step 2: Prepare images for Nano Banana
+    // IMPORTANT: Source image MUST be LAST (determines aspect ratio)
+    const images = prepareImagesForGeneration(input.sourceImage, input.referenceImages);
+
+    // Step 3: Initialize Nano Banana (Gemini 2.5 Flash Image)
+    const model = geminiClient.getGenerativeModel({
+      model: GEMINI_MODELS.imageGeneration,
+    });
+
+    // Step 4: Build generation config
+    const generationConfig = buildGenerationConfig(input.settings);
+
+    // Step 5: Build content parts (text + images)
+    const parts = [{ text: finalPrompt }, ...images];
+
+    apiLogger.info(`${definition.name}: Generating with Nano Banana`, {
+      clientId,
+      promptLength: finalPrompt.length,
+      imageCount: images.length,
+    });
+
+    // Step 6: Generate with Nano Banana
+    const result = await generateSingleImage(model, parts, generationConfig, 0, 1, clientId);
+
+    // Step 7: Parse generated image
+    const generatedImage = parseImageFromResponse(result, 0, 1, clientId);
+
+    if (!generatedImage) {
+      throw new Error(`${definition.name}: No image generated`);
+    }
+
+    apiLogger.info(`${definition.name}: Generation successful`, {
+      clientId,
+      imageMimeType: generatedImage.mimeType,
+    });
+
+    // Step 8: Return result with metadata
+    return NextResponse.json({
+      image: generatedImage,
+      metadata: {
+        workflow: definition.slug,
+        prompt: input.prompt || null,
+        enhancedPrompt,
+        finalPrompt,
+        settings: input.settings,
+        timestamp: new Date().toISOString(),
+        model: GEMINI_MODELS.imageGeneration,
+      },
+    });
+  } catch (error) {
+    apiLogger.error(
+      `${definition.name}: Generation failed`,
+      error instanceof Error ? error : undefined,
+      { clientId }
+    );
+    return handleApiError(error, `${workflow}-api`);
+  }
+}
@@ -1,12 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { saveRenderToCADGeneration } from "@/lib/supabase-render-to-cad";
-import { apiLogger } from '@/lib/logger';
+import { saveWorkflowGeneration } from "@/lib/utils/workflowDatabase";
+import { getWorkflowDefinition } from "@/lib/api/workflows/engine";
+import { apiLogger } from "@/lib/logger";
 
 /**
- * API Route to save a render-to-cad generation to the database
+ * API Route to save a workflow generation to the database
  * Uses client-side userId from request body (like Library does)
  */
-export async function POST(req: NextRequest) {
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
+  const { workflow } = await params;
+
+  const definition = getWorkflowDefinition(workflow);
+  if (!definition) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
   try {
     const {
       userId,
@@ -46,8 +57,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Save to database
-    apiLogger.debug('[SaveGeneration API] Attempting to save generation:', {
+    apiLogger.debug(`[SaveGeneration API] Attempting to save ${definition.name} generation:`, {
       userId,
       type,
       model,
@@ -55,7 +65,7 @@ export async function POST(req: NextRequest) {
       hasUrl: !!url,
     });
 
-    const generation = await saveRenderToCADGeneration(userId, {
+    const generation = await saveWorkflowGeneration(definition.tableName, userId, {
       url,
       thumbnailUrl,
       type,
@@ -70,7 +80,7 @@ export async function POST(req: NextRequest) {
     });
 
     if (!generation) {
-      apiLogger.error('[SaveGeneration API] saveRenderToCADGeneration returned null');
+      apiLogger.error(`[SaveGeneration API] Saving ${definition.name} generation returned null`);
       return NextResponse.json(
         {
           error: "Failed to save generation to database",
@@ -80,21 +90,21 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    apiLogger.info('[SaveGeneration API] Generation saved successfully:');
+    apiLogger.info(`[SaveGeneration API] ${definition.name} generation saved successfully`);
 
     return NextResponse.json({
       success: true,
       generation,
     });
   } catch (error) {
-    apiLogger.error('[SaveGeneration API] Unexpected error:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      name: error instanceof Error ? error.name : 'UnknownError',
-    });
+    apiLogger.error(
+      "[SaveGeneration API] Unexpected error:",
+      error instanceof Error ? error : undefined,
+      { workflow }
+    );
     return NextResponse.json(
       {
-        error: error instanceof Error ? error.message : String(error) || "Failed to save generation",
+        error: error instanceof Error ? error.message : "Failed to save generation",
         details: "Check server logs for full error details",
       },
       { status: 500 }
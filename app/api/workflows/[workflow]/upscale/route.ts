@@ -1,13 +1,14 @@
 /**
- * Style-Transfer: Upscale Endpoint
+ * Workflow Upscale Endpoint
  *
- * Upscales rendered images using Freepik Magnific AI
+ * Upscales generated images of any workflow using Freepik Magnific AI
  * Creates an async task and returns task_id for polling
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { apiLogger } from "@/lib/logger";
 import { handleApiError } from "@/lib/api-error-handler";
+import { getWorkflowDefinition } from "@/lib/api/workflows/engine";
 
 export const maxDuration = 60;
 export const dynamic = "force-dynamic";
@@ -16,7 +17,7 @@ const FREEPIK_API_KEY = process.env.FREEPIK_API_KEY;
 const FREEPIK_UPSCALE_URL = "https://api.freepik.com/v1/ai/image-upscaler-precision";
 
 /**
- * POST /api/style-transfer/upscale
+ * POST /api/workflows/[workflow]/upscale
  *
  * Start upscaling task for an image
  *
@@ -30,34 +31,31 @@ const FREEPIK_UPSCALE_URL = "https://api.freepik.com/v1/ai/image-upscaler-precis
  * - task_id: string - Task ID for polling status
  * - status: string - Initial task status (CREATED)
  */
-export async function POST(req: NextRequest) {
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflow: string }> }
+) {
+  const { workflow } = await params;
+  if (!getWorkflowDefinition(workflow)) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
   try {
-    apiLogger.debug('🎨 [UPSCALE POST] Request received!');
-    apiLogger.info("Upscale request received");
+    apiLogger.debug("🎨 [UPSCALE POST] Request received!");
+    apiLogger.info("Upscale request received", { workflow });
 
     // Validate API key
     if (!FREEPIK_API_KEY) {
-      return NextResponse.json(
-        { error: "Freepik API key nicht konfiguriert" },
-        { status: 500 }
-      );
+      return NextResponse.json({ error: "Freepik API key nicht konfiguriert" }, { status: 500 });
     }
 
     // Parse request body
     const body = await req.json();
-    const {
-      image,
-      sharpen = 50,
-      smart_grain = 7,
-      ultra_detail = 30,
-    } = body;
+    const { image, sharpen = 50, smart_grain = 7, ultra_detail = 30 } = body;
 
     // Validate required fields
     if (!image || !image.data) {
-      return NextResponse.json(
-        { error: "Bild ist erforderlich" },
-        { status: 400 }
-      );
+      return NextResponse.json({ error: "Bild ist erforderlich" }, { status: 400 });
     }
 
     // Validate parameter ranges
@@ -141,12 +139,12 @@ export async function POST(req: NextRequest) {
       status: data.data.status || "CREATED",
     });
   } catch (error) {
-    return handleApiError(error, "style-transfer-upscale");
+    return handleApiError(error, `${workflow}-upscale`);
   }
 }
 
 /**
- * GET /api/style-transfer/upscale?task_id=xxx
+ * GET /api/workflows/[workflow]/upscale?task_id=xxx
  *
  * Poll status of an upscaling task
  *
@@ -158,30 +156,29 @@ export async function POST(req: NextRequest) {
  * - status: string - CREATED | IN_PROGRESS | COMPLETED | FAILED
  * - generated?: string[] - Array of upscaled image URLs (when COMPLETED)
  */
-export async function GET(req: NextRequest) {
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workflow: string }> }) {
+  const { workflow } = await params;
+  if (!getWorkflowDefinition(workflow)) {
+    return NextResponse.json({ error: `Unknown workflow: ${workflow}` }, { status: 404 });
+  }
+
   try {
     const { searchParams } = new URL(req.url);
     const task_id = searchParams.get("task_id");
 
     if (!task_id) {
-      return NextResponse.json(
-        { error: "task_id ist erforderlich" },
-        { status: 400 }
-      );
+      return NextResponse.json({ error: "task_id ist erforderlich" }, { status: 400 });
     }
 
     apiLogger.info("Polling upscale task status", { task_id });
 
     // Check task status with Freepik API
-    const freepikResponse = await fetch(
-      `${FREEPIK_UPSCALE_URL}/${task_id}`,
-      {
-        method: "GET",
-        headers: {
-          "x-freepik-api-key": FREEPIK_API_KEY || "",
-        },
-      }
-    );
+    const freepikResponse = await fetch(`${FREEPIK_UPSCALE_URL}/${task_id}`, {
+      method: "GET",
+      headers: {
+        "x-freepik-api-key": FREEPIK_API_KEY || "",
+      },
+    });
 
     if (!freepikResponse.ok) {
       const errorText = await freepikResponse.text();
@@ -215,7 +212,7 @@ export async function GET(req: NextRequest) {
     });
 
     // Try multiple possible paths for the image URL
-    let generatedImage =
+    const generatedImage =
       data.data?.generated ||
       data.data?.image ||
       data.data?.images ||
@@ -235,6 +232,6 @@ export async function GET(req: NextRequest) {
       error: data.data?.error || data.error || null,
     });
   } catch (error) {
-    return handleApiError(error, "style-transfer-upscale-poll");
+    return handleApiError(error, `${workflow}-upscale-poll`);
   }
 }
@@ -0,0 +1,108 @@
+/**
+ * Slides Print Page
+ *
+ * Renders all slides of a presentation with SlideCanvas, one slide per
+ * PDF page. Opened by the server-side PDF export (lib/export/pdf-renderer.ts)
+ * with a short-lived print token (lib/export/print-token.ts) instead of a user id.
+ * Handout mode prints each slide with its speaker notes on an A4 page.
+ * Research sources cited on the slides follow on a references slide.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+import { notFound } from "next/navigation";
+import SlideCanvas from "@/components/slides/SlideCanvas";
+import { getPresentationWithSlides } from "@/lib/supabase-slides";
+import { getPresentationTheme } from "@/lib/supabase-themes";
+import { verifyPrintToken } from "@/lib/export/print-token";
+import { buildReferencesSlide } from "@/lib/api/slides/citations";
+import {
+  HANDOUT_MARGIN,
+  getHandoutSlideWidth,
+  getPrintPageSize,
+  getSlideScale,
+} from "@/lib/export/print-layout";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  robots: { index: false, follow: false },
+};
+
+interface PrintPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string; handout?: string }>;
+}
+
+export default async function SlidesPrintPage({ params, searchParams }: PrintPageProps) {
+  const { id } = await params;
+  const { token, handout: handoutParam } = await searchParams;
+  const userId = token ? verifyPrintToken(token, id) : null;
+
+  if (!userId) {
+    notFound();
+  }
+
+  const result = await getPresentationWithSlides(id, userId);
+
+  if (!result) {
+    notFound();
+  }
+
+  const { presentation } = result;
+  // Cited research sources are listed on a last page
+  const references = buildReferencesSlide(presentation.id, result.slides);
+  const slides = references ? [...result.slides, references] : result.slides;
+  const customTheme = await getPresentationTheme(presentation);
+  const handout = handoutParam === "true";
+  const page = getPrintPageSize(presentation.format, handout);
+  const slideWidth = handout ? getHandoutSlideWidth(presentation.format) : page.width;
+
+  return (
+    <main className="bg-white">
+      {/* Page size and print cleanup (SlideCanvas is a Card with shadow and rounded border) */}
+      <style>{`
+        @page { size: ${page.width}mm ${page.height}mm; margin: 0; }
+        html, body { margin: 0; padding: 0; background: #ffffff; }
+        .print-slide > div { box-shadow: none; border: 0; border-radius: 0; }
+      `}</style>
+
+      {slides.map((slide) => (
+        <section
+          key={slide.id}
+          className="overflow-hidden"
+          style={{
+            width: `${page.width}mm`,
+            height: `${page.height}mm`,
+            padding: handout ? `${HANDOUT_MARGIN}mm` : 0,
+            boxSizing: "border-box",
+            breakAfter: "page",
+          }}
+        >
+          <div className="mx-auto" style={{ width: `${slideWidth}mm` }}>
+            <div className="print-slide" style={{ zoom: getSlideScale(slideWidth) }}>
+              <SlideCanvas
+                slide={slide}
+                theme={presentation.theme}
+                customTheme={customTheme}
+                format={presentation.format}
+              />
+            </div>
+          </div>
+
+          {handout && (
+            <div className="mt-6 text-sm text-gray-800">
+              <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                Folie {slide.order_index + 1} &middot; Sprechernotizen
+              </div>
+              <p className="whitespace-pre-wrap leading-relaxed">
+                {slide.speaker_notes || "Keine Notizen"}
+              </p>
+            </div>
+          )}
+        </section>
+      ))}
+    </main>
+  );
+}
@@ -8,7 +8,7 @@
 'use client';
 
 import { WorkflowPage, type WorkflowPageConfig } from '@/components/workflows/WorkflowPage';
-import { SketchToRenderPromptInput } from '@/components/workflows/sketch-to-render';
+import { SketchToRenderPromptInput, SKETCH_TO_RENDER_PRESETS } from '@/components/workflows/sketch-to-render';
 import { DEFAULT_SKETCH_TO_RENDER_SETTINGS, type SketchToRenderSettingsType } from '@/types/workflows/sketchToRenderSettings';
 import { ErrorBoundary } from '@/components/shared/ErrorBoundary';
 import {
@@ -26,6 +26,7 @@ const sketchToRenderConfig: WorkflowPageConfig<SketchToRenderSettingsType> = {
   name: 'Sketch to Render',
   apiEndpoint: 'sketch-to-render',
   defaultSettings: DEFAULT_SKETCH_TO_RENDER_SETTINGS,
+  builtInPresets: SKETCH_TO_RENDER_PRESETS,
 
   // Workflow-specific components
   PromptInputComponent: SketchToRenderPromptInput,
@@ -22,13 +22,13 @@ const styleTransferConfig: WorkflowPageConfig<StyleTransferSettingsType> = {
   hooks: {
     useGenerate: () => useStyleTransferAdapterWithContext(),
     // ✅ Style Transfer-specific T-Button with IMPERATIVE PROMPTS
-    // Calls /api/style-transfer/generate-prompt which:
+    // Calls /api/workflows/style-transfer/generate-prompt which:
     // 1. Analyzes source image (WHAT IS in the building)
     // 2. Analyzes reference style (if provided)
     // 3. Generates imperative, action-oriented commands (HOW TO transform)
     // Example: "WINDOWS - CHANGE COMPLETELY: IDENTIFY current windows, REPLACE shapes..."
     useEnhance: () => useStyleTransferPromptEnhancerAdapter(),
-    useEdit: () => useRenderEditAdapter("/api/style-transfer/edit"),
+    useEdit: () => useRenderEditAdapter("/api/workflows/style-transfer/edit"),
     useUpscale: useUpscaleAdapter,
   },
 
@@ -40,6 +40,7 @@ export function ChatArea({ onMenuClick }: ChatAreaProps) {
   const setIsGenerating = useChatStore((state) => state.setIsGenerating);
   const setError = useChatStore((state) => state.setError);
   const addToLibrary = useLibraryStore((state) => state.addItem);
+  const reloadLibrary = useLibraryStore((state) => state.loadItems);
 
   // Custom Hooks - Mode & Settings Management
   const {
@@ -100,9 +101,8 @@ export function ChatArea({ onMenuClick }: ChatAreaProps) {
 
   // Video Queue Callbacks
   const { onVideoReady, onVideoFailed, onProgressUpdate } = useVideoQueueCallbacks({
-    currentConversationId,
     messages,
-    addToLibrary: addToLibrary as any,
+    reloadLibrary,
   });
 
   // Video Queue Management
@@ -2,11 +2,13 @@
 
 import { useState } from "react";
 import { Share2, Menu, ChevronDown, Edit2 } from "lucide-react";
+import { getVideoModelOptions } from "@/config/videoSettings";
+import type { UIVideoModel } from "@/types/video";
 
 export type GPTModel = "gpt-4o" | "gpt-5";
 export type AIModel = "chatgpt" | "claude" | "gemini";
-// UI Video model - user-facing model selection
-export type VideoModel = "kling" | "sora2";
+// UI Video model - user-facing model selection (declared by the video provider registry)
+export type VideoModel = UIVideoModel;
 // Re-export from types/video for convenience
 export type { VideoModel as APIVideoModel, UIVideoModel } from "@/types/video";
 
@@ -48,10 +50,7 @@ export function ChatHeader({
     { id: "gpt-5", name: "ChatGPT", version: "5", badge: "Neu", desc: "Leistungsstark" },
   ];
 
-  const videoModels: { id: VideoModel; name: string; version: string }[] = [
-    { id: "kling", name: "Payperwork Move", version: "v.1" },
-    { id: "sora2", name: "Payperwork Move", version: "v.2" },
-  ];
+  const videoModels: { id: VideoModel; name: string; version: string }[] = getVideoModelOptions();
 
   const getModelDisplay = () => {
     if (mode === "image") {
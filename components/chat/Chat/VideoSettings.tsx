@@ -6,8 +6,8 @@ import { VideoModel } from "./ChatHeader";
 import {
   getDurationOptions,
   getAspectRatioOptions,
+  getModeOptions,
   hasFeature,
-  KLING_MODES,
   KLING_CAMERA_MOVEMENTS,
 } from "@/config/videoSettings";
 
@@ -30,10 +30,10 @@ interface VideoSettingsProps {
 type DropdownType = "duration" | "aspect" | "mode" | "camera" | null;
 
 export default function VideoSettings({ settings, onSettingsChange, hasImageAttachment = false, videoModel = "kling" }: VideoSettingsProps) {
-  // Get options based on video model using helper functions
+  // Get options from the video provider definition using helper functions
   const durationOptions = getDurationOptions(videoModel);
   const aspectRatioOptions = getAspectRatioOptions(videoModel, hasImageAttachment);
-  const modeOptions = hasFeature(videoModel, "modes") ? KLING_MODES : [];
+  const modeOptions = getModeOptions(videoModel);
   const showModeSelector = hasFeature(videoModel, "modes");
   const showAudioToggle = hasFeature(videoModel, "audio");
   const showCameraMovement = hasImageAttachment && hasFeature(videoModel, "cameraMovement");
@@ -91,7 +91,7 @@ export default function VideoSettings({ settings, onSettingsChange, hasImageAtta
               <button
                 key={option.value}
                 onClick={() => {
-                  onSettingsChange({ ...settings, duration: option.value as "5" | "10" });
+                  onSettingsChange({ ...settings, duration: option.value as VideoSettingsType["duration"] });
                   setOpenDropdown(null);
                 }}
                 className={`w-full px-3 py-2 text-left text-sm transition-colors ${
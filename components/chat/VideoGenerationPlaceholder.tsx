@@ -1,9 +1,11 @@
 "use client";
 
 import { XCircle, RotateCw } from "lucide-react";
+import { getVideoModelDisplayName } from "@/config/videoSettings";
+import type { VideoModel } from "@/types/video";
 
 interface VideoGenerationPlaceholderProps {
-  model: "payperwork-v1" | "payperwork-v2";
+  model: VideoModel;
   duration: string;
   aspectRatio: string;
   progress?: number;
@@ -25,7 +27,7 @@ export function VideoGenerationPlaceholder({
   error,
   className = "",
 }: VideoGenerationPlaceholderProps) {
-  const modelName = model === "payperwork-v2" ? "Payperwork Move v2" : "Payperwork Move v1";
+  const modelName = getVideoModelDisplayName(model);
   const minutes = estimatedTimeRemaining ? Math.ceil(estimatedTimeRemaining / 60) : null;
   const isFailed = status === "failed";
 
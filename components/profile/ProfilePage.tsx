@@ -5,6 +5,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useRouter } from "next/navigation";
 import { User, Mail, Lock, ArrowLeft } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { UsageCard } from "./UsageCard";
 
 export function ProfilePage() {
   const { user } = useAuth();
@@ -250,6 +251,9 @@ export function ProfilePage() {
               </button>
             </form>
           </div>
+
+          {/* Usage Card */}
+          <UsageCard userId={user?.id} />
         </div>
       </div>
     </div>
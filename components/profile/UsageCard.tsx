@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BarChart3 } from "lucide-react";
+import type { UserUsageSummary } from "@/types/usage";
+
+const USAGE_DAYS = 30;
+
+const SOURCE_LABELS: Record<string, string> = {
+  slides_topics: "Folienthemen",
+  slides_generation: "Foliengenerierung",
+  slides_pipeline: "Präsentations-Pipeline",
+  agent_workflow: "Agent-Workflows",
+};
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toLocaleString("de-DE", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: costUsd < 1 ? 4 : 2,
+  })}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("de-DE");
+}
+
+interface UsageCardProps {
+  userId?: string;
+}
+
+/**
+ * Token usage and estimated cost of the user's AI generations (last 30 days)
+ */
+export function UsageCard({ userId }: UsageCardProps) {
+  const [usage, setUsage] = useState<UserUsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    const loadUsage = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/agents/usage?userId=${userId}&days=${USAGE_DAYS}`);
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || "Nutzung konnte nicht geladen werden");
+        }
+
+        if (!cancelled) setUsage(data.usage);
+      } catch (error) {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : "Nutzung konnte nicht geladen werden");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadUsage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const sources = usage
+    ? Object.entries(usage.bySource).sort(([, a], [, b]) => b.costUsd - a.costUsd)
+    : [];
+
+  return (
+    <div className="border-pw-black/10 rounded-2xl border bg-white p-6 shadow-sm md:col-span-2">
+      <div className="mb-6 flex items-center gap-3">
+        <div className="bg-pw-black/5 flex h-10 w-10 items-center justify-center rounded-full">
+          <BarChart3 className="text-pw-black/60 h-5 w-5" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-pw-black">Nutzung</h2>
+          <p className="text-pw-black/60 text-sm">
+            Tokens und geschätzte Kosten der letzten {USAGE_DAYS} Tage
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {!error && isLoading && <p className="text-pw-black/60 text-sm">Lädt...</p>}
+
+      {!error && !isLoading && usage && (
+        <div className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <p className="text-pw-black/60 text-xs font-medium uppercase tracking-wide">
+                Geschätzte Kosten
+              </p>
+              <p className="mt-1 text-2xl font-semibold text-pw-black">
+                {formatCost(usage.totals.costUsd)}
+              </p>
+            </div>
+            <div>
+              <p className="text-pw-black/60 text-xs font-medium uppercase tracking-wide">
+                Tokens
+              </p>
+              <p className="mt-1 text-2xl font-semibold text-pw-black">
+                {formatTokens(usage.totals.totalTokens)}
+              </p>
+            </div>
+            <div>
+              <p className="text-pw-black/60 text-xs font-medium uppercase tracking-wide">
+                Aufrufe
+              </p>
+              <p className="mt-1 text-2xl font-semibold text-pw-black">
+                {formatTokens(usage.totals.calls)}
+              </p>
+            </div>
+          </div>
+
+          {sources.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-pw-black">Nach Bereich</h3>
+              <ul className="divide-pw-black/5 divide-y text-sm">
+                {sources.map(([source, totals]) => (
+                  <li key={source} className="flex justify-between py-2">
+                    <span className="text-pw-black/80">{SOURCE_LABELS[source] || source}</span>
+                    <span className="text-pw-black">{formatCost(totals.costUsd)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {usage.presentations.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-pw-black">Teuerste Präsentationen</h3>
+              <ul className="divide-pw-black/5 divide-y text-sm">
+                {usage.presentations.map((presentation) => (
+                  <li key={presentation.presentationId} className="flex justify-between gap-4 py-2">
+                    <span className="text-pw-black/80 truncate">
+                      {presentation.title || "Unbenannte Präsentation"}
+                    </span>
+                    <span className="shrink-0 text-pw-black">
+                      {formatCost(presentation.costUsd)} · {formatTokens(presentation.totalTokens)}{" "}
+                      Tokens
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {usage.totals.calls === 0 && (
+            <p className="text-pw-black/60 text-sm">Noch keine Nutzung in diesem Zeitraum.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,14 @@
 "use client";
 
 import { forwardRef } from "react";
-import {
-  Slide,
-  PresentationTheme,
-  PresentationFormat,
-  SlideCanvasProps,
-} from "@/types/slides";
+import { SlideCanvasProps } from "@/types/slides";
 import { Card } from "@/components/ui/card";
-import ReactMarkdown from "react-markdown";
+import { resolveSlideTheme, toFontStack } from "@/lib/api/slides/slide-theme";
+import { ThemeFrame } from "./shared/ThemeFrame";
+import { SlideMarkdown, SlideFootnotes } from "./shared/SlideCitations";
 
 const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
-  ({ slide, theme, format, isEditable = false, onUpdate }, ref) => {
+  ({ slide, theme, customTheme, format, isEditable = false, onUpdate }, ref) => {
   // Calculate dimensions based on format
   const getDimensions = () => {
     const baseWidth = 800;
@@ -29,23 +26,10 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
 
   const { width, height } = getDimensions();
 
-  // Get theme colors
-  const getThemeColors = () => {
-    const themes: Record<PresentationTheme, { primary: string; bg: string }> =
-      {
-        default: { primary: "#64748b", bg: "#f8fafc" },
-        red: { primary: "#ef4444", bg: "#fef2f2" },
-        rose: { primary: "#f43f5e", bg: "#fff1f2" },
-        orange: { primary: "#f97316", bg: "#fff7ed" },
-        green: { primary: "#22c55e", bg: "#f0fdf4" },
-        blue: { primary: "#3b82f6", bg: "#eff6ff" },
-        yellow: { primary: "#eab308", bg: "#fefce8" },
-        violet: { primary: "#8b5cf6", bg: "#faf5ff" },
-      };
-    return themes[theme] || themes.default;
-  };
-
-  const colors = getThemeColors();
+  // Built-in or custom theme (same as the PPTX export)
+  const slideTheme = resolveSlideTheme(theme, customTheme);
+  const colors = slideTheme.palette;
+  const headingFont = toFontStack(slideTheme.headingFont);
 
   // Render different layouts
   const renderLayout = () => {
@@ -55,12 +39,12 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
           <div className="flex flex-col items-center justify-center h-full text-center p-12">
             <h1
               className="text-5xl font-bold mb-4"
-              style={{ color: colors.primary }}
+              style={{ color: colors.primary, fontFamily: headingFont }}
             >
               {slide.title}
             </h1>
-            <div className="text-2xl text-muted-foreground max-w-2xl">
-              <ReactMarkdown>{slide.content}</ReactMarkdown>
+            <div className="text-2xl max-w-2xl" style={{ color: colors.muted }}>
+              <SlideMarkdown>{slide.content}</SlideMarkdown>
             </div>
           </div>
         );
@@ -70,12 +54,12 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
           <div className="p-12">
             <h2
               className="text-4xl font-bold mb-8"
-              style={{ color: colors.primary }}
+              style={{ color: colors.primary, fontFamily: headingFont }}
             >
               {slide.title}
             </h2>
             <div className="text-xl prose prose-lg max-w-none">
-              <ReactMarkdown>{slide.content}</ReactMarkdown>
+              <SlideMarkdown>{slide.content}</SlideMarkdown>
             </div>
           </div>
         );
@@ -89,16 +73,16 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
           <div className="p-12">
             <h2
               className="text-4xl font-bold mb-8"
-              style={{ color: colors.primary }}
+              style={{ color: colors.primary, fontFamily: headingFont }}
             >
               {slide.title}
             </h2>
             <div className="grid grid-cols-2 gap-8">
               <div className="prose prose-lg">
-                <ReactMarkdown>{leftContent}</ReactMarkdown>
+                <SlideMarkdown>{leftContent}</SlideMarkdown>
               </div>
               <div className="prose prose-lg">
-                <ReactMarkdown>{rightContent}</ReactMarkdown>
+                <SlideMarkdown>{rightContent}</SlideMarkdown>
               </div>
             </div>
           </div>
@@ -109,11 +93,11 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
           <div className="flex flex-col items-center justify-center h-full text-center p-12">
             <div
               className="text-4xl font-serif italic mb-4"
-              style={{ color: colors.primary }}
+              style={{ color: colors.primary, fontFamily: headingFont }}
             >
               &ldquo;{slide.content}&rdquo;
             </div>
-            <div className="text-xl text-muted-foreground">
+            <div className="text-xl" style={{ color: colors.muted }}>
               &mdash; {slide.title}
             </div>
           </div>
@@ -124,7 +108,7 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
           <div className="p-12">
             <h2
               className="text-4xl font-bold mb-8"
-              style={{ color: colors.primary }}
+              style={{ color: colors.primary, fontFamily: headingFont }}
             >
               {slide.title}
             </h2>
@@ -136,7 +120,7 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
               />
             ) : (
               <div className="prose prose-lg">
-                <ReactMarkdown>{slide.content}</ReactMarkdown>
+                <SlideMarkdown>{slide.content}</SlideMarkdown>
               </div>
             )}
           </div>
@@ -150,14 +134,31 @@ const SlideCanvas = forwardRef<HTMLDivElement, SlideCanvasProps>(
     return (
       <Card
         ref={ref}
-        className="shadow-2xl overflow-hidden"
+        className="relative shadow-2xl overflow-hidden"
         style={{
           width: `${width}px`,
           height: `${height}px`,
-          backgroundColor: slide.background_color || colors.bg,
+          containerType: "inline-size",
+          color: colors.text,
+          fontFamily: toFontStack(slideTheme.bodyFont),
+          backgroundColor: slide.background_color || colors.background,
+          // Master background of the theme, unless the slide has its own background
+          ...(!slide.background_color &&
+            slideTheme.backgroundImage && {
+              backgroundImage: `url("${slideTheme.backgroundImage}")`,
+              backgroundSize: "cover",
+              backgroundPosition: "center",
+            }),
         }}
       >
         {renderLayout()}
+        {/* Research sources cited on the slide, above the theme footer */}
+        <SlideFootnotes
+          citations={slide.citations}
+          className="absolute left-12 right-12"
+          style={{ bottom: "4cqw", color: colors.muted }}
+        />
+        <ThemeFrame theme={slideTheme} slideNumber={slide.order_index + 1} />
       </Card>
     );
   }
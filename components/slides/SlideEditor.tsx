@@ -3,11 +3,17 @@
 import { useState, useRef } from "react";
 import { Presentation, Slide, SlideEditorProps } from "@/types/slides";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { ChevronLeft, ChevronRight, Download, History, Mic } from "lucide-react";
 import { useExport } from "@/hooks/slides/useExport";
+import { usePresentationTheme } from "@/hooks/slides/usePresentationTheme";
 import SlideCanvas from "./SlideCanvas";
 import SlideList from "./SlideList";
 import SlideSettings from "./SlideSettings";
+import SlideHistory from "./SlideHistory";
+import SlideRewrite from "./SlideRewrite";
+import TalkScriptPanel from "./TalkScriptPanel";
+
+type SidebarPanel = "settings" | "history" | "script";
 
 export default function SlideEditor({
   presentation,
@@ -15,12 +21,15 @@ export default function SlideEditor({
   onSlideUpdate,
   onSlideDelete,
   onExport,
+  onSlidesReplace,
 }: SlideEditorProps) {
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+  const [sidebarPanel, setSidebarPanel] = useState<SidebarPanel>("settings");
   const currentSlide = slides[currentSlideIndex];
 
   // Export hook and refs
   const { exportPresentation, isExporting } = useExport();
+  const { customTheme } = usePresentationTheme(presentation);
   const slideRefs = useRef<(HTMLDivElement | null)[]>([]);
 
   const handlePrevSlide = () => {
@@ -39,6 +48,10 @@ export default function SlideEditor({
     setCurrentSlideIndex(index);
   };
 
+  const toggleSidebarPanel = (panel: SidebarPanel) => {
+    setSidebarPanel(sidebarPanel === panel ? "settings" : panel);
+  };
+
   const handleExport = async (format: "pdf" | "pptx") => {
     if (format === "pdf") {
       // Get all slide elements
@@ -93,6 +106,22 @@ export default function SlideEditor({
           </div>
 
           <div className="flex items-center gap-2">
+            <Button
+              variant={sidebarPanel === "script" ? "primary" : "secondary"}
+              size="sm"
+              onClick={() => toggleSidebarPanel("script")}
+            >
+              <Mic className="w-4 h-4 mr-2" />
+              Sprechertext
+            </Button>
+            <Button
+              variant={sidebarPanel === "history" ? "primary" : "secondary"}
+              size="sm"
+              onClick={() => toggleSidebarPanel("history")}
+            >
+              <History className="w-4 h-4 mr-2" />
+              Verlauf
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -121,6 +150,7 @@ export default function SlideEditor({
               ref={(el) => (slideRefs.current[currentSlideIndex] = el)}
               slide={currentSlide}
               theme={presentation.theme}
+              customTheme={customTheme}
               format={presentation.format}
               isEditable={true}
               onUpdate={(data) => onSlideUpdate(currentSlide.id, data)}
@@ -129,14 +159,40 @@ export default function SlideEditor({
         </div>
       </div>
 
-      {/* Right Sidebar - Settings */}
+      {/* Right Sidebar - Settings, Version History or Talk Script */}
       <div className="w-80 border-l bg-muted/10 overflow-y-auto">
         <div className="p-4">
-          <SlideSettings
-            presentation={presentation}
-            currentSlide={currentSlide}
-            onSlideUpdate={(data) => onSlideUpdate(currentSlide.id, data)}
-          />
+          {sidebarPanel === "history" ? (
+            <SlideHistory
+              presentation={presentation}
+              currentSlide={currentSlide}
+              onRestore={(restoredSlides) => onSlidesReplace?.(restoredSlides)}
+            />
+          ) : sidebarPanel === "script" ? (
+            <TalkScriptPanel
+              presentation={presentation}
+              slides={slides}
+              currentSlide={currentSlide}
+              onSlideSelect={handleSlideSelect}
+              onNotesChange={(slideId, notes) => onSlideUpdate(slideId, { speaker_notes: notes })}
+              onGenerated={(updatedSlides) => onSlidesReplace?.(updatedSlides)}
+            />
+          ) : (
+            <>
+              <SlideSettings
+                presentation={presentation}
+                currentSlide={currentSlide}
+                onSlideUpdate={(data) => onSlideUpdate(currentSlide.id, data)}
+              />
+              <div className="mt-6 border-t pt-6">
+                <SlideRewrite
+                  presentation={presentation}
+                  currentSlide={currentSlide}
+                  onRewrite={(slide) => onSlidesReplace?.([slide])}
+                />
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { SlideHistoryProps, SlideRevision, SlideRevisionSource } from "@/types/slides";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw } from "lucide-react";
+import { useSlideRevisions } from "@/hooks/slides/useSlideRevisions";
+import { diffSlides, SlideDiffField, SlideSnapshot } from "@/lib/api/slides/slide-diff";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<SlideRevisionSource, string> = {
+  manual: "Manuell",
+  ai: "KI",
+  restore: "Wiederhergestellt",
+};
+
+const FIELD_LABELS: Record<SlideDiffField, string> = {
+  title: "Titel",
+  content: "Inhalt",
+  layout: "Layout",
+  background_color: "Hintergrundfarbe",
+  background_image: "Hintergrundbild",
+  speaker_notes: "Notizen",
+};
+
+/**
+ * Version history of the current slide
+ *
+ * Each revision is the state before a change; the diff shows what the change
+ * removed (red) and added (green).
+ */
+export default function SlideHistory({ presentation, currentSlide, onRestore }: SlideHistoryProps) {
+  const { revisions, isLoading, isRestoring, restoreRevision, restorePresentation } =
+    useSlideRevisions(presentation, currentSlide?.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!currentSlide) {
+    return <div className="text-sm text-muted-foreground">No slide selected</div>;
+  }
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId);
+  const selected = revisions[selectedIndex];
+  // State after the selected change: the next newer revision or the current slide
+  const after: SlideSnapshot | undefined =
+    selected && (revisions[selectedIndex - 1] ?? currentSlide);
+
+  const handleRestore = async (revision: SlideRevision, wholePresentation: boolean) => {
+    const slides = wholePresentation
+      ? await restorePresentation(revision.batch_id)
+      : await restoreRevision(revision.id);
+
+    if (slides) {
+      setSelectedId(null);
+      onRestore(slides);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 font-semibold">
+        <History className="h-4 w-4" />
+        Verlauf
+      </h3>
+
+      {isLoading && revisions.length === 0 && (
+        <div className="text-sm text-muted-foreground">Lade Verlauf...</div>
+      )}
+
+      {!isLoading && revisions.length === 0 && (
+        <div className="text-sm text-muted-foreground">Keine früheren Versionen</div>
+      )}
+
+      <ul className="space-y-2">
+        {revisions.map((revision) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+              className={cn(
+                "w-full rounded-md border p-2 text-left text-sm hover:bg-muted/50",
+                revision.id === selectedId && "border-primary bg-muted/50"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span>{new Date(revision.created_at).toLocaleString("de-DE")}</span>
+                <Badge variant={revision.source === "ai" ? "default" : "secondary"}>
+                  {SOURCE_LABELS[revision.source]}
+                </Badge>
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {revision.changed_fields.length > 0
+                  ? revision.changed_fields
+                      .map((field) => FIELD_LABELS[field as SlideDiffField] ?? field)
+                      .join(", ")
+                  : "Gesamte Folie"}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && after && (
+        <div className="space-y-3 border-t pt-4">
+          <h4 className="text-sm font-medium">Änderungen seit dieser Version</h4>
+
+          {diffSlides(selected, after).map((diff) => (
+            <div key={diff.field} className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">
+                {FIELD_LABELS[diff.field]}
+              </div>
+              <div className="whitespace-pre-wrap break-words rounded-md bg-muted/30 p-2 text-sm">
+                {diff.segments.map((segment, index) => (
+                  <span
+                    key={index}
+                    className={cn(
+                      segment.type === "delete" && "bg-red-100 text-red-800 line-through",
+                      segment.type === "insert" && "bg-green-100 text-green-800"
+                    )}
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex flex-col gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleRestore(selected, false)}
+              disabled={isRestoring}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Folie wiederherstellen
+            </Button>
+            {selected.scope === "presentation" && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleRestore(selected, true)}
+                disabled={isRestoring}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Gesamte Präsentation wiederherstellen
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { SlideLayout, SlideRewriteProps } from "@/types/slides";
+import { Button } from "@/components/ui/Button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Sparkles } from "lucide-react";
+import { LAYOUT_OPTIONS } from "@/constants/slides";
+import { useSlideRewrite } from "@/hooks/slides/useSlideRewrite";
+
+const KEEP_LAYOUT = "keep";
+
+/**
+ * Rewrite the current slide with AI following an instruction
+ */
+export default function SlideRewrite({ presentation, currentSlide, onRewrite }: SlideRewriteProps) {
+  const { rewriteSlide, isRewriting } = useSlideRewrite(presentation);
+  const [instruction, setInstruction] = useState("");
+  const [layout, setLayout] = useState<string>(KEEP_LAYOUT);
+
+  if (!currentSlide) {
+    return null;
+  }
+
+  const handleRewrite = async () => {
+    const slide = await rewriteSlide(
+      currentSlide.id,
+      instruction.trim(),
+      layout === KEEP_LAYOUT ? undefined : (layout as SlideLayout)
+    );
+
+    if (slide) {
+      setInstruction("");
+      setLayout(KEEP_LAYOUT);
+      onRewrite(slide);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="slide-rewrite">Mit KI überarbeiten</Label>
+      <Textarea
+        id="slide-rewrite"
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        rows={3}
+        placeholder='z.B. "kürzer", "mehr Zahlen", "als Zitat"'
+        disabled={isRewriting}
+      />
+      <Select value={layout} onValueChange={setLayout} disabled={isRewriting}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={KEEP_LAYOUT}>Layout beibehalten</SelectItem>
+          {LAYOUT_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="secondary"
+        size="sm"
+        className="w-full"
+        onClick={handleRewrite}
+        disabled={isRewriting || !instruction.trim()}
+      >
+        <Sparkles className="mr-2 h-4 w-4" />
+        {isRewriting ? "Wird überarbeitet..." : "Folie überarbeiten"}
+      </Button>
+    </div>
+  );
+}
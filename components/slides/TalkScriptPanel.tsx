@@ -0,0 +1,155 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { TalkScriptPanelProps } from "@/types/slides";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy, Download, Mic } from "lucide-react";
+import { useTalkScript } from "@/hooks/slides/useTalkScript";
+import {
+  buildTalkScript,
+  formatTimestamp,
+  DEFAULT_SECONDS_PER_SLIDE,
+  MIN_SECONDS_PER_SLIDE,
+  MAX_SECONDS_PER_SLIDE,
+} from "@/lib/api/slides/talk-script";
+import { cn } from "@/lib/utils";
+
+/**
+ * Talk script of the presentation: speaker notes of all slides with timing
+ * marks, editable per slide, and AI generation at a target time per slide
+ */
+export default function TalkScriptPanel({
+  presentation,
+  slides,
+  currentSlide,
+  onSlideSelect,
+  onNotesChange,
+  onGenerated,
+}: TalkScriptPanelProps) {
+  const { generateScript, isGenerating } = useTalkScript(presentation);
+  const [secondsPerSlide, setSecondsPerSlide] = useState(DEFAULT_SECONDS_PER_SLIDE);
+  const script = useMemo(() => buildTalkScript(slides), [slides]);
+
+  const isValidSeconds =
+    Number.isInteger(secondsPerSlide) &&
+    secondsPerSlide >= MIN_SECONDS_PER_SLIDE &&
+    secondsPerSlide <= MAX_SECONDS_PER_SLIDE;
+
+  const handleGenerate = async (onlyMissing: boolean) => {
+    const updated = await generateScript(secondsPerSlide, onlyMissing);
+
+    if (updated && updated.length > 0) {
+      onGenerated(updated);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([script.text], { type: "text/plain;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${presentation.title.replace(/[^a-z0-9äöüß]/gi, "_")}_sprechertext.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 font-semibold">
+        <Mic className="h-4 w-4" />
+        Sprechertext
+      </h3>
+
+      <div className="space-y-2">
+        <Label htmlFor="seconds-per-slide">Redezeit pro Folie (Sekunden)</Label>
+        <Input
+          id="seconds-per-slide"
+          type="number"
+          min={MIN_SECONDS_PER_SLIDE}
+          max={MAX_SECONDS_PER_SLIDE}
+          value={secondsPerSlide}
+          onChange={(e) => setSecondsPerSlide(Number(e.target.value))}
+          disabled={isGenerating}
+        />
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            className="flex-1"
+            onClick={() => handleGenerate(false)}
+            disabled={isGenerating || !isValidSeconds}
+          >
+            {isGenerating ? "Wird erstellt..." : "Alle generieren"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex-1"
+            onClick={() => handleGenerate(true)}
+            disabled={isGenerating || !isValidSeconds}
+          >
+            Nur fehlende
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between border-t pt-4 text-sm">
+        <span className="text-muted-foreground">
+          Gesamtdauer: {formatTimestamp(script.totalSeconds)}
+        </span>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigator.clipboard.writeText(script.text)}
+            title="Kopieren"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleDownload} title="Als Text herunterladen">
+            <Download className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {script.sections.map((section, index) => {
+          const slideIndex = slides.findIndex((slide) => slide.id === section.slideId);
+
+          return (
+            <li
+              key={section.slideId}
+              className={cn(
+                "space-y-1 rounded-md border p-2",
+                section.slideId === currentSlide?.id && "border-primary"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onSlideSelect(slideIndex)}
+                className="flex w-full items-center justify-between gap-2 text-left text-sm"
+              >
+                <span className="truncate font-medium">
+                  {index + 1}. {section.title}
+                </span>
+                <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                  [{formatTimestamp(section.start)}]
+                </span>
+              </button>
+              <Textarea
+                value={slides[slideIndex]?.speaker_notes || ""}
+                onChange={(e) => onNotesChange(section.slideId, e.target.value)}
+                rows={4}
+                placeholder="Notizen für den Vortragenden"
+                disabled={isGenerating}
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
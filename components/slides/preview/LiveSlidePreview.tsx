@@ -11,15 +11,16 @@
 'use client';
 
 import React from 'react';
-import { LivePreviewSlide } from '@/types/slides';
+import { LivePreviewSlide, SlideTheme } from '@/types/slides';
 import { SlideRenderer } from '../shared/SlideRenderer';
 import { Badge } from '@/components/ui/badge';
 
 interface LiveSlidePreviewProps {
   slide: LivePreviewSlide;
+  theme?: SlideTheme;
 }
 
-export function LiveSlidePreview({ slide }: LiveSlidePreviewProps) {
+export function LiveSlidePreview({ slide, theme }: LiveSlidePreviewProps) {
   return (
     <div className="flex-1 flex flex-col gap-3 overflow-hidden">
       <div className="flex items-center justify-between flex-shrink-0">
@@ -28,7 +29,7 @@ export function LiveSlidePreview({ slide }: LiveSlidePreviewProps) {
       </div>
 
       <div className="flex-1 border rounded-lg overflow-auto bg-white">
-        <SlideRenderer slide={slide} />
+        <SlideRenderer slide={slide} theme={theme} />
       </div>
     </div>
   );
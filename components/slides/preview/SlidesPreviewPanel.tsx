@@ -12,6 +12,7 @@
 
 import React from 'react';
 import { useSlidesStore } from '@/hooks/slides/useSlidesStore';
+import { resolveSlideTheme } from '@/lib/api/slides/slide-theme';
 import { LiveSlidePreview } from './LiveSlidePreview';
 import { ProgressIndicator } from './ProgressIndicator';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -20,6 +21,8 @@ import { Monitor } from 'lucide-react';
 export function SlidesPreviewPanel() {
   const livePreviewSlide = useSlidesStore((state) => state.livePreviewSlide);
   const generationStatus = useSlidesStore((state) => state.generationStatus);
+  const theme = useSlidesStore((state) => state.theme);
+  const customTheme = useSlidesStore((state) => state.customTheme);
 
   if (generationStatus === 'idle') {
     return null;
@@ -37,7 +40,10 @@ export function SlidesPreviewPanel() {
         <ProgressIndicator />
 
         {livePreviewSlide ? (
-          <LiveSlidePreview slide={livePreviewSlide} />
+          <LiveSlidePreview
+            slide={livePreviewSlide}
+            theme={resolveSlideTheme(theme, customTheme)}
+          />
         ) : (
           <div className="flex-1 flex items-center justify-center border-2 border-dashed rounded-lg">
             <p className="text-sm text-muted-foreground">Waiting for slides...</p>
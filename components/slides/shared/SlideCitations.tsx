@@ -0,0 +1,64 @@
+/**
+ * Slide Citations
+ *
+ * Slide markdown with citation markers ("[3]") as superscript links to the
+ * footnotes, and the footnotes listing the cited research sources.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+'use client';
+
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { SlideCitation } from '@/types/slides';
+import { linkCitationMarkers } from '@/lib/api/slides/citations';
+
+const CITATION_ANCHOR = '#citation-';
+
+interface SlideMarkdownProps {
+  children: string;
+}
+
+export function SlideMarkdown({ children }: SlideMarkdownProps) {
+  return (
+    <ReactMarkdown
+      components={{
+        a: ({ href, children: text, node: _node, ...props }) =>
+          href?.startsWith(CITATION_ANCHOR) ? (
+            <sup className="ml-0.5 text-[0.6em] opacity-70">{text}</sup>
+          ) : (
+            <a href={href} {...props}>
+              {text}
+            </a>
+          ),
+      }}
+    >
+      {linkCitationMarkers(children)}
+    </ReactMarkdown>
+  );
+}
+
+interface SlideFootnotesProps {
+  citations?: SlideCitation[];
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export function SlideFootnotes({ citations, className = '', style }: SlideFootnotesProps) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <ol className={`list-none space-y-0.5 text-xs opacity-70 ${className}`} style={style}>
+      {citations.map((citation) => (
+        <li key={citation.number} className="truncate" title={citation.snippet || citation.title}>
+          [{citation.number}]{' '}
+          <a href={citation.url} target="_blank" rel="noopener noreferrer" className="underline">
+            {citation.title || citation.url}
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -2,7 +2,8 @@
  * Slide Renderer
  *
  * Renders slide content with proper formatting.
- * Supports Markdown rendering.
+ * Supports Markdown rendering, themes (colours, fonts, logo, footer) and
+ * source citations (footnotes).
  *
  * @author Payperwork Team
  * @date 2025-10-19
@@ -12,30 +13,65 @@
 'use client';
 
 import React from 'react';
-import { Slide, LivePreviewSlide } from '@/types/slides';
-import ReactMarkdown from 'react-markdown';
+import { Slide, LivePreviewSlide, SlideTheme } from '@/types/slides';
+import { toFontStack } from '@/lib/api/slides/slide-theme';
+import { ThemeFrame } from './ThemeFrame';
+import { SlideMarkdown, SlideFootnotes } from './SlideCitations';
 
 interface SlideRendererProps {
   slide: Slide | LivePreviewSlide;
+  theme?: SlideTheme;
 }
 
-export function SlideRenderer({ slide }: SlideRendererProps) {
+export function SlideRenderer({ slide, theme }: SlideRendererProps) {
+  const background = slide.background_color || theme?.palette.background;
+  const backgroundImage = !slide.background_color ? theme?.backgroundImage : null;
+
   return (
-    <div className="w-full h-full p-8 flex flex-col">
+    <div
+      className="relative w-full h-full p-8 flex flex-col"
+      style={
+        theme && {
+          containerType: 'inline-size',
+          color: theme.palette.text,
+          fontFamily: toFontStack(theme.bodyFont),
+          backgroundColor: background,
+          ...(backgroundImage && {
+            backgroundImage: `url("${backgroundImage}")`,
+            backgroundSize: 'cover',
+            backgroundPosition: 'center',
+          }),
+        }
+      }
+    >
       {/* Title */}
       <div className="mb-6">
-        <h2 className="text-3xl font-bold">{slide.title}</h2>
+        <h2
+          className="text-3xl font-bold"
+          style={
+            theme && { color: theme.palette.primary, fontFamily: toFontStack(theme.headingFont) }
+          }
+        >
+          {slide.title}
+        </h2>
       </div>
 
       {/* Content */}
       <div className="flex-1 prose prose-sm max-w-none">
-        <ReactMarkdown>{slide.content}</ReactMarkdown>
+        <SlideMarkdown>{slide.content}</SlideMarkdown>
       </div>
 
-      {/* Slide Number (bottom right) */}
-      <div className="text-right text-sm text-muted-foreground mt-4">
-        {slide.order_index + 1}
-      </div>
+      {/* Cited research sources */}
+      <SlideFootnotes citations={slide.citations} className="mt-4" />
+
+      {/* Slide Number (bottom right, or where the theme puts it) */}
+      {!theme?.showSlideNumbers && (
+        <div className="text-right text-sm text-muted-foreground mt-4">
+          {slide.order_index + 1}
+        </div>
+      )}
+
+      {theme && <ThemeFrame theme={theme} slideNumber={slide.order_index + 1} />}
     </div>
   );
 }
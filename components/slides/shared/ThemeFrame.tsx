@@ -0,0 +1,85 @@
+/**
+ * Theme Frame
+ *
+ * Logo, footer text and slide number of a theme, laid over a slide
+ * (like the slide master of the PPTX export). Sizes are relative to the
+ * slide width, the slide element needs container-type inline-size.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import { SlideTheme, ThemeLogoPosition } from '@/types/slides';
+import {
+  THEME_FRAME,
+  getSlideNumberPosition,
+  toFontStack,
+} from '@/lib/api/slides/slide-theme';
+
+interface ThemeFrameProps {
+  theme: SlideTheme;
+  slideNumber: number;
+}
+
+const cqw = (fraction: number) => `${fraction * 100}cqw`;
+
+function corner(position: ThemeLogoPosition): React.CSSProperties {
+  const margin = cqw(THEME_FRAME.margin);
+  return {
+    [position.startsWith('top') ? 'top' : 'bottom']: margin,
+    [position.endsWith('left') ? 'left' : 'right']: margin,
+  };
+}
+
+export function ThemeFrame({ theme, slideNumber }: ThemeFrameProps) {
+  const textStyle: React.CSSProperties = {
+    fontSize: cqw(THEME_FRAME.footerFontSize),
+    fontFamily: toFontStack(theme.bodyFont),
+    color: theme.palette.muted,
+    lineHeight: 1.2,
+  };
+
+  return (
+    <>
+      {/* Uploaded logos can be on any host - unoptimized, sized by the slide width */}
+      {theme.logo && (
+        <Image
+          src={theme.logo.url}
+          alt="Logo"
+          width={0}
+          height={0}
+          unoptimized
+          className="absolute object-contain pointer-events-none"
+          style={{
+            ...corner(theme.logo.position),
+            height: cqw(THEME_FRAME.logoHeight),
+            maxWidth: cqw(THEME_FRAME.logoMaxWidth),
+            width: 'auto',
+          }}
+        />
+      )}
+
+      {theme.footerText && (
+        <div
+          className="absolute truncate text-center pointer-events-none"
+          style={{ ...textStyle, bottom: cqw(THEME_FRAME.margin), left: '20%', right: '20%' }}
+        >
+          {theme.footerText}
+        </div>
+      )}
+
+      {theme.showSlideNumbers && (
+        <div
+          className="absolute pointer-events-none"
+          style={{ ...textStyle, ...corner(getSlideNumberPosition(theme)) }}
+        >
+          {slideNumber}
+        </div>
+      )}
+    </>
+  );
+}
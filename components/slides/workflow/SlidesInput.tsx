@@ -21,7 +21,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { FORMAT_OPTIONS, THEME_OPTIONS } from "@/constants/slides";
-import { PresentationFormat, PresentationTheme } from "@/types/slides";
+import { CustomTheme, PresentationFormat, PresentationTheme } from "@/types/slides";
 import { logger } from "@/lib/logger";
 
 interface SlidesInputProps {
@@ -34,6 +34,9 @@ interface SlidesInputProps {
   setFormat: (format: PresentationFormat) => void;
   theme: PresentationTheme;
   setTheme: (theme: PresentationTheme) => void;
+  customThemes?: CustomTheme[];
+  customTheme?: CustomTheme | null;
+  setCustomTheme?: (customTheme: CustomTheme | null) => void;
   showComputerPanel: boolean;
   toggleComputerPanel: () => void;
   toolHistory: any[];
@@ -49,6 +52,9 @@ export function SlidesInput({
   setFormat,
   theme,
   setTheme,
+  customThemes = [],
+  customTheme = null,
+  setCustomTheme,
   showComputerPanel,
   toggleComputerPanel,
   toolHistory,
@@ -232,9 +238,16 @@ export function SlidesInput({
                     </div>
                     <div className="px-3 py-2">
                       <Select
-                        value={theme}
+                        value={customTheme ? `custom:${customTheme.id}` : theme}
                         onValueChange={(v) => {
-                          setTheme(v as PresentationTheme);
+                          // Custom themes (corporate design) replace the built-in theme
+                          if (v.startsWith("custom:")) {
+                            const id = v.slice("custom:".length);
+                            setCustomTheme?.(customThemes.find((t) => t.id === id) ?? null);
+                          } else {
+                            setTheme(v as PresentationTheme);
+                            setCustomTheme?.(null);
+                          }
                           setShowDesignDropdown(false);
                         }}
                         disabled={isGenerating}
@@ -248,6 +261,15 @@ export function SlidesInput({
                               {option.label}
                             </SelectItem>
                           ))}
+                          {customThemes.map((option) => (
+                            <SelectItem
+                              key={option.id}
+                              value={`custom:${option.id}`}
+                              className="text-xs"
+                            >
+                              {option.name}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
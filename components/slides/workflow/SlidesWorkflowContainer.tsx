@@ -16,6 +16,7 @@
 
 import React, { useRef, useEffect } from "react";
 import { useSlidesStore } from "@/hooks/slides/useSlidesStore";
+import { useCustomThemes } from "@/hooks/slides/useCustomThemes";
 import { useAuth } from "@/contexts/AuthContext";
 import { SlidesWelcome } from "./SlidesWelcome";
 import { SlidesMessages } from "./SlidesMessages";
@@ -35,8 +36,13 @@ export function SlidesWorkflowContainer() {
   const setFormat = useSlidesStore((state) => state.setFormat);
   const theme = useSlidesStore((state) => state.theme);
   const setTheme = useSlidesStore((state) => state.setTheme);
+  const customTheme = useSlidesStore((state) => state.customTheme);
+  const setCustomTheme = useSlidesStore((state) => state.setCustomTheme);
   const setCurrentTopics = useSlidesStore((state) => state.setCurrentTopics);
   const addPresentation = useSlidesStore((state) => state.addPresentation);
+  const currentPresentationId = useSlidesStore((state) => state.currentPresentationId);
+  const { user } = useAuth();
+  const { themes: customThemes } = useCustomThemes(user?.id);
 
   // NEW: Phase 2 - Payperwork Panel (ONE panel only)
   const toolHistory = useSlidesStore((state) => state.toolHistory);
@@ -64,9 +70,24 @@ export function SlidesWorkflowContainer() {
 
   // Removed polling - using WebSocket updates from webhook handler instead
 
-  const handleStopGeneration = () => {
+  const handleStopGeneration = async () => {
     logger.info("Stopping generation...");
 
+    // Cancel the server-side generation (slides completed so far are kept)
+    let keptPartialResults = false;
+    if (currentPresentationId && user?.id) {
+      try {
+        const response = await fetch(`/api/slides/workflow/${currentPresentationId}/cancel`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ userId: user.id }),
+        });
+        keptPartialResults = response.ok;
+      } catch (error) {
+        logger.warn("Failed to cancel generation on the server", { error });
+      }
+    }
+
     // Reset generation status to idle
     setGenerationStatus("idle");
 
@@ -75,7 +96,9 @@ export function SlidesWorkflowContainer() {
       id: `msg-stopped-${Date.now()}`,
       type: "result",
       content: {
-        message: "Generation stopped by user.",
+        message: keptPartialResults
+          ? "Generation stopped by user. Slides created so far were kept."
+          : "Generation stopped by user.",
       },
       timestamp: new Date().toISOString(),
     });
@@ -105,7 +128,6 @@ export function SlidesWorkflowContainer() {
     // Call API to generate topics
     try {
       // Get userId from useAuth hook
-      const { user } = useAuth();
       const userId = user?.id;
 
       if (!userId) {
@@ -135,7 +157,13 @@ export function SlidesWorkflowContainer() {
       const response = await fetch("/api/slides/workflow/generate-topics", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt: message, format, theme, userId }),
+        body: JSON.stringify({
+          prompt: message,
+          format,
+          theme,
+          customThemeId: customTheme?.id,
+          userId,
+        }),
       });
 
       if (!response.ok) {
@@ -229,6 +257,9 @@ export function SlidesWorkflowContainer() {
           setFormat={setFormat}
           theme={theme}
           setTheme={setTheme}
+          customThemes={customThemes}
+          customTheme={customTheme}
+          setCustomTheme={setCustomTheme}
           showComputerPanel={showComputerPanel}
           toggleComputerPanel={toggleComputerPanel}
           toolHistory={toolHistory}
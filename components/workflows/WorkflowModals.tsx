@@ -17,14 +17,17 @@ import type { WorkflowPageState } from '@/hooks/workflows/common/useWorkflowPage
 import type { WorkflowActions } from '@/hooks/workflows/common/useWorkflowActions';
 
 interface WorkflowModalsProps<TSettings extends Record<string, unknown>> {
+  /** Workflow slug (for the lineage in the lightbox) */
+  workflowType: string;
   state: WorkflowPageState<TSettings>;
-  actions: WorkflowActions;
+  actions: WorkflowActions<TSettings>;
 }
 
 /**
  * Renders all modal overlays for workflow pages
  */
 export function WorkflowModals<TSettings extends Record<string, unknown>>({
+  workflowType,
   state,
   actions,
 }: WorkflowModalsProps<TSettings>) {
@@ -43,6 +46,9 @@ export function WorkflowModals<TSettings extends Record<string, unknown>>({
             state.lightbox.lightboxIndex < state.generations.recentGenerations.length - 1
           }
           hasPrev={state.lightbox.lightboxIndex > 0}
+          workflowType={workflowType}
+          onSelectGeneration={actions.handleSelectLineageGeneration}
+          onBranch={actions.handleBranchFromGeneration}
           onDownload={(item) => {
             const extension = item.type === "video" ? ".mp4" : ".jpg";
             const filename = item.name
@@ -19,6 +19,7 @@
 
 import { ReactNode } from "react";
 import { ErrorBoundary } from "@/components/shared/ErrorBoundary";
+import type { BuiltInPreset } from "@/components/workflows/shared/PresetsBar";
 
 // Refactored hooks
 import { useWorkflowPageState } from "@/hooks/workflows/common/useWorkflowPageState";
@@ -55,6 +56,9 @@ export interface WorkflowPageConfig<
   /** Default settings for this workflow */
   defaultSettings: TSettings;
 
+  /** Built-in presets shown in the PresetsBar next to the user-saved presets (optional) */
+  builtInPresets?: BuiltInPreset<TSettings>[];
+
   /** Prompt input component */
   PromptInputComponent: React.ComponentType<{
     prompt: string;
@@ -96,6 +100,7 @@ export interface WorkflowPageConfig<
         currentImageUrl: string;
         originalPrompt: string;
         referenceImages?: string[];
+        mask?: string;
       }) => Promise<WorkflowGenerationResult | null>;
       isEditing: boolean;
       error: string | null;
@@ -152,7 +157,7 @@ export function WorkflowPage<TSettings extends Record<string, unknown> = Record<
       <WorkflowPageLayout config={config} state={state} actions={actions} chat={chat} />
 
       {/* Modal Overlays */}
-      <WorkflowModals state={state} actions={actions} />
+      <WorkflowModals workflowType={config.apiEndpoint} state={state} actions={actions} />
     </ErrorBoundary>
   );
 }
@@ -13,7 +13,12 @@
 "use client";
 
 import { ChatSidebar } from "@/components/chat/Sidebar/ChatSidebar";
-import { InputsPanel, ResultPanel, RecentGenerations } from "@/components/workflows/shared";
+import {
+  InputsPanel,
+  ResultPanel,
+  RecentGenerations,
+  PresetsBar,
+} from "@/components/workflows/shared";
 import { workflowLogger } from "@/lib/logger";
 import type { WorkflowPageState } from "@/hooks/workflows/common/useWorkflowPageState";
 import type { WorkflowActions } from "@/hooks/workflows/common/useWorkflowActions";
@@ -23,7 +28,7 @@ import type { WorkflowPageConfig } from "./WorkflowPage";
 interface WorkflowPageLayoutProps<TSettings extends Record<string, unknown>> {
   config: WorkflowPageConfig<TSettings>;
   state: WorkflowPageState<TSettings>;
-  actions: WorkflowActions;
+  actions: WorkflowActions<TSettings>;
   chat: ChatIntegration;
 }
 
@@ -119,7 +124,17 @@ export function WorkflowPageLayout<TSettings extends Record<string, unknown>>({
                       </div>
 
                       {/* Prompt Input with Settings */}
-                      <div className="flex min-h-0 flex-shrink-0 flex-col">
+                      <div className="flex min-h-0 flex-shrink-0 flex-col gap-1.5">
+                        <PresetsBar
+                          workflowType={config.apiEndpoint}
+                          builtInPresets={config.builtInPresets}
+                          settings={state.workflowState.settings}
+                          prompt={state.workflowState.prompt}
+                          referenceImage={
+                            state.workflowState.inputData.referenceImages[0]?.preview ?? null
+                          }
+                          onApply={actions.handleApplyPreset}
+                        />
                         <PromptInputComponent
                           prompt={state.workflowState.prompt}
                           onPromptChange={state.workflowState.setPrompt}
@@ -1,48 +1,64 @@
 "use client";
 
-import { Building2, Home, TreePine, Sparkles, Shapes, Minimize2, ChevronDown } from "lucide-react";
+import { Bookmark, ChevronDown, Plus, Trash2, Users } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
-import { SketchToRenderSettingsType, PRESET_CONFIGURATIONS } from "@/types/workflows/sketchToRenderSettings";
-
-export type RenderPreset =
-  | "architektur"
-  | "interior"
-  | "exterior"
-  | "modern"
-  | "classical"
-  | "minimalist"
-  | "none";
-
-interface Preset {
-  value: RenderPreset;
+import { useWorkflowPresets } from "@/hooks/workflows/common/useWorkflowPresets";
+import { workflowLogger } from "@/lib/logger";
+
+export interface BuiltInPreset<TSettings> {
+  value: string;
   label: string;
   icon: React.ComponentType<{ className?: string }>;
+  settings: TSettings;
+}
+
+export interface AppliedPreset<TSettings> {
+  settings: TSettings;
+  prompt?: string | null;
+  referenceImageUrl?: string | null;
 }
 
-const PRESETS: Preset[] = [
-  { value: "architektur", label: "Architektur", icon: Building2 },
-  { value: "interior", label: "Interior", icon: Home },
-  { value: "exterior", label: "Exterior", icon: TreePine },
-  { value: "modern", label: "Modern", icon: Sparkles },
-  { value: "classical", label: "Classical", icon: Shapes },
-  { value: "minimalist", label: "Minimalist", icon: Minimize2 },
-];
-
-interface PresetsBarProps {
-  selectedPreset: RenderPreset;
-  onPresetChange: (preset: RenderPreset, settings: SketchToRenderSettingsType) => void;
+interface PresetsBarProps<TSettings extends Record<string, unknown>> {
+  /** Workflow slug (e.g. "branding") */
+  workflowType: string;
+  /** Hardcoded presets of the workflow (optional) */
+  builtInPresets?: BuiltInPreset<TSettings>[];
+  /** Current settings, prompt and reference image (saved as new preset) */
+  settings: TSettings;
+  prompt: string;
+  referenceImage: string | null;
+  onApply: (preset: AppliedPreset<TSettings>) => void;
 }
 
 /**
  * PresetsBar Component
  *
- * Horizontal preset selector for Sketch-to-Render workflow
+ * Preset selector for all image workflows: built-in presets of the workflow plus
+ * user-saved presets (own and shared by the team), and saving the current settings
  * Follows the same design pattern as ImageSettings and VideoSettings
  */
-export function PresetsBar({ selectedPreset, onPresetChange }: PresetsBarProps) {
+export function PresetsBar<TSettings extends Record<string, unknown>>({
+  workflowType,
+  builtInPresets = [],
+  settings,
+  prompt,
+  referenceImage,
+  onApply,
+}: PresetsBarProps<TSettings>) {
   const [isOpen, setIsOpen] = useState(false);
+  const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState("");
+  const [includePrompt, setIncludePrompt] = useState(true);
+  const [includeReferenceImage, setIncludeReferenceImage] = useState(true);
+  const [shareWithTeam, setShareWithTeam] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  const { presets, userId, teamId, setTeamId, savePreset, deletePreset } =
+    useWorkflowPresets<TSettings>(workflowType);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -57,65 +73,227 @@ export function PresetsBar({ selectedPreset, onPresetChange }: PresetsBarProps)
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [isOpen]);
 
-  const currentPreset = PRESETS.find((p) => p.value === selectedPreset) || PRESETS[0]!;
-  const CurrentIcon = currentPreset.icon;
+  const currentLabel =
+    builtInPresets.find((p) => p.value === selectedPreset)?.label ??
+    presets.find((p) => p.id === selectedPreset)?.name ??
+    "Presets";
+  const CurrentIcon = builtInPresets.find((p) => p.value === selectedPreset)?.icon ?? Bookmark;
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    try {
+      const preset = await savePreset({
+        name: name.trim(),
+        settings,
+        prompt: includePrompt ? prompt : undefined,
+        referenceImage: includeReferenceImage ? referenceImage : null,
+        shareWithTeam: shareWithTeam && !!teamId,
+      });
+      setSelectedPreset(preset.id);
+      setShowSaveForm(false);
+      setName("");
+    } catch (error) {
+      setSaveError(
+        error instanceof Error ? error.message : "Preset konnte nicht gespeichert werden"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePreset(id);
+      if (selectedPreset === id) {
+        setSelectedPreset(null);
+      }
+    } catch (error) {
+      workflowLogger.error(`[${workflowType}] Error deleting preset:`, error as Error);
+    }
+  };
+
+  const itemClassName = (value: string) =>
+    `w-full px-3 py-2 text-left text-sm transition-colors ${
+      selectedPreset === value
+        ? "bg-pw-accent text-white font-medium"
+        : "text-pw-black/70 hover:bg-pw-black/5"
+    }`;
 
   return (
-    <div className="flex items-center justify-end gap-1.5 flex-wrap">
+    <div className="flex flex-wrap items-center justify-end gap-1.5">
       {/* Preset Dropdown */}
       <div className="relative" ref={dropdownRef}>
         <button
           onClick={() => setIsOpen(!isOpen)}
-          className={`group flex items-center gap-1.5 px-2.5 py-1.5 bg-gradient-to-br from-white/80 to-white/70 backdrop-blur-sm rounded-lg border hover:shadow transition-all cursor-pointer ${
+          className={`group flex cursor-pointer items-center gap-1.5 rounded-lg border bg-gradient-to-br from-white/80 to-white/70 px-2.5 py-1.5 backdrop-blur-sm transition-all hover:shadow ${
             isOpen ? "border-pw-accent/20 shadow-sm" : "border-pw-black/10"
           }`}
         >
           <CurrentIcon
-            className={`w-3.5 h-3.5 transition-colors ${
+            className={`h-3.5 w-3.5 transition-colors ${
               isOpen ? "text-pw-accent" : "text-pw-black/40"
             }`}
           />
-          <span className="text-xs font-medium text-pw-black/70">
-            {currentPreset.label}
-          </span>
+          <span className="text-pw-black/70 text-xs font-medium">{currentLabel}</span>
           <ChevronDown
-            className={`w-3 h-3 text-pw-black/40 transition-transform duration-200 ${
+            className={`text-pw-black/40 h-3 w-3 transition-transform duration-200 ${
               isOpen ? "rotate-180" : ""
             }`}
           />
         </button>
 
         {isOpen && (
-          <div className="absolute bottom-full mb-2 right-0 w-56 bg-white/95 backdrop-blur-xl rounded-xl shadow-xl border border-pw-black/10 py-1 z-50 animate-in fade-in slide-in-from-bottom-2 duration-150">
-            {PRESETS.map((preset) => {
+          <div className="border-pw-black/10 absolute bottom-full right-0 z-50 mb-2 max-h-96 w-64 overflow-y-auto rounded-xl border bg-white/95 py-1 shadow-xl backdrop-blur-xl duration-150 animate-in fade-in slide-in-from-bottom-2">
+            {/* Built-in Presets */}
+            {builtInPresets.map((preset) => {
               const Icon = preset.icon;
               return (
                 <button
                   key={preset.value}
                   onClick={() => {
-                    // Apply preset defaults from PRESET_CONFIGURATIONS
-                    const presetSettings = PRESET_CONFIGURATIONS[preset.value];
-                    if (presetSettings) {
-                      onPresetChange(preset.value, presetSettings);
-                    }
+                    setSelectedPreset(preset.value);
+                    onApply({ settings: preset.settings });
                     setIsOpen(false);
                   }}
-                  className={`w-full px-3 py-2 text-left text-sm transition-colors ${
-                    selectedPreset === preset.value
-                      ? "bg-pw-accent text-white font-medium"
-                      : "text-pw-black/70 hover:bg-pw-black/5"
-                  }`}
+                  className={itemClassName(preset.value)}
                 >
                   <span className="flex items-center gap-2">
-                    {selectedPreset === preset.value && (
-                      <span className="text-xs">✓</span>
-                    )}
-                    <Icon className="w-3.5 h-3.5" />
+                    {selectedPreset === preset.value && <span className="text-xs">✓</span>}
+                    <Icon className="h-3.5 w-3.5" />
                     {preset.label}
                   </span>
                 </button>
               );
             })}
+
+            {/* User-saved Presets (own and team) */}
+            {presets.length > 0 && (
+              <>
+                {builtInPresets.length > 0 && <div className="border-pw-black/10 my-1 border-t" />}
+                <div className="text-pw-black/40 px-3 py-1 text-[10px] font-medium uppercase tracking-wide">
+                  Eigene Presets
+                </div>
+                {presets.map((preset) => (
+                  <div key={preset.id} className="group/item relative">
+                    <button
+                      onClick={() => {
+                        setSelectedPreset(preset.id);
+                        onApply({
+                          settings: preset.settings,
+                          prompt: preset.prompt,
+                          referenceImageUrl: preset.reference_image_url,
+                        });
+                        setIsOpen(false);
+                      }}
+                      className={itemClassName(preset.id)}
+                    >
+                      <span className="flex items-center gap-2 pr-6">
+                        {selectedPreset === preset.id && <span className="text-xs">✓</span>}
+                        {preset.team_id ? (
+                          <Users className="h-3.5 w-3.5" />
+                        ) : (
+                          <Bookmark className="h-3.5 w-3.5" />
+                        )}
+                        <span className="truncate">{preset.name}</span>
+                      </span>
+                    </button>
+                    {preset.user_id === userId && (
+                      <button
+                        onClick={() => handleDelete(preset.id)}
+                        className="text-pw-black/40 absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 opacity-0 transition-all hover:text-red-500 group-hover/item:opacity-100"
+                        title="Preset löschen"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+
+            {/* Save current settings */}
+            <div className="border-pw-black/10 my-1 border-t" />
+            {showSaveForm ? (
+              <div className="flex flex-col gap-2 px-3 py-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                  placeholder="Preset benennen..."
+                  maxLength={100}
+                  autoFocus
+                  className="border-pw-black/10 focus:border-pw-accent/40 w-full rounded-lg border bg-white px-2 py-1.5 text-xs focus:outline-none"
+                />
+                {prompt.trim() && (
+                  <label className="text-pw-black/70 flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={includePrompt}
+                      onChange={(e) => setIncludePrompt(e.target.checked)}
+                    />
+                    Prompt speichern
+                  </label>
+                )}
+                {referenceImage && (
+                  <label className="text-pw-black/70 flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={includeReferenceImage}
+                      onChange={(e) => setIncludeReferenceImage(e.target.checked)}
+                    />
+                    Referenzbild speichern
+                  </label>
+                )}
+                <label className="text-pw-black/70 flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={shareWithTeam}
+                    onChange={(e) => setShareWithTeam(e.target.checked)}
+                  />
+                  Mit Team teilen
+                </label>
+                {shareWithTeam && (
+                  <input
+                    type="text"
+                    value={teamId ?? ""}
+                    onChange={(e) => setTeamId(e.target.value.trim() || null)}
+                    placeholder="Team-ID"
+                    className="border-pw-black/10 focus:border-pw-accent/40 w-full rounded-lg border bg-white px-2 py-1.5 text-xs focus:outline-none"
+                  />
+                )}
+                {saveError && <p className="text-xs text-red-500">{saveError}</p>}
+                <div className="flex justify-end gap-1.5">
+                  <button
+                    onClick={() => setShowSaveForm(false)}
+                    className="text-pw-black/60 hover:bg-pw-black/5 rounded-lg px-2.5 py-1 text-xs"
+                  >
+                    Abbrechen
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={!name.trim() || isSaving}
+                    className="rounded-lg bg-pw-accent px-2.5 py-1 text-xs font-medium text-white disabled:opacity-50"
+                  >
+                    {isSaving ? "Speichern..." : "Speichern"}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowSaveForm(true)}
+                className="text-pw-black/70 hover:bg-pw-black/5 w-full px-3 py-2 text-left text-sm transition-colors"
+              >
+                <span className="flex items-center gap-2">
+                  <Plus className="h-3.5 w-3.5" />
+                  Aktuelle Einstellungen speichern
+                </span>
+              </button>
+            )}
           </div>
         )}
       </div>
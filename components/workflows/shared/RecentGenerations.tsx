@@ -1,7 +1,8 @@
 "use client";
 
-import { Clock, Download, Video, Sparkles, Trash2, Edit2 } from "lucide-react";
+import { Clock, Download, Video, Sparkles, Trash2, Edit2, Layers } from "lucide-react";
 import { useState } from "react";
+import Image from "next/image";
 
 interface Generation {
   id: string;
@@ -12,6 +13,44 @@ interface Generation {
   name?: string;
   type?: "image" | "video" | "render" | "upscale";
   sourceType?: "original" | "from_render" | "from_video";
+  metadata?: Record<string, unknown>;
+}
+
+type GenerationItem =
+  | { kind: "single"; generation: Generation }
+  | { kind: "batch"; batchId: string; generations: Generation[] };
+
+/**
+ * Groups the variants of a batch (same metadata.batchId) into one item,
+ * placed where the first variant appears
+ */
+function groupBatches(generations: Generation[]): GenerationItem[] {
+  const items: GenerationItem[] = [];
+  const batches = new Map<string, Generation[]>();
+
+  for (const generation of generations) {
+    const batchId = generation.metadata?.batchId;
+    if (typeof batchId !== "string") {
+      items.push({ kind: "single", generation });
+      continue;
+    }
+
+    const batch = batches.get(batchId);
+    if (batch) {
+      batch.push(generation);
+    } else {
+      const variants = [generation];
+      batches.set(batchId, variants);
+      items.push({ kind: "batch", batchId, generations: variants });
+    }
+  }
+
+  const batchIndex = (generation: Generation) => Number(generation.metadata?.batchIndex ?? 0);
+  for (const variants of batches.values()) {
+    variants.sort((a, b) => batchIndex(a) - batchIndex(b));
+  }
+
+  return items;
 }
 
 interface RecentGenerationsProps {
@@ -28,7 +67,7 @@ interface RecentGenerationsProps {
  * RecentGenerations Component
  *
  * Grid display of recently generated renders
- * Shows thumbnails with hover actions
+ * Shows thumbnails with hover actions, batch variants as one contact sheet
  */
 export function RecentGenerations({
   generations,
@@ -82,135 +121,192 @@ export function RecentGenerations({
 
       {/* Horizontal Scrollable Row - Larger cards with padding */}
       <div className="flex gap-3 overflow-x-auto flex-1 min-h-0 scrollbar-thin scrollbar-thumb-pw-black/20 scrollbar-track-transparent hover:scrollbar-thumb-pw-black/30 py-2 px-1">
-        {generations.map((gen) => (
-          <div
-            key={gen.id}
-            className="group relative flex-shrink-0 w-80 aspect-video bg-pw-black/5 rounded-xl overflow-hidden border border-pw-black/10 cursor-pointer hover:shadow-xl hover:scale-[1.02] transition-all hover:border-pw-accent/30"
-            onClick={() => onSelect?.(gen)}
-            onMouseEnter={() => setHoveredId(gen.id)}
-            onMouseLeave={() => setHoveredId(null)}
-          >
-            {/* Media - Image or Video */}
-            {gen.type === "video" ? (
-              <video
-                src={gen.imageUrl}
-                className="w-full h-full object-cover"
-                autoPlay
-                loop
-                muted
-                playsInline
-              />
-            ) : (
-              <img
-                src={gen.imageUrl}
-                alt={gen.prompt || "Generated render"}
-                className="w-full h-full object-cover"
-              />
-            )}
-
-            {/* Type Badge - Top Left */}
-            {(gen.type === "video" || gen.type === "upscale") && (
-              <div className="absolute top-3 left-3 z-10">
-                {gen.type === "video" ? (
+        {groupBatches(generations).map((item) => {
+          if (item.kind === "batch") {
+            const count = item.generations.length;
+            const columns =
+              count <= 4 ? "grid-cols-2" : count <= 9 ? "grid-cols-3" : "grid-cols-4";
+
+            return (
+              <div
+                key={item.batchId}
+                className="relative flex-shrink-0 w-80 aspect-video bg-pw-black/5 rounded-xl overflow-hidden border border-pw-black/10 hover:shadow-xl transition-all hover:border-pw-accent/30"
+              >
+                {/* Contact Sheet - one thumbnail per variant */}
+                <div className={`grid ${columns} auto-rows-fr gap-0.5 w-full h-full`}>
+                  {item.generations.map((variant) => {
+                    const label =
+                      typeof variant.metadata?.label === "string"
+                        ? variant.metadata.label
+                        : variant.prompt;
+
+                    return (
+                      <button
+                        key={variant.id}
+                        onClick={() => onSelect?.(variant)}
+                        className="relative min-h-0 overflow-hidden hover:opacity-80 transition-opacity"
+                        title={label}
+                      >
+                        <Image
+                          src={variant.imageUrl}
+                          alt={label || "Generated render"}
+                          fill
+                          unoptimized
+                          sizes="160px"
+                          className="object-cover"
+                        />
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {/* Batch Badge - Top Left */}
+                <div className="absolute top-3 left-3 z-10 pointer-events-none">
                   <div className="flex items-center gap-1.5 px-2.5 py-1 bg-pw-black/90 backdrop-blur-sm rounded-md">
-                    <Video className="w-3.5 h-3.5 text-white" />
-                    <span className="text-xs font-semibold text-white uppercase tracking-wide">
-                      Video
-                    </span>
-                  </div>
-                ) : (
-                  <div className="flex items-center gap-1.5 px-2.5 py-1 bg-pw-accent/90 backdrop-blur-sm rounded-md">
-                    <Sparkles className="w-3.5 h-3.5 text-white" />
+                    <Layers className="w-3.5 h-3.5 text-white" />
                     <span className="text-xs font-semibold text-white uppercase tracking-wide">
-                      Upscale
+                      Serie · {count}
                     </span>
                   </div>
-                )}
-              </div>
-            )}
-
-            {/* Overlay with Actions (visible on hover) - More transparent */}
-            {hoveredId === gen.id && (
-              <div className="absolute inset-0 bg-gradient-to-t from-white/95 via-white/60 to-transparent flex flex-col justify-between p-4">
-                {/* Top Actions */}
-                <div className="flex items-start justify-end gap-2">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onDelete?.(gen.id);
-                    }}
-                    className="p-2 bg-pw-black hover:bg-red-500 rounded-lg transition-colors shadow-lg"
-                    title="Löschen"
-                  >
-                    <Trash2 className="w-4 h-4 text-white" />
-                  </button>
                 </div>
+              </div>
+            );
+          }
 
-                {/* Bottom Info + Actions */}
-                <div className="flex flex-col gap-3">
-                  {/* Info - Black text */}
-                  <div>
-                    {gen.prompt && (
-                      <p className="text-sm font-semibold line-clamp-1 mb-1 text-pw-black">
-                        {gen.prompt}
-                      </p>
-                    )}
-                    <p className="text-xs text-pw-black/60">
-                      {formatTimeAgo(gen.timestamp)}
-                    </p>
-                  </div>
+          const gen = item.generation;
+          return (
+            <div
+              key={gen.id}
+              className="group relative flex-shrink-0 w-80 aspect-video bg-pw-black/5 rounded-xl overflow-hidden border border-pw-black/10 cursor-pointer hover:shadow-xl hover:scale-[1.02] transition-all hover:border-pw-accent/30"
+              onClick={() => onSelect?.(gen)}
+              onMouseEnter={() => setHoveredId(gen.id)}
+              onMouseLeave={() => setHoveredId(null)}
+            >
+              {/* Media - Image or Video */}
+              {gen.type === "video" ? (
+                <video
+                  src={gen.imageUrl}
+                  className="w-full h-full object-cover"
+                  autoPlay
+                  loop
+                  muted
+                  playsInline
+                />
+              ) : (
+                <Image
+                  src={gen.imageUrl}
+                  alt={gen.prompt || "Generated render"}
+                  fill
+                  unoptimized
+                  sizes="320px"
+                  className="object-cover"
+                />
+              )}
 
-                  {/* Action Buttons - More visible */}
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onEdit?.(gen);
-                      }}
-                      className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-pw-accent hover:bg-pw-accent/90 text-white text-xs font-semibold rounded-lg transition-all shadow-lg hover:shadow-xl"
-                      title="Bearbeiten"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                      Edit
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onCreateVideo?.(gen);
-                      }}
-                      className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-pw-black hover:bg-pw-black/90 text-white text-xs font-semibold rounded-lg transition-all shadow-lg hover:shadow-xl"
-                      title="Video erstellen"
-                    >
-                      <Video className="w-4 h-4" />
-                      Video
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onUpscale?.(gen);
-                      }}
-                      className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-white hover:bg-pw-black/5 text-pw-black text-xs font-semibold rounded-lg transition-all border border-pw-black/20 shadow-md hover:shadow-lg"
-                      title="Upscale"
-                    >
-                      <Sparkles className="w-4 h-4" />
-                      2x
-                    </button>
+              {/* Type Badge - Top Left */}
+              {(gen.type === "video" || gen.type === "upscale") && (
+                <div className="absolute top-3 left-3 z-10">
+                  {gen.type === "video" ? (
+                    <div className="flex items-center gap-1.5 px-2.5 py-1 bg-pw-black/90 backdrop-blur-sm rounded-md">
+                      <Video className="w-3.5 h-3.5 text-white" />
+                      <span className="text-xs font-semibold text-white uppercase tracking-wide">
+                        Video
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1.5 px-2.5 py-1 bg-pw-accent/90 backdrop-blur-sm rounded-md">
+                      <Sparkles className="w-3.5 h-3.5 text-white" />
+                      <span className="text-xs font-semibold text-white uppercase tracking-wide">
+                        Upscale
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Overlay with Actions (visible on hover) - More transparent */}
+              {hoveredId === gen.id && (
+                <div className="absolute inset-0 bg-gradient-to-t from-white/95 via-white/60 to-transparent flex flex-col justify-between p-4">
+                  {/* Top Actions */}
+                  <div className="flex items-start justify-end gap-2">
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        onDownload?.(gen);
+                        onDelete?.(gen.id);
                       }}
-                      className="p-2 bg-white hover:bg-pw-black/5 rounded-lg transition-all border border-pw-black/20 shadow-md hover:shadow-lg"
-                      title="Download"
+                      className="p-2 bg-pw-black hover:bg-red-500 rounded-lg transition-colors shadow-lg"
+                      title="Löschen"
                     >
-                      <Download className="w-4 h-4 text-pw-black" />
+                      <Trash2 className="w-4 h-4 text-white" />
                     </button>
                   </div>
+
+                  {/* Bottom Info + Actions */}
+                  <div className="flex flex-col gap-3">
+                    {/* Info - Black text */}
+                    <div>
+                      {gen.prompt && (
+                        <p className="text-sm font-semibold line-clamp-1 mb-1 text-pw-black">
+                          {gen.prompt}
+                        </p>
+                      )}
+                      <p className="text-xs text-pw-black/60">
+                        {formatTimeAgo(gen.timestamp)}
+                      </p>
+                    </div>
+
+                    {/* Action Buttons - More visible */}
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEdit?.(gen);
+                        }}
+                        className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-pw-accent hover:bg-pw-accent/90 text-white text-xs font-semibold rounded-lg transition-all shadow-lg hover:shadow-xl"
+                        title="Bearbeiten"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onCreateVideo?.(gen);
+                        }}
+                        className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-pw-black hover:bg-pw-black/90 text-white text-xs font-semibold rounded-lg transition-all shadow-lg hover:shadow-xl"
+                        title="Video erstellen"
+                      >
+                        <Video className="w-4 h-4" />
+                        Video
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onUpscale?.(gen);
+                        }}
+                        className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-white hover:bg-pw-black/5 text-pw-black text-xs font-semibold rounded-lg transition-all border border-pw-black/20 shadow-md hover:shadow-lg"
+                        title="Upscale"
+                      >
+                        <Sparkles className="w-4 h-4" />
+                        2x
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDownload?.(gen);
+                        }}
+                        className="p-2 bg-white hover:bg-pw-black/5 rounded-lg transition-all border border-pw-black/20 shadow-md hover:shadow-lg"
+                        title="Download"
+                      >
+                        <Download className="w-4 h-4 text-pw-black" />
+                      </button>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        ))}
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
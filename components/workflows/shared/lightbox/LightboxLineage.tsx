@@ -0,0 +1,177 @@
+/**
+ * LightboxLineage Component
+ *
+ * Derivation tree of a generation (sketch → render → edit → upscale → video):
+ * jump to any ancestor or descendant, compare siblings and branch a new edit.
+ */
+
+"use client";
+
+import Image from "next/image";
+import { Columns2, GitBranch, ImageIcon, Video } from "lucide-react";
+import type { WorkflowGeneration } from "@/lib/utils/workflowDatabase";
+import {
+  getLineagePath,
+  type GenerationLineage,
+  type GenerationLineageNode,
+} from "@/lib/utils/workflowLineage";
+
+interface LightboxLineageProps {
+  lineage: GenerationLineage;
+  currentId: string;
+  compareId: string | null;
+  onSelect: (generation: WorkflowGeneration) => void;
+  onCompare: (generation: WorkflowGeneration | null) => void;
+  onBranch?: (generation: WorkflowGeneration) => void;
+}
+
+function getNodeLabel(generation: WorkflowGeneration): string {
+  if (generation.type === "video") return "Video";
+  if (generation.type === "upscale") return "Upscale";
+  return generation.source_type === "from_render" ? "Edit" : "Rendering";
+}
+
+function NodeThumbnail({ generation }: { generation: WorkflowGeneration }) {
+  if (generation.type === "video") {
+    return (
+      <div className="bg-pw-black/10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded">
+        <Video className="text-pw-black/60 h-4 w-4" />
+      </div>
+    );
+  }
+
+  return (
+    <Image
+      src={generation.thumbnail_url || generation.url}
+      alt={generation.name}
+      width={32}
+      height={32}
+      unoptimized
+      className="border-pw-black/10 h-8 w-8 flex-shrink-0 rounded border object-cover"
+    />
+  );
+}
+
+export function LightboxLineage({
+  lineage,
+  currentId,
+  compareId,
+  onSelect,
+  onCompare,
+  onBranch,
+}: LightboxLineageProps) {
+  const path = getLineagePath(lineage.root, currentId) ?? [];
+  const pathIds = new Set(path.map((node) => String(node.generation.id)));
+  const current = path[path.length - 1];
+  const parent = path[path.length - 2];
+  const siblings = (parent?.children ?? []).filter(
+    (node) => String(node.generation.id) !== currentId
+  );
+
+  const renderNode = (node: GenerationLineageNode, depth: number) => {
+    const id = String(node.generation.id);
+    const isCurrent = id === currentId;
+
+    return (
+      <div key={id}>
+        <button
+          onClick={() => onSelect(node.generation)}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          className={`flex w-full items-center gap-2 rounded-lg py-1.5 pr-2 text-left transition-colors ${
+            isCurrent
+              ? "bg-pw-accent/10 text-pw-black"
+              : pathIds.has(id)
+                ? "hover:bg-pw-black/5 text-pw-black"
+                : "text-pw-black/60 hover:bg-pw-black/5"
+          }`}
+        >
+          <NodeThumbnail generation={node.generation} />
+          <span className="min-w-0 flex-1">
+            <span className="block text-xs font-medium">{getNodeLabel(node.generation)}</span>
+            <span className="text-pw-black/50 block text-[10px]">
+              {new Date(node.generation.created_at).toLocaleString("de-DE", {
+                day: "2-digit",
+                month: "2-digit",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </span>
+          </span>
+          {isCurrent && <span className="h-1.5 w-1.5 flex-shrink-0 rounded-full bg-pw-accent" />}
+        </button>
+        {node.children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border-pw-black/10 mt-4 border-t pt-4">
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-pw-black/60 text-xs uppercase tracking-wide">Verlauf</p>
+        {current && onBranch && (
+          <button
+            onClick={() => onBranch(current.generation)}
+            className="bg-pw-black/10 hover:bg-pw-black/20 flex items-center gap-1.5 rounded-full px-2 py-1 text-xs text-pw-black transition-all"
+            title="Neue Bearbeitung von dieser Version starten"
+          >
+            <GitBranch className="h-3.5 w-3.5" />
+            Von hier bearbeiten
+          </button>
+        )}
+      </div>
+
+      {/* Input image of the root generation (e.g. sketch) */}
+      {lineage.sourceImage && (
+        <div className="text-pw-black/60 flex items-center gap-2 px-2 py-1.5">
+          <Image
+            src={lineage.sourceImage}
+            alt="Input"
+            width={32}
+            height={32}
+            unoptimized
+            className="border-pw-black/10 h-8 w-8 flex-shrink-0 rounded border object-cover"
+          />
+          <span className="flex items-center gap-1 text-xs">
+            <ImageIcon className="h-3 w-3" />
+            Input Bild
+          </span>
+        </div>
+      )}
+
+      {renderNode(lineage.root, lineage.sourceImage ? 1 : 0)}
+
+      {/* Siblings (other variants of the same parent) */}
+      {siblings.length > 0 && (
+        <div className="border-pw-black/10 mt-3 border-t pt-3">
+          <p className="text-pw-black/60 mb-2 text-xs uppercase tracking-wide">
+            Varianten vergleichen
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {siblings.map((node) => {
+              const id = String(node.generation.id);
+              const isCompared = id === compareId;
+
+              return (
+                <button
+                  key={id}
+                  onClick={() => onCompare(isCompared ? null : node.generation)}
+                  className={`relative overflow-hidden rounded-lg border-2 transition-all ${
+                    isCompared ? "border-pw-accent" : "hover:border-pw-black/20 border-transparent"
+                  }`}
+                  title={isCompared ? "Vergleich beenden" : "Vergleichen"}
+                >
+                  <NodeThumbnail generation={node.generation} />
+                  {isCompared && (
+                    <span className="bg-pw-accent/40 absolute inset-0 flex items-center justify-center">
+                      <Columns2 className="h-3.5 w-3.5 text-white" />
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
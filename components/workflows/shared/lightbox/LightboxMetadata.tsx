@@ -6,6 +6,7 @@
 
 "use client";
 
+import type { ReactNode } from "react";
 import { Download, Calendar, Sparkles, ImageIcon } from "lucide-react";
 import { SketchToRenderSettingsType } from "@/types/workflows/sketchToRenderSettings";
 import { formatDate, getModelName, getSettingLabel } from "@/utils/lightboxHelpers";
@@ -25,9 +26,11 @@ interface RenderItem {
 interface LightboxMetadataProps {
   item: RenderItem;
   onDownload: () => void;
+  /** Additional sections below the details (e.g. lineage) */
+  children?: ReactNode;
 }
 
-export function LightboxMetadata({ item, onDownload }: LightboxMetadataProps) {
+export function LightboxMetadata({ item, onDownload, children }: LightboxMetadataProps) {
   const modelName = getModelName(item.type);
 
   return (
@@ -175,6 +178,8 @@ export function LightboxMetadata({ item, onDownload }: LightboxMetadataProps) {
             <p className="text-pw-black/80 text-sm leading-relaxed">{item.enhancedPrompt}</p>
           </div>
         )}
+
+        {children}
       </div>
     </div>
   );
@@ -1,17 +1,23 @@
 /**
  * WorkflowLightbox Component
  *
- * Main lightbox orchestrator for displaying workflow results with navigation and metadata.
+ * Main lightbox orchestrator for displaying workflow results with navigation, metadata
+ * and the lineage of saved generations.
  */
 
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { workflowLogger } from "@/lib/logger";
 import { SketchToRenderSettingsType } from "@/types/workflows/sketchToRenderSettings";
+import { useGenerationLineage } from "@/hooks/workflows/common/useGenerationLineage";
+import { getLineagePath } from "@/lib/utils/workflowLineage";
+import type { WorkflowGeneration } from "@/lib/utils/workflowDatabase";
+import type { LightboxItem } from "@/hooks/workflows/common/useWorkflowLightbox";
 import { LightboxImage } from "./LightboxImage";
 import { LightboxNavigation } from "./LightboxNavigation";
 import { LightboxMetadata } from "./LightboxMetadata";
+import { LightboxLineage } from "./LightboxLineage";
 
 interface RenderItem {
   id: string;
@@ -25,6 +31,18 @@ interface RenderItem {
   sourceImageUrl?: string;
 }
 
+function toLightboxItem(generation: WorkflowGeneration): LightboxItem {
+  return {
+    id: String(generation.id),
+    imageUrl: generation.url,
+    timestamp: new Date(generation.created_at),
+    name: generation.name,
+    prompt: generation.prompt,
+    type: generation.type,
+    sourceImageUrl: generation.source_image,
+  };
+}
+
 interface WorkflowLightboxProps {
   isOpen: boolean;
   item: RenderItem;
@@ -33,6 +51,12 @@ interface WorkflowLightboxProps {
   hasNext?: boolean;
   hasPrev?: boolean;
   onDownload?: (item: RenderItem) => void;
+  /** Workflow slug, shows the lineage of saved generations */
+  workflowType?: string;
+  /** Jump to a generation of the lineage */
+  onSelectGeneration?: (item: LightboxItem) => void;
+  /** Start a new edit from a generation of the lineage */
+  onBranch?: (item: LightboxItem) => void;
 }
 
 export function WorkflowLightbox({
@@ -43,8 +67,24 @@ export function WorkflowLightbox({
   hasNext,
   hasPrev,
   onDownload,
+  workflowType,
+  onSelectGeneration,
+  onBranch,
 }: WorkflowLightboxProps) {
   const downloadAbortControllerRef = useRef<AbortController | null>(null);
+  const [compareItem, setCompareItem] = useState<RenderItem | null>(null);
+
+  // Lineage is only reloaded when the item is not part of the loaded tree
+  const [lineageId, setLineageId] = useState<string | null>(item?.id ?? null);
+  const { lineage } = useGenerationLineage(workflowType, lineageId);
+
+  useEffect(() => {
+    if (!item) return;
+    if (!lineage || !getLineagePath(lineage.root, item.id)) {
+      setLineageId(item.id);
+    }
+    setCompareItem(null);
+  }, [item, lineage]);
 
   // Guard: Return early if item is undefined
   if (!item) {
@@ -150,7 +190,19 @@ export function WorkflowLightbox({
       {/* Main Content */}
       <div className="flex items-center justify-center gap-8 h-full w-full px-20 py-16">
         <LightboxImage imageUrl={item.imageUrl} />
-        <LightboxMetadata item={item} onDownload={handleDownloadClick} />
+        {compareItem && <LightboxImage imageUrl={compareItem.imageUrl} />}
+        <LightboxMetadata item={item} onDownload={handleDownloadClick}>
+          {lineage && getLineagePath(lineage.root, item.id) && (
+            <LightboxLineage
+              lineage={lineage}
+              currentId={item.id}
+              compareId={compareItem?.id ?? null}
+              onSelect={(generation) => onSelectGeneration?.(toLightboxItem(generation))}
+              onCompare={(generation) => setCompareItem(generation ? toLightboxItem(generation) : null)}
+              onBranch={onBranch ? (generation) => onBranch(toLightboxItem(generation)) : undefined}
+            />
+          )}
+        </LightboxMetadata>
       </div>
     </div>
   );
@@ -8,3 +8,4 @@ export { WorkflowLightbox } from './WorkflowLightbox';
 export { LightboxImage } from './LightboxImage';
 export { LightboxMetadata } from './LightboxMetadata';
 export { LightboxNavigation } from './LightboxNavigation';
+export { LightboxLineage } from './LightboxLineage';
@@ -2,11 +2,12 @@
  * EditModePanel Component
  *
  * Edit mode with prompt textarea for image modifications.
+ * Optional mask mode limits the edit to a painted region of the image.
  */
 
 "use client";
 
-import { Edit2, Send, Plus, X } from "lucide-react";
+import { Edit2, Send, Plus, X, Brush, Eraser } from "lucide-react";
 import { useState, useRef } from "react";
 
 interface EditModePanelProps {
@@ -15,6 +16,12 @@ interface EditModePanelProps {
   onModeToggle: () => void;
   onEditPromptChange: (prompt: string) => void;
   onEdit: (referenceImages?: string[]) => void;
+  isMasking: boolean;
+  hasMask: boolean;
+  brushSize: number;
+  onMaskingToggle: () => void;
+  onBrushSizeChange: (size: number) => void;
+  onClearMask: () => void;
 }
 
 export function EditModePanel({
@@ -23,6 +30,12 @@ export function EditModePanel({
   onModeToggle,
   onEditPromptChange,
   onEdit,
+  isMasking,
+  hasMask,
+  brushSize,
+  onMaskingToggle,
+  onBrushSizeChange,
+  onClearMask,
 }: EditModePanelProps) {
   const [referenceImages, setReferenceImages] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -81,7 +94,7 @@ export function EditModePanel({
       {/* Edit Prompt Field - Slides down directly under Edit Button */}
       <div
         className={`transition-all duration-300 ease-in-out ${
-          mode === "edit" ? "max-h-[200px] opacity-100" : "max-h-0 opacity-0 overflow-hidden"
+          mode === "edit" ? "max-h-[320px] opacity-100" : "max-h-0 opacity-0 overflow-hidden"
         }`}
       >
         <div className="flex flex-col gap-2 px-0.5">
@@ -89,6 +102,49 @@ export function EditModePanel({
             Bearbeitungs-Prompt
           </label>
 
+          {/* Mask Controls - paint over the image to edit only that region */}
+          <div className="flex items-center gap-1.5">
+            <button
+              onClick={onMaskingToggle}
+              className={`flex items-center gap-1.5 px-2 py-1 text-[10px] font-medium rounded-md transition-all ${
+                isMasking
+                  ? "bg-pw-black text-white"
+                  : "bg-pw-black/5 hover:bg-pw-black/10 text-pw-black/70"
+              }`}
+              title="Nur den übermalten Bereich bearbeiten"
+            >
+              <Brush className="w-3 h-3" />
+              Bereich maskieren
+            </button>
+            {isMasking && hasMask && (
+              <button
+                onClick={onClearMask}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium rounded-md bg-pw-black/5 hover:bg-pw-black/10 text-pw-black/70 transition-all"
+                title="Maske löschen"
+              >
+                <Eraser className="w-3 h-3" />
+                Maske löschen
+              </button>
+            )}
+          </div>
+
+          {isMasking && (
+            <div className="flex items-center gap-2">
+              <label className="text-[9px] font-medium text-pw-black/50 uppercase tracking-wide whitespace-nowrap">
+                Pinsel
+              </label>
+              <input
+                type="range"
+                min={10}
+                max={120}
+                value={brushSize}
+                onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+                className="flex-1 accent-pw-black"
+              />
+              <span className="text-[10px] text-pw-black/50 w-8 text-right">{brushSize}px</span>
+            </div>
+          )}
+
           {/* Reference Images Preview */}
           {referenceImages.length > 0 && (
             <div className="flex flex-wrap gap-1.5 pb-1">
@@ -0,0 +1,110 @@
+/**
+ * MaskCanvas Component
+ *
+ * Paintable overlay for masked (inpainting) edits. The canvas has the natural size of
+ * the image, so the exported mask (white = edit, black = keep) matches it pixel for pixel.
+ */
+
+"use client";
+
+import { useRef } from "react";
+
+interface MaskCanvasProps {
+  width: number;
+  height: number;
+  /** Brush diameter in screen pixels */
+  brushSize: number;
+  onMaskChange: (mask: string) => void;
+}
+
+const STROKE_COLOR = "#ef4444";
+
+export function MaskCanvas({ width, height, brushSize, onMaskChange }: MaskCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Maps a pointer position to image pixels (the canvas is object-contain scaled)
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+
+    return {
+      x: (e.clientX - rect.left - offsetX) / scale,
+      y: (e.clientY - rect.top - offsetY) / scale,
+      scale,
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const { x, y, scale } = getPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.lineWidth = brushSize / scale;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+
+    lastPointRef.current = { x, y };
+  };
+
+  // Painted strokes become white on a black background
+  const exportMask = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const maskCanvas = document.createElement("canvas");
+    maskCanvas.width = width;
+    maskCanvas.height = height;
+    const ctx = maskCanvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.drawImage(canvas, 0, 0);
+    ctx.globalCompositeOperation = "source-in";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, width, height);
+
+    onMaskChange(maskCanvas.toDataURL("image/png"));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    drawTo(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    exportMask();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 h-full w-full cursor-crosshair touch-none object-contain opacity-50"
+    />
+  );
+}
@@ -2,11 +2,15 @@
  * ResultDisplay Component
  *
  * Displays the result (image/video), loading state, or empty state.
+ * In mask mode a paintable MaskCanvas is laid over the image.
  */
 
 "use client";
 
+import { useState } from "react";
+import Image from "next/image";
 import { Loader2, Sparkles } from "lucide-react";
+import { MaskCanvas } from "./MaskCanvas";
 
 interface ResultDisplayProps {
   imageUrl: string | null;
@@ -14,6 +18,11 @@ interface ResultDisplayProps {
   isGenerating: boolean;
   generatingType?: "render" | "video" | "upscale" | "edit";
   onImageClick?: () => void;
+  isMasking?: boolean;
+  brushSize?: number;
+  /** Changing the key clears the painted mask */
+  maskKey?: number;
+  onMaskChange?: (mask: string) => void;
 }
 
 export function ResultDisplay({
@@ -22,7 +31,18 @@ export function ResultDisplay({
   isGenerating,
   generatingType,
   onImageClick,
+  isMasking = false,
+  brushSize = 40,
+  maskKey = 0,
+  onMaskChange,
 }: ResultDisplayProps) {
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setImageSize({ width: naturalWidth, height: naturalHeight });
+  };
+
   return (
     <div className="flex-[3] min-w-0">
       <div className={`relative w-full h-full flex items-center justify-center bg-gradient-to-br from-pw-black/5 to-pw-black/10 rounded-lg ${
@@ -57,10 +77,35 @@ export function ResultDisplay({
             playsInline
             controls
           />
+        ) : isMasking && onMaskChange ? (
+          // Mask Mode - canvas covers the image with the same object-contain scaling
+          <div className="relative w-full h-full">
+            <Image
+              src={imageUrl}
+              alt="Generated render"
+              onLoad={handleImageLoad}
+              fill
+              unoptimized
+              sizes="75vw"
+              className="object-contain"
+            />
+            {imageSize && (
+              <MaskCanvas
+                key={maskKey}
+                width={imageSize.width}
+                height={imageSize.height}
+                brushSize={brushSize}
+                onMaskChange={onMaskChange}
+              />
+            )}
+          </div>
         ) : (
+          // Intrinsic size keeps the border tight around the result (not possible with fill)
+          // eslint-disable-next-line @next/next/no-img-element
           <img
             src={imageUrl}
             alt="Generated render"
+            onLoad={handleImageLoad}
             onClick={onImageClick}
             className="max-w-full max-h-full object-contain border border-pw-black/20 rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
           />
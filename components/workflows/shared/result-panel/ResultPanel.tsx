@@ -26,7 +26,7 @@ interface ResultPanelProps {
   onCrop?: () => void;
   renderName?: string;
   onRenderNameChange?: (name: string) => void;
-  onEdit?: (editPrompt: string, referenceImages?: string[]) => void;
+  onEdit?: (editPrompt: string, referenceImages?: string[], mask?: string) => void;
   onImageClick?: () => void;
 }
 
@@ -50,11 +50,35 @@ export function ResultPanel({
   const [editPrompt, setEditPrompt] = useState("");
   const [videoPrompt, setVideoPrompt] = useState("");
   const [videoDuration, setVideoDuration] = useState<5 | 10>(5);
+  const [isMasking, setIsMasking] = useState(false);
+  const [brushSize, setBrushSize] = useState(40);
+  const [mask, setMask] = useState<string | null>(null);
+  const [maskKey, setMaskKey] = useState(0);
+
+  const handleClearMask = () => {
+    setMask(null);
+    setMaskKey((key) => key + 1);
+  };
+
+  const handleMaskingToggle = () => {
+    if (isMasking) {
+      handleClearMask();
+    }
+    setIsMasking(!isMasking);
+  };
+
+  const handleEditModeToggle = () => {
+    if (mode === "edit" && isMasking) {
+      handleMaskingToggle();
+    }
+    setMode(mode === "edit" ? "idle" : "edit");
+  };
 
   const handleEdit = (referenceImages?: string[]) => {
     if (editPrompt.trim() && onEdit) {
-      onEdit(editPrompt, referenceImages);
+      onEdit(editPrompt, referenceImages, isMasking && mask ? mask : undefined);
       setEditPrompt("");
+      handleClearMask();
     }
   };
 
@@ -90,6 +114,10 @@ export function ResultPanel({
           isGenerating={isGenerating}
           generatingType={generatingType}
           onImageClick={onImageClick}
+          isMasking={mode === "edit" && isMasking}
+          brushSize={brushSize}
+          maskKey={maskKey}
+          onMaskChange={setMask}
         />
 
         {/* Right: Action Controls Panel */}
@@ -113,9 +141,15 @@ export function ResultPanel({
               <EditModePanel
                 mode={mode}
                 editPrompt={editPrompt}
-                onModeToggle={() => setMode(mode === "edit" ? "idle" : "edit")}
+                onModeToggle={handleEditModeToggle}
                 onEditPromptChange={setEditPrompt}
                 onEdit={handleEdit}
+                isMasking={isMasking}
+                hasMask={!!mask}
+                brushSize={brushSize}
+                onMaskingToggle={handleMaskingToggle}
+                onBrushSizeChange={setBrushSize}
+                onClearMask={handleClearMask}
               />
 
               {/* Result Actions (Upscale, Crop, Download, Name Input) */}
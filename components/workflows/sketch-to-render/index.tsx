@@ -1,2 +1,3 @@
 export { SketchToRenderPromptInput } from './SketchToRenderPromptInput';
 export { SketchToRenderSettings } from './SketchToRenderSettings';
+export { SKETCH_TO_RENDER_PRESETS } from './sketchToRenderPresets';
@@ -0,0 +1,18 @@
+import { Building2, Home, TreePine, Sparkles, Shapes, Minimize2 } from "lucide-react";
+import {
+  SketchToRenderSettingsType,
+  PRESET_CONFIGURATIONS,
+} from "@/types/workflows/sketchToRenderSettings";
+import type { BuiltInPreset } from "@/components/workflows/shared/PresetsBar";
+
+/**
+ * Built-in presets of the Sketch-to-Render workflow (settings from PRESET_CONFIGURATIONS)
+ */
+export const SKETCH_TO_RENDER_PRESETS: BuiltInPreset<SketchToRenderSettingsType>[] = [
+  { value: "architektur", label: "Architektur", icon: Building2 },
+  { value: "interior", label: "Interior", icon: Home },
+  { value: "exterior", label: "Exterior", icon: TreePine },
+  { value: "modern", label: "Modern", icon: Sparkles },
+  { value: "classical", label: "Classical", icon: Shapes },
+  { value: "minimalist", label: "Minimalist", icon: Minimize2 },
+].map((preset) => ({ ...preset, settings: PRESET_CONFIGURATIONS[preset.value]! }));
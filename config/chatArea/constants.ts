@@ -52,22 +52,6 @@ export const DEFAULT_IMAGE_SETTINGS: ImageSettingsType = {
   numImages: 1,
 };
 
-/**
- * Video model duration constraints
- */
-export const VIDEO_DURATIONS = {
-  sora2: ["4", "8", "12"],
-  kling: ["5", "10"],
-} as const;
-
-/**
- * Default durations for each video model
- */
-export const VIDEO_DEFAULT_DURATIONS = {
-  sora2: "4",
-  kling: "5",
-} as const;
-
 /**
  * Video generation metadata
  */
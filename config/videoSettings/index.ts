@@ -3,6 +3,9 @@
  * Central export and helper functions for video model configurations
  */
 
+import VideoProviderRegistry from '@/lib/video/providers/ProviderRegistry';
+import type { UIVideoModel, VideoModel as APIVideoModel } from '@/types/video';
+
 // Export all Kling configurations
 export {
   KLING_DURATIONS,
@@ -27,14 +30,16 @@ export {
   type SoraAspectRatioWithAuto
 } from './sora';
 
-// Video model type
-export type VideoModel = 'kling' | 'sora2';
+// Video model type (UI model names, e.g. 'kling' | 'sora2')
+export type VideoModel = UIVideoModel;
 
 // Video configuration interface
 export interface VideoConfig {
   durations: readonly { value: string; label: string }[];
   aspectRatios: readonly { value: string; label: string }[];
   aspectRatiosWithImage: readonly { value: string; label: string }[];
+  modes: readonly { value: string; label: string }[];
+  defaultDuration: string;
   hasModes: boolean;
   hasCameraMovement: boolean;
   hasAudio: boolean;
@@ -43,8 +48,10 @@ export interface VideoConfig {
 
 /**
  * Get complete video configuration based on the selected model
+ * Derived from the provider definition in the video provider registry;
+ * unknown models fall back to the first registered provider.
  *
- * @param model - The video model to get configuration for ('kling' | 'sora2')
+ * @param model - The video model to get configuration for ('kling' | 'sora2' | ...)
  * @returns Complete configuration object for the specified model
  *
  * @example
@@ -55,30 +62,82 @@ export interface VideoConfig {
  * ```
  */
 export function getVideoConfig(model: VideoModel): VideoConfig {
-  if (model === 'sora2') {
-    return {
-      durations: SORA_DURATIONS,
-      aspectRatios: SORA_ASPECT_RATIOS,
-      aspectRatiosWithImage: SORA_ASPECT_RATIOS_WITH_AUTO,
-      hasModes: false,
-      hasCameraMovement: false,
-      hasAudio: true,
-      supports1x1: false // Sora 2 does NOT support 1:1 aspect ratio
-    };
+  const definition =
+    VideoProviderRegistry.getByUiModel(model) ?? VideoProviderRegistry.list()[0];
+  if (!definition) {
+    throw new Error(`Unknown video model: ${model}`);
   }
+  const { capabilities, constraints } = definition;
 
-  // Default: Kling AI
   return {
-    durations: KLING_DURATIONS,
-    aspectRatios: KLING_ASPECT_RATIOS,
-    aspectRatiosWithImage: KLING_ASPECT_RATIOS_WITH_ORIGINAL,
-    hasModes: true,
-    hasCameraMovement: true,
-    hasAudio: false,
-    supports1x1: true // Kling supports 1:1 aspect ratio
+    durations: capabilities.durations,
+    aspectRatios: capabilities.aspectRatios,
+    aspectRatiosWithImage: capabilities.imageAspectRatios,
+    modes: capabilities.modes,
+    defaultDuration: constraints.defaults.duration,
+    hasModes: capabilities.modes.length > 0,
+    hasCameraMovement: capabilities.cameraMovement,
+    hasAudio: capabilities.audio,
+    supports1x1: capabilities.aspectRatios.some((option) => option.value === '1:1'),
   };
 }
 
+/**
+ * Get the UI models of all registered video providers (model picker order)
+ */
+export function getVideoModelOptions(): { id: VideoModel; name: string; version: string }[] {
+  return VideoProviderRegistry.list().map((definition) => ({
+    id: definition.uiModel,
+    name: definition.name,
+    version: definition.version,
+  }));
+}
+
+/**
+ * Get the display name for an API video model (e.g. "Payperwork Move v1")
+ *
+ * @param model - The API model name ('payperwork-v1' | 'payperwork-v2' | ...)
+ * @returns Display name, or the model name itself if it is not registered
+ */
+export function getVideoModelDisplayName(model: APIVideoModel): string {
+  const definition = VideoProviderRegistry.get(model);
+  if (!definition) return model;
+  return `${definition.name} ${definition.version.replace(/^v\./, 'v')}`;
+}
+
+/**
+ * Estimate how long a generation takes (for queue progress UI)
+ *
+ * @param model - The API model name
+ * @param settings - Requested duration and mode
+ * @returns Estimated generation time in minutes
+ */
+export function estimateGenerationMinutes(
+  model: APIVideoModel,
+  settings: { duration?: string; mode?: string }
+): number {
+  const definition = VideoProviderRegistry.get(model);
+  const duration = parseInt(settings.duration || definition?.constraints.defaults.duration || '5');
+
+  if (definition?.provider === 'fal') {
+    // fal.ai Sora 2 is fast: ~30 seconds to 1 minute
+    return duration <= 4 ? 0.5 : 1;
+  }
+
+  // Kling AI (and default): depends on mode and duration
+  return duration * (settings.mode === 'pro' ? 1.6 : 1.2);
+}
+
+/**
+ * Get quality mode options based on the selected model
+ *
+ * @param model - The video model to get modes for
+ * @returns Array of mode options (empty if the model has no modes)
+ */
+export function getModeOptions(model: VideoModel) {
+  return getVideoConfig(model).modes;
+}
+
 /**
  * Get duration options based on the selected model
  *
@@ -127,18 +186,3 @@ export function hasFeature(
       return false;
   }
 }
-
-// Import statements for re-export
-import {
-  KLING_DURATIONS,
-  KLING_ASPECT_RATIOS,
-  KLING_ASPECT_RATIOS_WITH_ORIGINAL,
-  // KLING_MODES,
-  // KLING_CAMERA_MOVEMENTS
-} from './kling';
-
-import {
-  SORA_DURATIONS,
-  SORA_ASPECT_RATIOS,
-  SORA_ASPECT_RATIOS_WITH_AUTO
-} from './sora';
@@ -17,9 +17,8 @@ import {
   DEFAULT_VIDEO_MODEL,
   DEFAULT_VIDEO_SETTINGS,
   DEFAULT_IMAGE_SETTINGS,
-  VIDEO_DURATIONS,
-  VIDEO_DEFAULT_DURATIONS,
 } from "@/config/chatArea";
+import { getVideoConfig } from "@/config/videoSettings";
 
 export function useChatMode() {
   const [mode, setMode] = useState<"chat" | "image" | "video">(DEFAULT_CHAT_MODE);
@@ -33,13 +32,23 @@ export function useChatMode() {
 
   // Update video settings when video model changes
   useEffect(() => {
-    const validDurations = VIDEO_DURATIONS[selectedVideoModel];
-    const defaultDuration = VIDEO_DEFAULT_DURATIONS[selectedVideoModel];
+    const config = getVideoConfig(selectedVideoModel);
 
-    if (!(validDurations as readonly string[]).includes(videoSettings.duration)) {
-      setVideoSettings(prev => ({ ...prev, duration: defaultDuration }));
+    if (!config.durations.some(option => option.value === videoSettings.duration)) {
+      setVideoSettings(prev => ({
+        ...prev,
+        duration: config.defaultDuration as VideoSettingsType["duration"],
+      }));
     }
-  }, [selectedVideoModel, videoSettings.duration]);
+
+    const validAspectRatios = [...config.aspectRatios, ...config.aspectRatiosWithImage];
+    if (!validAspectRatios.some(option => option.value === videoSettings.aspectRatio)) {
+      setVideoSettings(prev => ({
+        ...prev,
+        aspectRatio: config.aspectRatios[0]?.value as VideoSettingsType["aspectRatio"],
+      }));
+    }
+  }, [selectedVideoModel, videoSettings.duration, videoSettings.aspectRatio]);
 
   // Request notification permission when entering video mode
   useEffect(() => {
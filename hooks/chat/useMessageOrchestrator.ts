@@ -78,7 +78,7 @@ interface UseMessageOrchestratorParams {
       duration?: string,
       aspectRatio?: string
     ) => void;
-    updateQueueTaskId: (messageId: string, taskId: string) => void;
+    updateQueueTaskId: (messageId: string, taskId: string, model?: APIVideoModel) => void;
     markVideoCompleted: (messageId: string, videoUrl: string) => void;
     removeFromQueue: (messageId: string) => void;
     setIsGenerating: (generating: boolean) => void;
@@ -96,7 +96,7 @@ interface UseMessageOrchestratorParams {
     duration?: string,
     aspectRatio?: string
   ) => void;
-  updateQueueTaskId: (messageId: string, taskId: string) => void;
+  updateQueueTaskId: (messageId: string, taskId: string, model?: APIVideoModel) => void;
   markVideoCompleted: (messageId: string, videoUrl: string) => void;
   removeFromQueue: (messageId: string) => void;
 }
@@ -4,6 +4,9 @@ import { VideoModel as UIVideoModel } from "@/components/chat/Chat/ChatHeader";
 import { VideoModel as APIVideoModel } from "@/types/video";
 import { Message, Attachment } from "@/types/chat";
 import { addCameraMovementToPrompt } from "@/utils/cameraPrompts";
+import VideoProviderRegistry from "@/lib/video/providers/ProviderRegistry";
+import { estimateGenerationMinutes, getVideoModelDisplayName } from "@/config/videoSettings";
+import { getUserIdSync } from "@/lib/supabase/insert-helper";
 import { getErrorMessage } from "@/utils/errorHandler";
 import { videoCache } from "@/lib/utils/videoCache";
 import { chatLogger } from '@/lib/logger';
@@ -44,7 +47,7 @@ export interface VideoGenerationParams {
     duration?: string,
     aspectRatio?: string
   ) => void;
-  updateQueueTaskId: (messageId: string, newTaskId: string) => void;
+  updateQueueTaskId: (messageId: string, newTaskId: string, model?: APIVideoModel) => void;
   markVideoCompleted: (messageId: string, videoUrl: string) => void;
   removeFromQueue: (messageId: string) => void;
   setIsGenerating: (isGenerating: boolean) => void;
@@ -85,7 +88,7 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
       videoSettings,
       selectedVideoModel,
       assistantMessageId,
-      currentConversationId: _currentConversationId,
+      currentConversationId,
       updateMessageWithAttachments,
       addToQueue,
       updateQueueTaskId,
@@ -102,9 +105,11 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
       const hasContextImage = contextImages && contextImages.length > 0;
       const hasImage = hasImageAttachment || hasContextImage;
 
-      // Map UI model selection to API model names
+      // Map UI model selection to API model names via the provider registry
       // UI: "kling" | "sora2" -> API: "payperwork-v1" | "payperwork-v2"
-      const model: "payperwork-v1" | "payperwork-v2" = selectedVideoModel === "sora2" ? "payperwork-v2" : "payperwork-v1";
+      const providerDefinition =
+        VideoProviderRegistry.getByUiModel(selectedVideoModel) ?? VideoProviderRegistry.list()[0]!;
+      const model: APIVideoModel = providerDefinition.id;
       const type: "text2video" | "image2video" = hasImage ? "image2video" : "text2video";
 
       // Get image if present
@@ -117,20 +122,13 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
         imageBase64 = contextImg?.base64 || "";
       }
 
-      // Enhance prompt with camera movement (only for Kling AI)
-      const finalPrompt = model === "payperwork-v1"
+      // Enhance prompt with camera movement (only for providers that support it, e.g. Kling AI)
+      const finalPrompt = providerDefinition.capabilities.cameraMovement
         ? addCameraMovementToPrompt(content, videoSettings.cameraMovement)
         : content;
 
       // Estimate duration based on video model (for queue UI)
-      let estimatedDuration: number;
-      if (model === "payperwork-v2") {
-        // fal.ai Sora 2 is fast: ~30 seconds to 1 minute
-        estimatedDuration = parseInt(videoSettings.duration) <= 4 ? 0.5 : 1;
-      } else {
-        // Kling AI: depends on mode and duration
-        estimatedDuration = parseInt(videoSettings.duration) * (videoSettings.mode === "pro" ? 1.6 : 1.2);
-      }
+      const estimatedDuration = estimateGenerationMinutes(model, videoSettings);
 
       // Get thumbnail (if image attached) - needed for queue
       let thumbnailUrl = undefined;
@@ -158,7 +156,7 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
       );
 
       // Update assistant message with "generating" status and placeholder attachment
-      const modelName = model === "payperwork-v2" ? "Payperwork Move v2" : "Payperwork Move v1";
+      const modelName = getVideoModelDisplayName(model);
 
       // Create initial message with videoTask metadata for placeholder rendering
       const messageWithPlaceholder: Partial<Message> = {
@@ -212,6 +210,10 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
           aspectRatio: videoSettings.aspectRatio,
           mode: videoSettings.mode, // Only used by payperwork-v1
           audioEnabled: videoSettings.audioEnabled, // Only used by payperwork-v2
+          // Job context - the server persists the task and polls it to completion
+          userId: getUserIdSync(),
+          messageId: assistantMessageId,
+          conversationId: currentConversationId || undefined,
         }),
         signal: abortControllerRef.current.signal,
       });
@@ -247,6 +249,11 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
       if (videoData.task_id) {
         const isImmediate = videoData.status === "succeed" && videoData.videos?.length > 0;
 
+        // The provider router may have served the request with another model (failover / cost policy)
+        const servedModel: APIVideoModel = videoData.model || model;
+        // A failover provider may only support another duration
+        const servedDuration: string = videoData.duration || videoSettings.duration;
+
         // CRITICAL FIX: Update queue with real task ID (replace temp ID)
         // This must happen BEFORE any other updates to ensure polling works
         chatLogger.info('Updating queue task ID:', {
@@ -254,9 +261,16 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
           from: tempTaskId,
           to: videoData.task_id,
         });
-        updateQueueTaskId(assistantMessageId, videoData.task_id);
+        updateQueueTaskId(assistantMessageId, videoData.task_id, servedModel);
+        if (servedModel !== model) {
+          chatLogger.info('Video request served by fallback provider:', {
+            messageId: assistantMessageId,
+            requestedModel: model,
+            servedModel,
+          });
+        }
 
-        // Update message videoTask with real task ID
+        // Update message videoTask with real task ID and the provider that served it
         const currentMessage = messages.find(m => m.id === assistantMessageId);
         if (currentMessage?.videoTask) {
           updateMessageWithAttachments(
@@ -266,6 +280,10 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
             {
               ...currentMessage.videoTask,
               taskId: videoData.task_id,
+              model: servedModel,
+              provider: videoData.provider,
+              requestedModel: model,
+              duration: servedDuration,
             }
           );
         }
@@ -285,8 +303,8 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
           videoCache.set({
             videoUrl,
             taskId: videoData.task_id,
-            model,
-            duration: videoSettings.duration,
+            model: servedModel,
+            duration: servedDuration,
             aspectRatio: videoSettings.aspectRatio,
           });
 
@@ -304,9 +322,11 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
             {
               status: "succeed",
               taskId: videoData.task_id,
-              model,
+              model: servedModel,
+              provider: videoData.provider,
+              requestedModel: model,
               type,
-              duration: videoSettings.duration,
+              duration: servedDuration,
               aspectRatio: videoSettings.aspectRatio,
               progress: 100,
             }
@@ -10,6 +10,7 @@
 
 import { useChatStore } from "@/store/chatStore.supabase";
 import { Message } from "@/types/chat";
+import type { VideoModel } from "@/types/video";
 import { chatLogger } from '@/lib/logger';
 import {
   generateVideoFilename,
@@ -17,28 +18,16 @@ import {
 import {
   ERROR_MESSAGES,
   VIDEO_METADATA,
-  VIDEO_MODEL_NAMES,
 } from "@/config/chatArea";
 
 interface UseVideoQueueCallbacksParams {
-  currentConversationId: string | null;
   messages: Message[];
-  addToLibrary: (item: {
-    type: "image" | "video";
-    url: string;
-    name: string;
-    prompt?: string;
-    model?: string;
-    messageId?: string;
-    conversationId?: string;
-    metadata?: Record<string, unknown>;
-  }) => Promise<void>;
+  reloadLibrary?: () => Promise<void>;
 }
 
 export function useVideoQueueCallbacks({
-  currentConversationId,
   messages,
-  addToLibrary,
+  reloadLibrary,
 }: UseVideoQueueCallbacksParams) {
   const updateMessageWithAttachments = useChatStore((state) => state.updateMessageWithAttachments);
   const updateMessage = useChatStore((state) => state.updateMessage);
@@ -67,7 +56,7 @@ export function useVideoQueueCallbacks({
       {
         status: "succeed",
         taskId: videoTask?.taskId || "",
-        model: (videoTask?.model || VIDEO_METADATA.defaultModel) as "payperwork-v1" | "payperwork-v2",
+        model: (videoTask?.model || VIDEO_METADATA.defaultModel) as VideoModel,
         type: videoTask?.type || VIDEO_METADATA.defaultType,
         duration: videoTask?.duration || "5",
         aspectRatio: videoTask?.aspectRatio || "16:9",
@@ -77,31 +66,11 @@ export function useVideoQueueCallbacks({
 
     chatLogger.info('updateMessageWithAttachments CALLED');
 
-    // Add to library
+    // The video job worker already saved the video to the library - refresh the local store
     try {
-      chatLogger.debug('📚 Adding video to library');
-
-      // Use model name from videoTask if available
-      const modelName = videoTask?.model === "payperwork-v2"
-        ? VIDEO_MODEL_NAMES["sora2"] as string
-        : VIDEO_MODEL_NAMES["kling"] as string;
-
-      await addToLibrary({
-        type: "video",
-        url: videoUrl,
-        name: fileName,
-        prompt: message?.content,
-        model: modelName,
-        messageId: messageId,
-        conversationId: currentConversationId || undefined,
-        metadata: {
-          duration: (videoTask?.duration || "5") + "s",
-          aspectRatio: videoTask?.aspectRatio || "16:9",
-        },
-      });
-      chatLogger.info('Video successfully added to library');
+      await reloadLibrary?.();
     } catch (error) {
-      chatLogger.error('Failed to add video to library:', error instanceof Error ? error : undefined);
+      chatLogger.error('Failed to reload library:', error instanceof Error ? error : undefined);
     }
   };
 
@@ -195,8 +195,11 @@ export const createPresentationSlice: StateCreator<
       slideId: slide.id,
       order: slide.order_index,
     });
+    // Previews of an existing slide (single slide rewrite) replace it
     set((state) => ({
-      slides: [...state.slides, slide],
+      slides: state.slides.some((existing) => existing.id === slide.id)
+        ? state.slides.map((existing) => (existing.id === slide.id ? { ...existing, ...slide } : existing))
+        : [...state.slides, slide],
     }));
   },
 
@@ -13,6 +13,7 @@ import {
   Topic,
   PresentationFormat,
   PresentationTheme,
+  CustomTheme,
 } from '@/types/slides';
 import { slidesLogger } from '@/lib/logger';
 
@@ -27,6 +28,7 @@ export interface WorkflowSlice {
   topicsApproved: boolean;
   format: PresentationFormat;
   theme: PresentationTheme;
+  customTheme: CustomTheme | null;
   currentPrompt: string;
 
   // Actions
@@ -37,6 +39,7 @@ export interface WorkflowSlice {
   setTopicsApproved: (approved: boolean) => void;
   setFormat: (format: PresentationFormat) => void;
   setTheme: (theme: PresentationTheme) => void;
+  setCustomTheme: (customTheme: CustomTheme | null) => void;
   setCurrentPrompt: (prompt: string) => void;
 }
 
@@ -56,6 +59,7 @@ export const createWorkflowSlice: StateCreator<
   topicsApproved: false,
   format: '16:9',
   theme: 'default',
+  customTheme: null,
   currentPrompt: '',
 
   // Actions
@@ -122,6 +126,14 @@ export const createWorkflowSlice: StateCreator<
     set({ theme });
   },
 
+  setCustomTheme: (customTheme) => {
+    slidesLogger.debug('Setting custom theme', {
+      action: 'setCustomTheme',
+      customThemeId: customTheme?.id ?? null,
+    });
+    set({ customTheme });
+  },
+
   setCurrentPrompt: (prompt) => {
     set({ currentPrompt: prompt });
   },
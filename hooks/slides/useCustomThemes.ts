@@ -0,0 +1,60 @@
+// ============================================
+// Custom Themes Hook
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { CustomTheme } from "@/types/slides";
+
+/**
+ * Custom (corporate) themes of a user and the user's team
+ *
+ * @param userId - User (no themes are loaded without one)
+ * @param teamId - Team of the user (optional)
+ * @returns Themes and reload function
+ */
+export function useCustomThemes(userId?: string | null, teamId?: string | null) {
+  const [themes, setThemes] = useState<CustomTheme[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadThemes = useCallback(async () => {
+    if (!userId) {
+      setThemes([]);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ userId });
+      if (teamId) {
+        params.set("teamId", teamId);
+      }
+
+      const response = await fetch(`/api/slides/themes?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Themes konnten nicht geladen werden");
+      }
+
+      setThemes(data.themes || []);
+    } catch (error) {
+      console.error("Failed to load themes:", error);
+      setThemes([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, teamId]);
+
+  useEffect(() => {
+    loadThemes();
+  }, [loadThemes]);
+
+  return {
+    themes,
+    isLoading,
+    loadThemes,
+  };
+}
@@ -1,6 +1,6 @@
 // ============================================
 // Export Hook
-// Version: 1.0 (Placeholder - Export via API)
+// Version: 1.2 (PPTX and PDF via API)
 // Date: 2025-10-19
 // ============================================
 
@@ -20,41 +20,27 @@ export function useExport() {
 
   /**
    * Export presentation
-   * NOTE: This currently uses a placeholder. In production, exports should be handled via API route.
+   * Files are rendered server-side (GET /api/slides/[id]/export).
    *
    * @param format - Export format (pdf or pptx)
    * @param presentation - Presentation metadata
    * @param slides - Array of slides
-   * @param slideElements - Array of HTML elements (for PDF only)
+   * @param slideElements - Array of HTML elements (unused, slides are rendered on the server)
+   * @param options - PDF options (handout: slides with speaker notes)
    */
   const exportPresentation = async (
     format: ExportFormat,
     presentation: Presentation,
     slides: Slide[],
-    slideElements?: HTMLElement[]
+    slideElements?: HTMLElement[],
+    options: { handout?: boolean } = {}
   ): Promise<void> => {
     setIsExporting(true);
     setExportProgress(0);
 
     try {
-      toast({
-        title: `${format.toUpperCase()} Export`,
-        description: "Export functionality coming soon! This will use an API endpoint.",
-      });
-
-      // TODO: Implement API-based export
-      // Example:
-      // const response = await fetch('/api/slides/export', {
-      //   method: 'POST',
-      //   body: JSON.stringify({ presentationId: presentation.id, format })
-      // });
-
+      await downloadExport(presentation, format, format === "pdf" && !!options.handout);
       setExportProgress(100);
-
-      toast({
-        title: "Feature Coming Soon",
-        description: `${format.toUpperCase()} export will be available in the next update.`,
-      });
     } catch (error) {
       console.error("Export failed:", error);
 
@@ -70,6 +56,39 @@ export function useExport() {
     }
   };
 
+  /**
+   * Download an export file from the API
+   */
+  const downloadExport = async (
+    presentation: Presentation,
+    format: ExportFormat,
+    handout: boolean
+  ) => {
+    const params = new URLSearchParams({ userId: presentation.user_id, format });
+    if (handout) {
+      params.set("handout", "true");
+    }
+
+    const response = await fetch(`/api/slides/${presentation.id}/export?${params}`);
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || "Export fehlgeschlagen");
+    }
+
+    const blob = await response.blob();
+    const filename =
+      /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1] ||
+      `presentation.${format}`;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return {
     exportPresentation,
     isExporting,
@@ -0,0 +1,52 @@
+// ============================================
+// Presentation Theme Hook
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { useState, useEffect } from "react";
+import { CustomTheme, Presentation } from "@/types/slides";
+
+/**
+ * Custom theme of a presentation (null: the built-in theme is used)
+ *
+ * @param presentation - Presentation
+ * @returns Custom theme of the presentation
+ */
+export function usePresentationTheme(presentation: Presentation) {
+  const [customTheme, setCustomTheme] = useState<CustomTheme | null>(null);
+  const customThemeId = presentation.custom_theme_id ?? null;
+
+  useEffect(() => {
+    if (!customThemeId) {
+      setCustomTheme(null);
+      return;
+    }
+
+    let cancelled = false;
+    const params = new URLSearchParams({ userId: presentation.user_id });
+
+    fetch(`/api/slides/${presentation.id}/theme?${params}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Theme konnte nicht geladen werden");
+        }
+        if (!cancelled) {
+          setCustomTheme(data.customTheme ?? null);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load presentation theme:", error);
+        if (!cancelled) {
+          setCustomTheme(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [presentation.id, presentation.user_id, customThemeId]);
+
+  return { customTheme };
+}
@@ -0,0 +1,97 @@
+// ============================================
+// Slide Revisions Hook
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Presentation, Slide, SlideRevision } from "@/types/slides";
+import { useToast } from "@/hooks/useToast";
+
+/**
+ * Version history of a slide (or presentation) with restore
+ *
+ * @param presentation - Presentation of the slides
+ * @param slideId - Only revisions of this slide (all slides if missing)
+ * @returns Revisions and restore functions
+ */
+export function useSlideRevisions(presentation: Presentation, slideId?: string) {
+  const toast = useToast();
+  const [revisions, setRevisions] = useState<SlideRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ userId: presentation.user_id });
+      if (slideId) {
+        params.set("slideId", slideId);
+      }
+
+      const response = await fetch(`/api/slides/${presentation.id}/revisions?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Verlauf konnte nicht geladen werden");
+      }
+
+      setRevisions(data.revisions || []);
+    } catch (error) {
+      console.error("Failed to load revisions:", error);
+      setRevisions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [presentation.id, presentation.user_id, slideId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  /**
+   * Restore a slide revision (revisionId) or a presentation (batchId)
+   *
+   * @returns Restored slides, null on error
+   */
+  const restore = async (target: {
+    revisionId?: string;
+    batchId?: string;
+  }): Promise<Slide[] | null> => {
+    setIsRestoring(true);
+
+    try {
+      const response = await fetch(`/api/slides/${presentation.id}/revisions/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: presentation.user_id, ...target }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Wiederherstellen fehlgeschlagen");
+      }
+
+      toast.success("Version wiederhergestellt");
+      await loadRevisions();
+      return data.slides as Slide[];
+    } catch (error) {
+      console.error("Restore failed:", error);
+
+      toast.error(error instanceof Error ? error.message : "Wiederherstellen fehlgeschlagen");
+      return null;
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return {
+    revisions,
+    isLoading,
+    isRestoring,
+    loadRevisions,
+    restoreRevision: (revisionId: string) => restore({ revisionId }),
+    restorePresentation: (batchId: string) => restore({ batchId }),
+  };
+}
@@ -0,0 +1,64 @@
+// ============================================
+// Slide Rewrite Hook
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { useState } from "react";
+import { Presentation, Slide, SlideLayout } from "@/types/slides";
+import { useToast } from "@/hooks/useToast";
+
+/**
+ * Rewrite a single slide with AI following an instruction
+ * (the text is streamed as slide preview socket events while it is generated)
+ *
+ * @param presentation - Presentation of the slide
+ * @returns Rewrite function and state
+ */
+export function useSlideRewrite(presentation: Presentation) {
+  const toast = useToast();
+  const [isRewriting, setIsRewriting] = useState(false);
+
+  /**
+   * Rewrite a slide
+   *
+   * @param slideId - Slide to rewrite
+   * @param instruction - Free-text instruction (e.g. "kürzer", "mehr Zahlen")
+   * @param layout - Layout for the rewritten slide (optional)
+   * @returns Rewritten slide, null on error
+   */
+  const rewriteSlide = async (
+    slideId: string,
+    instruction: string,
+    layout?: SlideLayout
+  ): Promise<Slide | null> => {
+    setIsRewriting(true);
+
+    try {
+      const response = await fetch(`/api/slides/${presentation.id}/slides/${slideId}/rewrite`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: presentation.user_id, instruction, layout }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Überarbeiten fehlgeschlagen");
+      }
+
+      toast.success("Folie überarbeitet");
+      return data.slide as Slide;
+    } catch (error) {
+      console.error("Rewrite failed:", error);
+      toast.error(error instanceof Error ? error.message : "Überarbeiten fehlgeschlagen");
+      return null;
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  return {
+    rewriteSlide,
+    isRewriting,
+  };
+}
@@ -0,0 +1,62 @@
+// ============================================
+// Talk Script Hook
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { useState } from "react";
+import { Presentation, Slide } from "@/types/slides";
+import { useToast } from "@/hooks/useToast";
+
+/**
+ * Write the speaker notes of a presentation with AI
+ * (the talk script itself is built from the notes on the client)
+ *
+ * @param presentation - Presentation to write the notes for
+ * @returns Generate function and state
+ */
+export function useTalkScript(presentation: Presentation) {
+  const toast = useToast();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  /**
+   * Write speaker notes
+   *
+   * @param secondsPerSlide - Target speaking time per slide
+   * @param onlyMissing - Only write notes for slides without notes
+   * @returns Updated slides, null on error
+   */
+  const generateScript = async (
+    secondsPerSlide: number,
+    onlyMissing: boolean
+  ): Promise<Slide[] | null> => {
+    setIsGenerating(true);
+
+    try {
+      const response = await fetch(`/api/slides/${presentation.id}/script`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: presentation.user_id, secondsPerSlide, onlyMissing }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Sprechertext fehlgeschlagen");
+      }
+
+      toast.success("Sprechertext erstellt");
+      return data.slides as Slide[];
+    } catch (error) {
+      console.error("Talk script failed:", error);
+      toast.error(error instanceof Error ? error.message : "Sprechertext fehlgeschlagen");
+      return null;
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return {
+    generateScript,
+    isGenerating,
+  };
+}
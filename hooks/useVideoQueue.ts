@@ -1,9 +1,17 @@
-import { useEffect, useRef, useState } from "react";
-import type { VideoModel, VideoType } from "@/types/video";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  VideoGenerationResponse,
+  VideoJob,
+  VideoJobUpdateEvent,
+  VideoModel,
+  VideoType,
+} from "@/types/video";
 import { useToast } from "@/hooks/useToast";
-import { VIDEO_CONFIG } from "@/lib/video/config/videoConfig";
-import { promiseAllWithLimit } from "@/lib/utils/concurrency";
+import { VIDEO_CONFIG, VIDEO_SOCKET_EVENTS } from "@/lib/video/config/videoConfig";
 import { videoCache } from "@/lib/utils/videoCache";
+import { initializeSocketClient } from "@/lib/socket/client";
+import { getUserIdSync } from "@/lib/supabase/insert-helper";
+import { estimateGenerationMinutes } from "@/config/videoSettings";
 import { logger } from '@/lib/logger';
 
 export interface VideoQueueItem {
@@ -19,8 +27,6 @@ export interface VideoQueueItem {
   videoUrl?: string;
   error?: string;
   progress?: number; // 0-100
-  retryCount?: number; // Track consecutive failures for retry limit
-  consecutiveErrors?: number; // Track consecutive errors for auto-fail
   // Video settings for accurate metadata and progress calculation
   duration?: string; // Video duration setting (e.g., "5", "10")
   aspectRatio?: string; // Video aspect ratio (e.g., "16:9", "9:16")
@@ -32,15 +38,81 @@ interface UseVideoQueueOptions {
   onProgressUpdate?: (messageId: string, progress: number, estimatedTimeRemaining: number) => void;
 }
 
+// Fallback sync interval in case a socket event was missed (worker does the actual polling)
+const JOB_SYNC_INTERVAL_MS = 30000;
+
+// A processing job whose next poll is this overdue has no worker polling it
+const STALE_JOB_MS = 60000;
+
+type VideoQueueResult = { videoUrl: string } | { error: string };
+
+// Map a persisted job to a queue item (used when rehydrating after reload)
+function jobToQueueItem(job: VideoJob): VideoQueueItem {
+  return {
+    messageId: job.messageId || job.id,
+    taskId: job.taskId,
+    model: job.model,
+    type: job.type,
+    prompt: job.prompt || "",
+    startTime: new Date(job.createdAt).getTime(),
+    estimatedDuration: estimateGenerationMinutes(job.model, job.settings),
+    status: job.status,
+    videoUrl: job.videoUrl,
+    error: job.error,
+    progress: 0,
+    duration: job.settings.duration,
+    aspectRatio: job.settings.aspectRatio,
+  };
+}
+
+// Send browser notification
+function sendNotification(
+  prompt: string,
+  message: string,
+  _videoUrl?: string,
+  isError: boolean = false
+) {
+  if (typeof window === "undefined" || !("Notification" in window)) return;
+  if (Notification.permission !== "granted") return;
+
+  const truncatedPrompt = prompt.length > 50 ? prompt.substring(0, 50) + "..." : prompt;
+  const notification = new Notification(message, {
+    body: truncatedPrompt,
+    icon: isError ? "/error-icon.png" : "/video-icon.png",
+    badge: "/badge-icon.png",
+    tag: `video-${Date.now()}`,
+  });
+
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    // Optionally: scroll to the message
+  };
+}
+
+/**
+ * Video Queue Hook
+ * Shows running video jobs. Polling happens server-side (VideoJobWorker),
+ * this hook only receives job updates via Socket.IO and estimates progress locally.
+ * Processing jobs are restored from /api/video/jobs on mount and on reconnect.
+ *
+ * Fallbacks (checked on every sync):
+ * - Overdue jobs (no worker running) are polled via /api/video/jobs/[id]/poll
+ * - Tasks without a server-side job (job insert failed) are polled via /api/generate-video
+ */
 export function useVideoQueue({ onVideoReady, onVideoFailed, onProgressUpdate }: UseVideoQueueOptions) {
   const [queue, setQueue] = useState<VideoQueueItem[]>([]);
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const queueRef = useRef<VideoQueueItem[]>([]); // FIX: Keep ref to current queue for async operations
-  const abortControllerRef = useRef<AbortController | null>(null); // FIX: Add abort controller for cleanup
-  const timeoutRefsRef = useRef<Map<string, NodeJS.Timeout>>(new Map()); // FIX: Track all timeouts for cleanup
-  const isMountedRef = useRef(true); // FIX: Track mount status
+  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const queueRef = useRef<VideoQueueItem[]>([]); // Keep ref to current queue for async operations
+  const timeoutRefsRef = useRef<Map<string, NodeJS.Timeout>>(new Map()); // Track all timeouts for cleanup
+  const handledJobsRef = useRef<Set<string>>(new Set()); // Jobs whose final state was already handled
+  const isMountedRef = useRef(true);
   const toast = useToast();
 
+  // Keep latest callbacks for socket handlers registered once
+  const callbacksRef = useRef({ onVideoReady, onVideoFailed, onProgressUpdate, toast });
+  callbacksRef.current = { onVideoReady, onVideoFailed, onProgressUpdate, toast };
+
   // Sync ref with state
   useEffect(() => {
     queueRef.current = queue;
@@ -54,441 +126,358 @@ export function useVideoQueue({ onVideoReady, onVideoFailed, onProgressUpdate }:
     };
   }, []);
 
-  // Add a new video to the queue
-  const addToQueue = (
-    messageId: string,
-    taskId: string,
-    model: VideoModel,
-    type: VideoType,
-    prompt: string,
-    thumbnailUrl?: string,
-    estimatedDuration: number = 8, // Default 8 minutes
-    duration?: string, // Video duration setting
-    aspectRatio?: string // Video aspect ratio setting
-  ) => {
-    const newItem: VideoQueueItem = {
-      messageId,
-      taskId,
-      model,
-      type,
-      prompt,
-      thumbnailUrl,
-      startTime: Date.now(),
-      estimatedDuration,
-      status: "processing",
-      progress: 0,
-      retryCount: 0,
-      consecutiveErrors: 0,
-      duration,
-      aspectRatio,
-    };
+  // Remove an item from the queue after a delay
+  const scheduleRemoval = useCallback((messageId: string, delayMs: number) => {
+    const existing = timeoutRefsRef.current.get(messageId);
+    if (existing) clearTimeout(existing);
 
-    logger.debug('➕ [addToQueue] Adding to queue:', {
-      messageId,
-      taskId,
-      model,
-      type,
-    });
+    const timeoutId = setTimeout(() => {
+      if (!isMountedRef.current) return; // Don't update state if unmounted
+      setQueue((prev) => prev.filter((item) => item.messageId !== messageId));
+      timeoutRefsRef.current.delete(messageId);
+    }, delayMs);
+    timeoutRefsRef.current.set(messageId, timeoutId);
+  }, []);
 
-    // FIX: Use callback form to ensure atomic update
-    setQueue((prev) => {
-      const updated = [...prev, newItem];
-      logger.info('[addToQueue] Queue updated, new length:');
-      return updated;
-    });
+  // Update progress estimates for processing videos (local only, no network calls)
+  const updateProgress = useCallback(() => {
+    if (!isMountedRef.current) return;
 
-    // Start polling if not already running
-    if (!pollIntervalRef.current) {
-      logger.debug('⏯️ [addToQueue] Starting polling interval');
-      pollIntervalRef.current = setInterval(checkQueue, VIDEO_CONFIG.polling.intervalMs);
+    const processing = queueRef.current.filter((item) => item.status === "processing");
+    if (processing.length === 0) {
+      if (progressIntervalRef.current) {
+        clearInterval(progressIntervalRef.current);
+        progressIntervalRef.current = null;
+        logger.debug('⏹️ [Queue] No processing videos - stopping progress updates');
+      }
+      return;
     }
-  };
 
-  // Check all videos in queue
-  const checkQueue = async () => {
-    // FIX: Use ref to get current queue state (prevents stale closure)
-    const currentQueue = queueRef.current;
-
-    logger.debug('[Queue Check] Current queue:', {
-      totalItems: currentQueue.length,
-      items: currentQueue.map(q => ({
-        messageId: q.messageId,
-        taskId: q.taskId,
-        status: q.status,
-        model: q.model,
-      }))
-    });
+    setQueue((prevQueue) =>
+      prevQueue.map((item) => {
+        if (item.status !== "processing") return item;
 
-    // FIX: Check if unmounted before any operations
-    if (!isMountedRef.current) {
-      logger.warn('⏹️ [Queue Check] Component unmounted - skipping check');
-      return;
+        const elapsed = (Date.now() - item.startTime) / 1000 / 60; // minutes
+        const progress = Math.min(95, (elapsed / item.estimatedDuration) * 100); // Cap at 95% until confirmed
+        const estimatedTimeRemaining = Math.max(0, (item.estimatedDuration - elapsed) * 60); // seconds
+
+        callbacksRef.current.onProgressUpdate?.(item.messageId, progress, estimatedTimeRemaining);
+
+        return { ...item, progress };
+      })
+    );
+  }, []);
+
+  const startProgressUpdates = useCallback(() => {
+    if (!progressIntervalRef.current) {
+      progressIntervalRef.current = setInterval(updateProgress, VIDEO_CONFIG.polling.intervalMs);
     }
+  }, [updateProgress]);
+
+  // Move a processing item to its final state and notify
+  const finishItem = useCallback((item: VideoQueueItem, result: VideoQueueResult) => {
+    if ("videoUrl" in result) {
+      const { videoUrl } = result;
+      logger.info('VIDEO READY:', { messageId: item.messageId, taskId: item.taskId });
+
+      // Cache the video for faster access
+      videoCache.set({
+        videoUrl,
+        taskId: item.taskId,
+        model: item.model,
+        duration: item.duration,
+        aspectRatio: item.aspectRatio,
+      });
 
-    if (currentQueue.length === 0) {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-        pollIntervalRef.current = null;
-        logger.debug('⏹️ [Queue Check] Queue empty - stopping polling');
-      }
-      return;
+      queueRef.current = queueRef.current.map((q) =>
+        q.messageId === item.messageId ? { ...q, status: "succeed", videoUrl, progress: 100 } : q
+      );
+      setQueue((prev) =>
+        prev.map((q) =>
+          q.messageId === item.messageId ? { ...q, status: "succeed", videoUrl, progress: 100 } : q
+        )
+      );
+
+      // Send browser notification
+      sendNotification(item.prompt, "Video erfolgreich generiert!", videoUrl);
+
+      // Send in-app toast notification (extended duration for better visibility)
+      callbacksRef.current.toast.success("✅ Video wurde erfolgreich erstellt!", 5000);
+
+      callbacksRef.current.onVideoReady(item.messageId, videoUrl);
+
+      // Remove from queue after 30 seconds (extended for better visibility)
+      scheduleRemoval(item.messageId, VIDEO_CONFIG.queue.completedVisibilityMs);
+    } else {
+      const { error } = result;
+
+      queueRef.current = queueRef.current.map((q) =>
+        q.messageId === item.messageId ? { ...q, status: "failed", error } : q
+      );
+      setQueue((prev) =>
+        prev.map((q) => (q.messageId === item.messageId ? { ...q, status: "failed", error } : q))
+      );
+
+      // Send notification
+      sendNotification(item.prompt, "Video-Generierung fehlgeschlagen", undefined, true);
+
+      callbacksRef.current.onVideoFailed(item.messageId, error);
+
+      // Remove from queue after 5 seconds
+      scheduleRemoval(item.messageId, 5000);
     }
+  }, [scheduleRemoval]);
 
-    // Update progress for all processing videos (check mount status)
-    if (isMountedRef.current) {
-      setQueue((prevQueue) => {
-        return prevQueue.map((item) => {
-          if (item.status === "processing") {
-            const elapsed = (Date.now() - item.startTime) / 1000 / 60; // minutes
-            const progress = Math.min(95, (elapsed / item.estimatedDuration) * 100); // Cap at 95% until confirmed
-            const estimatedTimeRemaining = Math.max(0, (item.estimatedDuration - elapsed) * 60); // seconds
-
-            // Notify parent component of progress update
-            if (onProgressUpdate && isMountedRef.current) {
-              onProgressUpdate(item.messageId, progress, estimatedTimeRemaining);
-            }
-
-            return { ...item, progress };
-          }
-          return item;
-        });
-      });
+  // Apply a job state pushed by the server (socket event or sync)
+  const applyJobUpdate = useCallback((job: VideoJob) => {
+    if (!isMountedRef.current || job.status === "processing") return;
+    if (handledJobsRef.current.has(job.id)) return;
+
+    const item = queueRef.current.find((q) =>
+      job.messageId ? q.messageId === job.messageId : q.taskId === job.taskId
+    );
+    if (!item || item.status !== "processing") return;
+
+    handledJobsRef.current.add(job.id);
+    finishItem(
+      item,
+      job.status === "succeed" && job.videoUrl
+        ? { videoUrl: job.videoUrl }
+        : { error: job.error || "Video generation failed" }
+    );
+  }, [finishItem]);
+
+  // Poll an overdue job on the server (no worker running)
+  const pollStaleJob = useCallback(async (userId: string, job: VideoJob) => {
+    const response = await fetch(`/api/video/jobs/${job.id}/poll`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ userId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to poll video job (HTTP ${response.status})`);
     }
 
-    // Get processing videos from current queue state
-    const processingVideos = currentQueue.filter((item) => item.status === "processing");
+    const { job: polled }: { job: VideoJob } = await response.json();
+    applyJobUpdate(polled);
+  }, [applyJobUpdate]);
 
-    logger.info('[Queue Check] Processing videos:');
+  // Check a task without server-side job directly (the video is not saved to the library)
+  const checkUntrackedItem = useCallback(async (item: VideoQueueItem) => {
+    const params = new URLSearchParams({ task_id: item.taskId, model: item.model, type: item.type });
+    const response = await fetch(`/api/generate-video?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to check video status (HTTP ${response.status})`);
+    }
 
-    if (processingVideos.length === 0) return;
+    const result: VideoGenerationResponse = await response.json();
+    const current = queueRef.current.find((q) => q.messageId === item.messageId);
+    if (!isMountedRef.current || current?.status !== "processing") return;
 
-    // Create new abort controller for this batch of requests
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+    const videoUrl = result.videos?.[0]?.url;
+    if (result.status === "succeed" && videoUrl) {
+      finishItem(current, { videoUrl });
+    } else if (result.status === "failed") {
+      finishItem(current, { error: result.message || "Video generation failed" });
     }
-    abortControllerRef.current = new AbortController();
-
-    // Create task functions for concurrent execution
-    const checkTasks = processingVideos.map((video) => async () => {
-      // Skip polling for temporary task IDs (not yet replaced with real ones)
-      if (video.taskId.startsWith('temp-')) {
-        logger.warn('[Poll Skip] Temporary task ID not yet replaced: ${video.taskId} (messageId: ${video.messageId})');
-        return;
-      }
+  }, [finishItem]);
 
-      logger.info('[Poll] Checking video status:', {
-        messageId: video.messageId,
-        taskId: video.taskId,
-        model: video.model,
-        type: video.type,
-      });
+  // Fetch the user's jobs and reconcile them with the local queue
+  const syncJobs = useCallback(async () => {
+    const userId = getUserIdSync();
+    if (!userId) return;
 
-      try {
-        const url = `/api/generate-video?task_id=${video.taskId}&model=${video.model}&type=${video.type}`;
-        logger.debug('🌐 [Poll] Fetching: ${url}');
+    try {
+      const response = await fetch(`/api/video/jobs?userId=${encodeURIComponent(userId)}&limit=20`);
+      if (!response.ok) {
+        throw new Error(`Failed to load video jobs (HTTP ${response.status})`);
+      }
 
-        const response = await fetch(url, {
-          signal: abortControllerRef.current?.signal,
-        });
+      const { jobs = [] }: { jobs?: VideoJob[] } = await response.json();
+      if (!isMountedRef.current) return;
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          logger.error('[Poll] Video status check failed:', {
-            status: response.status,
-            statusText: response.statusText,
-            error: errorData.error || errorData.message,
-            taskId: video.taskId,
-            model: video.model,
-            type: video.type,
-            url: response.url,
-          });
+      // Restore jobs still processing on the server (e.g. after reload)
+      const missing = jobs
+        .filter((job) => job.status === "processing")
+        .map(jobToQueueItem)
+        .filter((item) => !queueRef.current.some((q) => q.messageId === item.messageId));
+
+      if (missing.length > 0) {
+        logger.info('[Queue] Restoring processing video jobs', { count: missing.length });
+        queueRef.current = [...queueRef.current, ...missing];
+        setQueue((prev) => [
+          ...prev,
+          ...missing.filter((item) => !prev.some((q) => q.messageId === item.messageId)),
+        ]);
+        startProgressUpdates();
+      }
 
-          throw new Error(
-            errorData.error ||
-            errorData.message ||
-            `Failed to check video status (HTTP ${response.status})`
-          );
-        }
+      // Catch up on final states whose socket event was missed
+      jobs.forEach(applyJobUpdate);
 
-        const data = await response.json();
+      const now = Date.now();
+      const staleJobs = jobs.filter(
+        (job) => job.status === "processing" && now - new Date(job.nextPollAt).getTime() > STALE_JOB_MS
+      );
+      const untrackedItems = queueRef.current.filter(
+        (item) =>
+          item.status === "processing" &&
+          !item.taskId.startsWith("temp-") &&
+          now - item.startTime > JOB_SYNC_INTERVAL_MS &&
+          !jobs.some((job) =>
+            job.messageId ? job.messageId === item.messageId : job.taskId === item.taskId
+          )
+      );
 
-        logger.debug('📦 [Poll] Status response:', {
-          messageId: video.messageId,
-          taskId: video.taskId,
-          status: data.status,
-          hasVideos: !!data.videos && data.videos.length > 0,
-          videoUrl: data.videos?.[0]?.url,
+      if (staleJobs.length > 0 || untrackedItems.length > 0) {
+        logger.warn('[Queue] Polling video jobs from the client', {
+          staleJobs: staleJobs.length,
+          untrackedItems: untrackedItems.length,
         });
+      }
 
-        if (data.status === "succeed" && data.videos && data.videos.length > 0) {
-          const videoUrl = data.videos[0].url;
-
-          logger.info('VIDEO READY:', {
-            messageId: video.messageId,
-            videoUrl,
-            taskId: video.taskId,
+      const results = await Promise.allSettled([
+        ...staleJobs.map((job) => pollStaleJob(userId, job)),
+        ...untrackedItems.map(checkUntrackedItem),
+      ]);
+      results.forEach((result) => {
+        if (result.status === "rejected") {
+          logger.warn('[Queue] Client-side video poll failed', {
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
           });
+        }
+      });
+    } catch (error) {
+      logger.warn('[Queue] Video job sync failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [applyJobUpdate, checkUntrackedItem, pollStaleJob, startProgressUpdates]);
 
-          // FIX: Check if unmounted before any state updates or callbacks
-          if (!isMountedRef.current) {
-            logger.warn('⏹️ Component unmounted - skipping video completion');
-            return;
-          }
-
-          // Cache the video for faster access
-          videoCache.set({
-            videoUrl,
-            taskId: video.taskId,
-            model: video.model,
-          });
+  // Subscribe to job updates and rehydrate on mount / reconnect
+  useEffect(() => {
+    const userId = getUserIdSync();
+    if (!userId) return;
 
-          // Update queue item (check mount status)
-          if (isMountedRef.current) {
-            setQueue((prev) =>
-              prev.map((item) =>
-                item.messageId === video.messageId
-                  ? { ...item, status: "succeed", videoUrl, progress: 100, consecutiveErrors: 0 }
-                  : item
-              )
-            );
-          }
-
-          // Send browser notification
-          sendNotification(video.prompt, "Video erfolgreich generiert!", videoUrl);
-
-          // Send in-app toast notification (extended duration for better visibility)
-          toast.success("✅ Video wurde erfolgreich erstellt!", 5000);
-
-          // Callback - check mount status before calling
-          if (isMountedRef.current) {
-            logger.debug('📞 ABOUT TO CALL onVideoReady callback');
-            logger.debug('📞 Parameters:', { messageId: video.messageId, videoUrl });
-            logger.debug('📞 onVideoReady function exists:');
-
-            onVideoReady(video.messageId, videoUrl);
-
-            logger.debug('📞 onVideoReady callback COMPLETED');
-          }
-
-          // Remove from queue after 30 seconds (extended for better visibility)
-          const timeoutId = setTimeout(() => {
-            if (!isMountedRef.current) return; // Don't update state if unmounted
-            logger.debug('🗑️ Removing video from queue:');
-            setQueue((prev) => prev.filter((item) => item.messageId !== video.messageId));
-            timeoutRefsRef.current.delete(video.messageId);
-          }, VIDEO_CONFIG.queue.completedVisibilityMs);
-          timeoutRefsRef.current.set(video.messageId, timeoutId);
-        } else if (data.status === "failed") {
-          const error = data.message || "Video generation failed";
-
-          // FIX: Check if unmounted before any state updates or callbacks
-          if (!isMountedRef.current) {
-            logger.warn('⏹️ Component unmounted - skipping video failure handling');
-            return;
-          }
-
-          // Update queue item (check mount status)
-          if (isMountedRef.current) {
-            setQueue((prev) =>
-              prev.map((item) =>
-                item.messageId === video.messageId
-                  ? { ...item, status: "failed", error }
-                  : item
-              )
-            );
-          }
-
-          // Send notification
-          sendNotification(video.prompt, "Video-Generierung fehlgeschlagen", undefined, true);
-
-          // Callback - check mount status before calling
-          if (isMountedRef.current) {
-            onVideoFailed(video.messageId, error);
-          }
-
-          // Remove from queue after 5 seconds
-          const timeoutId = setTimeout(() => {
-            if (!isMountedRef.current) return; // Don't update state if unmounted
-            setQueue((prev) => prev.filter((item) => item.messageId !== video.messageId));
-            timeoutRefsRef.current.delete(video.messageId);
-          }, 5000);
-          timeoutRefsRef.current.set(video.messageId, timeoutId);
-        }
-      } catch (error) {
-        // Ignore AbortError (happens on cleanup)
-        if (error instanceof Error && error.name === 'AbortError') {
-          logger.debug('Polling aborted for ${video.messageId}');
-          return;
-        }
+    const socket = initializeSocketClient(userId);
 
-        logger.error('Video polling error for ${video.messageId}:', error);
-
-        // Get current queue item to check consecutive errors
-        const currentItem = queueRef.current.find(item => item.messageId === video.messageId);
-        const consecutiveErrors = (currentItem?.consecutiveErrors || 0) + 1;
-        const MAX_CONSECUTIVE_ERRORS = 10; // Auto-fail after 10 consecutive polling failures
-
-        logger.warn('Consecutive errors for ${video.messageId}: ${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS}');
-
-        // Check if we've exceeded the retry limit
-        if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-          logger.error('Max retry limit reached for ${video.messageId}. Marking as failed.');
-
-          // FIX: Check if unmounted before any state updates or callbacks
-          if (!isMountedRef.current) {
-            logger.warn('⏹️ Component unmounted - skipping max retry failure handling');
-            return;
-          }
-
-          // Permanently mark as failed
-          if (isMountedRef.current) {
-            setQueue((prev) =>
-              prev.map((item) =>
-                item.messageId === video.messageId
-                  ? {
-                      ...item,
-                      status: "failed",
-                      error: `Video generation failed after ${MAX_CONSECUTIVE_ERRORS} attempts: ${error instanceof Error ? error.message : String(error)}`
-                    }
-                  : item
-              )
-            );
-          }
-
-          // Notify failure - check mount status before calling
-          if (isMountedRef.current) {
-            onVideoFailed(
-              video.messageId,
-              `Video generation failed after ${MAX_CONSECUTIVE_ERRORS} attempts: ${error instanceof Error ? error.message : String(error)}`
-            );
-          }
-
-          // Remove from queue after 5 seconds
-          const timeoutId = setTimeout(() => {
-            if (!isMountedRef.current) return;
-            setQueue((prev) => prev.filter((item) => item.messageId !== video.messageId));
-            timeoutRefsRef.current.delete(video.messageId);
-          }, 5000);
-          timeoutRefsRef.current.set(video.messageId, timeoutId);
-        } else {
-          // Increment error count but keep trying
-          if (isMountedRef.current) {
-            setQueue((prev) =>
-              prev.map((item) =>
-                item.messageId === video.messageId
-                  ? { ...item, consecutiveErrors, error: error instanceof Error ? error.message : String(error) }
-                  : item
-              )
-            );
-          }
-
-          logger.error('Will retry polling for ${video.messageId} (attempt ${consecutiveErrors + 1})');
-        }
+    const handleJobUpdate = (event: VideoJobUpdateEvent) => {
+      logger.debug('📨 [Queue] Video job update', { jobId: event.job.id, status: event.job.status });
+      applyJobUpdate(event.job);
+    };
+    const handleConnect = () => {
+      void syncJobs();
+    };
+
+    socket.on(VIDEO_SOCKET_EVENTS.JOB_UPDATE, handleJobUpdate);
+    socket.on("connect", handleConnect);
+    void syncJobs();
+
+    // Low-frequency fallback while jobs are running
+    const syncInterval = setInterval(() => {
+      if (queueRef.current.some((item) => item.status === "processing")) {
+        void syncJobs();
       }
-    });
+    }, JOB_SYNC_INTERVAL_MS);
 
-    // Execute with concurrency limit (max 5 parallel requests)
-    await promiseAllWithLimit(checkTasks, VIDEO_CONFIG.queue.maxConcurrentRequests);
-  };
+    return () => {
+      socket.off(VIDEO_SOCKET_EVENTS.JOB_UPDATE, handleJobUpdate);
+      socket.off("connect", handleConnect);
+      clearInterval(syncInterval);
+    };
+  }, [applyJobUpdate, syncJobs]);
 
-  // Send browser notification
-  const sendNotification = (
+  // Add a new video to the queue
+  const addToQueue = (
+    messageId: string,
+    taskId: string,
+    model: VideoModel,
+    type: VideoType,
     prompt: string,
-    message: string,
-    _videoUrl?: string,
-    isError: boolean = false
+    thumbnailUrl?: string,
+    estimatedDuration: number = 8, // Default 8 minutes
+    duration?: string, // Video duration setting
+    aspectRatio?: string // Video aspect ratio setting
   ) => {
-    if (typeof window === "undefined" || !("Notification" in window)) return;
-    if (Notification.permission !== "granted") return;
-
-    const truncatedPrompt = prompt.length > 50 ? prompt.substring(0, 50) + "..." : prompt;
-    const notification = new Notification(message, {
-      body: truncatedPrompt,
-      icon: isError ? "/error-icon.png" : "/video-icon.png",
-      badge: "/badge-icon.png",
-      tag: `video-${Date.now()}`,
+    const newItem: VideoQueueItem = {
+      messageId,
+      taskId,
+      model,
+      type,
+      prompt,
+      thumbnailUrl,
+      startTime: Date.now(),
+      estimatedDuration,
+      status: "processing",
+      progress: 0,
+      duration,
+      aspectRatio,
+    };
+
+    logger.debug('➕ [addToQueue] Adding to queue:', {
+      messageId,
+      taskId,
+      model,
+      type,
     });
 
-    notification.onclick = () => {
-      window.focus();
-      notification.close();
-      // Optionally: scroll to the message
-    };
+    queueRef.current = [...queueRef.current, newItem];
+    setQueue((prev) => [...prev, newItem]);
+    startProgressUpdates();
   };
 
   // Remove a video from queue manually
   const removeFromQueue = (messageId: string) => {
+    queueRef.current = queueRef.current.filter((item) => item.messageId !== messageId);
     setQueue((prev) => prev.filter((item) => item.messageId !== messageId));
   };
 
   // Update task ID in queue (replace temp ID with real ID from API)
-  const updateQueueTaskId = (messageId: string, newTaskId: string) => {
-    logger.info('[updateQueueTaskId] Updating task ID:', {
-      messageId,
-      newTaskId,
-      currentQueue: queueRef.current.map(q => ({ msgId: q.messageId, taskId: q.taskId })),
-    });
+  // model is the model that served the task (may differ from the requested one after failover)
+  const updateQueueTaskId = (messageId: string, newTaskId: string, model?: VideoModel) => {
+    logger.info('[updateQueueTaskId] Updating task ID:', { messageId, newTaskId, model });
 
-    // FIX: Use callback form to ensure we're working with latest state
-    setQueue((prevQueue) => {
-      const updated = prevQueue.map((item) =>
-        item.messageId === messageId ? { ...item, taskId: newTaskId } : item
-      );
-
-      logger.info('[updateQueueTaskId] Updated queue:', {
-        found: updated.some(item => item.messageId === messageId),
-        newTaskId,
-      });
+    const update = (item: VideoQueueItem): VideoQueueItem =>
+      item.messageId === messageId
+        ? { ...item, taskId: newTaskId, model: model ?? item.model }
+        : item;
 
-      return updated;
-    });
+    queueRef.current = queueRef.current.map(update);
+    setQueue((prevQueue) => prevQueue.map(update));
   };
 
   // Cleanup on unmount
   useEffect(() => {
+    const timeouts = timeoutRefsRef.current;
     return () => {
       logger.debug('Cleaning up useVideoQueue...');
 
-      // Clear interval
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-        pollIntervalRef.current = null;
-      }
-
-      // Abort ongoing fetch requests
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        abortControllerRef.current = null;
+      if (progressIntervalRef.current) {
+        clearInterval(progressIntervalRef.current);
+        progressIntervalRef.current = null;
       }
 
       // Clear all pending timeouts
-      timeoutRefsRef.current.forEach((timeoutId, _messageId) => {
-        logger.debug('Clearing timeout for ${_messageId}');
-        clearTimeout(timeoutId);
-      });
-      timeoutRefsRef.current.clear();
-
-      logger.info('Cleanup complete');
+      timeouts.forEach((timeoutId) => clearTimeout(timeoutId));
+      timeouts.clear();
     };
   }, []);
 
   // Mark a video as completed (for immediate completions like fal.ai)
   const markVideoCompleted = (messageId: string, videoUrl: string) => {
+    queueRef.current = queueRef.current.map((item) =>
+      item.messageId === messageId ? { ...item, status: "succeed", videoUrl, progress: 100 } : item
+    );
     setQueue((prev) =>
       prev.map((item) =>
         item.messageId === messageId
-          ? { ...item, status: "succeed", videoUrl, progress: 100, consecutiveErrors: 0 }
+          ? { ...item, status: "succeed", videoUrl, progress: 100 }
           : item
       )
     );
 
     // Remove from queue after delay for visibility
-    const timeoutId = setTimeout(() => {
-      if (!isMountedRef.current) return;
-      setQueue((prev) => prev.filter((item) => item.messageId !== messageId));
-      timeoutRefsRef.current.delete(messageId);
-    }, VIDEO_CONFIG.queue.completedVisibilityMs);
-    timeoutRefsRef.current.set(messageId, timeoutId);
+    scheduleRemoval(messageId, VIDEO_CONFIG.queue.completedVisibilityMs);
   };
 
   return {
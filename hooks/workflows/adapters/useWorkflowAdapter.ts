@@ -67,6 +67,7 @@ export interface StandardEditHook {
     currentImageUrl: string;
     originalPrompt?: string;
     referenceImages?: string[];
+    mask?: string;
   }) => Promise<WorkflowGenerationResult | null>;
   isEditing: boolean;
   error: string | null;
@@ -363,7 +364,7 @@ export function useBrandingPromptEnhancerAdapter(
 
 /**
  * Adapter for Render-to-CAD Prompt Enhancer Hook
- * Uses workflow-specific endpoint: /api/render-to-cad/generate-prompt
+ * Uses workflow-specific endpoint: /api/workflows/render-to-cad/generate-prompt
  */
 export function useRenderToCadEnhancerAdapter(
   sourceImage: string | null,
@@ -405,20 +406,21 @@ export function useRenderToCadEnhancerAdapter(
  * Adapter for Render Edit Hook
  *
  * ✅ NEW: Accepts optional apiEndpoint to use workflow-specific edit endpoints
- * @param apiEndpoint - Optional API endpoint (e.g., "/api/style-transfer/edit", "/api/branding/edit")
- *                      Defaults to "/api/sketch-to-render/edit" for backward compatibility
+ * @param apiEndpoint - Optional API endpoint (e.g., "/api/workflows/style-transfer/edit", "/api/workflows/branding/edit")
+ *                      Defaults to "/api/workflows/sketch-to-render/edit" for backward compatibility
  */
 export function useRenderEditAdapter(apiEndpoint?: string): StandardEditHook {
   const hook = useRenderEdit({ apiEndpoint });
 
   return {
     edit: async (params) => {
-      const { editPrompt, currentImageUrl, originalPrompt, referenceImages } = params;
+      const { editPrompt, currentImageUrl, originalPrompt, referenceImages, mask } = params;
       const imageUrl = await hook.editRender(
         editPrompt,
         currentImageUrl,
         originalPrompt,
-        referenceImages
+        referenceImages,
+        mask
       );
 
       if (!imageUrl) {
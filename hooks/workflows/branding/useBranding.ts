@@ -11,7 +11,7 @@ interface UseSketchToRenderOptions extends WorkflowHookOptions {}
  * useBranding Hook
  *
  * Handles main "Generate" functionality for Branding workflow
- * Calls /api/branding to generate photorealistic renderings
+ * Calls /api/workflows/branding to generate photorealistic renderings
  */
 export function useBranding(options: UseSketchToRenderOptions = {}) {
   const [isGenerating, setIsGenerating] = useState(false);
@@ -97,7 +97,7 @@ export function useBranding(options: UseSketchToRenderOptions = {}) {
         setProgress(20);
 
         // Call main generation API
-        const response = await fetch("/api/branding", {
+        const response = await fetch("/api/workflows/branding", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -7,7 +7,7 @@ import { useRenderEdit } from "../common/useRenderEdit";
  * Branding Edit Hook
  *
  * Wrapper around useRenderEdit that automatically uses the correct
- * API endpoint for Branding workflow (/api/branding/edit)
+ * API endpoint for Branding workflow (/api/workflows/branding/edit)
  *
  * Usage:
  *   const { editRender, isEditing } = useBrandingEdit();
@@ -15,6 +15,6 @@ import { useRenderEdit } from "../common/useRenderEdit";
 export function useBrandingEdit(options = {}) {
   return useRenderEdit({
     ...options,
-    apiEndpoint: "/api/branding/edit",
+    apiEndpoint: "/api/workflows/branding/edit",
   });
 }
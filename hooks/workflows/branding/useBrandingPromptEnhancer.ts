@@ -25,7 +25,7 @@ interface EnhancePromptMetadata {
  * useBrandingPromptEnhancer Hook
  *
  * Handles T-Button functionality for Branding workflow
- * Calls /api/branding/generate-prompt (with Two-Stage Enhancement)
+ * Calls /api/workflows/branding/generate-prompt (with Two-Stage Enhancement)
  */
 export function useBrandingPromptEnhancer(options: UseBrandingPromptEnhancerOptions = {}) {
   const [isEnhancing, setIsEnhancing] = useState(false);
@@ -102,7 +102,7 @@ export function useBrandingPromptEnhancer(options: UseBrandingPromptEnhancerOpti
         }
 
         // Call Branding T-Button API (uses Two-Stage Enhancement)
-        const response = await fetch("/api/branding/generate-prompt", {
+        const response = await fetch("/api/workflows/branding/generate-prompt", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
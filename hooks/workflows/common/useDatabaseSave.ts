@@ -20,7 +20,7 @@ export interface UseDatabaseSave {
     parentId?: string;
     settings?: Record<string, unknown>;
     sourceImage?: string;
-  }) => Promise<void>;
+  }) => Promise<string | null>; // Id of the saved generation (null on failure)
 }
 
 /**
@@ -47,7 +47,7 @@ export function useDatabaseSave(config: DatabaseSaveConfig): UseDatabaseSave {
       parentId?: string;
       settings?: Record<string, unknown>;
       sourceImage?: string;
-    }) => {
+    }): Promise<string | null> => {
       try {
         const userId = getUserIdSync();
         workflowLogger.debug("[SaveGeneration] Attempting to save:", {
@@ -58,7 +58,7 @@ export function useDatabaseSave(config: DatabaseSaveConfig): UseDatabaseSave {
           hasSourceImage: !!generation.sourceImage,
         });
 
-        const response = await fetch(`/api/${config.apiEndpoint}/save-generation`, {
+        const response = await fetch(`/api/workflows/${config.apiEndpoint}/save-generation`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -78,18 +78,22 @@ export function useDatabaseSave(config: DatabaseSaveConfig): UseDatabaseSave {
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
           workflowLogger.error("[SaveGeneration] Failed to save:", errorData);
-        } else {
-          await response.json();
-          workflowLogger.info("[SaveGeneration] Successfully saved");
-
-          // ✅ NEW: Trigger callback for auto-refresh
-          config.onSaveComplete?.();
+          return null;
         }
+
+        const data = await response.json();
+        workflowLogger.info("[SaveGeneration] Successfully saved");
+
+        // ✅ NEW: Trigger callback for auto-refresh
+        config.onSaveComplete?.();
+
+        return data.generation?.id != null ? String(data.generation.id) : null;
       } catch (error) {
         workflowLogger.error(
           `[${config.workflowName}] Error saving generation to DB:`,
           error as Error
         );
+        return null;
       }
     },
     [config.apiEndpoint, config.workflowName, config.onSaveComplete]
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { workflowLogger } from "@/lib/logger";
+import { getUserIdSync } from "@/lib/supabase/insert-helper";
+import type { GenerationLineage } from "@/lib/utils/workflowLineage";
+
+export interface UseGenerationLineage {
+  lineage: GenerationLineage | null;
+  isLoadingLineage: boolean;
+  loadLineage: () => Promise<void>;
+}
+
+/**
+ * Hook for the lineage (derivation tree) of a generation
+ * Generations that are not saved yet (e.g. "current") have no lineage
+ */
+export function useGenerationLineage(
+  workflowType: string | undefined,
+  generationId: string | null
+): UseGenerationLineage {
+  const [lineage, setLineage] = useState<GenerationLineage | null>(null);
+  const [isLoadingLineage, setIsLoadingLineage] = useState(false);
+
+  const loadLineage = useCallback(async () => {
+    if (!workflowType || !generationId || generationId === "current") {
+      setLineage(null);
+      return;
+    }
+
+    try {
+      setIsLoadingLineage(true);
+      const userId = getUserIdSync();
+
+      const response = await fetch(
+        `/api/workflows/${workflowType}/generations/${encodeURIComponent(generationId)}/lineage?userId=${encodeURIComponent(userId)}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to load lineage: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setLineage(data.lineage || null);
+    } catch (error) {
+      workflowLogger.error(`[${workflowType}] Error loading lineage:`, error as Error);
+      setLineage(null);
+    } finally {
+      setIsLoadingLineage(false);
+    }
+  }, [workflowType, generationId]);
+
+  useEffect(() => {
+    loadLineage();
+  }, [loadLineage]);
+
+  return {
+    lineage,
+    isLoadingLineage,
+    loadLineage,
+  };
+}
@@ -21,8 +21,9 @@ export function useGenerationLoader<TSettings extends Record<string, unknown>>(
   const handleLoadForEdit = useCallback((gen: Generation) => {
     const mediaType = gen.type === "video" ? "video" : "image";
 
-    // Load result image
+    // Load result image (further edits are derived from this generation)
     workflowState.setResultImage(gen.imageUrl);
+    workflowState.setResultGenerationId(gen.id);
     workflowState.setResultMediaType(mediaType);
     setRenderName(gen.name || "");
     workflowState.setOriginalPrompt(gen.prompt || "");
@@ -51,6 +52,7 @@ export function useGenerationLoader<TSettings extends Record<string, unknown>>(
   const handleLoadForVideo = useCallback((gen: Generation) => {
     const mediaType = gen.type === "video" ? "video" : "image";
     workflowState.setResultImage(gen.imageUrl);
+    workflowState.setResultGenerationId(gen.id);
     workflowState.setResultMediaType(mediaType);
     setRenderName(gen.name || "");
     workflowState.setOriginalPrompt(gen.prompt || "");
@@ -22,7 +22,7 @@ export interface GenerationResult {
 export interface UseGenerationSuccess {
   handleGenerateSuccess: (result: GenerationResult) => Promise<void>;
   handleEditSuccess: (editedImageUrl: string) => Promise<void>;
-  handleUpscaleSuccess: (upscaledImageUrl: string) => Promise<void>;
+  handleUpscaleSuccess: (upscaledImageUrl: string, parentId?: string) => Promise<void>;
 }
 
 /**
@@ -71,29 +71,32 @@ export function useGenerationSuccess<TSettings extends Record<string, unknown>>(
     workflowState.setOriginalPrompt(result.prompt || "");
     setCurrentSourceImage(storageSourceUrl);
 
+    // Save to database
+    const generationId = await databaseSave.saveGenerationToDb({
+      url: storageImageUrl,
+      type: "render",
+      name: autoName,
+      prompt: result.prompt,
+      sourceType: "original",
+      settings: result.settings,
+      sourceImage: storageSourceUrl || undefined,
+    });
+    workflowState.setResultGenerationId(generationId);
+
     // Add to recent generations
     const newGeneration: Generation = {
-      id: result.id || Date.now().toString(),
+      id: generationId || result.id || Date.now().toString(),
       imageUrl: storageImageUrl,
       timestamp: result.timestamp || new Date(),
       prompt: result.prompt,
       name: autoName,
       type: "render",
+      sourceType: "original",
       settings: result.settings,
+      sourceImageUrl: storageSourceUrl || undefined,
     };
     setRecentGenerations((prev) => [newGeneration, ...prev]);
 
-    // Save to database
-    await databaseSave.saveGenerationToDb({
-      url: storageImageUrl,
-      type: "render",
-      name: autoName,
-      prompt: result.prompt,
-      sourceType: "original",
-      settings: result.settings,
-      sourceImage: storageSourceUrl || undefined,
-    });
-
     // Clear prompt and reset settings to default
     workflowLogger.info('[GenerateSuccess] Resetting prompt and settings', {
       currentSettings: workflowState.settings,
@@ -141,34 +144,39 @@ export function useGenerationSuccess<TSettings extends Record<string, unknown>>(
     setRenderName(autoName);
     setCurrentSourceImage(storagePreviousUrl);
 
+    // Save to database (derived from the previous result)
+    const parentId = workflowState.resultGenerationId || undefined;
+    const generationId = await databaseSave.saveGenerationToDb({
+      url: storageEditedUrl,
+      type: "render",
+      name: autoName,
+      prompt: workflowState.originalPrompt || "",
+      sourceType: "from_render",
+      parentId,
+      settings: workflowState.settings,
+      sourceImage: storagePreviousUrl || undefined,
+    });
+    workflowState.setResultGenerationId(generationId);
+
     // Add to recent generations
     const newGeneration: Generation = {
-      id: Date.now().toString(),
+      id: generationId || Date.now().toString(),
       imageUrl: storageEditedUrl,
       timestamp: new Date(),
       name: autoName,
       prompt: workflowState.originalPrompt || "",
       type: "render",
       sourceType: "from_render",
+      parentId,
       settings: workflowState.settings,
+      sourceImageUrl: storagePreviousUrl || undefined,
     };
 
     setRecentGenerations((prev) => [newGeneration, ...prev]);
-
-    // Save to database
-    await databaseSave.saveGenerationToDb({
-      url: storageEditedUrl,
-      type: "render",
-      name: autoName,
-      prompt: workflowState.originalPrompt || "",
-      sourceType: "from_render",
-      settings: workflowState.settings,
-      sourceImage: storagePreviousUrl || undefined,
-    });
   }, [config, workflowState, setRecentGenerations, setCurrentSourceImage, setRenderName, fileUpload, databaseSave]);
 
   // Handle upscale success
-  const handleUpscaleSuccess = useCallback(async (upscaledImageUrl: string) => {
+  const handleUpscaleSuccess = useCallback(async (upscaledImageUrl: string, sourceGenerationId?: string) => {
     workflowLogger.info('[Upscale] Success! Displaying upscaled image in Results View');
 
     const autoName = config.generateFilename();
@@ -203,30 +211,35 @@ export function useGenerationSuccess<TSettings extends Record<string, unknown>>(
 
     window.scrollTo({ top: 0, behavior: "smooth" });
 
+    // Save to database (derived from the upscaled generation or the previous result)
+    const parentId = sourceGenerationId || workflowState.resultGenerationId || undefined;
+    const generationId = await databaseSave.saveGenerationToDb({
+      url: storageUpscaledUrl,
+      type: "upscale",
+      name: autoName,
+      prompt: "",
+      sourceType: "from_render",
+      parentId,
+      settings: workflowState.settings,
+      sourceImage: storagePreviousUrl || undefined,
+    });
+    workflowState.setResultGenerationId(generationId);
+
     // Add to recent generations
     const newGeneration: Generation = {
-      id: Date.now().toString(),
+      id: generationId || Date.now().toString(),
       imageUrl: storageUpscaledUrl,
       timestamp: new Date(),
       name: autoName,
       prompt: "",
       type: "upscale",
       sourceType: "from_render",
+      parentId,
       settings: workflowState.settings,
+      sourceImageUrl: storagePreviousUrl || undefined,
     };
 
     setRecentGenerations((prev) => [newGeneration, ...prev]);
-
-    // Save to database
-    await databaseSave.saveGenerationToDb({
-      url: storageUpscaledUrl,
-      type: "upscale",
-      name: autoName,
-      prompt: "",
-      sourceType: "from_render",
-      settings: workflowState.settings,
-      sourceImage: storagePreviousUrl || undefined,
-    });
   }, [config, workflowState, setRecentGenerations, setCurrentSourceImage, setRenderName, fileUpload, databaseSave]);
 
   return {
@@ -25,7 +25,7 @@ interface EnhancePromptMetadata {
  * usePromptEnhancer Hook
  *
  * Handles T-Button functionality for Sketch-to-Render workflow
- * Calls /api/sketch-to-render/generate-prompt to analyze images and generate prompts
+ * Calls /api/workflows/sketch-to-render/generate-prompt to analyze images and generate prompts
  */
 export function usePromptEnhancer(options: UsePromptEnhancerOptions = {}) {
   const [isEnhancing, setIsEnhancing] = useState(false);
@@ -102,7 +102,7 @@ export function usePromptEnhancer(options: UsePromptEnhancerOptions = {}) {
         }
 
         // Call T-Button API
-        const response = await fetch("/api/sketch-to-render/generate-prompt", {
+        const response = await fetch("/api/workflows/sketch-to-render/generate-prompt", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
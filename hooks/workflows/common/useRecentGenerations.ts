@@ -17,6 +17,8 @@ export interface Generation {
   mediaType?: 'image' | 'video';
   settings?: Record<string, unknown>;
   sourceImageUrl?: string; // Source/input image URL
+  parentId?: string; // Generation this one was derived from (lineage)
+  metadata?: Record<string, unknown>; // e.g. batchId, batchIndex, label of batch variants
 }
 
 export interface UseRecentGenerations {
@@ -46,7 +48,7 @@ export function useRecentGenerations(
       workflowLogger.info(`[${workflowType}] Loading generations for user:`, { userId });
 
       const response = await fetch(
-        `/api/${workflowType}/generations?userId=${encodeURIComponent(userId)}`
+        `/api/workflows/${workflowType}/generations?userId=${encodeURIComponent(userId)}`
       );
 
       if (!response.ok) {
@@ -74,6 +76,8 @@ export function useRecentGenerations(
           mediaType: gen.media_type || gen.mediaType || 'image',
           settings: gen.settings,
           sourceImageUrl: gen.source_image || gen.sourceImage || gen.source_image_url || gen.sourceImageUrl,
+          parentId: gen.parent_id || gen.parentId,
+          metadata: gen.metadata,
         } as Generation;
       });
 
@@ -96,7 +100,7 @@ export function useRecentGenerations(
 
         workflowLogger.info(`[${workflowType}] Deleting generation:`, { generationId: id });
 
-        const response = await fetch(`/api/${workflowType}/delete-generation`, {
+        const response = await fetch(`/api/workflows/${workflowType}/delete-generation`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
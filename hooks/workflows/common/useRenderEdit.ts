@@ -14,11 +14,11 @@ interface UseRenderEditOptions {
  * Handles editing/refining of existing renders
  *
  * ✅ FIXED: Now supports workflow-specific API endpoints via options.apiEndpoint
- * Defaults to /api/sketch-to-render/edit for backward compatibility
+ * Defaults to /api/workflows/sketch-to-render/edit for backward compatibility
  *
  * Usage:
- *   useRenderEdit({ apiEndpoint: "/api/branding/edit" })
- *   useRenderEdit({ apiEndpoint: "/api/style-transfer/edit" })
+ *   useRenderEdit({ apiEndpoint: "/api/workflows/branding/edit" })
+ *   useRenderEdit({ apiEndpoint: "/api/workflows/style-transfer/edit" })
  */
 export function useRenderEdit(options: UseRenderEditOptions = {}) {
   const [isEditing, setIsEditing] = useState(false);
@@ -26,7 +26,7 @@ export function useRenderEdit(options: UseRenderEditOptions = {}) {
   const [progress, setProgress] = useState(0);
 
   // ✅ FIXED: Use configurable API endpoint (defaults to sketch-to-render for backward compatibility)
-  const apiEndpoint = options.apiEndpoint || "/api/sketch-to-render/edit";
+  const apiEndpoint = options.apiEndpoint || "/api/workflows/sketch-to-render/edit";
 
   // Use refs to avoid re-creating callback on every render
   const onSuccessRef = useRef(options.onSuccess);
@@ -56,7 +56,8 @@ export function useRenderEdit(options: UseRenderEditOptions = {}) {
       editPrompt: string,
       currentImageUrl: string,
       originalPrompt?: string,
-      referenceImages?: string[]
+      referenceImages?: string[],
+      mask?: string // Inpainting mask as PNG data URL (white = edit, black = keep)
     ): Promise<string | null> => {
       // Validation
       if (!editPrompt.trim()) {
@@ -116,6 +117,7 @@ export function useRenderEdit(options: UseRenderEditOptions = {}) {
           currentImage: { data: string; mimeType: string };
           originalPrompt?: string;
           referenceImage?: { data: string; mimeType: string }; // ✅ CHANGED: singular referenceImage (not array)
+          mask?: { data: string; mimeType: string };
         } = {
           editPrompt: editPrompt.trim(),
           currentImage: {
@@ -148,6 +150,17 @@ export function useRenderEdit(options: UseRenderEditOptions = {}) {
           }
         }
 
+        // Only the masked region is changed, the API pastes the rest back from the current image
+        if (mask) {
+          const matches = mask.match(/^data:([^;]+);base64,(.+)$/);
+          if (matches && matches[1] && matches[2]) {
+            payload.mask = {
+              data: matches[2],
+              mimeType: matches[1],
+            };
+          }
+        }
+
         // ✅ FIXED: Call workflow-specific edit API (configurable via options)
         const apiResponse = await fetch(apiEndpoint, {
           method: "POST",
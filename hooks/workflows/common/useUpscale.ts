@@ -65,7 +65,7 @@ export function useUpscale(options: UseUpscaleOptions = {}) {
 
           try {
             const response = await fetch(
-              `/api/sketch-to-render/upscale?task_id=${taskId}`
+              `/api/workflows/sketch-to-render/upscale?task_id=${taskId}`
             );
 
             if (!response.ok) {
@@ -294,7 +294,7 @@ export function useUpscale(options: UseUpscaleOptions = {}) {
         };
 
         // Call upscale API to create task
-        const apiResponse = await fetch("/api/sketch-to-render/upscale", {
+        const apiResponse = await fetch("/api/workflows/sketch-to-render/upscale", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -84,29 +84,35 @@ export function useVideoCreation<TSettings extends Record<string, unknown>>(
       setRenderName(autoName);
       setCurrentSourceImage(previousImage);
 
+      // Derived from the previous result
+      const parentId = workflowState.resultGenerationId || undefined;
+      const generationId = await databaseSave.saveGenerationToDb({
+        url: data.videoUrl,
+        type: "video",
+        name: autoName,
+        prompt: videoPrompt,
+        sourceType: "from_render",
+        parentId,
+        settings: workflowState.settings,
+        sourceImage: previousImage || undefined,
+      });
+      workflowState.setResultGenerationId(generationId);
+
       const newGeneration: Generation = {
-        id: data.taskId || Date.now().toString(),
+        id: generationId || data.taskId || Date.now().toString(),
         imageUrl: data.videoUrl,
         timestamp: new Date(),
         name: autoName,
         prompt: videoPrompt,
         type: "video",
         sourceType: "from_render",
+        parentId,
         settings: workflowState.settings,
+        sourceImageUrl: previousImage || undefined,
       };
 
       setRecentGenerations((prev) => [newGeneration, ...prev]);
 
-      await databaseSave.saveGenerationToDb({
-        url: data.videoUrl,
-        type: "video",
-        name: autoName,
-        prompt: videoPrompt,
-        sourceType: "from_render",
-        settings: workflowState.settings,
-        sourceImage: previousImage || undefined,
-      });
-
       window.scrollTo({ top: 0, behavior: "smooth" });
       alert("Video erfolgreich erstellt! ✨");
     } catch (error) {
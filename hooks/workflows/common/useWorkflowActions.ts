@@ -6,35 +6,45 @@
  *
  * Responsibilities:
  * - Workflow actions (enhance, generate, edit, upscale)
- * - Lightbox actions (open, navigate)
+ * - Lightbox actions (open, navigate, lineage)
  * - Crop actions (source, reference, result, complete)
+ * - Preset actions (apply)
  */
 
 'use client';
 
 import { useCallback } from 'react';
 import { workflowLogger } from '@/lib/logger';
+import { convertImageUrlToBase64 } from '@/lib/imageUtils';
+import type { AppliedPreset } from '@/components/workflows/shared/PresetsBar';
 import type { WorkflowPageState } from './useWorkflowPageState';
+import type { LightboxItem } from './useWorkflowLightbox';
+import type { Generation } from './useRecentGenerations';
 
 /**
  * All workflow action handlers
  */
-export interface WorkflowActions {
+export interface WorkflowActions<TSettings extends Record<string, unknown> = Record<string, unknown>> {
   // Workflow Actions
   handleEnhancePrompt: () => Promise<void>;
   handleGenerate: () => Promise<void>;
-  handleEdit: (editPrompt: string, referenceImages?: string[]) => Promise<void>;
-  handleUpscale: (gen?: { imageUrl: string }) => Promise<void>;
+  handleEdit: (editPrompt: string, referenceImages?: string[], mask?: string) => Promise<void>;
+  handleUpscale: (gen?: { id?: string; imageUrl: string }) => Promise<void>;
 
   // Lightbox Actions
   handleResultClick: () => void;
   handleNavigateLightbox: (direction: "prev" | "next") => void;
+  handleSelectLineageGeneration: (item: LightboxItem) => void;
+  handleBranchFromGeneration: (item: LightboxItem) => void;
 
   // Crop Actions
   handleCropSource: () => void;
   handleCropReference: (index: number) => void;
   handleCropResult: () => void;
   handleCropComplete: (croppedImageUrl: string) => Promise<void>;
+
+  // Preset Actions
+  handleApplyPreset: (preset: AppliedPreset<TSettings>) => Promise<void>;
 }
 
 /**
@@ -45,7 +55,7 @@ export interface WorkflowActions {
  */
 export function useWorkflowActions<TSettings extends Record<string, unknown>>(
   state: WorkflowPageState<TSettings>
-): WorkflowActions {
+): WorkflowActions<TSettings> {
 
   // Enhance Prompt
   const handleEnhancePrompt = useCallback(async () => {
@@ -78,7 +88,7 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
   }, [state]);
 
   // Edit
-  const handleEdit = useCallback(async (editPrompt: string, referenceImages?: string[]) => {
+  const handleEdit = useCallback(async (editPrompt: string, referenceImages?: string[], mask?: string) => {
     if (!state.workflowState.resultImage || !editPrompt.trim() || !state.editHook) return;
 
     const result = await state.editHook.edit({
@@ -86,6 +96,7 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
       currentImageUrl: state.workflowState.resultImage,
       originalPrompt: state.workflowState.originalPrompt,
       referenceImages,
+      mask,
     });
 
     if (result) {
@@ -94,7 +105,7 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
   }, [state]);
 
   // Upscale
-  const handleUpscale = useCallback(async (gen?: { imageUrl: string }) => {
+  const handleUpscale = useCallback(async (gen?: { id?: string; imageUrl: string }) => {
     const imageToUpscale = gen?.imageUrl || state.workflowState.resultImage;
     if (!imageToUpscale || !state.upscaleHook) {
       workflowLogger.error('[Upscale] No image to upscale');
@@ -103,7 +114,8 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
 
     const result = await state.upscaleHook.upscale({ imageUrl: imageToUpscale });
     if (result) {
-      await state.handlers.handleUpscaleSuccess(result);
+      // Upscales of a recent generation are derived from it, not from the current result
+      await state.handlers.handleUpscaleSuccess(result, gen?.imageUrl ? gen.id : undefined);
     }
   }, [state]);
 
@@ -166,6 +178,28 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
     }
   }, [state]);
 
+  // Lightbox: Jump to a generation of the lineage
+  const handleSelectLineageGeneration = useCallback((item: LightboxItem) => {
+    const index = state.generations.recentGenerations.findIndex((gen) => gen.id === item.id);
+    state.lightbox.openLightbox(item, index);
+  }, [state]);
+
+  // Lightbox: Load a generation of the lineage, the next edit branches from it
+  const handleBranchFromGeneration = useCallback((item: LightboxItem) => {
+    const gen: Generation = state.generations.recentGenerations.find((g) => g.id === item.id) ?? {
+      id: item.id,
+      imageUrl: item.imageUrl,
+      timestamp: item.timestamp,
+      name: item.name,
+      prompt: item.prompt,
+      type: item.type,
+      sourceImageUrl: item.sourceImageUrl,
+    };
+
+    state.lightbox.closeLightbox();
+    state.handlers.handleLoadForEdit(gen);
+  }, [state]);
+
   // Crop: Source
   const handleCropSource = useCallback(() => {
     const imageToUse = state.workflowState.inputData.sourceImage.originalPreview
@@ -228,6 +262,30 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
     state.crop.closeCropModal();
   }, [state]);
 
+  // Preset: Apply settings, prompt snippet and reference image
+  const handleApplyPreset = useCallback(async (preset: AppliedPreset<TSettings>) => {
+    state.workflowState.setSettings((prev) => ({ ...prev, ...preset.settings }));
+
+    const snippet = preset.prompt?.trim();
+    const currentPrompt = state.workflowState.prompt.trim();
+    if (snippet && !currentPrompt.includes(snippet)) {
+      state.workflowState.setPrompt(currentPrompt ? `${currentPrompt} ${snippet}` : snippet);
+    }
+
+    if (preset.referenceImageUrl) {
+      try {
+        // Generation hooks expect data URLs as previews
+        const preview = await convertImageUrlToBase64(preset.referenceImageUrl);
+        state.workflowState.setInputData((prev) => ({
+          ...prev,
+          referenceImages: [{ file: null, preview, originalPreview: preview }],
+        }));
+      } catch (error) {
+        workflowLogger.error('Failed to load preset reference image', error as Error);
+      }
+    }
+  }, [state.workflowState]);
+
   return {
     handleEnhancePrompt,
     handleGenerate,
@@ -235,9 +293,12 @@ export function useWorkflowActions<TSettings extends Record<string, unknown>>(
     handleUpscale,
     handleResultClick,
     handleNavigateLightbox,
+    handleSelectLineageGeneration,
+    handleBranchFromGeneration,
     handleCropSource,
     handleCropReference,
     handleCropResult,
     handleCropComplete,
+    handleApplyPreset,
   };
 }
@@ -34,12 +34,12 @@ export interface UseWorkflowHandlers {
     parentId?: string;
     settings?: Record<string, unknown>;
     sourceImage?: string;
-  }) => Promise<void>;
+  }) => Promise<string | null>;
 
   // Success handlers
   handleGenerateSuccess: (result: GenerationResult) => Promise<void>;
   handleEditSuccess: (editedImageUrl: string) => Promise<void>;
-  handleUpscaleSuccess: (upscaledImageUrl: string) => Promise<void>;
+  handleUpscaleSuccess: (upscaledImageUrl: string, parentId?: string) => Promise<void>;
 
   // Action handlers
   handleDownload: (imageUrl?: string, filename?: string, mediaType?: "image" | "video") => Promise<void>;
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { workflowLogger } from "@/lib/logger";
+import { getUserIdSync } from "@/lib/supabase/insert-helper";
+import type { WorkflowPreset } from "@/types/workflows/presets";
+
+const TEAM_ID_KEY = "payperwork_team_id";
+
+export interface SavePresetParams<TSettings extends Record<string, unknown>> {
+  name: string;
+  settings: TSettings;
+  prompt?: string;
+  referenceImage?: string | null; // Data URL or URL of a stored image
+  shareWithTeam?: boolean;
+}
+
+export interface UseWorkflowPresets<TSettings extends Record<string, unknown>> {
+  presets: WorkflowPreset<TSettings>[];
+  isLoadingPresets: boolean;
+  userId: string;
+  teamId: string | null;
+  setTeamId: (teamId: string | null) => void;
+  loadPresets: () => Promise<void>;
+  savePreset: (params: SavePresetParams<TSettings>) => Promise<WorkflowPreset<TSettings>>;
+  deletePreset: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook for the user-saved presets of a workflow
+ * Loads the presets of the user and of the user's team (team id is kept in localStorage)
+ */
+export function useWorkflowPresets<TSettings extends Record<string, unknown>>(
+  workflowType: string
+): UseWorkflowPresets<TSettings> {
+  const [presets, setPresets] = useState<WorkflowPreset<TSettings>[]>([]);
+  const [isLoadingPresets, setIsLoadingPresets] = useState(true);
+  const [userId] = useState(() => getUserIdSync());
+  const [teamId, setTeamIdState] = useState<string | null>(() =>
+    typeof window === "undefined" ? null : localStorage.getItem(TEAM_ID_KEY)
+  );
+
+  const setTeamId = useCallback((value: string | null) => {
+    if (value) {
+      localStorage.setItem(TEAM_ID_KEY, value);
+    } else {
+      localStorage.removeItem(TEAM_ID_KEY);
+    }
+    setTeamIdState(value);
+  }, []);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      setIsLoadingPresets(true);
+
+      const params = new URLSearchParams({ userId });
+      if (teamId) {
+        params.set("teamId", teamId);
+      }
+
+      const response = await fetch(`/api/workflows/${workflowType}/presets?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to load presets: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setPresets(data.presets || []);
+    } catch (error) {
+      workflowLogger.error(`[${workflowType}] Error loading presets:`, error as Error);
+      setPresets([]);
+    } finally {
+      setIsLoadingPresets(false);
+    }
+  }, [workflowType, userId, teamId]);
+
+  const savePreset = useCallback(
+    async ({
+      name,
+      settings,
+      prompt,
+      referenceImage,
+      shareWithTeam,
+    }: SavePresetParams<TSettings>) => {
+      const response = await fetch(`/api/workflows/${workflowType}/presets`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          userId,
+          teamId: shareWithTeam ? teamId : null,
+          name,
+          settings,
+          prompt: prompt || null,
+          referenceImage: referenceImage || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Preset konnte nicht gespeichert werden");
+      }
+
+      const preset = data.preset as WorkflowPreset<TSettings>;
+      setPresets((prev) => [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)));
+
+      workflowLogger.info(`[${workflowType}] Preset saved`, { presetId: preset.id });
+      return preset;
+    },
+    [workflowType, userId, teamId]
+  );
+
+  const deletePreset = useCallback(
+    async (id: string) => {
+      const params = new URLSearchParams({ userId });
+      const response = await fetch(`/api/workflows/${workflowType}/presets/${id}?${params}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete preset: ${response.statusText}`);
+      }
+
+      setPresets((prev) => prev.filter((preset) => preset.id !== id));
+    },
+    [workflowType, userId]
+  );
+
+  // Load presets on mount and when the team changes
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  return {
+    presets,
+    isLoadingPresets,
+    userId,
+    teamId,
+    setTeamId,
+    loadPresets,
+    savePreset,
+    deletePreset,
+  };
+}
@@ -26,6 +26,10 @@ export interface WorkflowState<TSettings extends Record<string, unknown>> {
   resultImage: string | null;
   setResultImage: (image: string | null) => void;
 
+  // Database id of the result (parent of edits, upscales and videos made from it)
+  resultGenerationId: string | null;
+  setResultGenerationId: (id: string | null) => void;
+
   resultMediaType: 'image' | 'video';
   setResultMediaType: (type: 'image' | 'video') => void;
 
@@ -57,6 +61,7 @@ export function useWorkflowState<TSettings extends Record<string, unknown>>(
   const [settings, setSettings] = useState<TSettings>(defaultSettings);
   const [inputData, setInputData] = useState<InputData>(DEFAULT_INPUT_DATA);
   const [resultImage, setResultImage] = useState<string | null>(null);
+  const [resultGenerationId, setResultGenerationId] = useState<string | null>(null);
   const [resultMediaType, setResultMediaType] = useState<'image' | 'video'>('image');
   const [originalPrompt, setOriginalPrompt] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
@@ -67,6 +72,7 @@ export function useWorkflowState<TSettings extends Record<string, unknown>>(
     setSettings(defaultSettings);
     setInputData(DEFAULT_INPUT_DATA);
     setResultImage(null);
+    setResultGenerationId(null);
     setResultMediaType('image');
     setOriginalPrompt("");
     setIsGenerating(false);
@@ -82,6 +88,8 @@ export function useWorkflowState<TSettings extends Record<string, unknown>>(
     setInputData,
     resultImage,
     setResultImage,
+    resultGenerationId,
+    setResultGenerationId,
     resultMediaType,
     setResultMediaType,
     originalPrompt,
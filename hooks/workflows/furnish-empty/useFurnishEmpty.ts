@@ -102,7 +102,7 @@ export function useFurnishEmpty(options: UseFurnishEmptyOptions = {}) {
 
         setProgress(20);
 
-        const response = await fetch("/api/furnish-empty", {
+        const response = await fetch("/api/workflows/furnish-empty", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -7,7 +7,7 @@ import { useRenderEdit } from "../common/useRenderEdit";
  * Furnish Empty Edit Hook
  *
  * Wrapper around useRenderEdit that automatically uses the correct
- * API endpoint for Furnish Empty workflow (/api/furnish-empty/edit)
+ * API endpoint for Furnish Empty workflow (/api/workflows/furnish-empty/edit)
  *
  * Usage:
  *   const { editRender, isEditing } = useFurnishEmptyEdit();
@@ -15,6 +15,6 @@ import { useRenderEdit } from "../common/useRenderEdit";
 export function useFurnishEmptyEdit(options = {}) {
   return useRenderEdit({
     ...options,
-    apiEndpoint: "/api/furnish-empty/edit",
+    apiEndpoint: "/api/workflows/furnish-empty/edit",
   });
 }
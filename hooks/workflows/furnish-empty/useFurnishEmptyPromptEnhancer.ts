@@ -17,7 +17,7 @@ interface UseFurnishEmptyPromptEnhancerOptions {
  * useFurnishEmptyPromptEnhancer Hook
  *
  * Handles T-Button functionality for Furnish-Empty workflow
- * Calls /api/furnish-empty/generate-prompt to generate prompts
+ * Calls /api/workflows/furnish-empty/generate-prompt to generate prompts
  */
 export function useFurnishEmptyPromptEnhancer(options: UseFurnishEmptyPromptEnhancerOptions = {}) {
   const [isEnhancing, setIsEnhancing] = useState(false);
@@ -53,7 +53,7 @@ export function useFurnishEmptyPromptEnhancer(options: UseFurnishEmptyPromptEnha
           throw new Error("Source image is required");
         }
 
-        const response = await fetch("/api/furnish-empty/generate-prompt", {
+        const response = await fetch("/api/workflows/furnish-empty/generate-prompt", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -61,7 +61,7 @@ export function useFurnishEmptyPromptEnhancer(options: UseFurnishEmptyPromptEnha
           body: JSON.stringify({
             userPrompt: userPrompt || "",
             sourceImage: sourceImageData,
-            referenceImage: referenceImageData,
+            furnitureImages: referenceImageData ? [referenceImageData] : undefined,
             settings,
           }),
         });
@@ -15,6 +15,7 @@ export { useRecentGenerations } from './common/useRecentGenerations';
 export { useWorkflowLightbox } from './common/useWorkflowLightbox';
 export { useWorkflowState } from './common/useWorkflowState';
 export { useWorkflowHandlers } from './common/useWorkflowHandlers';
+export { useWorkflowPresets } from './common/useWorkflowPresets';
 
 // ===== WORKFLOW-SPECIFIC HOOKS =====
 // Sketch-to-Render
@@ -66,7 +66,7 @@ export function useRenderToCad(options: UseRenderToCadOptions = {}) {
 
         setProgress(20);
 
-        const response = await fetch("/api/render-to-cad", {
+        const response = await fetch("/api/workflows/render-to-cad", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
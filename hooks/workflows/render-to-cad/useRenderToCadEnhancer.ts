@@ -23,7 +23,7 @@ interface EnhancePromptMetadata {
  * useRenderToCadEnhancer Hook
  *
  * Handles T-Button functionality for Render-to-CAD workflow
- * Calls /api/render-to-cad/generate-prompt to analyze images and generate CAD prompts
+ * Calls /api/workflows/render-to-cad/generate-prompt to analyze images and generate CAD prompts
  */
 export function useRenderToCadEnhancer(options: UseRenderToCadEnhancerOptions = {}) {
   const [isEnhancing, setIsEnhancing] = useState(false);
@@ -79,7 +79,7 @@ export function useRenderToCadEnhancer(options: UseRenderToCadEnhancerOptions =
         };
 
         // Call T-Button API for Render-to-CAD
-        const response = await fetch("/api/render-to-cad/generate-prompt", {
+        const response = await fetch("/api/workflows/render-to-cad/generate-prompt", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
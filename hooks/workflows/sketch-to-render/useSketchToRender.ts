@@ -11,7 +11,7 @@ interface UseSketchToRenderOptions extends WorkflowHookOptions {}
  * useSketchToRender Hook
  *
  * Handles main "Generate" functionality for Sketch-to-Render workflow
- * Calls /api/sketch-to-render to generate photorealistic renderings
+ * Calls /api/workflows/sketch-to-render to generate photorealistic renderings
  */
 export function useSketchToRender(options: UseSketchToRenderOptions = {}) {
   const [isGenerating, setIsGenerating] = useState(false);
@@ -97,7 +97,7 @@ export function useSketchToRender(options: UseSketchToRenderOptions = {}) {
         setProgress(20);
 
         // Call main generation API
-        const response = await fetch("/api/sketch-to-render", {
+        const response = await fetch("/api/workflows/sketch-to-render", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -103,7 +103,7 @@ export function useStyleTransfer(options: UseStyleTransferOptions = {}) {
 
       setProgress(20);
 
-      const response = await fetch("/api/style-transfer", {
+      const response = await fetch("/api/workflows/style-transfer", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
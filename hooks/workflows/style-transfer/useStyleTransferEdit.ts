@@ -7,7 +7,7 @@ import { useRenderEdit } from "../common/useRenderEdit";
  * Style Transfer Edit Hook
  *
  * Wrapper around useRenderEdit that automatically uses the correct
- * API endpoint for Style Transfer workflow (/api/style-transfer/edit)
+ * API endpoint for Style Transfer workflow (/api/workflows/style-transfer/edit)
  *
  * Usage:
  *   const { editRender, isEditing } = useStyleTransferEdit();
@@ -15,6 +15,6 @@ import { useRenderEdit } from "../common/useRenderEdit";
 export function useStyleTransferEdit(options = {}) {
   return useRenderEdit({
     ...options,
-    apiEndpoint: "/api/style-transfer/edit",
+    apiEndpoint: "/api/workflows/style-transfer/edit",
   });
 }
@@ -27,7 +27,7 @@ interface EnhancePromptMetadata {
  * Style Transfer-specific T-Button functionality
  * Generates imperative, action-oriented prompts for architectural style transfer
  *
- * Calls /api/style-transfer/generate-prompt to:
+ * Calls /api/workflows/style-transfer/generate-prompt to:
  * 1. Analyze source image (what IS in the image)
  * 2. Analyze reference image style (if provided)
  * 3. Generate imperative transformation commands
@@ -118,7 +118,7 @@ export function useStyleTransferPromptEnhancer(
         }
 
         // Call Style Transfer T-Button API
-        const response = await fetch("/api/style-transfer/generate-prompt", {
+        const response = await fetch("/api/workflows/style-transfer/generate-prompt", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -0,0 +1,22 @@
+/**
+ * Next.js Instrumentation
+ * Runs once when the server starts
+ */
+
+export async function register() {
+  // Background workers only run in the Node.js runtime (not Edge)
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // The video job worker needs the service role key (supabase-admin)
+  // Without it, open clients poll their video tasks themselves (useVideoQueue fallback)
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VIDEO_JOB_WORKER === "off") {
+    const { videoLogger } = await import("@/lib/logger");
+    videoLogger.warn("Video job worker not started - video jobs are only polled by open clients", {
+      reason: process.env.SUPABASE_SERVICE_ROLE_KEY ? "VIDEO_JOB_WORKER=off" : "SUPABASE_SERVICE_ROLE_KEY missing",
+    });
+    return;
+  }
+
+  const { videoJobWorker } = await import("@/lib/video/jobs/VideoJobWorker");
+  videoJobWorker.start();
+}
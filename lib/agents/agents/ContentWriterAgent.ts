@@ -22,7 +22,7 @@
  * @phase Phase 3: Agent Implementation
  */
 
-import { BaseAgent, AgentExecutionContext, AgentResult } from '../base';
+import { BaseAgent, AgentExecutionContext, AgentResult, ToolExecutionOptions } from '../base';
 import { LLMTool } from '../tools/LLMTool';
 import { SearchTool } from '../tools/SearchTool';
 import { BrowserTool } from '../tools/BrowserTool';
@@ -50,6 +50,12 @@ export interface ContentWriterInput {
   /** Enable research mode (optional, default: false) */
   enableResearch?: boolean;
 
+  /** Research from an upstream workflow step (optional, used instead of enableResearch) */
+  research?: {
+    sources: Array<{ title: string; url: string; snippet: string }>;
+    keyPoints: string[];
+  };
+
   /** Additional context or instructions */
   context?: string;
 
@@ -150,12 +156,14 @@ export class ContentWriterAgent extends BaseAgent<
           }
         | undefined;
 
-      if (input.enableResearch) {
+      if (input.research) {
+        research = input.research;
+      } else if (input.enableResearch) {
         this.emitProgress('content_writer:research_started', {
           topic: input.topic,
         });
 
-        research = await this.conductResearch(input.topic);
+        research = await this.conductResearch(input.topic, this.toolOptions(context));
 
         this.emitProgress('content_writer:research_completed', {
           sourceCount: research.sources.length,
@@ -167,7 +175,7 @@ export class ContentWriterAgent extends BaseAgent<
         topic: input.topic,
       });
 
-      const content = await this.generateContent(input, research);
+      const content = await this.generateContent(input, research, this.toolOptions(context));
 
       this.emitProgress('content_writer:generation_completed', {
         wordCount: this.countWords(content),
@@ -226,14 +234,17 @@ export class ContentWriterAgent extends BaseAgent<
   /**
    * Conduct research on a topic
    */
-  private async conductResearch(topic: string): Promise<{
+  private async conductResearch(
+    topic: string,
+    options?: ToolExecutionOptions
+  ): Promise<{
     sources: Array<{ title: string; url: string; snippet: string }>;
     keyPoints: string[];
   }> {
     this.log('debug', 'Conducting research', { topic });
 
     // Search for information
-    const searchResults = await this.searchTool.search(topic, 5);
+    const searchResults = await this.searchTool.search(topic, 5, options);
 
     // Extract key information from search results
     const sources = searchResults.map((result) => ({
@@ -252,7 +263,11 @@ ${snippetsText}
 Respond with a JSON array of key points:
 ["point 1", "point 2", ...]`;
 
-    const keyPoints = await this.llmTool.generateJSON<string[]>(keyPointsPrompt);
+    const keyPoints = await this.llmTool.generateJSON<string[]>(
+      keyPointsPrompt,
+      undefined,
+      options
+    );
 
     this.log('debug', 'Research completed', {
       sourceCount: sources.length,
@@ -270,7 +285,8 @@ Respond with a JSON array of key points:
     research?: {
       sources: Array<{ title: string; url: string; snippet: string }>;
       keyPoints: string[];
-    }
+    },
+    options?: ToolExecutionOptions
   ): Promise<string> {
     const {
       topic,
@@ -331,6 +347,7 @@ Respond with a JSON array of key points:
       {
         temperature: contentType === 'creative' ? 0.9 : 0.7,
         maxTokens: this.estimateTokens(wordCount),
+        ...options,
       }
     );
 
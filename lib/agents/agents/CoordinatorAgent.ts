@@ -25,13 +25,17 @@ import {
   BaseAgent,
   AgentExecutionContext,
   AgentResult,
+  DomainPolicy,
   WorkflowPlan,
   WorkflowStep,
+  stepOutput,
 } from '../base';
 import { AgentOrchestrator } from '../base/AgentOrchestrator';
+import { ToolFixtureConfig } from '../base/ToolFixtureStore';
 import { LLMTool } from '../tools/LLMTool';
 import { ContentWriterAgent } from './ContentWriterAgent';
 import { ResearchAgent } from './ResearchAgent';
+import { supabaseWorkflowRunStore } from '../../supabase-agent-runs';
 
 // ============================================
 // Coordinator Input/Output Types
@@ -119,6 +123,7 @@ export class CoordinatorAgent extends BaseAgent<
       name: 'MainOrchestrator',
       description: 'Orchestrates multi-agent workflows',
       maxParallelSteps: 2,
+      store: supabaseWorkflowRunStore,
     });
 
     // Initialize tools
@@ -177,7 +182,10 @@ export class CoordinatorAgent extends BaseAgent<
         stepCount: plan.steps.length,
       });
 
-      const workflowResult = await this.orchestrator.executeWorkflow(plan);
+      const workflowResult = await this.orchestrator.executeWorkflow(plan, {
+        signal: context.signal,
+        usage: context.usage,
+      });
 
       if (!workflowResult.success) {
         throw new Error(
@@ -269,6 +277,8 @@ Available agents:
 2. content_writer - Generates content (articles, blog posts, slides)
 
 Create a workflow plan with steps. Each step should use one agent.
+A step can use the output of a step it depends on by putting a reference in its input:
+{ "$ref": "steps.<step name>.output.<path>" } (e.g. { "$ref": "steps.step_1.output.sources" }).
 
 Respond in JSON format:
 {
@@ -291,7 +301,7 @@ Respond in JSON format:
         input: any;
         dependencies?: string[];
       }>;
-    }>(planPrompt);
+    }>(planPrompt, undefined, this.toolOptions(context));
 
     // Convert to WorkflowPlan
     const plan: WorkflowPlan = {
@@ -343,6 +353,10 @@ Respond in JSON format:
           contentType: 'slide',
           audience,
           enableResearch: false, // Already have research from step 1
+          research: {
+            sources: stepOutput('research_topic', 'sources'),
+            keyPoints: stepOutput('research_topic', 'keyFindings'),
+          },
         },
         context,
         dependencies: ['research_topic'], // Depends on research
@@ -416,7 +430,40 @@ Respond in JSON format:
    * Register additional agent
    */
   registerAgent(name: string, agent: BaseAgent): void {
+    if (this.toolFixtures) {
+      agent.useToolFixtures(this.toolFixtures);
+    }
     this.orchestrator.registerAgent(name, agent);
     this.log('debug', `Additional agent registered: ${name}`);
   }
+
+  /**
+   * Record/replay the tool calls of the coordinator and all workflow agents
+   */
+  useToolFixtures(config: ToolFixtureConfig | null): void {
+    super.useToolFixtures(config);
+    for (const agent of this.getWorkflowAgents()) {
+      agent.useToolFixtures(config);
+    }
+  }
+
+  /**
+   * Apply the domain policy to the coordinator and all workflow agents
+   */
+  setDomainPolicy(policy?: DomainPolicy): void {
+    super.setDomainPolicy(policy);
+    for (const agent of this.getWorkflowAgents()) {
+      agent.setDomainPolicy(policy);
+    }
+  }
+
+  /**
+   * Agents registered with the orchestrator
+   */
+  private getWorkflowAgents(): BaseAgent[] {
+    return this.orchestrator
+      .getRegisteredAgents()
+      .map((name) => this.orchestrator.getAgent(name))
+      .filter((agent): agent is BaseAgent => agent !== undefined);
+  }
 }
@@ -16,7 +16,7 @@
  * @phase Phase 3: Agent Implementation
  */
 
-import { BaseAgent, AgentExecutionContext, AgentResult } from '../base';
+import { BaseAgent, AgentExecutionContext, AgentResult, ToolExecutionOptions } from '../base';
 import { LLMTool } from '../tools/LLMTool';
 import { SearchTool } from '../tools/SearchTool';
 import { BrowserTool } from '../tools/BrowserTool';
@@ -132,13 +132,14 @@ export class ResearchAgent extends BaseAgent<
       const sources = await this.gatherSources(
         topic,
         targetSourceCount,
-        includeNews
+        includeNews,
+        this.toolOptions(context)
       );
 
       // Step 2: Analyze sources and extract key findings
       this.emitProgress('research:analyzing', { sourceCount: sources.length });
       const { keyFindings, summary, detailedAnalysis } =
-        await this.analyzeSources(topic, sources, depth);
+        await this.analyzeSources(topic, sources, depth, this.toolOptions(context));
 
       const executionTime = Date.now() - startTime;
 
@@ -192,12 +193,13 @@ export class ResearchAgent extends BaseAgent<
   private async gatherSources(
     topic: string,
     count: number,
-    includeNews: boolean
+    includeNews: boolean,
+    options?: ToolExecutionOptions
   ): Promise<ResearchSource[]> {
     const sources: ResearchSource[] = [];
 
     // Web search
-    const webResults = await this.searchTool.search(topic, count);
+    const webResults = await this.searchTool.search(topic, count, options);
     sources.push(
       ...webResults.map((r) => ({
         title: r.title,
@@ -209,7 +211,7 @@ export class ResearchAgent extends BaseAgent<
 
     // News search (if enabled)
     if (includeNews) {
-      const newsResults = await this.searchTool.searchNews(topic, 3);
+      const newsResults = await this.searchTool.searchNews(topic, 3, options);
       sources.push(
         ...newsResults.map((r) => ({
           title: r.title,
@@ -231,7 +233,8 @@ export class ResearchAgent extends BaseAgent<
   private async analyzeSources(
     topic: string,
     sources: ResearchSource[],
-    depth: string
+    depth: string,
+    options?: ToolExecutionOptions
   ): Promise<{
     keyFindings: string[];
     summary: string;
@@ -266,7 +269,7 @@ Respond in JSON format:
       summary: string;
       keyFindings: string[];
       detailedAnalysis?: string;
-    }>(analysisPrompt);
+    }>(analysisPrompt, undefined, options);
 
     return analysis;
   }
@@ -8,9 +8,13 @@
  * - Agent registration and management
  * - Workflow execution with dependency resolution
  * - Parallel step execution where possible
+ * - Per-step retries, conditional branches and fan-out/fan-in over arrays
  * - Progress tracking and WebSocket events
  * - Comprehensive error handling
  * - Execution history and analytics
+ * - Persistent runs (pluggable store) with resume from the last completed step
+ * - Cancellation (AbortSignal) and workflow/per-step timeouts
+ * - Token usage and cost per step and per run
  *
  * @author Payperwork Team
  * @date 2025-10-19
@@ -26,7 +30,24 @@ import {
   AgentResult,
   LogLevel,
   AgentLogEntry,
+  WorkflowRun,
+  WorkflowRunFilter,
+  WorkflowStepRun,
+  WorkflowStepStatus,
+  StepFanOut,
 } from './types';
+import { WorkflowRunStore, InMemoryWorkflowRunStore } from './WorkflowRunStore';
+import {
+  collectStepReferences,
+  evaluateStepConditions,
+  getRetryDelay,
+  getValueAtPath,
+  parseStepReference,
+  resolveStepReferences,
+} from './workflowUtils';
+import { AbortedError, getAbortReason, linkSignal, raceWithSignal } from './cancellation';
+import { UsageTracker, mergeUsage } from './usage';
+import { createConcurrencyLimiter, ConcurrencyLimiter } from '../../utils/concurrency';
 
 // ============================================
 // Orchestrator Configuration
@@ -37,7 +58,17 @@ export interface OrchestratorConfig {
   description?: string;
   maxParallelSteps?: number; // Max concurrent steps (default: 3)
   timeout?: number; // Workflow timeout in ms (default: 600000 = 10 min)
+  stepTimeout?: number; // Per-attempt step timeout in ms (default: none, see WorkflowStep.timeout)
   enableLogging?: boolean;
+  store?: WorkflowRunStore; // Run persistence (default: in-memory)
+}
+
+export interface WorkflowExecutionOptions {
+  /** Cancels the run: running steps are aborted and no new steps start */
+  signal?: AbortSignal;
+
+  /** Receives the usage records of all steps (e.g. the calling agent's tracker) */
+  usage?: UsageTracker;
 }
 
 // ============================================
@@ -45,14 +76,21 @@ export interface OrchestratorConfig {
 // ============================================
 
 interface StepExecutionContext {
+  runId: string;
   stepId: string;
+  stepName: string;
   agentName: string;
   startTime: number;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  endTime?: number;
+  attempts?: number;
+  status: WorkflowStepStatus;
   result?: AgentResult;
   error?: string;
 }
 
+// Runs executing in this process (shared across orchestrator instances), used for cancellation
+const activeRuns = new Map<string, AbortController>();
+
 // ============================================
 // AgentOrchestrator Class
 // ============================================
@@ -67,6 +105,7 @@ export class AgentOrchestrator {
     executionTime: number;
   }> = [];
   private logs: AgentLogEntry[] = [];
+  private store: WorkflowRunStore;
 
   constructor(config: OrchestratorConfig) {
     this.config = {
@@ -75,6 +114,7 @@ export class AgentOrchestrator {
       enableLogging: true,
       ...config,
     };
+    this.store = config.store || new InMemoryWorkflowRunStore();
     this.log('info', `Orchestrator initialized: ${config.name}`);
   }
 
@@ -105,6 +145,13 @@ export class AgentOrchestrator {
     return Array.from(this.agents.keys());
   }
 
+  /**
+   * Get a registered agent
+   */
+  getAgent(name: string): BaseAgent | undefined {
+    return this.agents.get(name);
+  }
+
   /**
    * Check if an agent is registered
    */
@@ -121,24 +168,171 @@ export class AgentOrchestrator {
    *
    * Executes all steps in the workflow, respecting dependencies
    * and running independent steps in parallel where possible.
+   * The run and every step result are persisted to the run store.
+   * Aborting `options.signal` (or cancelWorkflow) cancels the run.
+   * Token usage and cost are reported per step (`metadata.usage`) and as `result.usage`.
+   */
+  async executeWorkflow(
+    plan: WorkflowPlan,
+    options: WorkflowExecutionOptions = {}
+  ): Promise<WorkflowResult> {
+    const runId = `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    return this.runWorkflow(plan, { id: runId, resumeCount: 0, executionTime: 0 }, [], options);
+  }
+
+  /**
+   * Resume a failed or interrupted workflow run
+   *
+   * Completed steps are not executed again - their persisted results are
+   * reused as dependency data. Failed, interrupted, cancelled and pending steps run again.
+   */
+  async resumeWorkflow(
+    runId: string,
+    options: WorkflowExecutionOptions = {}
+  ): Promise<WorkflowResult> {
+    const run = await this.store.getRun(runId);
+    if (!run) {
+      throw new Error(`Workflow run not found: ${runId}`);
+    }
+
+    if (activeRuns.has(runId)) {
+      throw new Error(`Workflow run is already executing: ${runId}`);
+    }
+
+    const completedSteps = run.steps.filter(
+      (step) => step.status === 'completed' && step.result?.success
+    );
+
+    if (run.status === 'completed') {
+      this.log('info', `Workflow run already completed: ${run.plan.name}`, { runId });
+      return this.buildCompletedResult(run, completedSteps);
+    }
+
+    this.log('info', `Resuming workflow: ${run.plan.name}`, {
+      runId,
+      completedSteps: completedSteps.length,
+      totalSteps: run.plan.steps.length,
+    });
+
+    return this.runWorkflow(
+      run.plan,
+      {
+        id: runId,
+        resumeCount: run.resumeCount + 1,
+        executionTime: run.executionTime || 0,
+        usage: run.usage,
+      },
+      completedSteps,
+      options
+    );
+  }
+
+  /**
+   * Cancel a workflow run
+   *
+   * A run executing in this process is aborted: running steps stop, no new
+   * steps start and completed step results are kept (the run can be resumed).
+   * A run left 'running' by a process that no longer executes it is marked cancelled.
+   *
+   * @returns False if the run doesn't exist or has already finished
+   */
+  async cancelWorkflow(runId: string, reason: string = 'Workflow cancelled'): Promise<boolean> {
+    const controller = activeRuns.get(runId);
+    if (controller) {
+      this.log('info', `Cancelling workflow run`, { runId, reason });
+      controller.abort(new AbortedError(reason));
+      return true;
+    }
+
+    const run = await this.store.getRun(runId);
+    if (!run || run.status !== 'running') {
+      return false;
+    }
+
+    await this.store.updateRun(runId, {
+      status: 'cancelled',
+      errors: [reason],
+      completedAt: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  /**
+   * Check whether a run is executing in this process
+   */
+  isRunActive(runId: string): boolean {
+    return activeRuns.has(runId);
+  }
+
+  /**
+   * Execute (or continue) a persisted workflow run
    */
-  async executeWorkflow(plan: WorkflowPlan): Promise<WorkflowResult> {
+  private async runWorkflow(
+    plan: WorkflowPlan,
+    run: Pick<WorkflowRun, 'id' | 'resumeCount' | 'usage'> & { executionTime: number },
+    completedSteps: WorkflowStepRun[],
+    options: WorkflowExecutionOptions
+  ): Promise<WorkflowResult> {
     const startTime = Date.now();
+    const isResume = run.resumeCount > 0;
+    let persisted = false;
+
+    // Aborts on cancelWorkflow, the caller's signal or the workflow timeout
+    const controller = new AbortController();
+    const { signal, cleanup } = linkSignal(
+      [controller.signal, options.signal],
+      this.config.timeout,
+      `Workflow timed out after ${this.config.timeout}ms`
+    );
+    const isCancelled = () => controller.signal.aborted || !!options.signal?.aborted;
+
+    // Usage of this execution (the run's usage also includes previous executions)
+    const usage = new UsageTracker(options.usage);
 
     this.log('info', `Starting workflow: ${plan.name}`, {
       planId: plan.id,
+      runId: run.id,
       stepCount: plan.steps.length,
     });
 
+    activeRuns.set(run.id, controller);
+
     try {
       // Validate workflow plan
       this.validateWorkflowPlan(plan);
 
+      // Persist the run before executing any step
+      if (isResume) {
+        await this.persist('update run', () =>
+          this.store.updateRun(run.id, {
+            status: 'running',
+            errors: [],
+            resumeCount: run.resumeCount,
+          })
+        );
+      } else {
+        await this.persist('create run', () =>
+          this.store.createRun({
+            id: run.id,
+            orchestratorName: this.config.name,
+            userId: plan.steps[0]?.context.userId,
+            plan: this.toPersistedPlan(plan),
+            status: 'running',
+            resumeCount: 0,
+            steps: [],
+            startedAt: new Date(startTime).toISOString(),
+          })
+        );
+      }
+      persisted = true;
+
       // Initialize step execution contexts
       const stepContexts = new Map<string, StepExecutionContext>();
       for (const step of plan.steps) {
         stepContexts.set(step.id, {
+          runId: run.id,
           stepId: step.id,
+          stepName: step.name,
           agentName: step.agentName,
           startTime: 0,
           status: 'pending',
@@ -150,26 +344,68 @@ export class AgentOrchestrator {
       const dataResults: Record<string, any> = {};
       const errors: string[] = [];
 
+      // Seed results of steps completed in a previous attempt
+      const completedIds = new Set(completedSteps.map((step) => step.stepId));
+      for (const completed of completedSteps) {
+        const step = plan.steps.find((s) => s.id === completed.stepId);
+        const context = stepContexts.get(completed.stepId);
+        if (!step || !context || !completed.result) continue;
+
+        stepResults[step.id] = completed.result;
+        if (completed.result.data !== undefined) {
+          dataResults[step.name] = completed.result.data;
+        }
+        context.status = 'completed';
+        context.result = completed.result;
+      }
+
       // Execute steps in dependency order
       await this.executeStepsWithDependencies(
-        plan.steps,
+        plan.steps.filter((step) => !completedIds.has(step.id)),
         stepContexts,
         stepResults,
         dataResults,
-        errors
+        errors,
+        signal,
+        usage
       );
 
-      const executionTime = Date.now() - startTime;
+      // Completed step results are kept so an aborted run can be resumed
+      const interrupted =
+        signal.aborted &&
+        Array.from(stepContexts.values()).some(
+          (context) => context.status !== 'completed' && context.status !== 'skipped'
+        );
+      if (interrupted) {
+        errors.unshift(getAbortReason(signal));
+      }
+
+      const executionTime = run.executionTime + (Date.now() - startTime);
       const success = errors.length === 0;
+      const cancelled = interrupted && isCancelled();
+      const status = success ? 'completed' : cancelled ? 'cancelled' : 'failed';
+      const runUsage = mergeUsage(run.usage, usage.getSummary());
+
+      await this.persist('update run', () =>
+        this.store.updateRun(run.id, {
+          status,
+          errors,
+          completedAt: new Date().toISOString(),
+          executionTime,
+          usage: runUsage,
+        })
+      );
 
       this.log(
-        success ? 'info' : 'error',
-        `Workflow ${success ? 'completed' : 'failed'}: ${plan.name}`,
+        success ? 'info' : cancelled ? 'warn' : 'error',
+        `Workflow ${status}: ${plan.name}`,
         {
           planId: plan.id,
+          runId: run.id,
           executionTime,
           stepCount: plan.steps.length,
           errorCount: errors.length,
+          costUsd: runUsage.costUsd,
         }
       );
 
@@ -180,10 +416,18 @@ export class AgentOrchestrator {
         success,
         executionTime,
         errors: errors.length > 0 ? errors : undefined,
+        runId: run.id,
+        usage: runUsage,
         metadata: {
           orchestratorName: this.config.name,
           completedSteps: Object.keys(stepResults).length,
+          skippedSteps: Array.from(stepContexts.values()).filter(
+            (context) => context.status === 'skipped'
+          ).length,
           totalSteps: plan.steps.length,
+          resumedSteps: completedIds.size,
+          resumeCount: run.resumeCount,
+          cancelled,
         },
       };
 
@@ -197,105 +441,123 @@ export class AgentOrchestrator {
 
       return result;
     } catch (error) {
-      const executionTime = Date.now() - startTime;
+      const executionTime = run.executionTime + (Date.now() - startTime);
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
 
       this.log('error', `Workflow execution failed: ${plan.name}`, {
+        runId: run.id,
         error: errorMessage,
       });
 
+      const runUsage = mergeUsage(run.usage, usage.getSummary());
+
+      if (persisted) {
+        await this.persist('update run', () =>
+          this.store.updateRun(run.id, {
+            status: 'failed',
+            errors: [errorMessage],
+            completedAt: new Date().toISOString(),
+            executionTime,
+            usage: runUsage,
+          })
+        );
+      }
+
       return {
         plan,
         stepResults: {},
         success: false,
         executionTime,
         errors: [errorMessage],
+        runId: persisted ? run.id : undefined,
+        usage: runUsage,
         metadata: {
           orchestratorName: this.config.name,
         },
       };
+    } finally {
+      cleanup();
+      activeRuns.delete(run.id);
     }
   }
 
   /**
    * Execute steps with dependency resolution
    *
-   * Executes steps in topological order, running independent steps in parallel
+   * Starts each step as soon as all of its dependencies have finished.
+   * Agent executions (including retries and fan-out items) share the
+   * maxParallelSteps limit. Steps whose condition doesn't hold are skipped,
+   * and so are steps whose dependencies were all skipped (branch not taken).
+   * Once the signal aborts no new steps start; running steps are aborted.
    */
   private async executeStepsWithDependencies(
     steps: WorkflowStep[],
     stepContexts: Map<string, StepExecutionContext>,
     stepResults: Record<string, AgentResult>,
     dataResults: Record<string, any>,
-    errors: string[]
+    errors: string[],
+    signal: AbortSignal,
+    usage: UsageTracker
   ): Promise<void> {
-    // Build dependency graph
-    const dependencyGraph = this.buildDependencyGraph(steps);
-
-    // Find steps with no dependencies (can run immediately)
-    const readySteps = steps.filter(
-      (step) => !step.dependencies || step.dependencies.length === 0
-    );
-
-    // Execute ready steps
-    for (const step of readySteps) {
-      await this.executeStep(
-        step,
-        stepContexts,
-        stepResults,
-        dataResults,
-        errors
-      );
-    }
-
-    // Execute remaining steps as dependencies are satisfied
-    const remainingSteps = steps.filter((step) => !readySteps.includes(step));
-
-    while (remainingSteps.length > 0) {
-      // Find steps whose dependencies are all completed
-      const nowReady = remainingSteps.filter((step) =>
-        this.areDependenciesSatisfied(step, stepResults)
-      );
-
-      if (nowReady.length === 0) {
-        // No more steps can be executed - check if all dependencies failed
-        const allFailed = remainingSteps.every((step) =>
-          step.dependencies?.some((dep) => {
-            const depStep = steps.find((s) => s.name === dep);
-            return depStep && stepResults[depStep.id]?.success === false;
-          })
-        );
+    const limit = createConcurrencyLimiter(this.config.maxParallelSteps || 3);
+    const contextsByName = new Map<string, StepExecutionContext>();
+    stepContexts.forEach((context) => contextsByName.set(context.stepName, context));
+
+    const pending = [...steps];
+    const running = new Map<string, Promise<void>>();
+
+    while (pending.length > 0 || running.size > 0) {
+      // Start (or skip) every step whose dependencies have finished.
+      // Skipping a step can unblock others, so repeat until nothing changes.
+      let progressed = !signal.aborted;
+      while (progressed && !signal.aborted) {
+        progressed = false;
+
+        for (const step of [...pending]) {
+          const state = this.getDependencyState(step, contextsByName);
+          if (state === 'waiting') continue;
+
+          pending.splice(pending.indexOf(step), 1);
+          progressed = true;
+
+          if (state === 'blocked') {
+            const errorMsg = `Step ${step.name} blocked: a dependency failed`;
+            errors.push(errorMsg);
+            this.log('warn', errorMsg, { stepId: step.id });
+          } else if (state === 'skipped') {
+            await this.skipStep(step, stepContexts, 'all dependencies were skipped');
+          } else if (!evaluateStepConditions(step.condition, dataResults)) {
+            await this.skipStep(step, stepContexts, 'condition not met');
+          } else {
+            running.set(
+              step.id,
+              this.executeStep(
+                step,
+                stepContexts,
+                stepResults,
+                dataResults,
+                errors,
+                limit,
+                signal,
+                usage
+              ).finally(() => running.delete(step.id))
+            );
+          }
+        }
+      }
 
-        if (allFailed) {
+      if (running.size === 0) {
+        if (pending.length > 0 && !signal.aborted) {
           errors.push(
-            'Workflow blocked: All remaining steps have failed dependencies'
+            `Workflow blocked: ${pending.map((step) => step.name).join(', ')} can never run`
           );
-          break;
         }
-
-        // Wait a bit before checking again
-        await this.sleep(100);
-        continue;
+        break;
       }
 
-      // Execute ready steps (with parallelism limit)
-      const maxParallel = this.config.maxParallelSteps || 3;
-      const batch = nowReady.slice(0, maxParallel);
-
-      await Promise.all(
-        batch.map((step) =>
-          this.executeStep(step, stepContexts, stepResults, dataResults, errors)
-        )
-      );
-
-      // Remove executed steps from remaining
-      batch.forEach((step) => {
-        const index = remainingSteps.indexOf(step);
-        if (index !== -1) {
-          remainingSteps.splice(index, 1);
-        }
-      });
+      // Wait for any running step to finish
+      await Promise.race(running.values());
     }
   }
 
@@ -307,7 +569,10 @@ export class AgentOrchestrator {
     stepContexts: Map<string, StepExecutionContext>,
     stepResults: Record<string, AgentResult>,
     dataResults: Record<string, any>,
-    errors: string[]
+    errors: string[],
+    limit: ConcurrencyLimiter,
+    signal: AbortSignal,
+    runUsage: UsageTracker
   ): Promise<void> {
     const context = stepContexts.get(step.id);
     if (!context) {
@@ -319,6 +584,8 @@ export class AgentOrchestrator {
       // Update context
       context.status = 'running';
       context.startTime = Date.now();
+      context.attempts = 0;
+      await this.persistStep(context);
 
       this.log('debug', `Executing step: ${step.name}`, {
         stepId: step.id,
@@ -334,8 +601,26 @@ export class AgentOrchestrator {
       // Resolve input with dependency data
       const input = this.resolveDependencies(step, dataResults);
 
-      // Execute agent
-      const result = await agent.executeWithTracking(input, step.context);
+      // Execute agent (once, or once per item for fan-out steps)
+      // The step's usage covers all attempts and items
+      const usage = new UsageTracker(runUsage);
+      const execution = step.forEach
+        ? await this.executeFanOut(
+            step,
+            step.forEach,
+            agent,
+            input,
+            dataResults,
+            context,
+            limit,
+            signal,
+            usage
+          )
+        : await this.executeWithRetry(step, agent, input, context, limit, signal, usage);
+      const result: AgentResult =
+        usage.size > 0
+          ? { ...execution, metadata: { ...execution.metadata, usage: usage.getSummary() } }
+          : execution;
 
       // Store result
       stepResults[step.id] = result;
@@ -346,19 +631,24 @@ export class AgentOrchestrator {
       // Update context
       context.status = result.success ? 'completed' : 'failed';
       context.result = result;
+      context.endTime = Date.now();
 
       if (!result.success) {
         const errorMsg = `Step ${step.name} failed: ${result.error}`;
-        errors.push(errorMsg);
+        // The run reports the cancellation once, not per aborted step
+        if (!signal.aborted) errors.push(errorMsg);
         context.error = errorMsg;
       }
 
+      await this.persistStep(context);
+
       this.log(
         result.success ? 'debug' : 'error',
         `Step ${result.success ? 'completed' : 'failed'}: ${step.name}`,
         {
           stepId: step.id,
           success: result.success,
+          attempts: context.attempts,
           executionTime: result.metadata?.executionTime,
         }
       );
@@ -377,9 +667,212 @@ export class AgentOrchestrator {
         success: false,
         error: errorMsg,
       };
+      context.result = stepResults[step.id];
+      context.endTime = Date.now();
+
+      await this.persistStep(context);
     }
   }
 
+  /**
+   * Execute an agent, retrying failed executions according to the step's retry policy
+   *
+   * Each attempt gets its own timeout (step.timeout or config.stepTimeout);
+   * a timed out attempt is retried, a cancelled workflow is not.
+   */
+  private async executeWithRetry(
+    step: WorkflowStep,
+    agent: BaseAgent,
+    input: Record<string, unknown>,
+    context: StepExecutionContext,
+    limit: ConcurrencyLimiter,
+    signal: AbortSignal,
+    usage: UsageTracker
+  ): Promise<AgentResult> {
+    const policy = step.retry;
+    const maxAttempts = policy?.maxAttempts ?? 1;
+    const timeout = step.timeout ?? this.config.stepTimeout;
+
+    for (let attempt = 1; ; attempt++) {
+      context.attempts = (context.attempts ?? 0) + 1;
+      const result = await limit(async () => {
+        // Start the timeout once the attempt actually runs (not while queued)
+        const attemptSignal = linkSignal(
+          signal,
+          timeout,
+          `Step ${step.name} timed out after ${timeout}ms`
+        );
+        try {
+          return await agent.executeWithTracking(input, {
+            ...step.context,
+            signal: attemptSignal.signal,
+            usage,
+          });
+        } finally {
+          attemptSignal.cleanup();
+        }
+      });
+
+      if (result.success || !policy || attempt >= maxAttempts || signal.aborted) {
+        return { ...result, metadata: { ...result.metadata, attempts: attempt } };
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      this.log('warn', `Retrying step ${step.name} in ${delay}ms`, {
+        stepId: step.id,
+        attempt,
+        maxAttempts,
+        error: result.error,
+      });
+      await raceWithSignal(this.sleep(delay), signal).catch(() => {});
+    }
+  }
+
+  /**
+   * Execute an agent once per item of an upstream output array (fan-out)
+   * The step succeeds only if every item succeeds; its data is the array of item outputs.
+   */
+  private async executeFanOut(
+    step: WorkflowStep,
+    fanOut: StepFanOut,
+    agent: BaseAgent,
+    input: Record<string, unknown>,
+    dataResults: Record<string, unknown>,
+    context: StepExecutionContext,
+    limit: ConcurrencyLimiter,
+    signal: AbortSignal,
+    usage: UsageTracker
+  ): Promise<AgentResult> {
+    const startTime = Date.now();
+    const items = getValueAtPath(dataResults[fanOut.step], fanOut.path);
+    const source = fanOut.path ? `${fanOut.step}.${fanOut.path}` : fanOut.step;
+
+    if (!Array.isArray(items)) {
+      return { success: false, error: `forEach source ${source} is not an array` };
+    }
+
+    const key = fanOut.as || 'item';
+    const itemResults = await Promise.all(
+      items.map((item) =>
+        this.executeWithRetry(step, agent, { ...input, [key]: item }, context, limit, signal, usage)
+      )
+    );
+
+    const failures = itemResults
+      .map((result, index) => (result.success ? null : `item ${index}: ${result.error}`))
+      .filter((failure): failure is string => failure !== null);
+
+    return {
+      success: failures.length === 0,
+      data: itemResults.map((result) => result.data),
+      error:
+        failures.length > 0
+          ? `${failures.length} of ${items.length} items failed (${failures.join('; ')})`
+          : undefined,
+      metadata: {
+        executionTime: Date.now() - startTime,
+        items: items.length,
+        failedItems: failures.length,
+        attempts: context.attempts,
+      },
+    };
+  }
+
+  /**
+   * Mark a step as skipped (condition not met or branch not taken)
+   */
+  private async skipStep(
+    step: WorkflowStep,
+    stepContexts: Map<string, StepExecutionContext>,
+    reason: string
+  ): Promise<void> {
+    const context = stepContexts.get(step.id);
+    if (!context) return;
+
+    context.status = 'skipped';
+    await this.persistStep(context);
+
+    this.log('debug', `Step skipped: ${step.name} (${reason})`, { stepId: step.id });
+  }
+
+  // ============================================
+  // Run Persistence
+  // ============================================
+
+  /**
+   * Save a step execution to the run store
+   */
+  private async persistStep(context: StepExecutionContext): Promise<void> {
+    const stepRun: WorkflowStepRun = {
+      runId: context.runId,
+      stepId: context.stepId,
+      stepName: context.stepName,
+      agentName: context.agentName,
+      status: context.status,
+      attempts: context.attempts,
+      result: context.result,
+      error: context.error,
+      startedAt: context.startTime ? new Date(context.startTime).toISOString() : undefined,
+      completedAt: context.endTime ? new Date(context.endTime).toISOString() : undefined,
+      executionTime: context.endTime ? context.endTime - context.startTime : undefined,
+    };
+
+    await this.persist('save step', () => this.store.saveStep(stepRun));
+  }
+
+  /**
+   * Run a store operation - persistence failures are logged but never fail the workflow
+   */
+  private async persist(action: string, operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      this.log('warn', `Failed to ${action} in run store`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Strip abort signals and usage trackers from step contexts before the plan is persisted
+   */
+  private toPersistedPlan(plan: WorkflowPlan): WorkflowPlan {
+    return {
+      ...plan,
+      steps: plan.steps.map((step) => {
+        const { signal: _signal, usage: _usage, ...context } = step.context;
+        return { ...step, context };
+      }),
+    };
+  }
+
+  /**
+   * Build the result of an already completed run from its persisted steps
+   */
+  private buildCompletedResult(run: WorkflowRun, steps: WorkflowStepRun[]): WorkflowResult {
+    const { plan } = run;
+    const stepResults: Record<string, AgentResult> = {};
+    for (const step of steps) {
+      if (step.result) {
+        stepResults[step.stepId] = step.result;
+      }
+    }
+
+    return {
+      plan,
+      stepResults,
+      success: true,
+      executionTime: run.executionTime || 0,
+      runId: run.id,
+      usage: run.usage,
+      metadata: {
+        orchestratorName: this.config.name,
+        completedSteps: Object.keys(stepResults).length,
+        totalSteps: plan.steps.length,
+      },
+    };
+  }
+
   // ============================================
   // Utility Methods
   // ============================================
@@ -417,6 +910,53 @@ export class AgentOrchestrator {
         }
       }
     }
+
+    // Check that conditions, fan-outs and input references only read upstream dependencies
+    for (const step of plan.steps) {
+      const upstream = new Set(step.dependencies || []);
+      const conditions = step.condition
+        ? Array.isArray(step.condition)
+          ? step.condition
+          : [step.condition]
+        : [];
+
+      for (const condition of conditions) {
+        if (!upstream.has(condition.step)) {
+          throw new Error(
+            `Invalid condition in step ${step.name}: ${condition.step} is not a dependency`
+          );
+        }
+      }
+
+      if (step.forEach && !upstream.has(step.forEach.step)) {
+        throw new Error(
+          `Invalid forEach in step ${step.name}: ${step.forEach.step} is not a dependency`
+        );
+      }
+
+      for (const ref of collectStepReferences(step.input)) {
+        const reference = parseStepReference(ref);
+        if (!reference) {
+          throw new Error(
+            `Invalid reference in step ${step.name}: "${ref}" (expected steps.<name>.output[.<path>])`
+          );
+        }
+        if (!upstream.has(reference.step)) {
+          throw new Error(
+            `Invalid reference in step ${step.name}: ${reference.step} is not a dependency`
+          );
+        }
+      }
+
+      if (
+        step.retry &&
+        (!Number.isInteger(step.retry.maxAttempts) || step.retry.maxAttempts < 1)
+      ) {
+        throw new Error(
+          `Invalid retry policy in step ${step.name}: maxAttempts must be a positive integer`
+        );
+      }
+    }
   }
 
   /**
@@ -461,61 +1001,53 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Build dependency graph
-   */
-  private buildDependencyGraph(
-    steps: WorkflowStep[]
-  ): Map<string, string[]> {
-    const graph = new Map<string, string[]>();
-
-    for (const step of steps) {
-      graph.set(step.name, step.dependencies || []);
-    }
-
-    return graph;
-  }
-
-  /**
-   * Check if all dependencies are satisfied
+   * Get the state of a step's dependencies
+   *
+   * - ready: all dependencies completed (or some skipped)
+   * - waiting: a dependency hasn't finished yet
+   * - blocked: a dependency failed
+   * - skipped: all dependencies were skipped
    */
-  private areDependenciesSatisfied(
+  private getDependencyState(
     step: WorkflowStep,
-    stepResults: Record<string, AgentResult>
-  ): boolean {
+    contextsByName: Map<string, StepExecutionContext>
+  ): 'ready' | 'waiting' | 'blocked' | 'skipped' {
     if (!step.dependencies || step.dependencies.length === 0) {
-      return true;
+      return 'ready';
     }
 
-    // Find dependency steps by name
-    for (const depName of step.dependencies) {
-      // Check if any step result with this name exists and succeeded
-      const depCompleted = Object.values(stepResults).some(
-        (result, index) => {
-          // Need to match step name - this is a simplification
-          // In practice, we'd need to track step names in results
-          return result.success === true;
-        }
-      );
+    const statuses = step.dependencies.map((dep) => contextsByName.get(dep)?.status);
+
+    if (statuses.includes('failed')) {
+      return 'blocked';
+    }
 
-      // For now, just check if result exists
-      // TODO: Improve dependency tracking with step name mapping
+    if (statuses.some((status) => status !== 'completed' && status !== 'skipped')) {
+      return 'waiting';
     }
 
-    return true; // Simplified for now
+    return statuses.every((status) => status === 'skipped') ? 'skipped' : 'ready';
   }
 
   /**
    * Resolve dependencies by injecting data from previous steps
+   *
+   * Output references in the input are replaced with the referenced values;
+   * each dependency's full output is also passed under its step name
+   * unless the input already has that key.
    */
   private resolveDependencies(
     step: WorkflowStep,
     dataResults: Record<string, any>
   ): any {
-    const input = { ...step.input };
+    // Plain object inputs resolve to plain objects
+    const resolved = resolveStepReferences(step.input, dataResults) as Record<string, unknown>;
+    const input = { ...resolved };
 
     if (step.dependencies) {
       for (const dep of step.dependencies) {
-        if (dataResults[dep] !== undefined) {
+        // Explicit input (e.g. a resolved reference) wins over the injected output
+        if (dataResults[dep] !== undefined && !(dep in input)) {
           input[dep] = dataResults[dep];
         }
       }
@@ -581,6 +1113,20 @@ export class AgentOrchestrator {
     return [...this.executionHistory];
   }
 
+  /**
+   * Get a persisted run with its step timings
+   */
+  async getRun(runId: string): Promise<WorkflowRun | null> {
+    return this.store.getRun(runId);
+  }
+
+  /**
+   * List persisted runs of this orchestrator (newest first)
+   */
+  async listRuns(filter: WorkflowRunFilter = {}): Promise<WorkflowRun[]> {
+    return this.store.listRuns({ orchestratorName: this.config.name, ...filter });
+  }
+
   /**
    * Get logs
    */
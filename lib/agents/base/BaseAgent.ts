@@ -11,8 +11,20 @@
  * @phase Phase 1: Base Agent System
  */
 
-import { AgentConfig, AgentExecutionContext, AgentResult, AgentLogEntry, LogLevel } from './types';
+import {
+  AgentConfig,
+  AgentExecutionContext,
+  AgentResult,
+  AgentLogEntry,
+  DomainPolicy,
+  LogLevel,
+  ToolExecutionOptions,
+  UsageSummary,
+} from './types';
 import { BaseTool } from './BaseTool';
+import { ToolFixtureConfig } from './ToolFixtureStore';
+import { isAbortError, raceWithSignal, throwIfAborted } from './cancellation';
+import { UsageTracker } from './usage';
 
 export abstract class BaseAgent<TInput = any, TOutput = any> {
   /** Agent configuration */
@@ -33,6 +45,9 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
   /** Log entries */
   protected logs: AgentLogEntry[] = [];
 
+  /** Record/replay configuration applied to all tools (see useToolFixtures) */
+  protected toolFixtures: ToolFixtureConfig | null = null;
+
   constructor(config: AgentConfig) {
     this.config = config;
     this.log('info', `Agent initialized: ${config.name} v${config.version}`);
@@ -85,25 +100,32 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
   /**
    * Execute agent with tracking and error handling
    *
-   * Wraps execute() with timing, history tracking, and error handling
+   * Wraps execute() with timing, history tracking, and error handling.
+   * If `context.signal` aborts, the execution stops waiting and returns a
+   * failed result with `metadata.cancelled` set.
+   * Token usage and cost of the tool calls are reported as `metadata.usage`
+   * and forwarded to `context.usage`.
    */
   async executeWithTracking(
     input: TInput,
     context: AgentExecutionContext
   ): Promise<AgentResult<TOutput>> {
     const startTime = Date.now();
+    const { signal, usage: parentUsage, ...loggedContext } = context;
+    const usage = new UsageTracker(parentUsage, { agentName: this.name });
 
     try {
-      this.log('info', `Starting execution`, { input, context });
+      this.log('info', `Starting execution`, { input, context: loggedContext });
 
-      // Execute agent
-      const result = await this.execute(input, context);
+      // Execute agent (tools receive the signal and usage tracker through the context)
+      throwIfAborted(signal);
+      const result = await raceWithSignal(this.execute(input, { ...context, usage }), signal);
       const executionTime = Date.now() - startTime;
 
       // Add to history
       this.executionHistory.push({
         input,
-        context,
+        context: loggedContext,
         result,
         timestamp: new Date().toISOString(),
         executionTime,
@@ -121,12 +143,15 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
           executionTime,
           agentName: this.name,
           agentVersion: this.version,
+          ...this.usageMetadata(usage),
+          ...(!result.success && signal?.aborted && { cancelled: true }),
         },
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      const cancelled = !!signal?.aborted || isAbortError(error);
 
-      this.log('error', `Execution failed`, {
+      this.log(cancelled ? 'warn' : 'error', `Execution ${cancelled ? 'aborted' : 'failed'}`, {
         error: error instanceof Error ? error.message : String(error),
         executionTime,
       });
@@ -138,6 +163,8 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
           executionTime,
           agentName: this.name,
           agentVersion: this.version,
+          ...this.usageMetadata(usage),
+          ...(cancelled && { cancelled: true }),
         },
       };
     }
@@ -147,6 +174,9 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
    * Register a tool for use by this agent
    */
   registerTool(tool: BaseTool): void {
+    if (this.toolFixtures) {
+      tool.useFixtures(this.toolFixtures);
+    }
     this.tools.set(tool.name, tool);
     this.log('debug', `Tool registered: ${tool.name}`);
   }
@@ -159,6 +189,33 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
     this.log('debug', `Tool unregistered: ${toolName}`);
   }
 
+  /**
+   * Record the calls of all tools to a fixture store or replay them from it
+   * (pass null to use the live tools again)
+   */
+  useToolFixtures(config: ToolFixtureConfig | null): void {
+    this.toolFixtures = config;
+    for (const tool of this.tools.values()) {
+      tool.useFixtures(config);
+    }
+    this.log('debug', `Tool fixtures: ${config?.mode ?? 'off'}`);
+  }
+
+  /**
+   * Restrict the domains this agent's browser tools may fetch
+   * (pass undefined to allow all domains)
+   */
+  setDomainPolicy(policy?: DomainPolicy): void {
+    this.config = { ...this.config, domainPolicy: policy };
+  }
+
+  /**
+   * Get the domain policy for browser tools
+   */
+  getDomainPolicy(): DomainPolicy | undefined {
+    return this.config.domainPolicy;
+  }
+
   /**
    * Get list of available tools
    */
@@ -204,9 +261,14 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
    *
    * @param toolName - Name of the tool to use
    * @param input - Tool input
+   * @param options - Abort signal, timeout and usage tracker (see toolOptions)
    * @returns Tool result
    */
-  protected async useTool<T = any>(toolName: string, input: any): Promise<T> {
+  protected async useTool<T = unknown>(
+    toolName: string,
+    input: unknown,
+    options?: ToolExecutionOptions
+  ): Promise<T> {
     const tool = this.tools.get(toolName);
 
     if (!tool) {
@@ -215,7 +277,7 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
 
     this.log('debug', `Using tool: ${toolName}`, { input });
 
-    const result = await tool.executeWithTracking(input);
+    const result = await tool.executeWithTracking(input, options);
 
     if (!result.success) {
       throw new Error(`Tool execution failed: ${result.error}`);
@@ -229,6 +291,29 @@ export abstract class BaseAgent<TInput = any, TOutput = any> {
     return result.data as T;
   }
 
+  /**
+   * Tool options for calls made during an execution
+   * (forwards the context's abort signal and usage tracker and the
+   * agent's domain policy)
+   */
+  protected toolOptions(context: AgentExecutionContext): ToolExecutionOptions {
+    return {
+      signal: context.signal,
+      usage: context.usage,
+      domainPolicy: this.config.domainPolicy,
+    };
+  }
+
+  /**
+   * Usage metadata of an execution (nothing if no billed calls were made)
+   */
+  private usageMetadata(usage: UsageTracker): { usage?: UsageSummary; tokensUsed?: number } {
+    if (usage.size === 0) return {};
+
+    const summary = usage.getSummary();
+    return { usage: summary, tokensUsed: summary.totalTokens };
+  }
+
   /**
    * Check if a tool is available
    */
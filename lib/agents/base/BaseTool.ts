@@ -11,7 +11,16 @@
  * @phase Phase 1: Base Agent System
  */
 
-import { ToolConfig, ToolResult, LogLevel } from './types';
+import {
+  ToolConfig,
+  ToolFixture,
+  ToolResult,
+  ToolExecutionOptions,
+  UsageRecord,
+  LogLevel,
+} from './types';
+import { isAbortError, linkSignal, raceWithSignal } from './cancellation';
+import { ToolFixtureConfig, toolFixtureKey } from './ToolFixtureStore';
 
 export abstract class BaseTool<TInput = any, TOutput = any> {
   /** Tool configuration */
@@ -25,6 +34,9 @@ export abstract class BaseTool<TInput = any, TOutput = any> {
     executionTime: number;
   }> = [];
 
+  /** Record/replay configuration (see useFixtures) */
+  protected fixtures: ToolFixtureConfig | null = null;
+
   constructor(config: ToolConfig) {
     this.config = config;
   }
@@ -36,10 +48,18 @@ export abstract class BaseTool<TInput = any, TOutput = any> {
   /**
    * Execute the tool with given input
    *
+   * Tools should forward `options.signal` to in-flight requests so
+   * that cancelled executions stop doing work. Billed calls report their
+   * usage as `metadata.usage` (see createUsageRecord).
+   *
    * @param input - Tool input
+   * @param options - Abort signal, timeout and usage tracker
    * @returns Tool result
    */
-  abstract execute(input: TInput): Promise<ToolResult<TOutput>>;
+  abstract execute(
+    input: TInput,
+    options?: ToolExecutionOptions
+  ): Promise<ToolResult<TOutput>>;
 
   // ============================================
   // Public API
@@ -66,20 +86,55 @@ export abstract class BaseTool<TInput = any, TOutput = any> {
     return this.config.version;
   }
 
+  /**
+   * Record tool calls to a fixture store or replay them from it
+   * (pass null to run the tool normally again)
+   */
+  useFixtures(config: ToolFixtureConfig | null): void {
+    this.fixtures = config && config.mode !== 'off' ? config : null;
+  }
+
   /**
    * Execute tool with tracking
    *
-   * Wraps execute() with timing and history tracking
+   * Wraps execute() with timing, history tracking and cancellation.
+   * An aborted execution (signal or timeout) returns a failed result
+   * with `metadata.cancelled` set. The call's usage record is passed
+   * to `options.usage`.
+   *
+   * With fixtures in replay mode the recorded result is returned instead
+   * (`metadata.replayed` set, no usage); in record mode every result that
+   * was not cancelled is saved.
    */
-  async executeWithTracking(input: TInput): Promise<ToolResult<TOutput>> {
+  async executeWithTracking(
+    input: TInput,
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolResult<TOutput>> {
     const startTime = Date.now();
+    const { signal, cleanup } = linkSignal(
+      options.signal,
+      options.timeout,
+      `Tool ${this.name} timed out after ${options.timeout}ms`
+    );
 
     try {
       this.log('debug', `Executing tool: ${this.name}`, { input });
 
-      const result = await this.execute(input);
+      const result =
+        this.fixtures?.mode === 'replay'
+          ? await raceWithSignal(this.replayFixture(input), signal)
+          : await raceWithSignal(this.execute(input, { ...options, signal }), signal);
       const executionTime = Date.now() - startTime;
 
+      if (this.fixtures?.mode === 'record' && !signal.aborted) {
+        await this.recordFixture(input, result);
+      }
+
+      const usage: UsageRecord | undefined = result.metadata?.usage;
+      if (usage && !result.metadata?.replayed) {
+        options.usage?.record({ ...usage, toolName: this.name });
+      }
+
       // Add to history
       this.executionHistory.push({
         input,
@@ -100,12 +155,15 @@ export abstract class BaseTool<TInput = any, TOutput = any> {
           executionTime,
           toolName: this.name,
           toolVersion: this.version,
+          // Tools that catch their own errors report aborts as plain failures
+          ...(!result.success && signal.aborted && { cancelled: true }),
         },
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      const cancelled = signal.aborted || isAbortError(error);
 
-      this.log('error', `Tool execution failed: ${this.name}`, {
+      this.log(cancelled ? 'warn' : 'error', `Tool execution ${cancelled ? 'aborted' : 'failed'}: ${this.name}`, {
         error: error instanceof Error ? error.message : String(error),
         executionTime,
       });
@@ -117,8 +175,11 @@ export abstract class BaseTool<TInput = any, TOutput = any> {
           executionTime,
           toolName: this.name,
           toolVersion: this.version,
+          ...(cancelled && { cancelled: true }),
         },
       };
+    } finally {
+      cleanup();
     }
   }
 
@@ -141,6 +202,49 @@ export abstract class BaseTool<TInput = any, TOutput = any> {
     this.executionHistory = [];
   }
 
+  // ============================================
+  // Fixtures (record/replay)
+  // ============================================
+
+  /**
+   * Return the recorded result of a call (throws if none was recorded)
+   */
+  private async replayFixture(input: TInput): Promise<ToolResult<TOutput>> {
+    const key = toolFixtureKey(this.name, input);
+    // The key includes the tool name and input, so the recorded output is this tool's
+    const fixture = (await this.fixtures!.store.get(key)) as ToolFixture<TInput, TOutput> | null;
+
+    if (!fixture) {
+      throw new Error(`No fixture recorded for tool ${this.name} (${key})`);
+    }
+
+    return {
+      ...fixture.output,
+      metadata: { ...fixture.output.metadata, replayed: true },
+    };
+  }
+
+  /**
+   * Save the result of a call (a failing store does not fail the call)
+   */
+  private async recordFixture(input: TInput, output: ToolResult<TOutput>): Promise<void> {
+    const key = toolFixtureKey(this.name, input);
+
+    try {
+      await this.fixtures!.store.save({
+        key,
+        tool: this.name,
+        input,
+        output,
+        recordedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.log('error', `Failed to record fixture: ${key}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   // ============================================
   // Protected Utility Methods
   // ============================================
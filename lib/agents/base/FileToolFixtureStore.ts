@@ -0,0 +1,92 @@
+/**
+ * File Tool Fixture Store
+ *
+ * Keeps tool fixtures in a JSON file (one file per test scenario), e.g.
+ * __tests__/lib/agents/fixtures/research-agent.json. Record once against
+ * the live services, commit the file and replay it in tests.
+ *
+ * Node only (uses fs) - not exported from the base index.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ToolFixture } from './types';
+import { ToolFixtureStore } from './ToolFixtureStore';
+
+const FILE_VERSION = 1;
+
+interface ToolFixtureFile {
+  version: number;
+  fixtures: Record<string, ToolFixture>;
+}
+
+export class FileToolFixtureStore implements ToolFixtureStore {
+  private fixtures: Promise<Map<string, ToolFixture>> | null = null;
+
+  /** Serializes writes of parallel tool calls */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<ToolFixture | null> {
+    const fixtures = await this.load();
+    return fixtures.get(key) ?? null;
+  }
+
+  async save(fixture: ToolFixture): Promise<void> {
+    const fixtures = await this.load();
+    fixtures.set(fixture.key, fixture);
+
+    const write = this.writeQueue.then(() => this.write(fixtures));
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Load the file once (a missing file is an empty store)
+   */
+  private load(): Promise<Map<string, ToolFixture>> {
+    if (!this.fixtures) {
+      this.fixtures = this.readFile();
+    }
+    return this.fixtures;
+  }
+
+  private async readFile(): Promise<Map<string, ToolFixture>> {
+    try {
+      const file: ToolFixtureFile = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+
+      if (file.version !== FILE_VERSION) {
+        throw new Error(`Unsupported fixture file version: ${file.version}`);
+      }
+
+      return new Map(Object.entries(file.fixtures || {}));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(
+          `Failed to load tool fixtures from ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return new Map();
+    }
+  }
+
+  /**
+   * Write all fixtures (sorted by key for stable diffs)
+   */
+  private async write(fixtures: Map<string, ToolFixture>): Promise<void> {
+    const file: ToolFixtureFile = {
+      version: FILE_VERSION,
+      fixtures: Object.fromEntries(
+        Array.from(fixtures.entries()).sort(([a], [b]) => a.localeCompare(b))
+      ),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, `${JSON.stringify(file, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Tool Fixture Store
+ *
+ * Record/replay storage for tool calls. In record mode BaseTool saves the
+ * result of every call; in replay mode it returns the saved result instead
+ * of running the tool, so agents can be tested without network access.
+ *
+ * Fixtures are keyed by tool name and a hash of the input, so replay
+ * does not depend on call order (parallel steps, retries).
+ * Use FileToolFixtureStore to keep fixtures in files next to the tests.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+import { ToolFixture, ToolFixtureMode } from './types';
+
+// ============================================
+// Store Interface
+// ============================================
+
+export interface ToolFixtureStore {
+  /** Get the fixture recorded for a key */
+  get(key: string): Promise<ToolFixture | null>;
+
+  /** Insert or replace a fixture (keyed by fixture.key) */
+  save(fixture: ToolFixture): Promise<void>;
+}
+
+export interface ToolFixtureConfig {
+  mode: ToolFixtureMode;
+  store: ToolFixtureStore;
+}
+
+// ============================================
+// Fixture Keys
+// ============================================
+
+/**
+ * Serialize a value with sorted object keys (functions such as
+ * streaming callbacks and undefined values are dropped)
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, current) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      return Object.keys(current)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = current[key];
+          return sorted;
+        }, {});
+    }
+    return current;
+  }) ?? '';
+}
+
+/**
+ * 53-bit string hash (cyrb53), as 14 hex digits
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Fixture key of a tool call
+ */
+export function toolFixtureKey(toolName: string, input: unknown): string {
+  return `${toolName}:${hashString(stableStringify(input))}`;
+}
+
+// ============================================
+// In-Memory Store
+// ============================================
+
+export class InMemoryToolFixtureStore implements ToolFixtureStore {
+  private fixtures: Map<string, ToolFixture> = new Map();
+
+  constructor(fixtures: ToolFixture[] = []) {
+    for (const fixture of fixtures) {
+      this.fixtures.set(fixture.key, fixture);
+    }
+  }
+
+  async get(key: string): Promise<ToolFixture | null> {
+    return this.fixtures.get(key) ?? null;
+  }
+
+  async save(fixture: ToolFixture): Promise<void> {
+    this.fixtures.set(fixture.key, fixture);
+  }
+
+  /**
+   * All recorded fixtures (in recording order)
+   */
+  getAll(): ToolFixture[] {
+    return Array.from(this.fixtures.values());
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Workflow Run Store
+ *
+ * Pluggable persistence for workflow runs and their per-step results.
+ * The orchestrator writes every run and step through a store so that
+ * failed or interrupted runs can be inspected and resumed later.
+ *
+ * The default in-memory store only lives as long as the process;
+ * use the Supabase store (lib/supabase-agent-runs.ts) for durable runs.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+import {
+  WorkflowRun,
+  WorkflowRunFilter,
+  WorkflowStepRun,
+} from './types';
+
+// ============================================
+// Store Interface
+// ============================================
+
+export type WorkflowRunUpdates = Partial<
+  Pick<
+    WorkflowRun,
+    'status' | 'errors' | 'resumeCount' | 'completedAt' | 'executionTime' | 'usage'
+  >
+>;
+
+export interface WorkflowRunStore {
+  /** Persist a new run (steps are saved separately) */
+  createRun(run: WorkflowRun): Promise<void>;
+
+  /** Update run status/timings */
+  updateRun(runId: string, updates: WorkflowRunUpdates): Promise<void>;
+
+  /** Insert or replace a step execution (keyed by runId + stepId) */
+  saveStep(step: WorkflowStepRun): Promise<void>;
+
+  /** Get a run with its step executions */
+  getRun(runId: string): Promise<WorkflowRun | null>;
+
+  /** List runs (newest first) with their step executions */
+  listRuns(filter?: WorkflowRunFilter): Promise<WorkflowRun[]>;
+}
+
+// ============================================
+// In-Memory Store (default)
+// ============================================
+
+export class InMemoryWorkflowRunStore implements WorkflowRunStore {
+  private runs: Map<string, WorkflowRun> = new Map();
+
+  async createRun(run: WorkflowRun): Promise<void> {
+    this.runs.set(run.id, { ...run, steps: [...run.steps] });
+  }
+
+  async updateRun(runId: string, updates: WorkflowRunUpdates): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run) {
+      this.runs.set(runId, { ...run, ...updates });
+    }
+  }
+
+  async saveStep(step: WorkflowStepRun): Promise<void> {
+    const run = this.runs.get(step.runId);
+    if (!run) return;
+
+    const steps = run.steps.filter((s) => s.stepId !== step.stepId);
+    steps.push({ ...step });
+    this.runs.set(step.runId, { ...run, steps });
+  }
+
+  async getRun(runId: string): Promise<WorkflowRun | null> {
+    const run = this.runs.get(runId);
+    return run ? { ...run, steps: [...run.steps] } : null;
+  }
+
+  async listRuns(filter: WorkflowRunFilter = {}): Promise<WorkflowRun[]> {
+    return Array.from(this.runs.values())
+      .filter(
+        (run) =>
+          (!filter.userId || run.userId === filter.userId) &&
+          (!filter.orchestratorName || run.orchestratorName === filter.orchestratorName) &&
+          (!filter.status || run.status === filter.status)
+      )
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, filter.limit ?? 50)
+      .map((run) => ({ ...run, steps: [...run.steps] }));
+  }
+}
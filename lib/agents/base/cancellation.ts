@@ -0,0 +1,144 @@
+/**
+ * Cancellation Utilities
+ *
+ * AbortSignal helpers shared by the orchestrator, agents and tools.
+ * Cancellation flows top-down: a workflow signal is passed to each step
+ * (linked with the step timeout), agents forward it to their tools and
+ * tools forward it to in-flight requests (fetch, Anthropic SDK, Playwright).
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown when an execution is aborted by a signal (cancellation or timeout)
+ */
+export class AbortedError extends Error {
+  constructor(message: string = 'Execution cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Check whether an error comes from an aborted execution
+ * (our AbortedError, DOM AbortError from fetch, or the Anthropic SDK abort error)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.name === 'AbortError' || error.name === 'APIUserAbortError')
+  );
+}
+
+/**
+ * Get a readable reason from an aborted signal
+ */
+export function getAbortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+
+  if (reason instanceof Error) return reason.message;
+  if (typeof reason === 'string') return reason;
+  return 'Execution cancelled';
+}
+
+/**
+ * Throw an AbortedError if the signal is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortedError(getAbortReason(signal));
+  }
+}
+
+// ============================================
+// Signal Composition
+// ============================================
+
+export interface LinkedSignal {
+  /** Aborts when any parent signal aborts or the timeout elapses */
+  signal: AbortSignal;
+
+  /** Remove listeners and clear the timer (call when the execution finishes) */
+  cleanup: () => void;
+}
+
+/**
+ * Create a signal that follows one or more parent signals and optionally times out
+ *
+ * @param parents - Signal(s) to follow (e.g. the workflow signal); undefined entries are ignored
+ * @param timeout - Timeout in milliseconds (no timeout if omitted)
+ * @param timeoutMessage - Abort reason when the timeout elapses
+ */
+export function linkSignal(
+  parents?: AbortSignal | Array<AbortSignal | undefined>,
+  timeout?: number,
+  timeoutMessage: string = `Timed out after ${timeout}ms`
+): LinkedSignal {
+  const controller = new AbortController();
+  const signals = (Array.isArray(parents) ? parents : [parents]).filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const listeners = signals.map((parent) => {
+    const onAbort = () => {
+      controller.abort(new AbortedError(getAbortReason(parent)));
+    };
+    if (parent.aborted) {
+      onAbort();
+    } else {
+      parent.addEventListener('abort', onAbort, { once: true });
+    }
+    return { parent, onAbort };
+  });
+
+  if (timeout && timeout > 0 && !controller.signal.aborted) {
+    timer = setTimeout(() => controller.abort(new AbortedError(timeoutMessage)), timeout);
+  }
+
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      if (timer) clearTimeout(timer);
+      listeners.forEach(({ parent, onAbort }) => parent.removeEventListener('abort', onAbort));
+    },
+  };
+}
+
+/**
+ * Race a promise against a signal
+ *
+ * Rejects with an AbortedError as soon as the signal aborts, even if the
+ * underlying work does not support cancellation (it keeps running detached).
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  if (signal.aborted) {
+    // Avoid unhandled rejections from the detached promise
+    promise.catch(() => {});
+    return Promise.reject(new AbortedError(getAbortReason(signal)));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortedError(getAbortReason(signal)));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Domain Policy
+ *
+ * Allowlist/denylist checks for URLs fetched by browser tools.
+ * Agents configure a policy (AgentConfig.domainPolicy) and pass it to
+ * their tools with every call (see BaseAgent.toolOptions).
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+import { DomainPolicy } from './types';
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown when a tool tries to fetch a URL the domain policy does not allow
+ */
+export class DomainBlockedError extends Error {
+  constructor(public readonly url: string) {
+    super(`Domain not allowed by policy: ${url}`);
+    this.name = 'DomainBlockedError';
+  }
+}
+
+// ============================================
+// Policy Checks
+// ============================================
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\./, '');
+}
+
+/**
+ * Check whether a hostname is the domain or one of its subdomains
+ */
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = normalizeDomain(domain);
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+/**
+ * Check whether a URL may be fetched under a policy
+ * (no policy allows every URL; with a policy only http(s) URLs are allowed)
+ */
+export function isUrlAllowed(url: string, policy?: DomainPolicy): boolean {
+  if (!policy) return true;
+
+  let hostname: string;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+    hostname = parsed.hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  if (policy.deny?.some((domain) => matchesDomain(hostname, domain))) {
+    return false;
+  }
+
+  if (policy.allow && policy.allow.length > 0) {
+    return policy.allow.some((domain) => matchesDomain(hostname, domain));
+  }
+
+  return true;
+}
+
+/**
+ * Throw a DomainBlockedError if the URL is not allowed
+ */
+export function assertUrlAllowed(url: string, policy?: DomainPolicy): void {
+  if (!isUrlAllowed(url, policy)) {
+    throw new DomainBlockedError(url);
+  }
+}
@@ -21,6 +21,19 @@
 export { BaseAgent } from './BaseAgent';
 export { BaseTool } from './BaseTool';
 export { AgentOrchestrator } from './AgentOrchestrator';
+export { InMemoryWorkflowRunStore } from './WorkflowRunStore';
+export { stepOutput } from './workflowUtils';
+export { AbortedError, isAbortError } from './cancellation';
+export { DomainBlockedError, isUrlAllowed } from './domainPolicy';
+export { InMemoryToolFixtureStore, toolFixtureKey } from './ToolFixtureStore';
+export {
+  UsageTracker,
+  MODEL_PRICING,
+  createUsageRecord,
+  estimateCost,
+  mergeUsage,
+  summarizeUsage,
+} from './usage';
 
 // ============================================
 // Type Definitions
@@ -37,15 +50,41 @@ export type {
   // Tool Types
   ToolConfig,
   ToolResult,
+  ToolExecutionOptions,
+
+  // Tool Sandbox Types
+  DomainPolicy,
+  ToolFixture,
+  ToolFixtureMode,
 
   // Workflow Types
   WorkflowStep,
+  WorkflowStepStatus,
+  StepRetryPolicy,
+  StepCondition,
+  StepConditionOperator,
+  StepFanOut,
+  StepOutputReference,
   WorkflowPlan,
   WorkflowResult,
 
+  // Usage Types
+  UsageRecord,
+  UsageSummary,
+  UsageTotals,
+
+  // Workflow Run Types
+  WorkflowRun,
+  WorkflowRunStatus,
+  WorkflowRunFilter,
+  WorkflowStepRun,
+
   // Event Types (for WebSocket)
   AgentEvent,
   ToolEvent,
 } from './types';
 
-export type { OrchestratorConfig } from './AgentOrchestrator';
+export type { OrchestratorConfig, WorkflowExecutionOptions } from './AgentOrchestrator';
+export type { WorkflowRunStore, WorkflowRunUpdates } from './WorkflowRunStore';
+export type { ModelPricing } from './usage';
+export type { ToolFixtureConfig, ToolFixtureStore } from './ToolFixtureStore';
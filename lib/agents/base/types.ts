@@ -9,6 +9,8 @@
  * @phase Phase 1: Base Agent System
  */
 
+import type { UsageTracker } from './usage';
+
 // ============================================
 // Agent Configuration
 // ============================================
@@ -25,6 +27,9 @@ export interface AgentConfig {
 
   /** Optional metadata */
   metadata?: Record<string, any>;
+
+  /** Domains the agent's browser tools may fetch (see setDomainPolicy) */
+  domainPolicy?: DomainPolicy;
 }
 
 // ============================================
@@ -43,6 +48,12 @@ export interface AgentExecutionContext {
 
   /** Additional context data */
   metadata?: Record<string, any>;
+
+  /** Aborts the execution (cancellation or timeout); never persisted */
+  signal?: AbortSignal;
+
+  /** Collects token usage and cost of the execution's tool calls; never persisted */
+  usage?: UsageTracker;
 }
 
 // ============================================
@@ -70,6 +81,9 @@ export interface AgentResult<T = any> {
     /** Tools used during execution */
     toolsUsed?: string[];
 
+    /** Token usage and estimated cost of the execution's tool calls */
+    usage?: UsageSummary;
+
     /** Any other metadata */
     [key: string]: any;
   };
@@ -104,6 +118,60 @@ export interface ToolResult<T = any> {
   metadata?: Record<string, any>;
 }
 
+export interface ToolExecutionOptions {
+  /** Aborts the tool call (in-flight requests are cancelled where supported) */
+  signal?: AbortSignal;
+
+  /** Timeout in milliseconds for this call */
+  timeout?: number;
+
+  /** Receives the call's usage record (usually `context.usage`) */
+  usage?: UsageTracker;
+
+  /** Domains browser tools may fetch (from the calling agent's config) */
+  domainPolicy?: DomainPolicy;
+}
+
+// ============================================
+// Tool Sandbox Types
+// ============================================
+
+/**
+ * Domain allowlist/denylist for browser tools
+ *
+ * Entries match the domain and its subdomains ('example.com' matches
+ * 'docs.example.com'). The denylist wins; an empty or missing allowlist
+ * allows every domain that is not denied.
+ */
+export interface DomainPolicy {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * - off: tools run normally
+ * - record: tools run normally and their results are saved as fixtures
+ * - replay: tools return saved fixtures and never run (missing fixtures fail)
+ */
+export type ToolFixtureMode = 'off' | 'record' | 'replay';
+
+export interface ToolFixture<TInput = unknown, TOutput = unknown> {
+  /** Lookup key (tool name + hash of the input, see toolFixtureKey) */
+  key: string;
+
+  /** Tool that was called */
+  tool: string;
+
+  /** Input of the recorded call */
+  input: TInput;
+
+  /** Recorded result */
+  output: ToolResult<TOutput>;
+
+  /** Recording time (ISO) */
+  recordedAt: string;
+}
+
 // ============================================
 // Workflow Types
 // ============================================
@@ -118,17 +186,90 @@ export interface WorkflowStep {
   /** Agent to execute this step */
   agentName: string;
 
-  /** Input data for the agent */
+  /** Input data for the agent (may contain StepOutputReferences, resolved at runtime) */
   input: any;
 
   /** Execution context */
   context: AgentExecutionContext;
 
-  /** Dependencies (step IDs that must complete first) */
+  /** Dependencies (step names that must complete first) */
   dependencies?: string[];
 
+  /** Retry policy for failed executions (default: no retries) */
+  retry?: StepRetryPolicy;
+
+  /** Only run if the condition(s) on upstream results hold, otherwise the step is skipped */
+  condition?: StepCondition | StepCondition[];
+
+  /**
+   * Run the agent once per item of an upstream output array (fan-out).
+   * The step's output is the array of item outputs, so dependent steps fan in.
+   */
+  forEach?: StepFanOut;
+
+  /** Timeout per attempt in milliseconds (default: OrchestratorConfig.stepTimeout) */
+  timeout?: number;
+
   /** Step status */
-  status?: 'pending' | 'running' | 'completed' | 'failed';
+  status?: WorkflowStepStatus;
+}
+
+/**
+ * Reference to an upstream step's output, resolved when the step runs.
+ * Format: steps.<step name>.output[.<path>], e.g. { $ref: 'steps.research.output.sources' }
+ */
+export interface StepOutputReference {
+  $ref: string;
+}
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface StepRetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+
+  /** Delay before the first retry in ms (default: 1000) */
+  backoffMs?: number;
+
+  /** Delay multiplier per retry (default: 2) */
+  backoffMultiplier?: number;
+
+  /** Upper bound for the delay in ms (default: 30000) */
+  maxBackoffMs?: number;
+}
+
+export type StepConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'exists'
+  | 'notExists'
+  | 'contains'
+  | 'greaterThan'
+  | 'lessThan';
+
+export interface StepCondition {
+  /** Upstream step name (must be a dependency) */
+  step: string;
+
+  /** Dot path into the step's output data, e.g. 'sources.length' (default: the whole output) */
+  path?: string;
+
+  /** Comparison operator */
+  operator: StepConditionOperator;
+
+  /** Value to compare against (not used by exists/notExists) */
+  value?: unknown;
+}
+
+export interface StepFanOut {
+  /** Upstream step name providing the items (must be a dependency) */
+  step: string;
+
+  /** Dot path to the array in the step's output data (default: the whole output) */
+  path?: string;
+
+  /** Input key each item is passed as (default: 'item') */
+  as?: string;
 }
 
 export interface WorkflowPlan {
@@ -163,6 +304,144 @@ export interface WorkflowResult {
 
   /** Any errors encountered */
   errors?: string[];
+
+  /** Persisted run ID (for inspection and resuming) */
+  runId?: string;
+
+  /** Token usage and estimated cost of all steps */
+  usage?: UsageSummary;
+
+  /** Execution metadata */
+  metadata?: Record<string, unknown>;
+}
+
+// ============================================
+// Workflow Run Persistence
+// ============================================
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface WorkflowStepRun {
+  /** Run this step execution belongs to */
+  runId: string;
+
+  /** Step identifier (from the plan) */
+  stepId: string;
+
+  /** Step name (used for dependency data) */
+  stepName: string;
+
+  /** Agent that executed this step */
+  agentName: string;
+
+  /** Step status */
+  status: WorkflowStepStatus;
+
+  /** Number of executions (including retries) */
+  attempts?: number;
+
+  /** Agent result (once finished) */
+  result?: AgentResult;
+
+  /** Error message (if failed) */
+  error?: string;
+
+  /** Start time (ISO) */
+  startedAt?: string;
+
+  /** Completion time (ISO) */
+  completedAt?: string;
+
+  /** Step execution time in milliseconds */
+  executionTime?: number;
+}
+
+export interface WorkflowRun {
+  /** Run identifier */
+  id: string;
+
+  /** Orchestrator that executed the run */
+  orchestratorName: string;
+
+  /** User who initiated the run (from the step context) */
+  userId?: string;
+
+  /** Plan that was executed (needed for resuming) */
+  plan: WorkflowPlan;
+
+  /** Run status */
+  status: WorkflowRunStatus;
+
+  /** Errors from the last execution attempt */
+  errors?: string[];
+
+  /** How many times the run was resumed */
+  resumeCount: number;
+
+  /** Per-step executions with timings */
+  steps: WorkflowStepRun[];
+
+  /** Start time (ISO) */
+  startedAt: string;
+
+  /** Completion time (ISO) */
+  completedAt?: string;
+
+  /** Total execution time in milliseconds (across resumes) */
+  executionTime?: number;
+
+  /** Token usage and estimated cost (across resumes) */
+  usage?: UsageSummary;
+}
+
+export interface WorkflowRunFilter {
+  userId?: string;
+  orchestratorName?: string;
+  status?: WorkflowRunStatus;
+  limit?: number;
+}
+
+// ============================================
+// Usage Accounting
+// ============================================
+
+export interface UsageRecord {
+  /** Model (LLM calls) or billed service (e.g. 'brave-search') */
+  model: string;
+
+  /** Prompt (input) tokens */
+  promptTokens: number;
+
+  /** Completion (output) tokens */
+  completionTokens: number;
+
+  /** Estimated cost in USD */
+  costUsd: number;
+
+  /** Tool that made the call */
+  toolName?: string;
+
+  /** Agent the call was made for */
+  agentName?: string;
+}
+
+export interface UsageTotals {
+  /** Number of billed calls */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+
+  /** Estimated cost in USD */
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  /** Totals per model/service */
+  byModel: Record<string, UsageTotals>;
+
+  /** Totals per agent (calls made outside an agent are not included) */
+  byAgent: Record<string, UsageTotals>;
 }
 
 // ============================================
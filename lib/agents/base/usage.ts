@@ -0,0 +1,224 @@
+/**
+ * Usage Accounting
+ *
+ * Token usage and cost estimation for agent tool calls.
+ * Tools report a UsageRecord per billed call (LLMTool, SearchTool);
+ * BaseTool forwards it to the caller's UsageTracker. Trackers are chained
+ * (tool call → agent → workflow step → workflow run → caller), so every
+ * level can report its own totals without double counting.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+import { UsageRecord, UsageSummary, UsageTotals } from './types';
+
+// ============================================
+// Pricing
+// ============================================
+
+export interface ModelPricing {
+  /** USD per million prompt tokens */
+  input: number;
+
+  /** USD per million completion tokens */
+  output: number;
+
+  /** USD per call (services billed per request) */
+  perRequest?: number;
+}
+
+/**
+ * Prices by model prefix (the longest matching prefix wins),
+ * e.g. 'claude-sonnet-4' matches 'claude-sonnet-4-5-20250929'
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+
+  // Brave Search API (Base plan: $5 per 1,000 requests)
+  'brave-search': { input: 0, output: 0, perRequest: 0.005 },
+};
+
+/**
+ * Get the pricing for a model (undefined for unknown models)
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
+
+/**
+ * Estimate the cost of a call in USD (0 for unknown models)
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number = 0,
+  completionTokens: number = 0
+): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) return 0;
+
+  const cost =
+    (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000 +
+    (pricing.perRequest ?? 0);
+
+  return roundCost(cost);
+}
+
+/**
+ * Create the usage record of a single call
+ */
+export function createUsageRecord(
+  model: string,
+  promptTokens: number = 0,
+  completionTokens: number = 0
+): UsageRecord {
+  return {
+    model,
+    promptTokens,
+    completionTokens,
+    costUsd: estimateCost(model, promptTokens, completionTokens),
+  };
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTotals(target: UsageTotals, totals: UsageTotals): void {
+  target.calls += totals.calls;
+  target.promptTokens += totals.promptTokens;
+  target.completionTokens += totals.completionTokens;
+  target.totalTokens += totals.totalTokens;
+  target.costUsd = roundCost(target.costUsd + totals.costUsd);
+}
+
+function totalsFor(totalsByKey: Record<string, UsageTotals>, key: string): UsageTotals {
+  if (!totalsByKey[key]) totalsByKey[key] = emptyTotals();
+  return totalsByKey[key];
+}
+
+function recordTotals(record: UsageRecord): UsageTotals {
+  return {
+    calls: 1,
+    promptTokens: record.promptTokens,
+    completionTokens: record.completionTokens,
+    totalTokens: record.promptTokens + record.completionTokens,
+    costUsd: record.costUsd,
+  };
+}
+
+// Costs are kept at micro-dollar precision to avoid float drift in sums
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Create an empty usage summary
+ */
+export function emptyUsage(): UsageSummary {
+  return { ...emptyTotals(), byModel: {}, byAgent: {} };
+}
+
+/**
+ * Aggregate usage records into a summary
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary = emptyUsage();
+
+  for (const record of records) {
+    const totals = recordTotals(record);
+    addTotals(summary, totals);
+    addTotals(totalsFor(summary.byModel, record.model), totals);
+    if (record.agentName) {
+      addTotals(totalsFor(summary.byAgent, record.agentName), totals);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Merge usage summaries (e.g. the executions of a resumed run)
+ */
+export function mergeUsage(...summaries: Array<UsageSummary | undefined>): UsageSummary {
+  const merged = emptyUsage();
+
+  for (const summary of summaries) {
+    if (!summary) continue;
+
+    addTotals(merged, summary);
+    for (const [model, totals] of Object.entries(summary.byModel)) {
+      addTotals(totalsFor(merged.byModel, model), totals);
+    }
+    for (const [agent, totals] of Object.entries(summary.byAgent)) {
+      addTotals(totalsFor(merged.byAgent, agent), totals);
+    }
+  }
+
+  return merged;
+}
+
+// ============================================
+// Usage Tracker
+// ============================================
+
+/**
+ * Collects usage records of an execution and forwards them to its parent tracker
+ */
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+
+  /**
+   * @param parent - Tracker that also receives every record (e.g. the workflow run)
+   * @param defaults - Fields set on records that don't have them (e.g. agentName)
+   */
+  constructor(
+    private readonly parent?: UsageTracker,
+    private readonly defaults: Partial<UsageRecord> = {}
+  ) {}
+
+  /**
+   * Record a billed call
+   */
+  record(record: UsageRecord): void {
+    const entry: UsageRecord = { ...this.defaults, ...record };
+    this.records.push(entry);
+    this.parent?.record(entry);
+  }
+
+  /**
+   * Number of recorded calls
+   */
+  get size(): number {
+    return this.records.length;
+  }
+
+  /**
+   * Get the recorded calls
+   */
+  getRecords(): UsageRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Get the aggregated usage
+   */
+  getSummary(): UsageSummary {
+    return summarizeUsage(this.records);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Workflow Utilities
+ *
+ * Helpers used by the AgentOrchestrator to evaluate step conditions,
+ * read values out of step outputs, resolve step output references
+ * and compute retry backoff.
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ * @phase Phase 1: Base Agent System
+ */
+
+import { StepCondition, StepOutputReference, StepRetryPolicy } from './types';
+
+// ============================================
+// Output Paths
+// ============================================
+
+/**
+ * Read a value from a dot path, e.g. getValueAtPath(data, 'sources.0.url')
+ * Returns undefined if any segment is missing.
+ */
+export function getValueAtPath(value: unknown, path?: string): unknown {
+  if (!path) return value;
+
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    // Object() boxes primitives, so e.g. 'title.length' works on strings
+    return (Object(current) as Record<string, unknown>)[key];
+  }, value);
+}
+
+// ============================================
+// Step Output References
+// ============================================
+
+const STEP_REFERENCE_PATTERN = /^steps\.([^.]+)\.output(?:\.(.+))?$/;
+
+/**
+ * Build a reference to an upstream step's output
+ *
+ * @example
+ * input: { sources: stepOutput('research', 'sources') }
+ */
+export function stepOutput(step: string, path?: string): StepOutputReference {
+  return { $ref: path ? `steps.${step}.output.${path}` : `steps.${step}.output` };
+}
+
+/**
+ * Check if a value is a step output reference ({ $ref: '...' })
+ */
+export function isStepOutputReference(value: unknown): value is StepOutputReference {
+  return isPlainObject(value) && typeof value.$ref === 'string';
+}
+
+/**
+ * Parse a reference string into the step name and the path into its output
+ * Returns null if the reference doesn't match steps.<name>.output[.<path>]
+ */
+export function parseStepReference(ref: string): { step: string; path?: string } | null {
+  const match = STEP_REFERENCE_PATTERN.exec(ref);
+  if (!match || !match[1]) return null;
+
+  return { step: match[1], path: match[2] };
+}
+
+/**
+ * Collect all reference strings in a (nested) step input
+ */
+export function collectStepReferences(value: unknown): string[] {
+  if (isStepOutputReference(value)) return [value.$ref];
+  if (Array.isArray(value)) return value.flatMap(collectStepReferences);
+  if (isPlainObject(value)) return Object.values(value).flatMap(collectStepReferences);
+  return [];
+}
+
+/**
+ * Replace all references in a (nested) step input with the referenced output values
+ * References to missing outputs (e.g. skipped steps) resolve to undefined.
+ */
+export function resolveStepReferences(
+  value: unknown,
+  dataResults: Record<string, unknown>
+): unknown {
+  if (isStepOutputReference(value)) {
+    const reference = parseStepReference(value.$ref);
+    return reference ? getValueAtPath(dataResults[reference.step], reference.path) : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveStepReferences(item, dataResults));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveStepReferences(item, dataResults)])
+    );
+  }
+
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+// ============================================
+// Conditions
+// ============================================
+
+/**
+ * Evaluate a step condition against the output data of the referenced step
+ */
+export function evaluateStepCondition(
+  condition: StepCondition,
+  dataResults: Record<string, unknown>
+): boolean {
+  const actual = getValueAtPath(dataResults[condition.step], condition.path);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'notExists':
+      return actual === undefined || actual === null;
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      if (typeof actual === 'string') return actual.includes(String(expected));
+      return false;
+    case 'greaterThan':
+      return typeof actual === 'number' && actual > Number(expected);
+    case 'lessThan':
+      return typeof actual === 'number' && actual < Number(expected);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate one or more conditions (all must hold)
+ */
+export function evaluateStepConditions(
+  condition: StepCondition | StepCondition[] | undefined,
+  dataResults: Record<string, unknown>
+): boolean {
+  if (!condition) return true;
+
+  const conditions = Array.isArray(condition) ? condition : [condition];
+  return conditions.every((c) => evaluateStepCondition(c, dataResults));
+}
+
+// ============================================
+// Retries
+// ============================================
+
+/**
+ * Delay before the given retry (1 = first retry) with exponential backoff
+ */
+export function getRetryDelay(policy: StepRetryPolicy, retry: number): number {
+  const {
+    backoffMs = 1000,
+    backoffMultiplier = 2,
+    maxBackoffMs = 30000,
+  } = policy;
+
+  return Math.min(backoffMs * Math.pow(backoffMultiplier, retry - 1), maxBackoffMs);
+}
@@ -80,6 +80,10 @@ export {
   BaseAgent,
   BaseTool,
   AgentOrchestrator,
+  InMemoryWorkflowRunStore,
+  stepOutput,
+  AbortedError,
+  isAbortError,
 } from './base';
 
 export type {
@@ -90,12 +94,26 @@ export type {
   LogLevel,
   ToolConfig,
   ToolResult,
+  ToolExecutionOptions,
   WorkflowStep,
+  WorkflowStepStatus,
+  StepRetryPolicy,
+  StepCondition,
+  StepConditionOperator,
+  StepFanOut,
+  StepOutputReference,
   WorkflowPlan,
   WorkflowResult,
+  WorkflowRun,
+  WorkflowRunStatus,
+  WorkflowRunFilter,
+  WorkflowStepRun,
   AgentEvent,
   ToolEvent,
   OrchestratorConfig,
+  WorkflowExecutionOptions,
+  WorkflowRunStore,
+  WorkflowRunUpdates,
 } from './base';
 
 // ============================================
@@ -9,6 +9,7 @@
  * - Extract text content
  * - Extract metadata (title, description, og tags)
  * - Convert HTML to markdown
+ * - Domain allowlist/denylist (options.domainPolicy, also checked after redirects)
  * - Screenshot support (planned for Playwright version)
  *
  * Future: Full Playwright integration for:
@@ -23,7 +24,9 @@
  * @phase Phase 2: Core Tools
  */
 
-import { BaseTool, ToolResult } from '../base';
+import { BaseTool, ToolResult, ToolExecutionOptions } from '../base';
+import { linkSignal } from '../base/cancellation';
+import { assertUrlAllowed } from '../base/domainPolicy';
 import { JSDOM } from 'jsdom';
 import TurndownService from 'turndown';
 
@@ -135,7 +138,10 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Execute browser fetch
    */
-  async execute(input: BrowserToolInput): Promise<ToolResult<BrowserToolOutput>> {
+  async execute(
+    input: BrowserToolInput,
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolResult<BrowserToolOutput>> {
     try {
       // Validate input
       this.validateInput(input, {
@@ -156,9 +162,14 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
         format,
       });
 
-      // Fetch page
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      assertUrlAllowed(url, options.domainPolicy);
+
+      // Fetch page (aborts on timeout or when the caller cancels)
+      const { signal, cleanup } = linkSignal(
+        options.signal,
+        timeout,
+        `Page fetch timed out after ${timeout}ms`
+      );
 
       const response = await fetch(url, {
         headers: {
@@ -166,10 +177,12 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
           'Accept-Language': 'en-US,en;q=0.9',
         },
-        signal: controller.signal,
-      });
+        signal,
+      }).finally(cleanup);
 
-      clearTimeout(timeoutId);
+      if (response.redirected) {
+        assertUrlAllowed(response.url, options.domainPolicy);
+      }
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -309,11 +322,17 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Helper: Fetch page as markdown
    */
-  async fetchMarkdown(url: string): Promise<string> {
-    const result = await this.execute({
-      url,
-      format: 'markdown',
-    });
+  async fetchMarkdown(
+    url: string,
+    options?: ToolExecutionOptions
+  ): Promise<string> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'markdown',
+      },
+      options
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`Failed to fetch page: ${result.error}`);
@@ -325,11 +344,17 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Helper: Fetch page as text
    */
-  async fetchText(url: string): Promise<string> {
-    const result = await this.execute({
-      url,
-      format: 'text',
-    });
+  async fetchText(
+    url: string,
+    options?: ToolExecutionOptions
+  ): Promise<string> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'text',
+      },
+      options
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`Failed to fetch page: ${result.error}`);
@@ -341,11 +366,17 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Helper: Fetch page metadata only
    */
-  async fetchMetadata(url: string): Promise<PageMetadata> {
-    const result = await this.execute({
-      url,
-      extractMetadata: true,
-    });
+  async fetchMetadata(
+    url: string,
+    options?: ToolExecutionOptions
+  ): Promise<PageMetadata> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        extractMetadata: true,
+      },
+      options
+    );
 
     if (!result.success || !result.data || !result.data.metadata) {
       throw new Error(`Failed to fetch metadata: ${result.error}`);
@@ -357,12 +388,19 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Helper: Extract specific content by selector
    */
-  async extractBySelector(url: string, selector: string): Promise<string> {
-    const result = await this.execute({
-      url,
-      selector,
-      format: 'markdown',
-    });
+  async extractBySelector(
+    url: string,
+    selector: string,
+    options?: ToolExecutionOptions
+  ): Promise<string> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        selector,
+        format: 'markdown',
+      },
+      options
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`Failed to extract content: ${result.error}`);
@@ -374,11 +412,17 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Helper: Check if URL is accessible
    */
-  async isAccessible(url: string): Promise<boolean> {
-    const result = await this.execute({
-      url,
-      format: 'text',
-    });
+  async isAccessible(
+    url: string,
+    options?: ToolExecutionOptions
+  ): Promise<boolean> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'text',
+      },
+      options
+    );
 
     return result.success;
   }
@@ -386,11 +430,17 @@ export class BrowserTool extends BaseTool<BrowserToolInput, BrowserToolOutput> {
   /**
    * Helper: Get page title
    */
-  async getPageTitle(url: string): Promise<string | null> {
-    const result = await this.execute({
-      url,
-      extractMetadata: true,
-    });
+  async getPageTitle(
+    url: string,
+    options?: ToolExecutionOptions
+  ): Promise<string | null> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        extractMetadata: true,
+      },
+      options
+    );
 
     if (!result.success || !result.data) {
       return null;
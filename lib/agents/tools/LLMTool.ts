@@ -6,7 +6,7 @@
  *
  * Features:
  * - Streaming and non-streaming modes
- * - Token usage tracking
+ * - Token usage and cost tracking
  * - Multiple model support
  * - System prompt support
  * - Temperature and max_tokens control
@@ -18,7 +18,7 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseTool, ToolResult } from '../base';
+import { BaseTool, ToolResult, ToolExecutionOptions, createUsageRecord } from '../base';
 
 // ============================================
 // LLM Tool Input/Output Types
@@ -71,6 +71,9 @@ export interface LLMToolOutput {
   rawResponse?: any;
 }
 
+/** Helper options: LLM input overrides plus abort signal/timeout/usage tracker */
+export type LLMHelperOptions = Partial<LLMToolInput> & ToolExecutionOptions;
+
 // ============================================
 // LLM Tool Class
 // ============================================
@@ -101,7 +104,12 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
   /**
    * Execute LLM generation
    */
-  async execute(input: LLMToolInput): Promise<ToolResult<LLMToolOutput>> {
+  async execute(
+    input: LLMToolInput,
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolResult<LLMToolOutput>> {
+    const { signal } = options;
+
     try {
       // Validate input
       this.validateInput(input, {
@@ -134,13 +142,16 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
 
       // Non-streaming mode
       if (!stream) {
-        const response = await this.client.messages.create({
-          model,
-          max_tokens: maxTokens,
-          temperature,
-          system: systemPrompt,
-          messages,
-        });
+        const response = await this.client.messages.create(
+          {
+            model,
+            max_tokens: maxTokens,
+            temperature,
+            system: systemPrompt,
+            messages,
+          },
+          { signal }
+        );
 
         const text = response.content
           .filter((block) => block.type === 'text')
@@ -169,6 +180,7 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
           {
             tokensUsed: tokensUsed.total,
             model,
+            usage: createUsageRecord(model, tokensUsed.input, tokensUsed.output),
           }
         );
       }
@@ -179,14 +191,17 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
         let inputTokens = 0;
         let outputTokens = 0;
 
-        const stream = await this.client.messages.create({
-          model,
-          max_tokens: maxTokens,
-          temperature,
-          system: systemPrompt,
-          messages,
-          stream: true,
-        });
+        const stream = await this.client.messages.create(
+          {
+            model,
+            max_tokens: maxTokens,
+            temperature,
+            system: systemPrompt,
+            messages,
+            stream: true,
+          },
+          { signal }
+        );
 
         for await (const event of stream) {
           if (event.type === 'content_block_delta') {
@@ -226,6 +241,7 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
           {
             tokensUsed: tokensUsed.total,
             model,
+            usage: createUsageRecord(model, tokensUsed.input, tokensUsed.output),
           }
         );
       }
@@ -245,12 +261,16 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
    */
   async generateText(
     prompt: string,
-    options?: Partial<LLMToolInput>
+    options?: LLMHelperOptions
   ): Promise<string> {
-    const result = await this.execute({
-      prompt,
-      ...options,
-    });
+    const { signal, timeout, usage, domainPolicy, ...llmOptions } = options ?? {};
+    const result = await this.executeWithTracking(
+      {
+        prompt,
+        ...llmOptions,
+      },
+      { signal, timeout, usage, domainPolicy }
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`LLM generation failed: ${result.error}`);
@@ -265,13 +285,17 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
   async generateWithSystem(
     systemPrompt: string,
     prompt: string,
-    options?: Partial<LLMToolInput>
+    options?: LLMHelperOptions
   ): Promise<string> {
-    const result = await this.execute({
-      systemPrompt,
-      prompt,
-      ...options,
-    });
+    const { signal, timeout, usage, domainPolicy, ...llmOptions } = options ?? {};
+    const result = await this.executeWithTracking(
+      {
+        systemPrompt,
+        prompt,
+        ...llmOptions,
+      },
+      { signal, timeout, usage, domainPolicy }
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`LLM generation failed: ${result.error}`);
@@ -286,14 +310,18 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
   async generateStreaming(
     prompt: string,
     onChunk: (chunk: string) => void,
-    options?: Partial<LLMToolInput>
+    options?: LLMHelperOptions
   ): Promise<string> {
-    const result = await this.execute({
-      prompt,
-      stream: true,
-      onChunk,
-      ...options,
-    });
+    const { signal, timeout, usage, domainPolicy, ...llmOptions } = options ?? {};
+    const result = await this.executeWithTracking(
+      {
+        prompt,
+        stream: true,
+        onChunk,
+        ...llmOptions,
+      },
+      { signal, timeout, usage, domainPolicy }
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`LLM generation failed: ${result.error}`);
@@ -310,17 +338,21 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
   async generateJSON<T = any>(
     prompt: string,
     schema?: string,
-    options?: Partial<LLMToolInput>
+    options?: LLMHelperOptions
   ): Promise<T> {
     const jsonPrompt = schema
       ? `${prompt}\n\nRespond in JSON format following this schema:\n${schema}\n\nRespond ONLY with valid JSON, no other text.`
       : `${prompt}\n\nRespond in JSON format. Respond ONLY with valid JSON, no other text.`;
 
-    const result = await this.execute({
-      prompt: jsonPrompt,
-      temperature: 0.3, // Lower temperature for structured output
-      ...options,
-    });
+    const { signal, timeout, usage, domainPolicy, ...llmOptions } = options ?? {};
+    const result = await this.executeWithTracking(
+      {
+        prompt: jsonPrompt,
+        temperature: 0.3, // Lower temperature for structured output
+        ...llmOptions,
+      },
+      { signal, timeout, usage, domainPolicy }
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`LLM generation failed: ${result.error}`);
@@ -350,13 +382,17 @@ export class LLMTool extends BaseTool<LLMToolInput, LLMToolOutput> {
   /**
    * Helper: Ask a yes/no question
    */
-  async askYesNo(question: string, options?: Partial<LLMToolInput>): Promise<boolean> {
-    const result = await this.execute({
-      prompt: `${question}\n\nRespond with ONLY "yes" or "no", nothing else.`,
-      temperature: 0.3,
-      maxTokens: 10,
-      ...options,
-    });
+  async askYesNo(question: string, options?: LLMHelperOptions): Promise<boolean> {
+    const { signal, timeout, usage, domainPolicy, ...llmOptions } = options ?? {};
+    const result = await this.executeWithTracking(
+      {
+        prompt: `${question}\n\nRespond with ONLY "yes" or "no", nothing else.`,
+        temperature: 0.3,
+        maxTokens: 10,
+        ...llmOptions,
+      },
+      { signal, timeout, usage, domainPolicy }
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`LLM generation failed: ${result.error}`);
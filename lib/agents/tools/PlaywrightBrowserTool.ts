@@ -13,6 +13,7 @@
  * - Interactive actions (click, type, scroll)
  * - Cookie and localStorage management
  * - Network request interception
+ * - Domain allowlist/denylist (options.domainPolicy, applied to every request)
  * - Multi-browser support (chromium, firefox, webkit)
  *
  * @author Payperwork Team
@@ -20,7 +21,9 @@
  * @phase Phase 4: Playwright Integration
  */
 
-import { BaseTool, ToolResult } from '../base';
+import { BaseTool, ToolResult, ToolExecutionOptions } from '../base';
+import { throwIfAborted } from '../base/cancellation';
+import { assertUrlAllowed, isUrlAllowed } from '../base/domainPolicy';
 import { chromium, firefox, webkit, Browser, Page, BrowserContext } from 'playwright';
 import TurndownService from 'turndown';
 import { PageMetadata } from './BrowserTool';
@@ -161,12 +164,20 @@ export class PlaywrightBrowserTool extends BaseTool<
    * Execute browser automation
    */
   async execute(
-    input: PlaywrightBrowserToolInput
+    input: PlaywrightBrowserToolInput,
+    options: ToolExecutionOptions = {}
   ): Promise<ToolResult<PlaywrightBrowserToolOutput>> {
+    const { signal, domainPolicy } = options;
     let browser: Browser | null = null;
     let context: BrowserContext | null = null;
     let page: Page | null = null;
 
+    // Closing the browser rejects any pending page operation
+    const onAbort = () => {
+      browser?.close().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     try {
       // Validate input
       this.validateInput(input, {
@@ -197,8 +208,12 @@ export class PlaywrightBrowserTool extends BaseTool<
         format,
       });
 
+      assertUrlAllowed(url, domainPolicy);
+
       // Launch browser
+      throwIfAborted(signal);
       browser = await this.launchBrowser(browserType);
+      if (signal?.aborted) onAbort();
 
       // Create context
       context = await browser.newContext({
@@ -206,6 +221,15 @@ export class PlaywrightBrowserTool extends BaseTool<
         userAgent,
       });
 
+      // Block requests to other domains (redirects, subresources, clicked links)
+      if (domainPolicy) {
+        await context.route('**/*', (route) =>
+          isUrlAllowed(route.request().url(), domainPolicy)
+            ? route.continue()
+            : route.abort('blockedbyclient')
+        );
+      }
+
       // Create page
       page = await context.newPage();
 
@@ -236,7 +260,7 @@ export class PlaywrightBrowserTool extends BaseTool<
 
       // Execute interactive actions
       if (actions && actions.length > 0) {
-        await this.executeActions(page, actions);
+        await this.executeActions(page, actions, signal);
       }
 
       // Execute custom script
@@ -309,8 +333,14 @@ export class PlaywrightBrowserTool extends BaseTool<
       }
 
       return this.createErrorResult(
-        error instanceof Error ? error.message : 'Unknown browser error'
+        signal?.aborted
+          ? 'Browser automation cancelled'
+          : error instanceof Error
+            ? error.message
+            : 'Unknown browser error'
       );
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -342,9 +372,11 @@ export class PlaywrightBrowserTool extends BaseTool<
       selector?: string;
       text?: string;
       delay?: number;
-    }>
+    }>,
+    signal?: AbortSignal
   ): Promise<void> {
     for (const action of actions) {
+      throwIfAborted(signal);
       this.log('debug', `Executing action: ${action.type}`, action);
 
       switch (action.type) {
@@ -528,12 +560,19 @@ export class PlaywrightBrowserTool extends BaseTool<
   /**
    * Helper: Fetch page as markdown with JS rendering
    */
-  async fetchMarkdown(url: string, waitForNetworkIdle = true): Promise<string> {
-    const result = await this.execute({
-      url,
-      format: 'markdown',
-      waitForNetworkIdle,
-    });
+  async fetchMarkdown(
+    url: string,
+    waitForNetworkIdle = true,
+    executionOptions?: ToolExecutionOptions
+  ): Promise<string> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'markdown',
+        waitForNetworkIdle,
+      },
+      executionOptions
+    );
 
     if (!result.success || !result.data?.content) {
       throw new Error(`Failed to fetch page: ${result.error}`);
@@ -551,17 +590,21 @@ export class PlaywrightBrowserTool extends BaseTool<
       fullPage?: boolean;
       selector?: string;
       waitForSelector?: string;
-    }
+    },
+    executionOptions?: ToolExecutionOptions
   ): Promise<Buffer> {
-    const result = await this.execute({
-      url,
-      format: 'screenshot',
-      screenshot: {
-        fullPage: options?.fullPage,
-        selector: options?.selector,
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'screenshot',
+        screenshot: {
+          fullPage: options?.fullPage,
+          selector: options?.selector,
+        },
+        waitForSelector: options?.waitForSelector,
       },
-      waitForSelector: options?.waitForSelector,
-    });
+      executionOptions
+    );
 
     if (!result.success || !result.data?.screenshot) {
       throw new Error(`Failed to take screenshot: ${result.error}`);
@@ -578,13 +621,17 @@ export class PlaywrightBrowserTool extends BaseTool<
     options?: {
       format?: 'A4' | 'Letter' | 'Legal';
       landscape?: boolean;
-    }
+    },
+    executionOptions?: ToolExecutionOptions
   ): Promise<Buffer> {
-    const result = await this.execute({
-      url,
-      format: 'pdf',
-      pdf: options,
-    });
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'pdf',
+        pdf: options,
+      },
+      executionOptions
+    );
 
     if (!result.success || !result.data?.pdf) {
       throw new Error(`Failed to generate PDF: ${result.error}`);
@@ -596,11 +643,18 @@ export class PlaywrightBrowserTool extends BaseTool<
   /**
    * Helper: Execute custom script
    */
-  async executePageScript(url: string, script: string): Promise<any> {
-    const result = await this.execute({
-      url,
-      executeScript: script,
-    });
+  async executePageScript(
+    url: string,
+    script: string,
+    executionOptions?: ToolExecutionOptions
+  ): Promise<any> {
+    const result = await this.executeWithTracking(
+      {
+        url,
+        executeScript: script,
+      },
+      executionOptions
+    );
 
     if (!result.success) {
       throw new Error(`Failed to execute script: ${result.error}`);
@@ -614,14 +668,18 @@ export class PlaywrightBrowserTool extends BaseTool<
    */
   async automatePageActions(
     url: string,
-    actions: PlaywrightBrowserToolInput['actions']
+    actions: PlaywrightBrowserToolInput['actions'],
+    executionOptions?: ToolExecutionOptions
   ): Promise<string> {
-    const result = await this.execute({
-      url,
-      format: 'markdown',
-      actions,
-      waitForNetworkIdle: true,
-    });
+    const result = await this.executeWithTracking(
+      {
+        url,
+        format: 'markdown',
+        actions,
+        waitForNetworkIdle: true,
+      },
+      executionOptions
+    );
 
     if (!result.success || !result.data?.content) {
       throw new Error(`Failed to automate actions: ${result.error}`);
@@ -21,7 +21,7 @@
  * @phase Phase 2: Core Tools
  */
 
-import { BaseTool, ToolResult } from '../base';
+import { BaseTool, ToolResult, ToolExecutionOptions, createUsageRecord } from '../base';
 
 // ============================================
 // Search Tool Input/Output Types
@@ -156,7 +156,10 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
   /**
    * Execute search
    */
-  async execute(input: SearchToolInput): Promise<ToolResult<SearchToolOutput>> {
+  async execute(
+    input: SearchToolInput,
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolResult<SearchToolOutput>> {
     try {
       // Validate input
       this.validateInput(input, {
@@ -208,6 +211,7 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
           'Accept-Encoding': 'gzip',
           'X-Subscription-Token': this.apiKey,
         },
+        signal: options.signal,
       });
 
       if (!response.ok) {
@@ -230,13 +234,19 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
         resultCount: results.length,
       });
 
-      return this.createSuccessResult({
-        query,
-        results,
-        totalResults: results.length,
-        queryUsed: data.query?.altered || data.query?.original || query,
-        rawResponse: data,
-      });
+      return this.createSuccessResult(
+        {
+          query,
+          results,
+          totalResults: results.length,
+          queryUsed: data.query?.altered || data.query?.original || query,
+          rawResponse: data,
+        },
+        {
+          // Brave bills every successful request
+          usage: createUsageRecord('brave-search'),
+        }
+      );
     } catch (error) {
       this.log('error', `Search failed`, {
         error: error instanceof Error ? error.message : String(error),
@@ -295,12 +305,19 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
   /**
    * Helper: Simple web search
    */
-  async search(query: string, count = 10): Promise<SearchResult[]> {
-    const result = await this.execute({
-      query,
-      type: 'web',
-      count,
-    });
+  async search(
+    query: string,
+    count = 10,
+    options?: ToolExecutionOptions
+  ): Promise<SearchResult[]> {
+    const result = await this.executeWithTracking(
+      {
+        query,
+        type: 'web',
+        count,
+      },
+      options
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`Search failed: ${result.error}`);
@@ -312,12 +329,19 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
   /**
    * Helper: News search
    */
-  async searchNews(query: string, count = 10): Promise<SearchResult[]> {
-    const result = await this.execute({
-      query,
-      type: 'news',
-      count,
-    });
+  async searchNews(
+    query: string,
+    count = 10,
+    options?: ToolExecutionOptions
+  ): Promise<SearchResult[]> {
+    const result = await this.executeWithTracking(
+      {
+        query,
+        type: 'news',
+        count,
+      },
+      options
+    );
 
     if (!result.success || !result.data) {
       throw new Error(`News search failed: ${result.error}`);
@@ -329,8 +353,11 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
   /**
    * Helper: Get top result
    */
-  async getTopResult(query: string): Promise<SearchResult | null> {
-    const results = await this.search(query, 1);
+  async getTopResult(
+    query: string,
+    options?: ToolExecutionOptions
+  ): Promise<SearchResult | null> {
+    const results = await this.search(query, 1, options);
     return results.length > 0 ? results[0] : null;
   }
 
@@ -340,10 +367,11 @@ export class SearchTool extends BaseTool<SearchToolInput, SearchToolOutput> {
   async searchDomain(
     query: string,
     domain: string,
-    count = 10
+    count = 10,
+    options?: ToolExecutionOptions
   ): Promise<SearchResult[]> {
     const siteQuery = `site:${domain} ${query}`;
-    return this.search(siteQuery, count);
+    return this.search(siteQuery, count, options);
   }
 
   /**
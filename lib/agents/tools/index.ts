@@ -29,6 +29,7 @@ export { PlaywrightBrowserTool } from './PlaywrightBrowserTool';
 export type {
   LLMToolInput,
   LLMToolOutput,
+  LLMHelperOptions,
 } from './LLMTool';
 
 export type {
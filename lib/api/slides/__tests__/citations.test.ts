@@ -0,0 +1,120 @@
+/**
+ * Test suite for slide citations (source provenance of research-backed slides)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  extractCitations,
+  findUnsupportedClaims,
+  relinkCitations,
+  linkCitationMarkers,
+  buildReferencesSlide,
+} from '../citations';
+import { QualityScorer } from '../agents/pipeline/utils/qualityScorer';
+import type { Slide } from '@/types/slides';
+
+const sources = [
+  { title: 'Timber Study', url: 'https://example.com/study', snippet: 'Timber stores carbon' },
+  { title: 'Market Report', url: 'https://example.com/report', snippet: 'Market grows' },
+];
+
+function slide(orderIndex: number, content: string): Slide {
+  const { content: text, citations } = extractCitations(content, sources);
+  return {
+    id: `slide-${orderIndex}`,
+    presentation_id: 'presentation-1',
+    order_index: orderIndex,
+    title: `Slide ${orderIndex}`,
+    content: text,
+    layout: 'content',
+    background_color: null,
+    background_image: null,
+    speaker_notes: null,
+    citations,
+    created_at: '2025-10-19T00:00:00Z',
+    updated_at: '2025-10-19T00:00:00Z',
+  };
+}
+
+describe('Slide Citations', () => {
+  it('should link markers to research sources by number', () => {
+    const { content, citations } = extractCitations(
+      '# Timber\n- Stores 1 t CO₂ per m³ [1]\n- Market grows 12% [2] [1]\n- See [docs](https://x.y)',
+      sources
+    );
+
+    expect(content).toContain('[2] [1]');
+    expect(citations).toEqual([
+      { number: 1, ...sources[0], lines: [1, 2] },
+      { number: 2, ...sources[1], lines: [2] },
+    ]);
+  });
+
+  it('should drop markers of unknown sources', () => {
+    const { content, citations } = extractCitations('- Costs fall by 30% [7]', sources);
+
+    expect(content).toBe('- Costs fall by 30%');
+    expect(citations).toEqual([]);
+  });
+
+  it('should find numeric claims without a source', () => {
+    const content = [
+      '## Market 2024',
+      '- Market grows 12% per year',
+      '- Timber stores 1 t CO₂ per m³ [1]',
+      '- Timber is light',
+      '1. 40 Mio € invested',
+      '| Year | 2030 |',
+      '```',
+      'const x = 100;',
+      '```',
+    ].join('\n');
+
+    expect(findUnsupportedClaims(content)).toEqual([
+      'Market grows 12% per year',
+      '40 Mio € invested',
+    ]);
+  });
+
+  it('should relink citations of edited content', () => {
+    const { citations } = extractCitations('- A 10% [1]\n- B 20% [2]', sources);
+
+    expect(relinkCitations('Intro\n- B 20% [2]', citations)).toEqual([
+      { number: 2, ...sources[1], lines: [1] },
+    ]);
+  });
+
+  it('should turn markers into footnote links', () => {
+    expect(linkCitationMarkers('Grows 12% [2]')).toBe('Grows 12% [\\[2\\]](#citation-2)');
+    expect(linkCitationMarkers('\\[2\\] [Report](https://example.com)')).toBe(
+      '\\[2\\] [Report](https://example.com)'
+    );
+  });
+
+  it('should build a references slide after the last slide', () => {
+    const slides = [slide(0, '- Grows 12% [2]'), slide(1, '- Stores carbon [1]\n- Grows [2]')];
+
+    const references = buildReferencesSlide('presentation-1', slides);
+
+    expect(references).toMatchObject({ title: 'Quellen', order_index: 2, citations: [] });
+    expect(references?.content).toBe(
+      '- \\[1\\] [Timber Study](https://example.com/study)\n' +
+        '- \\[2\\] [Market Report](https://example.com/report)'
+    );
+    expect(buildReferencesSlide('presentation-1', [slide(0, 'No sources')])).toBeNull();
+  });
+
+  it('should penalize unsupported numeric claims in the quality score', () => {
+    const research = { summary: '', keyFindings: [], sources };
+    const cited = extractCitations('- Market grows 12% per year [2]', sources);
+    const uncited = { title: 'Market', content: '- Market grows 12% per year' };
+
+    const good = QualityScorer.calculate([{ title: 'Market', ...cited }], research);
+    const bad = QualityScorer.calculate([uncited], research);
+
+    expect(good.checks).toMatchObject({ usedResearch: true, citedSlides: 1, unsupportedClaims: 0 });
+    expect(bad.checks).toMatchObject({ usedResearch: false, unsupportedClaims: 1 });
+    expect(bad.issues).toContain('Slide 1: unsupported claim "Market grows 12% per year"');
+    expect(good.score - bad.score).toBe(13);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Test suite for the quality checks and the quality fix pass
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { QualityScorer } from '../agents/pipeline/utils/qualityScorer';
+import { QualityFixPhase } from '../agents/pipeline/phases/QualityFixPhase';
+import { getReadingEase, getHeadingCase } from '../agents/pipeline/utils/textMetrics';
+import type { SlideContent, TopicWithResearch } from '../agents/pipeline/types';
+
+const mockGenerateStreaming = jest.fn();
+
+jest.mock('@/lib/agents/tools/LLMTool', () => ({
+  LLMTool: jest.fn().mockImplementation(() => ({
+    generateStreaming: mockGenerateStreaming,
+  })),
+}));
+
+const TEXT =
+  'Holz wächst nach und speichert Kohlenstoff. Bauteile werden im Werk vorgefertigt. ' +
+  'Die Baustelle bleibt leise und sauber. Das spart Zeit und Kosten.';
+
+const OUTLOOK =
+  'Städte planen immer mehr Häuser aus Holz. Neue Regeln erlauben höhere Gebäude. ' +
+  'Architekten lernen den Baustoff neu kennen. Der Markt für Fachkräfte wächst.';
+
+function slide(id: string, title: string, content: string = TEXT): SlideContent {
+  return { id, title, content };
+}
+
+function topic(order: number): TopicWithResearch {
+  return { order, title: `Topic ${order}`, description: '', keyPoints: [] };
+}
+
+describe('Quality Scorer', () => {
+  it('should flag overloaded slides for their layout', () => {
+    const bullets = Array.from({ length: 8 }, (_, i) => `- Vorteil ${i + 1} von Holz`).join('\n');
+
+    const result = QualityScorer.calculate([
+      slide('a', 'Einleitung', bullets),
+      { ...slide('b', 'Fazit', bullets), layout: 'two_column' },
+    ]);
+
+    expect(result.checks.overloadedSlides).toBe(1);
+    expect(result.issuesBySlide.a).toContainEqual(
+      expect.objectContaining({ check: 'overloaded', severity: 'warning' })
+    );
+    expect(result.issuesBySlide.b).toBeUndefined();
+    expect(result.issues).toContain('1 slides are overloaded for their layout (-5 points)');
+  });
+
+  it('should flag the later of two near-duplicate slides', () => {
+    const result = QualityScorer.calculate([
+      slide('a', 'Einleitung', OUTLOOK),
+      slide('b', 'Vorteile von Holz'),
+      slide('c', 'Vorteile von Holz', TEXT.replace('leise', 'ruhig')),
+      slide('d', 'Fazit', '- Holz hat Zukunft'),
+    ]);
+
+    expect(result.checks.duplicateSlides).toBe(1);
+    expect(result.issuesBySlide.c).toContainEqual(
+      expect.objectContaining({ check: 'duplicate', message: expect.stringContaining('slide 2') })
+    );
+    expect(result.issuesBySlide.b).toBeUndefined();
+  });
+
+  it('should flag titles differing from the case of most titles', () => {
+    const result = QualityScorer.calculate([
+      slide('a', 'Einleitung', '- Holz'),
+      slide('b', 'Kosten', '- Holz'),
+      slide('c', 'BRANDSCHUTZ', '- Holz'),
+      slide('d', 'Fazit', '- Holz'),
+    ]);
+
+    expect(result.checks.inconsistentHeadings).toBe(1);
+    expect(result.issuesBySlide.c).toContainEqual(
+      expect.objectContaining({ check: 'heading_case', fix: expect.stringContaining('normale') })
+    );
+    expect(getHeadingCase('42')).toBeNull();
+  });
+
+  it('should flag slides that are hard to read', () => {
+    const hard =
+      'Die Inbetriebnahme vollautomatisierter Vorfertigungsanlagen ermöglicht eine ' +
+      'weitestgehend witterungsunabhängige Produktionsplanung, wodurch Bauzeitverkürzungen ' +
+      'insbesondere bei mehrgeschossigen Wohnungsbauvorhaben unter Berücksichtigung ' +
+      'brandschutztechnischer Anforderungen realisiert werden können.';
+
+    expect(getReadingEase(TEXT)).toBeGreaterThan(getReadingEase(hard));
+
+    const result = QualityScorer.calculate([slide('a', 'Einleitung'), slide('b', 'Fazit', hard)]);
+
+    expect(result.checks.hardToReadSlides).toBe(1);
+    expect(result.issuesBySlide.b?.map((issue) => issue.check)).toContain('readability');
+  });
+
+  it('should use the position as id of slides without one', () => {
+    const result = QualityScorer.calculate([{ title: 'Kosten', content: '' }]);
+
+    expect(result.issuesBySlide['slide-1']?.map((issue) => issue.check)).toEqual([
+      'empty',
+      'introduction',
+      'conclusion',
+    ]);
+  });
+});
+
+describe('Quality Fix Phase', () => {
+  it('should rewrite only the slides with fixable issues', async () => {
+    mockGenerateStreaming.mockImplementation(async () => 'TITLE: Kosten\n' + TEXT);
+
+    const slides = [
+      slide('a', 'Einleitung'),
+      slide('b', 'Kosten', 'Zu kurz'),
+      slide('c', 'Fazit', OUTLOOK),
+    ];
+    const phase = new QualityFixPhase();
+    const result = await phase.execute(slides, [topic(1), topic(2), topic(3)]);
+
+    expect(mockGenerateStreaming).toHaveBeenCalledTimes(1);
+    expect(mockGenerateStreaming.mock.calls[0]?.[0]).toContain('Die Folie hat keinen Inhalt');
+
+    expect(result.fixedSlides).toEqual(['b']);
+    expect(result.slides[0]).toBe(slides[0]);
+    expect(result.slides[1]).toMatchObject({ id: 'b', title: 'Kosten', content: TEXT });
+    expect(result.slides[2]).toBe(slides[2]);
+  });
+});
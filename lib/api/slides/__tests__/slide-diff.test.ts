@@ -0,0 +1,66 @@
+/**
+ * Test suite for the slide diff (revision history)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diffText, diffSlides, SlideSnapshot } from '../slide-diff';
+
+function join(segments: ReturnType<typeof diffText>, skip: 'insert' | 'delete'): string {
+  return segments
+    .filter((segment) => segment.type !== skip)
+    .map((segment) => segment.text)
+    .join('');
+}
+
+describe('Slide Diff', () => {
+  it('should diff texts word by word', () => {
+    const segments = diffText('Timber is light and strong', 'Timber is very light and cheap');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: 'Timber is ' },
+      { type: 'insert', text: 'very ' },
+      { type: 'equal', text: 'light and ' },
+      { type: 'delete', text: 'strong' },
+      { type: 'insert', text: 'cheap' },
+    ]);
+  });
+
+  it('should rebuild both versions from the segments', () => {
+    const before = '- Lower embodied carbon\n- Fast assembly\n\nNotes';
+    const after = '- Lower carbon\n- Fast, dry assembly\n- Prefabrication';
+    const segments = diffText(before, after);
+
+    expect(join(segments, 'insert')).toBe(before);
+    expect(join(segments, 'delete')).toBe(after);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffText('', '')).toEqual([]);
+    expect(diffText('', 'New')).toEqual([{ type: 'insert', text: 'New' }]);
+    expect(diffText('Old', '')).toEqual([{ type: 'delete', text: 'Old' }]);
+  });
+
+  it('should only return changed slide fields', () => {
+    const before: SlideSnapshot = {
+      title: 'Why Timber',
+      content: 'Lower embodied carbon',
+      layout: 'content',
+      background_color: null,
+      background_image: null,
+      speaker_notes: null,
+    };
+
+    const diffs = diffSlides(before, {
+      ...before,
+      layout: 'two_column',
+      speaker_notes: 'Mention Mjøstårnet',
+    });
+
+    expect(diffs.map((diff) => diff.field)).toEqual(['layout', 'speaker_notes']);
+    expect(diffs[1]).toMatchObject({
+      before: '',
+      after: 'Mention Mjøstårnet',
+      segments: [{ type: 'insert', text: 'Mention Mjøstårnet' }],
+    });
+  });
+});
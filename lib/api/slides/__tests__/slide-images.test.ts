@@ -0,0 +1,129 @@
+/**
+ * Test suite for the image slides of the presentation pipeline
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PreProductionPhase } from '../agents/pipeline/phases/PreProductionPhase';
+import { TopicGenerationPhase } from '../agents/pipeline/phases/TopicGenerationPhase';
+import type { SlideContent } from '../agents/pipeline/types';
+
+const mockGenerateText = jest.fn();
+const mockGenerateJSON = jest.fn();
+const mockGenerateSlideImage = jest.fn();
+const mockUploadSlideImage = jest.fn();
+
+jest.mock('@/lib/agents/tools/LLMTool', () => ({
+  LLMTool: jest.fn().mockImplementation(() => ({
+    generateText: mockGenerateText,
+    generateJSON: mockGenerateJSON,
+  })),
+}));
+
+jest.mock('../agents/pipeline/utils/slideImages', () => ({
+  DEFAULT_MAX_IMAGES: 3,
+  generateSlideImage: (...args: unknown[]) => mockGenerateSlideImage(...args),
+}));
+
+jest.mock('@/lib/supabase-slides', () => ({
+  uploadSlideImage: (...args: unknown[]) => mockUploadSlideImage(...args),
+}));
+
+const IMAGE = { data: new Uint8Array([1, 2, 3]), mimeType: 'image/png' };
+
+function slide(id: string, layout?: SlideContent['layout']): SlideContent {
+  return { id, title: `Folie ${id}`, content: '- Holz speichert CO₂ [2]', layout };
+}
+
+describe('Pre-Production Phase images', () => {
+  beforeEach(() => {
+    mockGenerateText.mockReset();
+    mockGenerateSlideImage.mockReset();
+    mockUploadSlideImage.mockReset();
+  });
+
+  it('should generate images for image slides up to the cap', async () => {
+    mockGenerateText.mockImplementation(async () => ' A timber house in a forest ');
+    mockGenerateSlideImage.mockImplementation(async () => IMAGE);
+    mockUploadSlideImage.mockImplementation(
+      async (_userId: string, image: { fileName: string }) => `https://cdn/${image.fileName}`
+    );
+
+    const slides = [slide('a'), slide('b', 'image'), slide('c', 'image'), slide('d', 'image')];
+    const phase = new PreProductionPhase(undefined, 'user-1');
+    const result = await phase.execute(slides, undefined, {
+      topic: 'Holzbau',
+      maxImages: 2,
+      format: '4:3',
+    });
+
+    expect(mockGenerateText).toHaveBeenCalledTimes(2);
+    expect(mockGenerateText.mock.calls[0]?.[0]).toContain('Präsentation "Holzbau"');
+    expect(mockGenerateText.mock.calls[0]?.[0]).not.toContain('[2]');
+    expect(mockGenerateSlideImage).toHaveBeenCalledWith('A timber house in a forest', '4:3', 'b');
+    expect(mockUploadSlideImage).toHaveBeenCalledWith('user-1', {
+      data: IMAGE.data,
+      fileName: 'b.png',
+      mimeType: 'image/png',
+    });
+
+    expect(result.imageSlides).toEqual(['b', 'c']);
+    expect(result.slides[1]?.imageUrl).toBe('https://cdn/b.png');
+    expect(result.slides[3]).toBe(slides[3]);
+  });
+
+  it('should keep slides without image when generation fails', async () => {
+    mockGenerateText.mockImplementation(async () => 'A timber house');
+    mockGenerateSlideImage
+      .mockImplementationOnce(async () => {
+        throw new Error('Gemini failed');
+      })
+      .mockImplementationOnce(async () => null);
+
+    const slides = [slide('a', 'image'), slide('b', 'image')];
+    const phase = new PreProductionPhase(undefined, 'user-1');
+    const result = await phase.execute(slides, undefined, { topic: 'Holzbau', maxImages: 3 });
+
+    expect(mockUploadSlideImage).not.toHaveBeenCalled();
+    expect(result.imageSlides).toEqual([]);
+    expect(result.slides).toEqual(slides);
+  });
+
+  it('should not generate images without image options', async () => {
+    const phase = new PreProductionPhase(undefined, 'user-1');
+    const result = await phase.execute([slide('a', 'image')]);
+
+    expect(mockGenerateText).not.toHaveBeenCalled();
+    expect(result.imageSlides).toEqual([]);
+  });
+});
+
+describe('Topic Generation Phase image slides', () => {
+  it('should keep the image layout on at most maxImages topics', async () => {
+    mockGenerateJSON.mockImplementation(async () =>
+      ['Einleitung', 'Holz', 'Stahl', 'Beton', 'Fazit'].map((title, i) => ({
+        order: i + 1,
+        title,
+        description: title,
+        keyPoints: [title],
+        layout: i === 0 ? 'quote' : 'image',
+      }))
+    );
+
+    const phase = new TopicGenerationPhase();
+    const result = await phase.execute({
+      topic: 'Baustoffe',
+      slideCount: 5,
+      generateImages: true,
+      maxImages: 2,
+    });
+
+    expect(mockGenerateJSON.mock.calls[0]?.[0]).toContain('Markiere bis zu 2 Themen');
+    expect(result.topics.map((topic) => topic.layout)).toEqual([
+      undefined,
+      'image',
+      'image',
+      undefined,
+      undefined,
+    ]);
+  });
+});
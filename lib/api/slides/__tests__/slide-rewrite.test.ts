@@ -0,0 +1,94 @@
+/**
+ * Test suite for single slide rewrites (ContentGenerationPhase.rewriteSlide)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ContentGenerationPhase,
+  parseSlideRewrite,
+} from '../agents/pipeline/phases/ContentGenerationPhase';
+import type { SlideRewritePreview } from '../agents/pipeline/types';
+
+const mockGenerateStreaming = jest.fn();
+
+jest.mock('@/lib/agents/tools/LLMTool', () => ({
+  LLMTool: jest.fn().mockImplementation(() => ({
+    generateStreaming: mockGenerateStreaming,
+  })),
+}));
+
+const topic = {
+  order: 7,
+  title: 'Costs',
+  description: 'Construction costs of timber buildings',
+  keyPoints: ['Prefabrication', 'Shorter construction time'],
+  relevantSources: ['https://example.com/study'],
+};
+
+const research = {
+  summary: 'Timber construction',
+  keyFindings: ['Prefabrication cuts construction costs by 10%'],
+  sources: [{ title: 'Study', url: 'https://example.com/study', snippet: '' }],
+};
+
+describe('Slide Rewrite', () => {
+  it('should parse layout, title and content', () => {
+    expect(
+      parseSlideRewrite('LAYOUT: Two-Columns\nTITLE: "Kosten"\n\n## Vorteile\n- Schneller', {
+        title: 'Costs',
+        layout: 'content',
+      })
+    ).toEqual({ title: 'Kosten', content: '## Vorteile\n- Schneller', layout: 'two_column' });
+  });
+
+  it('should fall back to the current slide for missing or unknown values', () => {
+    expect(
+      parseSlideRewrite('LAYOUT: grid\n- One\n- Two', { title: 'Costs', layout: 'content' })
+    ).toEqual({ title: 'Costs', content: '- One\n- Two', layout: 'content' });
+  });
+
+  it('should stream previews and use the research context of the topic', async () => {
+    mockGenerateStreaming.mockImplementation(
+      async (_prompt: string, onChunk: (chunk: string) => void) => {
+        const chunks = ['LAYOUT: content\nTITLE: Kosten\n', '- 10% günstiger'];
+        chunks.forEach(onChunk);
+        return chunks.join('');
+      }
+    );
+
+    const previews: SlideRewritePreview[] = [];
+    const phase = new ContentGenerationPhase();
+    const result = await phase.rewriteSlide(
+      topic,
+      research,
+      {
+        instruction: 'mehr Zahlen, zweispaltig',
+        slide: { title: 'Costs', content: 'Timber is cheaper', layout: 'content' },
+        layout: 'two_column',
+      },
+      { onPreview: (preview) => previews.push(preview) }
+    );
+
+    const prompt = mockGenerateStreaming.mock.calls[0]?.[0];
+    expect(prompt).toContain('mehr Zahlen, zweispaltig');
+    expect(prompt).toContain('Timber is cheaper');
+    expect(prompt).toContain('Prefabrication cuts construction costs by 10%');
+    expect(prompt).toContain('Verwende das Layout "two_column"');
+
+    expect(previews.map((preview) => preview.content)).toEqual(['', '- 10% günstiger']);
+    expect(result.slide).toMatchObject({ title: 'Kosten', content: '- 10% günstiger' });
+    // The requested layout wins over the one in the response
+    expect(result.layout).toBe('two_column');
+  });
+
+  it('should fail on empty responses', async () => {
+    mockGenerateStreaming.mockResolvedValue('LAYOUT: content\nTITLE: Kosten');
+
+    await expect(
+      new ContentGenerationPhase().rewriteSlide(topic, undefined, {
+        instruction: 'kürzer',
+        slide: { title: 'Costs', content: 'Timber is cheaper', layout: 'content' },
+      })
+    ).rejects.toThrow('LLM returned no slide content');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Test suite for deck import (Markdown and PowerPoint)
+ *
+ * PowerPoint files are created with the PPTX exporter and imported again
+ * (round trip), so both sides of the conversion are covered.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { importDeck, parseMarkdownDeck, inferSlideLayout } from '../slides-importer';
+import { renderPresentationToBuffer } from '@/lib/export/pptx-renderer';
+import type { Presentation, Slide } from '@/types/slides';
+
+const PNG_DATA =
+  'image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAC0lEQVR4nGNgQAcAAA0AAW6vV8IAAAAASUVORK5CYII=';
+
+describe('Markdown Import', () => {
+  it('should split slides at --- and read titles, notes and layout directives', () => {
+    const deck = parseMarkdownDeck(
+      [
+        '---',
+        'title: "Timber Construction"',
+        '---',
+        '# Timber Construction',
+        'Multi-storey buildings',
+        '---',
+        '## Why Timber',
+        '- Lower embodied carbon',
+        '  - 25-45% less than concrete',
+        '',
+        '```',
+        '---',
+        '```',
+        '<!-- Mention the Mjøstårnet tower -->',
+        '---',
+        '<!-- layout: two_column -->',
+        '## Pros and Cons',
+        '- Light',
+        '',
+        '- Fire rules',
+        'Notes:',
+        'Keep this short.',
+      ].join('\n')
+    );
+
+    expect(deck.title).toBe('Timber Construction');
+    expect(deck.slides).toHaveLength(3);
+
+    expect(deck.slides[0]).toMatchObject({
+      title: 'Timber Construction',
+      content: 'Multi-storey buildings',
+      layout: 'title_slide',
+      order_index: 0,
+    });
+
+    expect(deck.slides[1]).toMatchObject({
+      title: 'Why Timber',
+      layout: 'content',
+      speaker_notes: 'Mention the Mjøstårnet tower',
+    });
+    // Separators inside code blocks do not split slides
+    expect(deck.slides[1]?.content).toContain('```\n---\n```');
+
+    expect(deck.slides[2]).toMatchObject({
+      title: 'Pros and Cons',
+      content: '- Light\n\n- Fire rules',
+      layout: 'two_column',
+      speaker_notes: 'Keep this short.',
+    });
+  });
+
+  it('should infer quote and image slides', () => {
+    const deck = parseMarkdownDeck(
+      [
+        '## Intro',
+        'Some text',
+        '---',
+        '> Form must have a content,',
+        '> and that content must be linked with nature.',
+        '> — Alvar Aalto',
+        '---',
+        '## Facade',
+        '![Timber facade](https://example.com/facade.png)',
+      ].join('\n')
+    );
+
+    expect(deck.slides[1]).toMatchObject({
+      title: 'Alvar Aalto',
+      content: 'Form must have a content, and that content must be linked with nature.',
+      layout: 'quote',
+    });
+    expect(deck.slides[2]).toMatchObject({
+      title: 'Facade',
+      content: 'Timber facade',
+      layout: 'image',
+      background_image: 'https://example.com/facade.png',
+    });
+  });
+
+  it('should treat section headings as title slides and long bodies as content', () => {
+    expect(inferSlideLayout({ title: 'Part 2', content: '', titleLevel: 2 }, 3)).toBe('title_slide');
+    expect(inferSlideLayout({ title: 'Part 2', content: 'Costs', titleLevel: 1 }, 3)).toBe(
+      'title_slide'
+    );
+    expect(inferSlideLayout({ title: 'Costs', content: 'Costs are lower', titleLevel: 2 }, 3)).toBe(
+      'content'
+    );
+    expect(inferSlideLayout({ title: 'Intro', content: '- One\n- Two' }, 0)).toBe('content');
+  });
+
+  it('should reject empty decks and unsupported files', async () => {
+    expect(() => parseMarkdownDeck('---\n\n---\n')).toThrow('No slides found in file');
+    await expect(importDeck('deck.key', new Uint8Array())).rejects.toThrow(
+      'Unsupported file type'
+    );
+    await expect(importDeck('deck.pptx', new Uint8Array(Buffer.from('not a zip')))).rejects.toThrow(
+      'File is not a valid PowerPoint (.pptx) file'
+    );
+  });
+});
+
+describe('PowerPoint Import', () => {
+  const release = Object.getOwnPropertyDescriptor(process, 'release')!;
+
+  beforeAll(() => {
+    // pptxgenjs dynamically imports node:fs when it detects Node.js, which the
+    // Jest VM does not support. Images are embedded as data, so it is not needed.
+    Object.defineProperty(process, 'release', {
+      ...release,
+      value: { ...process.release, name: 'jest' },
+    });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(process, 'release', release);
+  });
+
+  const presentation: Presentation = {
+    id: 'presentation-1',
+    user_id: 'user-1',
+    task_id: null,
+    title: 'Timber Construction',
+    prompt: 'Timber construction in multi-storey buildings',
+    format: '16:9',
+    theme: 'green',
+    status: 'ready',
+    created_at: '2025-10-19T00:00:00.000Z',
+    updated_at: '2025-10-19T00:00:00.000Z',
+  };
+
+  function slide(overrides: Partial<Slide>): Slide {
+    return {
+      id: `slide-${overrides.order_index ?? 0}`,
+      presentation_id: presentation.id,
+      order_index: 0,
+      title: 'Slide',
+      content: '',
+      layout: 'content',
+      background_color: null,
+      background_image: null,
+      speaker_notes: null,
+      created_at: presentation.created_at,
+      updated_at: presentation.updated_at,
+      ...overrides,
+    };
+  }
+
+  it('should import an exported deck with lists, tables, images and notes', async () => {
+    const file = await renderPresentationToBuffer(
+      presentation,
+      [
+        slide({
+          layout: 'title_slide',
+          title: 'Timber',
+          content: 'Multi-storey buildings',
+          speaker_notes: 'Welcome everyone\nIntroduce the team',
+        }),
+        slide({
+          order_index: 1,
+          title: 'Why Timber',
+          content: [
+            '- **Lower** embodied carbon',
+            '  - *25-45%* less than concrete',
+            '1. Plan',
+            '',
+            '| Material | CO2 |',
+            '| --- | --- |',
+            '| Timber | 120 |',
+          ].join('\n'),
+        }),
+        slide({ order_index: 2, layout: 'quote', title: 'Alvar Aalto', content: 'Form follows nature' }),
+        slide({
+          order_index: 3,
+          layout: 'image',
+          title: 'Facade',
+          background_image: 'https://example.com/facade.png',
+        }),
+      ],
+      { loadImage: async () => ({ data: PNG_DATA, width: 2, height: 1 }) }
+    );
+
+    const uploads: string[] = [];
+    const deck = await importDeck('timber.pptx', new Uint8Array(file), {
+      uploadImage: async ({ fileName, mimeType }) => {
+        uploads.push(mimeType);
+        return `https://cdn.example.com/${fileName}`;
+      },
+    });
+
+    expect(deck.title).toBe('Timber Construction');
+    expect(deck.slides.map((parsed) => parsed.layout)).toEqual([
+      'title_slide',
+      'content',
+      'quote',
+      'image',
+    ]);
+
+    expect(deck.slides[0]).toMatchObject({
+      title: 'Timber',
+      content: 'Multi-storey buildings',
+      speaker_notes: 'Welcome everyone\nIntroduce the team',
+    });
+
+    expect(deck.slides[1]?.title).toBe('Why Timber');
+    expect(deck.slides[1]?.content).toBe(
+      [
+        '- **Lower** embodied carbon',
+        '  - *25-45%* less than concrete',
+        '1. Plan',
+        '',
+        '| **Material** | **CO2** |',
+        '| --- | --- |',
+        '| Timber | 120 |',
+      ].join('\n')
+    );
+
+    expect(deck.slides[2]).toMatchObject({ title: 'Alvar Aalto', content: 'Form follows nature' });
+
+    expect(uploads).toEqual(['image/png']);
+    expect(deck.slides[3]?.background_image).toMatch(/^https:\/\/cdn\.example\.com\/.+\.png$/);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Test suite for the talk script and the speaker notes phase
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  buildTalkScript,
+  estimateSpeakingSeconds,
+  formatTimestamp,
+  getTargetWords,
+} from '../talk-script';
+import { SpeakerNotesPhase } from '../agents/pipeline/phases/SpeakerNotesPhase';
+import type { SlideContent } from '../agents/pipeline/types';
+
+const mockGenerateJSON = jest.fn();
+
+jest.mock('@/lib/agents/tools/LLMTool', () => ({
+  LLMTool: jest.fn().mockImplementation(() => ({
+    generateJSON: mockGenerateJSON,
+  })),
+}));
+
+/** 130 words: one minute of speaking time */
+const MINUTE = Array.from({ length: 130 }, () => 'Wort').join(' ');
+
+describe('Talk Script', () => {
+  it('should estimate the speaking time from the word count', () => {
+    expect(getTargetWords(60)).toBe(130);
+    expect(getTargetWords(30)).toBe(65);
+    expect(estimateSpeakingSeconds(MINUTE)).toBe(60);
+    expect(estimateSpeakingSeconds('')).toBe(0);
+  });
+
+  it('should format timing marks', () => {
+    expect(formatTimestamp(0)).toBe('00:00');
+    expect(formatTimestamp(150)).toBe('02:30');
+    expect(formatTimestamp(3750)).toBe('1:02:30');
+  });
+
+  it('should build sections in slide order with start times', () => {
+    const script = buildTalkScript([
+      { id: 'b', order_index: 1, title: 'Kosten', speaker_notes: MINUTE },
+      { id: 'a', order_index: 0, title: 'Einleitung', speaker_notes: `${MINUTE} ${MINUTE}` },
+      { id: 'c', order_index: 2, title: 'Fazit', speaker_notes: null },
+    ]);
+
+    expect(script.sections.map((section) => [section.slideId, section.start])).toEqual([
+      ['a', 0],
+      ['b', 120],
+      ['c', 180],
+    ]);
+    expect(script.totalSeconds).toBe(180);
+    expect(script.text).toContain('[02:00] Folie 2: Kosten');
+    expect(script.text).toContain('[03:00] Folie 3: Fazit\n\n(Keine Notizen)');
+    expect(script.text.endsWith('[03:00] Ende')).toBe(true);
+  });
+});
+
+describe('Speaker Notes Phase', () => {
+  beforeEach(() => {
+    mockGenerateJSON.mockReset();
+  });
+
+  it('should write notes in batches and keep notes of failed batches', async () => {
+    const slides: SlideContent[] = Array.from({ length: 10 }, (_, i) => ({
+      title: `Folie ${i + 1}`,
+      content: `- Punkt [${i + 1}]`,
+      speakerNotes: i === 9 ? 'Alte Notizen' : undefined,
+    }));
+
+    mockGenerateJSON
+      .mockImplementationOnce(async () => ({
+        notes: Array.from({ length: 8 }, (_, i) => ({ slide: i + 1, text: ` Notiz ${i + 1} ` })),
+      }))
+      .mockImplementationOnce(async () => {
+        throw new Error('LLM failed');
+      });
+
+    const phase = new SpeakerNotesPhase();
+    const result = await phase.execute(slides, 'Holzbau', 30);
+
+    expect(mockGenerateJSON).toHaveBeenCalledTimes(2);
+
+    const prompt = mockGenerateJSON.mock.calls[0]?.[0] as string;
+    expect(prompt).toContain('ca. 65 Wörter (30 Sekunden Redezeit)');
+    expect(prompt).toContain('10. Folie 10');
+    expect(prompt).not.toContain('[1]');
+
+    expect(result.slides[0]?.speakerNotes).toBe('Notiz 1');
+    expect(result.slides[7]?.speakerNotes).toBe('Notiz 8');
+    expect(result.slides[8]?.speakerNotes).toBeUndefined();
+    expect(result.slides[9]?.speakerNotes).toBe('Alte Notizen');
+  });
+
+  it('should ignore notes for slides outside the batch', async () => {
+    mockGenerateJSON.mockImplementation(async () => ({
+      notes: [
+        { slide: 1, text: 'Notiz' },
+        { slide: 5, text: 'Falsche Folie' },
+      ],
+    }));
+
+    const phase = new SpeakerNotesPhase();
+    const result = await phase.execute([{ title: 'Einleitung', content: '' }], 'Holzbau', 60);
+
+    expect(result.slides).toEqual([{ title: 'Einleitung', content: '', speakerNotes: 'Notiz' }]);
+  });
+});
@@ -45,6 +45,8 @@ export class ResearchService {
       userId: context.userId,
       sessionId: context.sessionId,
       presentationId: context.presentationId,
+      signal: context.signal,
+      usage: context.usage,
     };
 
     try {
@@ -11,8 +11,13 @@
 import { ResearchPhase } from './phases/ResearchPhase';
 import { TopicGenerationPhase } from './phases/TopicGenerationPhase';
 import { ContentGenerationPhase } from './phases/ContentGenerationPhase';
+import { QualityFixPhase } from './phases/QualityFixPhase';
 import { PreProductionPhase } from './phases/PreProductionPhase';
+import { SpeakerNotesPhase } from './phases/SpeakerNotesPhase';
+import { DEFAULT_SECONDS_PER_SLIDE } from '@/lib/api/slides/talk-script';
+import { DEFAULT_MAX_IMAGES } from './utils/slideImages';
 import { ProgressEmitter } from './utils/progressEmitter';
+import { UsageTracker } from '@/lib/agents/base/usage';
 import type {
   PresentationPipelineInput,
   PresentationPipelineOutput,
@@ -30,19 +35,37 @@ export class PresentationPipeline {
 
   /**
    * Execute complete presentation pipeline
+   *
+   * If `context.signal` aborts, no further phases run and the results
+   * completed so far are returned with `metadata.cancelled` set.
+   * Token usage and cost of all phases are reported as `metadata.usage`
+   * (and forwarded to `context.usage`).
    */
   async execute(
     input: PresentationPipelineInput,
     context: AgentServiceContext
   ): Promise<PresentationPipelineOutput> {
     const startTime = Date.now();
+    const { signal } = context;
+    const usage = new UsageTracker(context.usage);
+    const toolOptions = { signal, usage };
     const phaseTimes: PipelineMetadata['phaseTimes'] = {
       research: 0,
       topicGeneration: 0,
       contentGeneration: 0,
+      qualityFix: 0,
       preProduction: 0,
+      speakerNotes: 0,
     };
 
+    // Results completed so far (returned if the pipeline is cancelled)
+    const partial: Pick<PresentationPipelineOutput, 'topics' | 'slides' | 'research'> = {
+      topics: [],
+      slides: [],
+    };
+    const cancelled = () =>
+      this.cancelledOutput(context, partial, startTime, phaseTimes, usage);
+
     try {
       // Emit pipeline start
       this.progressEmitter.pipelineStarted({
@@ -55,18 +78,24 @@ export class PresentationPipeline {
       // PHASE 1: RESEARCH
       // ============================================
       const researchPhase = new ResearchPhase(this.onProgress, context.userId);
-      const researchResult = await researchPhase.execute(input, context);
+      const researchResult = await researchPhase.execute(input, { ...context, usage });
 
       if (researchResult) {
         phaseTimes.research = researchResult.duration;
+        partial.research = researchResult.research;
       }
 
+      if (signal?.aborted) return cancelled();
+
       // ============================================
       // PHASE 2: TOPIC GENERATION
       // ============================================
       const topicPhase = new TopicGenerationPhase(this.onProgress, context.userId);
-      const topicResult = await topicPhase.execute(input, researchResult?.research);
+      const topicResult = await topicPhase.execute(input, researchResult?.research, toolOptions);
       phaseTimes.topicGeneration = topicResult.duration;
+      partial.topics = topicResult.topics;
+
+      if (signal?.aborted) return cancelled();
 
       // ============================================
       // PHASE 3: CONTENT GENERATION
@@ -74,19 +103,77 @@ export class PresentationPipeline {
       const contentPhase = new ContentGenerationPhase(this.onProgress, context.userId);
       const contentResult = await contentPhase.execute(
         topicResult.topics,
-        researchResult?.research
+        researchResult?.research,
+        toolOptions
       );
       phaseTimes.contentGeneration = contentResult.duration;
+      partial.slides = contentResult.slides;
+
+      if (signal?.aborted) return cancelled();
+
+      // ============================================
+      // PHASE 3b: QUALITY FIX (optional)
+      // ============================================
+      let slides = contentResult.slides;
+      let fixedSlides: string[] | undefined;
+
+      if (input.autoFix) {
+        const qualityFixPhase = new QualityFixPhase(this.onProgress, context.userId);
+        const qualityFixResult = await qualityFixPhase.execute(
+          slides,
+          topicResult.topics,
+          researchResult?.research,
+          toolOptions
+        );
+        phaseTimes.qualityFix = qualityFixResult.duration;
+        slides = qualityFixResult.slides;
+        fixedSlides = qualityFixResult.fixedSlides;
+        partial.slides = slides;
+
+        if (signal?.aborted) return cancelled();
+      }
 
       // ============================================
       // PHASE 4: PRE-PRODUCTION
       // ============================================
       const preProductionPhase = new PreProductionPhase(this.onProgress, context.userId);
       const preProductionResult = await preProductionPhase.execute(
-        contentResult.slides,
-        researchResult?.research
+        slides,
+        researchResult?.research,
+        input.generateImages
+          ? {
+              topic: input.topic,
+              maxImages: input.maxImages ?? DEFAULT_MAX_IMAGES,
+              format: input.format,
+            }
+          : undefined,
+        toolOptions
       );
       phaseTimes.preProduction = preProductionResult.duration;
+      slides = preProductionResult.slides;
+      partial.slides = slides;
+
+      if (signal?.aborted) return cancelled();
+
+      // ============================================
+      // PHASE 5: SPEAKER NOTES
+      // ============================================
+      const speakerNotesSeconds = input.speakerNotesSeconds ?? DEFAULT_SECONDS_PER_SLIDE;
+
+      if (speakerNotesSeconds > 0 && slides.length > 0) {
+        const speakerNotesPhase = new SpeakerNotesPhase(this.onProgress);
+        const speakerNotesResult = await speakerNotesPhase.execute(
+          slides,
+          input.topic,
+          speakerNotesSeconds,
+          toolOptions
+        );
+        phaseTimes.speakerNotes = speakerNotesResult.duration;
+        slides = speakerNotesResult.slides;
+        partial.slides = slides;
+
+        if (signal?.aborted) return cancelled();
+      }
 
       // ============================================
       // FINAL OUTPUT
@@ -102,15 +189,22 @@ export class PresentationPipeline {
       return {
         presentationId: context.presentationId || `pres-${Date.now()}`,
         topics: topicResult.topics,
-        slides: contentResult.slides,
+        slides,
         research: researchResult?.research,
         metadata: {
           totalTime,
           phaseTimes,
           qualityScore: preProductionResult.qualityScore,
+          qualityIssues: preProductionResult.issuesBySlide,
+          fixedSlides,
+          imageSlides: preProductionResult.imageSlides,
+          usage: usage.getSummary(),
         },
       };
     } catch (error) {
+      // Phases fail when their agents are aborted - keep what was completed
+      if (signal?.aborted) return cancelled();
+
       this.progressEmitter.error(
         'PresentationPipeline',
         error instanceof Error ? error : new Error(String(error))
@@ -119,6 +213,28 @@ export class PresentationPipeline {
     }
   }
 
+  /**
+   * Build the output of a cancelled pipeline from the completed phases
+   */
+  private cancelledOutput(
+    context: AgentServiceContext,
+    partial: Pick<PresentationPipelineOutput, 'topics' | 'slides' | 'research'>,
+    startTime: number,
+    phaseTimes: PipelineMetadata['phaseTimes'],
+    usage: UsageTracker
+  ): PresentationPipelineOutput {
+    return {
+      presentationId: context.presentationId || `pres-${Date.now()}`,
+      ...partial,
+      metadata: {
+        totalTime: Date.now() - startTime,
+        phaseTimes,
+        cancelled: true,
+        usage: usage.getSummary(),
+      },
+    };
+  }
+
   /**
    * Quick generation mode (without research)
    */
@@ -13,13 +13,17 @@ export { PresentationPipeline } from './PresentationPipeline';
 // Phase Modules
 export { ResearchPhase } from './phases/ResearchPhase';
 export { TopicGenerationPhase } from './phases/TopicGenerationPhase';
-export { ContentGenerationPhase } from './phases/ContentGenerationPhase';
+export { ContentGenerationPhase, parseSlideRewrite } from './phases/ContentGenerationPhase';
+export { QualityFixPhase } from './phases/QualityFixPhase';
 export { PreProductionPhase } from './phases/PreProductionPhase';
+export { SpeakerNotesPhase } from './phases/SpeakerNotesPhase';
 
 // Utilities
 export { ProgressEmitter } from './utils/progressEmitter';
 export { ContextBuilder } from './utils/contextBuilder';
 export { QualityScorer } from './utils/qualityScorer';
+export type { QualityIssue, QualityCheck, QualityCheckResult } from './utils/qualityScorer';
+export { generateSlideImage, DEFAULT_MAX_IMAGES, MAX_IMAGES } from './utils/slideImages';
 
 // Types
 export type {
@@ -30,7 +34,13 @@ export type {
   ResearchPhaseResult,
   TopicGenerationPhaseResult,
   ContentGenerationPhaseResult,
+  QualityFixPhaseResult,
   PreProductionPhaseResult,
+  SlideImageOptions,
+  SpeakerNotesPhaseResult,
+  SlideRewriteInput,
+  SlideRewritePreview,
+  SlideRewriteResult,
   PipelinePhase,
   PhaseStatus,
   AgentServiceContext,
@@ -7,17 +7,33 @@
  * @date 2025-10-19
  */
 
+import { randomUUID } from 'crypto';
 import { LLMTool } from '@/lib/agents/tools/LLMTool';
+import type { ToolExecutionOptions } from '@/lib/agents/base';
 import { ContextBuilder } from '../utils/contextBuilder';
 import { ProgressEmitter } from '../utils/progressEmitter';
+import { extractCitations } from '@/lib/api/slides/citations';
+import type { SlideLayout } from '@/types/slides';
 import type {
   ContentGenerationPhaseResult,
   TopicWithResearch,
   SlideContent,
   ResearchServiceOutput,
   ProgressCallback,
+  SlideRewriteInput,
+  SlideRewritePreview,
+  SlideRewriteResult,
 } from '../types';
 
+const SLIDE_LAYOUTS: SlideLayout[] = ['title_slide', 'content', 'two_column', 'image', 'quote'];
+
+const CITATION_RULE = `QUELLENANGABEN:
+Belege jede Aussage aus dem Research (vor allem Zahlen, Daten und Fakten) mit der Nummer ihrer Quelle in eckigen Klammern am Ende der Zeile, z.B. "Holzbau spart bis zu 40% CO₂ [2]".
+Verwende nur Nummern aus der Quellenliste und erfinde keine Zahlen ohne Quelle.`;
+
+const IMAGE_SLIDE_RULE = `BILDFOLIE:
+Die Folie zeigt vor allem ein Bild. Schreibe nur einen kurzen Text dazu (höchstens 3 Stichpunkte).`;
+
 export class ContentGenerationPhase {
   private llmTool: LLMTool;
   private progressEmitter: ProgressEmitter;
@@ -30,12 +46,18 @@ export class ContentGenerationPhase {
 
   /**
    * Execute content generation phase
+   *
+   * Stops when the signal aborts and returns the slides generated so far.
+   *
+   * @param options - Abort signal and usage tracker for the LLM calls
    */
   async execute(
     topics: TopicWithResearch[],
-    research?: ResearchServiceOutput
+    research?: ResearchServiceOutput,
+    options: ToolExecutionOptions = {}
   ): Promise<ContentGenerationPhaseResult> {
     const startTime = Date.now();
+    const { signal } = options;
 
     try {
       this.progressEmitter.phaseStarted('content_generation', {
@@ -45,10 +67,12 @@ export class ContentGenerationPhase {
       const slides: SlideContent[] = [];
 
       for (let i = 0; i < topics.length; i++) {
+        if (signal?.aborted) break;
+
         const topic = topics[i];
 
         try {
-          const slide = await this.generateSlideContent(topic, research);
+          const slide = await this.generateSlideContent(topic, research, options);
           slides.push(slide);
 
           // Emit progress
@@ -58,10 +82,13 @@ export class ContentGenerationPhase {
             progress: ((i + 1) / topics.length) * 100,
           });
         } catch (error) {
+          if (signal?.aborted) break;
+
           console.error(`Error generating slide ${i + 1}:`, error);
 
           // Add error slide but continue
           slides.push({
+            id: randomUUID(),
             title: topic.title,
             content: `Error generating content: ${error instanceof Error ? error.message : 'Unknown error'}`,
             bulletPoints: topic.keyPoints,
@@ -89,12 +116,86 @@ export class ContentGenerationPhase {
     }
   }
 
+  /**
+   * Rewrite a single slide of an existing presentation following an instruction
+   *
+   * Uses the topic and research of the pipeline run that created the slide.
+   * The text is streamed; `onPreview` receives the slide parsed so far.
+   *
+   * @param options - Abort signal and usage tracker for the LLM call
+   */
+  async rewriteSlide(
+    topic: TopicWithResearch,
+    research: ResearchServiceOutput | undefined,
+    input: SlideRewriteInput,
+    options: ToolExecutionOptions & { onPreview?: (preview: SlideRewritePreview) => void } = {}
+  ): Promise<SlideRewriteResult> {
+    const startTime = Date.now();
+    const { onPreview, ...toolOptions } = options;
+    const fallback = { title: input.slide.title, layout: input.layout ?? input.slide.layout };
+
+    try {
+      this.progressEmitter.phaseStarted('content_generation', {
+        totalSlides: 1,
+        slideNumber: topic.order,
+        rewrite: true,
+      });
+
+      const slideContext = ContextBuilder.buildSlideContext(topic, research);
+      const prompt = this.buildRewritePrompt(topic, input, slideContext);
+
+      let text = '';
+      text = await this.llmTool.generateStreaming(
+        prompt,
+        (chunk) => {
+          text += chunk;
+          onPreview?.(parseSlideRewrite(text, fallback));
+        },
+        toolOptions
+      );
+
+      const rewritten = parseSlideRewrite(text, fallback);
+      if (!rewritten.content) {
+        throw new Error('LLM returned no slide content');
+      }
+
+      const { content, citations } = extractCitations(rewritten.content, research?.sources);
+
+      const duration = Date.now() - startTime;
+
+      this.progressEmitter.phaseCompleted('content_generation', {
+        slideCount: 1,
+        duration,
+        rewrite: true,
+      });
+
+      return {
+        slide: {
+          title: rewritten.title,
+          content,
+          bulletPoints: topic.keyPoints,
+          notes: slideContext,
+          citations,
+        },
+        layout: input.layout ?? rewritten.layout,
+        duration,
+      };
+    } catch (error) {
+      this.progressEmitter.phaseFailed(
+        'content_generation',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
   /**
    * Generate content for a single slide
    */
   private async generateSlideContent(
     topic: TopicWithResearch,
-    research?: ResearchServiceOutput
+    research?: ResearchServiceOutput,
+    options?: ToolExecutionOptions
   ): Promise<SlideContent> {
     // Build research context for this slide
     const slideContext = ContextBuilder.buildSlideContext(topic, research);
@@ -103,13 +204,19 @@ export class ContentGenerationPhase {
     const prompt = this.buildContentPrompt(topic, slideContext);
 
     // Generate content
-    const content = await this.llmTool.generateText(prompt);
+    const text = await this.llmTool.generateText(prompt, options);
+
+    // Link the "[n]" markers to the research sources
+    const { content, citations } = extractCitations(text, research?.sources);
 
     return {
+      id: randomUUID(),
       title: topic.title,
       content: content,
       bulletPoints: topic.keyPoints,
       notes: slideContext,
+      citations,
+      layout: topic.layout,
     };
   }
 
@@ -131,8 +238,89 @@ Erstelle einen informativen und ansprechenden Folieninhalt mit:
 - Klarem Titel
 - Strukturiertem Inhalt (Absätze oder Stichpunkte)
 - Speaker Notes (optional)
-
+${topic.layout === 'image' ? `\n${IMAGE_SLIDE_RULE}\n` : ''}${context ? `\n${CITATION_RULE}\n` : ''}
 Format: Markdown
 Sprache: Deutsch`;
   }
+
+  /**
+   * Build prompt for rewriting an existing slide
+   */
+  private buildRewritePrompt(
+    topic: TopicWithResearch,
+    input: SlideRewriteInput,
+    context?: string
+  ): string {
+    const layoutRule = input.layout
+      ? `Verwende das Layout "${input.layout}".`
+      : `Behalte das Layout "${input.slide.layout}", außer die Anweisung verlangt ein anderes.`;
+
+    return `Überarbeite Folie ${topic.order}: "${topic.title}"
+
+BESCHREIBUNG:
+${topic.description}
+
+KEY POINTS:
+${topic.keyPoints.map((p, idx) => `${idx + 1}. ${p}`).join('\n')}
+
+${context ? `RESEARCH CONTEXT:\n${context}\n` : ''}
+AKTUELLE FOLIE (Layout: ${input.slide.layout}):
+# ${input.slide.title}
+${input.slide.content}
+
+ANWEISUNG:
+${input.instruction}
+
+${context ? `${CITATION_RULE}\n\n` : ''}${layoutRule} Mögliche Layouts: ${SLIDE_LAYOUTS.join(', ')}.
+Bei "two_column" schreibe zwei Blöcke (linke und rechte Spalte), getrennt durch eine Leerzeile.
+
+Antworte genau in diesem Format:
+LAYOUT: <layout>
+TITLE: <Folientitel>
+<Folieninhalt in Markdown>
+
+Sprache: Deutsch`;
+  }
+}
+
+const LAYOUT_LINE = /^\s*layout:\s*(.*)$/i;
+const TITLE_LINE = /^\s*(?:title:\s*|#\s+)(.*)$/i;
+
+/**
+ * Parse a (possibly partial) slide rewrite in the LAYOUT/TITLE/content format
+ *
+ * Missing or unknown values fall back to the current slide.
+ */
+export function parseSlideRewrite(
+  text: string,
+  fallback: { title: string; layout: SlideLayout }
+): SlideRewritePreview {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let layout = fallback.layout;
+  let title = fallback.title;
+  let hasTitle = false;
+
+  // Header lines, in any order, before the content
+  while (lines.length > 0) {
+    const line = lines[0] ?? '';
+    const layoutMatch = LAYOUT_LINE.exec(line);
+    const titleMatch = TITLE_LINE.exec(line);
+
+    if (layoutMatch) {
+      const value = layoutMatch[1]?.trim().toLowerCase().replace(/[\s-]+/g, '_');
+      const normalized = value === 'two_columns' ? 'two_column' : value;
+      if (SLIDE_LAYOUTS.includes(normalized as SlideLayout)) {
+        layout = normalized as SlideLayout;
+      }
+    } else if (titleMatch && titleMatch[1]?.trim() && !hasTitle) {
+      title = titleMatch[1].trim().replace(/^["']|["']$/g, '');
+      hasTitle = true;
+    } else if (line.trim()) {
+      break;
+    }
+
+    lines.shift();
+  }
+
+  return { title, content: lines.join('\n').trim(), layout };
 }
@@ -1,35 +1,55 @@
 /**
  * Pre-Production Phase
  *
- * Phase 4: Quality checks and finalization
+ * Phase 4: Quality checks, slide images and finalization
  *
  * @author Payperwork Team
  * @date 2025-10-19
  */
 
+import { LLMTool } from '@/lib/agents/tools/LLMTool';
+import type { ToolExecutionOptions } from '@/lib/agents/base';
+import { uploadSlideImage } from '@/lib/supabase-slides';
 import { QualityScorer } from '../utils/qualityScorer';
 import { ProgressEmitter } from '../utils/progressEmitter';
+import { generateSlideImage } from '../utils/slideImages';
 import type {
   PreProductionPhaseResult,
   SlideContent,
+  SlideImageOptions,
   ResearchServiceOutput,
   ProgressCallback,
 } from '../types';
 
+/** Citation markers are not part of the image */
+const CITATION_MARKER = /\s?\[\d{1,3}\](?!\()/g;
+
 export class PreProductionPhase {
+  private llmTool: LLMTool;
   private progressEmitter: ProgressEmitter;
 
   constructor(onProgress?: ProgressCallback, private userId?: string) {
+    this.llmTool = new LLMTool();
     this.progressEmitter = new ProgressEmitter(onProgress);
     // Agent events can be added here in future
   }
 
   /**
    * Execute pre-production phase
+   *
+   * With `images`, an image prompt is written for each image slide (at most
+   * `maxImages`) and the image is generated and uploaded to storage. Images
+   * need the userId (storage path); a slide whose image fails stays without.
+   * Stops generating images when the signal aborts.
+   *
+   * @param images - Image generation (optional, no images without)
+   * @param options - Abort signal and usage tracker for the LLM calls
    */
   async execute(
     slides: SlideContent[],
-    research?: ResearchServiceOutput
+    research?: ResearchServiceOutput,
+    images?: SlideImageOptions,
+    options: ToolExecutionOptions = {}
   ): Promise<PreProductionPhaseResult> {
     const startTime = Date.now();
 
@@ -40,6 +60,12 @@ export class PreProductionPhase {
 
       // Calculate quality score
       const qualityResult = QualityScorer.calculate(slides, research);
+
+      const { slides: result, imageSlides } =
+        images && this.userId
+          ? await this.generateImages(slides, images, this.userId, options)
+          : { slides, imageSlides: [] };
+
       const duration = Date.now() - startTime;
 
       this.progressEmitter.phaseCompleted('pre_production', {
@@ -47,13 +73,17 @@ export class PreProductionPhase {
         qualityLevel: QualityScorer.getQualityLevel(qualityResult.score),
         checks: qualityResult.checks,
         issueCount: qualityResult.issues.length,
+        imageCount: imageSlides.length,
         duration,
       });
 
       return {
+        slides: result,
+        imageSlides,
         qualityScore: qualityResult.score,
         duration,
         issues: qualityResult.issues,
+        issuesBySlide: qualityResult.issuesBySlide,
       };
     } catch (error) {
       this.progressEmitter.phaseFailed(
@@ -63,4 +93,86 @@ export class PreProductionPhase {
       throw error;
     }
   }
+
+  /**
+   * Generate the images of the image slides (in slide order, up to maxImages)
+   */
+  private async generateImages(
+    slides: SlideContent[],
+    images: SlideImageOptions,
+    userId: string,
+    options: ToolExecutionOptions
+  ): Promise<{ slides: SlideContent[]; imageSlides: string[] }> {
+    const { signal } = options;
+    const result = [...slides];
+    const imageSlides: string[] = [];
+
+    const targets = slides
+      .map((slide, index) => ({ slide, index }))
+      .filter(({ slide }) => slide.layout === 'image' && !slide.imageUrl)
+      .slice(0, Math.max(0, images.maxImages));
+
+    for (let i = 0; i < targets.length; i++) {
+      if (signal?.aborted) break;
+
+      const { slide, index } = targets[i]!;
+      const slideId = QualityScorer.getSlideId(slide, index);
+
+      try {
+        const prompt = await this.llmTool.generateText(
+          this.buildImagePrompt(slide, images.topic),
+          options
+        );
+        const image = await generateSlideImage(
+          prompt.trim(),
+          images.format ?? '16:9',
+          slideId
+        );
+
+        const extension = image?.mimeType.split('/')[1] ?? 'png';
+        const imageUrl =
+          image &&
+          (await uploadSlideImage(userId, {
+            data: image.data,
+            fileName: `${slideId}.${extension}`,
+            mimeType: image.mimeType,
+          }));
+
+        if (imageUrl) {
+          result[index] = { ...slide, imageUrl };
+          imageSlides.push(slideId);
+        }
+      } catch (error) {
+        if (signal?.aborted) break;
+
+        console.error(`Error generating image for slide ${index + 1}:`, error);
+      }
+
+      this.progressEmitter.phaseProgress('pre_production', {
+        imageNumber: i + 1,
+        totalImages: targets.length,
+        progress: ((i + 1) / targets.length) * 100,
+      });
+    }
+
+    return { slides: result, imageSlides };
+  }
+
+  /**
+   * Build prompt for the image prompt of an image slide
+   */
+  private buildImagePrompt(slide: SlideContent, topic: string): string {
+    return `Schreibe einen Prompt für ein Bildgenerierungs-Modell. Das Bild wird auf einer Folie der Präsentation "${topic}" gezeigt.
+
+FOLIE: ${slide.title}
+${slide.content.replace(CITATION_MARKER, '')}
+
+REGELN:
+- Beschreibe Motiv, Bildausschnitt, Umgebung und Stimmung konkret in 1-3 Sätzen
+- Das Bild veranschaulicht die Aussage der Folie
+- Keine Schrift, Beschriftungen, Logos oder Diagramme im Bild
+- Ausgabe NUR der Prompt, kein anderer Text
+
+Sprache: Englisch`;
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * Quality Fix Phase
+ *
+ * Phase 3b (optional): Rewrite the slides with quality issues
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+import type { ToolExecutionOptions } from '@/lib/agents/base';
+import { ContentGenerationPhase } from './ContentGenerationPhase';
+import { QualityScorer, type QualityIssue } from '../utils/qualityScorer';
+import { ProgressEmitter } from '../utils/progressEmitter';
+import type {
+  QualityFixPhaseResult,
+  TopicWithResearch,
+  SlideContent,
+  ResearchServiceOutput,
+  ProgressCallback,
+} from '../types';
+
+/** Most slides rewritten in one pass (slides with errors first) */
+const MAX_FIXED_SLIDES = 5;
+
+export class QualityFixPhase {
+  private contentPhase: ContentGenerationPhase;
+  private progressEmitter: ProgressEmitter;
+
+  constructor(onProgress?: ProgressCallback, userId?: string) {
+    // Rewrites report their progress as this phase
+    this.contentPhase = new ContentGenerationPhase(undefined, userId);
+    this.progressEmitter = new ProgressEmitter(onProgress);
+  }
+
+  /**
+   * Execute quality fix phase
+   *
+   * Rewrites only the slides with fixable quality issues, following the fix
+   * instructions of their issues; all other slides are kept. A slide whose
+   * rewrite fails keeps its content. Stops when the signal aborts.
+   *
+   * @param topics - Topics of the slides (same order)
+   * @param options - Abort signal and usage tracker for the LLM calls
+   */
+  async execute(
+    slides: SlideContent[],
+    topics: TopicWithResearch[],
+    research?: ResearchServiceOutput,
+    options: ToolExecutionOptions = {}
+  ): Promise<QualityFixPhaseResult> {
+    const startTime = Date.now();
+    const { signal } = options;
+
+    try {
+      const quality = QualityScorer.calculate(slides, research);
+      const targets = this.selectSlides(slides, topics, quality.issuesBySlide);
+
+      this.progressEmitter.phaseStarted('quality_fix', {
+        qualityScore: quality.score,
+        totalSlides: targets.length,
+      });
+
+      const fixed = [...slides];
+      const fixedSlides: string[] = [];
+
+      for (let i = 0; i < targets.length; i++) {
+        if (signal?.aborted) break;
+
+        const { index, issues } = targets[i]!;
+        const slide = slides[index]!;
+        const layout = slide.layout ?? 'content';
+
+        try {
+          const rewrite = await this.contentPhase.rewriteSlide(
+            topics[index]!,
+            research,
+            {
+              instruction: issues.map((issue) => `- ${issue.fix}`).join('\n'),
+              slide: { title: slide.title, content: slide.content, layout },
+              layout,
+            },
+            options
+          );
+
+          fixed[index] = { ...rewrite.slide, id: slide.id, layout: slide.layout };
+          fixedSlides.push(QualityScorer.getSlideId(slide, index));
+        } catch (error) {
+          if (signal?.aborted) break;
+
+          console.error(`Error fixing slide ${index + 1}:`, error);
+        }
+
+        this.progressEmitter.phaseProgress('quality_fix', {
+          slideNumber: index + 1,
+          totalSlides: targets.length,
+          progress: ((i + 1) / targets.length) * 100,
+        });
+      }
+
+      const duration = Date.now() - startTime;
+
+      this.progressEmitter.phaseCompleted('quality_fix', {
+        fixedCount: fixedSlides.length,
+        duration,
+      });
+
+      return {
+        slides: fixed,
+        fixedSlides,
+        duration,
+      };
+    } catch (error) {
+      this.progressEmitter.phaseFailed(
+        'quality_fix',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Slides with fixable issues (in slide order), limited to MAX_FIXED_SLIDES
+   */
+  private selectSlides(
+    slides: SlideContent[],
+    topics: TopicWithResearch[],
+    issuesBySlide: Record<string, QualityIssue[]>
+  ): Array<{ index: number; issues: QualityIssue[] }> {
+    const hasError = (issues: QualityIssue[]) => issues.some((i) => i.severity === 'error');
+
+    return slides
+      .map((slide, index) => ({
+        index,
+        issues: (issuesBySlide[QualityScorer.getSlideId(slide, index)] ?? []).filter(
+          (issue) => issue.fix
+        ),
+      }))
+      .filter(({ index, issues }) => issues.length > 0 && topics[index])
+      .sort((a, b) => Number(hasError(b.issues)) - Number(hasError(a.issues)))
+      .slice(0, MAX_FIXED_SLIDES)
+      .sort((a, b) => a.index - b.index);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Speaker Notes Phase
+ *
+ * Phase 5: Write speaker notes for the finished slides
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+import { LLMTool } from '@/lib/agents/tools/LLMTool';
+import type { ToolExecutionOptions } from '@/lib/agents/base';
+import { ProgressEmitter } from '../utils/progressEmitter';
+import { getTargetWords } from '@/lib/api/slides/talk-script';
+import type {
+  SpeakerNotesPhaseResult,
+  SlideContent,
+  ProgressCallback,
+} from '../types';
+
+/** Slides per LLM call */
+const BATCH_SIZE = 8;
+
+/** Citation markers are not spoken */
+const CITATION_MARKER = /\s?\[\d{1,3}\](?!\()/g;
+
+interface SpeakerNotesResponse {
+  notes: Array<{ slide: number; text: string }>;
+}
+
+export class SpeakerNotesPhase {
+  private llmTool: LLMTool;
+  private progressEmitter: ProgressEmitter;
+
+  constructor(onProgress?: ProgressCallback) {
+    this.llmTool = new LLMTool();
+    this.progressEmitter = new ProgressEmitter(onProgress);
+  }
+
+  /**
+   * Execute speaker notes phase
+   *
+   * Writes notes of about `secondsPerSlide` speaking time for every slide,
+   * in batches of slides (with the outline of the whole talk as context).
+   * Slides of a failed batch keep their notes. Stops when the signal aborts.
+   *
+   * @param topic - Topic of the presentation
+   * @param options - Abort signal and usage tracker for the LLM calls
+   */
+  async execute(
+    slides: SlideContent[],
+    topic: string,
+    secondsPerSlide: number,
+    options: ToolExecutionOptions = {}
+  ): Promise<SpeakerNotesPhaseResult> {
+    const startTime = Date.now();
+    const { signal } = options;
+
+    try {
+      this.progressEmitter.phaseStarted('speaker_notes', {
+        totalSlides: slides.length,
+        secondsPerSlide,
+      });
+
+      const result = [...slides];
+
+      for (let start = 0; start < slides.length; start += BATCH_SIZE) {
+        if (signal?.aborted) break;
+
+        const end = Math.min(start + BATCH_SIZE, slides.length);
+
+        try {
+          const prompt = this.buildNotesPrompt(slides, start, end, topic, secondsPerSlide);
+          const response = await this.llmTool.generateJSON<SpeakerNotesResponse>(
+            prompt,
+            '{"notes": [{"slide": <Foliennummer>, "text": "<Sprechernotizen>"}]}',
+            options
+          );
+
+          for (const note of response.notes ?? []) {
+            const index = note.slide - 1;
+            const text = typeof note.text === 'string' ? note.text.trim() : '';
+            if (index >= start && index < end && text) {
+              result[index] = { ...result[index]!, speakerNotes: text };
+            }
+          }
+        } catch (error) {
+          if (signal?.aborted) break;
+
+          console.error(`Error writing speaker notes for slides ${start + 1}-${end}:`, error);
+        }
+
+        this.progressEmitter.phaseProgress('speaker_notes', {
+          slideNumber: end,
+          totalSlides: slides.length,
+          progress: (end / slides.length) * 100,
+        });
+      }
+
+      const duration = Date.now() - startTime;
+
+      this.progressEmitter.phaseCompleted('speaker_notes', {
+        notesCount: result.filter((slide) => slide.speakerNotes).length,
+        duration,
+      });
+
+      return {
+        slides: result,
+        duration,
+      };
+    } catch (error) {
+      this.progressEmitter.phaseFailed(
+        'speaker_notes',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Build prompt for the speaker notes of slides start..end-1
+   */
+  private buildNotesPrompt(
+    slides: SlideContent[],
+    start: number,
+    end: number,
+    topic: string,
+    secondsPerSlide: number
+  ): string {
+    const outline = slides.map((slide, idx) => `${idx + 1}. ${slide.title}`).join('\n');
+    const batch = slides
+      .slice(start, end)
+      .map(
+        (slide, idx) =>
+          `=== Folie ${start + idx + 1}: ${slide.title} ===\n` +
+          slide.content.replace(CITATION_MARKER, '')
+      )
+      .join('\n\n');
+
+    return `Schreibe Sprechernotizen für die Präsentation "${topic}".
+Sprechernotizen sind der Text, den die vortragende Person zu einer Folie frei spricht.
+
+GLIEDERUNG DES VORTRAGS:
+${outline}
+
+FOLIEN:
+${batch}
+
+REGELN:
+- Schreibe Notizen für jede der Folien ${start + 1} bis ${end}
+- Pro Folie ca. ${getTargetWords(secondsPerSlide)} Wörter (${secondsPerSlide} Sekunden Redezeit)
+- Gesprochene Sprache in ganzen Sätzen, keine Stichpunkte, kein Markdown
+- Erkläre und ergänze die Folie, statt sie vorzulesen
+- Leite am Ende zur nächsten Folie der Gliederung über
+
+Sprache: Deutsch`;
+  }
+}
@@ -8,8 +8,10 @@
  */
 
 import { LLMTool } from '@/lib/agents/tools/LLMTool';
+import type { ToolExecutionOptions } from '@/lib/agents/base';
 import { ProgressEmitter } from '../utils/progressEmitter';
 import { AgentEventEmitter } from '../utils/agentEventEmitter';
+import { DEFAULT_MAX_IMAGES } from '../utils/slideImages';
 import type {
   TopicGenerationPhaseResult,
   TopicWithResearch,
@@ -35,12 +37,16 @@ export class TopicGenerationPhase {
 
   /**
    * Execute topic generation phase
+   *
+   * @param options - Abort signal and usage tracker for the LLM call
    */
   async execute(
     input: PresentationPipelineInput,
-    research?: ResearchServiceOutput
+    research?: ResearchServiceOutput,
+    options?: ToolExecutionOptions
   ): Promise<TopicGenerationPhaseResult> {
     const { topic, slideCount = 10 } = input;
+    const imageCount = input.generateImages ? (input.maxImages ?? DEFAULT_MAX_IMAGES) : 0;
     const startTime = Date.now();
 
     try {
@@ -69,11 +75,16 @@ export class TopicGenerationPhase {
       });
 
       // Generate topics
-      const prompt = this.buildPrompt(topic, slideCount, research);
-      const topics = await this.llmTool.generateJSON<TopicWithResearch[]>(prompt);
+      const prompt = this.buildPrompt(topic, slideCount, research, imageCount);
+      const topics = await this.llmTool.generateJSON<TopicWithResearch[]>(
+        prompt,
+        undefined,
+        options
+      );
 
       // Validate topics
       this.validateTopics(topics, slideCount);
+      this.limitImageTopics(topics, imageCount);
 
       const duration = Date.now() - startTime;
 
@@ -129,8 +140,14 @@ export class TopicGenerationPhase {
   private buildPrompt(
     topic: string,
     slideCount: number,
-    research?: ResearchServiceOutput
+    research?: ResearchServiceOutput,
+    imageCount: number = 0
   ): string {
+    const imageRule =
+      imageCount > 0
+        ? `\n- Markiere bis zu ${imageCount} Themen, die sich am besten mit einem Bild zeigen lassen, mit "layout": "image" (nicht Einleitung und Fazit)`
+        : '';
+
     if (research) {
       return `Du bist ein Präsentations-Experte. Erstelle genau ${slideCount} Folienthemen für eine Präsentation über: "${topic}"
 
@@ -162,7 +179,7 @@ Regeln:
 - Erstes Thema muss "Einleitung" oder "Introduction" sein
 - Letztes Thema muss "Fazit", "Zusammenfassung" oder "Conclusion" sein
 - Jedes Thema sollte 2-4 keyPoints aus den Research-Findings haben
-- relevantSources sollten URLs aus den Research-Quellen sein
+- relevantSources sollten URLs aus den Research-Quellen sein${imageRule}
 - Ausgabe NUR das JSON-Array, kein anderer Text
 - Alle Titel und Beschreibungen auf Deutsch`;
     }
@@ -184,7 +201,7 @@ Ausgabe NUR ein JSON-Array mit diesem exakten Format:
 Regeln:
 - Genau ${slideCount} Themen
 - Erstes Thema muss "Einleitung" sein
-- Letztes Thema muss "Fazit" oder "Zusammenfassung" sein
+- Letztes Thema muss "Fazit" oder "Zusammenfassung" sein${imageRule}
 - Ausgabe NUR das JSON-Array, kein anderer Text
 - Alle Titel und Beschreibungen auf Deutsch`;
   }
@@ -208,4 +225,19 @@ Regeln:
       }
     }
   }
+
+  /**
+   * Keep the "image" layout on the first `imageCount` marked topics only
+   */
+  private limitImageTopics(topics: TopicWithResearch[], imageCount: number): void {
+    let images = 0;
+
+    for (const topic of topics) {
+      if (topic.layout === 'image' && images < imageCount) {
+        images++;
+      } else {
+        delete topic.layout;
+      }
+    }
+  }
 }
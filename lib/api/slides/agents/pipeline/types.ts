@@ -7,6 +7,9 @@
  * @date 2025-10-19
  */
 
+import type { UsageSummary } from '@/lib/agents/base/types';
+import type { SlideLayout } from '@/types/slides';
+import type { QualityIssue } from './utils/qualityScorer';
 import type {
   AgentServiceContext,
   ResearchServiceOutput,
@@ -42,6 +45,18 @@ export interface PresentationPipelineInput {
 
   /** Research depth (quick, medium, deep) */
   researchDepth?: 'quick' | 'medium' | 'deep';
+
+  /** Rewrite slides with quality issues before pre-production (default: false) */
+  autoFix?: boolean;
+
+  /** Target speaking time per slide for the speaker notes in seconds (default: 60, 0: none) */
+  speakerNotesSeconds?: number;
+
+  /** Plan image slides and generate their images (default: false) */
+  generateImages?: boolean;
+
+  /** Most images generated for the presentation (default: 3, max: 10) */
+  maxImages?: number;
 }
 
 export interface PresentationPipelineOutput {
@@ -62,6 +77,8 @@ export interface TopicWithResearch {
   description: string;
   keyPoints: string[];
   relevantSources?: string[];
+  /** Layout planned for the slide ("image" for image slides) */
+  layout?: SlideLayout;
 }
 
 export interface PipelineMetadata {
@@ -70,9 +87,43 @@ export interface PipelineMetadata {
     research: number;
     topicGeneration: number;
     contentGeneration: number;
+    qualityFix: number;
     preProduction: number;
+    speakerNotes: number;
   };
   qualityScore?: number;
+  /** Quality issues of the final slides, by slide id */
+  qualityIssues?: Record<string, QualityIssue[]>;
+  /** Ids of the slides rewritten by the quality fix pass */
+  fixedSlides?: string[];
+  /** Ids of the image slides with a generated image */
+  imageSlides?: string[];
+  /** Pipeline was cancelled; the output holds the results completed so far */
+  cancelled?: boolean;
+  /** Token usage and estimated cost of all phases */
+  usage?: UsageSummary;
+}
+
+// ============================================
+// Single Slide Rewrite
+// ============================================
+
+export interface SlideRewriteInput {
+  /** Free-text instruction (e.g. "kürzer", "mehr Zahlen", "zweispaltig") */
+  instruction: string;
+
+  /** Current state of the slide */
+  slide: { title: string; content: string; layout: SlideLayout };
+
+  /** Layout to use (default: current layout, unless the instruction asks for another) */
+  layout?: SlideLayout;
+}
+
+/** Partial slide while the rewrite is streamed */
+export interface SlideRewritePreview {
+  title: string;
+  content: string;
+  layout: SlideLayout;
 }
 
 // ============================================
@@ -84,7 +135,9 @@ export type PipelinePhase =
   | 'research'
   | 'topic_generation'
   | 'content_generation'
+  | 'quality_fix'
   | 'pre_production'
+  | 'speaker_notes'
   | 'pipeline:completed';
 
 export type PhaseStatus = 'started' | 'in_progress' | 'completed' | 'failed';
@@ -114,8 +167,43 @@ export interface ContentGenerationPhaseResult {
   duration: number;
 }
 
+export interface SlideRewriteResult {
+  slide: SlideContent;
+  layout: SlideLayout;
+  duration: number;
+}
+
+export interface QualityFixPhaseResult {
+  slides: SlideContent[];
+  /** Ids of the rewritten slides */
+  fixedSlides: string[];
+  duration: number;
+}
+
+export interface SpeakerNotesPhaseResult {
+  slides: SlideContent[];
+  duration: number;
+}
+
+/** Image generation of the pre-production phase */
+export interface SlideImageOptions {
+  /** Topic of the presentation (context for the image prompts) */
+  topic: string;
+
+  /** Most images to generate */
+  maxImages: number;
+
+  /** Presentation format, used as aspect ratio of the images */
+  format?: string;
+}
+
 export interface PreProductionPhaseResult {
+  /** Slides with the generated images */
+  slides: SlideContent[];
+  /** Ids of the image slides with a generated image */
+  imageSlides: string[];
   qualityScore: number;
   duration: number;
   issues?: string[];
+  issuesBySlide?: Record<string, QualityIssue[]>;
 }
@@ -53,10 +53,13 @@ export class ContextBuilder {
   private static findRelevantSources(
     topic: TopicWithResearch,
     research: ResearchServiceOutput
-  ): Array<{ title: string; url: string }> {
+  ): Array<{ number: number; title: string; url: string }> {
     if (!topic.relevantSources) return [];
 
-    return research.sources.filter((s) => topic.relevantSources?.includes(s.url));
+    // Numbered by position in the research, so citations match on all slides
+    return research.sources
+      .map((s, index) => ({ number: index + 1, title: s.title, url: s.url }))
+      .filter((s) => topic.relevantSources?.includes(s.url));
   }
 
   /**
@@ -64,7 +67,7 @@ export class ContextBuilder {
    */
   private static formatContext(
     findings: string[],
-    sources: Array<{ title: string; url: string }>
+    sources: Array<{ number: number; title: string; url: string }>
   ): string {
     let context = '';
 
@@ -76,7 +79,7 @@ export class ContextBuilder {
 
     if (sources.length > 0) {
       context += 'Quellen:\n';
-      context += sources.map((s) => `- ${s.title} (${s.url})`).join('\n');
+      context += sources.map((s) => `- [${s.number}] ${s.title} (${s.url})`).join('\n');
     }
 
     return context.trim();
@@ -7,17 +7,82 @@
  * @date 2025-10-19
  */
 
+import type { SlideLayout } from '@/types/slides';
 import type { SlideContent, ResearchServiceOutput } from '../types';
+import { findUnsupportedClaims } from '@/lib/api/slides/citations';
+import {
+  toPlainText,
+  getWords,
+  countBullets,
+  getReadingEase,
+  getSimilarity,
+  getHeadingCase,
+  type HeadingCase,
+} from './textMetrics';
+
+/** Claims listed in the issues (the penalty counts all) */
+const MAX_LISTED_CLAIMS = 3;
+
+/** Most bullets and words a slide of a layout should hold */
+const LAYOUT_LIMITS: Record<SlideLayout, { bullets: number; words: number }> = {
+  title_slide: { bullets: 3, words: 40 },
+  content: { bullets: 6, words: 90 },
+  two_column: { bullets: 10, words: 140 },
+  image: { bullets: 4, words: 50 },
+  quote: { bullets: 2, words: 40 },
+};
+
+/** Slides sharing this many words (Jaccard index) with an earlier slide are near-duplicates */
+const DUPLICATE_SIMILARITY = 0.7;
+
+/** Reading ease (German Flesch) below this is very hard to read */
+const MIN_READING_EASE = 30;
+
+/** Reading ease is only meaningful for slides with enough text */
+const MIN_READING_WORDS = 20;
+
+const HEADING_CASE_NAMES: Record<HeadingCase, string> = {
+  upper: 'GROSSBUCHSTABEN',
+  lower: 'kleingeschrieben',
+  normal: 'normale Groß-/Kleinschreibung',
+};
+
+export type QualityCheck =
+  | 'empty'
+  | 'too_short'
+  | 'overloaded'
+  | 'duplicate'
+  | 'heading_case'
+  | 'readability'
+  | 'unsupported_claim'
+  | 'introduction'
+  | 'conclusion';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Instruction for rewriting the slide (missing: rewriting the slide does not fix it) */
+  fix?: string;
+}
 
 export interface QualityCheckResult {
   score: number;
   issues: string[];
+  /** Issues of each slide, by slide id (see QualityScorer.getSlideId) */
+  issuesBySlide: Record<string, QualityIssue[]>;
   checks: {
     emptySlides: number;
     tooShortSlides: number;
     hasIntroduction: boolean;
     hasConclusion: boolean;
     usedResearch: boolean;
+    citedSlides: number;
+    unsupportedClaims: number;
+    overloadedSlides: number;
+    duplicateSlides: number;
+    inconsistentHeadings: number;
+    hardToReadSlides: number;
   };
 }
 
@@ -35,14 +100,35 @@ export class QualityScorer {
       hasIntroduction: false,
       hasConclusion: false,
       usedResearch: false,
+      citedSlides: 0,
+      unsupportedClaims: 0,
+      overloadedSlides: 0,
+      duplicateSlides: 0,
+      inconsistentHeadings: 0,
+      hardToReadSlides: 0,
     };
 
     const issues: string[] = [];
+    const issuesBySlide: Record<string, QualityIssue[]> = {};
+    const addIssue = (index: number, issue: QualityIssue) => {
+      const slideId = QualityScorer.getSlideId(slides[index]!, index);
+      (issuesBySlide[slideId] ??= []).push(issue);
+    };
     let score = 100;
 
     // Check 1: Empty slides
-    const emptySlides = slides.filter((s) => !s.content || s.content.trim().length < 10);
+    const isEmpty = (s: SlideContent) => !s.content || s.content.trim().length < 10;
+    const emptySlides = slides.filter(isEmpty);
     checks.emptySlides = emptySlides.length;
+    slides.forEach((s, index) => {
+      if (!isEmpty(s)) return;
+      addIssue(index, {
+        check: 'empty',
+        severity: 'error',
+        message: 'Slide has no or minimal content',
+        fix: 'Die Folie hat keinen Inhalt. Erstelle den vollständigen Folieninhalt zu Titel und Key Points.',
+      });
+    });
     if (emptySlides.length > 0) {
       const penalty = emptySlides.length * 10;
       score -= penalty;
@@ -54,6 +140,15 @@ export class QualityScorer {
       (s) => s.content && s.content.split(/\s+/).length < 20
     );
     checks.tooShortSlides = tooShortSlides.length;
+    slides.forEach((s, index) => {
+      if (!tooShortSlides.includes(s) || isEmpty(s)) return;
+      addIssue(index, {
+        check: 'too_short',
+        severity: 'warning',
+        message: `Slide is too short (${s.content.split(/\s+/).length} words)`,
+        fix: 'Die Folie ist zu knapp. Ergänze die Aussagen um konkrete Erklärungen und Beispiele.',
+      });
+    });
     if (tooShortSlides.length > 0) {
       const penalty = tooShortSlides.length * 5;
       score -= penalty;
@@ -69,6 +164,11 @@ export class QualityScorer {
       if (!checks.hasIntroduction) {
         score -= 5;
         issues.push('First slide is not an introduction (-5 points)');
+        addIssue(0, {
+          check: 'introduction',
+          severity: 'warning',
+          message: 'First slide is not an introduction',
+        });
       }
     }
 
@@ -84,32 +184,176 @@ export class QualityScorer {
       if (!checks.hasConclusion) {
         score -= 5;
         issues.push('Last slide is not a conclusion (-5 points)');
+        addIssue(slides.length - 1, {
+          check: 'conclusion',
+          severity: 'warning',
+          message: 'Last slide is not a conclusion',
+        });
       }
     }
 
-    // Check 5: Research usage bonus
+    // Check 5: Research usage bonus (slides citing research sources)
     if (research) {
-      const slidesWithNotes = slides.filter((s) => s.notes && s.notes.trim().length > 0);
-      checks.usedResearch = slidesWithNotes.length > 0;
+      const citedSlides = slides.filter((s) => s.citations && s.citations.length > 0);
+      checks.citedSlides = citedSlides.length;
+      checks.usedResearch = citedSlides.length > 0;
 
       if (checks.usedResearch) {
         score += 10;
+        issues.push(`Research sources cited in ${citedSlides.length} slides (+10 points bonus)`);
+      }
+    }
+
+    // Check 6: Numeric claims without a cited source
+    if (research && research.sources.length > 0) {
+      const unsupported = slides.flatMap((s, index) =>
+        findUnsupportedClaims(s.content || '').map((claim) => ({ slide: index + 1, claim }))
+      );
+      checks.unsupportedClaims = unsupported.length;
+      unsupported.forEach(({ slide, claim }) =>
+        addIssue(slide - 1, {
+          check: 'unsupported_claim',
+          severity: 'warning',
+          message: `Unsupported claim "${claim}"`,
+          fix: `Die Aussage "${claim}" enthält Zahlen ohne Quelle. Belege sie mit ihrer Quelle ([n]) oder entferne die Zahlen.`,
+        })
+      );
+
+      if (unsupported.length > 0) {
+        const penalty = Math.min(unsupported.length * 3, 15);
+        score -= penalty;
         issues.push(
-          `Research context used in ${slidesWithNotes.length} slides (+10 points bonus)`
+          `${unsupported.length} numeric claims have no source (-${penalty} points)`,
+          ...unsupported
+            .slice(0, MAX_LISTED_CLAIMS)
+            .map(({ slide, claim }) => `Slide ${slide}: unsupported claim "${claim}"`)
         );
       }
     }
 
+    // Check 7: Overloaded slides (too many bullets or words for the layout)
+    slides.forEach((s, index) => {
+      const layout = s.layout ?? 'content';
+      const limit = LAYOUT_LIMITS[layout];
+      const bullets = countBullets(s.content || '');
+      const words = getWords(toPlainText(s.content || '')).length;
+      if (bullets <= limit.bullets && words <= limit.words) return;
+
+      checks.overloadedSlides++;
+      addIssue(index, {
+        check: 'overloaded',
+        severity: 'warning',
+        message: `Slide is overloaded: ${bullets} bullets, ${words} words (max. ${limit.bullets} bullets, ${limit.words} words for layout "${layout}")`,
+        fix: `Kürze die Folie auf höchstens ${limit.bullets} Stichpunkte und ${limit.words} Wörter. Behalte nur die wichtigsten Aussagen.`,
+      });
+    });
+    if (checks.overloadedSlides > 0) {
+      const penalty = checks.overloadedSlides * 5;
+      score -= penalty;
+      issues.push(
+        `${checks.overloadedSlides} slides are overloaded for their layout (-${penalty} points)`
+      );
+    }
+
+    // Check 8: Near-duplicate slides (the later slide repeats an earlier one)
+    const slideTexts = slides.map((s) => `${s.title}\n${toPlainText(s.content || '')}`);
+    slideTexts.forEach((text, index) => {
+      const original = slideTexts
+        .slice(0, index)
+        .findIndex((earlier) => getSimilarity(earlier, text) >= DUPLICATE_SIMILARITY);
+      if (original === -1) return;
+
+      checks.duplicateSlides++;
+      addIssue(index, {
+        check: 'duplicate',
+        severity: 'error',
+        message: `Slide nearly repeats slide ${original + 1} ("${slides[original]!.title}")`,
+        fix: `Die Folie wiederholt weitgehend Folie ${original + 1} ("${slides[original]!.title}"). Setze einen eigenen Schwerpunkt und wiederhole keine Aussagen dieser Folie.`,
+      });
+    });
+    if (checks.duplicateSlides > 0) {
+      const penalty = checks.duplicateSlides * 10;
+      score -= penalty;
+      issues.push(`${checks.duplicateSlides} slides are near-duplicates (-${penalty} points)`);
+    }
+
+    // Check 9: Heading case (titles differing from the case of most titles)
+    const headingCases = slides.map((s) => getHeadingCase(s.title));
+    const majorityCase = this.getMajorityCase(headingCases);
+    if (majorityCase) {
+      headingCases.forEach((headingCase, index) => {
+        if (!headingCase || headingCase === majorityCase) return;
+
+        checks.inconsistentHeadings++;
+        addIssue(index, {
+          check: 'heading_case',
+          severity: 'warning',
+          message: `Title is ${headingCase} case, most titles are ${majorityCase} case`,
+          fix: `Schreibe den Titel in der Schreibweise der übrigen Titel (${HEADING_CASE_NAMES[majorityCase]}).`,
+        });
+      });
+    }
+    if (checks.inconsistentHeadings > 0) {
+      const penalty = Math.min(checks.inconsistentHeadings * 2, 10);
+      score -= penalty;
+      issues.push(
+        `${checks.inconsistentHeadings} slide titles have inconsistent case (-${penalty} points)`
+      );
+    }
+
+    // Check 10: Reading level
+    slides.forEach((s, index) => {
+      const text = toPlainText(s.content || '');
+      if (getWords(text).length < MIN_READING_WORDS) return;
+
+      const readingEase = getReadingEase(text);
+      if (readingEase >= MIN_READING_EASE) return;
+
+      checks.hardToReadSlides++;
+      addIssue(index, {
+        check: 'readability',
+        severity: 'warning',
+        message: `Slide is hard to read (reading ease ${readingEase}, min. ${MIN_READING_EASE})`,
+        fix: 'Vereinfache die Sprache: kurze Sätze, geläufige Wörter, ein Gedanke pro Stichpunkt.',
+      });
+    });
+    if (checks.hardToReadSlides > 0) {
+      const penalty = checks.hardToReadSlides * 3;
+      score -= penalty;
+      issues.push(`${checks.hardToReadSlides} slides are hard to read (-${penalty} points)`);
+    }
+
     // Ensure score is between 0-100
     score = Math.max(0, Math.min(100, score));
 
     return {
       score,
       issues,
+      issuesBySlide,
       checks,
     };
   }
 
+  /**
+   * Id of a slide in the results (its id, or its position for slides without one)
+   */
+  static getSlideId(slide: SlideContent, index: number): string {
+    return slide.id ?? `slide-${index + 1}`;
+  }
+
+  /**
+   * Case of most headings (null if there is no majority)
+   */
+  private static getMajorityCase(cases: Array<HeadingCase | null>): HeadingCase | null {
+    const counts = new Map<HeadingCase, number>();
+    for (const headingCase of cases) {
+      if (headingCase) counts.set(headingCase, (counts.get(headingCase) ?? 0) + 1);
+    }
+
+    const [top, second] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    return top && (!second || top[1] > second[1]) ? top[0] : null;
+  }
+
   /**
    * Get quality level description
    */
@@ -0,0 +1,60 @@
+/**
+ * Slide Images
+ *
+ * Image generation for image slides (Gemini)
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+import {
+  geminiClient,
+  GEMINI_MODELS,
+  buildEnhancedImagePrompt,
+  buildGenerationConfig,
+  buildContentParts,
+  parseImageFromResponse,
+  generateSingleImage,
+} from '@/lib/api/providers/gemini';
+
+/** Images generated per presentation unless set otherwise */
+export const DEFAULT_MAX_IMAGES = 3;
+
+/** Most images generated per presentation */
+export const MAX_IMAGES = 10;
+
+export interface SlideImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+/**
+ * Generate the image of an image slide
+ *
+ * @param prompt - Image prompt (English)
+ * @param format - Presentation format, used as aspect ratio ("16:9", "4:3")
+ * @param clientId - Id for the logs (presentation or user)
+ * @returns Image, null if Gemini returned none
+ */
+export async function generateSlideImage(
+  prompt: string,
+  format: string,
+  clientId: string
+): Promise<SlideImage | null> {
+  const settings = { style: 'photorealistic', quality: 'high', aspectRatio: format };
+  const model = geminiClient.getGenerativeModel({ model: GEMINI_MODELS.imageGeneration });
+
+  const result = await generateSingleImage(
+    model,
+    buildContentParts(buildEnhancedImagePrompt(prompt, settings)),
+    buildGenerationConfig(settings),
+    0,
+    1,
+    clientId
+  );
+  const image = parseImageFromResponse(result, 0, 1, clientId);
+
+  return image
+    ? { data: new Uint8Array(Buffer.from(image.data, 'base64')), mimeType: image.mimeType }
+    : null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Text Metrics Utility
+ *
+ * Word, bullet, sentence and syllable counts of slide markdown
+ * for the quality checks
+ *
+ * @author Payperwork Team
+ * @date 2025-10-19
+ */
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const WORD = /[\p{L}\p{N}]+(?:[-'’][\p{L}\p{N}]+)*/gu;
+
+export type HeadingCase = 'upper' | 'lower' | 'normal';
+
+/**
+ * Strip markdown syntax, links, images and citation markers
+ */
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\s?\[\d{1,3}\]/g, '')
+    .replace(/^\s*(?:#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_~`|]/g, ' ');
+}
+
+export function getWords(text: string): string[] {
+  return text.match(WORD) ?? [];
+}
+
+export function countBullets(markdown: string): number {
+  return markdown.split('\n').filter((line) => LIST_ITEM.test(line)).length;
+}
+
+/**
+ * Split text into sentences (list items and lines count as sentences)
+ */
+export function getSentences(text: string): string[] {
+  return text.split(/[.!?]+(?:\s|$)|\n+/).filter((sentence) => getWords(sentence).length > 0);
+}
+
+export function countSyllables(word: string): number {
+  return Math.max(1, word.toLowerCase().match(/[aeiouyäöü]+/g)?.length ?? 0);
+}
+
+/**
+ * Flesch reading ease for German texts (Amstad):
+ * 0-30 very hard, 30-50 hard, 50-60 fairly hard, 60+ easy
+ */
+export function getReadingEase(text: string): number {
+  const words = getWords(text);
+  const sentences = getSentences(text);
+  if (words.length === 0 || sentences.length === 0) return 100;
+
+  const wordsPerSentence = words.length / sentences.length;
+  const syllablesPerWord =
+    words.reduce((sum, word) => sum + countSyllables(word), 0) / words.length;
+
+  return Math.round(180 - wordsPerSentence - 58.5 * syllablesPerWord);
+}
+
+/**
+ * Similarity of two texts (Jaccard index of their words):
+ * 0 (no shared words) to 1 (same words)
+ */
+export function getSimilarity(a: string, b: string): number {
+  const wordsOf = (text: string) =>
+    new Set(getWords(text.toLowerCase()).filter((word) => word.length > 2));
+  const wordsA = wordsOf(a);
+  const wordsB = wordsOf(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Case style of a heading (null if it has no letters to tell)
+ */
+export function getHeadingCase(heading: string): HeadingCase | null {
+  const letters = heading.replace(/[^\p{L}]/gu, '');
+  if (letters.length < 2) return null;
+
+  if (letters === letters.toUpperCase()) return 'upper';
+  if (letters[0] === letters[0]!.toLowerCase()) return 'lower';
+  return 'normal';
+}
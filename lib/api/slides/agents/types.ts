@@ -7,6 +7,9 @@
  * @date 2025-10-19
  */
 
+import type { UsageTracker } from '@/lib/agents/base/usage';
+import type { SlideCitation, SlideLayout } from '@/types/slides';
+
 // ============================================
 // Agent Service Input/Output Types
 // ============================================
@@ -15,6 +18,10 @@ export interface AgentServiceContext {
   userId: string;
   sessionId: string;
   presentationId?: string;
+  /** Cancels the agents' work (see generation-control) */
+  signal?: AbortSignal;
+  /** Receives the token usage and cost of the agents' LLM and tool calls */
+  usage?: UsageTracker;
 }
 
 export interface ResearchServiceInput {
@@ -42,10 +49,21 @@ export interface ContentGenerationInput {
 }
 
 export interface SlideContent {
+  /** Id of the slide (pipeline slides keep it when saved) */
+  id?: string;
   title: string;
   content: string;
   bulletPoints?: string[];
+  /** Research context the slide was written from */
   notes?: string;
+  /** Speaker notes (spoken text for the slide) */
+  speakerNotes?: string;
+  /** Research sources cited in the content by "[n]" markers */
+  citations?: SlideCitation[];
+  /** Layout the slide is written for (default: content) */
+  layout?: SlideLayout;
+  /** Generated image of an image slide (saved as background_image) */
+  imageUrl?: string;
 }
 
 export interface ContentGenerationOutput {
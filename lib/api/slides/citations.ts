@@ -0,0 +1,182 @@
+// ============================================
+// Slide Citations
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { Slide, SlideCitation } from "@/types/slides";
+
+/**
+ * Source citations of research-backed slides. Claims are marked with the number of
+ * their research source in square brackets ("Holz spart 20% CO₂ [3]"). The number is
+ * the position of the source in the research of the presentation, so a source has the
+ * same number on every slide and on the references slide.
+ */
+
+export interface CitationSource {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/** Citation marker with the whitespace before it ("[3]", not a markdown link "[3](url)") */
+const MARKER = /(\s?)\[(\d{1,3})\](?!\()/g;
+
+/** Numbers with a unit, or with two or more digits (amounts, percentages, years) */
+const NUMERIC_CLAIM =
+  /\d+(?:[.,]\d+)?\s?(?:%|€|\$|prozent|percent|mio|mrd|millionen|milliarden|million|billion)|\d{2,}/i;
+
+const LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Link the citation markers of slide content to research sources
+ *
+ * Markers of unknown sources are removed.
+ *
+ * @param content - Slide content (markdown) with citation markers
+ * @param sources - Research sources of the presentation
+ * @returns Content and the cited sources (by number)
+ */
+export function extractCitations(
+  content: string,
+  sources: CitationSource[] = []
+): { content: string; citations: SlideCitation[] } {
+  const citations = new Map<number, SlideCitation>();
+
+  const lines = content.split("\n").map((line, index) =>
+    line.replace(MARKER, (marker, _space: string, value: string) => {
+      const number = Number(value);
+      const source = sources[number - 1];
+      if (!source) return "";
+
+      const citation = citations.get(number) ?? {
+        number,
+        url: source.url,
+        title: source.title,
+        snippet: source.snippet,
+        lines: [],
+      };
+      if (!citation.lines.includes(index)) {
+        citation.lines.push(index);
+      }
+      citations.set(number, citation);
+      return marker;
+    })
+  );
+
+  return {
+    content: lines.join("\n"),
+    citations: Array.from(citations.values()).sort((a, b) => a.number - b.number),
+  };
+}
+
+/**
+ * Update the citations of edited slide content (lines, removed markers)
+ *
+ * @param content - Edited slide content
+ * @param citations - Citations of the slide before the edit
+ * @returns Citations still referenced by the content
+ */
+export function relinkCitations(content: string, citations: SlideCitation[] = []): SlideCitation[] {
+  const sources: CitationSource[] = [];
+  for (const citation of citations) {
+    sources[citation.number - 1] = citation;
+  }
+
+  return extractCitations(content, sources).citations;
+}
+
+/**
+ * Turn the citation markers into markdown links to their footnotes ("#citation-3")
+ */
+export function linkCitationMarkers(content: string): string {
+  return content.replace(
+    MARKER,
+    (_marker, space: string, value: string) => `${space}[\\[${value}\\]](#citation-${value})`
+  );
+}
+
+/**
+ * Find numeric claims without a citation marker
+ *
+ * @param content - Slide content (markdown)
+ * @returns Claims (list items or paragraphs) with numbers but no source
+ */
+export function findUnsupportedClaims(content: string): string[] {
+  let inCode = false;
+
+  return content.split("\n").flatMap((rawLine) => {
+    const line = rawLine.trim();
+
+    if (line.startsWith("```")) {
+      inCode = !inCode;
+      return [];
+    }
+
+    // Headings and table rows are not claims
+    if (inCode || !line || line.startsWith("#") || line.startsWith("|")) {
+      return [];
+    }
+
+    const claim = line.replace(LIST_MARKER, "");
+    const withoutMarkers = claim.replace(MARKER, "");
+    const isCited = withoutMarkers !== claim;
+
+    return !isCited && NUMERIC_CLAIM.test(withoutMarkers) ? [claim] : [];
+  });
+}
+
+/**
+ * Get the cited sources of all slides (each source once, by number)
+ */
+export function collectCitations(slides: Array<Pick<Slide, "citations">>): SlideCitation[] {
+  const citations = new Map<number, SlideCitation>();
+
+  for (const slide of slides) {
+    for (const citation of slide.citations ?? []) {
+      if (!citations.has(citation.number)) {
+        citations.set(citation.number, { ...citation, lines: [] });
+      }
+    }
+  }
+
+  return Array.from(citations.values()).sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Build the references slide of a presentation (appended by the exports)
+ *
+ * @returns References slide, null if no slide cites a source
+ */
+export function buildReferencesSlide(presentationId: string, slides: Slide[]): Slide | null {
+  const citations = collectCitations(slides);
+  if (citations.length === 0) return null;
+
+  const lastIndex = Math.max(...slides.map((slide) => slide.order_index));
+  const now = new Date().toISOString();
+
+  return {
+    id: `${presentationId}-references`,
+    presentation_id: presentationId,
+    order_index: lastIndex + 1,
+    title: "Quellen",
+    // Escaped brackets: the numbers are not citation markers here
+    content: citations
+      .map(
+        (citation) =>
+          `- \\[${citation.number}\\] [${escapeLinkText(citation.title)}](${citation.url})`
+      )
+      .join("\n"),
+    layout: "content",
+    background_color: null,
+    background_image: null,
+    speaker_notes: null,
+    citations: [],
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+function escapeLinkText(text: string): string {
+  return (text || "Quelle").replace(/([[\]])/g, "\\$1");
+}
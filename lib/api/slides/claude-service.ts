@@ -8,6 +8,8 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { createClient } from "@supabase/supabase-js";
 import { apiLogger } from "@/lib/logger";
+import { createUsageRecord } from "@/lib/agents/base/usage";
+import { saveUsage, type UsageContext } from "@/lib/supabase-agent-usage";
 
 // Safe Socket.IO imports (optional - won't crash if not available)
 let emitThinkingMessage: Function | undefined;
@@ -47,6 +49,8 @@ const supabaseAdmin = createClient(
 export interface GenerateTopicsOptions {
   prompt: string;
   userId: string;
+  /** Presentation the topics are generated for (usage accounting) */
+  presentationId?: string;
   format?: string;
   theme?: string;
 }
@@ -62,6 +66,25 @@ export interface GenerateSlidesOptions {
   presentationId: string;
   format?: string;
   theme?: string;
+  /** Cancels the generation; slides completed so far are kept */
+  signal?: AbortSignal;
+}
+
+/**
+ * Save the token usage and estimated cost of a Claude call
+ * Failures are logged - usage accounting never fails a generation
+ */
+async function recordUsage(
+  message: Pick<Anthropic.Message, "model" | "usage">,
+  context: UsageContext
+): Promise<void> {
+  const { input_tokens, output_tokens } = message.usage;
+
+  await saveUsage([createUsageRecord(message.model, input_tokens, output_tokens)], context).catch(
+    (error) => {
+      apiLogger.warn("Failed to save usage", { source: context.source, error: error.message });
+    }
+  );
 }
 
 /**
@@ -109,7 +132,7 @@ Antworte NUR mit der Bestätigung, ohne zusätzliche Erklärungen.`,
  * Generate 10 slide topics using Claude API
  */
 export async function generateTopics(options: GenerateTopicsOptions) {
-  const { prompt, userId, format = "16:9", theme = "default" } = options;
+  const { prompt, userId, presentationId, format = "16:9", theme = "default" } = options;
 
   try {
     apiLogger.info("📝 Generating topics with Claude for user:", { userId });
@@ -157,6 +180,8 @@ Regeln:
       ],
     });
 
+    await recordUsage(message, { userId, source: "slides_topics", presentationId });
+
     // Step 3: Parse response
     const content = message.content[0];
     if (!content || content.type !== "text") {
@@ -256,9 +281,20 @@ function normalizeLayout(layout: string | undefined): SlideLayout {
 
 /**
  * Generate slides using Claude API with streaming
+ *
+ * If the signal aborts, the stream is stopped and the slides completed so far
+ * are saved as the (partial) presentation.
  */
 export async function generateSlides(options: GenerateSlidesOptions) {
-  const { prompt, topics, userId, presentationId, format = "16:9", theme = "default" } = options;
+  const {
+    prompt,
+    topics,
+    userId,
+    presentationId,
+    format = "16:9",
+    theme = "default",
+    signal,
+  } = options;
 
   try {
     apiLogger.info("📝 Generating slides with Claude for user:", { userId });
@@ -312,6 +348,14 @@ Regeln:
       ],
     });
 
+    // Stop the stream when the generation is cancelled
+    const abortStream = () => stream.abort();
+    if (signal?.aborted) {
+      abortStream();
+    } else {
+      signal?.addEventListener("abort", abortStream, { once: true });
+    }
+
     let currentSlide = "";
     let slideCount = 0;
     const slides: any[] = [];
@@ -481,10 +525,29 @@ Regeln:
       }
     });
 
-    // Wait for stream to finish
-    await stream.finalMessage();
+    // Wait for stream to finish (rejects when aborted)
+    try {
+      await stream.finalMessage();
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    } finally {
+      signal?.removeEventListener("abort", abortStream);
+    }
+
+    // A cancelled stream reports the usage up to the abort
+    const usageMessage = stream.currentMessage ?? stream.receivedMessages.at(-1);
+    if (usageMessage) {
+      await recordUsage(usageMessage, { userId, source: "slides_generation", presentationId });
+    }
 
-    apiLogger.info("✅ Slides generation completed. Generated", slideCount, "slides");
+    const cancelled = !!signal?.aborted;
+
+    apiLogger.info(
+      cancelled
+        ? "⏹️ Slides generation cancelled, keeping completed slides"
+        : "✅ Slides generation completed",
+      { slideCount }
+    );
 
     // Step 4: Save slides to database
     if (slides.length > 0) {
@@ -539,6 +602,16 @@ Regeln:
       }
     }
 
+    // Cancelled before the first slide: topics are kept so the user can start again
+    if (cancelled && slides.length === 0) {
+      await supabaseAdmin
+        .from("presentations")
+        .update({ status: "topics_generated" })
+        .eq("id", presentationId);
+
+      return slides;
+    }
+
     // Step 5: Emit completion
     emitGenerationCompleted?.(userId, presentationId, slideCount);
 
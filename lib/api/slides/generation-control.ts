@@ -0,0 +1,68 @@
+/**
+ * Slides Generation Control
+ *
+ * Tracks running slide generations per presentation so that a user can
+ * cancel them. Generations run in the server process that started them,
+ * so the registry is kept in memory.
+ */
+
+import { apiLogger } from "@/lib/logger";
+
+interface ActiveGeneration {
+  userId: string;
+  controller: AbortController;
+}
+
+const activeGenerations = new Map<string, ActiveGeneration>();
+
+/**
+ * Register a generation and get the signal that cancels it
+ * A previous generation for the same presentation is cancelled.
+ */
+export function startGeneration(presentationId: string, userId: string): AbortSignal {
+  activeGenerations.get(presentationId)?.controller.abort("Superseded by a new generation");
+
+  const controller = new AbortController();
+  activeGenerations.set(presentationId, { userId, controller });
+
+  return controller.signal;
+}
+
+/**
+ * Unregister a finished generation (no-op if it was superseded)
+ */
+export function finishGeneration(presentationId: string, signal: AbortSignal): void {
+  if (activeGenerations.get(presentationId)?.controller.signal === signal) {
+    activeGenerations.delete(presentationId);
+  }
+}
+
+/**
+ * Cancel a running generation
+ *
+ * @returns False if no generation of this user is running for the presentation
+ */
+export function cancelGeneration(
+  presentationId: string,
+  userId: string,
+  reason: string = "Cancelled by user"
+): boolean {
+  const generation = activeGenerations.get(presentationId);
+
+  if (!generation || generation.userId !== userId) {
+    return false;
+  }
+
+  apiLogger.info("Cancelling slides generation", { presentationId, userId });
+  generation.controller.abort(reason);
+  activeGenerations.delete(presentationId);
+
+  return true;
+}
+
+/**
+ * Check whether a generation is running for the presentation
+ */
+export function isGenerationActive(presentationId: string): boolean {
+  return activeGenerations.has(presentationId);
+}
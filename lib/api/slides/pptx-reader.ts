@@ -0,0 +1,460 @@
+// ============================================
+// PPTX Reader
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import JSZip from "jszip";
+import { SlideLayout } from "@/types/slides";
+import { ValidationError } from "@/lib/validation";
+import type { SlideDraft } from "./slides-importer";
+
+/**
+ * Reads the slides of a PowerPoint file (Office Open XML) as markdown drafts:
+ * title placeholders become the title, text boxes become paragraphs and
+ * (nested) bullet lists with bold/italic runs, tables become markdown tables,
+ * pictures become images and notes pages become speaker notes.
+ */
+
+/**
+ * Stores an embedded picture and returns its public URL (null to skip it)
+ */
+export type PptxImageUploader = (image: {
+  data: Uint8Array;
+  fileName: string;
+  mimeType: string;
+}) => Promise<string | null>;
+
+export interface PptxDeck {
+  /** Title from the document properties */
+  title?: string;
+  slides: SlideDraft[];
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+/** PowerPoint slide layout types mapped to slide layouts */
+const LAYOUT_TYPES: Record<string, SlideLayout> = {
+  title: "title_slide",
+  secHead: "title_slide",
+  twoObj: "two_column",
+  twoTxTwoObj: "two_column",
+  twoColTx: "two_column",
+};
+
+const TITLE_PLACEHOLDERS = ["title", "ctrTitle"];
+const NON_BULLET_PLACEHOLDERS = ["subTitle", "ftr", "dt", "sldNum", "hdr"];
+const HIDDEN_PLACEHOLDERS = ["ftr", "dt", "sldNum", "hdr"];
+
+/**
+ * Read a PowerPoint (.pptx) file
+ *
+ * @param data - File content
+ * @param uploadImage - Stores embedded pictures (pictures are skipped without it)
+ * @returns Deck title and slide drafts in presentation order
+ */
+export async function readPptxDeck(
+  data: Uint8Array,
+  uploadImage?: PptxImageUploader
+): Promise<PptxDeck> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new ValidationError("File is not a valid PowerPoint (.pptx) file", "file");
+  }
+
+  const presentationXml = await readText(zip, "ppt/presentation.xml");
+  if (!presentationXml) {
+    throw new ValidationError("File is not a valid PowerPoint (.pptx) file", "file");
+  }
+
+  const presentationRels = await readRels(zip, "ppt/presentation.xml");
+  const slidePaths = matchAll(presentationXml, /<p:sldId\b[^>]*\br:id="([^"]+)"/g)
+    .map((match) => presentationRels.get(match[1] ?? "")?.path)
+    .filter((path): path is string => !!path);
+
+  const images = new Map<string, Promise<string | null>>();
+  const slides: SlideDraft[] = [];
+
+  for (const path of slidePaths) {
+    const xml = await readText(zip, path);
+    if (xml) {
+      slides.push(await readSlide(zip, path, xml, images, uploadImage));
+    }
+  }
+
+  const coreXml = await readText(zip, "docProps/core.xml");
+  const title = coreXml && /<dc:title>([\s\S]*?)<\/dc:title>/.exec(coreXml)?.[1];
+
+  return { title: title ? decodeXml(title).trim() : undefined, slides };
+}
+
+// ============================================
+// Slides
+// ============================================
+
+async function readSlide(
+  zip: JSZip,
+  path: string,
+  xml: string,
+  images: Map<string, Promise<string | null>>,
+  uploadImage?: PptxImageUploader
+): Promise<SlideDraft> {
+  const rels = await readRels(zip, path);
+  let title = "";
+  const blocks: string[] = [];
+  const bodyBlocks: string[] = [];
+  // First text box with a single short line (title of slides without title placeholder)
+  let titleCandidate: string | undefined;
+
+  const shapes = matchAll(xml, /<p:(sp|graphicFrame|pic)\b[\s\S]*?<\/p:\1>/g);
+
+  for (const [shape, kind] of shapes) {
+    const placeholder = /<p:ph\b([^>]*)>/.exec(shape);
+    const placeholderType = placeholder
+      ? (/\btype="(\w+)"/.exec(placeholder[1] ?? "")?.[1] ?? "body")
+      : undefined;
+
+    if (kind === "pic") {
+      const image = await readPicture(zip, shape, rels, images, uploadImage);
+      if (image) blocks.push(image);
+      continue;
+    }
+
+    if (kind === "graphicFrame") {
+      const table = /<a:tbl>[\s\S]*?<\/a:tbl>/.exec(shape)?.[0];
+      if (table) blocks.push(readTable(table, rels));
+      continue;
+    }
+
+    if (placeholderType && TITLE_PLACEHOLDERS.includes(placeholderType)) {
+      title = readParagraphs(shape, rels, false)
+        .map((paragraph) => paragraph.text)
+        .join(" ")
+        .trim();
+      continue;
+    }
+
+    if (placeholderType && HIDDEN_PLACEHOLDERS.includes(placeholderType)) {
+      continue;
+    }
+
+    // Body placeholders are bulleted unless a paragraph turns bullets off
+    const bulletsByDefault =
+      !!placeholderType && !NON_BULLET_PLACEHOLDERS.includes(placeholderType);
+    const paragraphs = readParagraphs(shape, rels, bulletsByDefault);
+    const text = toMarkdown(paragraphs);
+    if (text) {
+      const [first] = paragraphs;
+      if (
+        blocks.length === 0 &&
+        !placeholderType &&
+        paragraphs.length === 1 &&
+        first?.bullet === "none" &&
+        first.text.length <= 120
+      ) {
+        titleCandidate = first.text.trim();
+      }
+      blocks.push(text);
+      if (placeholderType === "body" || placeholderType === "obj") {
+        bodyBlocks.push(text);
+      }
+    }
+  }
+
+  if (!title && titleCandidate) {
+    title = titleCandidate;
+    blocks.shift();
+  }
+
+  const layoutHint = await readLayoutHint(zip, rels);
+
+  return {
+    title,
+    content: blocks.join("\n\n"),
+    speakerNotes: await readNotes(zip, rels),
+    // Two-column layouts only make sense with two text columns
+    layoutHint: layoutHint === "two_column" && bodyBlocks.length !== 2 ? undefined : layoutHint,
+  };
+}
+
+async function readLayoutHint(
+  zip: JSZip,
+  rels: Map<string, Relationship>
+): Promise<SlideLayout | undefined> {
+  const layout = findRel(rels, "/slideLayout");
+  const xml = layout && (await readText(zip, layout.path));
+  const type = xml && /<p:sldLayout\b[^>]*\btype="(\w+)"/.exec(xml)?.[1];
+  return type ? LAYOUT_TYPES[type] : undefined;
+}
+
+async function readNotes(zip: JSZip, rels: Map<string, Relationship>): Promise<string | undefined> {
+  const notes = findRel(rels, "/notesSlide");
+  const xml = notes && (await readText(zip, notes.path));
+  if (!xml) return undefined;
+
+  const text = matchAll(xml, /<p:sp\b[\s\S]*?<\/p:sp>/g)
+    .filter(([shape]) => /<p:ph\b[^>]*\btype="body"/.test(shape))
+    .map(([shape]) =>
+      readParagraphs(shape, new Map(), false)
+        .map((paragraph) => paragraph.text)
+        .join("\n")
+    )
+    .join("\n")
+    .trim();
+
+  return text || undefined;
+}
+
+async function readPicture(
+  zip: JSZip,
+  shape: string,
+  rels: Map<string, Relationship>,
+  images: Map<string, Promise<string | null>>,
+  uploadImage?: PptxImageUploader
+): Promise<string | null> {
+  const embed = /<a:blip\b[^>]*\br:embed="([^"]+)"/.exec(shape)?.[1];
+  const media = embed ? rels.get(embed) : undefined;
+  const extension = media?.path.split(".").pop()?.toLowerCase() ?? "";
+  const mimeType = IMAGE_MIME_TYPES[extension];
+
+  if (!media || !mimeType || !uploadImage) {
+    return null;
+  }
+
+  // Pictures used on several slides are uploaded once
+  if (!images.has(media.path)) {
+    images.set(
+      media.path,
+      (async () => {
+        const data = await zip.file(media.path)?.async("uint8array");
+        const fileName = media.path.split("/").pop() ?? `image.${extension}`;
+        return data ? uploadImage({ data, fileName, mimeType }) : null;
+      })()
+    );
+  }
+
+  const url = await images.get(media.path);
+  const alt = decodeXml(/<p:cNvPr\b[^>]*\bdescr="([^"]*)"/.exec(shape)?.[1] ?? "");
+  return url ? `![${alt.replace(/[[\]]/g, "")}](${url})` : null;
+}
+
+function readTable(table: string, rels: Map<string, Relationship>): string {
+  const rows = matchAll(table, /<a:tr\b[\s\S]*?<\/a:tr>/g).map(([row]) =>
+    matchAll(row, /<a:tc\b[\s\S]*?<\/a:tc>/g).map(([cell]) =>
+      readParagraphs(cell, rels, false)
+        .map((paragraph) => paragraph.markdown)
+        .join(" ")
+        .replace(/\|/g, "\\|")
+        .trim()
+    )
+  );
+
+  const [header, ...body] = rows;
+  if (!header) return "";
+
+  const line = (cells: string[]) =>
+    `| ${header.map((_, column) => cells[column] ?? "").join(" | ")} |`;
+
+  return [line(header), line(header.map(() => "---")), ...body.map(line)].join("\n");
+}
+
+// ============================================
+// Text
+// ============================================
+
+interface Paragraph {
+  /** Plain text */
+  text: string;
+  /** Text with markdown emphasis and links */
+  markdown: string;
+  bullet: "none" | "bullet" | "number";
+  level: number;
+}
+
+interface Run {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  link?: string;
+}
+
+function readParagraphs(
+  xml: string,
+  rels: Map<string, Relationship>,
+  bulletsByDefault: boolean
+): Paragraph[] {
+  return matchAll(xml, /<a:p>[\s\S]*?<\/a:p>|<a:p\/>/g)
+    .map(([paragraph]) => {
+      const properties = /<a:pPr\b[^>]*(?:\/>|>[\s\S]*?<\/a:pPr>)/.exec(paragraph)?.[0] ?? "";
+      const level = Number(/\blvl="(\d+)"/.exec(properties)?.[1] ?? 0);
+
+      let bullet: Paragraph["bullet"] = bulletsByDefault ? "bullet" : "none";
+      if (properties.includes("<a:buNone")) bullet = "none";
+      else if (properties.includes("<a:buAutoNum")) bullet = "number";
+      else if (properties.includes("<a:buChar")) bullet = "bullet";
+
+      const runs: Run[] = matchAll(paragraph, /<a:(r|fld)\b[\s\S]*?<\/a:\1>|<a:br\b[^>]*\/>/g).map(
+        ([run]) => {
+          if (run.startsWith("<a:br")) {
+            return { text: " ", bold: false, italic: false };
+          }
+          const runProperties = /<a:rPr\b[^>]*/.exec(run)?.[0] ?? "";
+          const linkId = /<a:hlinkClick\b[^>]*\br:id="([^"]+)"/.exec(run)?.[1];
+          const link = linkId ? rels.get(linkId) : undefined;
+          return {
+            text: decodeXml(/<a:t>([\s\S]*?)<\/a:t>/.exec(run)?.[1] ?? ""),
+            bold: /\bb="1"/.test(runProperties),
+            italic: /\bi="1"/.test(runProperties),
+            link: link?.external ? link.target : undefined,
+          };
+        }
+      );
+
+      return {
+        text: runs.map((run) => run.text).join(""),
+        markdown: runsToMarkdown(runs),
+        bullet,
+        level,
+      };
+    })
+    .filter((paragraph) => paragraph.text.trim());
+}
+
+/**
+ * Runs to markdown (adjacent runs with the same formatting are merged)
+ */
+function runsToMarkdown(runs: Run[]): string {
+  const merged: Run[] = [];
+  for (const run of runs) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.bold === run.bold &&
+      previous.italic === run.italic &&
+      previous.link === run.link
+    ) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  return merged
+    .map((run) => {
+      // Emphasis markers must not be next to spaces
+      const [, before = "", text = "", after = ""] = /^(\s*)([\s\S]*?)(\s*)$/.exec(run.text) ?? [];
+      if (!text) return run.text;
+
+      let markdown = text;
+      if (run.italic) markdown = `*${markdown}*`;
+      if (run.bold) markdown = `**${markdown}**`;
+      if (run.link) markdown = `[${markdown}](${run.link})`;
+      return `${before}${markdown}${after}`;
+    })
+    .join("")
+    .trim();
+}
+
+/**
+ * Paragraphs to markdown: list items stay together, other paragraphs are
+ * separated by blank lines
+ */
+function toMarkdown(paragraphs: Paragraph[]): string {
+  let markdown = "";
+  let previousIsListItem = false;
+
+  for (const paragraph of paragraphs) {
+    const isListItem = paragraph.bullet !== "none";
+    const line = isListItem
+      ? `${"  ".repeat(paragraph.level)}${paragraph.bullet === "number" ? "1." : "-"} ${paragraph.markdown}`
+      : paragraph.markdown;
+
+    if (markdown) {
+      markdown += isListItem && previousIsListItem ? "\n" : "\n\n";
+    }
+    markdown += line;
+    previousIsListItem = isListItem;
+  }
+
+  return markdown;
+}
+
+// ============================================
+// Package Helpers
+// ============================================
+
+interface Relationship {
+  type: string;
+  target: string;
+  /** Resolved path in the package (internal targets) */
+  path: string;
+  external: boolean;
+}
+
+async function readText(zip: JSZip, path: string): Promise<string | null> {
+  return (await zip.file(path)?.async("string")) ?? null;
+}
+
+/**
+ * Read the relationships of a part (e.g. ppt/slides/_rels/slide1.xml.rels)
+ */
+async function readRels(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const directory = partPath.slice(0, partPath.lastIndexOf("/") + 1);
+  const fileName = partPath.slice(directory.length);
+  const xml = await readText(zip, `${directory}_rels/${fileName}.rels`);
+  const rels = new Map<string, Relationship>();
+
+  for (const [relationship] of matchAll(xml ?? "", /<Relationship\b[^>]*>/g)) {
+    const attribute = (name: string) =>
+      decodeXml(new RegExp(`\\b${name}="([^"]*)"`).exec(relationship)?.[1] ?? "");
+    const target = attribute("Target");
+    const external = attribute("TargetMode") === "External";
+
+    rels.set(attribute("Id"), {
+      type: attribute("Type"),
+      target,
+      path: external ? target : resolvePath(directory, target),
+      external,
+    });
+  }
+
+  return rels;
+}
+
+function findRel(rels: Map<string, Relationship>, typeSuffix: string): Relationship | undefined {
+  return Array.from(rels.values()).find((rel) => rel.type.endsWith(typeSuffix));
+}
+
+function resolvePath(directory: string, target: string): string {
+  const parts = target.startsWith("/") ? [] : directory.split("/").filter(Boolean);
+  for (const part of target.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+function matchAll(text: string, regex: RegExp): RegExpMatchArray[] {
+  return Array.from(text.matchAll(regex));
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
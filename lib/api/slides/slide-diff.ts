@@ -0,0 +1,154 @@
+// ============================================
+// Slide Diff
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { Slide } from "@/types/slides";
+
+/**
+ * Word-level diff between two versions of a slide (revision history)
+ */
+
+/** Slide fields kept in revisions and compared by the diff */
+export const SLIDE_DIFF_FIELDS = [
+  "title",
+  "content",
+  "layout",
+  "background_color",
+  "background_image",
+  "speaker_notes",
+] as const;
+
+export type SlideDiffField = (typeof SLIDE_DIFF_FIELDS)[number];
+
+export type SlideSnapshot = Pick<Slide, SlideDiffField>;
+
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface SlideFieldDiff {
+  field: SlideDiffField;
+  before: string;
+  after: string;
+  segments: DiffSegment[];
+}
+
+// Above this many token comparisons, changed texts are shown as replaced
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Diff two texts word by word (whitespace is kept as its own token)
+ *
+ * @returns Segments in order; joining equal + delete gives `before`,
+ * equal + insert gives `after`
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix and suffix are equal and left out of the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  push(segments, "equal", a.slice(0, start));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    push(segments, "delete", midA);
+    push(segments, "insert", midB);
+  } else {
+    for (const [type, token] of diffTokens(midA, midB)) {
+      push(segments, type, [token]);
+    }
+  }
+
+  push(segments, "equal", a.slice(endA));
+  return segments;
+}
+
+/**
+ * Diff two versions of a slide
+ *
+ * @returns Only the fields that differ
+ */
+export function diffSlides(before: SlideSnapshot, after: SlideSnapshot): SlideFieldDiff[] {
+  return SLIDE_DIFF_FIELDS.filter((field) => (before[field] ?? "") !== (after[field] ?? "")).map(
+    (field) => {
+      const beforeText = before[field] ?? "";
+      const afterText = after[field] ?? "";
+      return {
+        field,
+        before: beforeText,
+        after: afterText,
+        segments: diffText(beforeText, afterText),
+      };
+    }
+  );
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+// Longest common subsequence, walked back into delete/insert/equal tokens
+function diffTokens(a: string[], b: string[]): [DiffSegment["type"], string][] {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const result: [DiffSegment["type"], string][] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(["equal", a[i]!]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      result.push(["delete", a[i]!]);
+      i++;
+    } else {
+      result.push(["insert", b[j]!]);
+      j++;
+    }
+  }
+
+  while (i < a.length) result.push(["delete", a[i++]!]);
+  while (j < b.length) result.push(["insert", b[j++]!]);
+
+  return result;
+}
+
+// Append tokens, merging with the last segment of the same type
+function push(segments: DiffSegment[], type: DiffSegment["type"], tokens: string[]): void {
+  if (tokens.length === 0) return;
+
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += tokens.join("");
+  } else {
+    segments.push({ type, text: tokens.join("") });
+  }
+}
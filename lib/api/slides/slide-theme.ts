@@ -0,0 +1,102 @@
+// ============================================
+// Slide Theme
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { CustomTheme, PresentationTheme, SlideTheme, ThemeLogoPosition } from "@/types/slides";
+
+/**
+ * Resolves the theme of a presentation (built-in or custom) for rendering.
+ * SlideCanvas (editor and PDF export), the live preview and the PPTX export
+ * all render from the same SlideTheme, so they look alike.
+ */
+
+/** Colours as in the Shadcn themes; fonts are available in PowerPoint and Keynote */
+const BUILT_IN_THEMES: Record<PresentationTheme, SlideTheme> = {
+  default: builtIn("#64748b", "#f8fafc", "#1e293b", "#64748b", "Calibri", "Calibri"),
+  red: builtIn("#ef4444", "#fef2f2", "#1f2937", "#6b7280", "Arial", "Arial"),
+  rose: builtIn("#f43f5e", "#fff1f2", "#1f2937", "#6b7280", "Georgia", "Calibri"),
+  orange: builtIn("#f97316", "#fff7ed", "#1f2937", "#6b7280", "Trebuchet MS", "Calibri"),
+  green: builtIn("#22c55e", "#f0fdf4", "#1f2937", "#6b7280", "Calibri", "Calibri"),
+  blue: builtIn("#3b82f6", "#eff6ff", "#1e293b", "#64748b", "Segoe UI", "Segoe UI"),
+  yellow: builtIn("#eab308", "#fefce8", "#1f2937", "#6b7280", "Trebuchet MS", "Verdana"),
+  violet: builtIn("#8b5cf6", "#faf5ff", "#1f2937", "#6b7280", "Georgia", "Georgia"),
+};
+
+/**
+ * Placement of logo, footer and slide number, as fractions of the slide width
+ * (they sit in the slide margin, outside the title and content area)
+ */
+export const THEME_FRAME = {
+  /** Distance from the slide edge */
+  margin: 0.015,
+  logoHeight: 0.035,
+  logoMaxWidth: 0.15,
+  /** Font size of footer text and slide number */
+  footerFontSize: 0.014,
+} as const;
+
+const SERIF_FONTS = ["Georgia", "Times New Roman", "Garamond", "Cambria", "Palatino"];
+
+/**
+ * Get the theme to render a presentation with
+ * (a custom theme replaces the built-in theme)
+ *
+ * @param theme - Built-in theme of the presentation
+ * @param customTheme - Custom theme of the presentation (optional)
+ */
+export function resolveSlideTheme(
+  theme: PresentationTheme,
+  customTheme?: CustomTheme | null
+): SlideTheme {
+  if (!customTheme) {
+    return BUILT_IN_THEMES[theme] || BUILT_IN_THEMES.default;
+  }
+
+  return {
+    palette: { ...customTheme.palette },
+    headingFont: customTheme.heading_font,
+    bodyFont: customTheme.body_font,
+    logo: customTheme.logo_url
+      ? { url: customTheme.logo_url, position: customTheme.logo_position }
+      : null,
+    footerText: customTheme.footer_text?.trim() || null,
+    showSlideNumbers: customTheme.show_slide_numbers,
+    backgroundImage: customTheme.background_image,
+  };
+}
+
+/**
+ * Corner of the slide number (bottom right, unless the logo is there)
+ */
+export function getSlideNumberPosition(theme: SlideTheme): ThemeLogoPosition {
+  return theme.logo?.position === "bottom-right" ? "bottom-left" : "bottom-right";
+}
+
+/**
+ * CSS font-family of a theme font (with a generic fallback)
+ */
+export function toFontStack(font: string): string {
+  const fallback = SERIF_FONTS.includes(font) ? "serif" : "sans-serif";
+  return `"${font.replace(/"/g, "")}", ${fallback}`;
+}
+
+function builtIn(
+  primary: string,
+  background: string,
+  text: string,
+  muted: string,
+  headingFont: string,
+  bodyFont: string
+): SlideTheme {
+  return {
+    palette: { primary, background, text, muted },
+    headingFont,
+    bodyFont,
+    logo: null,
+    footerText: null,
+    showSlideNumbers: false,
+    backgroundImage: null,
+  };
+}
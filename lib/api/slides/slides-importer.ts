@@ -0,0 +1,350 @@
+// ============================================
+// Slides Importer
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { SlideLayout } from "@/types/slides";
+import { ValidationError } from "@/lib/validation";
+import { ParsedSlide } from "./slides-parser";
+import { readPptxDeck, PptxImageUploader } from "./pptx-reader";
+
+/**
+ * Imports existing decks (PowerPoint or Markdown) as ParsedSlide[],
+ * the shape produced by the generation pipeline, so they can be stored
+ * as a normal presentation.
+ */
+
+export type DeckFileType = "pptx" | "markdown";
+
+/**
+ * Imported deck
+ */
+export interface ImportedDeck {
+  title: string;
+  slides: ParsedSlide[];
+}
+
+/**
+ * Slide as read from a file, before its layout is inferred
+ */
+export interface SlideDraft {
+  title: string;
+  /** Slide body as markdown (images as ![alt](url) lines) */
+  content: string;
+  speakerNotes?: string;
+  /** Heading level of the title (markdown decks) */
+  titleLevel?: number;
+  /** Layout given by the file (markdown directive, PowerPoint slide layout) */
+  layoutHint?: SlideLayout;
+}
+
+export interface ImportDeckOptions {
+  /** Stores images embedded in PowerPoint files (they are skipped without it) */
+  uploadImage?: PptxImageUploader;
+}
+
+export const MAX_IMPORT_SLIDES = 50;
+
+const MAX_TITLE_LENGTH = 200;
+
+const VALID_LAYOUTS: SlideLayout[] = ["title_slide", "content", "two_column", "image", "quote"];
+
+/**
+ * Get the deck type of a file from its name
+ */
+export function getDeckFileType(fileName: string): DeckFileType | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "pptx") return "pptx";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  return null;
+}
+
+/**
+ * Import a PowerPoint (.pptx) or Markdown (.md) deck
+ *
+ * @param fileName - Name of the uploaded file (decides the parser)
+ * @param data - File content
+ * @param options - Image upload for PowerPoint pictures
+ * @returns Deck title and parsed slides
+ */
+export async function importDeck(
+  fileName: string,
+  data: Uint8Array,
+  options: ImportDeckOptions = {}
+): Promise<ImportedDeck> {
+  const type = getDeckFileType(fileName);
+  const fallbackTitle = fileName.replace(/\.[^.]+$/, "").trim() || "Import";
+
+  if (type === "markdown") {
+    return parseMarkdownDeck(new TextDecoder().decode(data), fallbackTitle);
+  }
+
+  if (type === "pptx") {
+    const deck = await readPptxDeck(data, options.uploadImage);
+    return buildDeck(deck.title || deck.slides[0]?.title || fallbackTitle, deck.slides);
+  }
+
+  throw new ValidationError("Unsupported file type. Expected .pptx or .md", "file");
+}
+
+// ============================================
+// Markdown Decks
+// ============================================
+
+const SLIDE_SEPARATOR = /^\s*-{3,}\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TITLE_HEADING = /^(#{1,3})\s+(.+?)\s*#*\s*$/;
+const NOTES_LINE = /^\s*notes?:\s*(.*)$/i;
+const COMMENT = /<!--([\s\S]*?)-->/g;
+const LAYOUT_DIRECTIVE = /^\s*layout\s*:\s*([\w-]+)\s*$/i;
+const FRONT_MATTER_LINE = /^\s*([\w-]+)\s*:\s*(.*)$/;
+
+/**
+ * Parse a Markdown deck (slides separated by lines containing only `---`)
+ *
+ * Per slide:
+ * - the first heading (#, ## or ###) is the title
+ * - `<!-- layout: two_column -->` sets the layout
+ * - other HTML comments and everything after a `Notes:` line are speaker notes
+ *
+ * A leading front matter block (`title: ...`) sets the deck title.
+ */
+export function parseMarkdownDeck(
+  markdown: string,
+  fallbackTitle: string = "Import"
+): ImportedDeck {
+  const sections = splitMarkdownSlides(markdown);
+  let deckTitle: string | undefined;
+
+  const frontMatter = sections[0] && parseFrontMatter(sections[0]);
+  if (frontMatter) {
+    deckTitle = frontMatter.title;
+    sections.shift();
+  }
+
+  const drafts = sections.map(parseMarkdownSlide).filter((draft): draft is SlideDraft => !!draft);
+
+  return buildDeck(deckTitle || drafts[0]?.title || fallbackTitle, drafts);
+}
+
+/**
+ * Split markdown at slide separators (outside of code blocks)
+ */
+function splitMarkdownSlides(markdown: string): string[] {
+  const sections: string[][] = [[]];
+  let inFence = false;
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && SLIDE_SEPARATOR.test(line)) {
+      sections.push([]);
+    } else {
+      sections[sections.length - 1]?.push(line);
+    }
+  }
+
+  // A deck may start with a separator (front matter)
+  if (sections.length > 1 && sections[0]?.every((line) => !line.trim())) {
+    sections.shift();
+  }
+
+  return sections.map((lines) => lines.join("\n"));
+}
+
+/**
+ * Parse a front matter section (only `key: value` lines), null otherwise
+ */
+function parseFrontMatter(section: string): { title?: string } | null {
+  const lines = section.split("\n").filter((line) => line.trim());
+  if (lines.length === 0 || !lines.every((line) => FRONT_MATTER_LINE.test(line))) {
+    return null;
+  }
+
+  const titleLine = lines
+    .map((line) => FRONT_MATTER_LINE.exec(line))
+    .find((m) => m?.[1] === "title");
+  return { title: titleLine?.[2]?.trim().replace(/^["']|["']$/g, "") || undefined };
+}
+
+function parseMarkdownSlide(section: string): SlideDraft | null {
+  const notes: string[] = [];
+  let layoutHint: SlideLayout | undefined;
+
+  // Comments: layout directive or speaker notes
+  let body = section.replace(COMMENT, (_match, comment: string) => {
+    const directive = LAYOUT_DIRECTIVE.exec(comment);
+    if (directive) {
+      layoutHint = toLayout(directive[1]);
+    } else if (comment.trim()) {
+      notes.push(comment.trim().replace(/^notes?:\s*/i, ""));
+    }
+    return "";
+  });
+
+  // "Notes:" line (reveal.js style): the rest of the slide is speaker notes
+  const lines = body.split("\n");
+  const notesIndex = lines.findIndex((line) => NOTES_LINE.test(line));
+  if (notesIndex >= 0) {
+    const firstLine = NOTES_LINE.exec(lines[notesIndex] ?? "")?.[1] ?? "";
+    notes.push([firstLine, ...lines.slice(notesIndex + 1)].join("\n").trim());
+    body = lines.slice(0, notesIndex).join("\n");
+  }
+
+  let title = "";
+  let titleLevel: number | undefined;
+  const bodyLines = body.split("\n");
+  const headingIndex = bodyLines.findIndex((line) => TITLE_HEADING.test(line));
+  if (headingIndex >= 0) {
+    const heading = TITLE_HEADING.exec(bodyLines[headingIndex] ?? "");
+    title = heading?.[2] ?? "";
+    titleLevel = heading?.[1]?.length;
+    bodyLines.splice(headingIndex, 1);
+  }
+
+  const content = bodyLines.join("\n").trim();
+  const speakerNotes = notes.filter(Boolean).join("\n\n");
+
+  if (!title && !content) {
+    return null;
+  }
+
+  return {
+    title,
+    content,
+    titleLevel,
+    layoutHint,
+    speakerNotes: speakerNotes || undefined,
+  };
+}
+
+// ============================================
+// Layout Inference
+// ============================================
+
+const IMAGE_LINE = /^\s*!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)\s*$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const ATTRIBUTION = /^\s*(?:—|–|--|-)\s*(.+)$/;
+const QUOTED = /^["“„«](.+)["”“»]$/;
+const BLOCK_SYNTAX = /^\s*([-*+]\s|\d+[.)]\s|\||#{1,6}\s|```|~~~)/;
+
+/**
+ * Infer the layout of a slide
+ *
+ * - layout given by the file
+ * - image: one image with at most a one-line caption
+ * - quote: only block quote lines, or a quoted title with a "— author" line
+ * - title_slide: no body, or at most two plain lines on the first slide
+ *   or below a level 1 heading
+ * - content: everything else
+ */
+export function inferSlideLayout(draft: SlideDraft, index: number): SlideLayout {
+  if (draft.layoutHint && VALID_LAYOUTS.includes(draft.layoutHint)) {
+    return draft.layoutHint;
+  }
+
+  const lines = draft.content.split("\n").filter((line) => line.trim());
+  const images = lines.filter((line) => IMAGE_LINE.test(line));
+  const text = lines.filter((line) => !IMAGE_LINE.test(line));
+
+  if (images.length === 1 && text.length <= 1 && !text.some((line) => BLOCK_SYNTAX.test(line))) {
+    return "image";
+  }
+
+  if (text.length > 0 && images.length === 0 && text.every((line) => QUOTE_LINE.test(line))) {
+    return "quote";
+  }
+
+  if (QUOTED.test(draft.title.trim()) && text.length === 1 && ATTRIBUTION.test(text[0] ?? "")) {
+    return "quote";
+  }
+
+  if (
+    images.length === 0 &&
+    (text.length === 0 ||
+      ((index === 0 || draft.titleLevel === 1) &&
+        text.length <= 2 &&
+        !text.some((line) => BLOCK_SYNTAX.test(line))))
+  ) {
+    return "title_slide";
+  }
+
+  return "content";
+}
+
+/**
+ * Convert a draft to a ParsedSlide (content shaped for its layout)
+ */
+export function toParsedSlide(draft: SlideDraft, index: number): ParsedSlide {
+  const layout = inferSlideLayout(draft, index);
+  let title = draft.title.trim();
+  let content = draft.content.trim();
+  let backgroundImage: string | undefined;
+
+  if (layout === "image") {
+    const lines = content.split("\n").filter((line) => line.trim());
+    const image = lines.map((line) => IMAGE_LINE.exec(line)).find(Boolean);
+    if (image) {
+      backgroundImage = image[2];
+      const caption = lines.filter((line) => !IMAGE_LINE.test(line)).join("\n");
+      content = caption || image[1] || "";
+      title = title || image[1] || "";
+    }
+  }
+
+  // Quote slides show the content as quote and the title as its author
+  if (layout === "quote") {
+    const quotedTitle = QUOTED.exec(title);
+    if (quotedTitle && !QUOTE_LINE.test(content)) {
+      content = `> ${quotedTitle[1]}\n> ${content}`;
+      title = "";
+    }
+
+    const lines = content
+      .split("\n")
+      .map((line) => QUOTE_LINE.exec(line)?.[1] ?? line)
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const attribution = ATTRIBUTION.exec(lines[lines.length - 1] ?? "");
+    if (attribution && lines.length > 1) {
+      lines.pop();
+      title = attribution[1]?.trim() ?? title;
+    }
+    content = lines.join(" ").replace(/^["“„]|["”“]$/g, "");
+  }
+
+  return {
+    title: (title || `Folie ${index + 1}`).slice(0, MAX_TITLE_LENGTH),
+    content,
+    layout,
+    order_index: index,
+    speaker_notes: draft.speakerNotes?.trim() || undefined,
+    background_image: backgroundImage,
+  };
+}
+
+function buildDeck(title: string, drafts: SlideDraft[]): ImportedDeck {
+  if (drafts.length === 0) {
+    throw new ValidationError("No slides found in file", "file");
+  }
+
+  if (drafts.length > MAX_IMPORT_SLIDES) {
+    throw new ValidationError(
+      `Presentation cannot have more than ${MAX_IMPORT_SLIDES} slides (found ${drafts.length})`,
+      "file"
+    );
+  }
+
+  return {
+    title: title.trim().slice(0, MAX_TITLE_LENGTH),
+    slides: drafts.map(toParsedSlide),
+  };
+}
+
+function toLayout(value: string | undefined): SlideLayout | undefined {
+  const layout = value?.toLowerCase().replace(/-/g, "_") as SlideLayout | undefined;
+  return layout && VALID_LAYOUTS.includes(layout) ? layout : undefined;
+}
@@ -0,0 +1,91 @@
+// ============================================
+// Talk Script
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { Slide, TalkScript, TalkScriptSection } from "@/types/slides";
+
+/**
+ * Speaking time of speaker notes and the rehearsal script of a presentation.
+ * Times are estimated from the word count at an average speaking rate.
+ */
+
+/** Average speaking rate of a talk (words per minute) */
+export const WORDS_PER_MINUTE = 130;
+
+export const DEFAULT_SECONDS_PER_SLIDE = 60;
+export const MIN_SECONDS_PER_SLIDE = 10;
+export const MAX_SECONDS_PER_SLIDE = 600;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Words to speak in the given time
+ */
+export function getTargetWords(seconds: number): number {
+  return Math.max(1, Math.round((seconds / 60) * WORDS_PER_MINUTE));
+}
+
+/**
+ * Estimated time (seconds) to speak a text
+ */
+export function estimateSpeakingSeconds(text: string): number {
+  return Math.round((countWords(text) / WORDS_PER_MINUTE) * 60);
+}
+
+/**
+ * Format seconds as timing mark ("02:30", "1:02:30" from one hour)
+ */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${pad(minutes)}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Build the talk script of a presentation from the speaker notes of its slides
+ *
+ * @param slides - Slides of the presentation (any order)
+ * @returns Sections in slide order with start time and duration, and the script text
+ */
+export function buildTalkScript(
+  slides: Array<Pick<Slide, "id" | "order_index" | "title" | "speaker_notes">>
+): TalkScript {
+  let start = 0;
+
+  const sections: TalkScriptSection[] = [...slides]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map((slide) => {
+      const notes = slide.speaker_notes?.trim() ?? "";
+      const section = {
+        slideId: slide.id,
+        orderIndex: slide.order_index,
+        title: slide.title,
+        notes,
+        start,
+        duration: estimateSpeakingSeconds(notes),
+      };
+      start += section.duration;
+      return section;
+    });
+
+  return { sections, totalSeconds: start, text: formatTalkScript(sections, start) };
+}
+
+function formatTalkScript(sections: TalkScriptSection[], totalSeconds: number): string {
+  const parts = sections.map(
+    (section, index) =>
+      `[${formatTimestamp(section.start)}] Folie ${index + 1}: ${section.title}\n\n` +
+      (section.notes || "(Keine Notizen)")
+  );
+
+  return [...parts, `[${formatTimestamp(totalSeconds)}] Ende`].join("\n\n");
+}
@@ -0,0 +1,75 @@
+/**
+ * Masked Edit (Inpainting) Helpers
+ *
+ * Constrains image edits to a user-painted mask: the Gemini edit prompt is told to
+ * change only the masked region, and the edited image is composited onto the original
+ * so pixels outside the mask stay identical.
+ *
+ * Mask format: image of any size, white = editable, black/transparent = keep
+ */
+
+import sharp from "sharp";
+import type { WorkflowImage } from "@/lib/api/workflows/engine";
+
+/**
+ * Adds the mask constraint to an edit prompt
+ * The mask is sent as the image before the current image
+ */
+export function buildMaskedEditPrompt(editPrompt: string): string {
+  return `${editPrompt}
+
+MASKED EDIT - CRITICAL:
+- The second-to-last image is a black-and-white MASK of the last image (the image to edit)
+- ONLY change the area that is WHITE in the mask, apply the requested changes there
+- Everything in the BLACK area must stay exactly as it is (same content, colors, lighting, perspective)
+- Blend the edited area seamlessly into its surroundings
+- Output the complete image with the same framing and aspect ratio as the image to edit`;
+}
+
+/**
+ * Pastes the masked region of the edited image onto the original image
+ *
+ * The edited image and the mask are scaled to the size of the original. The result is a
+ * lossless PNG, so all pixels outside the mask are identical to the original.
+ */
+export async function compositeMaskedEdit(
+  original: WorkflowImage,
+  edited: WorkflowImage,
+  mask: WorkflowImage
+): Promise<WorkflowImage> {
+  const originalBuffer = Buffer.from(original.data, "base64");
+  const { width, height } = await sharp(originalBuffer).metadata();
+
+  if (!width || !height) {
+    throw new Error("Could not determine image dimensions");
+  }
+
+  // Single-channel alpha from the mask (transparent areas count as black)
+  const alpha = await sharp(Buffer.from(mask.data, "base64"))
+    .flatten({ background: "#000000" })
+    .resize(width, height, { fit: "fill" })
+    .toColourspace("b-w")
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+
+  // RGB pixels of the edit (separate pass: removeAlpha would also drop the joined mask)
+  const editedRgb = await sharp(Buffer.from(edited.data, "base64"))
+    .resize(width, height, { fit: "fill" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer();
+
+  const maskedEdit = await sharp(editedRgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  const composite = await sharp(originalBuffer)
+    .composite([{ input: maskedEdit }])
+    .png()
+    .toBuffer();
+
+  return { data: composite.toString("base64"), mimeType: "image/png" };
+}
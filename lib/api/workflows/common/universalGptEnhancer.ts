@@ -337,17 +337,49 @@ OUTPUT ONLY THE PROMPT - no "STEP 1", "STEP 2", analysis sections, or meta-comme
 export async function enhancePromptWithGPT(
   params: EnhancePromptParams
 ): Promise<string> {
-  const { workflowType, userPrompt, sourceImage, settings, referenceImages } =
-    params;
+  const { workflowType, settings, ...images } = params;
 
   // Get workflow configuration
+  const config = getWorkflowConfig(workflowType);
+
+  // Build settings context
+  const settingsContext = buildSettingsContext(workflowType, settings);
+
+  return enhancePromptWithConfig(config, settingsContext, images);
+}
+
+/**
+ * Get the GPT-4 Vision configuration of a workflow
+ *
+ * @throws Error if the workflow type is unknown
+ */
+export function getWorkflowConfig(workflowType: WorkflowType): WorkflowConfig {
   const config = WORKFLOW_CONFIGS[workflowType];
   if (!config) {
     throw new Error(`Unknown workflow type: ${workflowType}`);
   }
 
-  // Build settings context
-  const settingsContext = buildSettingsContext(workflowType, settings);
+  return config;
+}
+
+/**
+ * GPT-4 Vision Prompt Enhancer for a given configuration
+ *
+ * Used by workflow definitions that bring their own configuration
+ * (see lib/api/workflows/engine).
+ *
+ * @param config - System prompt, user prompt template and model options
+ * @param settingsContext - Settings as readable context (see settingsContextBuilders.ts)
+ * @param params - User prompt and images
+ * @returns Enhanced prompt text
+ * @throws Error if GPT-4 API call fails
+ */
+export async function enhancePromptWithConfig(
+  config: Omit<WorkflowConfig, "type">,
+  settingsContext: string,
+  params: Pick<EnhancePromptParams, "userPrompt" | "sourceImage" | "referenceImages">
+): Promise<string> {
+  const { userPrompt, sourceImage, referenceImages } = params;
 
   // Generate user message from template
   const userMessage = config.userPromptTemplate({
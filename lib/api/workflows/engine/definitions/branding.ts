@@ -0,0 +1,64 @@
+/**
+ * Branding Workflow Definition
+ *
+ * Transforms spaces into branded environments (Brand Intelligence).
+ */
+
+import { z } from "zod";
+import {
+  enhanceBrandingPrompt,
+  generateBrandingPrompt,
+  buildBrandedImageToImagePrompt,
+} from "@/lib/api/workflows/sketchToRender";
+import { getWorkflowConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+import { buildBrandingContext } from "@/lib/api/workflows/common/settingsContextBuilders";
+import { generateBrandingFallback } from "@/lib/api/workflows/common/intelligentFallbacks";
+import {
+  BrandingSettingsType,
+  SPACE_TYPE_OPTIONS,
+  ASPECT_RATIO_OPTIONS,
+  VENUE_TYPE_OPTIONS,
+  RENDER_STYLE_OPTIONS,
+  TIME_OF_DAY_OPTIONS,
+  QUALITY_OPTIONS,
+} from "@/types/workflows/brandingSettings";
+import type { WorkflowDefinition } from "../types";
+
+const settingsSchema = z
+  .object({
+    spaceType: z.enum(SPACE_TYPE_OPTIONS).nullish(),
+    aspectRatio: z.enum(ASPECT_RATIO_OPTIONS).nullish(),
+    venueType: z.enum(VENUE_TYPE_OPTIONS).nullish(),
+    brandingText: z.string().max(200).nullish(),
+    renderStyle: z.enum(RENDER_STYLE_OPTIONS).nullish(),
+    timeOfDay: z.enum(TIME_OF_DAY_OPTIONS).nullish(),
+    quality: z.enum(QUALITY_OPTIONS).nullish(),
+    structureFidelity: z.number().min(0).max(100).nullish(),
+    preserveEmptySpace: z.boolean().nullish(),
+  })
+  .passthrough();
+
+export const brandingWorkflow = {
+  slug: "branding",
+  name: "Branding",
+  tableName: "branding",
+  settingsSchema,
+  buildSettingsContext: buildBrandingContext,
+  enhancer: getWorkflowConfig("branding"),
+  fallbackPrompt: generateBrandingFallback,
+
+  // Brand Intelligence + GPT-4o Vision (Two-Stage)
+  buildPrompt: ({ prompt, sourceImage, referenceImages, settings }) =>
+    enhanceBrandingPrompt({
+      userPrompt: prompt || "Transform this space into a branded environment",
+      sourceImage,
+      settings,
+      referenceImages,
+    }),
+
+  buildGenerationPrompt: buildBrandedImageToImagePrompt,
+
+  // T-Button also uses the Two-Stage enhancement for better brand accuracy
+  generatePrompt: ({ prompt, sourceImage, referenceImages, settings }) =>
+    generateBrandingPrompt(prompt || null, sourceImage, settings, referenceImages),
+} satisfies WorkflowDefinition<BrandingSettingsType>;
@@ -0,0 +1,118 @@
+/**
+ * Furnish-Empty Workflow Definition
+ *
+ * Furnishes empty rooms (virtual staging). Furniture images are the
+ * reference images of this workflow.
+ */
+
+import { z } from "zod";
+import { generateFurnishEmptyPrompt } from "@/lib/api/workflows/furnishEmpty/promptGenerator";
+import { getWorkflowConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+import { buildFurnishEmptyContext } from "@/lib/api/workflows/common/settingsContextBuilders";
+import { generateFurnishEmptyFallback } from "@/lib/api/workflows/common/intelligentFallbacks";
+import {
+  FurnishEmptySettingsType,
+  DEFAULT_FURNISH_EMPTY_SETTINGS as DEFAULTS,
+} from "@/types/workflows/furnishEmptySettings";
+import type { WorkflowDefinition } from "../types";
+
+const settingsSchema = z
+  .object({
+    spaceType: z
+      .enum([
+        "living_room",
+        "bedroom",
+        "kitchen",
+        "dining_room",
+        "office",
+        "bathroom",
+        "kids_room",
+        "guest_room",
+        "hallway",
+        "balcony",
+        "terrace",
+      ])
+      .default(DEFAULTS.spaceType),
+    furnishingStyle: z
+      .enum([
+        "modern",
+        "scandinavian",
+        "minimalist",
+        "industrial",
+        "boho",
+        "farmhouse",
+        "mid_century",
+        "classic",
+        "luxury",
+        "japandi",
+        "coastal",
+        "rustic",
+      ])
+      .default(DEFAULTS.furnishingStyle),
+    colorScheme: z
+      .enum([
+        "neutral",
+        "warm",
+        "cool",
+        "monochrome",
+        "natural",
+        "colorful",
+        "dark",
+        "light",
+        "organic",
+        "earthy",
+        "pastel",
+        "bold",
+      ])
+      .default(DEFAULTS.colorScheme),
+    furnitureDensity: z
+      .enum(["minimal", "normal", "full", "luxury"])
+      .default(DEFAULTS.furnitureDensity),
+    lighting: z
+      .enum(["natural_daylight", "warm_evening", "bright_artificial", "cozy", "dramatic"])
+      .default(DEFAULTS.lighting),
+    targetAudience: z
+      .enum([
+        "family",
+        "single",
+        "couple",
+        "seniors",
+        "students",
+        "luxury_buyers",
+        "first_time_renters",
+      ])
+      .default(DEFAULTS.targetAudience),
+    materials: z
+      .array(
+        z.enum([
+          "wood",
+          "metal",
+          "glass",
+          "stone",
+          "fabric",
+          "leather",
+          "concrete",
+          "marble",
+          "ceramic",
+          "rattan",
+          "velvet",
+          "linen",
+        ])
+      )
+      .default(DEFAULTS.materials),
+    structureAdherence: z.number().min(0).max(100).default(DEFAULTS.structureAdherence),
+  })
+  .passthrough();
+
+export const furnishEmptyWorkflow = {
+  slug: "furnish-empty",
+  name: "Furnish-Empty",
+  tableName: "furnish_empty",
+  settingsSchema,
+  referenceImageField: "furnitureImages",
+  buildSettingsContext: buildFurnishEmptyContext,
+  enhancer: getWorkflowConfig("furnish-empty"),
+  fallbackPrompt: generateFurnishEmptyFallback,
+
+  buildPrompt: async ({ prompt, settings }) => generateFurnishEmptyPrompt(settings, prompt),
+} satisfies WorkflowDefinition<FurnishEmptySettingsType>;
@@ -0,0 +1,36 @@
+/**
+ * Render-to-CAD Workflow Definition
+ *
+ * Converts renderings/photos to CAD drawings. No reference images.
+ */
+
+import { z } from "zod";
+import { generateRenderToCadPrompt } from "@/lib/api/workflows/renderToCad/promptGenerator";
+import { getWorkflowConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+import { buildRenderToCadContext } from "@/lib/api/workflows/common/settingsContextBuilders";
+import {
+  RenderToCadSettingsType,
+  DEFAULT_RENDER_TO_CAD_SETTINGS as DEFAULTS,
+} from "@/types/workflows/renderToCadSettings";
+import type { WorkflowDefinition } from "../types";
+
+const settingsSchema = z
+  .object({
+    outputType: z.enum(["with_metadata", "without_metadata"]).default(DEFAULTS.outputType),
+    detailLevel: z.enum(["overview", "standard", "detailed"]).default(DEFAULTS.detailLevel),
+  })
+  .passthrough();
+
+export const renderToCadWorkflow = {
+  slug: "render-to-cad",
+  name: "Render-to-CAD",
+  tableName: "render_to_cad",
+  settingsSchema,
+  buildSettingsContext: buildRenderToCadContext,
+  enhancer: getWorkflowConfig("render-to-cad"),
+
+  // The static CAD prompt generator is precise enough to serve as fallback
+  fallbackPrompt: generateRenderToCadPrompt,
+
+  buildPrompt: async ({ prompt, settings }) => generateRenderToCadPrompt(prompt, settings),
+} satisfies WorkflowDefinition<RenderToCadSettingsType>;
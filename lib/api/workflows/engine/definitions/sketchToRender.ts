@@ -0,0 +1,73 @@
+/**
+ * Sketch-to-Render Workflow Definition
+ *
+ * Transforms sketches into photorealistic renderings.
+ */
+
+import { z } from "zod";
+import {
+  enhanceSketchToRenderPrompt,
+  buildArchitecturalPrompt,
+  buildImageToImagePrompt,
+  buildVariantMatrix,
+  countBatchVariants,
+  getSharedSettings,
+} from "@/lib/api/workflows/sketchToRender";
+import { getWorkflowConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+import { buildSketchToRenderContext } from "@/lib/api/workflows/common/settingsContextBuilders";
+import { generateSketchToRenderFallback } from "@/lib/api/workflows/common/intelligentFallbacks";
+import {
+  SketchToRenderSettingsType,
+  SPACE_TYPE_OPTIONS,
+  ASPECT_RATIO_OPTIONS,
+  DESIGN_STYLE_OPTIONS,
+  RENDER_STYLE_OPTIONS,
+  TIME_OF_DAY_OPTIONS,
+  SEASON_OPTIONS,
+  WEATHER_OPTIONS,
+  QUALITY_OPTIONS,
+} from "@/types/workflows/sketchToRenderSettings";
+import type { WorkflowDefinition } from "../types";
+
+const settingsSchema = z
+  .object({
+    spaceType: z.enum(SPACE_TYPE_OPTIONS).nullish(),
+    aspectRatio: z.enum(ASPECT_RATIO_OPTIONS).nullish(),
+    designStyle: z.enum(DESIGN_STYLE_OPTIONS).nullish(),
+    renderStyle: z.enum(RENDER_STYLE_OPTIONS).nullish(),
+    timeOfDay: z.enum(TIME_OF_DAY_OPTIONS).nullish(),
+    season: z.enum(SEASON_OPTIONS).nullish(),
+    weather: z.enum(WEATHER_OPTIONS).nullish(),
+    quality: z.enum(QUALITY_OPTIONS).nullish(),
+  })
+  .passthrough();
+
+export const sketchToRenderWorkflow = {
+  slug: "sketch-to-render",
+  name: "Sketch-to-Render",
+  tableName: "sketch_to_render",
+  settingsSchema,
+  buildSettingsContext: buildSketchToRenderContext,
+  enhancer: getWorkflowConfig("sketch-to-render"),
+  fallbackPrompt: generateSketchToRenderFallback,
+
+  // GPT-4o Vision analyzes the sketch structure
+  buildPrompt: ({ prompt, sourceImage, referenceImages, settings }) =>
+    enhanceSketchToRenderPrompt(
+      prompt || "photorealistic architectural rendering",
+      sourceImage,
+      settings,
+      referenceImages
+    ),
+
+  // Structure preservation rules Gemini ALWAYS sees, regardless of GPT-4o output
+  buildGenerationPrompt: (prompt) => buildImageToImagePrompt(prompt),
+
+  // Renders one sketch with many setting combinations (e.g. morning vs evening vs night)
+  batch: {
+    countVariants: countBatchVariants,
+    buildVariants: buildVariantMatrix,
+    getSharedSettings,
+    buildVariantPrompt: (settings) => buildArchitecturalPrompt("", settings),
+  },
+} satisfies WorkflowDefinition<SketchToRenderSettingsType>;
@@ -0,0 +1,111 @@
+/**
+ * Style-Transfer Workflow Definition
+ *
+ * Transfers an architectural style (preset or reference image) onto a design.
+ */
+
+import { z } from "zod";
+import { apiLogger } from "@/lib/logger";
+import {
+  generateStyleTransferPrompt,
+  generateReferencePromptWithStyleAnalysis,
+} from "@/lib/api/workflows/styleTransfer/promptGenerator";
+import {
+  analyzeReferenceImage,
+  getDefaultStyleDescription,
+} from "@/lib/api/workflows/styleTransfer/styleAnalyzer";
+import { analyzeSourceImage, formatAnalysisForPrompt } from "@/lib/ai/sourceImageAnalyzer";
+import { getWorkflowConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+import { buildStyleTransferContext } from "@/lib/api/workflows/common/settingsContextBuilders";
+import { generateStyleTransferFallback } from "@/lib/api/workflows/common/intelligentFallbacks";
+import {
+  StyleTransferSettingsType,
+  DEFAULT_STYLE_TRANSFER_SETTINGS as DEFAULTS,
+} from "@/types/workflows/styleTransferSettings";
+import type { WorkflowDefinition, WorkflowInput } from "../types";
+
+const settingsSchema = z
+  .object({
+    mode: z.enum(["preset", "reference"]).default(DEFAULTS.mode),
+    spaceType: z.enum(["interieur", "exterieur"]).default(DEFAULTS.spaceType),
+    architecturalStyle: z
+      .enum(["mediterran", "ikea", "minimalistisch", "modern", "mittelalterlich", "industrial"])
+      .default(DEFAULTS.architecturalStyle),
+    timeOfDay: z
+      .enum(["morgen", "mittag", "abend", "nacht", "daemmerung", "golden_hour"])
+      .default(DEFAULTS.timeOfDay),
+    weather: z
+      .enum(["sonnig", "bewoelkt", "regen", "schnee", "nebel", "sturm"])
+      .default(DEFAULTS.weather),
+    renderStyle: z
+      .enum(["fotorealistisch", "skizze", "wasserfarben", "blaupause", "kuenstlerisch"])
+      .default(DEFAULTS.renderStyle),
+    structurePreservation: z.number().min(0).max(100).default(DEFAULTS.structurePreservation),
+    styleIntensity: z.number().min(0).max(100).default(DEFAULTS.styleIntensity),
+  })
+  .passthrough();
+
+/**
+ * Builds the transformation prompt
+ *
+ * 1. Analyzes the SOURCE image (what is)
+ * 2. Preset mode: prompt from the presets (style, time, weather)
+ *    Reference mode: analyzes the reference style and transfers it
+ */
+async function buildStyleTransferPrompt({
+  prompt,
+  sourceImage,
+  referenceImages,
+  settings,
+}: WorkflowInput<StyleTransferSettingsType>): Promise<string> {
+  let sourceImageDescription: string | undefined;
+  try {
+    const sourceAnalysis = await analyzeSourceImage(
+      sourceImage.data,
+      sourceImage.mimeType,
+      "style-transfer"
+    );
+    sourceImageDescription = formatAnalysisForPrompt(sourceAnalysis);
+  } catch (error) {
+    apiLogger.warn(
+      "Style-Transfer: Source image analysis failed, proceeding without description",
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const referenceImage = referenceImages[0];
+  if (!referenceImage) {
+    return generateStyleTransferPrompt(settings, false, prompt);
+  }
+
+  let styleDescription = getDefaultStyleDescription();
+  try {
+    styleDescription = await analyzeReferenceImage(referenceImage.data, referenceImage.mimeType);
+  } catch (error) {
+    apiLogger.warn(
+      "Style-Transfer: Style analysis failed, using default description",
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return generateReferencePromptWithStyleAnalysis(
+    settings,
+    styleDescription,
+    prompt,
+    sourceImageDescription
+  );
+}
+
+export const styleTransferWorkflow = {
+  slug: "style-transfer",
+  name: "Style-Transfer",
+  tableName: "style_transfer",
+  settingsSchema,
+  buildSettingsContext: buildStyleTransferContext,
+  enhancer: getWorkflowConfig("style-transfer"),
+  fallbackPrompt: generateStyleTransferFallback,
+  buildPrompt: buildStyleTransferPrompt,
+
+  // T-Button shows the same imperative transformation prompt
+  generatePrompt: buildStyleTransferPrompt,
+} satisfies WorkflowDefinition<StyleTransferSettingsType>;
@@ -0,0 +1,30 @@
+/**
+ * Workflow Engine
+ *
+ * Definition-driven implementation of the image workflows.
+ *
+ * @example
+ * ```typescript
+ * import { getWorkflowDefinition, buildWorkflowPrompt } from "@/lib/api/workflows/engine";
+ * ```
+ */
+
+export { getWorkflowDefinition, listWorkflowDefinitions } from "./registry";
+export { parseWorkflowInput, parseWorkflowSettings, toImageArray } from "./input";
+export { buildWorkflowPrompt, generateWorkflowPrompt } from "./prompts";
+
+export { sketchToRenderWorkflow } from "./definitions/sketchToRender";
+export { brandingWorkflow } from "./definitions/branding";
+export { furnishEmptyWorkflow } from "./definitions/furnishEmpty";
+export { styleTransferWorkflow } from "./definitions/styleTransfer";
+export { renderToCadWorkflow } from "./definitions/renderToCad";
+
+export type { ParseWorkflowInputResult, ParseWorkflowSettingsResult } from "./input";
+export type {
+  WorkflowBatch,
+  WorkflowDefinition,
+  WorkflowImage,
+  WorkflowInput,
+  WorkflowVariant,
+  WorkflowVariations,
+} from "./types";
@@ -0,0 +1,85 @@
+/**
+ * Workflow Request Parsing
+ *
+ * Validates images and settings of generation and T-Button requests
+ * against a workflow definition.
+ */
+
+import { validateImages } from "@/lib/api/workflows/sketchToRender";
+import type { WorkflowDefinition, WorkflowImage, WorkflowInput } from "./types";
+
+export type ParseWorkflowSettingsResult =
+  { valid: true; settings: Record<string, unknown> } | { valid: false; error: string };
+
+export type ParseWorkflowInputResult =
+  { valid: true; input: WorkflowInput } | { valid: false; error: string };
+
+/**
+ * Normalizes a single image or an array of images to an array
+ */
+export function toImageArray(value: unknown): unknown[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Validates settings against the settings schema of a workflow
+ * (defaults of the schema are applied)
+ */
+export function parseWorkflowSettings(
+  definition: WorkflowDefinition,
+  settings: unknown
+): ParseWorkflowSettingsResult {
+  const result = definition.settingsSchema.safeParse(settings);
+  if (result.success) {
+    return { valid: true, settings: result.data };
+  }
+
+  const issue = result.error.issues[0];
+  return {
+    valid: false,
+    error: issue
+      ? `Invalid settings: ${issue.path.join(".") || "settings"} - ${issue.message}`
+      : "Invalid settings",
+  };
+}
+
+/**
+ * Parses the request body of a generation or T-Button request
+ *
+ * @param definition - Workflow definition
+ * @param body - Parsed JSON body
+ * @param promptField - Body field of the user prompt ("prompt" or "userPrompt")
+ * @param clientId - Client ID for logging
+ */
+export function parseWorkflowInput(
+  definition: WorkflowDefinition,
+  body: Record<string, unknown>,
+  promptField: "prompt" | "userPrompt",
+  clientId: string
+): ParseWorkflowInputResult {
+  const referenceImages = toImageArray(body[definition.referenceImageField ?? "referenceImage"]);
+
+  const validation = validateImages(body.sourceImage, referenceImages);
+  if (!validation.valid) {
+    return { valid: false, error: validation.error || "Invalid images" };
+  }
+
+  const settingsResult = parseWorkflowSettings(definition, body.settings ?? {});
+  if (!settingsResult.valid) {
+    return settingsResult;
+  }
+
+  const prompt = body[promptField];
+
+  return {
+    valid: true,
+    input: {
+      prompt: typeof prompt === "string" ? prompt : "",
+      sourceImage: body.sourceImage as WorkflowImage,
+      referenceImages: referenceImages as WorkflowImage[],
+      settings: settingsResult.settings,
+      clientId,
+    },
+  };
+}
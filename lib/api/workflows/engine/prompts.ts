@@ -0,0 +1,74 @@
+/**
+ * Workflow Prompt Generation
+ *
+ * Generation and T-Button prompts of a workflow definition, including
+ * the fallback when GPT-4o is unavailable.
+ */
+
+import { apiLogger } from "@/lib/logger";
+import { enhancePromptWithConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+import type { WorkflowDefinition, WorkflowInput } from "./types";
+
+/**
+ * Builds the prompt of the "Generate" button
+ *
+ * @returns The enhanced prompt and the final prompt sent to Gemini
+ */
+export async function buildWorkflowPrompt(
+  definition: WorkflowDefinition,
+  input: WorkflowInput
+): Promise<{ enhancedPrompt: string; finalPrompt: string }> {
+  let enhancedPrompt: string;
+
+  try {
+    enhancedPrompt = await definition.buildPrompt(input);
+
+    apiLogger.debug(`${definition.name}: Prompt enhanced`, {
+      clientId: input.clientId,
+      originalLength: input.prompt.length,
+      enhancedLength: enhancedPrompt.length,
+    });
+  } catch (error) {
+    apiLogger.warn(`${definition.name}: Prompt enhancement failed, using fallback`, {
+      clientId: input.clientId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    enhancedPrompt = definition.fallbackPrompt(input.prompt, input.settings);
+  }
+
+  const finalPrompt = definition.buildGenerationPrompt
+    ? definition.buildGenerationPrompt(enhancedPrompt, input.settings)
+    : enhancedPrompt;
+
+  return { enhancedPrompt, finalPrompt };
+}
+
+/**
+ * Generates the prompt of the T-Button
+ */
+export async function generateWorkflowPrompt(
+  definition: WorkflowDefinition,
+  input: WorkflowInput
+): Promise<string> {
+  try {
+    if (definition.generatePrompt) {
+      return await definition.generatePrompt(input);
+    }
+
+    return await enhancePromptWithConfig(
+      definition.enhancer,
+      definition.buildSettingsContext(input.settings),
+      {
+        userPrompt: input.prompt,
+        sourceImage: input.sourceImage,
+        referenceImages: input.referenceImages,
+      }
+    );
+  } catch (error) {
+    apiLogger.warn(`T-Button: ${definition.name} prompt generation failed, using fallback`, {
+      clientId: input.clientId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return definition.fallbackPrompt(input.prompt, input.settings);
+  }
+}
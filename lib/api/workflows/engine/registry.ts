@@ -0,0 +1,38 @@
+/**
+ * Workflow Registry
+ *
+ * All workflows served by /api/workflows/[workflow].
+ */
+
+import { sketchToRenderWorkflow } from "./definitions/sketchToRender";
+import { brandingWorkflow } from "./definitions/branding";
+import { furnishEmptyWorkflow } from "./definitions/furnishEmpty";
+import { styleTransferWorkflow } from "./definitions/styleTransfer";
+import { renderToCadWorkflow } from "./definitions/renderToCad";
+import type { WorkflowDefinition } from "./types";
+
+// Each definition is checked against its own settings type (satisfies),
+// the engine only works with the generic shape
+const WORKFLOWS: WorkflowDefinition[] = [
+  sketchToRenderWorkflow,
+  brandingWorkflow,
+  furnishEmptyWorkflow,
+  styleTransferWorkflow,
+  renderToCadWorkflow,
+];
+
+const WORKFLOWS_BY_SLUG = new Map(WORKFLOWS.map((workflow) => [workflow.slug, workflow]));
+
+/**
+ * Returns the workflow definition for a URL slug, or null if unknown
+ */
+export function getWorkflowDefinition(slug: string): WorkflowDefinition | null {
+  return WORKFLOWS_BY_SLUG.get(slug) ?? null;
+}
+
+/**
+ * Returns all registered workflow definitions
+ */
+export function listWorkflowDefinitions(): WorkflowDefinition[] {
+  return [...WORKFLOWS];
+}
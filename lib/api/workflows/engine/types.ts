@@ -0,0 +1,122 @@
+/**
+ * Workflow Engine Types
+ *
+ * A workflow definition describes everything that differs between the image
+ * workflows (settings, prompts, database table). The generic routes under
+ * /api/workflows/[workflow] are driven by these definitions.
+ */
+
+import type { z } from "zod";
+import type { WorkflowConfig } from "@/lib/api/workflows/common/universalGptEnhancer";
+
+/**
+ * Base64 image as sent by the workflow pages
+ */
+export interface WorkflowImage {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Validated input of a generation or T-Button request
+ */
+export interface WorkflowInput<TSettings = Record<string, unknown>> {
+  /** User prompt ("" if none) */
+  prompt: string;
+  /** Image to transform (always the LAST image sent to Gemini) */
+  sourceImage: WorkflowImage;
+  /** Reference images (style, furniture, ...) */
+  referenceImages: WorkflowImage[];
+  /** Settings, validated against the settings schema */
+  settings: TSettings;
+  clientId: string;
+}
+
+/**
+ * Values to try per setting - a batch renders every combination
+ */
+export type WorkflowVariations<TSettings = Record<string, unknown>> = {
+  [K in keyof TSettings]?: unknown[];
+};
+
+/**
+ * A single variant of a batch
+ */
+export interface WorkflowVariant<TSettings = Record<string, unknown>> {
+  /** Full settings of the variant (base settings with the variation applied) */
+  settings: TSettings;
+  /** Varied settings only */
+  variation: Partial<TSettings>;
+  /** Display label of the variation (e.g. "Evening · Modern") */
+  label: string;
+}
+
+/**
+ * Batch generation of a workflow (POST /api/workflows/[workflow]/batch)
+ */
+export interface WorkflowBatch<TSettings = Record<string, unknown>> {
+  /** Number of variants a batch would render */
+  countVariants(variations: WorkflowVariations<TSettings>): number;
+
+  /** Settings of every variant (all combinations of the variations) */
+  buildVariants(
+    settings: TSettings,
+    variations: WorkflowVariations<TSettings>
+  ): WorkflowVariant<TSettings>[];
+
+  /** Settings shared by all variants, used for the single prompt enhancement of the batch */
+  getSharedSettings(settings: TSettings, variations: WorkflowVariations<TSettings>): TSettings;
+
+  /** Settings of a variant as prompt text, appended to the shared prompt */
+  buildVariantPrompt(settings: TSettings): string;
+}
+
+/**
+ * Workflow Definition
+ *
+ * Adding a workflow means adding one definition in ./definitions and
+ * registering it in ./registry.ts.
+ */
+export interface WorkflowDefinition<TSettings = Record<string, unknown>> {
+  /** URL segment, e.g. "sketch-to-render" for /api/workflows/sketch-to-render */
+  slug: string;
+
+  /** Display name, used in logs */
+  name: string;
+
+  /** Supabase table of the saved generations */
+  tableName: string;
+
+  /** Schema the settings of every request are validated against */
+  settingsSchema: z.ZodType<TSettings, z.ZodTypeDef, unknown>;
+
+  /** Request body field of the reference images (single image or array), default "referenceImage" */
+  referenceImageField?: string;
+
+  /** Settings as readable context for GPT-4o (see settingsContextBuilders.ts) */
+  buildSettingsContext(settings: TSettings): string;
+
+  /** GPT-4o Vision configuration of the T-Button */
+  enhancer: Omit<WorkflowConfig, "type">;
+
+  /** Prompt from settings without any API call (see intelligentFallbacks.ts) */
+  fallbackPrompt(userPrompt: string, settings: TSettings): string;
+
+  /**
+   * Prompt of the "Generate" button
+   * If it throws, the fallback prompt is used instead.
+   */
+  buildPrompt(input: WorkflowInput<TSettings>): Promise<string>;
+
+  /** Wraps the prompt for Gemini (e.g. structure preservation rules), optional */
+  buildGenerationPrompt?(prompt: string, settings: TSettings): string;
+
+  /**
+   * Prompt of the T-Button, optional
+   * Defaults to GPT-4o Vision with `enhancer`, falling back to `fallbackPrompt`.
+   */
+  generatePrompt?(input: WorkflowInput<TSettings>): Promise<string>;
+
+  /** Batch generation, optional (workflows without it answer batch requests with 404) */
+  batch?: WorkflowBatch<TSettings>;
+}
@@ -0,0 +1,127 @@
+/**
+ * Batch Generation for Sketch-to-Render Workflow
+ *
+ * Expands a base settings object and a matrix of variations into the
+ * settings of every variant (one rendering per combination).
+ */
+
+import {
+  SketchToRenderSettingsType,
+  SketchToRenderVariationKey,
+  SketchToRenderVariations,
+  SKETCH_TO_RENDER_SETTINGS_LABELS,
+} from "@/types/workflows/sketchToRenderSettings";
+
+/**
+ * Most variants rendered by one batch
+ * Every variant is charged to the image generation rate limit (5 images per minute)
+ */
+export const MAX_BATCH_VARIANTS = 5;
+
+/** Gemini generations running at the same time */
+export const BATCH_CONCURRENCY = 3;
+
+const VARIATION_KEYS: SketchToRenderVariationKey[] = [
+  "spaceType",
+  "aspectRatio",
+  "designStyle",
+  "renderStyle",
+  "timeOfDay",
+  "season",
+  "weather",
+  "quality",
+];
+
+/**
+ * A single variant of a batch
+ */
+export interface SketchToRenderVariant {
+  /** Full settings of the variant (base settings with the variation applied) */
+  settings: SketchToRenderSettingsType;
+  /** Varied settings only */
+  variation: Partial<SketchToRenderSettingsType>;
+  /** Display label of the variation (e.g. "Evening · Modern") */
+  label: string;
+}
+
+/**
+ * Get the varied settings (keys with at least one value), without duplicate values
+ */
+function getVariedEntries(variations: SketchToRenderVariations): Array<[string, string[]]> {
+  return VARIATION_KEYS.flatMap((key) => {
+    const values = variations[key];
+    if (!Array.isArray(values) || values.length === 0) {
+      return [];
+    }
+    return [[key, [...new Set(values as string[])]] as [string, string[]]];
+  });
+}
+
+/**
+ * Counts the variants a batch would render
+ *
+ * @param variations - Values to try per setting
+ * @returns Number of combinations (1 without variations)
+ */
+export function countBatchVariants(variations: SketchToRenderVariations): number {
+  return getVariedEntries(variations).reduce((count, [, values]) => count * values.length, 1);
+}
+
+/**
+ * Builds the settings of every variant (all combinations of the variations)
+ *
+ * @param baseSettings - Settings shared by all variants
+ * @param variations - Values to try per setting
+ * @returns Variants in matrix order (first setting varies slowest)
+ *
+ * @example
+ * ```typescript
+ * buildVariantMatrix(
+ *   { designStyle: "modern", timeOfDay: "midday" },
+ *   { timeOfDay: ["morning", "night"] }
+ * );
+ * // [{ settings: { designStyle: "modern", timeOfDay: "morning" }, ... },
+ * //  { settings: { designStyle: "modern", timeOfDay: "night" }, ... }]
+ * ```
+ */
+export function buildVariantMatrix(
+  baseSettings: SketchToRenderSettingsType,
+  variations: SketchToRenderVariations
+): SketchToRenderVariant[] {
+  let combinations: Array<Partial<SketchToRenderSettingsType>> = [{}];
+
+  for (const [key, values] of getVariedEntries(variations)) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [key]: value }))
+    );
+  }
+
+  return combinations.map((variation) => ({
+    settings: { ...baseSettings, ...variation },
+    variation,
+    label: Object.entries(variation)
+      .map(([key, value]) => SKETCH_TO_RENDER_SETTINGS_LABELS[key]?.[value as string] ?? value)
+      .join(" · "),
+  }));
+}
+
+/**
+ * Gets the settings shared by all variants (base settings without the varied ones)
+ * Used for the single GPT-4o structure analysis of the batch
+ *
+ * @param baseSettings - Settings of the batch
+ * @param variations - Values to try per setting
+ * @returns Base settings with the varied settings removed
+ */
+export function getSharedSettings(
+  baseSettings: SketchToRenderSettingsType,
+  variations: SketchToRenderVariations
+): SketchToRenderSettingsType {
+  const shared = { ...baseSettings };
+
+  for (const [key] of getVariedEntries(variations)) {
+    delete shared[key];
+  }
+
+  return shared;
+}
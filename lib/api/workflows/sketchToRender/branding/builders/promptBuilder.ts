@@ -150,3 +150,42 @@ export function buildEnhancementUserMessage(
 
   return message;
 }
+
+/**
+ * Builds the final image-to-image prompt for Gemini
+ *
+ * Prepends the structure preservation and branding rules to the enhanced
+ * prompt, so Gemini ALWAYS sees them regardless of the GPT-4o output.
+ */
+export function buildBrandedImageToImagePrompt(
+  enhancedPrompt: string,
+  settings?: BrandingSettingsType
+): string {
+  const brandContext = settings?.brandingText
+    ? `\n\nBRAND: ${settings.brandingText}${settings?.venueType ? ` ${settings.venueType}` : ""}`
+    : "";
+
+  // Empty space instruction and layout preservation level
+  const emptySpaceInstruction = settings?.preserveEmptySpace
+    ? "\n- PRESERVE empty/minimal spaces - do NOT add furniture or decorations to empty areas"
+    : "\n- TRANSFORM EMPTY SPACES INTO FURNISHED AREAS - add furniture (sofas, chairs, tables, shelving, display cases), decorations (artwork, plants, sculptures, textiles), product displays, lighting fixtures (chandeliers, lamps, spotlights, track lighting), rugs, seating areas, and brand merchandising to ALL empty walls and floor areas. Fill the space with objects and furnishings that create a complete branded environment.";
+  const layoutPreservation = settings?.preserveEmptySpace
+    ? "- EXACT same layout, proportions, composition, and framing"
+    : "- Maintain SIMILAR layout and spatial proportions, but ADD furniture, displays, and decorations to fill empty areas";
+
+  return `IMAGE-TO-IMAGE BRANDED RENDERING: Transform this space into a FULLY PHOTOREALISTIC branded environment.${brandContext}
+
+CRITICAL RULES:
+- Use the EXACT camera angle, perspective, viewpoint from the source image (last image)
+${layoutPreservation}
+- COMPLETELY PHOTOREALISTIC - NO sketch lines, NO drawing lines, NO line art visible
+- Replace ALL elements with photorealistic materials, lighting, and textures
+- The output must look like a REAL PHOTOGRAPH, not a drawing or sketch
+- HIDE all construction lines, guide lines, and sketch marks
+- Apply realistic surface details, reflections, and shadows
+- INTEGRATE brand identity: colors, logos, materials, signature design elements${emptySpaceInstruction}
+
+${enhancedPrompt}
+
+REMINDER: Fully photorealistic branded space with ZERO visible sketch lines.`;
+}
@@ -167,5 +167,7 @@ export async function generateBrandingPrompt(
   }
 }
 
+export { buildBrandedImageToImagePrompt } from "./builders/promptBuilder";
+
 // Re-export types for convenience
 export type { BrandingEnhancementOptions, BrandingPromptGenerationOptions, ImageData };
@@ -19,9 +19,21 @@
 // Prompt Building
 export {
   buildArchitecturalPrompt,
+  buildImageToImagePrompt,
   validateRenderSettings,
 } from "./promptBuilder";
 
+// Batch Generation
+export {
+  buildVariantMatrix,
+  countBatchVariants,
+  getSharedSettings,
+  MAX_BATCH_VARIANTS,
+  BATCH_CONCURRENCY,
+} from "./batch";
+
+export type { SketchToRenderVariant } from "./batch";
+
 // Image Processing
 export {
   prepareImagesForGeneration,
@@ -58,4 +70,5 @@ export { generateSketchToRenderPrompt } from "./promptGenerator";
 export {
   enhanceBrandingPrompt,
   generateBrandingPrompt,
+  buildBrandedImageToImagePrompt,
 } from "./branding";
@@ -229,3 +229,29 @@ export function validateRenderSettings(settings: SketchToRenderSettingsType): {
     errors,
   };
 }
+
+/**
+ * Builds the final Gemini prompt for image-to-image rendering
+ *
+ * Prepends the structure preservation instructions directly, so Gemini ALWAYS
+ * sees them regardless of the GPT-4o output. The source image must be the LAST image.
+ *
+ * @param enhancedPrompt - Prompt from GPT-4o (or the buildArchitecturalPrompt fallback)
+ * @returns Prompt to send to Gemini with the images
+ */
+export function buildImageToImagePrompt(enhancedPrompt: string): string {
+  return `IMAGE-TO-IMAGE RENDERING: Transform this sketch into a FULLY PHOTOREALISTIC rendering.
+
+CRITICAL RULES:
+- Use the EXACT camera angle, perspective, viewpoint from the source image (last image)
+- EXACT same layout, proportions, composition, and framing
+- COMPLETELY PHOTOREALISTIC - NO sketch lines, NO drawing lines, NO line art visible
+- Replace ALL sketch elements with photorealistic materials, lighting, and textures
+- The output must look like a REAL PHOTOGRAPH, not a drawing
+- HIDE all construction lines, guide lines, and sketch marks
+- Apply realistic surface details, reflections, and shadows
+
+${enhancedPrompt}
+
+REMINDER: Fully photorealistic output with ZERO visible sketch lines.`;
+}
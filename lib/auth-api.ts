@@ -5,9 +5,10 @@
  * Use these helpers in your API routes to ensure secure access.
  */
 
-import { NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { logger } from "./logger";
+import { isTeamMember } from "./supabase-teams";
 
 export interface AuthUser {
   id: string;
@@ -203,3 +204,41 @@ export async function checkResourceOwnership(
 
   return user.id === resourceUserId;
 }
+
+/**
+ * Check that the signed-in user is a member of a team
+ *
+ * Use this before sharing records with a team or listing a team's records -
+ * never check the membership of a userId from the query or body.
+ *
+ * @param request - The Next.js request object
+ * @param teamId - The team to check
+ * @returns An error response (401 not signed in, 403 not a member), or null if the user is a member
+ *
+ * @example
+ * ```typescript
+ * if (teamId) {
+ *   const teamError = await checkTeamMembership(request, teamId);
+ *   if (teamError) return teamError;
+ * }
+ * ```
+ */
+export async function checkTeamMembership(
+  request: NextRequest,
+  teamId: string
+): Promise<NextResponse | null> {
+  const user = await getAuthUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  if (!(await isTeamMember(teamId, user.id))) {
+    return NextResponse.json({ error: "Not a member of the team" }, { status: 403 });
+  }
+
+  return null;
+}
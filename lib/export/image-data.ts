@@ -0,0 +1,268 @@
+// ============================================
+// Export Image Loading
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { slidesLogger } from "@/lib/logger";
+
+/**
+ * Image embedded into an exported file
+ */
+export interface ImageData {
+  /** Base64 data with MIME header, e.g. "image/png;base64,iVBOR..." */
+  data: string;
+
+  /** Natural size in pixels (if it could be read from the file) */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Loads an image URL (returns null if it cannot be embedded)
+ */
+export type ImageLoader = (url: string) => Promise<ImageData | null>;
+
+const IMAGE_TIMEOUT_MS = 15000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+/**
+ * Load an image from a data URL or an http(s) URL
+ * Remote images are fetched on the server, so URLs that resolve to private,
+ * loopback or link-local addresses are refused (also after redirects),
+ * and images larger than MAX_IMAGE_BYTES are skipped.
+ */
+export async function loadImageData(
+  url: string,
+  timeoutMs: number = IMAGE_TIMEOUT_MS
+): Promise<ImageData | null> {
+  try {
+    const dataUrl = /^data:(image\/[\w.+-]+);base64,(.+)$/i.exec(url.trim());
+    if (dataUrl?.[1] && dataUrl[2]) {
+      return withImageSize(dataUrl[1], dataUrl[2]);
+    }
+
+    if (!/^https?:\/\//i.test(url)) {
+      return null;
+    }
+
+    const signal = AbortSignal.timeout(timeoutMs);
+    const response = await fetchPublicUrl(url, signal);
+    const mimeType = response?.headers.get("content-type")?.split(";")[0]?.trim();
+
+    if (!response?.ok || !mimeType?.startsWith("image/")) {
+      return null;
+    }
+
+    const bytes = await readBody(response, MAX_IMAGE_BYTES);
+    if (!bytes) {
+      slidesLogger.warn("Image too large for export", { url, maxBytes: MAX_IMAGE_BYTES });
+      return null;
+    }
+
+    return withImageSize(mimeType, bytesToBase64(bytes));
+  } catch (error) {
+    slidesLogger.warn("Failed to load image for export", {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+/**
+ * Fetch a URL, following redirects only to public addresses
+ * @returns The response, or null if a URL of the chain is not public
+ */
+async function fetchPublicUrl(url: string, signal: AbortSignal): Promise<Response | null> {
+  let current = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    if (!(await isPublicUrl(current))) {
+      slidesLogger.warn("Blocked image URL with a non-public address", { url: current });
+      return null;
+    }
+
+    const response = await fetch(current, { signal, redirect: "manual" });
+    const location = response.headers.get("location");
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    current = new URL(location, current).toString();
+  }
+
+  return null;
+}
+
+/**
+ * Check that an http(s) URL only resolves to public addresses
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let hostname: string;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
+    hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+
+  if (isIP(hostname)) {
+    return !isPrivateAddress(hostname);
+  }
+
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise not routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+
+  // IPv4-mapped IPv6 address, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (mapped?.[1]) return isPrivateAddress(mapped[1]);
+
+  if (isIP(ip) === 4) {
+    const [a = 0, b = 0] = ip.split(".").map(Number);
+    return (
+      a === 0 || // "this" network
+      a === 10 || // private
+      a === 127 || // loopback
+      (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+      (a === 169 && b === 254) || // link-local (cloud metadata)
+      (a === 172 && b >= 16 && b <= 31) || // private
+      (a === 192 && b === 168) || // private
+      a >= 224 // multicast and reserved
+    );
+  }
+
+  return (
+    ip === "::" || // unspecified
+    ip === "::1" || // loopback
+    /^f[cd]/.test(ip) || // unique local
+    /^fe[89ab]/.test(ip) || // link-local
+    ip.startsWith("ff") // multicast
+  );
+}
+
+/**
+ * Read a response body, stopping once it exceeds maxBytes
+ * @returns The body, or null if it is too large
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// ============================================
+// Image Size
+// ============================================
+
+function withImageSize(mimeType: string, base64: string): ImageData {
+  const size = getImageSize(base64ToBytes(base64));
+  return { data: `${mimeType};base64,${base64}`, ...size };
+}
+
+/**
+ * Read the pixel size of a PNG, JPEG or GIF file
+ */
+export function getImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // PNG: IHDR chunk
+  if (bytes.length >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: logical screen descriptor
+  if (bytes.length >= 10 && String.fromCharCode(...bytes.subarray(0, 3)) === "GIF") {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // JPEG: first start-of-frame marker
+  if (bytes.length >= 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1] ?? 0;
+      const length = view.getUint16(offset + 2);
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Base64
+// ============================================
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
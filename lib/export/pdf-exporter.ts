@@ -6,10 +6,13 @@
 
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
-import { Presentation, Slide, PresentationFormat } from "@/types/slides";
+import { Presentation, Slide } from "@/types/slides";
+import { getPDFDimensions } from "./print-layout";
 
 /**
- * Export presentation to PDF
+ * Export presentation to PDF (in the browser, from rendered slide elements)
+ *
+ * For large decks use the server-side export (GET /api/slides/[id]/export?format=pdf).
  *
  * @param presentation - Presentation metadata
  * @param slides - Array of slides
@@ -89,45 +92,6 @@ export async function exportToPDF(
   pdf.save(filename);
 }
 
-/**
- * Get PDF dimensions based on format
- *
- * @param format - Presentation format
- * @returns Dimensions object
- */
-function getPDFDimensions(format: PresentationFormat): {
-  width: number;
-  height: number;
-  orientation: "portrait" | "landscape";
-} {
-  switch (format) {
-    case "16:9":
-      return {
-        width: 297, // A4 landscape width
-        height: 167, // 16:9 ratio
-        orientation: "landscape",
-      };
-    case "4:3":
-      return {
-        width: 280,
-        height: 210, // A4 portrait height
-        orientation: "landscape",
-      };
-    case "A4":
-      return {
-        width: 210, // A4 portrait
-        height: 297,
-        orientation: "portrait",
-      };
-    default:
-      return {
-        width: 297,
-        height: 167,
-        orientation: "landscape",
-      };
-  }
-}
-
 /**
  * Sanitize filename
  *
@@ -0,0 +1,188 @@
+// ============================================
+// PDF Renderer (Server)
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { chromium, type Browser, type Page } from "playwright";
+import { Presentation } from "@/types/slides";
+import { createConcurrencyLimiter } from "@/lib/utils/concurrency";
+import { slidesLogger } from "@/lib/logger";
+import { getPrintPageSize } from "./print-layout";
+import { createPrintToken } from "./print-token";
+import { isPublicUrl } from "./image-data";
+import { sanitizeFilename } from "./pptx-exporter";
+
+/**
+ * Renders a presentation to PDF with headless Chromium (Playwright).
+ * The browser opens the print page (app/slides/[id]/print), which renders
+ * every slide with SlideCanvas, and prints it with the format's page size.
+ * All renders share one browser (one context each), at most
+ * MAX_CONCURRENT_RENDERS at a time. Slides can reference any image URL, so
+ * the page may only load the app itself and public hosts.
+ * Server-only.
+ */
+
+const RENDER_TIMEOUT_MS = 45000;
+const MAX_CONCURRENT_RENDERS = 2;
+
+const renderLimit = createConcurrencyLimiter(MAX_CONCURRENT_RENDERS);
+let browserPromise: Promise<Browser> | null = null;
+
+// Shared browser, relaunched after a crash
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = chromium
+      .launch({ headless: true })
+      .then((browser) => {
+        browser.on("disconnected", () => {
+          browserPromise = null;
+        });
+        return browser;
+      })
+      .catch((error) => {
+        browserPromise = null;
+        throw error;
+      });
+  }
+  return browserPromise;
+}
+
+/**
+ * Close the shared browser (e.g. on shutdown)
+ */
+export async function closePDFBrowser(): Promise<void> {
+  const browser = browserPromise;
+  browserPromise = null;
+  await (await browser)?.close();
+}
+
+export interface RenderPdfOptions {
+  /** Origin of the app that serves the print page (e.g. https://payperwork.ai) */
+  baseUrl: string;
+
+  /** Owner of the presentation */
+  userId: string;
+
+  /** Handout mode: A4 pages with the slide and its speaker notes */
+  handout?: boolean;
+
+  /** Timeout for loading the print page (ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * Get the URL of the print page of a presentation
+ * The URL carries a short-lived print token for the owner instead of the user id
+ */
+export function getPrintUrl(
+  presentationId: string,
+  options: Pick<RenderPdfOptions, "baseUrl" | "userId" | "handout">
+): string {
+  const url = new URL(`/slides/${encodeURIComponent(presentationId)}/print`, options.baseUrl);
+  url.searchParams.set("token", createPrintToken(presentationId, options.userId));
+  if (options.handout) {
+    url.searchParams.set("handout", "true");
+  }
+  return url.toString();
+}
+
+/**
+ * Block requests of the page to hosts other than the app that aren't public
+ * (e.g. cloud metadata or internal services referenced by slide images)
+ */
+async function blockPrivateRequests(tab: Page, baseUrl: string): Promise<void> {
+  const appOrigin = new URL(baseUrl).origin;
+  // Per origin, every image would look up the same host again
+  const allowedOrigins = new Map<string, Promise<boolean>>([[appOrigin, Promise.resolve(true)]]);
+
+  await tab.route("**/*", async (route) => {
+    const url = route.request().url();
+    if (url.startsWith("data:") || url.startsWith("blob:")) {
+      return route.continue();
+    }
+
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return route.abort("blockedbyclient");
+    }
+
+    if (!allowedOrigins.has(origin)) {
+      allowedOrigins.set(origin, isPublicUrl(url));
+    }
+
+    if (await allowedOrigins.get(origin)) {
+      return route.continue();
+    }
+
+    slidesLogger.warn("Blocked PDF export request to a non-public host", { url });
+    return route.abort("blockedbyclient");
+  });
+}
+
+/**
+ * Render a presentation to a PDF file
+ */
+export async function renderPresentationPDF(
+  presentation: Presentation,
+  options: RenderPdfOptions
+): Promise<Buffer> {
+  return renderLimit(() => renderPDF(presentation, options));
+}
+
+async function renderPDF(presentation: Presentation, options: RenderPdfOptions): Promise<Buffer> {
+  const { handout = false, timeoutMs = RENDER_TIMEOUT_MS } = options;
+  const page = getPrintPageSize(presentation.format, handout);
+
+  const browser = await getBrowser();
+  const context = await browser.newContext();
+
+  try {
+    const tab = await context.newPage();
+    tab.setDefaultTimeout(timeoutMs);
+    await blockPrivateRequests(tab, options.baseUrl);
+
+    const response = await tab.goto(getPrintUrl(presentation.id, { ...options, handout }), {
+      waitUntil: "networkidle",
+    });
+
+    if (!response?.ok()) {
+      throw new Error(`Print page failed to load (status ${response?.status() ?? "unknown"})`);
+    }
+
+    // Web fonts and images must be ready before printing
+    await tab.evaluate(async () => {
+      await document.fonts.ready;
+      await Promise.all(
+        Array.from(document.images)
+          .filter((image) => !image.complete)
+          .map(
+            (image) =>
+              new Promise((resolve) => {
+                image.addEventListener("load", resolve, { once: true });
+                image.addEventListener("error", resolve, { once: true });
+              })
+          )
+      );
+    });
+
+    return await tab.pdf({
+      width: `${page.width}mm`,
+      height: `${page.height}mm`,
+      printBackground: true,
+      margin: { top: "0", right: "0", bottom: "0", left: "0" },
+    });
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Get the PDF file name of a presentation
+ */
+export function getPDFFilename(presentation: Presentation, handout: boolean = false): string {
+  const name = sanitizeFilename(presentation.title);
+  return handout ? `${name}_handout.pdf` : `${name}.pdf`;
+}
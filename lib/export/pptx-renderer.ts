@@ -0,0 +1,736 @@
+// ============================================
+// PPTX Renderer
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import PptxGenJS from "pptxgenjs";
+import { CustomTheme, Presentation, Slide, PresentationFormat, SlideTheme } from "@/types/slides";
+import {
+  resolveSlideTheme,
+  getSlideNumberPosition,
+  THEME_FRAME,
+} from "@/lib/api/slides/slide-theme";
+import { buildReferencesSlide } from "@/lib/api/slides/citations";
+import { ImageData, ImageLoader, loadImageData } from "./image-data";
+import { InlineRun, MarkdownBlock, parseSlideMarkdown, runsToText } from "./slide-markdown";
+
+/**
+ * Renders slides to a PptxGenJS presentation with native (editable) objects:
+ * headings and paragraphs as text, nested lists as PowerPoint bullets,
+ * emphasis as run formatting, tables as tables and images as pictures.
+ * Background, logo, footer and slide number of the theme are on the slide master.
+ * Cited research sources are listed on a references slide at the end.
+ * Runs in the browser and on the server (see renderPresentationToBuffer).
+ */
+
+// ============================================
+// Themes
+// ============================================
+
+export interface PptxTheme {
+  /** Accent colour (titles, headings, table header) */
+  primary: string;
+  background: string;
+  text: string;
+  muted: string;
+  headingFont: string;
+  bodyFont: string;
+}
+
+const CODE_FONT = "Courier New";
+
+/** Slide master with the theme's background, logo, footer and slide number */
+const MASTER_NAME = "THEME";
+
+/**
+ * Get PPTX colours (hex without #) and fonts of a theme
+ */
+export function getPptxTheme(theme: SlideTheme): PptxTheme {
+  const color = (value: string) => value.replace("#", "").toUpperCase();
+  return {
+    primary: color(theme.palette.primary),
+    background: color(theme.palette.background),
+    text: color(theme.palette.text),
+    muted: color(theme.palette.muted),
+    headingFont: theme.headingFont,
+    bodyFont: theme.bodyFont,
+  };
+}
+
+// ============================================
+// Page Sizes
+// ============================================
+
+interface PageSize {
+  layout: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Slide size in inches (A4 is portrait, like SlideCanvas)
+ */
+function getPageSize(format: PresentationFormat): PageSize {
+  switch (format) {
+    case "4:3":
+      return { layout: "LAYOUT_4x3", width: 10, height: 7.5 };
+    case "A4":
+      return { layout: "A4", width: 8.27, height: 11.69 };
+    case "16:9":
+    default:
+      return { layout: "LAYOUT_16x9", width: 10, height: 5.625 };
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+export interface RenderPptxOptions {
+  /** Loads images (default: data URLs and http(s) downloads) */
+  loadImage?: ImageLoader;
+  /** Custom theme of the presentation (replaces the built-in theme) */
+  customTheme?: CustomTheme | null;
+}
+
+/**
+ * Render a presentation to a PptxGenJS object (write it with writeFile/write)
+ */
+export async function renderPresentation(
+  presentation: Presentation,
+  slides: Slide[],
+  options: RenderPptxOptions = {}
+): Promise<PptxGenJS> {
+  const pptx = new PptxGenJS();
+
+  pptx.author = "Payperwork AI";
+  pptx.company = "Payperwork";
+  pptx.subject = presentation.prompt;
+  pptx.title = presentation.title;
+
+  const page = getPageSize(presentation.format);
+  if (page.layout === "A4") {
+    pptx.defineLayout({ name: "A4", width: page.width, height: page.height });
+  }
+  pptx.layout = page.layout;
+
+  const theme = resolveSlideTheme(presentation.theme, options.customTheme);
+  const images = createImageCache(options.loadImage ?? ((url) => loadImageData(url)));
+  const renderer = new SlideRenderer(page, getPptxTheme(theme), images);
+
+  await defineThemeMaster(pptx, page, theme, images);
+
+  // Research sources cited on the slides are listed on a last slide
+  const references = buildReferencesSlide(presentation.id, slides);
+  const allSlides = references ? [...slides, references] : slides;
+
+  for (const slide of [...allSlides].sort((a, b) => a.order_index - b.order_index)) {
+    await renderer.render(pptx.addSlide({ masterName: MASTER_NAME }), slide);
+  }
+
+  return pptx;
+}
+
+/**
+ * Render a presentation to a PPTX file (server-side)
+ */
+export async function renderPresentationToBuffer(
+  presentation: Presentation,
+  slides: Slide[],
+  options: RenderPptxOptions = {}
+): Promise<Buffer> {
+  const pptx = await renderPresentation(presentation, slides, options);
+  return (await pptx.write({ outputType: "nodebuffer" })) as Buffer;
+}
+
+/**
+ * Define the slide master of the theme (editable once in PowerPoint's slide master view)
+ */
+async function defineThemeMaster(
+  pptx: PptxGenJS,
+  page: PageSize,
+  theme: SlideTheme,
+  loadImage: ImageLoader
+): Promise<void> {
+  const colors = getPptxTheme(theme);
+  const margin = THEME_FRAME.margin * page.width;
+  const fontSize = Math.round(THEME_FRAME.footerFontSize * page.width * 72);
+  const lineHeight = (fontSize * 2) / 72;
+  const footerY = page.height - margin - lineHeight;
+  const objects: NonNullable<PptxGenJS.SlideMasterProps["objects"]> = [];
+
+  const backgroundImage = theme.backgroundImage ? await loadImage(theme.backgroundImage) : null;
+  const background: PptxGenJS.BackgroundProps = backgroundImage
+    ? { data: backgroundImage.data }
+    : { color: colors.background };
+
+  const logo = theme.logo ? await loadImage(theme.logo.url) : null;
+  if (theme.logo && logo) {
+    const ratio = logo.width && logo.height ? logo.width / logo.height : 1;
+    const w = Math.min(
+      THEME_FRAME.logoHeight * page.width * ratio,
+      THEME_FRAME.logoMaxWidth * page.width
+    );
+    const h = w / ratio;
+    const position = theme.logo.position;
+
+    objects.push({
+      image: {
+        data: logo.data,
+        x: position.endsWith("left") ? margin : page.width - margin - w,
+        y: position.startsWith("top") ? margin : page.height - margin - h,
+        w,
+        h,
+        altText: "Logo",
+      },
+    });
+  }
+
+  if (theme.footerText) {
+    objects.push({
+      text: {
+        text: theme.footerText,
+        options: {
+          x: page.width * 0.2,
+          y: footerY,
+          w: page.width * 0.6,
+          h: lineHeight,
+          fontSize,
+          fontFace: colors.bodyFont,
+          color: colors.muted,
+          align: "center",
+          valign: "bottom",
+        },
+      },
+    });
+  }
+
+  const numberLeft = getSlideNumberPosition(theme) === "bottom-left";
+
+  pptx.defineSlideMaster({
+    title: MASTER_NAME,
+    background,
+    objects,
+    ...(theme.showSlideNumbers && {
+      slideNumber: {
+        x: numberLeft ? margin : page.width - margin - 0.6,
+        y: footerY,
+        w: 0.6,
+        h: lineHeight,
+        fontSize,
+        fontFace: colors.bodyFont,
+        color: colors.muted,
+        align: numberLeft ? "left" : "right",
+      },
+    }),
+  });
+}
+
+function createImageCache(loadImage: ImageLoader): ImageLoader {
+  const cache = new Map<string, Promise<ImageData | null>>();
+  return (url) => {
+    if (!cache.has(url)) {
+      cache.set(
+        url,
+        loadImage(url).catch(() => null)
+      );
+    }
+    return cache.get(url)!;
+  };
+}
+
+// ============================================
+// Slide Rendering
+// ============================================
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+type Segment =
+  | { type: "text"; blocks: MarkdownBlock[]; height: number }
+  | { type: "table"; block: Extract<MarkdownBlock, { type: "table" }>; height: number }
+  | { type: "image"; block: Extract<MarkdownBlock, { type: "image" }>; height: number };
+
+const MARGIN = 0.5;
+const GAP = 0.15;
+const MIN_IMAGE_HEIGHT = 1.2;
+const LINE_HEIGHT = 1.2;
+/** Average character width relative to the font size */
+const CHAR_WIDTH = 0.5;
+
+class SlideRenderer {
+  /** Font sizes scale with the slide width (sizes are for a 10" slide) */
+  private readonly scale: number;
+
+  constructor(
+    private readonly page: PageSize,
+    private readonly theme: PptxTheme,
+    private readonly loadImage: ImageLoader
+  ) {
+    this.scale = page.width / 10;
+  }
+
+  async render(pptxSlide: PptxGenJS.Slide, slide: Slide): Promise<void> {
+    // Without a background of its own, the slide shows the master background
+    if (slide.background_color) {
+      pptxSlide.background = { color: slide.background_color.replace("#", "") };
+    }
+
+    // Image slides show the image as a picture, other layouts as the slide background
+    if (slide.background_image && slide.layout !== "image") {
+      const image = await this.loadImage(slide.background_image);
+      if (image) {
+        pptxSlide.background = { data: image.data };
+      }
+    }
+
+    const content = this.contentBox();
+
+    switch (slide.layout) {
+      case "title_slide":
+        this.addTitleSlide(pptxSlide, slide);
+        break;
+      case "two_column": {
+        this.addTitle(pptxSlide, slide.title);
+        const [left, right] = splitColumns(slide.content);
+        const columnWidth = (content.w - 2 * GAP) / 2;
+        await this.addBlocks(
+          pptxSlide,
+          parseSlideMarkdown(left),
+          { ...content, w: columnWidth },
+          16
+        );
+        await this.addBlocks(
+          pptxSlide,
+          parseSlideMarkdown(right),
+          { ...content, x: content.x + columnWidth + 2 * GAP, w: columnWidth },
+          16
+        );
+        break;
+      }
+      case "quote":
+        this.addQuoteSlide(pptxSlide, slide);
+        break;
+      case "image": {
+        this.addTitle(pptxSlide, slide.title);
+        const blocks: MarkdownBlock[] = slide.background_image
+          ? [{ type: "image", url: slide.background_image, alt: slide.title }]
+          : parseSlideMarkdown(slide.content);
+        await this.addBlocks(pptxSlide, blocks, content, 18);
+        break;
+      }
+      case "content":
+      default:
+        this.addTitle(pptxSlide, slide.title);
+        await this.addBlocks(pptxSlide, parseSlideMarkdown(slide.content), content, 18);
+    }
+
+    if (slide.speaker_notes) {
+      pptxSlide.addNotes(slide.speaker_notes);
+    }
+  }
+
+  // ============================================
+  // Layouts
+  // ============================================
+
+  private contentBox(): Box {
+    const top = MARGIN + 0.8 + GAP * 2;
+    return {
+      x: MARGIN,
+      y: top,
+      w: this.page.width - 2 * MARGIN,
+      h: this.page.height - top - MARGIN,
+    };
+  }
+
+  private addTitle(pptxSlide: PptxGenJS.Slide, title: string): void {
+    pptxSlide.addText(title, {
+      x: MARGIN,
+      y: MARGIN,
+      w: this.page.width - 2 * MARGIN,
+      h: 0.8,
+      fontSize: this.fontSize(32),
+      fontFace: this.theme.headingFont,
+      bold: true,
+      color: this.theme.primary,
+      valign: "middle",
+      fit: "shrink",
+    });
+  }
+
+  private addTitleSlide(pptxSlide: PptxGenJS.Slide, slide: Slide): void {
+    const width = this.page.width - 2 * MARGIN;
+
+    pptxSlide.addText(slide.title, {
+      x: MARGIN,
+      y: this.page.height * 0.25,
+      w: width,
+      h: this.page.height * 0.3,
+      fontSize: this.fontSize(44),
+      fontFace: this.theme.headingFont,
+      bold: true,
+      color: this.theme.primary,
+      align: "center",
+      valign: "bottom",
+      fit: "shrink",
+    });
+
+    const subtitle = this.toTextProps(parseSlideMarkdown(slide.content), 24, this.theme.muted);
+    if (subtitle.length > 0) {
+      pptxSlide.addText(subtitle, {
+        x: MARGIN,
+        y: this.page.height * 0.58,
+        w: width,
+        h: this.page.height * 0.3,
+        align: "center",
+        valign: "top",
+        fit: "shrink",
+      });
+    }
+  }
+
+  private addQuoteSlide(pptxSlide: PptxGenJS.Slide, slide: Slide): void {
+    const width = this.page.width - 2 * MARGIN;
+    const runs = parseSlideMarkdown(slide.content).flatMap((block, index) =>
+      "runs" in block ? [...(index > 0 ? [{ text: " " }] : []), ...block.runs] : []
+    );
+
+    pptxSlide.addText(
+      [{ text: "“" }, ...runs, { text: "”" }].map((run) =>
+        this.toRunProps(run, { fontSize: this.fontSize(32), italic: true })
+      ),
+      {
+        x: MARGIN,
+        y: this.page.height * 0.2,
+        w: width,
+        h: this.page.height * 0.45,
+        fontFace: this.theme.headingFont,
+        color: this.theme.primary,
+        align: "center",
+        valign: "middle",
+        fit: "shrink",
+      }
+    );
+
+    pptxSlide.addText(`— ${slide.title}`, {
+      x: MARGIN,
+      y: this.page.height * 0.68,
+      w: width,
+      h: 0.5,
+      fontSize: this.fontSize(20),
+      fontFace: this.theme.bodyFont,
+      color: this.theme.muted,
+      align: "center",
+    });
+  }
+
+  // ============================================
+  // Blocks
+  // ============================================
+
+  /**
+   * Stack text, tables and images vertically in a box
+   * (images share the space left by text and tables)
+   */
+  private async addBlocks(
+    pptxSlide: PptxGenJS.Slide,
+    blocks: MarkdownBlock[],
+    box: Box,
+    baseFontSize: number
+  ): Promise<void> {
+    const segments = this.toSegments(blocks, box.w, baseFontSize);
+    if (segments.length === 0) return;
+
+    const gaps = GAP * (segments.length - 1);
+    const fixedHeight = segments
+      .filter((segment) => segment.type !== "image")
+      .reduce((sum, segment) => sum + segment.height, 0);
+    const imageCount = segments.filter((segment) => segment.type === "image").length;
+    const imageHeight =
+      imageCount > 0 ? Math.max((box.h - gaps - fixedHeight) / imageCount, MIN_IMAGE_HEIGHT) : 0;
+
+    for (const segment of segments) {
+      if (segment.type === "image") segment.height = imageHeight;
+    }
+
+    // Squeeze everything if the content is taller than the box
+    const totalHeight = segments.reduce((sum, segment) => sum + segment.height, 0) + gaps;
+    const squeeze = totalHeight > box.h ? (box.h - gaps) / (totalHeight - gaps) : 1;
+
+    let y = box.y;
+    for (const segment of segments) {
+      const height = segment.height * squeeze;
+      const area = { x: box.x, y, w: box.w, h: height };
+
+      if (segment.type === "text") {
+        pptxSlide.addText(this.toTextProps(segment.blocks, baseFontSize), {
+          ...area,
+          valign: "top",
+          fit: "shrink",
+        });
+      } else if (segment.type === "table") {
+        this.addTable(pptxSlide, segment.block, area, baseFontSize);
+      } else {
+        await this.addImage(pptxSlide, segment.block, area, baseFontSize);
+      }
+
+      y += height + GAP;
+    }
+  }
+
+  private toSegments(blocks: MarkdownBlock[], width: number, baseFontSize: number): Segment[] {
+    const segments: Segment[] = [];
+
+    for (const block of blocks) {
+      if (block.type === "table") {
+        segments.push({
+          type: "table",
+          block,
+          height: this.estimateTableHeight(block, width, baseFontSize),
+        });
+      } else if (block.type === "image") {
+        segments.push({ type: "image", block, height: 0 });
+      } else {
+        const previous = segments[segments.length - 1];
+        const height = this.estimateBlockHeight(block, width, baseFontSize);
+        if (previous?.type === "text") {
+          previous.blocks.push(block);
+          previous.height += height;
+        } else {
+          segments.push({ type: "text", blocks: [block], height: height + 0.1 });
+        }
+      }
+    }
+
+    return segments;
+  }
+
+  private addTable(
+    pptxSlide: PptxGenJS.Slide,
+    table: Extract<MarkdownBlock, { type: "table" }>,
+    area: Box,
+    baseFontSize: number
+  ): void {
+    const fontSize = this.fontSize(baseFontSize - 4);
+    const cell = (runs: InlineRun[], column: number, header: boolean): PptxGenJS.TableCell => ({
+      text: runs.map((run) => this.toRunProps(run, header ? { bold: true } : {})),
+      options: {
+        align: table.align[column],
+        ...(header && { fill: { color: this.theme.primary }, color: "FFFFFF" }),
+      },
+    });
+
+    pptxSlide.addTable(
+      [
+        table.header.map((runs, column) => cell(runs, column, true)),
+        ...table.rows.map((row) => row.map((runs, column) => cell(runs, column, false))),
+      ],
+      {
+        x: area.x,
+        y: area.y,
+        w: area.w,
+        fontSize,
+        fontFace: this.theme.bodyFont,
+        color: this.theme.text,
+        border: { type: "solid", pt: 0.5, color: "CBD5E1" },
+        valign: "middle",
+        margin: 0.05,
+      }
+    );
+  }
+
+  private async addImage(
+    pptxSlide: PptxGenJS.Slide,
+    block: Extract<MarkdownBlock, { type: "image" }>,
+    area: Box,
+    baseFontSize: number
+  ): Promise<void> {
+    const image = await this.loadImage(block.url);
+
+    // Not embeddable: keep the reference as a linked caption
+    if (!image) {
+      pptxSlide.addText(
+        [this.toRunProps({ text: block.alt || block.url, link: block.url, italic: true })],
+        {
+          ...area,
+          fontSize: this.fontSize(baseFontSize - 2),
+          color: this.theme.muted,
+          valign: "middle",
+          align: "center",
+        }
+      );
+      return;
+    }
+
+    // Fit into the area keeping the aspect ratio (centred horizontally)
+    let { w, h } = area;
+    if (image.width && image.height) {
+      const ratio = image.width / image.height;
+      if (w / h > ratio) {
+        w = h * ratio;
+      } else {
+        h = w / ratio;
+      }
+    }
+
+    pptxSlide.addImage({
+      data: image.data,
+      x: area.x + (area.w - w) / 2,
+      y: area.y,
+      w,
+      h,
+      altText: block.alt,
+    });
+  }
+
+  // ============================================
+  // Text
+  // ============================================
+
+  /**
+   * Convert text blocks to text runs (one paragraph per block)
+   */
+  private toTextProps(
+    blocks: MarkdownBlock[],
+    baseFontSize: number,
+    color: string = this.theme.text
+  ): PptxGenJS.TextProps[] {
+    const textBlocks = blocks.filter((block) => block.type !== "table" && block.type !== "image");
+    const props: PptxGenJS.TextProps[] = [];
+
+    textBlocks.forEach((block, index) => {
+      const paragraph = this.paragraphOptions(block, baseFontSize, color);
+      const runs: InlineRun[] =
+        block.type === "code"
+          ? [{ text: block.text, code: true }]
+          : "runs" in block
+            ? block.runs
+            : [];
+      const isLast = index === textBlocks.length - 1;
+      // PptxGenJS starts a new paragraph at every run with a bullet
+      const { bullet: _bullet, ...runOptions } = paragraph;
+
+      runs.forEach((run, runIndex) => {
+        props.push(
+          this.toRunProps(run, {
+            ...(runIndex === 0 ? paragraph : runOptions),
+            ...(runIndex === runs.length - 1 && !isLast && { breakLine: true }),
+          })
+        );
+      });
+    });
+
+    return props;
+  }
+
+  private paragraphOptions(
+    block: MarkdownBlock,
+    baseFontSize: number,
+    color: string
+  ): PptxGenJS.TextPropsOptions {
+    const base: PptxGenJS.TextPropsOptions = {
+      fontSize: this.fontSize(baseFontSize),
+      fontFace: this.theme.bodyFont,
+      color,
+      paraSpaceAfter: 6,
+    };
+
+    switch (block.type) {
+      case "heading":
+        return {
+          ...base,
+          fontSize: this.fontSize(baseFontSize + Math.max(10 - block.level * 2, 2)),
+          fontFace: this.theme.headingFont,
+          color: this.theme.primary,
+          bold: true,
+        };
+      case "list_item":
+        return {
+          ...base,
+          bullet: block.ordered ? { type: "number" } : true,
+          indentLevel: block.level,
+          paraSpaceAfter: 4,
+        };
+      case "quote":
+        return { ...base, italic: true, color: this.theme.muted, indentLevel: 1 };
+      case "code":
+        return { ...base, fontSize: this.fontSize(baseFontSize - 4), fontFace: CODE_FONT };
+      default:
+        return base;
+    }
+  }
+
+  private toRunProps(
+    run: InlineRun,
+    options: PptxGenJS.TextPropsOptions = {}
+  ): PptxGenJS.TextProps {
+    return {
+      text: run.text,
+      options: {
+        ...options,
+        ...(run.bold && { bold: true }),
+        ...(run.italic && { italic: true }),
+        ...(run.strike && { strike: "sngStrike" as const }),
+        ...(run.code && { fontFace: CODE_FONT }),
+        ...(run.link && { hyperlink: { url: run.link }, color: this.theme.primary }),
+      },
+    };
+  }
+
+  private fontSize(size: number): number {
+    return Math.round(size * this.scale);
+  }
+
+  // ============================================
+  // Size Estimates
+  // ============================================
+
+  private estimateLines(text: string, width: number, fontSize: number): number {
+    const charsPerLine = Math.max((width * 72) / (fontSize * CHAR_WIDTH), 1);
+    return text
+      .split("\n")
+      .reduce((lines, line) => lines + Math.max(Math.ceil(line.length / charsPerLine), 1), 0);
+  }
+
+  private estimateBlockHeight(block: MarkdownBlock, width: number, baseFontSize: number): number {
+    const options = this.paragraphOptions(block, baseFontSize, this.theme.text);
+    const fontSize = options.fontSize ?? baseFontSize;
+    const indent = block.type === "list_item" ? 0.3 * (block.level + 1) : 0;
+    const text = block.type === "code" ? block.text : "runs" in block ? runsToText(block.runs) : "";
+    const lines = this.estimateLines(text, width - indent, fontSize);
+
+    return (lines * fontSize * LINE_HEIGHT + (options.paraSpaceAfter ?? 0)) / 72;
+  }
+
+  private estimateTableHeight(
+    table: Extract<MarkdownBlock, { type: "table" }>,
+    width: number,
+    baseFontSize: number
+  ): number {
+    const fontSize = this.fontSize(baseFontSize - 4);
+    const columnWidth = width / Math.max(table.header.length, 1);
+
+    return [table.header, ...table.rows].reduce((height, row) => {
+      const lines = Math.max(
+        ...row.map((runs) => this.estimateLines(runsToText(runs), columnWidth - 0.1, fontSize)),
+        1
+      );
+      return height + (lines * fontSize * LINE_HEIGHT) / 72 + 0.1;
+    }, 0);
+  }
+}
+
+/**
+ * Split slide markdown into two columns at the middle paragraph (like SlideCanvas)
+ */
+function splitColumns(markdown: string): [string, string] {
+  const parts = markdown.split("\n\n");
+  const midpoint = Math.ceil(parts.length / 2);
+  return [parts.slice(0, midpoint).join("\n\n"), parts.slice(midpoint).join("\n\n")];
+}
@@ -0,0 +1,105 @@
+// ============================================
+// Print Layout
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import { PresentationFormat } from "@/types/slides";
+
+/**
+ * Page sizes shared by the PDF exports (client-side jsPDF export and
+ * server-side print page rendered with Playwright)
+ */
+
+export interface PageDimensions {
+  /** Page width in mm */
+  width: number;
+  /** Page height in mm */
+  height: number;
+  orientation: "portrait" | "landscape";
+}
+
+/** Width of SlideCanvas in px (height follows the format) */
+export const SLIDE_CANVAS_WIDTH = 800;
+
+/** CSS pixels per mm (96 dpi) */
+export const PX_PER_MM = 96 / 25.4;
+
+/** Handout pages are A4 portrait with the slide above its speaker notes */
+export const HANDOUT_PAGE: PageDimensions = { width: 210, height: 297, orientation: "portrait" };
+
+/** Page margin of handout pages in mm */
+export const HANDOUT_MARGIN = 15;
+
+/**
+ * Get PDF dimensions based on format
+ *
+ * @param format - Presentation format
+ * @returns Dimensions object
+ */
+export function getPDFDimensions(format: PresentationFormat): PageDimensions {
+  switch (format) {
+    case "16:9":
+      return {
+        width: 297, // A4 landscape width
+        height: 167, // 16:9 ratio
+        orientation: "landscape",
+      };
+    case "4:3":
+      return {
+        width: 280,
+        height: 210, // A4 portrait height
+        orientation: "landscape",
+      };
+    case "A4":
+      return {
+        width: 210, // A4 portrait
+        height: 297,
+        orientation: "portrait",
+      };
+    default:
+      return {
+        width: 297,
+        height: 167,
+        orientation: "landscape",
+      };
+  }
+}
+
+/**
+ * Get the PDF page size of a presentation (slides or handout pages)
+ */
+export function getPrintPageSize(format: PresentationFormat, handout: boolean): PageDimensions {
+  return handout ? HANDOUT_PAGE : getPDFDimensions(format);
+}
+
+/**
+ * Height-to-width ratio of SlideCanvas
+ */
+export function getSlideAspectRatio(format: PresentationFormat): number {
+  switch (format) {
+    case "4:3":
+      return 3 / 4;
+    case "A4":
+      return 297 / 210;
+    default:
+      return 9 / 16;
+  }
+}
+
+/**
+ * Width of the slide on a handout page in mm (leaves at least 40% of the
+ * page for the speaker notes)
+ */
+export function getHandoutSlideWidth(format: PresentationFormat): number {
+  const contentWidth = HANDOUT_PAGE.width - 2 * HANDOUT_MARGIN;
+  const maxSlideHeight = (HANDOUT_PAGE.height - 2 * HANDOUT_MARGIN) * 0.6;
+  return Math.min(contentWidth, maxSlideHeight / getSlideAspectRatio(format));
+}
+
+/**
+ * Scale factor that fits SlideCanvas into a width in mm
+ */
+export function getSlideScale(widthMm: number): number {
+  return (widthMm * PX_PER_MM) / SLIDE_CANVAS_WIDTH;
+}
@@ -0,0 +1,70 @@
+// ============================================
+// Print Tokens (Server)
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+import crypto from "crypto";
+
+/**
+ * Short-lived signed tokens for the print page (app/slides/[id]/print).
+ * The PDF export creates a token for the presentation and its owner; the print
+ * page only renders with a valid token, so it can't be opened for other users.
+ * Signed with PRINT_TOKEN_SECRET (falls back to the Supabase service role key).
+ * Server-only.
+ */
+
+const PRINT_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+interface PrintTokenPayload {
+  presentationId: string;
+  userId: string;
+  expiresAt: number;
+}
+
+function sign(data: string): string {
+  const secret = process.env.PRINT_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error("PRINT_TOKEN_SECRET is not configured");
+  }
+
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * Create a token that lets the print page render a presentation of a user
+ */
+export function createPrintToken(
+  presentationId: string,
+  userId: string,
+  ttlMs: number = PRINT_TOKEN_TTL_MS
+): string {
+  const payload: PrintTokenPayload = { presentationId, userId, expiresAt: Date.now() + ttlMs };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify a print token for a presentation
+ * @returns The user id of the token, or null if it is invalid, expired or for another presentation
+ */
+export function verifyPrintToken(token: string, presentationId: string): string | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const payload: PrintTokenPayload = JSON.parse(Buffer.from(data, "base64url").toString());
+    if (payload.presentationId !== presentationId || payload.expiresAt < Date.now()) {
+      return null;
+    }
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,331 @@
+// ============================================
+// Slide Markdown Parser
+// Version: 1.0
+// Date: 2025-10-19
+// ============================================
+
+/**
+ * Parses slide markdown (headings, nested lists, emphasis, tables,
+ * block quotes, code and images) into blocks for the PPTX renderer.
+ * Covers the markdown subset generated for slides, not full CommonMark.
+ */
+
+/**
+ * Inline text run with its formatting
+ */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+export type TableAlign = "left" | "center" | "right";
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; runs: InlineRun[] }
+  | { type: "paragraph"; runs: InlineRun[] }
+  | { type: "list_item"; ordered: boolean; level: number; runs: InlineRun[] }
+  | { type: "quote"; runs: InlineRun[] }
+  | { type: "code"; text: string }
+  | { type: "table"; header: InlineRun[][]; rows: InlineRun[][][]; align: TableAlign[] }
+  | { type: "image"; url: string; alt: string };
+
+// ============================================
+// Block Parsing
+// ============================================
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const IMAGE_LINE = /^\s*!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Parse slide markdown into blocks
+ */
+export function parseSlideMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+
+  let paragraph: string[] = [];
+  // Indentation widths of the open list levels
+  let listIndents: number[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      pushTextBlock(blocks, { type: "paragraph", runs: [] }, paragraph.join(" "));
+      paragraph = [];
+    }
+  };
+
+  const lineAt = (index: number): string => lines[index] ?? "";
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lineAt(i);
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    // Fenced code block
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const fence = line.trim().slice(0, 3);
+      const code: string[] = [];
+      while (
+        i + 1 < lines.length &&
+        !lineAt(i + 1)
+          .trim()
+          .startsWith(fence)
+      ) {
+        code.push(lineAt(++i));
+      }
+      i++; // closing fence
+      blocks.push({ type: "code", text: code.join("\n") });
+      listIndents = [];
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      pushTextBlock(
+        blocks,
+        { type: "heading", level: (heading[1] ?? "#").length, runs: [] },
+        heading[2] ?? ""
+      );
+      listIndents = [];
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      listIndents = [];
+      continue;
+    }
+
+    const image = IMAGE_LINE.exec(line);
+    if (image) {
+      flushParagraph();
+      blocks.push({ type: "image", alt: image[1] ?? "", url: image[2] ?? "" });
+      continue;
+    }
+
+    // Table: header row followed by a separator row
+    if (line.includes("|") && TABLE_SEPARATOR.test(lineAt(i + 1))) {
+      flushParagraph();
+      const header = splitTableRow(line);
+      const align = splitTableRow(lineAt(i + 1)).map(parseAlign);
+      const rows: string[][] = [];
+      i++;
+      while (lineAt(i + 1).includes("|") && lineAt(i + 1).trim()) {
+        rows.push(splitTableRow(lineAt(++i)));
+      }
+      blocks.push({
+        type: "table",
+        header: header.map((cell) => parseInline(cell)),
+        rows: rows.map((row) => header.map((_, column) => parseInline(row[column] ?? ""))),
+        align: header.map((_, column) => align[column] ?? "left"),
+      });
+      listIndents = [];
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const indent = (listItem[1] ?? "").replace(/\t/g, "    ").length;
+      while (listIndents.length > 0 && indent < (listIndents[listIndents.length - 1] ?? 0)) {
+        listIndents.pop();
+      }
+      if (listIndents.length === 0 || indent > (listIndents[listIndents.length - 1] ?? 0)) {
+        listIndents.push(indent);
+      }
+      pushTextBlock(
+        blocks,
+        {
+          type: "list_item",
+          ordered: /\d/.test(listItem[2] ?? ""),
+          level: listIndents.length - 1,
+          runs: [],
+        },
+        listItem[3] ?? ""
+      );
+      continue;
+    }
+
+    const quote = QUOTE.exec(line);
+    if (quote) {
+      flushParagraph();
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === "quote") {
+        appendRuns(previous.runs, quote[1] ?? "");
+      } else {
+        pushTextBlock(blocks, { type: "quote", runs: [] }, quote[1] ?? "");
+      }
+      continue;
+    }
+
+    // Indented continuation of a list item
+    const previous = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && previous?.type === "list_item" && /^\s+/.test(line)) {
+      appendRuns(previous.runs, line.trim());
+      continue;
+    }
+
+    listIndents = [];
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Add a text block; inline images are moved into image blocks after it
+ */
+function pushTextBlock(
+  blocks: MarkdownBlock[],
+  block: Extract<MarkdownBlock, { runs: InlineRun[] }>,
+  text: string
+): void {
+  const images: MarkdownBlock[] = [];
+  const withoutImages = text.replace(
+    /!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)/g,
+    (_match, alt: string, url: string) => {
+      images.push({ type: "image", alt, url });
+      return "";
+    }
+  );
+
+  block.runs = parseInline(withoutImages.trim());
+  if (block.runs.length > 0) {
+    blocks.push(block);
+  }
+  blocks.push(...images);
+}
+
+/**
+ * Append a continuation line to the runs of a text block
+ */
+function appendRuns(runs: InlineRun[], text: string): void {
+  for (const run of [{ text: " " }, ...parseInline(text)]) {
+    pushRun(runs, run);
+  }
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function parseAlign(separator: string): TableAlign {
+  const left = separator.startsWith(":");
+  const right = separator.endsWith(":");
+  if (left && right) return "center";
+  if (right) return "right";
+  return "left";
+}
+
+// ============================================
+// Inline Parsing
+// ============================================
+
+type InlineStyle = Omit<InlineRun, "text">;
+
+const INLINE_PATTERNS: Array<{
+  regex: RegExp;
+  style: (match: RegExpExecArray) => InlineStyle;
+  literal?: boolean;
+}> = [
+  { regex: /`([^`]+)`/, style: () => ({ code: true }), literal: true },
+  { regex: /\[([^\]]+)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)/, style: (match) => ({ link: match[2] }) },
+  { regex: /\*\*(.+?)\*\*|__(.+?)__/, style: () => ({ bold: true }) },
+  { regex: /~~(.+?)~~/, style: () => ({ strike: true }) },
+  { regex: /\*(?!\s)(.+?)\*|(?<![\w])_(?!\s)(.+?)_(?![\w])/, style: () => ({ italic: true }) },
+];
+
+/**
+ * Parse inline markdown into formatted runs
+ */
+export function parseInline(text: string, style: InlineStyle = {}): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let rest = text;
+
+  while (rest) {
+    // Earliest match wins (ties go to the pattern listed first)
+    let best: { match: RegExpExecArray; pattern: (typeof INLINE_PATTERNS)[number] } | null = null;
+    for (const pattern of INLINE_PATTERNS) {
+      const match = pattern.regex.exec(rest);
+      if (match && (!best || match.index < best.match.index)) {
+        best = { match, pattern };
+      }
+    }
+
+    if (!best) {
+      pushRun(runs, { ...style, text: rest });
+      break;
+    }
+
+    const { match, pattern } = best;
+    if (match.index > 0) {
+      pushRun(runs, { ...style, text: rest.slice(0, match.index) });
+    }
+
+    const inner = match[1] ?? match[2] ?? "";
+    const innerStyle = { ...style, ...pattern.style(match) };
+    if (pattern.literal) {
+      pushRun(runs, { ...innerStyle, text: inner });
+    } else {
+      for (const run of parseInline(inner, innerStyle)) {
+        pushRun(runs, run);
+      }
+    }
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return runs;
+}
+
+/**
+ * Add a run, merging it into the previous run if the formatting is the same
+ */
+function pushRun(runs: InlineRun[], run: InlineRun): void {
+  const text = run.code ? run.text : run.text.replace(/\\([\\`*_~[\]()#|!-])/g, "$1");
+  if (!text) return;
+
+  const previous = runs[runs.length - 1];
+  if (previous && sameStyle(previous, run)) {
+    previous.text += text;
+  } else {
+    runs.push({ ...run, text });
+  }
+}
+
+function sameStyle(a: InlineRun, b: InlineRun): boolean {
+  return (
+    !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.strike === !!b.strike &&
+    !!a.code === !!b.code &&
+    a.link === b.link
+  );
+}
+
+/**
+ * Plain text of inline runs
+ */
+export function runsToText(runs: InlineRun[]): string {
+  return runs.map((run) => run.text).join("");
+}
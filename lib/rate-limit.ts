@@ -36,45 +36,43 @@ class RateLimiter {
   /**
    * Check if request is allowed
    * @param identifier - User identifier (IP, userId, etc.)
+   * @param cost - Requests this call counts as (e.g. the images of a batch), default 1
    * @returns { success: boolean, limit: number, remaining: number, reset: number }
    */
-  check(identifier: string): {
+  check(
+    identifier: string,
+    cost: number = 1
+  ): {
     success: boolean;
     limit: number;
     remaining: number;
     reset: number;
   } {
     const now = Date.now();
-    const entry = this.cache.get(identifier);
+    const limit = this.config.uniqueTokenPerInterval;
+    let entry = this.cache.get(identifier);
 
     // No entry or expired - create new
     if (!entry || entry.resetAt < now) {
-      const resetAt = now + this.config.interval;
-      this.cache.set(identifier, { count: 1, resetAt });
-      return {
-        success: true,
-        limit: this.config.uniqueTokenPerInterval,
-        remaining: this.config.uniqueTokenPerInterval - 1,
-        reset: resetAt,
-      };
+      entry = { count: 0, resetAt: now + this.config.interval };
+      this.cache.set(identifier, entry);
     }
 
-    // Entry exists and not expired
-    if (entry.count < this.config.uniqueTokenPerInterval) {
-      entry.count++;
+    // Rate limit exceeded
+    if (entry.count + cost > limit) {
       return {
-        success: true,
-        limit: this.config.uniqueTokenPerInterval,
-        remaining: this.config.uniqueTokenPerInterval - entry.count,
+        success: false,
+        limit,
+        remaining: limit - entry.count,
         reset: entry.resetAt,
       };
     }
 
-    // Rate limit exceeded
+    entry.count += cost;
     return {
-      success: false,
-      limit: this.config.uniqueTokenPerInterval,
-      remaining: 0,
+      success: true,
+      limit,
+      remaining: limit - entry.count,
       reset: entry.resetAt,
     };
   }
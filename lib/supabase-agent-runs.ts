@@ -0,0 +1,203 @@
+import { supabaseAdmin } from './supabase-admin';
+import { logger } from './logger';
+import type { WorkflowRunStore, WorkflowRunUpdates } from './agents/base/WorkflowRunStore';
+import type {
+  AgentResult,
+  UsageSummary,
+  WorkflowPlan,
+  WorkflowRun,
+  WorkflowRunFilter,
+  WorkflowRunStatus,
+  WorkflowStepRun,
+  WorkflowStepStatus,
+} from './agents/base/types';
+
+/**
+ * Agent Workflow Runs Database Module
+ * Server-side persistence for AgentOrchestrator runs (service role, bypasses RLS).
+ * Writes throw so the orchestrator can log them; reads log and return empty results.
+ */
+
+const RUNS_TABLE = 'agent_workflow_runs';
+const STEPS_TABLE = 'agent_workflow_steps';
+
+// A row of the agent_workflow_steps table
+interface WorkflowStepRow {
+  run_id: string;
+  step_id: string;
+  step_name: string;
+  agent_name: string;
+  status: WorkflowStepStatus;
+  attempts: number | null;
+  result: AgentResult | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  execution_time: number | null;
+}
+
+// A row of the agent_workflow_runs table (with joined steps)
+interface WorkflowRunRow {
+  id: string;
+  orchestrator_name: string;
+  user_id: string | null;
+  plan: WorkflowPlan;
+  status: WorkflowRunStatus;
+  errors: string[] | null;
+  resume_count: number | null;
+  started_at: string;
+  completed_at: string | null;
+  execution_time: number | null;
+  usage: UsageSummary | null;
+  agent_workflow_steps?: WorkflowStepRow[];
+}
+
+type WorkflowRunRowUpdate = Partial<
+  Pick<WorkflowRunRow, 'status' | 'errors' | 'resume_count' | 'completed_at' | 'execution_time' | 'usage'>
+>;
+
+// Map a database row to the app-level WorkflowStepRun shape
+function mapStepRun(row: WorkflowStepRow): WorkflowStepRun {
+  return {
+    runId: row.run_id,
+    stepId: row.step_id,
+    stepName: row.step_name,
+    agentName: row.agent_name,
+    status: row.status,
+    attempts: row.attempts ?? undefined,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    executionTime: row.execution_time ?? undefined,
+  };
+}
+
+// Map a database row (with joined steps) to the app-level WorkflowRun shape
+function mapRun(row: WorkflowRunRow): WorkflowRun {
+  const steps: WorkflowStepRun[] = (row[STEPS_TABLE] || []).map(mapStepRun);
+  const stepOrder: string[] = (row.plan?.steps || []).map((step) => step.id);
+
+  return {
+    id: row.id,
+    orchestratorName: row.orchestrator_name,
+    userId: row.user_id ?? undefined,
+    plan: row.plan,
+    status: row.status,
+    errors: row.errors ?? undefined,
+    resumeCount: row.resume_count ?? 0,
+    // Keep steps in plan order
+    steps: steps.sort((a, b) => stepOrder.indexOf(a.stepId) - stepOrder.indexOf(b.stepId)),
+    startedAt: row.started_at,
+    completedAt: row.completed_at ?? undefined,
+    executionTime: row.execution_time ?? undefined,
+    usage: row.usage ?? undefined,
+  };
+}
+
+// Create a new workflow run
+export async function createWorkflowRun(run: WorkflowRun): Promise<void> {
+  const { error } = await supabaseAdmin.from(RUNS_TABLE).insert({
+    id: run.id,
+    orchestrator_name: run.orchestratorName,
+    user_id: run.userId,
+    plan: run.plan,
+    status: run.status,
+    errors: run.errors || [],
+    resume_count: run.resumeCount,
+    started_at: run.startedAt,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create workflow run: ${error.message}`);
+  }
+}
+
+// Update run status/timings
+export async function updateWorkflowRun(runId: string, updates: WorkflowRunUpdates): Promise<void> {
+  const updateData: WorkflowRunRowUpdate = {};
+
+  if (updates.status !== undefined) updateData.status = updates.status;
+  if (updates.errors !== undefined) updateData.errors = updates.errors;
+  if (updates.resumeCount !== undefined) updateData.resume_count = updates.resumeCount;
+  if (updates.completedAt !== undefined) updateData.completed_at = updates.completedAt;
+  if (updates.executionTime !== undefined) updateData.execution_time = updates.executionTime;
+  if (updates.usage !== undefined) updateData.usage = updates.usage;
+
+  const { error } = await supabaseAdmin.from(RUNS_TABLE).update(updateData).eq('id', runId);
+
+  if (error) {
+    throw new Error(`Failed to update workflow run: ${error.message}`);
+  }
+}
+
+// Insert or replace a step execution
+export async function saveWorkflowStep(step: WorkflowStepRun): Promise<void> {
+  const { error } = await supabaseAdmin.from(STEPS_TABLE).upsert(
+    {
+      run_id: step.runId,
+      step_id: step.stepId,
+      step_name: step.stepName,
+      agent_name: step.agentName,
+      status: step.status,
+      attempts: step.attempts ?? null,
+      result: step.result ?? null,
+      error: step.error ?? null,
+      started_at: step.startedAt ?? null,
+      completed_at: step.completedAt ?? null,
+      execution_time: step.executionTime ?? null,
+    },
+    { onConflict: 'run_id,step_id' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save workflow step: ${error.message}`);
+  }
+}
+
+// Get a single run with its steps
+export async function getWorkflowRun(runId: string): Promise<WorkflowRun | null> {
+  const { data: row, error } = await supabaseAdmin
+    .from(RUNS_TABLE)
+    .select(`*, ${STEPS_TABLE}(*)`)
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch workflow run', error, { component: 'AgentRuns', runId });
+    return null;
+  }
+
+  return row ? mapRun(row) : null;
+}
+
+// List runs (newest first) with their steps
+export async function getWorkflowRuns(filter: WorkflowRunFilter = {}): Promise<WorkflowRun[]> {
+  let query = supabaseAdmin
+    .from(RUNS_TABLE)
+    .select(`*, ${STEPS_TABLE}(*)`)
+    .order('started_at', { ascending: false })
+    .limit(filter.limit ?? 50);
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.orchestratorName) query = query.eq('orchestrator_name', filter.orchestratorName);
+  if (filter.status) query = query.eq('status', filter.status);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch workflow runs', error, { component: 'AgentRuns', userId: filter.userId });
+    return [];
+  }
+
+  return (data || []).map(mapRun);
+}
+
+// Run store backed by Supabase (pass to AgentOrchestrator as `store`)
+export const supabaseWorkflowRunStore: WorkflowRunStore = {
+  createRun: createWorkflowRun,
+  updateRun: updateWorkflowRun,
+  saveStep: saveWorkflowStep,
+  getRun: getWorkflowRun,
+  listRuns: getWorkflowRuns,
+};
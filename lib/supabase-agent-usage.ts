@@ -0,0 +1,153 @@
+import { supabaseAdmin } from './supabase-admin';
+import { logger } from './logger';
+import type { UsageRecord, UsageTotals } from './agents/base/types';
+import type { PresentationUsage, UsageSource, UserUsageSummary } from '@/types/usage';
+
+/**
+ * Agent Usage Database Module
+ * Server-side persistence for token usage and estimated cost (service role, bypasses RLS).
+ * Writes throw so callers can log them; reads log and return empty results.
+ */
+
+const TABLE_NAME = 'agent_usage';
+
+export interface UsageContext {
+  userId: string;
+  source: UsageSource;
+  presentationId?: string;
+  runId?: string;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+// A row of the agent_usage table
+interface UsageRow {
+  user_id: string;
+  source: UsageSource;
+  presentation_id: string | null;
+  run_id: string | null;
+  model: string;
+  agent_name: string | null;
+  tool_name: string | null;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+// Columns selected for usage summaries (NUMERIC cost_usd is returned as a string)
+type UsageSummaryRow = Pick<
+  UsageRow,
+  'source' | 'model' | 'presentation_id' | 'calls' | 'prompt_tokens' | 'completion_tokens'
+> & { cost_usd: number | string; presentations: { title: string } | null };
+
+function totalsFor(totalsByKey: Record<string, UsageTotals>, key: string): UsageTotals {
+  if (!totalsByKey[key]) totalsByKey[key] = emptyTotals();
+  return totalsByKey[key];
+}
+
+// Add a database row to usage totals
+function addRow(
+  totals: UsageTotals,
+  row: Pick<UsageSummaryRow, 'calls' | 'prompt_tokens' | 'completion_tokens' | 'cost_usd'>
+): void {
+  const promptTokens = row.prompt_tokens ?? 0;
+  const completionTokens = row.completion_tokens ?? 0;
+
+  totals.calls += row.calls ?? 0;
+  totals.promptTokens += promptTokens;
+  totals.completionTokens += completionTokens;
+  totals.totalTokens += promptTokens + completionTokens;
+  // NUMERIC columns are returned as strings
+  totals.costUsd = Math.round((totals.costUsd + Number(row.cost_usd ?? 0)) * 1_000_000) / 1_000_000;
+}
+
+// Save usage records, one row per model/agent/tool
+export async function saveUsage(records: UsageRecord[], context: UsageContext): Promise<void> {
+  if (records.length === 0) return;
+
+  const rows = new Map<string, UsageRow>();
+
+  for (const record of records) {
+    const key = [record.model, record.agentName ?? '', record.toolName ?? ''].join('|');
+    const row = rows.get(key) ?? {
+      user_id: context.userId,
+      source: context.source,
+      presentation_id: context.presentationId ?? null,
+      run_id: context.runId ?? null,
+      model: record.model,
+      agent_name: record.agentName ?? null,
+      tool_name: record.toolName ?? null,
+      calls: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      cost_usd: 0,
+    };
+
+    row.calls += 1;
+    row.prompt_tokens += record.promptTokens;
+    row.completion_tokens += record.completionTokens;
+    row.cost_usd += record.costUsd;
+    rows.set(key, row);
+  }
+
+  const { error } = await supabaseAdmin.from(TABLE_NAME).insert(Array.from(rows.values()));
+
+  if (error) {
+    throw new Error(`Failed to save usage: ${error.message}`);
+  }
+}
+
+// Get a user's usage since a date, by model, source and presentation
+export async function getUserUsage(
+  userId: string,
+  since: Date,
+  presentationLimit: number = 10
+): Promise<UserUsageSummary> {
+  const summary: UserUsageSummary = {
+    since: since.toISOString(),
+    totals: emptyTotals(),
+    byModel: {},
+    bySource: {},
+    presentations: [],
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select(
+      'source, model, presentation_id, calls, prompt_tokens, completion_tokens, cost_usd, presentations(title)'
+    )
+    .eq('user_id', userId)
+    .gte('created_at', summary.since);
+
+  if (error) {
+    logger.error('Failed to fetch usage', error, { component: 'AgentUsage', userId });
+    return summary;
+  }
+
+  const presentations = new Map<string, PresentationUsage>();
+
+  for (const row of (data || []) as unknown as UsageSummaryRow[]) {
+    addRow(summary.totals, row);
+    addRow(totalsFor(summary.byModel, row.model), row);
+    addRow(totalsFor(summary.bySource, row.source), row);
+
+    if (row.presentation_id) {
+      const presentation = presentations.get(row.presentation_id) ?? {
+        presentationId: row.presentation_id,
+        title: row.presentations?.title ?? undefined,
+        ...emptyTotals(),
+      };
+      addRow(presentation, row);
+      presentations.set(row.presentation_id, presentation);
+    }
+  }
+
+  summary.presentations = Array.from(presentations.values())
+    .sort((a, b) => b.costUsd - a.costUsd)
+    .slice(0, presentationLimit);
+
+  return summary;
+}
@@ -0,0 +1,263 @@
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from './supabase-admin';
+import { logger } from './logger';
+import { SLIDE_DIFF_FIELDS, type SlideDiffField } from './api/slides/slide-diff';
+import type { Slide, SlideRevision, SlideRevisionSource } from '@/types/slides';
+
+/**
+ * Slide Revisions Database Module
+ * Version history of slides (service role, bypasses RLS). A revision is the state of a
+ * slide before a change; restoring writes it back and records the replaced state first.
+ * Writes throw; reads log errors and return empty results.
+ */
+
+const TABLE_NAME = 'slide_revisions';
+const SLIDES_TABLE = 'slides';
+
+// Manual edits within this time after the last one extend its revision
+// (the editor saves while typing)
+const EDIT_SESSION_MS = 5 * 60 * 1000;
+
+export interface RevisionContext {
+  userId: string;
+  source: SlideRevisionSource;
+  /** Fields the change touches (empty: the whole slide was replaced) */
+  changedFields?: string[];
+  /** Groups revisions of one change, generated if missing */
+  batchId?: string;
+  /** 'presentation' if the slides are all slides of the presentation */
+  scope?: SlideRevision['scope'];
+}
+
+// Fields whose value differs between a slide and an update
+export function getChangedFields(
+  slide: Pick<Slide, SlideDiffField>,
+  update: Partial<Pick<Slide, SlideDiffField>>
+): SlideDiffField[] {
+  return SLIDE_DIFF_FIELDS.filter(
+    (field) => update[field] !== undefined && (update[field] ?? null) !== (slide[field] ?? null)
+  );
+}
+
+// Save the current state of slides before they are changed, returns the batch id
+export async function recordSlideRevisions(
+  slides: Slide[],
+  context: RevisionContext
+): Promise<string> {
+  const batchId = context.batchId ?? randomUUID();
+  if (slides.length === 0) return batchId;
+
+  const rows = slides.map((slide) => ({
+    presentation_id: slide.presentation_id,
+    slide_id: slide.id,
+    batch_id: batchId,
+    scope: context.scope ?? 'slide',
+    source: context.source,
+    changed_fields: context.changedFields ?? [],
+    created_by: context.userId,
+    order_index: slide.order_index,
+    title: slide.title,
+    content: slide.content,
+    layout: slide.layout,
+    background_color: slide.background_color ?? null,
+    background_image: slide.background_image ?? null,
+    speaker_notes: slide.speaker_notes ?? null,
+    citations: slide.citations ?? [],
+  }));
+
+  const { error } = await supabaseAdmin.from(TABLE_NAME).insert(rows);
+
+  if (error) {
+    throw new Error(`Failed to save slide revisions: ${error.message}`);
+  }
+
+  return batchId;
+}
+
+// Save the state of a slide before a manual edit. Edits by the same user in quick
+// succession share one revision (the state before the first of them).
+export async function recordSlideEdit(
+  slide: Slide,
+  userId: string,
+  changedFields: string[]
+): Promise<void> {
+  const [latest] = await getSlideRevisions(slide.presentation_id, slide.id, 1);
+
+  if (
+    latest &&
+    latest.source === 'manual' &&
+    latest.created_by === userId &&
+    Date.now() - new Date(latest.created_at).getTime() < EDIT_SESSION_MS
+  ) {
+    const fields = Array.from(new Set([...latest.changed_fields, ...changedFields]));
+    if (fields.length === latest.changed_fields.length) return;
+
+    const { error } = await supabaseAdmin
+      .from(TABLE_NAME)
+      .update({ changed_fields: fields })
+      .eq('id', latest.id);
+
+    if (error) {
+      throw new Error(`Failed to update slide revision: ${error.message}`);
+    }
+    return;
+  }
+
+  await recordSlideRevisions([slide], { userId, source: 'manual', changedFields });
+}
+
+// Get the revisions of a presentation (or one of its slides), newest first
+export async function getSlideRevisions(
+  presentationId: string,
+  slideId?: string,
+  limit: number = 100
+): Promise<SlideRevision[]> {
+  let query = supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('presentation_id', presentationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (slideId) {
+    query = query.eq('slide_id', slideId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch slide revisions', error, {
+      component: 'SlideRevisions',
+      presentationId,
+      slideId,
+    });
+    return [];
+  }
+
+  return (data || []) as SlideRevision[];
+}
+
+// Get a revision of a presentation
+export async function getSlideRevision(
+  presentationId: string,
+  revisionId: string
+): Promise<SlideRevision | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('id', revisionId)
+    .eq('presentation_id', presentationId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch slide revision', error, {
+      component: 'SlideRevisions',
+      presentationId,
+      revisionId,
+    });
+    return null;
+  }
+
+  return data as SlideRevision | null;
+}
+
+// Get all revisions written by one change (in slide order)
+export async function getRevisionBatch(
+  presentationId: string,
+  batchId: string
+): Promise<SlideRevision[]> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('presentation_id', presentationId)
+    .eq('batch_id', batchId)
+    .order('order_index', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch revision batch', error, {
+      component: 'SlideRevisions',
+      presentationId,
+      batchId,
+    });
+    return [];
+  }
+
+  return (data || []) as SlideRevision[];
+}
+
+function toSlideRow(revision: SlideRevision) {
+  return {
+    id: revision.slide_id,
+    presentation_id: revision.presentation_id,
+    order_index: revision.order_index,
+    ...Object.fromEntries(SLIDE_DIFF_FIELDS.map((field) => [field, revision[field]])),
+    // Revisions from before citations were stored have none
+    citations: revision.citations ?? [],
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Restore one slide (re-created if it was removed since), returns the restored slide
+export async function restoreSlideRevision(
+  userId: string,
+  revision: SlideRevision,
+  currentSlide?: Slide
+): Promise<Slide> {
+  if (currentSlide) {
+    await recordSlideRevisions([currentSlide], {
+      userId,
+      source: 'restore',
+      changedFields: getChangedFields(currentSlide, revision),
+    });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(SLIDES_TABLE)
+    .upsert(toSlideRow(revision))
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to restore slide: ${error?.message ?? 'No slide returned'}`);
+  }
+
+  return data as Slide;
+}
+
+// Restore a presentation to the state before a change (a batch with scope 'presentation'),
+// returns the restored slides
+export async function restorePresentationRevision(
+  userId: string,
+  presentationId: string,
+  revisions: SlideRevision[],
+  currentSlides: Slide[]
+): Promise<Slide[]> {
+  await recordSlideRevisions(currentSlides, { userId, source: 'restore', scope: 'presentation' });
+
+  // Slides added by the change are removed, the others are written back
+  const restoredIds = new Set(revisions.map((revision) => revision.slide_id));
+  const addedIds = currentSlides.map((slide) => slide.id).filter((id) => !restoredIds.has(id));
+
+  if (addedIds.length > 0) {
+    const { error: deleteError } = await supabaseAdmin
+      .from(SLIDES_TABLE)
+      .delete()
+      .eq('presentation_id', presentationId)
+      .in('id', addedIds);
+
+    if (deleteError) {
+      throw new Error(`Failed to remove slides: ${deleteError.message}`);
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(SLIDES_TABLE)
+    .upsert(revisions.map(toSlideRow))
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to restore slides: ${error.message}`);
+  }
+
+  return ((data || []) as Slide[]).sort((a, b) => a.order_index - b.order_index);
+}
@@ -0,0 +1,211 @@
+import { supabaseAdmin } from './supabase-admin';
+import { logger } from './logger';
+import type {
+  Presentation,
+  PresentationFormat,
+  PresentationTheme,
+  Slide,
+} from '@/types/slides';
+import type { ParsedSlide } from './api/slides/slides-parser';
+import type {
+  ResearchServiceOutput,
+  TopicWithResearch,
+} from './api/slides/agents/pipeline/types';
+
+/**
+ * Slides Database Module
+ * Server-side access to presentations and their slides (service role, bypasses RLS).
+ * Reads check ownership via user_id, log errors and return null; writes throw.
+ */
+
+const PRESENTATIONS_TABLE = 'presentations';
+const SLIDES_TABLE = 'slides';
+const IMAGES_BUCKET = 'images';
+
+export interface PresentationWithSlides {
+  presentation: Presentation;
+  slides: Slide[];
+}
+
+// Get a user's presentation with its slides (in slide order)
+export async function getPresentationWithSlides(
+  presentationId: string,
+  userId: string
+): Promise<PresentationWithSlides | null> {
+  const { data: presentation, error: presentationError } = await supabaseAdmin
+    .from(PRESENTATIONS_TABLE)
+    .select('*')
+    .eq('id', presentationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (presentationError) {
+    logger.error('Failed to fetch presentation', presentationError, {
+      component: 'Slides',
+      presentationId,
+    });
+    return null;
+  }
+
+  if (!presentation) return null;
+
+  const { data: slides, error: slidesError } = await supabaseAdmin
+    .from(SLIDES_TABLE)
+    .select('*')
+    .eq('presentation_id', presentationId)
+    .order('order_index', { ascending: true });
+
+  if (slidesError) {
+    logger.error('Failed to fetch slides', slidesError, { component: 'Slides', presentationId });
+    return null;
+  }
+
+  return {
+    presentation: presentation as Presentation,
+    slides: (slides || []) as Slide[],
+  };
+}
+
+export interface GenerationContext {
+  topics: TopicWithResearch[];
+  research?: ResearchServiceOutput;
+}
+
+// Get the topic outline and research stored by the pipeline run of a presentation
+export async function getGenerationContext(presentationId: string): Promise<GenerationContext> {
+  const { data, error } = await supabaseAdmin
+    .from(PRESENTATIONS_TABLE)
+    .select('topics, research_data')
+    .eq('id', presentationId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch generation context', error, {
+      component: 'Slides',
+      presentationId,
+    });
+  }
+
+  return {
+    topics: Array.isArray(data?.topics) ? (data.topics as TopicWithResearch[]) : [],
+    research: (data?.research_data as ResearchServiceOutput | null) ?? undefined,
+  };
+}
+
+// Update fields of a slide, returns the updated slide
+export async function updateSlide(
+  presentationId: string,
+  slideId: string,
+  update: Partial<Omit<Slide, 'id' | 'presentation_id' | 'created_at'>>
+): Promise<Slide> {
+  const { data, error } = await supabaseAdmin
+    .from(SLIDES_TABLE)
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', slideId)
+    .eq('presentation_id', presentationId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update slide: ${error?.message ?? 'Slide not found'}`);
+  }
+
+  return data as Slide;
+}
+
+// Set the built-in and/or custom theme of a user's presentation, returns the presentation
+export async function updatePresentationTheme(
+  presentationId: string,
+  userId: string,
+  update: Partial<Pick<Presentation, 'theme' | 'custom_theme_id'>>
+): Promise<Presentation> {
+  const { data, error } = await supabaseAdmin
+    .from(PRESENTATIONS_TABLE)
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', presentationId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update presentation theme: ${error?.message ?? 'Not found'}`);
+  }
+
+  return data as Presentation;
+}
+
+export interface NewPresentation {
+  title: string;
+  prompt: string;
+  format: PresentationFormat;
+  theme: PresentationTheme;
+}
+
+// Create a ready presentation with its slides (e.g. an imported deck)
+export async function createPresentationWithSlides(
+  userId: string,
+  presentation: NewPresentation,
+  slides: ParsedSlide[]
+): Promise<PresentationWithSlides> {
+  const { data: created, error: presentationError } = await supabaseAdmin
+    .from(PRESENTATIONS_TABLE)
+    .insert({ ...presentation, user_id: userId, status: 'ready' })
+    .select()
+    .single();
+
+  if (presentationError || !created) {
+    logger.error('Failed to create presentation', presentationError, { component: 'Slides' });
+    throw new Error(`Failed to create presentation: ${presentationError?.message}`);
+  }
+
+  const { data: createdSlides, error: slidesError } = await supabaseAdmin
+    .from(SLIDES_TABLE)
+    .insert(
+      slides.map((slide) => ({
+        presentation_id: created.id,
+        order_index: slide.order_index,
+        title: slide.title,
+        content: slide.content,
+        layout: slide.layout,
+        speaker_notes: slide.speaker_notes ?? null,
+        background_color: slide.background_color ?? null,
+        background_image: slide.background_image ?? null,
+      }))
+    )
+    .select()
+    .order('order_index', { ascending: true });
+
+  if (slidesError) {
+    logger.error('Failed to create slides', slidesError, {
+      component: 'Slides',
+      presentationId: created.id,
+    });
+    // Slides are deleted with the presentation (ON DELETE CASCADE)
+    await supabaseAdmin.from(PRESENTATIONS_TABLE).delete().eq('id', created.id);
+    throw new Error(`Failed to create slides: ${slidesError.message}`);
+  }
+
+  return {
+    presentation: created as Presentation,
+    slides: (createdSlides || []) as Slide[],
+  };
+}
+
+// Upload an image used on a slide, returns its public URL (null on failure)
+export async function uploadSlideImage(
+  userId: string,
+  image: { data: Uint8Array; fileName: string; mimeType: string }
+): Promise<string | null> {
+  const filePath = `${userId}/slides/${Date.now()}_${image.fileName}`;
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(IMAGES_BUCKET)
+    .upload(filePath, image.data, { contentType: image.mimeType, upsert: false });
+
+  if (error) {
+    logger.error('Failed to upload slide image', error, { component: 'Slides', filePath });
+    return null;
+  }
+
+  return supabaseAdmin.storage.from(IMAGES_BUCKET).getPublicUrl(data.path).data.publicUrl;
+}
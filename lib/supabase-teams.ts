@@ -0,0 +1,87 @@
+import { supabaseAdmin } from "./supabase-admin";
+import { logger } from "./logger";
+
+/**
+ * Teams Database Module
+ * Team membership (service role, bypasses RLS) and the access rules of records a user
+ * can share with a team (presentation themes, workflow presets): a shared record can be
+ * used by its owner and by the members of its team; only the owner can change it.
+ */
+
+const TABLE_NAME = "team_members";
+
+export interface TeamSharedRecord {
+  id: string;
+  user_id: string;
+  team_id: string | null;
+  name: string;
+}
+
+type RecordsResult<T> = { data: T[] | null; error: { message: string } | null };
+
+// Whether a user is a member of a team (false on errors)
+export async function isTeamMember(teamId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select("team_id")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to check team membership", error, { component: "Teams", teamId, userId });
+    return false;
+  }
+
+  return !!data;
+}
+
+/**
+ * Whether a user may use a shared record: the owner, or a member of the record's team
+ * Membership is only checked for the signed-in user (`authUserId`, resolved server-side) -
+ * a client-supplied userId can't grant team access.
+ */
+export async function canUseTeamRecord(
+  record: Pick<TeamSharedRecord, "user_id" | "team_id">,
+  userId: string,
+  authUserId?: string
+): Promise<boolean> {
+  if (record.user_id === userId) {
+    return true;
+  }
+
+  return !!record.team_id && !!authUserId && isTeamMember(record.team_id, authUserId);
+}
+
+/**
+ * Records of a user and of a team (the caller checks membership), by name
+ *
+ * `select` runs one filtered query per column, so ids never end up in a
+ * PostgREST filter string (e.g. `.or()`).
+ */
+export async function getOwnAndTeamRecords<T extends TeamSharedRecord>(
+  select: (column: "user_id" | "team_id", value: string) => PromiseLike<RecordsResult<T>>,
+  userId: string,
+  teamId?: string | null
+): Promise<RecordsResult<T>> {
+  const [own, team] = await Promise.all([
+    select("user_id", userId),
+    teamId ? select("team_id", teamId) : { data: [], error: null },
+  ]);
+
+  const error = own.error ?? team.error;
+  if (error) {
+    return { data: null, error };
+  }
+
+  // Own records shared with the team are in both results
+  const records = new Map<string, T>();
+  for (const record of [...(own.data || []), ...(team.data || [])]) {
+    records.set(record.id, record);
+  }
+
+  return {
+    data: [...records.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    error: null,
+  };
+}
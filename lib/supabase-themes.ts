@@ -0,0 +1,118 @@
+import { supabaseAdmin } from './supabase-admin';
+import { logger } from './logger';
+import { getOwnAndTeamRecords } from './supabase-teams';
+import type { CustomTheme, Presentation } from '@/types/slides';
+
+/**
+ * Presentation Themes Database Module
+ * Custom (corporate) themes of users and teams (service role, bypasses RLS).
+ * Themes are team-shared records, access rules: see supabase-teams.
+ * Writes throw; reads log errors and return empty results.
+ */
+
+const TABLE_NAME = 'presentation_themes';
+
+export type CustomThemeFields = Pick<
+  CustomTheme,
+  | 'team_id'
+  | 'name'
+  | 'palette'
+  | 'heading_font'
+  | 'body_font'
+  | 'logo_url'
+  | 'logo_position'
+  | 'footer_text'
+  | 'show_slide_numbers'
+  | 'background_image'
+>;
+
+// Get the themes of a user and of a team of the user (callers check membership), by name
+export async function getThemes(userId: string, teamId?: string | null): Promise<CustomTheme[]> {
+  const { data, error } = await getOwnAndTeamRecords<CustomTheme>(
+    (column, value) => supabaseAdmin.from(TABLE_NAME).select('*').eq(column, value),
+    userId,
+    teamId
+  );
+
+  if (error) {
+    logger.error('Failed to fetch themes', error, { component: 'Themes', userId, teamId });
+    return [];
+  }
+
+  return data || [];
+}
+
+// Get a theme by id (callers check access with canUseTeamRecord)
+export async function getTheme(themeId: string): Promise<CustomTheme | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('id', themeId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch theme', error, { component: 'Themes', themeId });
+    return null;
+  }
+
+  return data as CustomTheme | null;
+}
+
+// Get the custom theme of a presentation (null: built-in theme)
+export async function getPresentationTheme(
+  presentation: Pick<Presentation, 'custom_theme_id'>
+): Promise<CustomTheme | null> {
+  return presentation.custom_theme_id ? getTheme(presentation.custom_theme_id) : null;
+}
+
+export async function createTheme(userId: string, fields: CustomThemeFields): Promise<CustomTheme> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .insert({ ...fields, user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create theme: ${error.message}`);
+  }
+
+  return data as CustomTheme;
+}
+
+// Update a theme of a user, returns null if the user does not own it
+export async function updateTheme(
+  themeId: string,
+  userId: string,
+  fields: Partial<CustomThemeFields>
+): Promise<CustomTheme | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .update(fields)
+    .eq('id', themeId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update theme: ${error.message}`);
+  }
+
+  return data as CustomTheme | null;
+}
+
+// Delete a theme of a user (presentations using it fall back to their built-in theme),
+// returns false if the user does not own it
+export async function deleteTheme(themeId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .delete()
+    .eq('id', themeId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete theme: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,375 @@
+import { supabaseAdmin } from './supabase-admin';
+import { videoLogger } from './logger';
+import VideoProviderRegistry from './video/providers/ProviderRegistry';
+import type { VideoJob, VideoModel, VideoStatus, VideoType } from '@/types/video';
+import type { Message } from '@/types/chat';
+
+/**
+ * Video Jobs Database Module
+ * Server-side persistence for video jobs (service role, bypasses RLS).
+ * Also writes job results into library_items and the chat message.
+ */
+
+const TABLE_NAME = 'video_jobs';
+
+export interface CreateVideoJobData {
+  messageId?: string;
+  conversationId?: string;
+  model: VideoModel;
+  requestedModel?: VideoModel;
+  type: VideoType;
+  taskId: string;
+  prompt?: string;
+  settings?: VideoJob['settings'];
+}
+
+export type VideoJobUpdates = Partial<
+  Pick<
+    VideoJob,
+    | 'status'
+    | 'videoUrl'
+    | 'libraryItemId'
+    | 'error'
+    | 'pollAttempts'
+    | 'consecutiveErrors'
+    | 'nextPollAt'
+    | 'completedAt'
+  >
+>;
+
+// A row of the video_jobs table
+interface VideoJobRow {
+  id: string;
+  user_id: string;
+  message_id: string | null;
+  conversation_id: string | null;
+  model: VideoModel;
+  requested_model: VideoModel | null;
+  type: VideoType;
+  task_id: string;
+  status: VideoStatus;
+  prompt: string | null;
+  settings: VideoJob['settings'] | null;
+  video_url: string | null;
+  library_item_id: string | null;
+  error: string | null;
+  poll_attempts: number | null;
+  consecutive_errors: number | null;
+  next_poll_at: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+type VideoJobRowUpdate = Partial<
+  Pick<
+    VideoJobRow,
+    | 'status'
+    | 'video_url'
+    | 'library_item_id'
+    | 'error'
+    | 'poll_attempts'
+    | 'consecutive_errors'
+    | 'next_poll_at'
+    | 'completed_at'
+  >
+>;
+
+// Map a database row to the app-level VideoJob shape
+function mapVideoJob(row: VideoJobRow): VideoJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    messageId: row.message_id ?? undefined,
+    conversationId: row.conversation_id ?? undefined,
+    model: row.model,
+    requestedModel: row.requested_model ?? undefined,
+    type: row.type,
+    taskId: row.task_id,
+    status: row.status,
+    prompt: row.prompt ?? undefined,
+    settings: row.settings || {},
+    videoUrl: row.video_url ?? undefined,
+    libraryItemId: row.library_item_id ?? undefined,
+    error: row.error ?? undefined,
+    pollAttempts: row.poll_attempts ?? 0,
+    consecutiveErrors: row.consecutive_errors ?? 0,
+    nextPollAt: row.next_poll_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+// Create a new video job for a freshly created provider task
+export async function createVideoJob(userId: string, data: CreateVideoJobData): Promise<VideoJob | null> {
+  const { data: row, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .insert({
+      user_id: userId,
+      message_id: data.messageId,
+      conversation_id: data.conversationId,
+      model: data.model,
+      requested_model: data.requestedModel,
+      type: data.type,
+      task_id: data.taskId,
+      status: 'processing',
+      prompt: data.prompt,
+      settings: data.settings || {},
+    })
+    .select()
+    .single();
+
+  if (error) {
+    videoLogger.error('Failed to create video job', error, { userId, taskId: data.taskId });
+    return null;
+  }
+
+  return mapVideoJob(row);
+}
+
+/**
+ * Check that the chat message and conversation of a new job don't belong to another user
+ * Both may not be saved yet when the task is created (the client saves them in the background),
+ * so only rows of other users are rejected - updateVideoJobMessage checks ownership again.
+ */
+export async function isVideoJobTargetAllowed(
+  userId: string,
+  target: { messageId?: string; conversationId?: string }
+): Promise<boolean> {
+  const { messageId, conversationId } = target;
+
+  // Messages are only owned through their conversation
+  if (messageId && !conversationId) return false;
+  if (!conversationId) return true;
+
+  const { data: conversation, error } = await supabaseAdmin
+    .from('conversations')
+    .select('user_id')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    videoLogger.error('Failed to check video job conversation', error, { userId, conversationId });
+    return false;
+  }
+
+  if (conversation && conversation.user_id !== userId) return false;
+  if (!messageId) return true;
+
+  const { data: message, error: messageError } = await supabaseAdmin
+    .from('messages')
+    .select('conversation_id')
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (messageError) {
+    videoLogger.error('Failed to check video job message', messageError, { userId, messageId });
+    return false;
+  }
+
+  return !message || message.conversation_id === conversationId;
+}
+
+// Get a single video job owned by the user
+export async function getVideoJob(userId: string, jobId: string): Promise<VideoJob | null> {
+  const { data: row, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    videoLogger.error('Failed to fetch video job', error, { userId, jobId });
+    return null;
+  }
+
+  return row ? mapVideoJob(row) : null;
+}
+
+// Get the user's video jobs (newest first), optionally only the ones still processing
+export async function getVideoJobs(
+  userId: string,
+  options: { status?: VideoStatus; limit?: number } = {}
+): Promise<VideoJob[]> {
+  let query = supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    videoLogger.error('Failed to fetch video jobs', error, { userId });
+    return [];
+  }
+
+  return (data || []).map(mapVideoJob);
+}
+
+// Find a job by provider task id (used by provider webhooks)
+export async function getVideoJobByTaskId(models: VideoModel[], taskId: string): Promise<VideoJob | null> {
+  const { data: row, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .in('model', models)
+    .eq('task_id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    videoLogger.error('Failed to fetch video job by task id', error, { taskId });
+    return null;
+  }
+
+  return row ? mapVideoJob(row) : null;
+}
+
+// Get processing jobs whose next poll is due (used by the worker)
+export async function getDueVideoJobs(limit: number): Promise<VideoJob[]> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('status', 'processing')
+    .lte('next_poll_at', new Date().toISOString())
+    .order('next_poll_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    videoLogger.error('Failed to fetch due video jobs', error);
+    return [];
+  }
+
+  return (data || []).map(mapVideoJob);
+}
+
+/**
+ * Update a video job and return the new state
+ * With `ifStatus` the update only applies while the job has that status (atomic claim):
+ * returns null if another process (worker instance, webhook) changed the job first
+ */
+export async function updateVideoJob(
+  jobId: string,
+  updates: VideoJobUpdates,
+  options: { ifStatus?: VideoStatus } = {}
+): Promise<VideoJob | null> {
+  const updateData: VideoJobRowUpdate = {};
+
+  if (updates.status !== undefined) updateData.status = updates.status;
+  if (updates.videoUrl !== undefined) updateData.video_url = updates.videoUrl;
+  if (updates.libraryItemId !== undefined) updateData.library_item_id = updates.libraryItemId;
+  if (updates.error !== undefined) updateData.error = updates.error;
+  if (updates.pollAttempts !== undefined) updateData.poll_attempts = updates.pollAttempts;
+  if (updates.consecutiveErrors !== undefined) updateData.consecutive_errors = updates.consecutiveErrors;
+  if (updates.nextPollAt !== undefined) updateData.next_poll_at = updates.nextPollAt;
+  if (updates.completedAt !== undefined) updateData.completed_at = updates.completedAt;
+
+  let query = supabaseAdmin.from(TABLE_NAME).update(updateData).eq('id', jobId);
+
+  if (options.ifStatus) {
+    query = query.eq('status', options.ifStatus);
+  }
+
+  const { data: row, error } = await query.select().maybeSingle();
+
+  if (error) {
+    videoLogger.error('Failed to update video job', error, { jobId });
+    return null;
+  }
+
+  return row ? mapVideoJob(row) : null;
+}
+
+// Save the finished video into the user's library, returns the library item id
+export async function saveVideoJobToLibrary(
+  job: VideoJob,
+  item: { url: string; name: string; model: string }
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('library_items')
+    .insert({
+      user_id: job.userId,
+      type: 'video',
+      url: item.url,
+      name: item.name,
+      prompt: job.prompt,
+      model: item.model,
+      message_id: job.messageId,
+      conversation_id: job.conversationId,
+      metadata: {
+        duration: (job.settings.duration || '5') + 's',
+        aspectRatio: job.settings.aspectRatio || '16:9',
+        videoJobId: job.id,
+      },
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    videoLogger.error('Failed to save video job to library', error, { jobId: job.id });
+    return null;
+  }
+
+  return data.id;
+}
+
+// Write the job result into the chat message so it survives reloads
+export async function updateVideoJobMessage(
+  job: VideoJob,
+  updates: { content: string; attachments?: Array<{ type: 'video'; url: string; name: string }> }
+): Promise<void> {
+  if (!job.messageId || !job.conversationId) return;
+
+  // Only write into messages of the job's user (the ids come from the client)
+  const { data: conversation, error: conversationError } = await supabaseAdmin
+    .from('conversations')
+    .select('id')
+    .eq('id', job.conversationId)
+    .eq('user_id', job.userId)
+    .maybeSingle();
+
+  if (conversationError || !conversation) {
+    videoLogger.warn('Video job message not updated, conversation not owned by the job user', {
+      jobId: job.id,
+      conversationId: job.conversationId,
+    });
+    return;
+  }
+
+  const updateData: {
+    content: string;
+    video_task: NonNullable<Message['videoTask']>;
+    attachments?: Array<{ type: 'video'; url: string; name: string }>;
+  } = {
+    content: updates.content,
+    video_task: {
+      taskId: job.taskId,
+      status: job.status,
+      model: job.model,
+      provider: VideoProviderRegistry.get(job.model)?.provider,
+      requestedModel: job.requestedModel,
+      type: job.type,
+      duration: job.settings.duration || '5',
+      aspectRatio: job.settings.aspectRatio || '16:9',
+      progress: job.status === 'succeed' ? 100 : undefined,
+      error: job.error,
+    },
+  };
+  if (updates.attachments) updateData.attachments = updates.attachments;
+
+  const { error } = await supabaseAdmin
+    .from('messages')
+    .update(updateData)
+    .eq('id', job.messageId)
+    .eq('conversation_id', job.conversationId);
+
+  if (error) {
+    videoLogger.error('Failed to update video job message', error, { jobId: job.id, messageId: job.messageId });
+  }
+}
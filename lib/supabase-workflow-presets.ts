@@ -0,0 +1,159 @@
+import { supabaseAdmin } from "./supabase-admin";
+import { logger } from "./logger";
+import { getOwnAndTeamRecords } from "./supabase-teams";
+import { uploadWorkflowImage } from "./utils/workflowDatabase";
+import type { WorkflowPreset } from "@/types/workflows/presets";
+
+/**
+ * Workflow Presets Database Module
+ * User-saved presets of the image workflows (service role, bypasses RLS).
+ * Presets are team-shared records, access rules: see supabase-teams.
+ */
+
+const TABLE_NAME = "workflow_presets";
+
+export type WorkflowPresetFields = Pick<
+  WorkflowPreset,
+  "team_id" | "name" | "settings" | "prompt" | "reference_image_url"
+>;
+
+// Get the presets of a workflow of a user and of a team of the user (callers check
+// membership), by name; reads log errors and return empty results
+export async function getPresets(
+  workflow: string,
+  userId: string,
+  teamId?: string | null
+): Promise<WorkflowPreset[]> {
+  const { data, error } = await getOwnAndTeamRecords<WorkflowPreset>(
+    (column, value) =>
+      supabaseAdmin.from(TABLE_NAME).select("*").eq("workflow", workflow).eq(column, value),
+    userId,
+    teamId
+  );
+
+  if (error) {
+    logger.error("Failed to fetch presets", error, {
+      component: "WorkflowPresets",
+      workflow,
+      userId,
+      teamId,
+    });
+    return [];
+  }
+
+  return data || [];
+}
+
+// Get a preset of a workflow by id (callers check access with canUseTeamRecord)
+export async function getPreset(
+  workflow: string,
+  presetId: string
+): Promise<WorkflowPreset | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .select("*")
+    .eq("id", presetId)
+    .eq("workflow", workflow)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to fetch preset", error, { component: "WorkflowPresets", presetId });
+    return null;
+  }
+
+  return data as WorkflowPreset | null;
+}
+
+// Create a preset (writes throw)
+export async function createPreset(
+  workflow: string,
+  userId: string,
+  fields: WorkflowPresetFields
+): Promise<WorkflowPreset> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .insert({ ...fields, workflow, user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create preset: ${error.message}`);
+  }
+
+  return data as WorkflowPreset;
+}
+
+// Update a preset of a user, returns null if the user does not own it
+export async function updatePreset(
+  workflow: string,
+  presetId: string,
+  userId: string,
+  fields: Partial<WorkflowPresetFields>
+): Promise<WorkflowPreset | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .update(fields)
+    .eq("id", presetId)
+    .eq("workflow", workflow)
+    .eq("user_id", userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update preset: ${error.message}`);
+  }
+
+  return data as WorkflowPreset | null;
+}
+
+// Delete a preset of a user, returns false if the user does not own it
+export async function deletePreset(
+  workflow: string,
+  presetId: string,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE_NAME)
+    .delete()
+    .eq("id", presetId)
+    .eq("workflow", workflow)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete preset: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Store the reference image of a preset: data URLs are uploaded to storage,
+ * URLs of already stored images (e.g. of a generation) are kept
+ */
+export async function storePresetReferenceImage(
+  userId: string,
+  referenceImage: string | null | undefined
+): Promise<string | null> {
+  if (!referenceImage) {
+    return null;
+  }
+
+  const match = referenceImage.match(/^data:(image\/[\w.+-]+);base64,(.+)$/);
+  if (!match) {
+    return referenceImage;
+  }
+
+  const [, mimeType, data] = match;
+  const url = await uploadWorkflowImage(
+    userId,
+    { data: Buffer.from(data!, "base64"), mimeType: mimeType! },
+    `preset-reference.${mimeType!.split("/")[1]}`
+  );
+
+  if (!url) {
+    throw new Error("Failed to upload preset reference image");
+  }
+
+  return url;
+}
@@ -71,3 +71,42 @@ export async function promiseAllWithLimitSettled<T>(
 
   return promiseAllWithLimit(wrappedTasks, limit);
 }
+
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `limit` tasks at once (in FIFO order)
+ * Unlike promiseAllWithLimit, tasks can be added while others are running
+ *
+ * @param limit - Max number of concurrent executions
+ *
+ * @example
+ * const limit = createConcurrencyLimiter(3);
+ * const results = await Promise.all(items.map(item => limit(() => processItem(item))));
+ */
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= limit) return;
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
@@ -1,4 +1,5 @@
 import { videoLogger } from '@/lib/logger';
+import type { VideoModel } from '@/types/video';
 
 /**
  * Video Cache Utility
@@ -18,7 +19,7 @@ import { videoLogger } from '@/lib/logger';
 interface VideoCacheEntry {
   videoUrl: string;
   taskId: string;
-  model: "payperwork-v1" | "payperwork-v2";
+  model: VideoModel;
   timestamp: number;
   accessCount: number;
   duration?: string;
@@ -228,7 +229,7 @@ if (typeof window !== "undefined") {
  */
 export async function getCachedVideo(
   taskId: string,
-  fetcher: () => Promise<{ videoUrl: string; model: "payperwork-v1" | "payperwork-v2"; duration?: string; aspectRatio?: string }>
+  fetcher: () => Promise<{ videoUrl: string; model: VideoModel; duration?: string; aspectRatio?: string }>
 ): Promise<string> {
   // Check cache first (by task ID)
   const cached = videoCache.get(taskId);
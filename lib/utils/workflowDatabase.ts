@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { logger } from '@/lib/logger';
+import { buildGenerationLineage, type GenerationLineage } from "./workflowLineage";
 
 /**
  * Shared database operations for workflow generations (Sketch-to-Render, Branding, etc.)
@@ -247,3 +248,93 @@ export async function getWorkflowGenerationById(
     return null;
   }
 }
+
+/**
+ * Upload a generated image to storage (server-side, same path as client uploads)
+ * Returns its public URL (null on failure)
+ */
+export async function uploadWorkflowImage(
+  userId: string,
+  image: { data: Buffer | Uint8Array; mimeType: string },
+  fileName: string
+): Promise<string | null> {
+  try {
+    const filePath = `${userId}/${Date.now()}_${fileName}`;
+
+    const { data, error } = await supabaseAdmin.storage
+      .from("images")
+      .upload(filePath, image.data, { contentType: image.mimeType, upsert: false });
+
+    if (error) {
+      logger.error(`[Workflow Storage] Error uploading image:`, error);
+      return null;
+    }
+
+    return supabaseAdmin.storage.from("images").getPublicUrl(data.path).data.publicUrl;
+  } catch (error) {
+    logger.error(`[Workflow Storage] Unexpected error:`, error);
+    return null;
+  }
+}
+
+const MAX_LINEAGE_DEPTH = 20;
+
+/**
+ * Get the lineage (derivation tree) of a generation from a workflow table
+ *
+ * Loads the ancestors via parent_id up to the root and then all descendants
+ * of the root level by level (both limited to MAX_LINEAGE_DEPTH levels)
+ */
+export async function getWorkflowGenerationLineage(
+  tableName: string,
+  userId: string,
+  generationId: string
+): Promise<GenerationLineage | null> {
+  const generation = await getWorkflowGenerationById(tableName, userId, generationId);
+  if (!generation) {
+    return null;
+  }
+
+  try {
+    const generations = new Map<string, WorkflowGeneration>([[String(generation.id), generation]]);
+
+    // Ancestors
+    let root = generation;
+    for (let depth = 0; root.parent_id && depth < MAX_LINEAGE_DEPTH; depth++) {
+      if (generations.has(String(root.parent_id))) break;
+
+      const parent = await getWorkflowGenerationById(tableName, userId, root.parent_id);
+      if (!parent) break;
+
+      generations.set(String(parent.id), parent);
+      root = parent;
+    }
+
+    // Descendants of the root
+    let levelIds = [String(root.id)];
+    for (let depth = 0; levelIds.length > 0 && depth < MAX_LINEAGE_DEPTH; depth++) {
+      const { data: children, error } = await supabaseAdmin
+        .from(tableName)
+        .select("*")
+        .eq("user_id", userId)
+        .in("parent_id", levelIds);
+
+      if (error) {
+        logger.error(`[${tableName} DB] Error fetching lineage:`, error);
+        break;
+      }
+
+      levelIds = [];
+      for (const child of (children || []) as WorkflowGeneration[]) {
+        if (generations.has(String(child.id))) continue;
+        generations.set(String(child.id), child);
+        levelIds.push(String(child.id));
+      }
+    }
+
+    return buildGenerationLineage([...generations.values()], String(generation.id));
+  } catch (error) {
+    logger.error(`[${tableName} DB] Unexpected error:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,92 @@
+import type { WorkflowGeneration } from "./workflowDatabase";
+
+/**
+ * Derivation tree of workflow generations (render → edit → upscale → video)
+ * built from parent_id. Pure helpers, used by the lineage API and the lightbox.
+ */
+
+export interface GenerationLineageNode {
+  generation: WorkflowGeneration;
+  children: GenerationLineageNode[];
+}
+
+export interface GenerationLineage {
+  root: GenerationLineageNode;
+  /** Ids from the root to the requested generation */
+  path: string[];
+  /** Input image (e.g. sketch) of the root generation */
+  sourceImage: string | null;
+}
+
+/**
+ * Builds the lineage of a generation from the generations of its tree
+ * (ancestors and descendants; unrelated generations are ignored)
+ *
+ * Returns null if the generation is not in the list
+ */
+export function buildGenerationLineage(
+  generations: WorkflowGeneration[],
+  generationId: string
+): GenerationLineage | null {
+  const byId = new Map(generations.map((gen) => [String(gen.id), gen]));
+
+  const generation = byId.get(String(generationId));
+  if (!generation) {
+    return null;
+  }
+
+  // Walk up to the root (parents missing from the list end the chain)
+  const path = [String(generation.id)];
+  let current = generation;
+  while (current.parent_id && byId.has(String(current.parent_id))) {
+    const parentId = String(current.parent_id);
+    if (path.includes(parentId)) break; // Cycle guard
+    path.unshift(parentId);
+    current = byId.get(parentId)!;
+  }
+
+  const childrenByParent = new Map<string, WorkflowGeneration[]>();
+  for (const gen of generations) {
+    if (!gen.parent_id) continue;
+    const siblings = childrenByParent.get(String(gen.parent_id)) ?? [];
+    siblings.push(gen);
+    childrenByParent.set(String(gen.parent_id), siblings);
+  }
+
+  const visited = new Set<string>();
+  const buildNode = (gen: WorkflowGeneration): GenerationLineageNode => {
+    visited.add(String(gen.id));
+    const children = (childrenByParent.get(String(gen.id)) ?? [])
+      .filter((child) => !visited.has(String(child.id)))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return { generation: gen, children: children.map(buildNode) };
+  };
+
+  return {
+    root: buildNode(current),
+    path,
+    sourceImage: current.source_image ?? null,
+  };
+}
+
+/**
+ * Nodes from the root to a generation of a lineage tree (null if not in the tree)
+ */
+export function getLineagePath(
+  node: GenerationLineageNode,
+  generationId: string
+): GenerationLineageNode[] | null {
+  if (String(node.generation.id) === String(generationId)) {
+    return [node];
+  }
+
+  for (const child of node.children) {
+    const path = getLineagePath(child, generationId);
+    if (path) {
+      return [node, ...path];
+    }
+  }
+
+  return null;
+}
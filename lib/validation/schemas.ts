@@ -41,6 +41,7 @@ export const slidesPipelineSchema = z.object({
   userId: uuidSchema,
   format: z.enum(["16:9", "4:3"]).default("16:9"),
   theme: z.string().default("default"),
+  customThemeId: uuidSchema.optional(),
   slideCount: z
     .number()
     .int()
@@ -49,8 +50,67 @@ export const slidesPipelineSchema = z.object({
     .default(10),
   enableResearch: z.boolean().default(false),
   researchDepth: z.enum(["quick", "medium", "deep"]).default("medium"),
+  autoFix: z.boolean().optional(),
+  speakerNotesSeconds: z.number().int().min(0).max(600).optional(),
+  generateImages: z.boolean().optional(),
+  maxImages: z.number().int().min(0).max(10).optional(),
 });
 
+const hexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Invalid hex color");
+
+export const presentationThemeSchema = z.object({
+  userId: z.string().min(1, "Missing userId"),
+  teamId: z
+    .string()
+    .regex(/^[\w-]{1,64}$/, "Invalid team id")
+    .nullable()
+    .optional(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  palette: z.object({
+    primary: hexColorSchema,
+    background: hexColorSchema,
+    text: hexColorSchema,
+    muted: hexColorSchema,
+  }),
+  headingFont: z.string().trim().min(1).max(100),
+  bodyFont: z.string().trim().min(1).max(100),
+  logoUrl: z.string().url().nullable().optional(),
+  logoPosition: z.enum(["top-left", "top-right", "bottom-left", "bottom-right"]).optional(),
+  footerText: z.string().max(200).nullable().optional(),
+  showSlideNumbers: z.boolean().optional(),
+  backgroundImage: z.string().url().nullable().optional(),
+});
+
+export const presentationThemeUpdateSchema = presentationThemeSchema
+  .partial()
+  .required({ userId: true });
+
+export const workflowPresetSchema = z.object({
+  userId: z.string().min(1, "Missing userId"),
+  teamId: z
+    .string()
+    .regex(/^[\w-]{1,64}$/, "Invalid team id")
+    .nullable()
+    .optional(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  // Validated against the settings schema of the workflow by the presets API
+  settings: z.record(z.unknown()),
+  prompt: z.string().trim().max(2000).nullable().optional(),
+  // Data URL (uploaded to storage) or URL of a stored image
+  referenceImage: z
+    .string()
+    .refine(
+      (value) => /^data:image\/[\w.+-]+;base64,/.test(value) || /^https?:\/\//.test(value),
+      "Reference image must be a data URL or an http(s) URL"
+    )
+    .nullable()
+    .optional(),
+});
+
+export const workflowPresetUpdateSchema = workflowPresetSchema
+  .partial()
+  .required({ userId: true });
+
 export const generateTopicsSchema = z.object({
   prompt: z.string().min(3).max(2000),
   slideCount: z.number().int().min(1).max(50),
@@ -221,6 +281,8 @@ export const updatePasswordSchema = z
 export type SlidesSettings = z.infer<typeof slidesSettingsSchema>;
 export type SlidesPrompt = z.infer<typeof slidesPromptSchema>;
 export type SlidesPipeline = z.infer<typeof slidesPipelineSchema>;
+export type PresentationThemeInput = z.infer<typeof presentationThemeSchema>;
+export type PresentationThemeUpdate = z.infer<typeof presentationThemeUpdateSchema>;
 export type GenerateTopics = z.infer<typeof generateTopicsSchema>;
 export type Topic = z.infer<typeof topicSchema>;
 export type GenerateSlides = z.infer<typeof generateSlidesSchema>;
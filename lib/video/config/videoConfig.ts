@@ -3,6 +3,8 @@
  * All constants, timeouts, and limits in one place
  */
 
+import type { VideoRoutingPolicy } from "@/types/video";
+
 export const VIDEO_CONFIG = {
   // Polling Configuration
   polling: {
@@ -23,6 +25,27 @@ export const VIDEO_CONFIG = {
     maxConcurrentRequests: 5, // Max parallel status checks
   },
 
+  // Server-side Job Worker Configuration
+  jobs: {
+    workerIntervalMs: 2000, // How often the worker looks for due jobs
+    batchSize: 20, // Max jobs polled per worker tick
+    maxConsecutiveErrors: 10, // Auto-fail after 10 consecutive polling failures
+  },
+
+  // Provider Webhooks (completion callbacks - polling becomes a fallback)
+  webhooks: {
+    fallbackPollIntervalMs: 30000, // Poll webhook-backed jobs every 30s in case a callback is lost
+    maxTimestampSkewSeconds: 300, // Reject signed callbacks older than 5 minutes
+    falJwksUrl: "https://rest.alpha.fal.ai/.well-known/jwks.json",
+    jwksCacheMs: 86400000, // 24 hours
+  },
+
+  // Provider Routing (failover + cost-aware selection)
+  routing: {
+    policy: (process.env.VIDEO_ROUTING_POLICY || "requested") as VideoRoutingPolicy,
+    failover: process.env.VIDEO_FAILOVER !== "off", // Retry on another compatible provider on 5xx/quota errors
+  },
+
   // Input Validation
   validation: {
     prompt: {
@@ -70,6 +93,26 @@ export const PROVIDER_CONSTRAINTS = {
   },
 } as const;
 
+/**
+ * Provider Pricing (USD, approximate list prices - used for cost-aware routing)
+ */
+export const PROVIDER_PRICING = {
+  kling: {
+    usdPerSecond: 0.05,
+    modeMultipliers: { std: 1, pro: 1.8 },
+  },
+  fal: {
+    usdPerSecond: 0.1,
+  },
+} as const;
+
+/**
+ * Socket.IO events for server-side video jobs (emitted to `user:${userId}`)
+ */
+export const VIDEO_SOCKET_EVENTS = {
+  JOB_UPDATE: "video:job:update",
+} as const;
+
 /**
  * Retry Configuration
  */
@@ -88,10 +131,12 @@ export const ENV = {
     apiUrl: process.env.KLING_API_URL || VIDEO_CONFIG.api.klingUrl,
     accessKey: process.env.KLING_ACCESS_KEY,
     secretKey: process.env.KLING_SECRET_KEY,
+    webhookSecret: process.env.KLING_WEBHOOK_SECRET,
   },
   fal: {
     apiKey: process.env.FAL_KEY,
   },
+  webhookBaseUrl: process.env.VIDEO_WEBHOOK_BASE_URL, // Public URL reachable by providers - enables webhooks
   nodeEnv: process.env.NODE_ENV || 'development',
 } as const;
 
@@ -0,0 +1,234 @@
+import ProviderFactory from "../providers/ProviderFactory";
+import { VIDEO_CONFIG, VIDEO_SOCKET_EVENTS, RETRY_CONFIG } from "../config/videoConfig";
+import {
+  getDueVideoJobs,
+  updateVideoJob,
+  saveVideoJobToLibrary,
+  updateVideoJobMessage,
+} from "@/lib/supabase-video-jobs";
+import { emitSocketEvent } from "@/lib/socket/emitHelper";
+import { promiseAllWithLimit } from "@/lib/utils/concurrency";
+import { generateVideoFilename } from "@/lib/utils/chatArea";
+import { getVideoModelDisplayName } from "@/config/videoSettings";
+import { ERROR_MESSAGES } from "@/config/chatArea";
+import type { VideoGenerationResponse, VideoJob, VideoJobUpdateEvent } from "@/types/video";
+import { videoLogger } from '@/lib/logger';
+
+/**
+ * Video Job Worker
+ * Polls provider tasks for persisted video jobs on the server, so a job
+ * finishes (and lands in the library) even if the user closed the tab.
+ *
+ * - Polls due jobs every VIDEO_CONFIG.jobs.workerIntervalMs
+ * - Jobs of providers with webhooks enabled are only polled as a fallback
+ * - Retries transient errors with exponential backoff (RETRY_CONFIG)
+ * - Fails a job after maxConsecutiveErrors or VIDEO_CONFIG.polling.maxAttempts polls
+ * - Pushes every status change to the user's `user:${userId}` room
+ * - All updates only apply while the job is processing, so a job is completed once even
+ *   if several instances poll it or a webhook races a poll
+ */
+class VideoJobWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  /**
+   * Start the polling loop (idempotent)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, VIDEO_CONFIG.jobs.workerIntervalMs);
+    videoLogger.info('Video job worker started');
+  }
+
+  /**
+   * Stop the polling loop
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    videoLogger.info('Video job worker stopped');
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Poll all due jobs once
+   * Skips if the previous tick is still running
+   */
+  async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const jobs = await getDueVideoJobs(VIDEO_CONFIG.jobs.batchSize);
+      if (jobs.length === 0) return;
+
+      videoLogger.debug(`Polling ${jobs.length} video job(s)`);
+      await promiseAllWithLimit(
+        jobs.map((job) => () => this.processJob(job)),
+        VIDEO_CONFIG.queue.maxConcurrentRequests
+      );
+    } catch (error) {
+      videoLogger.error('Video job worker tick failed', error instanceof Error ? error : undefined);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Poll a single job and persist the outcome
+   */
+  async processJob(job: VideoJob): Promise<void> {
+    try {
+      const provider = ProviderFactory.getProvider(job.model);
+      const response = await provider.checkStatus(job.taskId, job.type);
+
+      if (await this.applyStatus(job, response)) return;
+
+      // Webhook-backed jobs complete via callback, polling only catches lost callbacks
+      const intervalMs = provider.webhooksEnabled
+        ? VIDEO_CONFIG.webhooks.fallbackPollIntervalMs
+        : VIDEO_CONFIG.polling.intervalMs;
+      const maxAttempts = Math.ceil(
+        (VIDEO_CONFIG.polling.maxAttempts * VIDEO_CONFIG.polling.intervalMs) / intervalMs
+      );
+
+      const pollAttempts = job.pollAttempts + 1;
+      if (pollAttempts >= maxAttempts) {
+        await this.failJob(job, `Video generation timed out after ${pollAttempts} status checks`);
+        return;
+      }
+
+      await updateVideoJob(
+        job.id,
+        {
+          pollAttempts,
+          consecutiveErrors: 0,
+          nextPollAt: new Date(Date.now() + intervalMs).toISOString(),
+        },
+        { ifStatus: "processing" }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const consecutiveErrors = job.consecutiveErrors + 1;
+
+      if (consecutiveErrors >= VIDEO_CONFIG.jobs.maxConsecutiveErrors) {
+        videoLogger.error(`Video job ${job.id} failed after ${consecutiveErrors} attempts`, error instanceof Error ? error : undefined);
+        await this.failJob(job, `Video generation failed after ${consecutiveErrors} attempts: ${message}`);
+        return;
+      }
+
+      videoLogger.warn(`Video job ${job.id} poll failed, retrying (${consecutiveErrors}/${VIDEO_CONFIG.jobs.maxConsecutiveErrors})`, {
+        error: message,
+      });
+      await updateVideoJob(
+        job.id,
+        {
+          consecutiveErrors,
+          error: message,
+          nextPollAt: new Date(Date.now() + getRetryDelayMs(consecutiveErrors)).toISOString(),
+        },
+        { ifStatus: "processing" }
+      );
+    }
+  }
+
+  /**
+   * Persist a final provider status (from polling or a webhook)
+   * @returns True if the job reached a final state, false if it is still processing
+   */
+  async applyStatus(job: VideoJob, response: VideoGenerationResponse): Promise<boolean> {
+    const videoUrl = response.videos?.[0]?.url;
+
+    if (response.status === "succeed" && videoUrl) {
+      await this.completeJob(job, videoUrl);
+      return true;
+    }
+
+    if (response.status === "failed") {
+      await this.failJob(job, response.message || "Video generation failed");
+      return true;
+    }
+
+    return false;
+  }
+
+  private async completeJob(job: VideoJob, videoUrl: string): Promise<void> {
+    // Claim the completion first - only the update that wins saves to the library
+    const claimed = await updateVideoJob(
+      job.id,
+      {
+        status: "succeed",
+        videoUrl,
+        completedAt: new Date().toISOString(),
+      },
+      { ifStatus: "processing" }
+    );
+    if (!claimed) return;
+
+    const fileName = generateVideoFilename();
+    const libraryItemId = await saveVideoJobToLibrary(claimed, {
+      url: videoUrl,
+      name: fileName,
+      model: getVideoModelDisplayName(job.model),
+    });
+
+    const updated = libraryItemId
+      ? ((await updateVideoJob(job.id, { libraryItemId })) ?? claimed)
+      : claimed;
+
+    await updateVideoJobMessage(updated, {
+      content: ERROR_MESSAGES.videoGenerationSuccess,
+      attachments: [{ type: "video", url: videoUrl, name: fileName }],
+    });
+
+    videoLogger.info(`Video job ${job.id} completed`, { taskId: job.taskId, model: job.model });
+    await emitJobUpdate(updated);
+  }
+
+  private async failJob(job: VideoJob, error: string): Promise<void> {
+    const updated = await updateVideoJob(
+      job.id,
+      {
+        status: "failed",
+        error,
+        completedAt: new Date().toISOString(),
+      },
+      { ifStatus: "processing" }
+    );
+    if (!updated) return;
+
+    await updateVideoJobMessage(updated, {
+      content: `${ERROR_MESSAGES.videoGenerationFailed}: ${error}`,
+    });
+
+    videoLogger.warn(`Video job ${job.id} failed`, { taskId: job.taskId, error });
+    await emitJobUpdate(updated);
+  }
+}
+
+/**
+ * Exponential backoff for transient polling errors
+ */
+function getRetryDelayMs(consecutiveErrors: number): number {
+  const delay = RETRY_CONFIG.baseDelayMs * Math.pow(RETRY_CONFIG.backoffMultiplier, consecutiveErrors - 1);
+  return Math.min(delay, RETRY_CONFIG.maxDelayMs);
+}
+
+/**
+ * Push the job state to the user's Socket.IO room
+ */
+export async function emitJobUpdate(job: VideoJob): Promise<void> {
+  const event: VideoJobUpdateEvent = { job };
+  await emitSocketEvent(job.userId, VIDEO_SOCKET_EVENTS.JOB_UPDATE, event);
+}
+
+// Export singleton instance
+export const videoJobWorker = new VideoJobWorker();
@@ -1,10 +1,20 @@
-import type { VideoGenerationRequest, VideoGenerationResponse, VideoType } from "@/types/video";
+import type {
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoProviderDefinition,
+  VideoType,
+} from "@/types/video";
 
 /**
  * Abstract base class for video generation providers
  * All providers must implement these methods
  */
 export abstract class VideoProvider {
+  /**
+   * Provider declaration (id, capabilities, constraints)
+   */
+  abstract readonly definition: VideoProviderDefinition;
+
   /**
    * Create a new video generation task
    */
@@ -14,4 +24,53 @@ export abstract class VideoProvider {
    * Check the status of an existing video generation task
    */
   abstract checkStatus(taskId: string, type: VideoType): Promise<VideoGenerationResponse>;
+
+  /**
+   * Whether tasks are created with a completion callback (webhook)
+   * Providers without webhook support keep the default and are polled only
+   */
+  get webhooksEnabled(): boolean {
+    return false;
+  }
+
+  /**
+   * Verify that a webhook request was sent by the provider
+   */
+  async verifyWebhook(_req: VideoWebhookRequest): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Map a verified webhook payload to the task status (null if not a task update)
+   */
+  parseWebhook(_payload: unknown): VideoWebhookResult | null {
+    return null;
+  }
+}
+
+/**
+ * Incoming webhook request as seen by the provider
+ * rawBody is the unparsed body (signatures are computed over it)
+ */
+export interface VideoWebhookRequest {
+  headers: Headers;
+  rawBody: string;
+  searchParams: URLSearchParams;
+}
+
+/**
+ * Task status carried by a webhook payload
+ */
+export interface VideoWebhookResult {
+  taskId: string;
+  response: VideoGenerationResponse;
+}
+
+/**
+ * Provider class shape accepted by ProviderFactory.register
+ * The definition is static so it can be read without instantiating the provider
+ */
+export interface VideoProviderClass {
+  new (): VideoProvider;
+  readonly definition: VideoProviderDefinition;
 }
@@ -1,6 +1,8 @@
 import { fal } from "@fal-ai/client";
-import { VideoProvider } from "./BaseProvider";
+import { VideoProvider, type VideoWebhookRequest, type VideoWebhookResult } from "./BaseProvider";
+import { FAL_PROVIDER_DEFINITION } from "./definitions";
 import { ENV, PROVIDER_CONSTRAINTS } from "../config/videoConfig";
+import { getVideoWebhookUrl, verifyFalWebhookSignature } from "../webhooks/webhookUtils";
 import type { VideoGenerationRequest, VideoGenerationResponse, VideoType } from "@/types/video";
 import { videoLogger } from '@/lib/logger';
 
@@ -15,6 +17,9 @@ fal.config({
  * Features: Fast generation, automatic polling, immediate results
  */
 export class FalProvider extends VideoProvider {
+  static readonly definition = FAL_PROVIDER_DEFINITION;
+  readonly definition = FalProvider.definition;
+
   async createTask(req: VideoGenerationRequest): Promise<VideoGenerationResponse> {
     const {
       type,
@@ -101,8 +106,10 @@ export class FalProvider extends VideoProvider {
     videoLogger.debug('fal.ai payload prepared', { payloadKeys: Object.keys(payload) });
 
     // Queue the fal.ai job (non-blocking - returns immediately with request_id)
+    // With webhooks configured, fal.ai calls us back on completion (polling stays as fallback)
     const { request_id } = await fal.queue.submit(endpoint, {
       input: payload,
+      webhookUrl: getVideoWebhookUrl("fal") ?? undefined,
     });
 
     videoLogger.info('fal.ai Sora 2 task queued:');
@@ -118,6 +125,44 @@ export class FalProvider extends VideoProvider {
     };
   }
 
+  get webhooksEnabled(): boolean {
+    return !!ENV.webhookBaseUrl;
+  }
+
+  async verifyWebhook(req: VideoWebhookRequest): Promise<boolean> {
+    return verifyFalWebhookSignature(req.headers, req.rawBody);
+  }
+
+  /**
+   * fal.ai webhook payload: { request_id, status: "OK" | "ERROR", payload, error }
+   */
+  parseWebhook(payload: unknown): VideoWebhookResult | null {
+    const data = payload as {
+      request_id?: string;
+      status?: string;
+      payload?: { video?: { url?: string } } | null;
+      error?: string;
+    };
+    if (!data?.request_id || !data.status) return null;
+
+    const videoUrl = data.payload?.video?.url;
+    const succeeded = data.status === "OK" && !!videoUrl;
+
+    return {
+      taskId: data.request_id,
+      response: {
+        task_id: data.request_id,
+        status: succeeded ? "succeed" : "failed",
+        videos: succeeded ? [{ url: videoUrl! }] : [],
+        message: succeeded
+          ? "Video generation completed successfully"
+          : data.error || "Video generation failed",
+        provider: "fal",
+        model: "payperwork-v2",
+      },
+    };
+  }
+
   async checkStatus(taskId: string, type: VideoType): Promise<VideoGenerationResponse> {
     try {
       // Validate type parameter
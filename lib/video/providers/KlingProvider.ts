@@ -1,9 +1,11 @@
 import jwt from "jsonwebtoken";
-import { VideoProvider } from "./BaseProvider";
+import { VideoProvider, type VideoWebhookRequest, type VideoWebhookResult } from "./BaseProvider";
+import { KLING_PROVIDER_DEFINITION } from "./definitions";
 import { validateAndFixKlingSettings } from "@/utils/klingValidation";
 import { fetchWithRetry } from "@/utils/fetchWithTimeout";
 import { ENV, VIDEO_CONFIG } from "../config/videoConfig";
-import type { VideoGenerationRequest, VideoGenerationResponse, VideoType } from "@/types/video";
+import { getVideoWebhookUrl, safeCompare } from "../webhooks/webhookUtils";
+import type { VideoGenerationRequest, VideoGenerationResponse, VideoStatus, VideoType } from "@/types/video";
 import { videoLogger } from '@/lib/logger';
 
 /**
@@ -21,6 +23,9 @@ interface TokenCache {
  * Features: High quality, pro mode, camera control, motion masks
  */
 export class KlingProvider extends VideoProvider {
+  static readonly definition = KLING_PROVIDER_DEFINITION;
+  readonly definition = KlingProvider.definition;
+
   private tokenCache: TokenCache | null = null;
 
   /**
@@ -112,6 +117,11 @@ export class KlingProvider extends VideoProvider {
       requestBody.aspect_ratio = params.aspect_ratio;
     }
 
+    // Completion callback (polling stays as fallback)
+    if (this.webhooksEnabled) {
+      requestBody.callback_url = getVideoWebhookUrl("kling", { token: ENV.kling.webhookSecret! });
+    }
+
     // Add type-specific parameters
     if (type === "text2video") {
       requestBody.prompt = prompt;
@@ -192,6 +202,46 @@ export class KlingProvider extends VideoProvider {
     }
   }
 
+  /**
+   * Kling callbacks are unsigned, so the callback URL carries a shared secret token
+   */
+  get webhooksEnabled(): boolean {
+    return !!ENV.webhookBaseUrl && !!ENV.kling.webhookSecret;
+  }
+
+  async verifyWebhook(req: VideoWebhookRequest): Promise<boolean> {
+    return safeCompare(req.searchParams.get("token"), ENV.kling.webhookSecret);
+  }
+
+  /**
+   * Kling callback payload has the same shape as the task status `data`
+   */
+  parseWebhook(payload: unknown): VideoWebhookResult | null {
+    const data = payload as {
+      task_id?: string;
+      task_status?: string;
+      task_status_msg?: string;
+      task_result?: { videos?: Array<{ url: string }> };
+    };
+    if (!data?.task_id || !data.task_status) return null;
+
+    // "submitted" and "processing" both mean the task is still running
+    const status: VideoStatus =
+      data.task_status === "succeed" || data.task_status === "failed" ? data.task_status : "processing";
+
+    return {
+      taskId: data.task_id,
+      response: {
+        task_id: data.task_id,
+        status,
+        videos: data.task_result?.videos || [],
+        message: data.task_status_msg || "",
+        provider: "kling",
+        model: "payperwork-v1",
+      },
+    };
+  }
+
   async checkStatus(taskId: string, type: VideoType): Promise<VideoGenerationResponse> {
     // Validate type parameter
     if (!["text2video", "image2video"].includes(type)) {
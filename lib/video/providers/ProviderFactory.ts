@@ -1,6 +1,7 @@
-import { VideoProvider } from "./BaseProvider";
+import { VideoProvider, type VideoProviderClass } from "./BaseProvider";
 import { KlingProvider } from "./KlingProvider";
 import { FalProvider } from "./FalProvider";
+import VideoProviderRegistry from "./ProviderRegistry";
 import type { VideoModel } from "@/types/video";
 import { videoLogger } from '@/lib/logger';
 
@@ -10,44 +11,72 @@ import { videoLogger } from '@/lib/logger';
  * - Reuse JWT token cache (KlingProvider)
  * - Reduce memory allocation
  * - Improve performance
+ *
+ * Providers are looked up by the id in their definition, so adding a backend
+ * is a single ProviderFactory.register(MyProvider) call.
  */
 class ProviderFactory {
-  private static klingProvider: KlingProvider | null = null;
-  private static falProvider: FalProvider | null = null;
+  private static providerClasses = new Map<VideoModel, VideoProviderClass>();
+  private static instances = new Map<VideoModel, VideoProvider>();
+
+  /**
+   * Register a provider implementation (and its definition)
+   */
+  static register(providerClass: VideoProviderClass): void {
+    const { id } = providerClass.definition;
+    VideoProviderRegistry.register(providerClass.definition);
+    this.providerClasses.set(id, providerClass);
+    this.instances.delete(id);
+    videoLogger.debug(`🏭 Registered video provider ${id}`);
+  }
+
+  /**
+   * Remove a provider implementation (and its definition)
+   */
+  static unregister(model: VideoModel): void {
+    this.providerClasses.delete(model);
+    this.instances.delete(model);
+    VideoProviderRegistry.unregister(model);
+  }
+
+  /**
+   * Check whether a provider implementation is registered for the model
+   */
+  static has(model: VideoModel): boolean {
+    return this.providerClasses.has(model);
+  }
 
   /**
    * Get the appropriate provider based on model selection
    * Uses singleton pattern to reuse provider instances
    */
   static getProvider(model: VideoModel): VideoProvider {
-    switch (model) {
-      case "payperwork-v1":
-        if (!this.klingProvider) {
-          this.klingProvider = new KlingProvider();
-          videoLogger.debug('🏭 Created new KlingProvider instance (singleton)');
-        }
-        return this.klingProvider;
-
-      case "payperwork-v2":
-        if (!this.falProvider) {
-          this.falProvider = new FalProvider();
-          videoLogger.debug('🏭 Created new FalProvider instance (singleton)');
-        }
-        return this.falProvider;
-
-      default:
-        throw new Error(`Unknown video model: ${model}`);
+    const existing = this.instances.get(model);
+    if (existing) {
+      return existing;
     }
+
+    const providerClass = this.providerClasses.get(model);
+    if (!providerClass) {
+      throw new Error(`Unknown video model: ${model}`);
+    }
+
+    const provider = new providerClass();
+    this.instances.set(model, provider);
+    videoLogger.debug(`🏭 Created new ${providerClass.name} instance (singleton)`);
+    return provider;
   }
 
   /**
    * Reset all provider instances (useful for testing or manual cache clearing)
    */
   static reset(): void {
-    this.klingProvider = null;
-    this.falProvider = null;
+    this.instances.clear();
     videoLogger.info('Reset all provider instances');
   }
 }
 
+ProviderFactory.register(KlingProvider);
+ProviderFactory.register(FalProvider);
+
 export default ProviderFactory;
@@ -0,0 +1,87 @@
+import { BUILT_IN_PROVIDER_DEFINITIONS } from "./definitions";
+import type { UIVideoModel, VideoModel, VideoProviderDefinition } from "@/types/video";
+
+/**
+ * Video Provider Registry
+ * Single source of truth for which video models exist and what they support.
+ *
+ * Client-safe: only holds provider definitions (no SDKs). The server-side
+ * ProviderFactory registers provider implementations on top of this.
+ *
+ * @example
+ * ```typescript
+ * VideoProviderRegistry.register(MOCK_PROVIDER_DEFINITION);
+ * VideoProviderRegistry.get("payperwork-v1")?.capabilities.durations;
+ * ```
+ */
+class VideoProviderRegistry {
+  private static definitions = new Map<VideoModel, VideoProviderDefinition>(
+    BUILT_IN_PROVIDER_DEFINITIONS.map((definition) => [definition.id, definition])
+  );
+
+  /**
+   * Register (or replace) a provider definition
+   */
+  static register(definition: VideoProviderDefinition): void {
+    const uiOwner = this.getByUiModel(definition.uiModel);
+    if (uiOwner && uiOwner.id !== definition.id) {
+      throw new Error(
+        `UI model "${definition.uiModel}" is already used by video model "${uiOwner.id}"`
+      );
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  /**
+   * Remove a provider definition (useful for testing)
+   */
+  static unregister(model: VideoModel): void {
+    this.definitions.delete(model);
+  }
+
+  /**
+   * Check whether an API model name is registered
+   */
+  static has(model: string | null | undefined): model is VideoModel {
+    return !!model && this.definitions.has(model);
+  }
+
+  /**
+   * Get definition by API model name ("payperwork-v1")
+   */
+  static get(model: VideoModel): VideoProviderDefinition | undefined {
+    return this.definitions.get(model);
+  }
+
+  /**
+   * Get definition by UI model name ("kling")
+   */
+  static getByUiModel(uiModel: UIVideoModel): VideoProviderDefinition | undefined {
+    return this.list().find((definition) => definition.uiModel === uiModel);
+  }
+
+  /**
+   * All registered definitions in registration order
+   */
+  static list(): VideoProviderDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * All registered API model names
+   */
+  static models(): VideoModel[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Restore the built-in definitions only
+   */
+  static reset(): void {
+    this.definitions = new Map(
+      BUILT_IN_PROVIDER_DEFINITIONS.map((definition) => [definition.id, definition])
+    );
+  }
+}
+
+export default VideoProviderRegistry;
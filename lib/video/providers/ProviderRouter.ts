@@ -0,0 +1,307 @@
+import type { VideoProvider } from "./BaseProvider";
+import ProviderFactory from "./ProviderFactory";
+import VideoProviderRegistry from "./ProviderRegistry";
+import { validateVideoSettings } from "../validation/videoValidation";
+import { VIDEO_CONFIG } from "../config/videoConfig";
+import { validateApiKeys } from "@/lib/api-security";
+import type {
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoModel,
+  VideoProviderDefinition,
+  VideoRoutingPolicy,
+} from "@/types/video";
+import { videoLogger } from '@/lib/logger';
+
+/**
+ * A failed provider attempt (kept for logging and the API response)
+ */
+export interface VideoRoutingAttempt {
+  model: VideoModel;
+  error: string;
+}
+
+/**
+ * A provider to try, with the request adapted to its capabilities
+ */
+export interface VideoRoutingCandidate {
+  definition: VideoProviderDefinition;
+  request: VideoGenerationRequest;
+  adapted: boolean; // Settings (duration) changed to fit the provider - failover only
+}
+
+/**
+ * Result of routing a video generation request
+ */
+export interface VideoRoutingResult {
+  response: VideoGenerationResponse;
+  model: VideoModel; // Model that actually served the task
+  requestedModel: VideoModel;
+  request: VideoGenerationRequest; // Request as sent to the serving provider
+  failedAttempts: VideoRoutingAttempt[];
+}
+
+export interface VideoProviderRouterOptions {
+  policy?: VideoRoutingPolicy;
+  failover?: boolean;
+  // Injection points (tests use fake providers)
+  getDefinitions?: () => VideoProviderDefinition[];
+  getProvider?: (model: VideoModel) => VideoProvider;
+  isAvailable?: (definition: VideoProviderDefinition) => boolean;
+}
+
+/**
+ * Errors worth retrying on another provider: 5xx, timeouts/network, quota and rate limits
+ * Validation errors (4xx) are not retried - another provider would reject them too
+ */
+export function isFailoverError(error: unknown): boolean {
+  const status = typeof error === "object" && error !== null
+    ? (error as { status?: unknown }).status
+    : undefined;
+  if (typeof status === "number") {
+    return status >= 500 || status === 429 || status === 402;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    /HTTP 5\d\d/.test(message) ||
+    /HTTP 429|HTTP 402/.test(message) ||
+    /timeout|ECONNRESET|ECONNREFUSED|ETIMEDOUT|fetch failed|network/i.test(message) ||
+    /quota|insufficient|balance|rate limit|too many requests/i.test(message) ||
+    // Kling: 1102 = account balance exhausted, 1302/1303 = rate/concurrency limit
+    /Code: (1102|1302|1303)\b/.test(message)
+  );
+}
+
+/**
+ * Estimated cost (USD) of a request on a provider, Infinity if unknown
+ */
+export function estimateVideoCost(
+  definition: VideoProviderDefinition,
+  req: Pick<VideoGenerationRequest, "duration" | "mode">
+): number {
+  if (!definition.pricing) return Infinity;
+
+  const duration = parseInt(req.duration || definition.constraints.defaults.duration);
+  const mode = req.mode || definition.constraints.defaults.mode;
+  const multiplier = (mode && definition.pricing.modeMultipliers?.[mode]) ?? 1;
+
+  return duration * definition.pricing.usdPerSecond * multiplier;
+}
+
+/**
+ * Check whether a provider can serve the request as-is (same duration, aspect ratio, features)
+ */
+export function isRequestCompatible(
+  definition: VideoProviderDefinition,
+  req: VideoGenerationRequest
+): boolean {
+  const settingsError = validateVideoSettings(definition, {
+    type: req.type,
+    duration: req.duration,
+    aspectRatio: req.aspectRatio,
+    mode: req.mode,
+  });
+  if (settingsError) return false;
+
+  // Motion masks are a Kling feature - don't silently drop them
+  const usesMotionControl = !!req.static_mask || (req.dynamic_masks?.length ?? 0) > 0;
+  if (usesMotionControl && !definition.capabilities.cameraMovement) return false;
+
+  return true;
+}
+
+/**
+ * Nearest duration a provider supports (ties go to the longer duration)
+ */
+export function getNearestDuration(definition: VideoProviderDefinition, duration: string): string {
+  const requested = parseInt(duration);
+  const distance = (value: string) => Math.abs(parseInt(value) - requested);
+
+  return definition.capabilities.durations
+    .map((option) => option.value)
+    .reduce((best, value) =>
+      distance(value) < distance(best) ||
+      (distance(value) === distance(best) && parseInt(value) > parseInt(best))
+        ? value
+        : best
+    );
+}
+
+/**
+ * Adapt a request to another provider, mapping the duration to the nearest supported one
+ * @returns The adapted request, or null if the provider can't serve it (type, aspect ratio, masks)
+ */
+export function adaptRequest(
+  definition: VideoProviderDefinition,
+  req: VideoGenerationRequest
+): VideoGenerationRequest | null {
+  const adapted: VideoGenerationRequest = { ...req, model: definition.id };
+  if (req.duration && definition.capabilities.durations.length > 0) {
+    adapted.duration = getNearestDuration(definition, req.duration);
+  }
+
+  return isRequestCompatible(definition, adapted) ? adapted : null;
+}
+
+/**
+ * Video Provider Router
+ * Sits on top of ProviderFactory and picks the provider for a new task:
+ * - Orders providers that accept the request unchanged per routing policy (requested model or cheapest first)
+ * - Falls back to the next provider on 5xx/quota errors; as a last resort (failover only)
+ *   providers that need the nearest duration they support (e.g. Kling 5s -> Sora 4s),
+ *   the response then reports the served duration
+ * Status checks still go straight to the provider that created the task.
+ */
+export class VideoProviderRouter {
+  private readonly options: VideoProviderRouterOptions;
+
+  constructor(options: VideoProviderRouterOptions = {}) {
+    this.options = options;
+  }
+
+  private get policy(): VideoRoutingPolicy {
+    return this.options.policy ?? VIDEO_CONFIG.routing.policy;
+  }
+
+  private get failover(): boolean {
+    return this.options.failover ?? VIDEO_CONFIG.routing.failover;
+  }
+
+  private getDefinitions(): VideoProviderDefinition[] {
+    return this.options.getDefinitions?.() ?? VideoProviderRegistry.list();
+  }
+
+  private getProvider(model: VideoModel): VideoProvider {
+    return this.options.getProvider?.(model) ?? ProviderFactory.getProvider(model);
+  }
+
+  private isAvailable(definition: VideoProviderDefinition): boolean {
+    if (this.options.isAvailable) return this.options.isAvailable(definition);
+    return validateApiKeys([...definition.requiredApiKeys]).valid;
+  }
+
+  /**
+   * Providers to try for the request, in order
+   * Every candidate is configured (API keys). The routing policy only orders providers that
+   * accept the request unchanged; with failover enabled, providers that need another duration
+   * follow at the end.
+   * Empty if neither the requested provider nor an alternative is configured.
+   */
+  getCandidates(req: VideoGenerationRequest): VideoRoutingCandidate[] {
+    const definitions = this.getDefinitions();
+    const requested = definitions.find((definition) => definition.id === req.model);
+    if (!requested) {
+      throw new Error(`Unknown video model: ${req.model}`);
+    }
+
+    const candidates: VideoRoutingCandidate[] = [];
+    const adaptedCandidates: VideoRoutingCandidate[] = [];
+    for (const definition of definitions) {
+      if (!this.isAvailable(definition)) continue;
+
+      if (definition.id === requested.id) {
+        candidates.push({ definition, request: req, adapted: false });
+        continue;
+      }
+
+      const request: VideoGenerationRequest = { ...req, model: definition.id };
+      if (isRequestCompatible(definition, request)) {
+        candidates.push({ definition, request, adapted: false });
+      } else if (this.failover) {
+        const adaptedRequest = adaptRequest(definition, req);
+        if (adaptedRequest) {
+          adaptedCandidates.push({ definition, request: adaptedRequest, adapted: true });
+        }
+      }
+    }
+
+    // Requested provider first
+    candidates.sort((a, b) => Number(b.definition.id === req.model) - Number(a.definition.id === req.model));
+
+    if (this.policy === "cheapest") {
+      // Stable sort keeps the requested model first on equal cost
+      candidates.sort(
+        (a, b) => estimateVideoCost(a.definition, a.request) - estimateVideoCost(b.definition, b.request)
+      );
+    }
+
+    return [...candidates, ...adaptedCandidates];
+  }
+
+  /**
+   * Create a task on the best provider, failing over to compatible providers
+   * Throws the last provider error if every candidate failed
+   */
+  async createTask(req: VideoGenerationRequest): Promise<VideoRoutingResult> {
+    const candidates = this.getCandidates(req);
+    if (candidates.length === 0) {
+      throw new Error(`No configured video provider can serve ${req.model}`);
+    }
+
+    const attempts = this.failover ? candidates : candidates.slice(0, 1);
+    const failedAttempts: VideoRoutingAttempt[] = [];
+
+    const first = candidates[0]!;
+    const requested = candidates.find((candidate) => candidate.definition.id === req.model);
+    if (requested && first.definition.id !== req.model) {
+      videoLogger.info(`Routing ${req.model} request to cheaper provider ${first.definition.id}`, {
+        policy: this.policy,
+        requestedCost: estimateVideoCost(requested.definition, requested.request),
+        routedCost: estimateVideoCost(first.definition, first.request),
+      });
+    }
+
+    let lastError: unknown;
+    for (const [i, { definition, request, adapted }] of attempts.entries()) {
+      try {
+        const response = await this.getProvider(definition.id).createTask(request);
+
+        if (failedAttempts.length > 0 || adapted) {
+          videoLogger.info(`Video failover: ${req.model} request served by ${definition.id}`, {
+            failedAttempts,
+            duration: request.duration,
+            requestedDuration: req.duration,
+          });
+        }
+
+        return {
+          response: {
+            ...response,
+            model: definition.id,
+            provider: definition.provider,
+            // Report the changed duration so the client doesn't show the requested one
+            ...(adapted && { duration: request.duration }),
+          },
+          model: definition.id,
+          requestedModel: req.model,
+          request,
+          failedAttempts,
+        };
+      } catch (error) {
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        failedAttempts.push({ model: definition.id, error: message });
+
+        const next = attempts[i + 1];
+        if (!next || !isFailoverError(error)) {
+          break;
+        }
+
+        videoLogger.warn(`Video provider ${definition.id} failed, failing over to ${next.definition.id}`, {
+          error: message,
+          requestedModel: req.model,
+        });
+      }
+    }
+
+    videoLogger.error('Video task creation failed on all providers', lastError instanceof Error ? lastError : undefined, {
+      requestedModel: req.model,
+      failedAttempts,
+    });
+    throw lastError;
+  }
+}
+
+// Export singleton instance (uses VIDEO_CONFIG.routing and the provider registry)
+export const videoProviderRouter = new VideoProviderRouter();
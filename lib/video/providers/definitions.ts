@@ -0,0 +1,86 @@
+import { PROVIDER_CONSTRAINTS, PROVIDER_PRICING } from "../config/videoConfig";
+import {
+  KLING_DURATIONS,
+  KLING_ASPECT_RATIOS,
+  KLING_ASPECT_RATIOS_WITH_ORIGINAL,
+  KLING_MODES,
+} from "@/config/videoSettings/kling";
+import {
+  SORA_DURATIONS,
+  SORA_ASPECT_RATIOS,
+  SORA_ASPECT_RATIOS_WITH_AUTO,
+} from "@/config/videoSettings/sora";
+import type { VideoProviderDefinition } from "@/types/video";
+
+/**
+ * Built-in Video Provider Definitions
+ * Pure data (no SDK imports) so they can be used on client and server
+ */
+
+/**
+ * Kling AI (payperwork-v1)
+ */
+export const KLING_PROVIDER_DEFINITION: VideoProviderDefinition = {
+  id: "payperwork-v1",
+  uiModel: "kling",
+  provider: "kling",
+  name: "Payperwork Move",
+  version: "v.1",
+  requiredApiKeys: ["kling"],
+  capabilities: {
+    text2video: true,
+    image2video: true,
+    durations: KLING_DURATIONS,
+    aspectRatios: KLING_ASPECT_RATIOS,
+    imageAspectRatios: KLING_ASPECT_RATIOS_WITH_ORIGINAL,
+    modes: KLING_MODES,
+    cameraMovement: true,
+    audio: false,
+  },
+  constraints: {
+    defaults: {
+      duration: PROVIDER_CONSTRAINTS.kling.defaults.duration,
+      aspectRatio: PROVIDER_CONSTRAINTS.kling.defaults.aspectRatio,
+      mode: PROVIDER_CONSTRAINTS.kling.defaults.mode,
+    },
+    cfgScale: PROVIDER_CONSTRAINTS.kling.cfgScale,
+  },
+  pricing: PROVIDER_PRICING.kling,
+};
+
+/**
+ * fal.ai Sora 2 (payperwork-v2)
+ */
+export const FAL_PROVIDER_DEFINITION: VideoProviderDefinition = {
+  id: "payperwork-v2",
+  uiModel: "sora2",
+  provider: "fal",
+  name: "Payperwork Move",
+  version: "v.2",
+  requiredApiKeys: ["fal"],
+  capabilities: {
+    text2video: true,
+    image2video: true,
+    durations: SORA_DURATIONS,
+    aspectRatios: SORA_ASPECT_RATIOS, // Sora 2 does NOT support 1:1
+    imageAspectRatios: SORA_ASPECT_RATIOS_WITH_AUTO,
+    modes: [],
+    cameraMovement: false,
+    audio: true,
+  },
+  constraints: {
+    defaults: {
+      duration: PROVIDER_CONSTRAINTS.fal.defaults.duration,
+      aspectRatio: PROVIDER_CONSTRAINTS.fal.defaults.aspectRatio,
+    },
+  },
+  pricing: PROVIDER_PRICING.fal,
+};
+
+/**
+ * Definitions registered by default (order = order in the model picker)
+ */
+export const BUILT_IN_PROVIDER_DEFINITIONS: readonly VideoProviderDefinition[] = [
+  KLING_PROVIDER_DEFINITION,
+  FAL_PROVIDER_DEFINITION,
+];
@@ -1,9 +1,20 @@
 /**
  * Video Generation Validation Functions
  * Shared validation logic for video API routes
+ * Allowed models and settings are derived from the provider registry
  */
 
-import type { VideoType, VideoModel } from "@/types/video";
+import VideoProviderRegistry from "../providers/ProviderRegistry";
+import type { VideoType, VideoModel, VideoProviderDefinition } from "@/types/video";
+
+/**
+ * Formats the registered models for error messages ("'a' or 'b'")
+ */
+function describeModels(): string {
+  const models = VideoProviderRegistry.models().map((model) => `'${model}'`);
+  if (models.length <= 1) return models.join("");
+  return `${models.slice(0, -1).join(", ")} or ${models[models.length - 1]}`;
+}
 
 /**
  * Validates video type parameter
@@ -17,10 +28,10 @@ export function validateVideoType(type: string | null): type is VideoType {
 /**
  * Validates video model parameter
  * @param model - The model to validate
- * @returns True if valid VideoModel, false otherwise
+ * @returns True if a provider is registered for the model, false otherwise
  */
 export function validateVideoModel(model: string | null): model is VideoModel {
-  return model !== null && ["payperwork-v1", "payperwork-v2"].includes(model);
+  return VideoProviderRegistry.has(model);
 }
 
 /**
@@ -34,7 +45,7 @@ export function validateVideoGenerationRequest(body: {
   prompt?: string;
 }): string | null {
   if (!body.model || !validateVideoModel(body.model)) {
-    return "Invalid or missing model. Must be 'payperwork-v1' or 'payperwork-v2'";
+    return `Invalid or missing model. Must be ${describeModels()}`;
   }
 
   if (!body.type || !validateVideoType(body.type)) {
@@ -48,6 +59,54 @@ export function validateVideoGenerationRequest(body: {
   return null;
 }
 
+/**
+ * Validates video settings against the provider's declared capabilities
+ * Settings that are omitted fall back to the provider defaults and are not checked.
+ * @param definition - The provider definition to validate against
+ * @param settings - The requested type and settings
+ * @returns Error message if unsupported, null if valid
+ */
+export function validateVideoSettings(
+  definition: VideoProviderDefinition,
+  settings: {
+    type: VideoType;
+    duration?: string;
+    aspectRatio?: string;
+    mode?: string;
+  }
+): string | null {
+  const { capabilities } = definition;
+  const { type, duration, aspectRatio, mode } = settings;
+
+  if (!capabilities[type]) {
+    return `Model '${definition.id}' does not support ${type}`;
+  }
+
+  if (duration !== undefined && !capabilities.durations.some((option) => option.value === duration)) {
+    const allowed = capabilities.durations.map((option) => option.value).join(", ");
+    return `Invalid duration '${duration}' for model '${definition.id}'. Must be one of: ${allowed}`;
+  }
+
+  if (aspectRatio !== undefined) {
+    // The client may keep an image-only ratio ("original", "auto") after removing the image;
+    // providers fall back to their default in that case
+    const allowedRatios = new Set(
+      [...capabilities.aspectRatios, ...capabilities.imageAspectRatios].map((option) => option.value)
+    );
+    if (!allowedRatios.has(aspectRatio)) {
+      return `Invalid aspect ratio '${aspectRatio}' for model '${definition.id}'. Must be one of: ${Array.from(allowedRatios).join(", ")}`;
+    }
+  }
+
+  // Mode is only meaningful for providers that declare quality modes
+  if (mode !== undefined && capabilities.modes.length > 0 && !capabilities.modes.some((option) => option.value === mode)) {
+    const allowed = capabilities.modes.map((option) => option.value).join(", ");
+    return `Invalid mode '${mode}' for model '${definition.id}'. Must be one of: ${allowed}`;
+  }
+
+  return null;
+}
+
 /**
  * Validates video status check request parameters
  * @param params - The query parameters to validate
@@ -63,7 +122,7 @@ export function validateVideoStatusRequest(params: {
   }
 
   if (!params.model || !validateVideoModel(params.model)) {
-    return "Invalid model. Must be 'payperwork-v1' or 'payperwork-v2'";
+    return `Invalid model. Must be ${describeModels()}`;
   }
 
   if (!params.type || !validateVideoType(params.type)) {
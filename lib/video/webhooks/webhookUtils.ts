@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { ENV, VIDEO_CONFIG } from "../config/videoConfig";
+import type { VideoProvider } from "@/types/video";
+import { videoLogger } from '@/lib/logger';
+
+/**
+ * Video Webhook Utilities
+ * Callback URLs and signature verification for provider completion callbacks
+ */
+
+/**
+ * Build the callback URL for a provider (null if webhooks are not configured)
+ *
+ * @param provider - Provider backend name, e.g. "kling"
+ * @param params - Extra query params (e.g. a verification token)
+ */
+export function getVideoWebhookUrl(
+  provider: VideoProvider,
+  params: Record<string, string> = {}
+): string | null {
+  if (!ENV.webhookBaseUrl) return null;
+
+  const url = new URL(`/api/video/webhook/${provider}`, ENV.webhookBaseUrl);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+}
+
+/**
+ * Constant-time string comparison (prevents timing attacks on secrets)
+ */
+export function safeCompare(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  if (bufferA.length !== bufferB.length) return false;
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// ============================================================================
+// fal.ai webhook signatures (ED25519, public keys from fal's JWKS)
+// ============================================================================
+
+interface JwksCache {
+  keys: crypto.KeyObject[];
+  expiresAt: number;
+}
+
+let falJwksCache: JwksCache | null = null;
+
+async function getFalPublicKeys(): Promise<crypto.KeyObject[]> {
+  if (falJwksCache && falJwksCache.expiresAt > Date.now()) {
+    return falJwksCache.keys;
+  }
+
+  const response = await fetch(VIDEO_CONFIG.webhooks.falJwksUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch fal.ai JWKS (HTTP ${response.status})`);
+  }
+
+  const { keys = [] }: { keys?: Array<{ x?: string }> } = await response.json();
+  const publicKeys = keys
+    .filter((key): key is { x: string } => typeof key.x === "string")
+    .map((key) =>
+      crypto.createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: key.x }, format: "jwk" })
+    );
+
+  falJwksCache = { keys: publicKeys, expiresAt: Date.now() + VIDEO_CONFIG.webhooks.jwksCacheMs };
+  return publicKeys;
+}
+
+/**
+ * Verify a fal.ai webhook signature
+ * Signed message: request id, user id, timestamp and sha256(body), joined by newlines
+ */
+export async function verifyFalWebhookSignature(headers: Headers, rawBody: string): Promise<boolean> {
+  const requestId = headers.get("x-fal-webhook-request-id");
+  const userId = headers.get("x-fal-webhook-user-id");
+  const timestamp = headers.get("x-fal-webhook-timestamp");
+  const signature = headers.get("x-fal-webhook-signature");
+
+  if (!requestId || !userId || !timestamp || !signature) {
+    return false;
+  }
+
+  const skew = Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp, 10));
+  if (!Number.isFinite(skew) || skew > VIDEO_CONFIG.webhooks.maxTimestampSkewSeconds) {
+    videoLogger.warn('Rejected fal.ai webhook with stale timestamp', { requestId, timestamp });
+    return false;
+  }
+
+  const bodyHash = crypto.createHash("sha256").update(rawBody).digest("hex");
+  const message = Buffer.from([requestId, userId, timestamp, bodyHash].join("\n"));
+  const signatureBuffer = Buffer.from(signature, "hex");
+
+  try {
+    const keys = await getFalPublicKeys();
+    return keys.some((key) => crypto.verify(null, message, key, signatureBuffer));
+  } catch (error) {
+    videoLogger.error('fal.ai webhook signature verification failed', error instanceof Error ? error : undefined, {
+      requestId,
+    });
+    return false;
+  }
+}
+
+/**
+ * Clear the cached fal.ai public keys (useful for testing)
+ */
+export function resetFalJwksCache(): void {
+  falJwksCache = null;
+}
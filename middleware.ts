@@ -163,25 +163,25 @@ export async function middleware(request: NextRequest) {
     "/api/generate-image",
     "/api/generate-video",
     "/api/generate-runway-video",
+    "/api/video/jobs",
     "/api/slides",
+    "/api/agents",
     "/api/upload",
     "/api/transcribe",
-    "/api/branding",
-    "/api/furnish-empty",
-    "/api/sketch-to-render",
-    "/api/style-transfer/generations", // History endpoint requires auth
-    "/api/style-transfer/delete-generation", // Delete requires auth
-    "/api/style-transfer/save-generation", // Save requires auth
-    "/api/render-to-cad",
+    "/api/workflows", // History, save, delete, presets and batch require auth
   ];
 
   // Public workflow endpoints (T-Button, generate endpoints)
   // These only require API keys, not user authentication
   const publicWorkflowPaths = [
-    "/api/style-transfer/generate-prompt",
-    "/api/furnish-empty/generate-prompt",
-    "/api/sketch-to-render/generate-prompt",
-    "/api/render-to-cad/generate-prompt",
+    "/api/workflows/style-transfer",
+    "/api/workflows/style-transfer/edit",
+    "/api/workflows/style-transfer/upscale",
+    "/api/workflows/style-transfer/generate-prompt",
+    "/api/workflows/branding/generate-prompt",
+    "/api/workflows/furnish-empty/generate-prompt",
+    "/api/workflows/sketch-to-render/generate-prompt",
+    "/api/workflows/render-to-cad/generate-prompt",
   ];
 
   // Check if path is explicitly public (skip auth even if parent path is protected)
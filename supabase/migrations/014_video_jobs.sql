@@ -0,0 +1,64 @@
+-- Video Jobs Table
+-- Server-side queue for video generations (Kling / fal.ai task ids)
+-- The server worker polls providers, writes the finished video into library_items
+-- and pushes status updates to the user's Socket.IO room
+
+CREATE TABLE IF NOT EXISTS video_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- Chat context (optional - jobs can exist without a message)
+  message_id TEXT,
+  conversation_id TEXT,
+
+  -- Provider task
+  model TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text2video', 'image2video')),
+  task_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'succeed', 'failed')),
+
+  -- Generation details
+  prompt TEXT,
+  settings JSONB DEFAULT '{}',
+
+  -- Result
+  video_url TEXT,
+  library_item_id UUID REFERENCES library_items(id) ON DELETE SET NULL,
+  error TEXT,
+
+  -- Polling state
+  poll_attempts INTEGER NOT NULL DEFAULT 0,
+  consecutive_errors INTEGER NOT NULL DEFAULT 0,
+  next_poll_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_video_jobs_user_id ON video_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_video_jobs_status_next_poll ON video_jobs(status, next_poll_at);
+CREATE INDEX IF NOT EXISTS idx_video_jobs_message_id ON video_jobs(message_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_video_jobs_model_task_id ON video_jobs(model, task_id);
+
+-- Enable Row Level Security
+-- No policies: only the worker and the API (service role key, bypasses RLS) can access jobs;
+-- the API checks ownership
+ALTER TABLE video_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_video_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = TIMEZONE('utc', NOW());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_video_jobs_updated_at_trigger
+  BEFORE UPDATE ON video_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_video_jobs_updated_at();
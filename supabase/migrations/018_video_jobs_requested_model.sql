@@ -0,0 +1,8 @@
+-- Video Jobs: requested model
+-- The provider router may fail over to another provider (or pick a cheaper one),
+-- so `model` is the model that serves the task and `requested_model` the one the user selected
+
+ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS requested_model TEXT;
+
+COMMENT ON COLUMN video_jobs.model IS 'Model that serves the provider task (used for polling)';
+COMMENT ON COLUMN video_jobs.requested_model IS 'Model selected by the user (differs from model after failover / cost routing)';
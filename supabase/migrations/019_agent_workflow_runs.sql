@@ -0,0 +1,65 @@
+-- Agent Workflow Runs
+-- Persistent AgentOrchestrator runs and per-step AgentResults
+-- Failed or interrupted runs can be resumed from the last completed step
+
+CREATE TABLE IF NOT EXISTS agent_workflow_runs (
+  id TEXT PRIMARY KEY,
+  orchestrator_name TEXT NOT NULL,
+  user_id TEXT,
+
+  -- Plan that was executed (needed for resuming)
+  plan JSONB NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  errors JSONB DEFAULT '[]',
+  resume_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Timings
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  execution_time INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE TABLE IF NOT EXISTS agent_workflow_steps (
+  run_id TEXT NOT NULL REFERENCES agent_workflow_runs(id) ON DELETE CASCADE,
+  step_id TEXT NOT NULL,
+  step_name TEXT NOT NULL,
+  agent_name TEXT NOT NULL,
+
+  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  result JSONB,
+  error TEXT,
+
+  -- Timings
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  execution_time INTEGER,
+
+  PRIMARY KEY (run_id, step_id)
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_agent_workflow_runs_user_id ON agent_workflow_runs(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_workflow_runs_status ON agent_workflow_runs(status);
+
+-- Enable Row Level Security
+-- No policies: only the orchestrator and the API (service role key, bypasses RLS) can access
+-- runs and steps; the API checks ownership
+ALTER TABLE agent_workflow_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_workflow_steps ENABLE ROW LEVEL SECURITY;
+
+-- Function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_agent_workflow_runs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = TIMEZONE('utc', NOW());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_agent_workflow_runs_updated_at_trigger
+  BEFORE UPDATE ON agent_workflow_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_agent_workflow_runs_updated_at();
@@ -0,0 +1,8 @@
+-- Agent Workflow Steps: retries and skipped steps
+-- Steps can be retried (attempts) and skipped by conditional branches
+
+ALTER TABLE agent_workflow_steps ADD COLUMN IF NOT EXISTS attempts INTEGER;
+
+ALTER TABLE agent_workflow_steps DROP CONSTRAINT IF EXISTS agent_workflow_steps_status_check;
+ALTER TABLE agent_workflow_steps ADD CONSTRAINT agent_workflow_steps_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'skipped'));
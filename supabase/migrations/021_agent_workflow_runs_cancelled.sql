@@ -0,0 +1,6 @@
+-- Agent Workflow Runs: cancellation
+-- Runs can be cancelled by the user; completed steps are kept so the run can be resumed
+
+ALTER TABLE agent_workflow_runs DROP CONSTRAINT IF EXISTS agent_workflow_runs_status_check;
+ALTER TABLE agent_workflow_runs ADD CONSTRAINT agent_workflow_runs_status_check
+  CHECK (status IN ('running', 'completed', 'failed', 'cancelled'));
@@ -0,0 +1,38 @@
+-- Agent Usage
+-- Token usage and estimated cost of LLM and tool calls, per user and presentation
+-- One row per generation and model/agent/tool; aggregated by the usage API
+
+CREATE TABLE IF NOT EXISTS agent_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+
+  -- What the usage was spent on
+  source TEXT NOT NULL, -- e.g. 'slides_topics', 'slides_generation', 'slides_pipeline', 'agent_workflow'
+  presentation_id UUID REFERENCES presentations(id) ON DELETE SET NULL,
+  run_id TEXT,
+
+  -- Who made the calls
+  model TEXT NOT NULL,
+  agent_name TEXT,
+  tool_name TEXT,
+
+  -- Usage
+  calls INTEGER NOT NULL DEFAULT 1,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_agent_usage_user_id ON agent_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_usage_presentation_id ON agent_usage(presentation_id);
+
+-- Enable Row Level Security
+-- No policies: only the API (service role key, bypasses RLS) can access usage; it checks
+-- ownership
+ALTER TABLE agent_usage ENABLE ROW LEVEL SECURITY;
+
+-- Usage totals per workflow run (across resumes)
+ALTER TABLE agent_workflow_runs ADD COLUMN IF NOT EXISTS usage JSONB;
@@ -0,0 +1,40 @@
+-- Slide Revisions
+-- Version history of slides: the state of a slide before each change (manual edit,
+-- AI regeneration or restore), so single slides or whole presentations can be restored
+
+CREATE TABLE IF NOT EXISTS slide_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  presentation_id UUID REFERENCES presentations(id) ON DELETE CASCADE NOT NULL,
+  -- No foreign key: regenerating a presentation replaces its slides
+  slide_id UUID NOT NULL,
+  -- Revisions written by the same change (e.g. one regeneration of all slides)
+  batch_id UUID NOT NULL,
+  -- 'presentation': the batch holds all slides of the presentation (restorable as a whole)
+  scope TEXT NOT NULL DEFAULT 'slide' CHECK (scope IN ('slide', 'presentation')),
+
+  -- The change that replaced this state
+  source TEXT NOT NULL CHECK (source IN ('manual', 'ai', 'restore')),
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_by TEXT NOT NULL,
+
+  -- Slide state before the change
+  order_index INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  layout TEXT NOT NULL,
+  background_color TEXT,
+  background_image TEXT,
+  speaker_notes TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_slide_revisions_presentation_id ON slide_revisions(presentation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_slide_revisions_slide_id ON slide_revisions(slide_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_slide_revisions_batch_id ON slide_revisions(batch_id);
+
+-- Enable Row Level Security
+-- No policies: only the API (service role key, bypasses RLS) can access revisions; it checks
+-- presentation ownership
+ALTER TABLE slide_revisions ENABLE ROW LEVEL SECURITY;
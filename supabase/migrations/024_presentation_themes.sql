@@ -0,0 +1,61 @@
+-- Presentation Themes
+-- Custom (corporate) themes: fonts, colour palette, logo, footer text and master slide
+-- background. A theme belongs to a user and can be shared with a team (team_id).
+-- Presentations reference a custom theme via custom_theme_id; the built-in theme
+-- (presentations.theme) stays the fallback.
+
+CREATE TABLE IF NOT EXISTS presentation_themes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  -- Themes with a team_id are visible to every member of the team (team_members)
+  team_id TEXT,
+  name TEXT NOT NULL,
+
+  -- Colours as #RRGGBB: { primary, background, text, muted }
+  palette JSONB NOT NULL,
+  heading_font TEXT NOT NULL,
+  body_font TEXT NOT NULL,
+
+  -- Logo on every slide
+  logo_url TEXT,
+  logo_position TEXT NOT NULL DEFAULT 'top-right'
+    CHECK (logo_position IN ('top-left', 'top-right', 'bottom-left', 'bottom-right')),
+
+  -- Footer
+  footer_text TEXT,
+  show_slide_numbers BOOLEAN NOT NULL DEFAULT false,
+
+  -- Master slide background (slides with their own background keep it)
+  background_image TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_presentation_themes_user_id ON presentation_themes(user_id);
+CREATE INDEX IF NOT EXISTS idx_presentation_themes_team_id ON presentation_themes(team_id);
+
+-- Custom theme of a presentation
+ALTER TABLE presentations
+  ADD COLUMN IF NOT EXISTS custom_theme_id UUID REFERENCES presentation_themes(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+-- No policies: only the API (service role key, bypasses RLS) can access themes; it checks
+-- ownership and team membership (team_members)
+ALTER TABLE presentation_themes ENABLE ROW LEVEL SECURITY;
+
+-- Function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_presentation_themes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = TIMEZONE('utc', NOW());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_presentation_themes_updated_at_trigger
+  BEFORE UPDATE ON presentation_themes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_presentation_themes_updated_at();
@@ -0,0 +1,9 @@
+-- Slide Citations
+-- Research sources cited on a slide: [{ number, url, title, snippet, lines }]
+-- "number" is the "[n]" marker in the slide content, "lines" the content lines citing it
+
+ALTER TABLE slides
+  ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE slide_revisions
+  ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]'::jsonb;
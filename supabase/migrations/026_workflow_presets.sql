@@ -0,0 +1,46 @@
+-- Workflow Presets
+-- User-saved presets of the image workflows: full settings object plus optional prompt
+-- snippet and reference image. A preset belongs to a user and can be shared with a
+-- team (team_id). Settings are validated against the workflow's settings schema by the API.
+
+CREATE TABLE IF NOT EXISTS workflow_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  -- Presets with a team_id are visible to every member of the team (team_members)
+  team_id TEXT,
+  workflow TEXT NOT NULL
+    CHECK (workflow IN ('sketch-to-render', 'branding', 'furnish-empty', 'style-transfer', 'render-to-cad')),
+  name TEXT NOT NULL,
+
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Appended to the prompt when the preset is applied
+  prompt TEXT,
+  reference_image_url TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_workflow_presets_user_workflow ON workflow_presets(user_id, workflow);
+CREATE INDEX IF NOT EXISTS idx_workflow_presets_team_workflow ON workflow_presets(team_id, workflow);
+
+-- Enable Row Level Security
+-- No policies: only the API (service role key, bypasses RLS) can access presets; it checks
+-- ownership and team membership (team_members)
+ALTER TABLE workflow_presets ENABLE ROW LEVEL SECURITY;
+
+-- Function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_workflow_presets_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = TIMEZONE('utc', NOW());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_workflow_presets_updated_at_trigger
+  BEFORE UPDATE ON workflow_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_workflow_presets_updated_at();
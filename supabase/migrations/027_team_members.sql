@@ -0,0 +1,18 @@
+-- Team Members
+-- Membership of users in teams. Records with a team_id (presentation themes, workflow
+-- presets) are shared with the members of the team; the API checks membership here
+-- instead of trusting the team id sent by the client.
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  PRIMARY KEY (team_id, user_id)
+);
+
+-- Indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+-- Enable Row Level Security
+-- No policies: only the API (service role key, bypasses RLS) can read or write memberships
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
@@ -1,5 +1,7 @@
 // Central type definitions for the chat application
 
+import type { VideoModel, VideoProvider } from "./video";
+
 export interface Attachment {
   type: "image" | "pdf" | "video";
   url: string;
@@ -46,7 +48,9 @@ export interface Message {
   videoTask?: {
     taskId: string;
     status: "processing" | "succeed" | "failed";
-    model: "payperwork-v1" | "payperwork-v2";
+    model: VideoModel; // Model that served the task (may differ from requestedModel after failover)
+    provider?: VideoProvider;
+    requestedModel?: VideoModel;
     type: "text2video" | "image2video";
     duration: string;
     aspectRatio: string;
@@ -54,6 +54,23 @@ export type ManusTaskStatus =
  */
 export type ExportFormat = "pdf" | "pptx";
 
+/**
+ * Slide Revision Source (who changed the slide)
+ */
+export type SlideRevisionSource =
+  | "manual"     // Edited in the editor
+  | "ai"         // Regenerated by the pipeline
+  | "restore";   // Replaced by a restored revision
+
+/**
+ * Logo Position of a custom theme (slide corner)
+ */
+export type ThemeLogoPosition =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
 // ============================================
 // Database Models (matches Supabase schema)
 // ============================================
@@ -72,6 +89,7 @@ export interface Presentation {
   prompt: string;
   format: PresentationFormat;
   theme: PresentationTheme;
+  custom_theme_id?: string | null;  // Custom theme, overrides the built-in theme
   status: PresentationStatus;
   created_at: string;
   updated_at: string;
@@ -93,10 +111,25 @@ export interface Slide {
   background_color: string | null;
   background_image: string | null;
   speaker_notes: string | null;
+  citations?: SlideCitation[];  // Research sources of the slide's claims
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Slide Citation
+ *
+ * Research source cited on a slide. Claims carry the source number as a marker
+ * ("... 20% weniger CO₂ [3]"); numbers are the same on all slides of a presentation.
+ */
+export interface SlideCitation {
+  number: number;   // Position of the source in the research (1-based)
+  url: string;
+  title: string;
+  snippet: string;
+  lines: number[];  // Lines of the slide content (0-based) that cite the source
+}
+
 /**
  * Manus Task (Database Model)
  *
@@ -113,6 +146,106 @@ export interface ManusTask {
   updated_at: string;
 }
 
+/**
+ * Slide Revision (Database Model)
+ *
+ * State of a slide before a change, with who changed it, when and which fields.
+ * Maps to the `slide_revisions` table in Supabase.
+ */
+export interface SlideRevision {
+  id: string;
+  presentation_id: string;
+  slide_id: string;
+  batch_id: string;  // Revisions written by the same change
+  scope: "slide" | "presentation";  // presentation: batch holds all slides
+  source: SlideRevisionSource;
+  changed_fields: string[];
+  created_by: string;
+  order_index: number;
+  title: string;
+  content: string;
+  layout: SlideLayout;
+  background_color: string | null;
+  background_image: string | null;
+  speaker_notes: string | null;
+  citations?: SlideCitation[];
+  created_at: string;
+}
+
+/**
+ * Talk Script Section
+ *
+ * Speaker notes of a slide with their timing in the talk (seconds from the start)
+ */
+export interface TalkScriptSection {
+  slideId: string;
+  orderIndex: number;
+  title: string;
+  notes: string;
+  start: number;
+  duration: number;  // Estimated speaking time of the notes
+}
+
+/**
+ * Talk Script
+ *
+ * Rehearsal script of a presentation: the speaker notes of all slides in order
+ */
+export interface TalkScript {
+  sections: TalkScriptSection[];
+  totalSeconds: number;
+  text: string;  // Whole script with timing marks ("[02:30] Folie 3: ...")
+}
+
+/**
+ * Theme Palette (colours as #RRGGBB)
+ */
+export interface ThemePalette {
+  primary: string;     // Titles, headings, table header
+  background: string;
+  text: string;
+  muted: string;       // Subtitles, quotes, footer
+}
+
+/**
+ * Custom Theme (Database Model)
+ *
+ * Corporate theme with fonts, palette, logo, footer and master slide background.
+ * Maps to the `presentation_themes` table in Supabase.
+ */
+export interface CustomTheme {
+  id: string;
+  user_id: string;
+  team_id: string | null;  // Shared with the team
+  name: string;
+  palette: ThemePalette;
+  heading_font: string;
+  body_font: string;
+  logo_url: string | null;
+  logo_position: ThemeLogoPosition;
+  footer_text: string | null;
+  show_slide_numbers: boolean;
+  background_image: string | null;  // Master slide background
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Slide Theme
+ *
+ * Built-in or custom theme resolved for rendering
+ * (SlideCanvas, live preview, PPTX and PDF export)
+ */
+export interface SlideTheme {
+  palette: ThemePalette;
+  headingFont: string;
+  bodyFont: string;
+  logo: { url: string; position: ThemeLogoPosition } | null;
+  footerText: string | null;
+  showSlideNumbers: boolean;
+  backgroundImage: string | null;
+}
+
 // ============================================
 // API Request/Response Types
 // ============================================
@@ -204,6 +337,40 @@ export interface DeletePresentationRequest {
   presentation_id: string;
 }
 
+/**
+ * Restore Revision Request
+ *
+ * Payload for POST /api/slides/[id]/revisions/restore
+ * (revisionId restores one slide, batchId the whole presentation)
+ */
+export interface RestoreRevisionRequest {
+  userId: string;
+  revisionId?: string;
+  batchId?: string;
+}
+
+/**
+ * Set Presentation Theme Request
+ *
+ * Payload for PUT /api/slides/[id]/theme (customThemeId null: built-in theme only)
+ */
+export interface SetPresentationThemeRequest {
+  userId: string;
+  theme?: PresentationTheme;
+  customThemeId?: string | null;
+}
+
+/**
+ * Generate Talk Script Request
+ *
+ * Payload for POST /api/slides/[id]/script
+ */
+export interface GenerateTalkScriptRequest {
+  userId: string;
+  secondsPerSlide?: number;  // Target speaking time per slide (default: 60)
+  onlyMissing?: boolean;  // Keep existing speaker notes
+}
+
 // ============================================
 // Manus API Types
 // ============================================
@@ -273,6 +440,37 @@ export interface SlideEditorProps {
   onSlideUpdate: (slideId: string, data: UpdateSlideRequest) => void;
   onSlideDelete: (slideId: string) => void;
   onSlideReorder: (fromIndex: number, toIndex: number) => void;
+  onSlidesReplace?: (slides: Slide[]) => void;
+}
+
+/**
+ * Slide Rewrite Props
+ */
+export interface SlideRewriteProps {
+  presentation: Presentation;
+  currentSlide?: Slide;
+  onRewrite: (slide: Slide) => void;
+}
+
+/**
+ * Slide History Props
+ */
+export interface SlideHistoryProps {
+  presentation: Presentation;
+  currentSlide?: Slide;
+  onRestore: (slides: Slide[]) => void;
+}
+
+/**
+ * Talk Script Panel Props
+ */
+export interface TalkScriptPanelProps {
+  presentation: Presentation;
+  slides: Slide[];
+  currentSlide?: Slide;
+  onSlideSelect: (index: number) => void;
+  onNotesChange: (slideId: string, notes: string) => void;
+  onGenerated: (slides: Slide[]) => void;
 }
 
 /**
@@ -291,6 +489,7 @@ export interface SlideListProps {
 export interface SlideCanvasProps {
   slide: Slide;
   theme: PresentationTheme;
+  customTheme?: CustomTheme | null;
   format: PresentationFormat;
   isEditable?: boolean;
   onUpdate?: (data: UpdateSlideRequest) => void;
@@ -0,0 +1,44 @@
+/**
+ * Type definitions for token usage and cost accounting
+ * (per-call records are collected by lib/agents/base/usage.ts)
+ */
+
+import type { UsageTotals } from "@/lib/agents/base/types";
+
+export type { UsageTotals };
+
+/**
+ * What the usage was spent on
+ */
+export type UsageSource =
+  | "slides_topics"
+  | "slides_generation"
+  | "slides_pipeline"
+  | "slides_rewrite"
+  | "slides_script"
+  | "agent_workflow"
+  | (string & {});
+
+/**
+ * Usage of a single presentation (all generations)
+ */
+export interface PresentationUsage extends UsageTotals {
+  presentationId: string;
+  title?: string;
+}
+
+/**
+ * Aggregated usage of a user since a given date
+ */
+export interface UserUsageSummary {
+  /** Start of the period (ISO) */
+  since: string;
+
+  totals: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  /** Totals per UsageSource */
+  bySource: Record<string, UsageTotals>;
+
+  /** Presentations by cost (most expensive first) */
+  presentations: PresentationUsage[];
+}
@@ -3,19 +3,26 @@
  */
 
 /**
- * Video generation model selection (API model names)
+ * Built-in video generation models (API model names)
  * - payperwork-v1: Uses Kling AI (high quality, slower, advanced features)
  * - payperwork-v2: Uses fal.ai Sora 2 (faster, different style)
+ */
+export type BuiltInVideoModel = "payperwork-v1" | "payperwork-v2";
+
+/**
+ * Video generation model selection (API model names)
+ * Open union: additional models can be added through the provider registry
+ * (see lib/video/providers/ProviderRegistry.ts)
  *
  * Note: UI uses "kling" | "sora2" - see VideoModel in ChatHeader
  */
-export type VideoModel = "payperwork-v1" | "payperwork-v2";
+export type VideoModel = BuiltInVideoModel | (string & {});
 
 /**
  * UI Video model selection
  * This is what users see and select in the UI
  */
-export type UIVideoModel = "kling" | "sora2";
+export type UIVideoModel = "kling" | "sora2" | (string & {});
 
 /**
  * Video generation type
@@ -32,7 +39,78 @@ export type VideoStatus = "processing" | "succeed" | "failed";
 /**
  * Video provider
  */
-export type VideoProvider = "kling" | "fal";
+export type VideoProvider = "kling" | "fal" | (string & {});
+
+/**
+ * API keys a provider needs (see validateApiKeys in lib/api-security)
+ */
+export type VideoProviderApiKey = "openai" | "kling" | "fal" | "supabase" | "google-gemini";
+
+/**
+ * Selectable option for a provider setting (value + UI label)
+ */
+export interface VideoSettingOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * What a provider can do - drives UI options and request validation
+ */
+export interface VideoProviderCapabilities {
+  text2video: boolean;
+  image2video: boolean;
+  durations: readonly VideoSettingOption[];
+  aspectRatios: readonly VideoSettingOption[]; // text2video
+  imageAspectRatios: readonly VideoSettingOption[]; // image2video (may include "original" / "auto")
+  modes: readonly VideoSettingOption[]; // Empty if the provider has no quality modes
+  cameraMovement: boolean;
+  audio: boolean;
+}
+
+/**
+ * Provider-specific constraints and defaults
+ */
+export interface VideoProviderConstraints {
+  defaults: {
+    duration: string;
+    aspectRatio: string;
+    mode?: "std" | "pro";
+  };
+  cfgScale?: { min: number; max: number };
+}
+
+/**
+ * Provider pricing used for cost-aware routing (approximate list prices)
+ */
+export interface VideoProviderPricing {
+  usdPerSecond: number;
+  modeMultipliers?: Partial<Record<"std" | "pro", number>>; // e.g. pro mode costs more
+}
+
+/**
+ * How the provider router orders candidate providers
+ * - requested: the requested model first, compatible providers as fallback
+ * - cheapest: compatible providers ordered by estimated cost
+ */
+export type VideoRoutingPolicy = "requested" | "cheapest";
+
+/**
+ * Declaration of a video provider
+ * Each VideoProvider subclass exposes one of these; factory, validation
+ * and UI all derive from it.
+ */
+export interface VideoProviderDefinition {
+  id: VideoModel; // API model name, e.g. "payperwork-v1"
+  uiModel: UIVideoModel; // UI model name, e.g. "kling"
+  provider: VideoProvider; // Backend name, e.g. "kling"
+  name: string; // Display name in the model picker
+  version: string; // Display version in the model picker
+  requiredApiKeys: readonly VideoProviderApiKey[];
+  capabilities: VideoProviderCapabilities;
+  constraints: VideoProviderConstraints;
+  pricing?: VideoProviderPricing;
+}
 
 /**
  * Unified request body for video generation
@@ -74,6 +152,7 @@ export interface VideoGenerationResponse {
   provider?: VideoProvider;
   model?: VideoModel;
   type?: VideoType;
+  duration?: string; // Set when a failover provider served another duration than requested
 }
 
 /**
@@ -86,3 +165,42 @@ export interface VideoTask {
   type: VideoType;
   error?: string;
 }
+
+/**
+ * Server-side video job (persisted in the video_jobs table)
+ * The job owns the provider task id; the server worker polls it to completion
+ */
+export interface VideoJob {
+  id: string;
+  userId: string;
+  messageId?: string;
+  conversationId?: string;
+  model: VideoModel; // Model that serves the task (may differ after failover)
+  requestedModel?: VideoModel; // Model the user selected
+  type: VideoType;
+  taskId: string;
+  status: VideoStatus;
+  prompt?: string;
+  settings: {
+    duration?: string;
+    aspectRatio?: string;
+    mode?: "std" | "pro";
+  };
+  videoUrl?: string;
+  libraryItemId?: string;
+  error?: string;
+  pollAttempts: number;
+  consecutiveErrors: number;
+  nextPollAt: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Payload of the video job socket event pushed to the user's room
+ */
+export interface VideoJobUpdateEvent {
+  job: VideoJob;
+  timestamp?: string;
+}
@@ -0,0 +1,21 @@
+/**
+ * Workflow Preset Types
+ *
+ * User-saved presets of the image workflows (see supabase/migrations/026_workflow_presets.sql)
+ */
+
+/**
+ * Workflow Preset (database row)
+ */
+export interface WorkflowPreset<TSettings = Record<string, unknown>> {
+  id: string;
+  user_id: string;
+  team_id: string | null; // Shared with the team
+  workflow: string; // Workflow slug, e.g. "branding"
+  name: string;
+  settings: TSettings; // Full settings object, validated against the workflow's settings schema
+  prompt: string | null; // Prompt snippet, appended when the preset is applied
+  reference_image_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -64,6 +64,27 @@ export interface SketchToRenderSettingsType {
   [key: string]: unknown;
 }
 
+/**
+ * Settings that can be varied in a batch generation
+ */
+export type SketchToRenderVariationKey =
+  | "spaceType"
+  | "aspectRatio"
+  | "designStyle"
+  | "renderStyle"
+  | "timeOfDay"
+  | "season"
+  | "weather"
+  | "quality";
+
+/**
+ * Values to try per setting - a batch renders every combination
+ * (e.g. { timeOfDay: ["morning", "evening", "night"] } renders three variants)
+ */
+export type SketchToRenderVariations = {
+  [K in SketchToRenderVariationKey]?: Array<NonNullable<SketchToRenderSettingsType[K]>>;
+};
+
 /**
  * Default sketch-to-render settings with all fields set to null
  * Use as starting point for new render configurations